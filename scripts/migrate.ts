@@ -0,0 +1,129 @@
+/**
+ * 租户库结构迁移命令行
+ *
+ * 用法：
+ *   npm run db:migrate -- --status   --url wss://host/rpc --database TENANT
+ *   npm run db:migrate -- --dry-run  [--url ... --database TENANT]
+ *   npm run db:migrate -- --url wss://host/rpc --database TENANT
+ *   npm run db:migrate -- --baseline 0009_extraction_templates --url wss://host/rpc --database TENANT
+ *
+ * 连接参数也可通过环境变量 SURREALDB_URL / SURREALDB_NAMESPACE / SURREALDB_DATABASE /
+ * SURREALDB_USERNAME / SURREALDB_PASSWORD 提供。
+ * --dry-run 在内存中的 @surrealdb/node 实例上从头执行全部迁移，不修改目标库；未指定 --url 时只做脚本校验。
+ * --baseline 将指定版本及之前的迁移记为已执行并写入校验和，不执行脚本。用于接入迁移工具之前已建好结构的租户库，
+ * 以及脚本自行写入、缺少校验和的执行记录；登记前须核对库结构确实与这些脚本一致。
+ */
+import { readFile, readdir } from 'fs/promises';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { Surreal } from 'surrealdb';
+import { surrealdbNodeEngines } from '@surrealdb/node';
+import { MigrationRunner, MigrationError, type MigrationExecutor } from '../src/lib/migrationRunner';
+import { buildTenantMigrations } from '../src/lib/tenantMigrations';
+
+const rootDir = path.resolve(import.meta.dirname, '..');
+
+const { values: args } = parseArgs({
+  options: {
+    url: { type: 'string', default: process.env.SURREALDB_URL },
+    namespace: { type: 'string', default: process.env.SURREALDB_NAMESPACE || 'ck_go' },
+    database: { type: 'string', default: process.env.SURREALDB_DATABASE },
+    username: { type: 'string', default: process.env.SURREALDB_USERNAME || 'root' },
+    password: { type: 'string', default: process.env.SURREALDB_PASSWORD || 'root' },
+    'dry-run': { type: 'boolean', default: false },
+    status: { type: 'boolean', default: false },
+    baseline: { type: 'string' },
+  },
+});
+
+async function loadMigrations() {
+  const migrationsDir = path.join(rootDir, 'migrations');
+  const files: Record<string, string> = {};
+  for (const name of (await readdir(migrationsDir)).filter(file => file.endsWith('.surql'))) {
+    files[name] = await readFile(path.join(migrationsDir, name), 'utf-8');
+  }
+  const baseSchema = await readFile(path.join(rootDir, 'src/lib/surreal_schemas.surql'), 'utf-8');
+  return buildTenantMigrations(baseSchema, files);
+}
+
+interface Connection extends MigrationExecutor {
+  close(): Promise<unknown>;
+}
+
+/**
+ * 连接内存中的嵌入式数据库
+ * @surrealdb/node 1.x 只兼容它自身依赖的 surrealdb 1.x 驱动，这里按引擎所在位置解析驱动
+ */
+async function connectMemory(database: string): Promise<Connection> {
+  const engineRequire = createRequire(fileURLToPath(import.meta.resolve('@surrealdb/node')));
+  const { Surreal: EmbeddedSurreal } = await import(pathToFileURL(engineRequire.resolve('surrealdb')).href);
+  const db = new EmbeddedSurreal({ engines: surrealdbNodeEngines() });
+  await db.connect('mem://');
+  await db.use({ namespace: 'dry_run', database });
+  return db;
+}
+
+async function connectTarget(): Promise<Surreal> {
+  if (!args.url || !args.database) {
+    throw new Error('缺少目标库参数 --url 和 --database');
+  }
+  const db = new Surreal();
+  await db.connect(args.url, {
+    namespace: args.namespace,
+    database: args.database,
+    auth: { username: args.username!, password: args.password! },
+  });
+  return db;
+}
+
+async function main(): Promise<void> {
+  const migrations = await loadMigrations();
+  const connections: Connection[] = [];
+
+  try {
+    // 演练且未指定目标库时，以空的内存库作为目标，只校验脚本能否从头执行
+    const target = args['dry-run'] && !args.url
+      ? await connectMemory('target')
+      : await connectTarget();
+    connections.push(target);
+    const runner = new MigrationRunner(target, migrations);
+
+    if (args.status) {
+      const { applied, pending } = await runner.status();
+      for (const record of applied) {
+        console.log(`  已执行  ${record.version}  ${record.applied_at}`);
+      }
+      for (const migration of pending) {
+        console.log(`  待执行  ${migration.id}  ${migration.description}`);
+      }
+      return;
+    }
+
+    if (args.baseline) {
+      const recorded = await runner.baseline(args.baseline);
+      console.log(recorded.length > 0 ? `已登记：${recorded.join(', ')}` : `${args.baseline} 及之前的迁移均已登记`);
+      return;
+    }
+
+    if (args['dry-run']) {
+      const scratch = await connectMemory('scratch');
+      connections.push(scratch);
+      const { pending, verified } = await runner.dryRun(scratch);
+      console.log(`演练通过：${verified.length} 个迁移可从头执行`);
+      console.log(pending.length > 0 ? `目标库待执行：${pending.join(', ')}` : '目标库已是最新版本');
+      return;
+    }
+
+    const applied = await runner.migrate();
+    console.log(applied.length > 0 ? `已执行：${applied.join(', ')}` : '目标库已是最新版本');
+  } finally {
+    await Promise.all(connections.map(db => db.close()));
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof MigrationError ? error.message : error);
+  process.exit(1);
+});
@@ -20,6 +20,7 @@ import { LayoutProvider } from "@/src/contexts/LayoutContext"; // Import LayoutP
 import Layout from "@/src/components/Layout";
 import ProtectedRoute from "@/src/components/ProtectedRoute";
 import GlobalLoader from "@/src/components/GlobalLoader"; // ADDED
+import SessionExpiredDialog from "@/src/components/SessionExpiredDialog";
 import { RecordId } from "surrealdb";
 
 // Lazy load pages for better performance
@@ -57,6 +58,7 @@ const ClaimReviewDetailPage = React.lazy(
   () => import("@/src/pages/claims/[claimId]/review"),
 );
 const OnlineMeetingPage = React.lazy(() => import("@/src/pages/meetings"));
+const CaseCalendarPage = React.lazy(() => import("@/src/pages/case-calendar"));
 const MessageCenterPage = React.lazy(() => import("@/src/pages/messages"));
 const AdminPage = React.lazy(() => import("@/src/pages/admin/index"));
 const AdminThemePage = React.lazy(() => import("@/src/pages/admin/theme"));
@@ -70,7 +72,12 @@ const RegisterPage = React.lazy(() => import("@/src/pages/register"));
 const AdminCreateClaimAttachmentsPage = React.lazy(
   () => import("@/src/pages/admin/create-claim-attachments"),
 );
-// const NotificationRuleManagementPage = React.lazy(() => import('@/src/pages/admin/manage/notification-rules'));
+const NotificationRuleManagementPage = React.lazy(
+  () => import("@/src/pages/admin/manage/notification-rules"),
+);
+const ExtractionTemplateManagementPage = React.lazy(
+  () => import("@/src/pages/admin/manage/extraction-templates"),
+);
 // Note: ReviewStatusManagementPage and RoleManagementPage were not previously imported in App.tsx, so no path update needed here for them.
 const PermissionManagementPage = React.lazy(
   () => import("@/src/pages/admin/manage/permissions"),
@@ -377,6 +384,16 @@ function App() {
                         ) as ReactNode
                       }
                     />
+                    <Route
+                      path="/case-calendar"
+                      element={
+                        (
+                          <ProtectedRoute>
+                            <CaseCalendarPage />
+                          </ProtectedRoute>
+                        ) as ReactNode
+                      }
+                    />
                     <Route
                       path="/messages"
                       element={
@@ -437,6 +454,26 @@ function App() {
                         ) as ReactNode
                       }
                     />
+                    <Route
+                      path="/admin/manage/notification-rules"
+                      element={
+                        (
+                          <ProtectedRoute requiredRole="admin">
+                            <NotificationRuleManagementPage />
+                          </ProtectedRoute>
+                        ) as ReactNode
+                      }
+                    />
+                    <Route
+                      path="/admin/manage/extraction-templates"
+                      element={
+                        (
+                          <ProtectedRoute requiredRole="admin">
+                            <ExtractionTemplateManagementPage />
+                          </ProtectedRoute>
+                        ) as ReactNode
+                      }
+                    />
                     <Route
                       path="/admin/case-status-toggler"
                       element={
@@ -472,6 +509,7 @@ function App() {
                   </Routes>
                 </Suspense>
               </Layout>
+              <SessionExpiredDialog />
               {import.meta.env.DEV && <DebugPanel />}
             </LayoutProvider>{" "}
             {/* <-- ADDED LAYOUT PROVIDER */}
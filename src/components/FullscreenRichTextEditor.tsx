@@ -28,6 +28,10 @@ interface RichTextEditorProps {
   };
   enableFullscreen?: boolean;
   onFullscreenChange?: (isFullscreen: boolean) => void;
+  enableComments?: boolean;
+  suggestOnly?: boolean;
+  canReviewSuggestions?: boolean;
+  enableVersionHistory?: boolean;
 }
 
 interface FullscreenRichTextEditorProps extends Omit<RichTextEditorProps, 'enableFullscreen' | 'onFullscreenChange'> {
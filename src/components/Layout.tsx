@@ -40,6 +40,7 @@ import {
   mdiFileDocumentOutline,
   mdiChartBar,
   mdiVideo,
+  mdiCalendarClock,
   mdiMessageTextOutline,
   mdiCog,
   mdiLogout,
@@ -61,6 +62,7 @@ const iconMap: { [key: string]: string } = {
   'mdiFileDocumentOutline': mdiFileDocumentOutline,
   'mdiChartBar': mdiChartBar,
   'mdiVideo': mdiVideo,
+  'mdiCalendarClock': mdiCalendarClock,
   'mdiMessageTextOutline': mdiMessageTextOutline,
   'mdiCog': mdiCog,
   'mdiFileDocumentSearchOutline': mdiTextBoxMultipleOutline,
@@ -1,12 +1,337 @@
-// CollaborationManager temporarily disabled due to worker refactoring
-// TODO: Refactor this component to work with new SurrealWorkerAPI
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Box } from '@mui/material';
+import type { Range as QuillRange } from 'quill/core';
+import Delta from 'quill-delta';
+import { DeltaSyncClient } from '@/src/utils/deltaSync';
+import {
+  CURSOR_STALE_MS,
+  DocumentCollaborationService
+} from '@/src/services/documentCollaborationService';
+import type { CollaboratorCursor } from '@/src/services/documentCollaborationService';
+import type { CollaborationManagerProps, RemoteCursor } from './types';
 
-import type { CollaborationManagerProps } from './types';
+// 本地光标上报的节流间隔
+const CURSOR_THROTTLE_MS = 150;
+// 在线心跳间隔，需小于光标过期时长
+const HEARTBEAT_MS = 20 * 1000;
+// 累计修改次数或间隔达到阈值后保存协作快照
+const SNAPSHOT_EVERY_CHANGES = 50;
+const SNAPSHOT_INTERVAL_MS = 60 * 1000;
 
-const CollaborationManager: React.FC<CollaborationManagerProps> = () => {
-  // Temporarily disabled during worker refactoring
-  console.log('[CollaborationManager] Temporarily disabled during worker API refactoring');
-  return null;
+const CURSOR_COLORS = ['#e53935', '#8e24aa', '#3949ab', '#039be5', '#00897b', '#7cb342', '#fb8c00', '#6d4c41'];
+
+const colorForUser = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+const toRemoteCursor = (cursor: CollaboratorCursor): RemoteCursor => {
+  const userId = String(cursor.user_id);
+  return {
+    userId,
+    userName: cursor.user_name,
+    range: cursor.range ?? { index: 0, length: 0 },
+    ts: String(cursor.updated_at),
+    color: cursor.color || colorForUser(userId)
+  };
+};
+
+/**
+ * 实时协作编辑：通过 SurrealDB 实时查询同步增量和光标，
+ * 本地与远程修改按操作变换合并，断线重连后从最后确认的序号补齐
+ */
+const CollaborationManager: React.FC<CollaborationManagerProps> = ({
+  quillRef,
+  config,
+  onTextChange,
+  onSelectionChange,
+  onRemoteCursorsChange
+}) => {
+  const { documentId, userId, userName, surreal, isConnected } = config;
+  const service = useMemo(() => new DocumentCollaborationService(surreal), [surreal]);
+
+  const [cursors, setCursors] = useState<Record<string, RemoteCursor>>({});
+  // 内容变化后递增以触发重新渲染，重新计算远程光标位置
+  const [, setLayoutVersion] = useState(0);
+  const syncRef = useRef<DeltaSyncClient | null>(null);
+  const reportCursorRef = useRef<(() => void) | null>(null);
+  const wasConnectedRef = useRef(isConnected);
+
+  // 回调可能每次渲染都变化，通过 ref 读取，避免重新建立协作会话
+  const callbacksRef = useRef({ onTextChange, onSelectionChange, onRemoteCursorsChange });
+  callbacksRef.current = { onTextChange, onSelectionChange, onRemoteCursorsChange };
+
+  useEffect(() => {
+    callbacksRef.current.onRemoteCursorsChange(cursors);
+  }, [cursors]);
+
+  useEffect(() => {
+    const quill = quillRef.current?.getQuill();
+    if (!quill || !documentId || !userId) {
+      return;
+    }
+
+    const clientId = crypto.randomUUID();
+    const color = colorForUser(userId);
+    const cleanups: Array<() => void> = [];
+    let disposed = false;
+    let applyingRemote = false;
+    let changesSinceSnapshot = 0;
+    let hasLocalChanges = false;
+    let lastSnapshotAt = Date.now();
+    let cursorTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const upsertCursor = () => {
+      service
+        .updateCursor(documentId, { user_name: userName, color, range: quill.getSelection() })
+        .catch(error => console.error('[CollaborationManager] 更新光标失败:', error));
+    };
+    reportCursorRef.current = upsertCursor;
+
+    const saveSnapshot = () => {
+      const sync = syncRef.current;
+      if (!sync || !sync.isSynchronized() || !hasLocalChanges || changesSinceSnapshot === 0) {
+        return;
+      }
+      changesSinceSnapshot = 0;
+      hasLocalChanges = false;
+      lastSnapshotAt = Date.now();
+      service
+        .saveSnapshot(documentId, sync.getRevision(), quill.getContents())
+        .catch(error => console.error('[CollaborationManager] 保存协作快照失败:', error));
+    };
+
+    const setRemoteCursor = (cursorUserId: string, cursor: CollaboratorCursor | null) => {
+      if (cursorUserId === userId) {
+        return;
+      }
+      setCursors(prev => {
+        const next = { ...prev };
+        if (cursor) {
+          next[cursorUserId] = toRemoteCursor(cursor);
+        } else {
+          delete next[cursorUserId];
+        }
+        return next;
+      });
+    };
+
+    // 远程修改后按增量平移其他协作者的光标
+    const shiftCursors = (delta: Delta) => {
+      setCursors(prev => {
+        const next: Record<string, RemoteCursor> = {};
+        Object.entries(prev).forEach(([id, cursor]) => {
+          const start = delta.transformPosition(cursor.range.index);
+          const end = delta.transformPosition(cursor.range.index + cursor.range.length);
+          next[id] = { ...cursor, range: { index: start, length: Math.max(0, end - start) } };
+        });
+        return next;
+      });
+    };
+
+    const handleTextChange = (delta: Delta) => {
+      setLayoutVersion(version => version + 1);
+      if (applyingRemote || !syncRef.current) {
+        return;
+      }
+      hasLocalChanges = true;
+      shiftCursors(delta);
+      syncRef.current.applyLocal(delta);
+    };
+
+    const handleSelectionChange = (range: QuillRange | null, oldRange: QuillRange | null, source: string) => {
+      callbacksRef.current.onSelectionChange?.(range, oldRange, source);
+      if (!range || cursorTimer) {
+        return;
+      }
+      cursorTimer = setTimeout(() => {
+        cursorTimer = null;
+        upsertCursor();
+      }, CURSOR_THROTTLE_MS);
+    };
+
+    const start = async () => {
+      quill.disable();
+      try {
+        let state = await service.loadDocument(documentId);
+        if (!state.content) {
+          // 文档首次协作编辑，以当前内容作为序号 0 的快照
+          const seed = quill.getContents();
+          const seeded = await service.saveSnapshot(documentId, 0, seed);
+          state = seeded ? { content: seed, sequence: 0 } : await service.loadDocument(documentId);
+        }
+        if (disposed) {
+          return;
+        }
+
+        if (state.content && quill.getContents().diff(state.content).length() > 0) {
+          applyingRemote = true;
+          quill.setContents(state.content, 'api');
+          applyingRemote = false;
+        }
+
+        const sync = new DeltaSyncClient(
+          clientId,
+          state.sequence,
+          {
+            submit: (sequence, delta) => service.submitDelta(documentId, sequence, delta, clientId),
+            fetchSince: sequence => service.fetchDeltasSince(documentId, sequence)
+          },
+          {
+            applyRemote: delta => {
+              applyingRemote = true;
+              quill.updateContents(delta, 'api');
+              applyingRemote = false;
+              shiftCursors(delta);
+              changesSinceSnapshot++;
+              // 本地修改已由编辑器自身的 text-change 回调通知，这里只通知远程修改
+              callbacksRef.current.onTextChange?.(quill.getContents(), delta, 'api');
+            },
+            onAcknowledged: () => {
+              changesSinceSnapshot++;
+              if (changesSinceSnapshot >= SNAPSHOT_EVERY_CHANGES) {
+                saveSnapshot();
+              }
+            },
+            onError: error => console.error('[CollaborationManager] 同步协作增量失败:', error)
+          }
+        );
+        syncRef.current = sync;
+
+        // 订阅建立期间组件可能已卸载，此时立即取消订阅
+        const track = (cleanup: () => void) => (disposed ? cleanup() : cleanups.push(cleanup));
+        track(await service.subscribeDeltas(documentId, delta => sync.receive(delta)));
+        track(await service.subscribeCursors(documentId, setRemoteCursor));
+        if (disposed) {
+          return;
+        }
+
+        // 订阅建立前产生的增量通过补齐获取
+        await sync.catchUp();
+        const existing = await service.fetchCursors(documentId);
+        existing.forEach(cursor => setRemoteCursor(String(cursor.user_id), cursor));
+        upsertCursor();
+      } catch (error) {
+        console.error('[CollaborationManager] 启动协作编辑失败:', error);
+      } finally {
+        if (!disposed) {
+          quill.enable();
+        }
+      }
+    };
+
+    quill.on('text-change', handleTextChange);
+    quill.on('selection-change', handleSelectionChange);
+    start();
+
+    const heartbeat = setInterval(() => {
+      upsertCursor();
+      // 清理长时间未更新的离线光标
+      const now = Date.now();
+      setCursors(prev => {
+        const active = Object.entries(prev).filter(([, cursor]) => now - new Date(cursor.ts).getTime() < CURSOR_STALE_MS);
+        return active.length === Object.keys(prev).length ? prev : Object.fromEntries(active);
+      });
+      if (now - lastSnapshotAt >= SNAPSHOT_INTERVAL_MS) {
+        saveSnapshot();
+      }
+    }, HEARTBEAT_MS);
+
+    return () => {
+      disposed = true;
+      saveSnapshot();
+      clearInterval(heartbeat);
+      if (cursorTimer) {
+        clearTimeout(cursorTimer);
+      }
+      quill.off('text-change', handleTextChange);
+      quill.off('selection-change', handleSelectionChange);
+      cleanups.forEach(cleanup => cleanup());
+      service.removeCursor(documentId).catch(() => { /* 离开时连接可能已断开 */ });
+      syncRef.current = null;
+      reportCursorRef.current = null;
+      setCursors({});
+    };
+  }, [quillRef, documentId, userId, userName, service]);
+
+  // 断线重连后补齐错过的增量，并重新上报光标
+  useEffect(() => {
+    if (isConnected && !wasConnectedRef.current) {
+      syncRef.current?.catchUp();
+      reportCursorRef.current?.();
+    }
+    wasConnectedRef.current = isConnected;
+  }, [isConnected]);
+
+  const quill = quillRef.current?.getQuill();
+  if (!quill) {
+    return null;
+  }
+
+  // 远程光标和选区叠加在编辑区域上
+  const overlays = Object.values(cursors).map(cursor => {
+    const length = quill.getLength();
+    const index = Math.min(cursor.range.index, Math.max(0, length - 1));
+    const caret = quill.getBounds(index);
+    if (!caret) {
+      return null;
+    }
+    const selections = cursor.range.length > 0
+      ? quill.getLines(index, cursor.range.length).map(line => {
+        const lineStart = quill.getIndex(line);
+        const from = Math.max(index, lineStart);
+        const to = Math.min(index + cursor.range.length, lineStart + line.length() - 1);
+        return to > from ? quill.getBounds(from, to - from) : null;
+      })
+      : [];
+    return (
+      <React.Fragment key={cursor.userId}>
+        {selections.map((bounds, i) => bounds && (
+          <Box
+            key={i}
+            sx={{
+              position: 'absolute',
+              left: bounds.left,
+              top: bounds.top,
+              width: bounds.width,
+              height: bounds.height,
+              bgcolor: cursor.color,
+              opacity: 0.2
+            }}
+          />
+        ))}
+        <Box sx={{ position: 'absolute', left: caret.left, top: caret.top, height: caret.height, width: 2, bgcolor: cursor.color }}>
+          <Box
+            sx={{
+              position: 'absolute',
+              top: -18,
+              left: 0,
+              px: 0.5,
+              fontSize: 11,
+              lineHeight: '16px',
+              color: '#fff',
+              whiteSpace: 'nowrap',
+              borderRadius: 0.5,
+              bgcolor: cursor.color
+            }}
+          >
+            {cursor.userName || cursor.userId}
+          </Box>
+        </Box>
+      </React.Fragment>
+    );
+  });
+
+  return createPortal(
+    <Box sx={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 1 }}>
+      {overlays}
+    </Box>,
+    quill.container
+  );
 };
 
-export default CollaborationManager;
\ No newline at end of file
+export default CollaborationManager;
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Divider,
+  FormControlLabel,
+  Paper,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { SUGGESTION_STATUS_LABELS } from '@/src/types/documentComment';
+import type { DocumentComment } from '@/src/types/documentComment';
+import type { CommentThreadsPanelProps } from './types';
+
+const formatTime = (value?: string) => (value ? format(new Date(value), 'MM-dd HH:mm') : '');
+
+const CommentLine: React.FC<{ comment: DocumentComment }> = ({ comment }) => (
+  <Box>
+    <Stack direction="row" spacing={1} alignItems="baseline">
+      <Typography variant="subtitle2">{comment.user_name || String(comment.user_id)}</Typography>
+      <Typography variant="caption" color="text.secondary">{formatTime(comment.created_at)}</Typography>
+    </Stack>
+    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+      {comment.comment_text}
+    </Typography>
+  </Box>
+);
+
+/**
+ * 批注线程面板：新建批注、回复、解决/重新打开批注，以及采纳或拒绝修改建议
+ */
+const CommentThreadsPanel: React.FC<CommentThreadsPanelProps> = ({
+  threads,
+  draft,
+  activeThreadKey,
+  canReviewSuggestions = false,
+  onSubmitDraft,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onReopen,
+  onDecideSuggestion,
+  onFocusThread,
+}) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const [draftText, setDraftText] = useState('');
+  const [replyTexts, setReplyTexts] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusyKey(key);
+    try {
+      await action();
+    } catch (error) {
+      console.error('[CommentThreadsPanel] 批注操作失败:', error);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const visibleThreads = threads.filter(thread => showResolved || !thread.resolved_at);
+  const openCount = threads.filter(thread => !thread.resolved_at).length;
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          {t('comments_title', '批注')}（{openCount}）
+        </Typography>
+        <FormControlLabel
+          control={<Switch size="small" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />}
+          label={<Typography variant="caption">{t('show_resolved_comments', '显示已解决')}</Typography>}
+        />
+      </Stack>
+
+      {draft && (
+        <Paper variant="outlined" sx={{ p: 1.5, mb: 1.5, borderColor: 'primary.main' }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }} noWrap>
+            “{draft.text}”
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            minRows={2}
+            size="small"
+            placeholder={t('comment_placeholder', '输入批注...')}
+            value={draftText}
+            onChange={(e) => setDraftText(e.target.value)}
+          />
+          <Stack direction="row" justifyContent="flex-end" spacing={1} mt={1}>
+            <Button size="small" onClick={() => { setDraftText(''); onCancelDraft(); }}>
+              {t('cancel', '取消')}
+            </Button>
+            <Button
+              size="small"
+              variant="contained"
+              disabled={!draftText.trim() || busyKey === 'draft'}
+              onClick={() => run('draft', async () => {
+                await onSubmitDraft(draftText.trim());
+                setDraftText('');
+              })}
+            >
+              {t('add_comment', '添加批注')}
+            </Button>
+          </Stack>
+        </Paper>
+      )}
+
+      {visibleThreads.length === 0 && !draft && (
+        <Typography variant="body2" color="text.secondary">
+          {t('no_comments', '暂无批注，选中文字后点击工具栏的批注按钮添加')}
+        </Typography>
+      )}
+
+      <Stack spacing={1.5}>
+        {visibleThreads.map(thread => {
+          const isSuggestion = thread.comment_type === 'suggestion';
+          const pendingSuggestion = isSuggestion && thread.suggestion?.status === 'pending';
+          const quoted = thread.anchor?.text ?? thread.selection_details?.text;
+          const replyText = replyTexts[thread.key] || '';
+          const busy = busyKey === thread.key;
+          return (
+            <Paper
+              key={thread.key}
+              variant="outlined"
+              onClick={() => onFocusThread(thread)}
+              sx={{
+                p: 1.5,
+                cursor: 'pointer',
+                opacity: thread.resolved_at ? 0.7 : 1,
+                borderColor: activeThreadKey === thread.key ? 'primary.main' : 'divider',
+                bgcolor: activeThreadKey === thread.key ? alpha(theme.palette.primary.main, 0.04) : 'background.paper',
+              }}
+            >
+              <Stack direction="row" spacing={1} alignItems="center" mb={0.5}>
+                {isSuggestion && thread.suggestion && (
+                  <Chip
+                    size="small"
+                    color={thread.suggestion.action === 'insert' ? 'success' : 'error'}
+                    label={thread.suggestion.action === 'insert' ? t('suggest_insert', '建议插入') : t('suggest_delete', '建议删除')}
+                  />
+                )}
+                {isSuggestion && thread.suggestion && thread.suggestion.status !== 'pending' && (
+                  <Chip size="small" variant="outlined" label={SUGGESTION_STATUS_LABELS[thread.suggestion.status]} />
+                )}
+                {!isSuggestion && thread.resolved_at && (
+                  <Chip size="small" variant="outlined" label={t('comment_resolved', '已解决')} />
+                )}
+                {!thread.anchor && !thread.resolved_at && (
+                  <Chip size="small" variant="outlined" color="warning" label={t('comment_anchor_lost', '原文已删除')} />
+                )}
+              </Stack>
+
+              {quoted && !isSuggestion && (
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  sx={{ display: 'block', borderLeft: 3, borderColor: 'warning.light', pl: 1, mb: 1 }}
+                  noWrap
+                >
+                  {quoted}
+                </Typography>
+              )}
+
+              {isSuggestion ? (
+                <Box>
+                  <Stack direction="row" spacing={1} alignItems="baseline">
+                    <Typography variant="subtitle2">{thread.user_name || String(thread.user_id)}</Typography>
+                    <Typography variant="caption" color="text.secondary">{formatTime(thread.created_at)}</Typography>
+                  </Stack>
+                  <Typography
+                    variant="body2"
+                    sx={{
+                      wordBreak: 'break-word',
+                      color: thread.suggestion?.action === 'insert' ? 'success.main' : 'error.main',
+                      textDecoration: thread.suggestion?.action === 'delete' ? 'line-through' : 'none',
+                    }}
+                  >
+                    {quoted}
+                  </Typography>
+                </Box>
+              ) : (
+                <CommentLine comment={thread} />
+              )}
+
+              {thread.replies.length > 0 && (
+                <Stack spacing={1} sx={{ mt: 1, pl: 1.5, borderLeft: 1, borderColor: 'divider' }}>
+                  {thread.replies.map(replyComment => (
+                    <CommentLine key={String(replyComment.id)} comment={replyComment} />
+                  ))}
+                </Stack>
+              )}
+
+              {!thread.resolved_at && (
+                <Box onClick={(e) => e.stopPropagation()}>
+                  <Divider sx={{ my: 1 }} />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    placeholder={t('reply_placeholder', '回复...')}
+                    value={replyText}
+                    onChange={(e) => setReplyTexts(prev => ({ ...prev, [thread.key]: e.target.value }))}
+                  />
+                  <Stack direction="row" justifyContent="flex-end" spacing={1} mt={1}>
+                    {pendingSuggestion && canReviewSuggestions && (
+                      <>
+                        <Button size="small" color="error" disabled={busy} onClick={() => run(thread.key, () => onDecideSuggestion(thread, false))}>
+                          {t('reject_suggestion', '拒绝')}
+                        </Button>
+                        <Button size="small" color="success" disabled={busy} onClick={() => run(thread.key, () => onDecideSuggestion(thread, true))}>
+                          {t('accept_suggestion', '采纳')}
+                        </Button>
+                      </>
+                    )}
+                    {!isSuggestion && (
+                      <Button size="small" disabled={busy} onClick={() => run(thread.key, () => onResolve(thread))}>
+                        {t('resolve_comment', '解决')}
+                      </Button>
+                    )}
+                    <Button
+                      size="small"
+                      variant="contained"
+                      disabled={!replyText.trim() || busy}
+                      onClick={() => run(thread.key, async () => {
+                        await onReply(thread, replyText.trim());
+                        setReplyTexts(prev => ({ ...prev, [thread.key]: '' }));
+                      })}
+                    >
+                      {t('reply', '回复')}
+                    </Button>
+                  </Stack>
+                </Box>
+              )}
+
+              {thread.resolved_at && !isSuggestion && (
+                <Stack direction="row" justifyContent="flex-end" mt={1}>
+                  <Button
+                    size="small"
+                    disabled={busy}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      run(thread.key, () => onReopen(thread));
+                    }}
+                  >
+                    {t('reopen_comment', '重新打开')}
+                  </Button>
+                </Stack>
+              )}
+            </Paper>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+};
+
+export default CommentThreadsPanel;
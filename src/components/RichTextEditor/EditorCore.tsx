@@ -5,6 +5,11 @@ import { useTranslation } from 'react-i18next';
 import 'quill/dist/quill.snow.css';
 import '@/src/styles/quill-theme.css';
 import type { EditorCoreProps, QuillDelta } from './types';
+import {
+  COMMENT_THREAD_FORMAT,
+  SUGGEST_DELETE_FORMAT,
+  SUGGEST_INSERT_FORMAT
+} from '@/src/utils/documentSuggestions';
 
 // 注册自定义图标
 const MDI_PAPERCLIP_ICON = '<svg viewBox="0 0 24 24"><path d="M16.5,6V17.5A4,4 0 0,1 12.5,21.5A4,4 0 0,1 8.5,17.5V5A2.5,2.5 0 0,1 11,2.5A2.5,2.5 0 0,1 13.5,5V15.5A1,1 0 0,1 12.5,16.5A1,1 0 0,1 11.5,15.5V6H10V15.5A2.5,2.5 0 0,0 12.5,18A2.5,2.5 0 0,0 15,15.5V5A4,4 0 0,0 11,1A4,4 0 0,0 7,5V17.5A5.5,5.5 0 0,0 12.5,23A5.5,5.5 0 0,0 18,17.5V6H16.5Z" /></svg>';
@@ -14,6 +19,19 @@ if (icons && !icons['attach']) {
   icons['attach'] = MDI_PAPERCLIP_ICON;
 }
 
+// 注册批注锚点和修改建议的行内格式，以 data-* 属性渲染
+const Parchment = Quill.import('parchment') as typeof import('parchment');
+const ANNOTATION_FORMATS = [COMMENT_THREAD_FORMAT, SUGGEST_INSERT_FORMAT, SUGGEST_DELETE_FORMAT];
+if (Parchment?.Attributor) {
+  ANNOTATION_FORMATS.forEach(format => {
+    Quill.register(
+      `formats/${format}`,
+      new Parchment.Attributor(format, `data-${format}`, { scope: Parchment.Scope.INLINE }),
+      true
+    );
+  });
+}
+
 export interface EditorCoreRef {
   getQuill: () => Quill | null;
   getContents: () => QuillDelta | null;
@@ -111,7 +129,8 @@ const EditorCore = forwardRef<EditorCoreRef, EditorCoreProps>(({
 
       const formats = [
         'header', 'font', 'size', 'bold', 'italic', 'underline', 'strike',
-        'color', 'background', 'list', 'indent', 'align', 'link', 'image'
+        'color', 'background', 'list', 'indent', 'align', 'link', 'image',
+        ...ANNOTATION_FORMATS
       ];
 
       const editor = new Quill(editorContainer, {
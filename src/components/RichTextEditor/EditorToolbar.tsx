@@ -12,7 +12,7 @@ import {
   CircularProgress,
   useTheme,
 } from '@mui/material';
-import { AddComment, Save } from '@mui/icons-material';
+import { AddComment, History, RateReview, Save } from '@mui/icons-material';
 import SvgIcon from '@mui/material/SvgIcon';
 import { mdiFileDocumentOutline, mdiInformation } from '@mdi/js';
 import { useTranslation } from 'react-i18next';
@@ -27,6 +27,11 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
   onToggleContextPanel,
   onAddComment,
   remoteCursors,
+  enableComments = false,
+  suggestMode = false,
+  onToggleSuggestMode,
+  showVersionHistory = false,
+  onToggleVersionHistory,
   onSave,
   isSaving = false,
   showSaveButton = true,
@@ -196,8 +201,34 @@ const EditorToolbar: React.FC<EditorToolbarProps> = ({
               </IconButton>
             </Tooltip>
 
+            {/* Suggest mode toggle */}
+            {onToggleSuggestMode && (
+              <Tooltip title={suggestMode ? t('exit_suggest_mode', '退出建议模式') : t('enter_suggest_mode', '建议模式：修改将作为修改建议由作者处理')}>
+                <IconButton
+                  size="small"
+                  onClick={onToggleSuggestMode}
+                  sx={{ color: suggestMode ? 'success.main' : 'text.secondary' }}
+                >
+                  <RateReview />
+                </IconButton>
+              </Tooltip>
+            )}
+
+            {/* Version history toggle */}
+            {onToggleVersionHistory && (
+              <Tooltip title={showVersionHistory ? t('hide_version_history', '隐藏版本历史') : t('show_version_history', '版本历史')}>
+                <IconButton
+                  size="small"
+                  onClick={onToggleVersionHistory}
+                  sx={{ color: showVersionHistory ? 'primary.main' : 'text.secondary' }}
+                >
+                  <History />
+                </IconButton>
+              </Tooltip>
+            )}
+
             {/* Context panel toggle */}
-            {contextInfo && (
+            {(contextInfo || enableComments) && (
               <Tooltip title={showContextPanel ? t('hide_details_panel', '隐藏详情面板') : t('show_details_panel', '显示详情面板')}>
                 <IconButton
                   size="small"
@@ -21,7 +21,10 @@ import OutlinePanel from './OutlinePanel';
 import ContextPanel from './ContextPanel';
 import ExtensionArea from './ExtensionArea';
 import EditorCore, { EditorCoreRef } from './EditorCore';
-// import CollaborationManager from './CollaborationManager';
+import CollaborationManager from './CollaborationManager';
+import CommentThreadsPanel from './CommentThreadsPanel';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import { useDocumentComments } from '@/src/hooks/useDocumentComments';
 
 import type {
   RichTextEditorProps,
@@ -39,13 +42,13 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
     {
       defaultValue,
       onTextChange,
-      onSelectionChange: _onSelectionChange,
+      onSelectionChange,
       placeholder,
       readOnly = false,
       className,
       documentId,
-      userId: _userId,
-      userName: _userName,
+      userId,
+      userName,
       contextInfo,
       viewMode: _viewMode = 'standard',
       initialContentForDocumentView,
@@ -63,6 +66,11 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
       autoSaveInterval = 30000, // 30秒
       showSaveButton = true,
       saveButtonText,
+      // 批注与修改建议
+      enableComments = false,
+      suggestOnly = false,
+      canReviewSuggestions = false,
+      enableVersionHistory = false,
     },
     ref
   ) => {
@@ -86,7 +94,10 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
     const [isOutlineOpen, setIsOutlineOpen] = useState(true);
     const [outline, setOutline] = useState<OutlineItem[]>([]);
     const [activeHeaderIndex, setActiveHeaderIndex] = useState<number>(-1);
-    const [remoteCursors, _setRemoteCursors] = useState<Record<string, RemoteCursor>>({});
+    const [remoteCursors, setRemoteCursors] = useState<Record<string, RemoteCursor>>({});
+    const [isEditorReady, setIsEditorReady] = useState(false);
+    const [suggestMode, setSuggestMode] = useState(suggestOnly);
+    const [showVersionHistory, setShowVersionHistory] = useState(false);
     
     // 扩展区域状态
     const [isExtensionAreaOpen, setIsExtensionAreaOpen] = useState(showExtensionArea);
@@ -373,11 +384,35 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
       input.click();
     }, [t]);
 
+    // 批注线程与建议模式，需要已存在的 document 记录
+    const commentsEnabled = enableComments && !!documentId?.startsWith('document:');
+    const getQuill = useCallback(() => editorCoreRef.current?.getQuill() ?? null, []);
+    const documentComments = useDocumentComments({
+      enabled: commentsEnabled,
+      client: surreal,
+      documentId,
+      userName,
+      getQuill,
+      ready: isEditorReady,
+      editable: !readOnly,
+      suggestMode: suggestOnly || suggestMode,
+    });
+    const { startComment } = documentComments;
+
     // 添加批注处理器
     const addCommentHandler = useCallback(() => {
       const quill = editorCoreRef.current?.getQuill();
       if (!quill) return;
 
+      if (commentsEnabled) {
+        if (startComment()) {
+          setShowContextPanel(true);
+        } else {
+          alert(t('select_text_for_comment', '请先选择要添加批注的文本'));
+        }
+        return;
+      }
+
       const range = quill.getSelection(true);
       if (!range || range.length === 0) {
         alert(t('select_text_for_comment', '请先选择要添加批注的文本'));
@@ -389,7 +424,7 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
       });
 
       console.log('添加批注:', quill.getText(range.index, range.length));
-    }, [t]);
+    }, [t, commentsEnabled, startComment]);
 
     // 滚动到标题位置
     const scrollToHeader = useCallback((headerText: string, level: number) => {
@@ -428,6 +463,37 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
       }
     }, []);
 
+    const commentThreadsPanel = commentsEnabled ? (
+      <CommentThreadsPanel
+        threads={documentComments.threads}
+        draft={documentComments.draft}
+        activeThreadKey={documentComments.activeThreadKey}
+        canReviewSuggestions={canReviewSuggestions && !readOnly}
+        onSubmitDraft={documentComments.submitDraft}
+        onCancelDraft={documentComments.cancelDraft}
+        onReply={documentComments.reply}
+        onResolve={documentComments.resolveThread}
+        onReopen={documentComments.reopenThread}
+        onDecideSuggestion={documentComments.decideSuggestion}
+        onFocusThread={documentComments.focusThread}
+      />
+    ) : null;
+
+    // 版本历史，恢复版本时以差异增量替换正文，协作者通过增量同步
+    const versionHistoryEnabled = enableVersionHistory && !!documentId?.startsWith('document:');
+    const getCurrentContent = useCallback(() => editorCoreRef.current?.getContents() ?? null, []);
+    const handleRestoreVersion = useCallback((content: QuillDelta) => {
+      const quill = editorCoreRef.current?.getQuill();
+      if (!quill) return;
+      const change = quill.getContents().diff(content);
+      if (change.ops.length > 0) {
+        quill.updateContents(change, 'api');
+      }
+    }, []);
+
+    // 协作编辑需要可编辑的 document 记录、当前用户和在线连接
+    const isCollaborative = !readOnly && isEditorReady && isConnected && !!userId && !!documentId?.startsWith('document:');
+
     // 扩展区域Tab变更处理
     const handleExtensionTabChange = useCallback((tabId: string) => {
       setCurrentExtensionTab(tabId);
@@ -454,6 +520,7 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
 
       // 监听文本变化以更新大纲
       quill.on('text-change', updateOutline);
+      setIsEditorReady(true);
     }, [ref, updateOutline]);
 
     // 处理扩展区域显示状态
@@ -509,6 +576,11 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
             onToggleContextPanel={() => setShowContextPanel(!showContextPanel)}
             onAddComment={addCommentHandler}
             remoteCursors={remoteCursors}
+            enableComments={commentsEnabled}
+            suggestMode={suggestOnly || suggestMode}
+            onToggleSuggestMode={commentsEnabled && !readOnly && !suggestOnly ? () => setSuggestMode(!suggestMode) : undefined}
+            showVersionHistory={showVersionHistory}
+            onToggleVersionHistory={versionHistoryEnabled ? () => setShowVersionHistory(!showVersionHistory) : undefined}
             onSave={handleSave}
             isSaving={effectiveIsSaving}
             showSaveButton={showSaveButton}
@@ -612,7 +684,7 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
           </Box>
 
           {/* 右侧上下文面板 - 使用fixed定位悬浮 */}
-          {contextInfo && showContextPanel && !isMobile && (
+          {(contextInfo || commentsEnabled) && showContextPanel && !showVersionHistory && !isMobile && (
             <Box
               sx={{
                 position: 'fixed',
@@ -633,12 +705,14 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
                 contextInfo={contextInfo}
                 showPanel={showContextPanel}
                 onClose={() => setShowContextPanel(false)}
-              />
+              >
+                {commentThreadsPanel}
+              </ContextPanel>
             </Box>
           )}
 
           {/* 移动端上下文面板 */}
-          {contextInfo && showContextPanel && isMobile && (
+          {(contextInfo || commentsEnabled) && showContextPanel && !showVersionHistory && isMobile && (
             <Box
               sx={{
                 position: 'fixed',
@@ -655,6 +729,34 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
                 contextInfo={contextInfo}
                 showPanel={showContextPanel}
                 onClose={() => setShowContextPanel(false)}
+              >
+                {commentThreadsPanel}
+              </ContextPanel>
+            </Box>
+          )}
+
+          {/* 版本历史面板，与上下文面板占用同一位置 */}
+          {versionHistoryEnabled && showVersionHistory && documentId && (
+            <Box
+              sx={{
+                position: 'fixed',
+                top: 120,
+                right: 16,
+                left: isMobile ? 16 : 'auto',
+                width: isMobile ? 'auto' : 360,
+                maxHeight: 'calc(100vh - 140px)',
+                zIndex: isMobile ? 1200 : 1000,
+                display: 'flex',
+              }}
+            >
+              <VersionHistoryPanel
+                client={surreal}
+                documentId={documentId}
+                getCurrentContent={getCurrentContent}
+                canRestore={!readOnly && !suggestOnly}
+                canNameVersions={!readOnly && !suggestOnly}
+                onRestore={handleRestoreVersion}
+                onClose={() => setShowVersionHistory(false)}
               />
             </Box>
           )}
@@ -680,8 +782,15 @@ const RichTextEditor = forwardRef<Quill, RichTextEditorProps>(
           />
         </Box>
 
-        {/* 协作管理器 - 暂时禁用直到worker重构完成 */}
-        {/* TODO: 重新启用协作功能 */}
+        {/* 协作管理器 - 仅对已存在的文档记录启用 */}
+        {isCollaborative && (
+          <CollaborationManager
+            quillRef={editorCoreRef}
+            config={{ documentId, userId, userName, surreal, isConnected }}
+            onSelectionChange={onSelectionChange}
+            onRemoteCursorsChange={setRemoteCursors}
+          />
+        )}
       </Box>
     );
   }
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { Box, Chip, Stack, Typography, alpha, useTheme } from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { splitDiffLines, summarizeDiff } from '@/src/utils/documentDiff';
+import type { DiffChange, DiffSegment } from '@/src/utils/documentDiff';
+import type { VersionDiffViewProps } from './types';
+
+const HEADER_VARIANTS = { 1: 'h5', 2: 'h6', 3: 'subtitle1' } as const;
+
+// 只显示 http(s) 与内嵌图片，避免渲染其他协议的地址
+const safeImageSource = (value: unknown): string | undefined =>
+  typeof value === 'string' && /^(https?:|data:image\/|\/)/i.test(value) ? value : undefined;
+
+/**
+ * 版本差异视图：插入显示为绿色下划线，删除显示为红色删除线，格式变化显示为虚线下划线；
+ * 图片等嵌入内容以边框颜色标示增删
+ */
+const VersionDiffView: React.FC<VersionDiffViewProps> = ({ segments }) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const lines = useMemo(() => splitDiffLines(segments), [segments]);
+  const stats = useMemo(() => summarizeDiff(segments), [segments]);
+
+  const changeStyles: Record<DiffChange, object> = {
+    equal: {},
+    insert: {
+      backgroundColor: alpha(theme.palette.success.main, 0.15),
+      textDecoration: 'underline',
+      textDecorationColor: theme.palette.success.main,
+    },
+    delete: {
+      backgroundColor: alpha(theme.palette.error.main, 0.12),
+      textDecoration: 'line-through',
+      textDecorationColor: theme.palette.error.main,
+    },
+    format: {
+      borderBottom: `1px dashed ${theme.palette.warning.main}`,
+    },
+  };
+
+  const embedBorders: Record<DiffChange, string> = {
+    equal: 'transparent',
+    insert: theme.palette.success.main,
+    delete: theme.palette.error.main,
+    format: theme.palette.warning.main,
+  };
+
+  let orderedIndex = 0;
+
+  const renderSegment = (segment: DiffSegment, key: number) => {
+    const attributes = segment.attributes || {};
+    if (typeof segment.insert !== 'string') {
+      const image = safeImageSource(segment.insert.image);
+      return image ? (
+        <Box
+          key={key}
+          component="img"
+          src={image}
+          alt=""
+          sx={{
+            maxWidth: '100%',
+            verticalAlign: 'middle',
+            border: `3px solid ${embedBorders[segment.change]}`,
+            opacity: segment.change === 'delete' ? 0.6 : 1,
+          }}
+        />
+      ) : (
+        <Chip
+          key={key}
+          size="small"
+          variant="outlined"
+          label={Object.keys(segment.insert)[0] || t('embedded_content', '嵌入内容')}
+          sx={{ borderColor: embedBorders[segment.change] }}
+        />
+      );
+    }
+    return (
+      <Box
+        key={key}
+        component="span"
+        sx={{
+          fontWeight: attributes.bold ? 600 : undefined,
+          fontStyle: attributes.italic ? 'italic' : undefined,
+          textDecoration: attributes.underline ? 'underline' : attributes.strike ? 'line-through' : undefined,
+          color: typeof attributes.color === 'string' ? attributes.color : undefined,
+          ...changeStyles[segment.change],
+        }}
+      >
+        {segment.insert}
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} mb={2}>
+        <Chip size="small" color="success" variant="outlined" label={`${t('diff_inserted', '新增')} ${stats.inserted}`} />
+        <Chip size="small" color="error" variant="outlined" label={`${t('diff_deleted', '删除')} ${stats.deleted}`} />
+        {stats.formatted > 0 && (
+          <Chip size="small" color="warning" variant="outlined" label={`${t('diff_formatted', '格式变化')} ${stats.formatted}`} />
+        )}
+      </Stack>
+      {lines.map((line, index) => {
+        const header = line.attributes?.header as keyof typeof HEADER_VARIANTS | undefined;
+        const list = line.attributes?.list as string | undefined;
+        orderedIndex = list === 'ordered' ? orderedIndex + 1 : 0;
+        return (
+          <Typography
+            key={index}
+            variant={header ? HEADER_VARIANTS[header] ?? 'subtitle1' : 'body1'}
+            component="div"
+            sx={{
+              minHeight: '1.5em',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-word',
+              pl: list ? 3 : 0,
+              borderLeft: line.change === 'insert' || line.change === 'delete' ? `3px solid ${embedBorders[line.change]}` : undefined,
+            }}
+          >
+            {list && <Box component="span" sx={{ ml: -2, mr: 1 }}>{list === 'ordered' ? `${orderedIndex}.` : '•'}</Box>}
+            {line.segments.map(renderSegment)}
+          </Typography>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default VersionDiffView;
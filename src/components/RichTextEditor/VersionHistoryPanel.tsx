@@ -0,0 +1,325 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Paper,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import SvgIcon from '@mui/material/SvgIcon';
+import { mdiClose, mdiLock, mdiRefresh } from '@mdi/js';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import Delta from 'quill-delta';
+import { DocumentVersionService } from '@/src/services/documentVersionService';
+import { diffDocuments } from '@/src/utils/documentDiff';
+import type { DiffSegment } from '@/src/utils/documentDiff';
+import type { DocumentVersionSummary } from '@/src/types/documentVersion';
+import VersionDiffView from './VersionDiffView';
+import type { VersionHistoryPanelProps } from './types';
+
+// 比较对象：历史版本或编辑器当前内容
+type CompareTarget = DocumentVersionSummary | 'current';
+
+const versionKey = (version: DocumentVersionSummary) => String(version.id);
+
+/**
+ * 文档版本历史面板：浏览版本、比较任意两个版本、恢复历史版本和命名版本
+ */
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  client,
+  documentId,
+  getCurrentContent,
+  canRestore = false,
+  canNameVersions = false,
+  onRestore,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const service = useMemo(() => new DocumentVersionService(client), [client]);
+  const contentCacheRef = useRef(new Map<string, Delta>());
+
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [diff, setDiff] = useState<{ title: string; segments: DiffSegment[] } | null>(null);
+  const [naming, setNaming] = useState<{ version: DocumentVersionSummary; name: string } | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setVersions(await service.listVersions(documentId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('load_versions_failed', '获取文档版本失败'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId, service, t]);
+
+  useEffect(() => {
+    contentCacheRef.current.clear();
+    setSelectedKeys([]);
+    loadVersions();
+  }, [loadVersions]);
+
+  const loadContent = useCallback(async (target: CompareTarget): Promise<Delta> => {
+    if (target === 'current') {
+      return new Delta(getCurrentContent?.()?.ops ?? []);
+    }
+    const key = versionKey(target);
+    const cached = contentCacheRef.current.get(key);
+    if (cached) {
+      return cached;
+    }
+    const version = await service.getVersion(target.id);
+    if (!version) {
+      throw new Error(t('version_not_found', '文档版本不存在'));
+    }
+    contentCacheRef.current.set(key, version.content);
+    return version.content;
+  }, [getCurrentContent, service, t]);
+
+  const describe = useCallback((target: CompareTarget) => (
+    target === 'current'
+      ? t('current_content', '当前内容')
+      : `第${target.version_number}版`
+  ), [t]);
+
+  // 始终从较旧的版本比较到较新的版本
+  const compare = useCallback(async (a: CompareTarget, b: CompareTarget) => {
+    const [from, to] = a !== 'current' && (b === 'current' || a.version_number < b.version_number) ? [a, b] : [b, a];
+    setBusyKey('compare');
+    try {
+      const [fromContent, toContent] = await Promise.all([loadContent(from), loadContent(to)]);
+      setDiff({ title: `${describe(from)} → ${describe(to)}`, segments: diffDocuments(fromContent, toContent) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('compare_versions_failed', '版本比较失败'));
+    } finally {
+      setBusyKey(null);
+    }
+  }, [describe, loadContent, t]);
+
+  const toggleSelected = (version: DocumentVersionSummary) => {
+    const key = versionKey(version);
+    setSelectedKeys(prev => (
+      prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key].slice(-2)
+    ));
+  };
+
+  const compareSelected = () => {
+    const selected = versions.filter(version => selectedKeys.includes(versionKey(version)));
+    if (selected.length === 2) {
+      compare(selected[0], selected[1]);
+    }
+  };
+
+  const restore = async (version: DocumentVersionSummary) => {
+    if (!window.confirm(t('confirm_restore_version', '确定要恢复到该版本吗？当前内容将保留在版本历史中。'))) {
+      return;
+    }
+    setBusyKey(versionKey(version));
+    try {
+      const { content } = await service.restoreVersion(version.id);
+      onRestore?.(content);
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('restore_version_failed', '恢复版本失败'));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const saveName = async () => {
+    if (!naming) return;
+    setBusyKey(versionKey(naming.version));
+    try {
+      await service.nameVersion(naming.version.id, naming.name);
+      setNaming(null);
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('name_version_failed', '命名版本失败'));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        width: '100%',
+        maxHeight: '100%',
+        overflow: 'auto',
+        backgroundColor: alpha(theme.palette.background.paper, 0.95),
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.1)}`,
+      }}
+    >
+      <Box sx={{ p: 2 }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" mb={1}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            {t('version_history', '版本历史')}
+          </Typography>
+          <Stack direction="row">
+            <Tooltip title={t('refresh', '刷新')}>
+              <IconButton size="small" onClick={loadVersions} disabled={isLoading}>
+                <SvgIcon><path d={mdiRefresh} /></SvgIcon>
+              </IconButton>
+            </Tooltip>
+            {onClose && (
+              <IconButton size="small" onClick={onClose}>
+                <SvgIcon><path d={mdiClose} /></SvgIcon>
+              </IconButton>
+            )}
+          </Stack>
+        </Stack>
+
+        <Button
+          fullWidth
+          size="small"
+          variant="outlined"
+          disabled={selectedKeys.length !== 2 || busyKey === 'compare'}
+          onClick={compareSelected}
+          sx={{ mb: 1.5 }}
+        >
+          {t('compare_selected_versions', '比较所选的两个版本')}
+        </Button>
+
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 1.5 }}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading && versions.length === 0 && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {!isLoading && versions.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {t('no_versions', '暂无历史版本')}
+          </Typography>
+        )}
+
+        <Stack spacing={1}>
+          {versions.map((version, index) => {
+            const key = versionKey(version);
+            const previous = versions[index + 1];
+            const busy = busyKey === key;
+            return (
+              <Paper key={key} variant="outlined" sx={{ p: 1.5 }}>
+                <Stack direction="row" alignItems="flex-start" spacing={1}>
+                  <Checkbox
+                    size="small"
+                    checked={selectedKeys.includes(key)}
+                    onChange={() => toggleSelected(version)}
+                    sx={{ p: 0.25 }}
+                    inputProps={{ 'aria-label': describe(version) }}
+                  />
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+                      <Typography variant="subtitle2">{describe(version)}</Typography>
+                      {version.version_name && <Chip size="small" color="primary" label={version.version_name} />}
+                      {version.locked_at && (
+                        <Tooltip title={version.lock_reason || ''}>
+                          <Chip
+                            size="small"
+                            variant="outlined"
+                            icon={<SvgIcon sx={{ fontSize: 14 }}><path d={mdiLock} /></SvgIcon>}
+                            label={t('version_locked', '已锁定')}
+                          />
+                        </Tooltip>
+                      )}
+                    </Stack>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {version.author_name || String(version.created_by)} · {format(new Date(version.created_at), 'yyyy-MM-dd HH:mm')}
+                    </Typography>
+                    {version.change_summary && (
+                      <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>
+                        {version.change_summary}
+                      </Typography>
+                    )}
+                    <Stack direction="row" flexWrap="wrap" sx={{ mt: 0.5, ml: -1 }}>
+                      {previous && (
+                        <Button size="small" disabled={busyKey === 'compare'} onClick={() => compare(previous, version)}>
+                          {t('compare_with_previous', '与上一版比较')}
+                        </Button>
+                      )}
+                      {getCurrentContent && (
+                        <Button size="small" disabled={busyKey === 'compare'} onClick={() => compare(version, 'current')}>
+                          {t('compare_with_current', '与当前内容比较')}
+                        </Button>
+                      )}
+                      {canRestore && (
+                        <Button size="small" disabled={busy} onClick={() => restore(version)}>
+                          {t('restore_version', '恢复')}
+                        </Button>
+                      )}
+                      {canNameVersions && !version.locked_at && (
+                        <Button size="small" disabled={busy} onClick={() => setNaming({ version, name: version.version_name || '' })}>
+                          {t('name_version', '命名')}
+                        </Button>
+                      )}
+                    </Stack>
+                  </Box>
+                </Stack>
+              </Paper>
+            );
+          })}
+        </Stack>
+      </Box>
+
+      <Dialog open={!!diff} onClose={() => setDiff(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{diff?.title}</DialogTitle>
+        <DialogContent dividers>
+          {diff && <VersionDiffView segments={diff.segments} />}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDiff(null)}>{t('close', '关闭')}</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!naming} onClose={() => setNaming(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{t('name_version_title', '命名版本')}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            margin="dense"
+            label={t('version_name', '版本名称')}
+            helperText={t('version_name_helper', '命名版本将在债权申报提交时锁定，锁定后不可修改')}
+            value={naming?.name ?? ''}
+            onChange={(e) => setNaming(prev => (prev ? { ...prev, name: e.target.value } : prev))}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNaming(null)}>{t('cancel', '取消')}</Button>
+          <Button variant="contained" onClick={saveName} disabled={!!busyKey}>
+            {t('save', '保存')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -9,6 +9,9 @@ export { default as ContextPanel } from './ContextPanel';
 export { default as ExtensionArea } from './ExtensionArea';
 export { default as EditorCore } from './EditorCore';
 export { default as CollaborationManager } from './CollaborationManager';
+export { default as CommentThreadsPanel } from './CommentThreadsPanel';
+export { default as VersionHistoryPanel } from './VersionHistoryPanel';
+export { default as VersionDiffView } from './VersionDiffView';
 
 // 导出类型
 export type {
@@ -26,6 +29,9 @@ export type {
   EditorToolbarProps,
   OutlinePanelProps,
   ContextPanelProps,
+  CommentThreadsPanelProps,
+  VersionHistoryPanelProps,
+  VersionDiffViewProps,
   ExtensionAreaProps,
   EditorCoreProps,
   CollaborationManagerProps,
@@ -1,6 +1,9 @@
 import type { Delta as QuillDeltaType, Range as QuillRange } from 'quill/core';
 import Quill from 'quill';
 import type { SurrealWorkerAPI } from '@/src/contexts/SurrealProvider';
+import type { CommentSelection } from '@/src/types/documentComment';
+import type { DocumentCommentThreadView } from '@/src/hooks/useDocumentComments';
+import type { DiffSegment } from '@/src/utils/documentDiff';
 
 // 导出Delta类型
 export type QuillDelta = QuillDeltaType;
@@ -66,10 +69,11 @@ export interface RemoteCursor {
 
 // 协作编辑相关接口
 export interface CollaborationConfig {
-  documentId?: string;
+  documentId?: string; // 协作文档记录ID，如 document:xxx
   userId?: string;
   userName?: string;
   surreal?: SurrealWorkerAPI;
+  isConnected?: boolean; // 用于断线重连后补齐增量
 }
 
 // 文件上传接口
@@ -117,6 +121,14 @@ export interface RichTextEditorProps {
   extensionAreaContent?: ExtensionAreaContent;
   onExtensionAreaTabChange?: (tabId: string) => void;
   showExtensionArea?: boolean;
+
+  // 批注与修改建议（需要 document: 开头的 documentId）
+  enableComments?: boolean;
+  suggestOnly?: boolean; // 只能以修改建议的方式编辑正文
+  canReviewSuggestions?: boolean; // 是否可以采纳或拒绝修改建议
+
+  // 版本历史（需要 document: 开头的 documentId）
+  enableVersionHistory?: boolean;
 }
 
 // 工具栏Props
@@ -128,6 +140,15 @@ export interface EditorToolbarProps {
   onToggleContextPanel: () => void;
   onAddComment: () => void;
   remoteCursors: Record<string, RemoteCursor>;
+
+  // 批注与建议模式
+  enableComments?: boolean;
+  suggestMode?: boolean;
+  onToggleSuggestMode?: () => void;
+
+  // 版本历史
+  showVersionHistory?: boolean;
+  onToggleVersionHistory?: () => void;
   
   // 保存相关props
   onSave?: () => void;
@@ -150,6 +171,40 @@ export interface ContextPanelProps {
   contextInfo?: ContextInfo;
   showPanel: boolean;
   onClose: () => void;
+  children?: React.ReactNode;
+}
+
+// 批注线程面板Props
+export interface CommentThreadsPanelProps {
+  threads: DocumentCommentThreadView[];
+  draft: CommentSelection | null;
+  activeThreadKey: string | null;
+  canReviewSuggestions?: boolean;
+  onSubmitDraft: (text: string) => Promise<void>;
+  onCancelDraft: () => void;
+  onReply: (thread: DocumentCommentThreadView, text: string) => Promise<void>;
+  onResolve: (thread: DocumentCommentThreadView) => Promise<void>;
+  onReopen: (thread: DocumentCommentThreadView) => Promise<void>;
+  onDecideSuggestion: (thread: DocumentCommentThreadView, accept: boolean) => Promise<void>;
+  onFocusThread: (thread: DocumentCommentThreadView) => void;
+}
+
+// 版本历史面板Props
+export interface VersionHistoryPanelProps {
+  client: unknown;
+  documentId: string;
+  /** 编辑器当前内容，提供时可与历史版本比较 */
+  getCurrentContent?: () => QuillDelta | null;
+  canRestore?: boolean;
+  canNameVersions?: boolean;
+  /** 恢复历史版本后以该内容替换编辑器内容 */
+  onRestore?: (content: QuillDelta) => void;
+  onClose?: () => void;
+}
+
+// 版本差异视图Props
+export interface VersionDiffViewProps {
+  segments: DiffSegment[];
 }
 
 // 扩展区域Props
@@ -0,0 +1,222 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+  useTheme,
+} from '@mui/material';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { AnomalyRuleService } from '@/src/services/anomalyRuleService';
+import authService from '@/src/services/authService';
+import Turnstile from '@/src/components/Turnstile';
+import { SESSION_EXPIRED_EVENT, SESSION_REFRESHED_EVENT } from '@/src/lib/sessionEvents';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8082';
+
+/**
+ * 会话过期对话框
+ * 令牌刷新失败时弹出，密码登录用户可在当前页面重新登录，页面不卸载，未保存的表单保持不变；
+ * 任一标签页重新登录后，所有标签页的对话框随会话恢复事件关闭；
+ * 异常检测规则要求重新认证时同样弹出，打开页面和切回标签页时重新检查，直到用户重新登录
+ */
+const SessionExpiredDialog: React.FC = () => {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const { user, logout } = useAuth();
+  const client = useSurrealClient();
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showTurnstile, setShowTurnstile] = useState(false);
+
+  const isRootAdmin = !!user?.github_id.startsWith('root_admin_');
+  const username = user?.github_id.startsWith('local_')
+    ? user.github_id.slice('local_'.length)
+    : isRootAdmin
+      ? user!.github_id.slice('root_admin_'.length)
+      : null;
+  const tenantCode = localStorage.getItem('tenant_code') || '';
+
+  useEffect(() => {
+    const handleExpired = () => {
+      if (!user) return;
+      setPassword('');
+      setError(null);
+      setShowTurnstile(false);
+      setOpen(true);
+    };
+    const handleRefreshed = () => setOpen(false);
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    window.addEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+    return () => {
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+      window.removeEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    const service = new AnomalyRuleService(client);
+    const checkReauth = () => {
+      if (document.visibilityState !== 'visible') return;
+      service.getEnforcementStatus()
+        .then(status => {
+          if (status.reauth_required) {
+            window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+          }
+        })
+        .catch(() => {
+          // 未登录时由令牌刷新流程弹出对话框
+        });
+    };
+
+    checkReauth();
+    document.addEventListener('visibilitychange', checkReauth);
+    return () => document.removeEventListener('visibilitychange', checkReauth);
+  }, [client, user]);
+
+  const login = useCallback(async (turnstileToken: string) => {
+    setShowTurnstile(false);
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(isRootAdmin ? `${API_URL}/api/root-admins/login` : `${API_URL}/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(isRootAdmin
+          ? { username, password }
+          : { username, password, tenant_code: tenantCode, turnstile_token: turnstileToken }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || t('error_invalid_credentials_or_server', '用户名或密码错误'));
+      }
+
+      const data = await response.json();
+      await authService.setAuthTokens(data.access_token || data.token, data.refresh_token, data.expires_in);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('session_relogin_failed', '重新登录失败'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [isRootAdmin, username, password, tenantCode, t]);
+
+  // 与登录页一致：租户启用人机验证时先完成验证，查询失败时默认需要验证
+  const isTurnstileRequired = async (): Promise<boolean> => {
+    if (isRootAdmin || !tenantCode) return false;
+    try {
+      const response = await fetch(`${API_URL}/auth/tenant/${tenantCode}/turnstile-config`);
+      if (!response.ok) return true;
+      const data = await response.json();
+      return data.turnstile_enabled === true;
+    } catch {
+      return true;
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!password) {
+      setError(t('error_password_required', '请输入密码'));
+      return;
+    }
+    setError(null);
+    if (await isTurnstileRequired()) {
+      setShowTurnstile(true);
+    } else {
+      await login('');
+    }
+  };
+
+  const handleGoToLogin = async () => {
+    setOpen(false);
+    await logout();
+  };
+
+  return (
+    <Dialog open={open} maxWidth="xs" fullWidth disableEscapeKeyDown>
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        <DialogTitle>{t('session_expired_title', '登录已过期')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {username
+              ? t('session_expired_relogin_hint', '为保护账户安全，请重新输入密码。重新登录后可继续当前操作，未保存的内容不会丢失。')
+              : t('session_expired_redirect_hint', '请重新登录。未提交的表单内容已暂存，登录后返回原页面即可恢复。')}
+          </DialogContentText>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          {username && (
+            <>
+              <TextField
+                fullWidth
+                margin="dense"
+                label={t('username', '用户名')}
+                value={username}
+                disabled
+              />
+              <TextField
+                fullWidth
+                autoFocus
+                margin="dense"
+                type="password"
+                label={t('password', '密码')}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </>
+          )}
+          {showTurnstile && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+              <Turnstile
+                siteKey={import.meta.env.VITE_TURNSTILE_SITE_KEY || '1x00000000000000000000AA'}
+                onSuccess={login}
+                onError={() => {
+                  setShowTurnstile(false);
+                  setError(t('error_turnstile_failed', '人机验证失败，请重试'));
+                }}
+                theme={theme.palette.mode}
+                action="login"
+                language="zh-CN"
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleGoToLogin} disabled={isSubmitting}>
+            {t('session_go_to_login', '前往登录页')}
+          </Button>
+          {username && (
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={isSubmitting || showTurnstile}
+              startIcon={isSubmitting ? <CircularProgress size={16} /> : undefined}
+            >
+              {t('session_relogin', '重新登录')}
+            </Button>
+          )}
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default SessionExpiredDialog;
@@ -0,0 +1,263 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { CASE_DATE_FIELDS } from '@/src/utils/reminderCondition';
+import { defaultHolidayCalendar, isWorkingDay } from '@/src/utils/holidayCalendar';
+import { previewReminderRule, renderReminderMessage } from '@/src/services/caseReminderService';
+import { validateNotificationRule } from '@/src/services/notificationRuleService';
+import type { CaseProcedureFlow } from '@/src/types/caseProcedure';
+import type { NotificationRule, ReminderCaseData, ReminderFrequency } from '@/src/types/caseReminder';
+
+export const FREQUENCY_LABELS: Record<ReminderFrequency, string> = {
+  ONCE: '每个期限提醒一次',
+  DAILY: '每天',
+  WORKDAY: '工作日每天',
+  WEEKLY: '每周',
+};
+
+const CONDITION_SNIPPETS = [
+  'due_within(phase_deadline, 3)',
+  'due_within(acceptance_date + 25d, 5)',
+  'working_days_until(claim_submission_end_date) <= 3',
+  'is_working_day(today)',
+];
+
+const PREVIEW_LIMIT = 20;
+
+const emptyRule = (phase: string): NotificationRule => ({
+  procedure_phase: phase,
+  trigger_condition: '',
+  message_template: '距离截止日期（{{deadline}}）还有 {{days}} 天',
+  notification_frequency: 'DAILY',
+  notification_time: '10:00',
+  is_active: true,
+});
+
+interface CreateEditNotificationRuleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (rule: NotificationRule) => Promise<void>;
+  initialData: NotificationRule | null;
+  phases: string[];
+  cases: ReminderCaseData[];
+  flows: CaseProcedureFlow[];
+}
+
+/**
+ * 通知规则编辑对话框
+ * 编辑触发条件时实时预览今天会触发提醒的案件
+ */
+const CreateEditNotificationRuleDialog: React.FC<CreateEditNotificationRuleDialogProps> = ({
+  open,
+  onClose,
+  onSave,
+  initialData,
+  phases,
+  cases,
+  flows,
+}) => {
+  const [rule, setRule] = useState<NotificationRule>(() => emptyRule(phases[0] ?? ''));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setRule(initialData ? { ...initialData } : emptyRule(phases[0] ?? ''));
+      setError(null);
+    }
+  }, [open, initialData, phases]);
+
+  const update = (patch: Partial<NotificationRule>) => setRule(prev => ({ ...prev, ...patch }));
+
+  const errors = useMemo(() => validateNotificationRule(rule), [rule]);
+  const conditionError = errors.find(item => item.startsWith('触发条件有误'));
+
+  // 输入过程中延后计算预览，避免逐字重算全部案件
+  const deferredRule = useDeferredValue(rule);
+  const today = useMemo(() => new Date(), []);
+  const preview = useMemo(
+    () => (conditionError ? [] : previewReminderRule(deferredRule, cases, flows, today)),
+    [deferredRule, cases, flows, today, conditionError]
+  );
+  const fired = preview.filter(item => item.evaluation.fired);
+  const failed = preview.filter(item => item.evaluation.error);
+  const phaseCaseCount = cases.filter(item => item.procedure_phase === rule.procedure_phase).length;
+
+  const insertText = (text: string) => {
+    const current = rule.trigger_condition.trim();
+    update({ trigger_condition: current ? `${current} ${text}` : text });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(rule);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>{initialData ? '编辑通知规则' : '创建通知规则'}</DialogTitle>
+      <DialogContent dividers>
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>案件阶段</InputLabel>
+              <Select
+                label="案件阶段"
+                value={rule.procedure_phase}
+                onChange={event => update({ procedure_phase: event.target.value })}
+              >
+                {phases.map(phase => <MenuItem key={phase} value={phase}>{phase}</MenuItem>)}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 4 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>提醒频率</InputLabel>
+              <Select
+                label="提醒频率"
+                value={rule.notification_frequency}
+                onChange={event => update({ notification_frequency: event.target.value as ReminderFrequency })}
+              >
+                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              type="time"
+              label="发送时间"
+              value={rule.notification_time}
+              onChange={event => update({ notification_time: event.target.value })}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+          </Grid>
+
+          <Grid size={{ xs: 12 }}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              label="触发条件"
+              placeholder="留空时使用程序流程中该阶段的期限设置"
+              value={rule.trigger_condition}
+              onChange={event => update({ trigger_condition: event.target.value })}
+              error={Boolean(conditionError)}
+              helperText={conditionError ?? '例如 due_within(acceptance_date + 25d, 5)；期间单位 d 天、wd 工作日、w 周、m 月、y 年'}
+              slotProps={{ htmlInput: { style: { fontFamily: 'monospace' } } }}
+            />
+            <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+              {Object.entries(CASE_DATE_FIELDS).map(([field, label]) => (
+                <Chip key={field} size="small" variant="outlined" label={label} title={field} onClick={() => insertText(field)} />
+              ))}
+              {CONDITION_SNIPPETS.map(snippet => (
+                <Chip key={snippet} size="small" label={snippet} onClick={() => insertText(snippet)} />
+              ))}
+            </Stack>
+          </Grid>
+
+          <Grid size={{ xs: 12 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="消息模板"
+              value={rule.message_template}
+              onChange={event => update({ message_template: event.target.value })}
+              helperText="可用占位符：{{days}} 剩余天数、{{deadline}} 截止日期、{{case_number}} 案号、{{case_name}} 案件名称"
+            />
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <FormControlLabel
+              control={<Switch checked={rule.is_active} onChange={event => update({ is_active: event.target.checked })} />}
+              label="启用"
+            />
+          </Grid>
+        </Grid>
+
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2">
+            今日预览：{rule.procedure_phase || '—'} 阶段 {phaseCaseCount} 个案件中，{fired.length} 个将收到提醒
+          </Typography>
+          {!defaultHolidayCalendar.years.has(today.getFullYear()) && (
+            <Alert severity="info" sx={{ mt: 1 }}>
+              未收录 {today.getFullYear()} 年法定节假日安排，工作日暂按周一至周五计算
+            </Alert>
+          )}
+          {failed.length > 0 && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              {failed.length} 个案件无法计算条件：{failed[0].evaluation.error}
+            </Alert>
+          )}
+          {rule.notification_frequency === 'WORKDAY' && !isWorkingDay(today) && (
+            <Typography variant="caption" color="text.secondary">今天不是工作日，工作日规则不会发送</Typography>
+          )}
+          <List dense>
+            {fired.slice(0, PREVIEW_LIMIT).map(({ case: caseData, evaluation }) => (
+              <ListItem key={String(caseData.id)} disableGutters>
+                <ListItemText
+                  primary={`${caseData.case_number} ${caseData.name}`}
+                  secondary={[
+                    evaluation.target ? `截止 ${format(evaluation.target, 'yyyy-MM-dd')}` : null,
+                    renderReminderMessage(rule.message_template, caseData, evaluation),
+                  ].filter(Boolean).join(' · ')}
+                />
+              </ListItem>
+            ))}
+          </List>
+          {fired.length > PREVIEW_LIMIT && (
+            <Typography variant="caption" color="text.secondary">另有 {fired.length - PREVIEW_LIMIT} 个案件</Typography>
+          )}
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>取消</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={saving || errors.length > 0}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          保存
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateEditNotificationRuleDialog;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Grid,
+  Paper,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import type {
+  EffectivePermissions,
+  PermissionCatalog,
+  PermissionExplanation,
+  PermissionMatrixService,
+  SimulationCase,
+  SimulationUser,
+} from '@/src/services/permissionMatrixService';
+
+interface EffectivePermissionSimulatorProps {
+  service: PermissionMatrixService;
+  catalog: PermissionCatalog;
+}
+
+/**
+ * 以指定用户身份查看有效权限
+ * 合并全局角色与所选案件中的角色，逐项说明菜单和操作被授予或拒绝的原因
+ */
+const EffectivePermissionSimulator: React.FC<EffectivePermissionSimulatorProps> = ({ service, catalog }) => {
+  const [users, setUsers] = useState<SimulationUser[]>([]);
+  const [cases, setCases] = useState<SimulationCase[]>([]);
+  const [selectedUser, setSelectedUser] = useState<SimulationUser | null>(null);
+  const [selectedCase, setSelectedCase] = useState<SimulationCase | null>(null);
+  const [result, setResult] = useState<EffectivePermissions | null>(null);
+  const [onlyDenied, setOnlyDenied] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    service.loadSimulationTargets()
+      .then(targets => {
+        setUsers(targets.users);
+        setCases(targets.cases);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : '加载用户和案件失败'));
+  }, [service]);
+
+  const handleSimulate = async () => {
+    if (!selectedUser) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await service.simulate(catalog, selectedUser.id, selectedCase?.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '模拟失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderTable = (title: string, items: PermissionExplanation[]) => {
+    const visible = onlyDenied ? items.filter(item => !item.granted) : items;
+    return (
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          {title}（允许 {items.filter(item => item.granted).length} / 共 {items.length}）
+        </Typography>
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>名称</TableCell>
+                <TableCell>结果</TableCell>
+                <TableCell>原因</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visible.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <Typography variant="body2">{item.label}</Typography>
+                    <Typography variant="caption" color="text.secondary">{item.id}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={item.granted ? '允许' : '拒绝'}
+                      color={item.granted ? 'success' : 'default'}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{item.reason}</Typography>
+                    {item.notes.map(note => (
+                      <Typography key={note} variant="caption" color="warning.main" display="block">
+                        {note}
+                      </Typography>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Grid size={{ xs: 12, md: 5 }}>
+          <Autocomplete
+            options={users}
+            value={selectedUser}
+            onChange={(_event, value) => setSelectedUser(value)}
+            getOptionLabel={user => (user.username ? `${user.name}（${user.username}）` : user.name)}
+            isOptionEqualToValue={(option, value) => String(option.id) === String(value.id)}
+            renderInput={params => <TextField {...params} label="用户" />}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, md: 5 }}>
+          <Autocomplete
+            options={cases}
+            value={selectedCase}
+            onChange={(_event, value) => setSelectedCase(value)}
+            getOptionLabel={item => (item.case_number ? `${item.name}（${item.case_number}）` : item.name)}
+            isOptionEqualToValue={(option, value) => String(option.id) === String(value.id)}
+            renderInput={params => <TextField {...params} label="案件（不选则只计算全局角色）" />}
+          />
+        </Grid>
+        <Grid size={{ xs: 12, md: 2 }}>
+          <Button
+            fullWidth
+            variant="contained"
+            onClick={handleSimulate}
+            disabled={!selectedUser || loading}
+            startIcon={loading ? <CircularProgress size={16} /> : undefined}
+          >
+            模拟
+          </Button>
+        </Grid>
+      </Grid>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {result && (
+        <>
+          <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" sx={{ mb: 2 }}>
+            <Typography variant="body2">生效角色：</Typography>
+            {result.roles.length === 0 && <Typography variant="body2" color="text.secondary">无</Typography>}
+            {result.roles.map(assignment => (
+              <Chip
+                key={`${assignment.scope}:${assignment.role}`}
+                size="small"
+                label={`${assignment.scope === 'global' ? '全局' : '本案'} · ${assignment.role}`}
+                color={assignment.scope === 'global' ? 'primary' : 'secondary'}
+                variant="outlined"
+              />
+            ))}
+            <Box sx={{ flexGrow: 1 }} />
+            <FormControlLabel
+              control={<Switch checked={onlyDenied} onChange={event => setOnlyDenied(event.target.checked)} />}
+              label="只看被拒绝的项"
+            />
+          </Stack>
+          {renderTable('菜单', result.menus)}
+          {renderTable('操作', result.operations)}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default EffectivePermissionSimulator;
@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  alpha,
+} from '@mui/material';
+import {
+  buildOperationMatrix,
+  diffMatrix,
+  setMatrixCells,
+  type PermissionCatalog,
+  type PermissionChange,
+  type PermissionMatrix,
+  type PermissionOperation,
+} from '@/src/services/permissionMatrixService';
+
+interface PermissionMatrixEditorProps {
+  catalog: PermissionCatalog;
+  onSave: (changes: PermissionChange[]) => Promise<void>;
+}
+
+interface OperationGroup {
+  menuId: string;
+  label: string;
+  operations: PermissionOperation[];
+}
+
+/**
+ * 角色 × 操作权限矩阵
+ * 支持按角色列、菜单分组和操作行批量勾选，保存前预览全部变更
+ */
+const PermissionMatrixEditor: React.FC<PermissionMatrixEditorProps> = ({ catalog, onSave }) => {
+  const original = useMemo(() => buildOperationMatrix(catalog), [catalog]);
+  const [matrix, setMatrix] = useState<PermissionMatrix>(original);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setMatrix(original);
+  }, [original]);
+
+  const roleNames = catalog.roles.map(role => role.name);
+  const changes = useMemo(() => diffMatrix(original, matrix), [original, matrix]);
+  const changedCells = useMemo(
+    () => new Set(changes.map(change => `${change.role}:${change.operationId}`)),
+    [changes]
+  );
+
+  // 按菜单分组，菜单按显示顺序排列，找不到菜单的操作排在最后
+  const groups = useMemo(() => {
+    const result: OperationGroup[] = catalog.menus.map(menu => ({
+      menuId: menu.menu_id,
+      label: menu.label_key,
+      operations: catalog.operations.filter(operation => operation.menu_id === menu.menu_id),
+    }));
+    const knownMenus = new Set(catalog.menus.map(menu => menu.menu_id));
+    const orphans = catalog.operations.filter(operation => !knownMenus.has(operation.menu_id));
+    if (orphans.length > 0) {
+      result.push({ menuId: '', label: '未关联菜单', operations: orphans });
+    }
+    return result.filter(group => group.operations.length > 0);
+  }, [catalog]);
+
+  const operationLabels = useMemo(
+    () => new Map(catalog.operations.map(operation => [operation.operation_id, operation.operation_name])),
+    [catalog]
+  );
+
+  const isGranted = (role: string, operationId: string) => matrix[role]?.includes(operationId) ?? false;
+
+  // 批量勾选框：全部已授予为选中，部分授予为半选
+  const renderBulkCheckbox = (roles: string[], operationIds: string[], label: string) => {
+    const total = roles.length * operationIds.length;
+    const granted = roles.reduce(
+      (count, role) => count + operationIds.filter(operationId => isGranted(role, operationId)).length,
+      0
+    );
+    return (
+      <Checkbox
+        size="small"
+        checked={total > 0 && granted === total}
+        indeterminate={granted > 0 && granted < total}
+        onChange={(event) => setMatrix(prev => setMatrixCells(prev, roles, operationIds, event.target.checked))}
+        inputProps={{ 'aria-label': label }}
+      />
+    );
+  };
+
+  const handleConfirmSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(changes);
+      setPreviewOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const allOperationIds = catalog.operations.map(operation => operation.operation_id);
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} justifyContent="flex-end" sx={{ mb: 2 }}>
+        <Button disabled={changes.length === 0} onClick={() => setMatrix(original)}>
+          撤销更改
+        </Button>
+        <Button variant="contained" disabled={changes.length === 0} onClick={() => setPreviewOpen(true)}>
+          预览并保存（{changes.length}）
+        </Button>
+      </Stack>
+
+      <TableContainer component={Paper} sx={{ maxHeight: 640 }}>
+        <Table stickyHeader size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>操作</TableCell>
+              {roleNames.map(role => (
+                <TableCell key={role} align="center">
+                  <Box>{role}</Box>
+                  {renderBulkCheckbox([role], allOperationIds, `${role} 全部操作`)}
+                </TableCell>
+              ))}
+              <TableCell align="center">全部角色</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {groups.map(group => {
+              const groupOperationIds = group.operations.map(operation => operation.operation_id);
+              return (
+                <React.Fragment key={group.menuId || 'orphans'}>
+                  <TableRow sx={{ backgroundColor: theme => theme.palette.action.hover }}>
+                    <TableCell>
+                      <Typography variant="subtitle2">{group.label}</Typography>
+                      {group.menuId && (
+                        <Typography variant="caption" color="text.secondary">{group.menuId}</Typography>
+                      )}
+                    </TableCell>
+                    {roleNames.map(role => (
+                      <TableCell key={role} align="center">
+                        {renderBulkCheckbox([role], groupOperationIds, `${role} ${group.label}`)}
+                      </TableCell>
+                    ))}
+                    <TableCell align="center">
+                      {renderBulkCheckbox(roleNames, groupOperationIds, `全部角色 ${group.label}`)}
+                    </TableCell>
+                  </TableRow>
+                  {group.operations.map(operation => (
+                    <TableRow key={operation.operation_id} hover>
+                      <TableCell sx={{ pl: 4 }}>
+                        <Typography variant="body2">{operation.operation_name}</Typography>
+                        <Typography variant="caption" color="text.secondary">{operation.operation_id}</Typography>
+                      </TableCell>
+                      {roleNames.map(role => (
+                        <TableCell
+                          key={role}
+                          align="center"
+                          sx={changedCells.has(`${role}:${operation.operation_id}`)
+                            ? { backgroundColor: theme => alpha(theme.palette.warning.main, 0.16) }
+                            : undefined}
+                        >
+                          <Checkbox
+                            size="small"
+                            checked={isGranted(role, operation.operation_id)}
+                            onChange={(event) => setMatrix(prev =>
+                              setMatrixCells(prev, [role], [operation.operation_id], event.target.checked)
+                            )}
+                            inputProps={{ 'aria-label': `${role} ${operation.operation_id}` }}
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell align="center">
+                        {renderBulkCheckbox(roleNames, [operation.operation_id], `全部角色 ${operation.operation_id}`)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={previewOpen} onClose={() => !saving && setPreviewOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>确认权限变更</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            共 {changes.filter(change => change.action === 'grant').length} 项授予，
+            {changes.filter(change => change.action === 'revoke').length} 项撤销
+          </Typography>
+          <List dense>
+            {changes.map(change => (
+              <ListItem key={`${change.role}:${change.operationId}`} disableGutters>
+                <Chip
+                  size="small"
+                  label={change.action === 'grant' ? '授予' : '撤销'}
+                  color={change.action === 'grant' ? 'success' : 'error'}
+                  sx={{ mr: 1 }}
+                />
+                <ListItemText
+                  primary={`${change.role} · ${operationLabels.get(change.operationId) || change.operationId}`}
+                  secondary={change.operationId}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPreviewOpen(false)} disabled={saving}>返回修改</Button>
+          <Button
+            variant="contained"
+            onClick={handleConfirmSave}
+            disabled={saving}
+            startIcon={saving ? <CircularProgress size={16} /> : undefined}
+          >
+            确认保存
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PermissionMatrixEditor;
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import {
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import type { CaseCalendarEvent } from '@/src/types/caseCalendar';
+import { EVENT_KIND_LABELS, EVENT_STATUS_COLORS, EVENT_STATUS_LABELS } from './CalendarEventChip';
+
+interface CalendarAgendaViewProps {
+  events: CaseCalendarEvent[];
+  onSelectEvent: (event: CaseCalendarEvent) => void;
+}
+
+function describeDays(event: CaseCalendarEvent): string {
+  if (event.status === 'done') return '';
+  if (event.days_remaining === 0) return '今天';
+  return event.days_remaining > 0 ? `还有 ${event.days_remaining} 天` : `已逾期 ${-event.days_remaining} 天`;
+}
+
+const CalendarAgendaView: React.FC<CalendarAgendaViewProps> = ({ events, onSelectEvent }) => {
+  const groups = useMemo(() => {
+    const grouped = new Map<string, CaseCalendarEvent[]>();
+    for (const event of events) {
+      const key = format(event.start, 'yyyy-MM-dd');
+      grouped.set(key, [...(grouped.get(key) ?? []), event]);
+    }
+    return Array.from(grouped.entries());
+  }, [events]);
+
+  if (groups.length === 0) {
+    return (
+      <Typography align="center" color="text.secondary" sx={{ p: 3 }}>
+        没有需要关注的事项
+      </Typography>
+    );
+  }
+
+  return (
+    <List dense disablePadding>
+      {groups.map(([key, dayEvents]) => (
+        <li key={key}>
+          <ul style={{ padding: 0 }}>
+            <ListSubheader>{format(dayEvents[0].start, 'yyyy年M月d日 EEEE', { locale: zhCN })}</ListSubheader>
+            {dayEvents.map(event => (
+              <ListItemButton key={event.id} onClick={() => onSelectEvent(event)}>
+                <ListItemText
+                  primary={`${event.all_day ? '' : `${format(event.start, 'HH:mm')} `}${event.title}`}
+                  secondary={`${EVENT_KIND_LABELS[event.kind]} · ${event.case_number} ${event.case_name}`}
+                />
+                <Typography variant="body2" color="text.secondary" sx={{ mx: 2, whiteSpace: 'nowrap' }}>
+                  {describeDays(event)}
+                </Typography>
+                <Chip size="small" label={EVENT_STATUS_LABELS[event.status]} color={EVENT_STATUS_COLORS[event.status]} />
+              </ListItemButton>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </List>
+  );
+};
+
+export default CalendarAgendaView;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import { format } from 'date-fns';
+import type {
+  CaseCalendarEvent,
+  CaseCalendarEventKind,
+  CaseCalendarEventStatus,
+} from '@/src/types/caseCalendar';
+
+export const EVENT_STATUS_LABELS: Record<CaseCalendarEventStatus, string> = {
+  overdue: '已逾期',
+  at_risk: '临近期限',
+  upcoming: '未到期',
+  done: '已完成',
+};
+
+export const EVENT_STATUS_COLORS: Record<CaseCalendarEventStatus, 'error' | 'warning' | 'primary' | 'default'> = {
+  overdue: 'error',
+  at_risk: 'warning',
+  upcoming: 'primary',
+  done: 'default',
+};
+
+export const EVENT_KIND_LABELS: Record<CaseCalendarEventKind, string> = {
+  statutory_deadline: '法定期限',
+  case_date: '案件日期',
+  meeting: '会议',
+};
+
+interface CalendarEventChipProps {
+  event: CaseCalendarEvent;
+  onClick: (event: CaseCalendarEvent) => void;
+}
+
+const CalendarEventChip: React.FC<CalendarEventChipProps> = ({ event, onClick }) => {
+  const label = event.all_day ? event.title : `${format(event.start, 'HH:mm')} ${event.title}`;
+
+  return (
+    <Tooltip title={`${event.case_number} ${event.case_name} · ${EVENT_STATUS_LABELS[event.status]}`}>
+      <Chip
+        size="small"
+        label={label}
+        color={EVENT_STATUS_COLORS[event.status]}
+        // 法定期限实心显示，其余事项用描边区分
+        variant={event.kind === 'statutory_deadline' && event.status !== 'done' ? 'filled' : 'outlined'}
+        onClick={() => onClick(event)}
+        sx={{ maxWidth: '100%', justifyContent: 'flex-start' }}
+      />
+    </Tooltip>
+  );
+};
+
+export default CalendarEventChip;
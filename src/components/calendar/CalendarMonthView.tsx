@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { isWorkingDay } from '@/src/utils/holidayCalendar';
+import type { CaseCalendarEvent } from '@/src/types/caseCalendar';
+import CalendarEventChip from './CalendarEventChip';
+
+const WEEKDAY_LABELS = ['一', '二', '三', '四', '五', '六', '日'];
+const MAX_EVENTS_PER_DAY = 3;
+
+interface CalendarMonthViewProps {
+  month: Date;
+  today: Date;
+  events: CaseCalendarEvent[];
+  onSelectEvent: (event: CaseCalendarEvent) => void;
+  onSelectDay: (day: Date) => void;
+}
+
+const CalendarMonthView: React.FC<CalendarMonthViewProps> = ({ month, today, events, onSelectEvent, onSelectDay }) => {
+  const theme = useTheme();
+
+  const days = useMemo(() => {
+    const result: Date[] = [];
+    const last = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+    for (let day = startOfWeek(startOfMonth(month), { weekStartsOn: 1 }); day <= last; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [month]);
+
+  const eventsByDay = useMemo(() => {
+    const grouped = new Map<string, CaseCalendarEvent[]>();
+    for (const event of events) {
+      const key = format(event.start, 'yyyy-MM-dd');
+      grouped.set(key, [...(grouped.get(key) ?? []), event]);
+    }
+    return grouped;
+  }, [events]);
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))', borderTop: 1, borderLeft: 1, borderColor: 'divider' }}>
+      {WEEKDAY_LABELS.map(label => (
+        <Typography
+          key={label}
+          variant="caption"
+          align="center"
+          sx={{ py: 0.5, borderRight: 1, borderBottom: 1, borderColor: 'divider', color: 'text.secondary' }}
+        >
+          周{label}
+        </Typography>
+      ))}
+      {days.map(day => {
+        const dayEvents = eventsByDay.get(format(day, 'yyyy-MM-dd')) ?? [];
+        const restDay = !isWorkingDay(day);
+        return (
+          <Box
+            key={day.toISOString()}
+            sx={{
+              minHeight: 110,
+              p: 0.5,
+              borderRight: 1,
+              borderBottom: 1,
+              borderColor: 'divider',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 0.5,
+              bgcolor: restDay ? theme.palette.action.hover : 'transparent',
+              opacity: isSameMonth(day, month) ? 1 : 0.5,
+            }}
+          >
+            <Typography
+              variant="body2"
+              onClick={() => onSelectDay(day)}
+              sx={{
+                cursor: 'pointer',
+                fontWeight: isSameDay(day, today) ? 700 : 400,
+                color: isSameDay(day, today) ? 'primary.main' : restDay ? 'text.secondary' : 'text.primary',
+              }}
+            >
+              {format(day, 'd')}
+              {restDay && day.getDay() !== 0 && day.getDay() !== 6 ? ' 休' : ''}
+            </Typography>
+            {dayEvents.slice(0, MAX_EVENTS_PER_DAY).map(event => (
+              <CalendarEventChip key={event.id} event={event} onClick={onSelectEvent} />
+            ))}
+            {dayEvents.length > MAX_EVENTS_PER_DAY && (
+              <Typography variant="caption" color="text.secondary" sx={{ cursor: 'pointer' }} onClick={() => onSelectDay(day)}>
+                还有 {dayEvents.length - MAX_EVENTS_PER_DAY} 项
+              </Typography>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default CalendarMonthView;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Box, Stack, Typography, useTheme } from '@mui/material';
+import { addDays, format, isSameDay, startOfWeek } from 'date-fns';
+import { zhCN } from 'date-fns/locale';
+import { isWorkingDay } from '@/src/utils/holidayCalendar';
+import type { CaseCalendarEvent } from '@/src/types/caseCalendar';
+import CalendarEventChip from './CalendarEventChip';
+
+interface CalendarWeekViewProps {
+  week: Date;
+  today: Date;
+  events: CaseCalendarEvent[];
+  onSelectEvent: (event: CaseCalendarEvent) => void;
+}
+
+const CalendarWeekView: React.FC<CalendarWeekViewProps> = ({ week, today, events, onSelectEvent }) => {
+  const theme = useTheme();
+  const start = startOfWeek(week, { weekStartsOn: 1 });
+  const days = Array.from({ length: 7 }, (_, index) => addDays(start, index));
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(7, minmax(0, 1fr))' }, gap: 1 }}>
+      {days.map(day => {
+        // 全天事项在前，会议按开始时间排列
+        const dayEvents = events
+          .filter(event => isSameDay(event.start, day))
+          .sort((a, b) => Number(a.all_day === false) - Number(b.all_day === false) || a.start.getTime() - b.start.getTime());
+        return (
+          <Box
+            key={day.toISOString()}
+            sx={{
+              minHeight: { md: 320 },
+              p: 1,
+              border: 1,
+              borderColor: isSameDay(day, today) ? 'primary.main' : 'divider',
+              borderRadius: 1,
+              bgcolor: isWorkingDay(day) ? 'transparent' : theme.palette.action.hover,
+            }}
+          >
+            <Typography variant="subtitle2" color={isSameDay(day, today) ? 'primary' : 'text.primary'}>
+              {format(day, 'M月d日 EEE', { locale: zhCN })}
+            </Typography>
+            {!isWorkingDay(day) && (
+              <Typography variant="caption" color="text.secondary">休息日</Typography>
+            )}
+            <Stack spacing={0.5} sx={{ mt: 1 }}>
+              {dayEvents.map(event => (
+                <CalendarEventChip key={event.id} event={event} onClick={onSelectEvent} />
+              ))}
+            </Stack>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default CalendarWeekView;
@@ -5,6 +5,7 @@ import { RecordId } from 'surrealdb';
 import { useAuth } from '@/src/contexts/AuthContext';
 import { useSnackbar } from '@/src/contexts/SnackbarContext';
 import { addCaseMember } from '@/src/services/caseMemberService';
+import { CaseProcedureFlowService } from '@/src/services/caseProcedureFlowService';
 import {
   Dialog,
   DialogTitle,
@@ -28,12 +29,18 @@ import { Close as CloseIcon } from '@mui/icons-material';
 interface CaseData {
   name: string;
   case_number: string;
-  case_type: string;
-  court: string;
-  case_value: number;
-  created_by: RecordId | string;
-  bankruptcy_type: string;
-  case_description: string;
+  case_manager_name: string;
+  case_procedure: string;
+  acceptance_date: Date;
+  procedure_phase: string;
+  created_by_user?: RecordId | string;
+  case_lead_user_id?: RecordId | string;
+  announcement_date?: Date;
+  claim_submission_start_date?: Date;
+  claim_submission_end_date?: Date;
+  manager_organization?: string;
+  manager_contact_phone?: string;
+  manager_address?: string;
 }
 
 interface CreatedCaseResult {
@@ -65,6 +72,9 @@ const CreateCaseDialog: React.FC<CreateCaseDialogProps> = ({
   const [announcementDate, setAnnouncementDate] = useState<string>('');
   const [claimStartDate, setClaimStartDate] = useState<string>('');
   const [claimEndDate, setClaimEndDate] = useState<string>('');
+  const [managerOrganization, setManagerOrganization] = useState<string>('');
+  const [managerContactPhone, setManagerContactPhone] = useState<string>('');
+  const [managerAddress, setManagerAddress] = useState<string>('');
 
   // Auto-calculation flags
   const [isAnnouncementDateAuto, setIsAnnouncementDateAuto] = useState(true);
@@ -142,6 +152,9 @@ const CreateCaseDialog: React.FC<CreateCaseDialogProps> = ({
       setAnnouncementDate('');
       setClaimStartDate('');
       setClaimEndDate('');
+      setManagerOrganization('');
+      setManagerContactPhone('');
+      setManagerAddress('');
       setIsAnnouncementDateAuto(true);
       setIsClaimStartDateAuto(true);
       setIsClaimEndDateAuto(true);
@@ -167,6 +180,8 @@ const CreateCaseDialog: React.FC<CreateCaseDialogProps> = ({
     const timestamp = Date.now();
     const generatedCaseNumber = `BK-${new Date().getFullYear()}-${timestamp.toString().slice(-6)}`;
     console.log('typeof user?.id===typeof RecordId',user?.id instanceof RecordId)
+    // 初始阶段取自案件程序流程定义
+    const procedureFlow = await new CaseProcedureFlowService(client).getFlow(caseProcedure).catch(() => null);
     // Convert date strings to Date objects for SurrealDB
     const caseData: CaseData = {
       name: caseName.trim(),
@@ -174,11 +189,22 @@ const CreateCaseDialog: React.FC<CreateCaseDialogProps> = ({
       case_manager_name: caseLead.trim() || user?.name || t('unassigned', '未分配'),
       case_procedure: caseProcedure,
       acceptance_date: new Date(acceptanceDate + 'T00:00:00Z'),
-      procedure_phase: '立案',
+      procedure_phase: procedureFlow?.initial_phase ?? '立案',
       created_by_user: user?.id,
       case_lead_user_id: user?.id,
     };
 
+    // 管理人联系方式（用于快递单寄件人信息）
+    if (managerOrganization.trim()) {
+      caseData.manager_organization = managerOrganization.trim();
+    }
+    if (managerContactPhone.trim()) {
+      caseData.manager_contact_phone = managerContactPhone.trim();
+    }
+    if (managerAddress.trim()) {
+      caseData.manager_address = managerAddress.trim();
+    }
+
     // Add optional date fields if they exist (for bankruptcy cases)
     if (showBankruptcyFields) {
       if (announcementDate) {
@@ -434,6 +460,38 @@ const CreateCaseDialog: React.FC<CreateCaseDialogProps> = ({
               </Grid>
             </>
           )}
+
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              label={t('create_case_manager_organization_label', '管理人名称')}
+              value={managerOrganization}
+              onChange={(e) => { setManagerOrganization(e.target.value); handleInputChange(); }}
+              fullWidth
+              variant="outlined"
+              helperText={t('create_case_manager_organization_hint', '用于快递单寄件人，如 某某律师事务所')}
+              disabled={isSaving}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              label={t('create_case_manager_phone_label', '管理人联系电话')}
+              value={managerContactPhone}
+              onChange={(e) => { setManagerContactPhone(e.target.value); handleInputChange(); }}
+              fullWidth
+              variant="outlined"
+              disabled={isSaving}
+            />
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <TextField
+              label={t('create_case_manager_address_label', '管理人通讯地址')}
+              value={managerAddress}
+              onChange={(e) => { setManagerAddress(e.target.value); handleInputChange(); }}
+              fullWidth
+              variant="outlined"
+              disabled={isSaving}
+            />
+          </Grid>
         </Grid>
       </DialogContent>
 
@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useSnackbar } from '@/src/contexts/SnackbarContext'; // Added for showSuccess
+import { useSnackbar } from '@/src/contexts/SnackbarContext';
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { useAuth } from '@/src/contexts/AuthContext';
 import {
   Dialog,
   DialogTitle,
@@ -15,436 +17,267 @@ import {
   InputLabel,
   Box,
   Chip,
+  Alert,
+  CircularProgress,
+  SelectChangeEvent,
 } from '@mui/material';
-import RichTextEditor, { QuillDelta } from '@/src/components/RichTextEditor'; // Assuming path
+import RichTextEditor, { QuillDelta } from '@/src/components/RichTextEditor';
 import { Delta } from 'quill/core';
+import {
+  CaseProcedureFlowService,
+  getAvailableTransitions,
+  getMissingRequirements,
+} from '@/src/services/caseProcedureFlowService';
+import type {
+  CaseProcedureFlow,
+  CaseProcedureDocumentInput,
+  CaseProcedurePhaseName,
+} from '@/src/types/caseProcedure';
 
-// Define valid case statuses - should match product documentation
-export type CaseStatus =
-    | '立案'
-    | '公告'
-    | '债权申报'
-    | '债权人第一次会议'
-    | '破产清算'
-    | '裁定重整'
-    | '提交重整计划'
-    | '延迟提交重整计划'
-    | '重整计划（草案）投票'
-    | '重整计划（草案）通过或未通过'
-    | '批准重整计划'
-    | '终止重整计划'
-    | '和解'
-    | '结案';
-
-// State transition map based on product documentation (section 3.1.4)
-const stateTransitions: Record<CaseStatus, CaseStatus[]> = {
-  // Based on "状态流转逻辑及处理" table in 产品说明文档-jules.md (section 3.1.4)
-  // And also considering "程序进程" enum: 立案、公告、债权申报、债权人第一次会议、裁定重整、提交重整计划、延迟提交重整计划、债权人第二次会议、破产清算、结案
-  '立案': ['公告', '结案'], // Doc: "立案" -> "公告"
-  '公告': ['债权申报', '结案'], // Doc: "公告" -> "债权申报"
-  '债权申报': ['债权人第一次会议', '结案'], // Doc: "债权申报" -> "债权人第一次会议"
-  '债权人第一次会议': ['破产清算', '裁定重整', '结案'], // Doc: "债权人第一次会议" -> "破产清算" OR "裁定重整". '和解' is a separate procedure, not a direct status change from here in the table.
-  '破产清算': ['结案'], // Doc doesn't explicitly state "破产清算" -> "结案" but it's a terminal path before结案.
-  '裁定重整': ['提交重整计划', '延迟提交重整计划', '破产清算', '结案'], // Doc: "裁定重整" -> "提交重整计划" OR "延迟提交重整计划". Added "破产清算" for failure scenario.
-  '提交重整计划': ['债权人第二次会议', '结案'], // Doc: "提交重整计划" -> "债权人第二次会议"
-  '延迟提交重整计划': ['债权人第二次会议', '提交重整计划', '结案'], // Doc: "延迟提交重整计划" -> "债权人第二次会议". Added '提交重整计划' if they recover.
-  // Adding '债权人第二次会议' as a current status, as it's in the enum and logically follows '提交重整计划' or '延迟提交重整计划'
-  '债权人第二次会议': ['批准重整计划', '终止重整计划', '破产清算', '结案'], // Assuming these are logical next steps after a second meeting. Product doc needs more clarity here.
-  // The following statuses '重整计划（草案）投票', '重整计划（草案）通过或未通过', '批准重整计划', '终止重整计划', '和解' are not explicitly in the state transition table as *current* statuses.
-  // They seem to be outcomes or sub-processes. For now, sticking to the main documented flowchart.
-  // '批准重整计划' would logically lead to '结案' (after execution).
-  // '终止重整计划' would logically lead to '破产清算'.
-  '批准重整计划': ['结案'],
-  '终止重整计划': ['破产清算', '结案'],
-  '和解': ['结案'], // '和解' is a procedure type, if it's a status, it leads to结案.
-  '结案': [], // Terminal state
-};
-
-// These statuses are from the provided code's CaseStatus type,
-// but not all are in the product doc's state transition table as *current* states.
-// '重整计划（草案）投票'
-// '重整计划（草案）通过或未通过'
+// 案件程序阶段，可选阶段及流转规则由数据库中的案件程序流程定义（case_procedure_flow）决定
+export type CaseStatus = CaseProcedurePhaseName;
 
 interface CaseInfo {
   id: string;
-  current_status: CaseStatus; // Or use a more generic field like program_stage
-  // other case details if needed
+  current_status: CaseStatus;
+  /** 案件程序类型（破产清算/破产重整/破产和解），决定使用的程序流程 */
+  case_procedure?: string;
 }
 
 interface ModifyCaseStatusDialogProps {
   open: boolean;
   onClose: () => void;
   currentCase: CaseInfo | null;
+  onStatusChanged?: (newStatus: CaseStatus) => void;
 }
 
 const ModifyCaseStatusDialog: React.FC<ModifyCaseStatusDialogProps> = ({
                                                                          open,
                                                                          onClose,
                                                                          currentCase,
+                                                                         onStatusChanged,
                                                                        }) => {
   const { t } = useTranslation();
-  const { showSuccess } = useSnackbar(); // Added
-  const [selectedNextStatus, setSelectedNextStatus] = useState<CaseStatus | ''>('');
-  const [availableNextStatuses, setAvailableNextStatuses] = useState<CaseStatus[]>([]);
+  const { showSuccess, showError } = useSnackbar();
+  const client = useSurrealClient();
+  const { hasRole, currentUserCaseRoles } = useAuth();
 
-  // Date fields
-  const [announcementDate, setAnnouncementDate] = useState<string>('');
-  const [claimStartDate, setClaimStartDate] = useState<string>('');
-  const [claimEndDate, setClaimEndDate] = useState<string>('');
-  const [restructuringDecisionDate, setRestructuringDecisionDate] = useState<string>('');
-  const [planSubmissionDate, setPlanSubmissionDate] = useState<string>('');
-  const [delayedPlanSubmissionDate, setDelayedPlanSubmissionDate] = useState<string>('');
-  const [closingDate, setClosingDate] = useState<string>('');
-  const [firstCreditorMeetingDate, setFirstCreditorMeetingDate] = useState<string>(''); // Added for '破产清算' or '裁定重整' from '债权人第一次会议'
+  const [flow, setFlow] = useState<CaseProcedureFlow | null>(null);
+  const [isLoadingFlow, setIsLoadingFlow] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedNextStatus, setSelectedNextStatus] = useState<CaseStatus | ''>('');
+  const [dateValues, setDateValues] = useState<Record<string, string>>({});
+  const [documentDeltas, setDocumentDeltas] = useState<Record<string, QuillDelta>>({});
+  const [validationError, setValidationError] = useState<string | null>(null);
 
-  // RichTextEditor content
-  const [restructuringAnnouncementDelta, setRestructuringAnnouncementDelta] = useState<QuillDelta>(new Delta());
-  const [restructuringPlanDelta, setRestructuringPlanDelta] = useState<QuillDelta>(new Delta());
+  const flowService = useMemo(() => new CaseProcedureFlowService(client), [client]);
 
+  // 加载案件程序流程定义
   useEffect(() => {
-    if (currentCase) {
-      let possibleStatuses = stateTransitions[currentCase.current_status] || [];
-      // Ensure '结案' is always an option unless already '结案'
-      if (currentCase.current_status !== '结案' && !possibleStatuses.includes('结案')) {
-        possibleStatuses = [...possibleStatuses, '结案'];
+    if (!open || !currentCase) return;
+
+    let cancelled = false;
+    const loadFlow = async () => {
+      setIsLoadingFlow(true);
+      setLoadError(null);
+      try {
+        const result = await flowService.getFlow(currentCase.case_procedure || '');
+        if (!cancelled) {
+          setFlow(result);
+          if (!result) {
+            setLoadError(t('modify_status_flow_not_found', '未找到案件程序流程定义'));
+          }
+        }
+      } catch (error) {
+        console.error('加载案件程序流程失败:', error);
+        if (!cancelled) {
+          setLoadError(t('modify_status_flow_load_error', '加载案件程序流程失败'));
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoadingFlow(false);
+        }
       }
-      setAvailableNextStatuses(possibleStatuses);
-      setSelectedNextStatus('');
+    };
 
-      // Reset all conditional fields
-      setAnnouncementDate('');
-      setClaimStartDate('');
-      setClaimEndDate('');
-      setRestructuringDecisionDate('');
-      setPlanSubmissionDate('');
-      setDelayedPlanSubmissionDate('');
-      setClosingDate('');
-      setFirstCreditorMeetingDate(''); // Reset new field
-      setRestructuringAnnouncementDelta(new Delta());
-      setRestructuringPlanDelta(new Delta());
-    } else {
-      setAvailableNextStatuses([]);
-      setSelectedNextStatus('');
-    }
+    loadFlow();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, currentCase, flowService, t]);
+
+  // 切换案件或重新打开时重置表单
+  useEffect(() => {
+    setSelectedNextStatus('');
+    setDateValues({});
+    setDocumentDeltas({});
+    setValidationError(null);
   }, [currentCase, open]);
 
-  const handleStatusChange = (event: React.ChangeEvent<{ value: unknown }>) => {
+  const userRoles = useMemo(() => {
+    const roles = currentUserCaseRoles.map((role) => role.name);
+    return hasRole('admin') ? [...roles, 'admin'] : roles;
+  }, [currentUserCaseRoles, hasRole]);
+
+  const availableTransitions = useMemo(() => {
+    if (!flow || !currentCase) return [];
+    return getAvailableTransitions(flow, currentCase.current_status, userRoles);
+  }, [flow, currentCase, userRoles]);
+
+  const selectedTransition = availableTransitions.find((transition) => transition.to === selectedNextStatus);
+
+  const handleStatusChange = (event: SelectChangeEvent<string>) => {
     setSelectedNextStatus(event.target.value as CaseStatus);
+    setValidationError(null);
   };
 
-  const handleSubmit = () => {
-    if (!currentCase || !selectedNextStatus) return;
+  const handleSubmit = async () => {
+    if (!currentCase || !selectedTransition) return;
 
-    const submissionData: {
-      caseId: string;
-      newStatus: CaseStatus;
-      explanation?: QuillDelta;
-    } = {
-      caseId: currentCase.id,
-      newStatus: selectedNextStatus,
-      currentStatus: currentCase.current_status,
-    };
+    const documents: Record<string, CaseProcedureDocumentInput> = {};
+    selectedTransition.required_documents.forEach((requirement) => {
+      const delta = documentDeltas[requirement.field];
+      const hasContent = delta?.ops?.some((op) => typeof op.insert !== 'string' || op.insert.trim() !== '');
+      if (delta && hasContent) {
+        documents[requirement.field] = { title: requirement.label, content: delta.ops };
+      }
+    });
 
-    // Add conditional data based on selectedNextStatus and product documentation
-    switch (selectedNextStatus) {
-      case '公告':
-        submissionData.announcementDate = announcementDate; // Doc: "记录/更新案件的“公告时间”"
-        break;
-      case '债权申报':
-        submissionData.claimStartDate = claimStartDate; // Doc: "记录/更新“债权申报开始时间”"
-        break;
-      case '债权人第一次会议':
-        submissionData.claimEndDate = claimEndDate; // Doc: "记录/更新“债权申报截止时间”"
-        break;
-      case '破产清算':
-        // Doc: "记录“债权人第一次会议时间”" when transitioning from '债权人第一次会议'
-        if (currentCase.current_status === '债权人第一次会议') {
-          submissionData.firstCreditorMeetingDate = firstCreditorMeetingDate;
-        }
-        // No specific date for '破产清算' itself, but might need related dates if coming from other statuses.
-        break;
-      case '裁定重整':
-        // Doc: "记录“债权人第一次会议时间”" when transitioning from '债权人第一次会议'
-        if (currentCase.current_status === '债权人第一次会议') {
-          submissionData.firstCreditorMeetingDate = firstCreditorMeetingDate;
-        }
-        submissionData.restructuringDecisionDate = restructuringDecisionDate; // Doc: "记录“裁定重整时间”"
-        submissionData.restructuringAnnouncementContent = JSON.stringify(restructuringAnnouncementDelta.ops); // Doc: "需在页面提交“裁定重整公告”"
-        break;
-      case '提交重整计划':
-        submissionData.planSubmissionDate = planSubmissionDate; // Doc: "记录“重整计划提交时间”"
-        submissionData.restructuringPlanContent = JSON.stringify(restructuringPlanDelta.ops); // Doc: "需在页面提交“重整计划”"
-        break;
-      case '延迟提交重整计划':
-        submissionData.delayedPlanSubmissionDate = delayedPlanSubmissionDate; // Doc: "记录“延迟提交重整计划时间”"
-        break;
-      case '债权人第二次会议':
-        // No specific date mentioned for transitioning TO this state in the table.
-        // Dates would be recorded when transitioning FROM this state.
-        break;
-      case '结案':
-        submissionData.closingDate = closingDate; // Doc: "并需设置结案时间"
-        break;
-        // Add other cases as per documentation if new transitions are added.
+    const missing = getMissingRequirements(selectedTransition, { date_values: dateValues, documents });
+    if (missing.length > 0) {
+      setValidationError(t('modify_status_missing_fields', '请填写：{{fields}}', { fields: missing.join('、') }));
+      return;
     }
 
-    console.log("Submitting Case Status Update:", submissionData);
-    showSuccess(t('modify_status_success_message', '案件状态已成功（模拟）更新！')); // Added success message
-
-    // TODO: Implement actual API call to update status and save data/documents
-    onClose(); // Close dialog after submission
+    setIsSubmitting(true);
+    try {
+      await flowService.transitionCase({
+        case_id: currentCase.id,
+        to_phase: selectedTransition.to,
+        date_values: dateValues,
+        documents,
+      });
+      showSuccess(t('modify_status_success_message', '案件状态已更新'));
+      onStatusChanged?.(selectedTransition.to);
+      onClose();
+    } catch (error) {
+      console.error('变更案件状态失败:', error);
+      showError(error instanceof Error ? error.message : t('modify_status_error_message', '案件状态更新失败'));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   if (!currentCase) return null;
 
-  const renderConditionalFields = () => {
-    switch (selectedNextStatus) {
-      case '公告':
-        return (
-            <TextField
-                margin="dense"
-                id="announcementDate"
-                label={t('modify_status_announcement_date', '公告时间')}
-                type="date"
-                fullWidth
-                variant="outlined"
-                value={announcementDate}
-                onChange={(e) => setAnnouncementDate(e.target.value)}
-                InputLabelProps={{ shrink: true }}
-            />
-        );
-      case '债权申报':
-        return (
-            <TextField
-                margin="dense"
-                id="claimStartDate"
-                label={t('modify_status_claim_start_date', '债权申报开始时间')}
-                type="date"
-                fullWidth
-                variant="outlined"
-                value={claimStartDate}
-                onChange={(e) => setClaimStartDate(e.target.value)}
-                InputLabelProps={{ shrink: true }}
-            />
-        );
-      case '债权人第一次会议': // Transitioning TO '债权人第一次会议'
-        return (
-            <TextField
-                margin="dense"
-                id="claimEndDate" // This is the date for when claim submission (previous phase) ends
-                label={t('modify_status_claim_end_date', '债权申报截止时间')}
-                type="date"
-                fullWidth
-                variant="outlined"
-                value={claimEndDate}
-                onChange={(e) => setClaimEndDate(e.target.value)}
-                InputLabelProps={{ shrink: true }}
-            />
-        );
-      case '破产清算':
-      case '裁定重整':
-        if (currentCase.current_status === '债权人第一次会议') {
-          return (
-              <>
-                <TextField
-                    margin="dense"
-                    id="firstCreditorMeetingDate"
-                    label={t('modify_status_first_creditor_meeting_date', '债权人第一次会议时间')}
-                    type="date"
-                    fullWidth
-                    variant="outlined"
-                    value={firstCreditorMeetingDate}
-                    onChange={(e) => setFirstCreditorMeetingDate(e.target.value)}
-                    InputLabelProps={{ shrink: true }}
-                    sx={{ mb: selectedNextStatus === '裁定重整' ? 2 : 0 }}
-                />
-                {selectedNextStatus === '裁定重整' && (
-                    <>
-                      <TextField
-                          margin="dense"
-                          id="restructuringDecisionDate"
-                          label={t('modify_status_restructuring_decision_date', '裁定重整时间')}
-                          type="date"
-                          fullWidth
-                          variant="outlined"
-                          value={restructuringDecisionDate}
-                          onChange={(e) => setRestructuringDecisionDate(e.target.value)}
-                          InputLabelProps={{ shrink: true }}
-                          sx={{ mb: 2 }}
-                      />
-                      <Typography variant="subtitle2" gutterBottom sx={{mt:1}}>
-                        {t('modify_status_restructuring_announcement_doc', '裁定重整公告')}
-                      </Typography>
-                      <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1, minHeight: '200px' }}>
-                        <RichTextEditor
-                            value={restructuringAnnouncementDelta}
-                            onTextChange={(delta) => setRestructuringAnnouncementDelta(delta)}
-                            placeholder={t('modify_status_restructuring_announcement_placeholder', '请输入公告内容...')}
-                        />
-                      </Box>
-                    </>
-                )}
-              </>
-          );
-        } else if (selectedNextStatus === '裁定重整') { // e.g. from '延迟提交重整计划' directly to '裁定重整' (if logic allows)
-          return (
-              <>
-                <TextField
-                    margin="dense"
-                    id="restructuringDecisionDate"
-                    label={t('modify_status_restructuring_decision_date', '裁定重整时间')}
-                    type="date"
-                    fullWidth
-                    variant="outlined"
-                    value={restructuringDecisionDate}
-                    onChange={(e) => setRestructuringDecisionDate(e.target.value)}
-                    InputLabelProps={{ shrink: true }}
-                    sx={{ mb: 2 }}
-                />
-                <Typography variant="subtitle2" gutterBottom sx={{mt:1}}>
-                  {t('modify_status_restructuring_announcement_doc', '裁定重整公告')}
-                </Typography>
-                <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1, minHeight: '200px' }}>
-                  <RichTextEditor
-                      value={restructuringAnnouncementDelta}
-                      onTextChange={(delta) => setRestructuringAnnouncementDelta(delta)}
-                      placeholder={t('modify_status_restructuring_announcement_placeholder', '请输入公告内容...')}
-                  />
-                </Box>
-              </>
-          );
-        }
-        return null; // Or other default fields if needed for '破产清算' from other states
-        // case '裁定重整': // This is now part of the above combined case
-        //   return (
-        //     <>
-        //       <TextField
-        //         margin="dense"
-        //         id="restructuringDecisionDate"
-        //         label={t('modify_status_restructuring_decision_date', '裁定重整时间')}
-        //         type="date"
-        //         fullWidth
-        //         variant="outlined"
-        //         value={restructuringDecisionDate}
-        //         onChange={(e) => setRestructuringDecisionDate(e.target.value)}
-        //         InputLabelProps={{ shrink: true }}
-        //         sx={{ mb: 2 }}
-        //       />
-        //       <Typography variant="subtitle2" gutterBottom sx={{mt:1}}>
-        //         {t('modify_status_restructuring_announcement_doc', '裁定重整公告')}
-        //       </Typography>
-        //       <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1, minHeight: '200px' }}>
-        //         <RichTextEditor
-        //           value={restructuringAnnouncementDelta}
-        //           onTextChange={(delta) => setRestructuringAnnouncementDelta(delta)}
-        //           placeholder={t('modify_status_restructuring_announcement_placeholder', '请输入公告内容...')}
-        //         />
-        //       </Box>
-        //     </>
-        //   );
-      case '提交重整计划':
-        return (
-            <>
+  const renderRequiredFields = () => {
+    if (!selectedTransition) return null;
+
+    const { required_date_fields, required_documents } = selectedTransition;
+    if (required_date_fields.length === 0 && required_documents.length === 0) {
+      return (
+          <Typography variant="body2" color="text.secondary">
+            {t('modify_status_no_required_info', '该状态变更无需填写额外信息')}
+          </Typography>
+      );
+    }
+
+    return (
+        <>
+          {required_date_fields.map((requirement) => (
               <TextField
+                  key={requirement.field}
                   margin="dense"
-                  id="planSubmissionDate"
-                  label={t('modify_status_plan_submission_date', '重整计划提交时间')}
+                  id={requirement.field}
+                  label={requirement.label}
                   type="date"
                   fullWidth
+                  required
                   variant="outlined"
-                  value={planSubmissionDate}
-                  onChange={(e) => setPlanSubmissionDate(e.target.value)}
+                  value={dateValues[requirement.field] || ''}
+                  onChange={(e) => setDateValues((prev) => ({ ...prev, [requirement.field]: e.target.value }))}
                   InputLabelProps={{ shrink: true }}
-                  sx={{ mb: 2 }}
               />
-              <Typography variant="subtitle2" gutterBottom sx={{mt:1}}>
-                {t('modify_status_restructuring_plan_doc', '重整计划')}
-              </Typography>
-              <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1, minHeight: '200px' }}>
-                <RichTextEditor
-                    value={restructuringPlanDelta}
-                    onTextChange={(delta) => setRestructuringPlanDelta(delta)}
-                    placeholder={t('modify_status_restructuring_plan_placeholder', '请输入计划内容...')}
-                />
+          ))}
+          {required_documents.map((requirement) => (
+              <Box key={requirement.field} sx={{ mt: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  {requirement.label}
+                </Typography>
+                <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1, minHeight: '200px' }}>
+                  <RichTextEditor
+                      value={documentDeltas[requirement.field] || new Delta()}
+                      onTextChange={(delta) => setDocumentDeltas((prev) => ({ ...prev, [requirement.field]: delta }))}
+                      placeholder={t('modify_status_document_placeholder', '请输入{{name}}内容...', { name: requirement.label })}
+                  />
+                </Box>
               </Box>
-            </>
-        );
-      case '延迟提交重整计划':
-        return (
-            <TextField
-                margin="dense"
-                id="delayedPlanSubmissionDate"
-                label={t('modify_status_delayed_plan_date', '延迟提交重整计划时间')}
-                type="date"
-                fullWidth
-                variant="outlined"
-                value={delayedPlanSubmissionDate}
-                onChange={(e) => setDelayedPlanSubmissionDate(e.target.value)}
-                InputLabelProps={{ shrink: true }}
-            />
-        );
-      case '债权人第二次会议': // No specific fields when transitioning TO this according to table.
-        return null;
-      case '结案':
-        return (
-            <TextField
-                margin="dense"
-                id="closingDate"
-                label={t('modify_status_closing_date', '结案时间')}
-                type="date"
-                fullWidth
-                variant="outlined"
-                value={closingDate}
-                onChange={(e) => setClosingDate(e.target.value)}
-                InputLabelProps={{ shrink: true }}
-            />
-        );
-      default:
-        return null;
-    }
+          ))}
+        </>
+    );
   };
 
   return (
       <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
         <DialogTitle>{t('modify_status_dialog_title', '修改案件状态')}</DialogTitle>
         <DialogContent dividers>
-          <Box sx={{ mb: 2 }}>
+          <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
             <Typography variant="subtitle1" component="span" sx={{ fontWeight: 'bold' }}>
               {t('modify_status_current_status_label', '当前状态')}:{' '}
             </Typography>
             <Chip label={currentCase.current_status} color="primary" />
+            {flow && <Chip label={flow.name} variant="outlined" size="small" />}
           </Box>
 
-          <FormControl fullWidth margin="normal">
-            <InputLabel id="next-status-select-label">{t('modify_status_select_next_status_label', '选择新的状态')}</InputLabel>
-            <Select
-                labelId="next-status-select-label"
-                id="nextStatus"
-                value={selectedNextStatus}
-                label={t('modify_status_select_next_status_label', '选择新的状态')}
-                onChange={handleStatusChange}
-                disabled={availableNextStatuses.length === 0}
-            >
-              <MenuItem value="" disabled>
-                <em>{t('modify_status_select_placeholder', '请选择...')}</em>
-              </MenuItem>
-              {availableNextStatuses.map((status) => (
-                  <MenuItem key={status} value={status}>
-                    {t(`case_status_${status.toLowerCase().replace(/\s+/g, '_')}`, status)}
-                    {/* Assuming you have i18n keys like case_status_立案 */}
+          {isLoadingFlow && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                <CircularProgress size={24} />
+              </Box>
+          )}
+
+          {loadError && <Alert severity="error">{loadError}</Alert>}
+
+          {flow && !isLoadingFlow && availableTransitions.length === 0 && (
+              <Alert severity="info">
+                {t('modify_status_no_transitions', '当前状态没有可执行的状态变更')}
+              </Alert>
+          )}
+
+          {flow && !isLoadingFlow && availableTransitions.length > 0 && (
+              <FormControl fullWidth margin="normal">
+                <InputLabel id="next-status-select-label">{t('modify_status_select_next_status_label', '选择新的状态')}</InputLabel>
+                <Select
+                    labelId="next-status-select-label"
+                    id="nextStatus"
+                    value={selectedNextStatus}
+                    label={t('modify_status_select_next_status_label', '选择新的状态')}
+                    onChange={handleStatusChange}
+                >
+                  <MenuItem value="" disabled>
+                    <em>{t('modify_status_select_placeholder', '请选择...')}</em>
                   </MenuItem>
-              ))}
-            </Select>
-          </FormControl>
+                  {availableTransitions.map((transition) => (
+                      <MenuItem key={transition.to} value={transition.to}>
+                        {t(`case_status_${transition.to}`, transition.to)}
+                      </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+          )}
 
-          {selectedNextStatus && (
+          {selectedTransition && (
               <Box mt={2} p={2} border={1} borderColor="divider" borderRadius={1}>
                 <Typography variant="h6" gutterBottom>
                   {t('modify_status_required_info_title', '所需信息')}
                 </Typography>
-                {renderConditionalFields()}
+                {renderRequiredFields()}
               </Box>
           )}
+
+          {validationError && (
+              <Alert severity="warning" sx={{ mt: 2 }}>{validationError}</Alert>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={onClose}>{t('cancel_button', '取消')}</Button>
@@ -452,9 +285,9 @@ const ModifyCaseStatusDialog: React.FC<ModifyCaseStatusDialogProps> = ({
               onClick={handleSubmit}
               variant="contained"
               color="primary"
-              disabled={!selectedNextStatus} // Disable if no next status is selected
+              disabled={!selectedTransition || isSubmitting}
           >
-            {t('submit_button', '提交')}
+            {isSubmitting ? t('submitting', '提交中...') : t('submit_button', '提交')}
           </Button>
         </DialogActions>
       </Dialog>
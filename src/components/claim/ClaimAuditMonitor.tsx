@@ -124,7 +124,7 @@ export const ClaimAuditMonitor: React.FC<ClaimAuditMonitorProps> = ({
   // 初始化服务
   useEffect(() => {
     if (client) {
-      claimTrackingAuditService.setClientGetter(client);
+      claimTrackingAuditService.setClientGetter(() => Promise.resolve(client));
     }
   }, [client]);
 
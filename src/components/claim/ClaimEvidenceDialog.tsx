@@ -0,0 +1,163 @@
+import React, { Suspense, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItemButton,
+  ListItemText,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+
+import { ClaimPrefillService } from '@/src/services/claimPrefillService';
+import { useSurreal } from '@/src/contexts/SurrealProvider';
+import { CLAIM_EVIDENCE_FIELD_LABELS, evidenceToHighlightRegions } from '@/src/utils/claimPrefill';
+import type { ClaimEvidenceField, ClaimSourceEvidence } from '@/src/types/claimEvidence';
+
+// pdf.js 体积较大，打开来源对话框时再加载，申报和审核页面不必随之加载
+const PDFPreviewComponent = React.lazy(() => import('@/src/components/pdf-parser/PDFPreviewComponent'));
+
+interface ClaimEvidenceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  sourceEvidence: ClaimSourceEvidence;
+  /** 打开时定位到的申报字段，为空时显示全部来源 */
+  claimField?: ClaimEvidenceField;
+  /** 本地文件地址，申报尚未保存时使用，否则从 document 记录读取原始文件 */
+  fileUrl?: string;
+}
+
+const ClaimEvidenceDialog: React.FC<ClaimEvidenceDialogProps> = ({
+  open,
+  onClose,
+  sourceEvidence,
+  claimField,
+  fileUrl,
+}) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { client } = useSurreal();
+  const prefillService = useMemo(() => new ClaimPrefillService(client), [client]);
+
+  const [selectedField, setSelectedField] = useState<ClaimEvidenceField | undefined>(claimField);
+  const [documentUrl, setDocumentUrl] = useState<string | null>(fileUrl ?? null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) setSelectedField(claimField);
+  }, [open, claimField]);
+
+  // 从 document 记录读取原始文件，关闭时释放对象 URL
+  useEffect(() => {
+    if (!open || fileUrl) {
+      setDocumentUrl(fileUrl ?? null);
+      return;
+    }
+    if (!sourceEvidence.document_id) {
+      setError('申报未保存原始文件');
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    prefillService.getSourceDocumentUrl(sourceEvidence.document_id)
+      .then(url => {
+        objectUrl = url;
+        if (cancelled) {
+          URL.revokeObjectURL(url);
+        } else {
+          setDocumentUrl(url);
+        }
+      })
+      .catch(loadError => {
+        if (!cancelled) setError((loadError as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [open, fileUrl, sourceEvidence.document_id, prefillService]);
+
+  const fields = useMemo(
+    () => Array.from(new Set(sourceEvidence.values.map(item => item.claim_field))),
+    [sourceEvidence.values]
+  );
+  const regions = useMemo(
+    () => evidenceToHighlightRegions(sourceEvidence.values, selectedField),
+    [sourceEvidence.values, selectedField]
+  );
+  const initialPage = regions[0]?.pageNumber ?? 1;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth fullScreen={isMobile}>
+      <DialogTitle>取值来源：{sourceEvidence.file_name}</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: isMobile ? 'column' : 'row', gap: 2, minHeight: 480 }}>
+          <List dense sx={{ width: isMobile ? '100%' : 240, flexShrink: 0 }}>
+            <ListItemButton selected={!selectedField} onClick={() => setSelectedField(undefined)}>
+              <ListItemText primary="全部来源" />
+            </ListItemButton>
+            {fields.map(field => {
+              const items = sourceEvidence.values.filter(item => item.claim_field === field);
+              return (
+                <ListItemButton key={field} selected={selectedField === field} onClick={() => setSelectedField(field)}>
+                  <ListItemText
+                    primary={CLAIM_EVIDENCE_FIELD_LABELS[field]}
+                    secondary={items.map(item => `${item.source_label} · 第${item.page_number}页`).join('；')}
+                  />
+                </ListItemButton>
+              );
+            })}
+          </List>
+
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            {error && <Alert severity="error">{error}</Alert>}
+            {loading && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+                <CircularProgress />
+              </Box>
+            )}
+            {documentUrl && !loading && (
+              <Suspense
+                fallback={(
+                  <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+                    <CircularProgress />
+                  </Box>
+                )}
+              >
+                <PDFPreviewComponent
+                  // 切换字段时重新定位到来源所在页
+                  key={`${selectedField ?? 'all'}-${initialPage}`}
+                  fileUrl={documentUrl}
+                  fileName={sourceEvidence.file_name}
+                  highlightRegions={regions}
+                  initialPage={initialPage}
+                  enableControls={true}
+                  enableHighlight={true}
+                />
+              </Suspense>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>关闭</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClaimEvidenceDialog;
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material';
+
+import ClaimEvidenceDialog from './ClaimEvidenceDialog';
+import { CLAIM_EVIDENCE_FIELD_LABELS } from '@/src/utils/claimPrefill';
+import type { ClaimEvidenceField, ClaimSourceEvidence, ClaimValueEvidence } from '@/src/types/claimEvidence';
+
+interface ClaimEvidencePanelProps {
+  sourceEvidence: ClaimSourceEvidence;
+  /** 本地文件地址，申报尚未保存时使用 */
+  fileUrl?: string;
+  title?: string;
+}
+
+const formatEvidenceValue = (item: ClaimValueEvidence): string => {
+  if (typeof item.value === 'number') {
+    return item.source_field.endsWith('_rate')
+      ? `${(item.value * 100).toFixed(2)}%`
+      : item.value.toLocaleString('zh-CN', { maximumFractionDigits: 2 });
+  }
+  return String(item.value ?? '');
+};
+
+/**
+ * 债权申报预填值的来源列表，点击页码查看原文对应位置
+ */
+const ClaimEvidencePanel: React.FC<ClaimEvidencePanelProps> = ({ sourceEvidence, fileUrl, title = '取值来源' }) => {
+  const [dialogField, setDialogField] = useState<ClaimEvidenceField | null | undefined>(null);
+
+  const rows = useMemo(
+    () => sourceEvidence.values.filter((item, index, values) =>
+      values.findIndex(other => other.claim_field === item.claim_field && other.source_field === item.source_field) === index
+    ),
+    [sourceEvidence.values]
+  );
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+        <Typography variant="subtitle1">{title}</Typography>
+        <Button size="small" startIcon={<PdfIcon />} onClick={() => setDialogField(undefined)}>
+          {sourceEvidence.file_name}
+        </Button>
+      </Stack>
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>申报字段</TableCell>
+            <TableCell>原文字段</TableCell>
+            <TableCell>原文取值</TableCell>
+            <TableCell align="right">位置</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(item => (
+            <TableRow key={`${item.claim_field}-${item.source_field}`} hover>
+              <TableCell>{CLAIM_EVIDENCE_FIELD_LABELS[item.claim_field]}</TableCell>
+              <TableCell>
+                {item.source_label}
+                {item.is_modified && <Chip label="已修正" size="small" color="info" sx={{ ml: 1 }} />}
+              </TableCell>
+              <TableCell>
+                <Tooltip title={item.source_text || ''}>
+                  <span>{formatEvidenceValue(item)}</span>
+                </Tooltip>
+              </TableCell>
+              <TableCell align="right">
+                <Chip
+                  label={`第${item.page_number}页`}
+                  size="small"
+                  color={item.confidence < 0.8 ? 'warning' : 'default'}
+                  onClick={() => setDialogField(item.claim_field)}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <ClaimEvidenceDialog
+        open={dialogField !== null}
+        onClose={() => setDialogField(null)}
+        sourceEvidence={sourceEvidence}
+        claimField={dialogField ?? undefined}
+        fileUrl={fileUrl}
+      />
+    </Box>
+  );
+};
+
+export default ClaimEvidencePanel;
@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  Stack,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  SvgIcon,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import { mdiRefresh } from '@mdi/js';
+import { format } from 'date-fns';
+
+import { ClaimNoticeService } from '@/src/services/claimNoticeService';
+import { computeObjectionDeadline } from '@/src/services/claimObjectionService';
+import { useSurreal } from '@/src/contexts/SurrealProvider';
+import { useSnackbar } from '@/src/contexts/SnackbarContext';
+import {
+  CLAIM_NOTICE_TEMPLATES,
+  buildClaimNoticeValues,
+  deltaToPlainText,
+  mergeDeltaTemplate,
+  parseTemplateDelta
+} from '@/src/utils/mailMerge';
+import { CLAIM_NOTICE_STATUS_LABELS } from '@/src/types/claimNotice';
+import type { ClaimNotice, ClaimNoticeCandidate, ClaimNoticeDeliveryResult } from '@/src/types/claimNotice';
+
+interface ClaimNoticeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  caseId: string;
+  /** 仅为选中的债权生成通知书，为空时包含案件全部已审查债权 */
+  claimIds?: readonly string[];
+}
+
+const formatTime = (value?: string): string => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : '-');
+
+const ClaimNoticeDialog: React.FC<ClaimNoticeDialogProps> = ({ open, onClose, caseId, claimIds }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { client } = useSurreal();
+  const { showSuccess, showWarning, showError } = useSnackbar();
+
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<ClaimNoticeCandidate[]>([]);
+  const [notices, setNotices] = useState<ClaimNotice[]>([]);
+  const [templateId, setTemplateId] = useState(CLAIM_NOTICE_TEMPLATES[0].id);
+  const [deadline, setDeadline] = useState(() => format(computeObjectionDeadline(new Date()), 'yyyy-MM-dd'));
+
+  const noticeService = useMemo(() => new ClaimNoticeService(client), [client]);
+  const template = CLAIM_NOTICE_TEMPLATES.find(item => item.id === templateId) ?? CLAIM_NOTICE_TEMPLATES[0];
+  const senderName = candidates[0]?.manager_organization || '管理人';
+
+  // 加载待通知债权和已生成的通知书
+  const loadData = useCallback(async () => {
+    if (!caseId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [candidateList, noticeList] = await Promise.all([
+        noticeService.getNoticeCandidates(caseId, claimIds),
+        noticeService.listNotices(caseId)
+      ]);
+      setCandidates(candidateList);
+      setNotices(noticeList);
+    } catch (err) {
+      console.error('加载通知书数据失败:', err);
+      setError('加载通知书数据失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId, claimIds, noticeService]);
+
+  useEffect(() => {
+    if (open) {
+      loadData();
+    }
+  }, [open, loadData]);
+
+  const deadlineDate = useMemo(() => (deadline ? new Date(`${deadline}T23:59:59`) : null), [deadline]);
+  const deadlineInvalid = !deadlineDate || Number.isNaN(deadlineDate.getTime()) || deadlineDate < new Date();
+
+  // 以第一笔债权预览合并效果
+  const preview = useMemo(() => {
+    if (candidates.length === 0 || !deadlineDate || deadlineInvalid) return '';
+    const values = buildClaimNoticeValues(candidates[0], deadlineDate);
+    return deltaToPlainText(mergeDeltaTemplate(parseTemplateDelta(template.content), values)).trim();
+  }, [candidates, deadlineDate, deadlineInvalid, template]);
+
+  const reportDelivery = ({ sent, failed, undeliverable }: ClaimNoticeDeliveryResult) => {
+    if (failed === 0 && undeliverable === 0) {
+      showSuccess(`已向${sent}位债权人发送审查结果通知书`);
+      return;
+    }
+    const problems = [
+      failed > 0 ? `${failed}份送达失败，可在下方列表中重新发送` : '',
+      undeliverable > 0 ? `${undeliverable}份因债权人未关联系统用户无法送达` : ''
+    ].filter(Boolean);
+    showWarning(`已发送${sent}份，${problems.join('；')}`);
+  };
+
+  const handleGenerate = async () => {
+    if (!deadlineDate || deadlineInvalid) return;
+    setSending(true);
+    try {
+      const generated = await noticeService.generateNotices({
+        case_id: caseId,
+        template_id: template.id,
+        template_content: template.content,
+        candidates,
+        objection_deadline: deadlineDate
+      });
+      const result = await noticeService.sendNotices(generated, senderName);
+      reportDelivery(result);
+      await loadData();
+    } catch (err) {
+      console.error('生成通知书失败:', err);
+      showError(err instanceof Error ? err.message : '生成通知书失败');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleResend = async (notice: ClaimNotice) => {
+    setSending(true);
+    try {
+      const result = await noticeService.sendNotices([notice], senderName);
+      reportDelivery(result);
+      await loadData();
+    } catch (err) {
+      console.error('重新发送通知书失败:', err);
+      showError('重新发送通知书失败');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderDeadline = (notice: ClaimNotice) => {
+    const overdue = notice.status !== 'acknowledged' && new Date(notice.objection_deadline) < new Date();
+    return (
+      <Stack direction="row" spacing={1} alignItems="center">
+        <span>{format(new Date(notice.objection_deadline), 'yyyy-MM-dd')}</span>
+        {overdue && <Chip label="异议期已届满" size="small" color="warning" variant="outlined" />}
+      </Stack>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth fullScreen={isMobile}>
+      <DialogTitle>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">审查结果通知书</Typography>
+          <Tooltip title="刷新">
+            <span>
+              <IconButton onClick={loadData} disabled={loading} size="small">
+                <SvgIcon><path d={mdiRefresh} /></SvgIcon>
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+      </DialogTitle>
+      <DialogContent dividers>
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {!loading && error && <Alert severity="error">{error}</Alert>}
+
+        {!loading && !error && (
+          <Stack spacing={3}>
+            <Box>
+              <Typography variant="subtitle1" gutterBottom>生成并发送</Typography>
+              <Stack direction={isMobile ? 'column' : 'row'} spacing={2}>
+                <TextField
+                  select
+                  size="small"
+                  fullWidth
+                  label="通知书模板"
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                >
+                  {CLAIM_NOTICE_TEMPLATES.map(item => (
+                    <MenuItem key={item.id} value={item.id}>{item.name}</MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  size="small"
+                  fullWidth
+                  type="date"
+                  label="异议截止日期"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                  error={deadlineInvalid}
+                  helperText={deadlineInvalid ? '请选择今天之后的日期' : undefined}
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Stack>
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {candidates.length > 0
+                  ? `将为${candidates.length}笔已审查债权各生成一份通知书，并通过站内消息发送给债权人`
+                  : '没有已完成审查的债权'}
+              </Typography>
+            </Box>
+
+            {preview && (
+              <Box>
+                <Typography variant="subtitle1" gutterBottom>
+                  预览（{candidates[0].claim_number}）
+                </Typography>
+                <Paper variant="outlined" sx={{ p: 2, whiteSpace: 'pre-wrap', maxHeight: 240, overflow: 'auto' }}>
+                  <Typography variant="body2" component="div">{preview}</Typography>
+                </Paper>
+              </Box>
+            )}
+
+            <Box>
+              <Typography variant="subtitle1" gutterBottom>送达跟踪</Typography>
+              {notices.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">尚未发送通知书</Typography>
+              ) : (
+                <TableContainer component={Paper} variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>债权编号</TableCell>
+                        <TableCell>债权人</TableCell>
+                        <TableCell>状态</TableCell>
+                        <TableCell>送达时间</TableCell>
+                        <TableCell>确认收悉</TableCell>
+                        <TableCell>异议截止</TableCell>
+                        <TableCell align="right">操作</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {notices.map(notice => {
+                        const status = CLAIM_NOTICE_STATUS_LABELS[notice.status];
+                        return (
+                          <TableRow key={String(notice.id)}>
+                            <TableCell>{notice.claim_number}</TableCell>
+                            <TableCell>{notice.creditor_name}</TableCell>
+                            <TableCell>
+                              <Tooltip title={notice.failure_reason || ''}>
+                                <Chip label={status.label} color={status.color} size="small" />
+                              </Tooltip>
+                            </TableCell>
+                            <TableCell>{formatTime(notice.sent_at)}</TableCell>
+                            <TableCell>{formatTime(notice.acknowledged_at)}</TableCell>
+                            <TableCell>{renderDeadline(notice)}</TableCell>
+                            <TableCell align="right">
+                              {notice.status === 'failed' && (
+                                <Button size="small" onClick={() => handleResend(notice)} disabled={sending}>
+                                  重新发送
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>关闭</Button>
+        <Button
+          variant="contained"
+          onClick={handleGenerate}
+          disabled={loading || sending || candidates.length === 0 || deadlineInvalid}
+        >
+          {sending ? '发送中...' : `生成并发送（${candidates.length}）`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClaimNoticeDialog;
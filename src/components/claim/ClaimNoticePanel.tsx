@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Chip,
+  Stack,
+  Button,
+  Collapse,
+  Paper,
+  Alert,
+  SvgIcon
+} from '@mui/material';
+import { mdiEmailOutline } from '@mdi/js';
+import { format } from 'date-fns';
+
+import { ClaimNoticeService } from '@/src/services/claimNoticeService';
+import { useSurreal } from '@/src/contexts/SurrealProvider';
+import { useSnackbar } from '@/src/contexts/SnackbarContext';
+import { CLAIM_NOTICE_STATUS_LABELS } from '@/src/types/claimNotice';
+import type { ClaimNotice } from '@/src/types/claimNotice';
+
+interface ClaimNoticePanelProps {
+  /** 债权记录ID，可带或不带 claim: 前缀 */
+  claimId: string;
+}
+
+/**
+ * 债权人查看审查结果通知书，并确认收悉
+ */
+const ClaimNoticePanel: React.FC<ClaimNoticePanelProps> = ({ claimId }) => {
+  const { client } = useSurreal();
+  const { showSuccess, showError } = useSnackbar();
+
+  const [notices, setNotices] = useState<ClaimNotice[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [noticeTexts, setNoticeTexts] = useState<Record<string, string>>({});
+  const [acknowledging, setAcknowledging] = useState<string | null>(null);
+
+  const noticeService = useMemo(() => new ClaimNoticeService(client), [client]);
+  const claimRecordId = claimId.includes(':') ? claimId : `claim:${claimId}`;
+
+  const loadNotices = useCallback(async () => {
+    try {
+      setNotices(await noticeService.listClaimNotices(claimRecordId));
+      setError(null);
+    } catch (err) {
+      console.error('加载通知书失败:', err);
+      setError('加载通知书失败');
+    }
+  }, [claimRecordId, noticeService]);
+
+  useEffect(() => {
+    loadNotices();
+  }, [loadNotices]);
+
+  const handleToggle = async (notice: ClaimNotice) => {
+    const key = String(notice.id);
+    if (expandedId === key) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(key);
+    if (noticeTexts[key]) return;
+    try {
+      const text = await noticeService.getNoticeText(notice.document_id);
+      setNoticeTexts(prev => ({ ...prev, [key]: text }));
+    } catch (err) {
+      console.error('加载通知书正文失败:', err);
+      showError('加载通知书正文失败');
+    }
+  };
+
+  const handleAcknowledge = async (notice: ClaimNotice) => {
+    const key = String(notice.id);
+    setAcknowledging(key);
+    try {
+      await noticeService.acknowledgeNotice(notice.id);
+      showSuccess('已确认收悉审查结果通知书');
+      await loadNotices();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '确认通知书失败');
+    } finally {
+      setAcknowledging(null);
+    }
+  };
+
+  // 尚未生成通知书时不展示
+  if (notices.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <SvgIcon sx={{ mr: 1, color: 'primary.main' }}>
+            <path d={mdiEmailOutline} />
+          </SvgIcon>
+          <Typography variant="h6" fontWeight="600">
+            审查结果通知书
+          </Typography>
+        </Box>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <Stack spacing={2}>
+          {notices.map(notice => {
+            const key = String(notice.id);
+            const status = CLAIM_NOTICE_STATUS_LABELS[notice.status];
+            const deadline = new Date(notice.objection_deadline);
+            const deadlinePassed = deadline < new Date();
+            return (
+              <Paper key={key} variant="outlined" sx={{ p: 2 }}>
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                  <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>{notice.title}</Typography>
+                  <Chip label={status.label} color={status.color} size="small" />
+                </Stack>
+                <Typography variant="body2" color="text.secondary">
+                  {notice.sent_at && `送达时间：${format(new Date(notice.sent_at), 'yyyy-MM-dd HH:mm')}，`}
+                  异议截止：{format(deadline, 'yyyy-MM-dd')}
+                  {deadlinePassed && '（已届满）'}
+                </Typography>
+                {notice.acknowledged_at && (
+                  <Typography variant="body2" color="text.secondary">
+                    确认收悉：{format(new Date(notice.acknowledged_at), 'yyyy-MM-dd HH:mm')}
+                  </Typography>
+                )}
+
+                <Collapse in={expandedId === key}>
+                  <Paper sx={{ p: 2, mt: 1, bgcolor: 'action.hover', whiteSpace: 'pre-wrap' }} elevation={0}>
+                    <Typography variant="body2" component="div">
+                      {noticeTexts[key] || '加载中...'}
+                    </Typography>
+                  </Paper>
+                </Collapse>
+
+                <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+                  <Button size="small" onClick={() => handleToggle(notice)}>
+                    {expandedId === key ? '收起' : '查看通知书'}
+                  </Button>
+                  {notice.status === 'sent' && (
+                    <Button
+                      size="small"
+                      variant="contained"
+                      onClick={() => handleAcknowledge(notice)}
+                      disabled={acknowledging === key}
+                    >
+                      确认收悉
+                    </Button>
+                  )}
+                </Stack>
+              </Paper>
+            );
+          })}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClaimNoticePanel;
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Chip,
+  Stack,
+  Button,
+  Paper,
+  Alert,
+  Link,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  SvgIcon
+} from '@mui/material';
+import { mdiScaleBalance } from '@mdi/js';
+import { format } from 'date-fns';
+import { Delta } from 'quill/core';
+
+import RichTextEditor, { QuillDelta } from '@/src/components/RichTextEditor';
+import { ClaimObjectionService, getObjectionEligibility } from '@/src/services/claimObjectionService';
+import { useSurreal } from '@/src/contexts/SurrealProvider';
+import { useSnackbar } from '@/src/contexts/SnackbarContext';
+import { CLAIM_OBJECTION_STATUS_LABELS } from '@/src/types/claimObjection';
+import type { ClaimObjectionContext } from '@/src/types/claimObjection';
+
+interface ClaimObjectionPanelProps {
+  /** 债权记录ID，可带或不带 claim: 前缀 */
+  claimId: string;
+}
+
+/**
+ * 债权人在异议期内对审查结果提出异议，并查看复核结果
+ */
+const ClaimObjectionPanel: React.FC<ClaimObjectionPanelProps> = ({ claimId }) => {
+  const { client } = useSurreal();
+  const { showSuccess, showError } = useSnackbar();
+
+  const [context, setContext] = useState<ClaimObjectionContext | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState<QuillDelta>(new Delta());
+  const [submitting, setSubmitting] = useState(false);
+
+  const objectionService = useMemo(() => new ClaimObjectionService(client), [client]);
+
+  const loadContext = useCallback(async () => {
+    try {
+      setContext(await objectionService.getObjectionContext(claimId));
+    } catch (err) {
+      console.error('加载债权异议信息失败:', err);
+      setContext(null);
+    }
+  }, [claimId, objectionService]);
+
+  useEffect(() => {
+    loadContext();
+  }, [loadContext]);
+
+  const eligibility = useMemo(() => (context ? getObjectionEligibility(context) : null), [context]);
+  const reasonEmpty = reason.ops.every(op => typeof op.insert === 'string' && op.insert.trim() === '');
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await objectionService.submitObjection({ claim_id: claimId, reason });
+      showSuccess('异议已提交，管理人将进行复核');
+      setDialogOpen(false);
+      setReason(new Delta());
+      await loadContext();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '提交债权异议失败');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // 未作出审查结论且没有异议记录时不展示
+  if (!context || !eligibility || (!eligibility.allowed && context.objections.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <SvgIcon sx={{ mr: 1, color: 'primary.main' }}>
+            <path d={mdiScaleBalance} />
+          </SvgIcon>
+          <Typography variant="h6" fontWeight="600" sx={{ flexGrow: 1 }}>
+            债权异议
+          </Typography>
+          {eligibility.allowed && (
+            <Button variant="contained" size="small" onClick={() => setDialogOpen(true)}>
+              提出异议
+            </Button>
+          )}
+        </Box>
+
+        {eligibility.allowed && eligibility.deadline && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            如对审查结论"{context.review_status}"有异议，请于{format(eligibility.deadline, 'yyyy-MM-dd')}前提出
+          </Alert>
+        )}
+
+        <Stack spacing={2}>
+          {context.objections.map(objection => {
+            const status = CLAIM_OBJECTION_STATUS_LABELS[objection.status];
+            return (
+              <Paper key={String(objection.id)} variant="outlined" sx={{ p: 2 }}>
+                <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                  <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+                    {format(new Date(objection.created_at), 'yyyy-MM-dd HH:mm')} 提出异议
+                  </Typography>
+                  <Chip label={status.label} color={status.color} size="small" />
+                </Stack>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{objection.reason_summary}</Typography>
+                {objection.attachments.length > 0 && (
+                  <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+                    {objection.attachments.map(attachment => (
+                      <Link key={attachment.url} href={attachment.url} target="_blank" rel="noopener noreferrer" variant="body2">
+                        {attachment.name}
+                      </Link>
+                    ))}
+                  </Stack>
+                )}
+                {objection.resolution_comments && (
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    复核意见：{objection.resolution_comments}
+                    {objection.litigation_case_number && `（案号：${objection.litigation_case_number}）`}
+                  </Typography>
+                )}
+              </Paper>
+            );
+          })}
+        </Stack>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>对审查结果提出异议</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            请写明异议的事实和理由，可通过工具栏上传证据材料作为附件
+          </Typography>
+          <Box sx={{ minHeight: 300 }}>
+            <RichTextEditor
+              value={reason}
+              onTextChange={(delta) => setReason(delta)}
+              placeholder="异议理由..."
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>取消</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={submitting || reasonEmpty}>
+            {submitting ? '提交中...' : '提交异议'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ClaimObjectionPanel;
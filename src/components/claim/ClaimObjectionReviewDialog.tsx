@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  Stack,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  Link,
+  Grid,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import { format } from 'date-fns';
+
+import { ClaimObjectionService } from '@/src/services/claimObjectionService';
+import { useSurreal } from '@/src/contexts/SurrealProvider';
+import { useSnackbar } from '@/src/contexts/SnackbarContext';
+import { deltaToPlainText } from '@/src/utils/mailMerge';
+import { CLAIM_OBJECTION_STATUS_LABELS } from '@/src/types/claimObjection';
+import type {
+  ClaimObjectionOutcome,
+  ClaimObjectionQueueItem,
+  ResolveClaimObjectionParams
+} from '@/src/types/claimObjection';
+
+interface ClaimObjectionReviewDialogProps {
+  open: boolean;
+  onClose: () => void;
+  caseId: string;
+  /** 复核完成后回调，用于刷新债权列表 */
+  onResolved?: () => void;
+}
+
+type ModifiedDecision = NonNullable<ResolveClaimObjectionParams['modified']>['decision'];
+
+const OUTCOMES: ClaimObjectionOutcome[] = ['upheld', 'modified', 'litigation'];
+const MODIFIED_DECISIONS: ModifiedDecision[] = ['审核通过', '部分通过', '已驳回'];
+
+const formatMoney = (amount?: number): string =>
+  (amount ?? 0).toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * 异议复核队列：查看债权人异议理由和附件，作出维持、变更或转入债权确认之诉的处理
+ */
+const ClaimObjectionReviewDialog: React.FC<ClaimObjectionReviewDialogProps> = ({ open, onClose, caseId, onResolved }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { client } = useSurreal();
+  const { showSuccess, showError } = useSnackbar();
+
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [objections, setObjections] = useState<ClaimObjectionQueueItem[]>([]);
+  const [selected, setSelected] = useState<ClaimObjectionQueueItem | null>(null);
+  const [reasonText, setReasonText] = useState('');
+  const [outcome, setOutcome] = useState<ClaimObjectionOutcome>('upheld');
+  const [comments, setComments] = useState('');
+  const [decision, setDecision] = useState<ModifiedDecision>('审核通过');
+  const [amounts, setAmounts] = useState({ principal: '', interest: '', other: '' });
+  const [litigationCaseNumber, setLitigationCaseNumber] = useState('');
+
+  const objectionService = useMemo(() => new ClaimObjectionService(client), [client]);
+
+  const loadObjections = useCallback(async () => {
+    if (!caseId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setObjections(await objectionService.listObjections(caseId));
+    } catch (err) {
+      console.error('加载异议复核队列失败:', err);
+      setError('加载异议复核队列失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId, objectionService]);
+
+  useEffect(() => {
+    if (open) {
+      loadObjections();
+    }
+  }, [open, loadObjections]);
+
+  const handleSelect = async (objection: ClaimObjectionQueueItem) => {
+    setSelected(objection);
+    setOutcome('upheld');
+    setComments('');
+    setDecision('部分通过');
+    setAmounts({
+      principal: String(objection.approved_principal ?? objection.asserted_principal ?? 0),
+      interest: String(objection.approved_interest ?? objection.asserted_interest ?? 0),
+      other: String(objection.approved_other_amount ?? objection.asserted_other_amount ?? 0)
+    });
+    setLitigationCaseNumber('');
+    setReasonText(objection.reason_summary);
+    try {
+      const reason = await objectionService.getObjectionReason(objection.reason_doc_id);
+      setReasonText(deltaToPlainText(reason).trim());
+    } catch (err) {
+      console.error('加载异议理由失败:', err);
+    }
+  };
+
+  const amountValues = {
+    principal: Number(amounts.principal),
+    interest: Number(amounts.interest),
+    other: Number(amounts.other)
+  };
+  const amountsInvalid = Object.values(amountValues).some(value => Number.isNaN(value) || value < 0);
+  const canSubmit = !!selected && comments.trim() !== '' && !(outcome === 'modified' && amountsInvalid);
+
+  const handleSubmit = async () => {
+    if (!selected || !canSubmit) return;
+    setSubmitting(true);
+    try {
+      const rejected = decision === '已驳回';
+      await objectionService.resolveObjection({
+        objection_id: selected.id,
+        outcome,
+        resolution_comments: comments,
+        modified: outcome === 'modified'
+          ? {
+            decision,
+            approved: {
+              nature: selected.approved_nature || '普通债权',
+              currency: selected.currency || 'CNY',
+              principal: rejected ? 0 : amountValues.principal,
+              interest: rejected ? 0 : amountValues.interest,
+              other: rejected ? 0 : amountValues.other
+            },
+            asserted: {
+              principal: selected.asserted_principal ?? 0,
+              interest: selected.asserted_interest ?? 0,
+              other: selected.asserted_other_amount ?? 0
+            }
+          }
+          : undefined,
+        litigation_case_number: outcome === 'litigation' ? litigationCaseNumber.trim() : undefined
+      });
+      showSuccess(`已处理债权${selected.claim_number}的异议：${CLAIM_OBJECTION_STATUS_LABELS[outcome].label}`);
+      setSelected(null);
+      onResolved?.();
+      await loadObjections();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : '处理债权异议失败');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderDetail = (objection: ClaimObjectionQueueItem) => (
+    <Stack spacing={2}>
+      <Typography variant="subtitle1">
+        {objection.claim_number} · {objection.creditor_name}
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        原审查结论：{objection.previous_status}，申报金额 {formatMoney(objection.asserted_total)} 元，
+        确认金额 {formatMoney(objection.approved_total)} 元
+      </Typography>
+      <Paper variant="outlined" sx={{ p: 2, whiteSpace: 'pre-wrap', maxHeight: 200, overflow: 'auto' }}>
+        <Typography variant="body2" component="div">{reasonText}</Typography>
+      </Paper>
+      {objection.attachments.length > 0 && (
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          <Typography variant="body2">附件：</Typography>
+          {objection.attachments.map(attachment => (
+            <Link key={attachment.url} href={attachment.url} target="_blank" rel="noopener noreferrer" variant="body2">
+              {attachment.name}
+            </Link>
+          ))}
+        </Stack>
+      )}
+
+      <RadioGroup row value={outcome} onChange={(e) => setOutcome(e.target.value as ClaimObjectionOutcome)}>
+        {OUTCOMES.map(item => (
+          <FormControlLabel key={item} value={item} control={<Radio size="small" />} label={CLAIM_OBJECTION_STATUS_LABELS[item].label} />
+        ))}
+      </RadioGroup>
+
+      {outcome === 'modified' && (
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 3 }}>
+            <TextField
+              select
+              size="small"
+              fullWidth
+              label="变更后结论"
+              value={decision}
+              onChange={(e) => setDecision(e.target.value as ModifiedDecision)}
+            >
+              {MODIFIED_DECISIONS.map(item => (
+                <MenuItem key={item} value={item}>{item}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          {decision !== '已驳回' && (['principal', 'interest', 'other'] as const).map(key => (
+            <Grid key={key} size={{ xs: 12, md: 3 }}>
+              <TextField
+                size="small"
+                fullWidth
+                type="number"
+                label={{ principal: '确认本金', interest: '确认利息', other: '确认其他费用' }[key]}
+                value={amounts[key]}
+                onChange={(e) => setAmounts(prev => ({ ...prev, [key]: e.target.value }))}
+                error={Number.isNaN(amountValues[key]) || amountValues[key] < 0}
+              />
+            </Grid>
+          ))}
+        </Grid>
+      )}
+
+      {outcome === 'litigation' && (
+        <TextField
+          size="small"
+          label="债权确认之诉案号（可选）"
+          value={litigationCaseNumber}
+          onChange={(e) => setLitigationCaseNumber(e.target.value)}
+        />
+      )}
+
+      <TextField
+        label="复核意见"
+        multiline
+        minRows={3}
+        required
+        value={comments}
+        onChange={(e) => setComments(e.target.value)}
+      />
+    </Stack>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth fullScreen={isMobile}>
+      <DialogTitle>异议复核</DialogTitle>
+      <DialogContent dividers>
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {!loading && error && <Alert severity="error">{error}</Alert>}
+
+        {!loading && !error && (
+          <Stack spacing={3}>
+            {objections.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">暂无待复核的异议</Typography>
+            ) : (
+              <TableContainer component={Paper} variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>债权编号</TableCell>
+                      <TableCell>债权人</TableCell>
+                      <TableCell>原审查结论</TableCell>
+                      <TableCell>异议摘要</TableCell>
+                      <TableCell>提出时间</TableCell>
+                      <TableCell align="right">操作</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {objections.map(objection => (
+                      <TableRow key={String(objection.id)} selected={selected?.id === objection.id}>
+                        <TableCell>{objection.claim_number}</TableCell>
+                        <TableCell>{objection.creditor_name}</TableCell>
+                        <TableCell>
+                          <Chip label={objection.previous_status} size="small" variant="outlined" />
+                        </TableCell>
+                        <TableCell sx={{ maxWidth: 320 }}>
+                          <Typography variant="body2" noWrap>{objection.reason_summary}</Typography>
+                        </TableCell>
+                        <TableCell>{format(new Date(objection.created_at), 'yyyy-MM-dd HH:mm')}</TableCell>
+                        <TableCell align="right">
+                          <Button size="small" onClick={() => handleSelect(objection)}>复核</Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+
+            {selected && renderDetail(selected)}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>关闭</Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={!canSubmit || submitting}>
+          {submitting ? '提交中...' : '提交复核结果'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClaimObjectionReviewDialog;
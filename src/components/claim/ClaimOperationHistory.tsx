@@ -114,6 +114,9 @@ const ClaimOperationHistory: React.FC<ClaimOperationHistoryProps> = ({
     [OperationType.SUPPLEMENT_REQUEST]: "补充要求",
     [OperationType.DELETE]: "删除",
     [OperationType.VIEW]: "查看",
+    [OperationType.CONFLICT_RESOLVE]: "冲突解决",
+    [OperationType.OBJECTION_SUBMIT]: "提出异议",
+    [OperationType.OBJECTION_RESOLVE]: "异议复核",
   };
 
   // 操作结果映射
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  Stack,
+  Alert,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  IconButton,
+  Tooltip,
+  SvgIcon,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import { mdiFileExcelOutline, mdiFilePdfBox, mdiRefresh } from '@mdi/js';
+import { format } from 'date-fns';
+
+import { ClaimRegisterService } from '@/src/services/claimRegisterService';
+import { useSurreal } from '@/src/contexts/SurrealProvider';
+import { useSnackbar } from '@/src/contexts/SnackbarContext';
+import { ClaimRegister, ClaimRegisterEdition } from '@/src/types/claimRegister';
+
+interface ClaimRegisterDialogProps {
+  open: boolean;
+  onClose: () => void;
+  caseId: string;
+}
+
+type EditionSummary = Omit<ClaimRegisterEdition, 'register'>;
+
+const formatAmount = (value: number): string =>
+  value.toLocaleString('zh-CN', { style: 'currency', currency: 'CNY' });
+
+const ClaimRegisterDialog: React.FC<ClaimRegisterDialogProps> = ({ open, onClose, caseId }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { client } = useSurreal();
+  const { showSuccess, showError } = useSnackbar();
+
+  const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ClaimRegister | null>(null);
+  const [editions, setEditions] = useState<EditionSummary[]>([]);
+  const [changeSummary, setChangeSummary] = useState('');
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const registerService = useMemo(() => new ClaimRegisterService(client), [client]);
+
+  // 加载当前债权表预览和已发布版本
+  const loadData = useCallback(async () => {
+    if (!caseId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [register, editionList] = await Promise.all([
+        registerService.buildRegister(caseId),
+        registerService.getEditions(caseId)
+      ]);
+      setPreview(register);
+      setEditions(editionList);
+    } catch (err) {
+      console.error('加载债权表失败:', err);
+      setError('加载债权表失败，请重试');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId, registerService]);
+
+  useEffect(() => {
+    if (open) {
+      loadData();
+    }
+  }, [open, loadData]);
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    try {
+      const edition = await registerService.publishRegister({
+        case_id: caseId,
+        change_summary: changeSummary.trim() || undefined
+      });
+      showSuccess(`已发布第${edition.version_number}版债权表`);
+      setChangeSummary('');
+      await loadData();
+    } catch (err) {
+      console.error('发布债权表失败:', err);
+      showError('发布债权表失败');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleDownload = async (versionNumber: number, fileFormat: 'xlsx' | 'pdf') => {
+    const key = `${versionNumber}-${fileFormat}`;
+    setDownloading(key);
+    try {
+      const edition = await registerService.getEdition(caseId, versionNumber);
+      if (!edition) {
+        showError('债权表版本不存在');
+        return;
+      }
+      const baseName = `${edition.register.case_name}债权表_第${versionNumber}版`;
+      if (fileFormat === 'xlsx') {
+        downloadBlob(await registerService.exportToXlsx(edition.register, versionNumber), `${baseName}.xlsx`);
+      } else {
+        downloadBlob(await registerService.exportToPdf(edition.register, versionNumber), `${baseName}.pdf`);
+      }
+    } catch (err) {
+      console.error('导出债权表失败:', err);
+      showError(err instanceof Error ? err.message : '导出债权表失败');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const renderSummary = (register: ClaimRegister) => (
+    <TableContainer component={Paper} variant="outlined">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>债权性质</TableCell>
+            <TableCell align="right">笔数</TableCell>
+            <TableCell align="right">申报金额</TableCell>
+            <TableCell align="right">确认金额</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {register.reviewed_groups.map(group => (
+            <TableRow key={group.nature}>
+              <TableCell>{group.nature}</TableCell>
+              <TableCell align="right">{group.subtotal.claim_count}</TableCell>
+              <TableCell align="right">{formatAmount(group.subtotal.asserted.total)}</TableCell>
+              <TableCell align="right">{formatAmount(group.subtotal.approved.total)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell sx={{ fontWeight: 600 }}>已审查合计</TableCell>
+            <TableCell align="right" sx={{ fontWeight: 600 }}>{register.reviewed_total.claim_count}</TableCell>
+            <TableCell align="right" sx={{ fontWeight: 600 }}>{formatAmount(register.reviewed_total.asserted.total)}</TableCell>
+            <TableCell align="right" sx={{ fontWeight: 600 }}>{formatAmount(register.reviewed_total.approved.total)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>
+              <Chip label="待定债权" size="small" color="warning" variant="outlined" />
+            </TableCell>
+            <TableCell align="right">{register.pending_subtotal.claim_count}</TableCell>
+            <TableCell align="right">{formatAmount(register.pending_subtotal.asserted.total)}</TableCell>
+            <TableCell align="right">-</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth fullScreen={isMobile}>
+      <DialogTitle>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Typography variant="h6">债权表</Typography>
+          <Tooltip title="刷新">
+            <span>
+              <IconButton onClick={loadData} disabled={loading} size="small">
+                <SvgIcon><path d={mdiRefresh} /></SvgIcon>
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+      </DialogTitle>
+      <DialogContent dividers>
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {!loading && error && <Alert severity="error">{error}</Alert>}
+
+        {!loading && !error && preview && (
+          <Stack spacing={3}>
+            <Box>
+              <Typography variant="subtitle1" gutterBottom>当前债权汇总</Typography>
+              {renderSummary(preview)}
+            </Box>
+
+            <Box>
+              <Typography variant="subtitle1" gutterBottom>发布新版本</Typography>
+              <Stack direction={isMobile ? 'column' : 'row'} spacing={2} alignItems={isMobile ? 'stretch' : 'center'}>
+                <TextField
+                  size="small"
+                  fullWidth
+                  label="版本说明"
+                  placeholder="例如：第一次债权人会议核查稿"
+                  value={changeSummary}
+                  onChange={(e) => setChangeSummary(e.target.value)}
+                />
+                <Button
+                  variant="contained"
+                  onClick={handlePublish}
+                  disabled={publishing}
+                  sx={{ flexShrink: 0 }}
+                >
+                  {publishing ? '发布中...' : '发布债权表'}
+                </Button>
+              </Stack>
+            </Box>
+
+            <Box>
+              <Typography variant="subtitle1" gutterBottom>已发布版本</Typography>
+              {editions.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">尚未发布债权表</Typography>
+              ) : (
+                <TableContainer component={Paper} variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>版本</TableCell>
+                        <TableCell>说明</TableCell>
+                        <TableCell>发布时间</TableCell>
+                        <TableCell align="right">导出</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {editions.map(edition => (
+                        <TableRow key={edition.version_number}>
+                          <TableCell>第{edition.version_number}版</TableCell>
+                          <TableCell>{edition.change_summary || '-'}</TableCell>
+                          <TableCell>
+                            {edition.created_at ? format(new Date(edition.created_at), 'yyyy-MM-dd HH:mm') : '-'}
+                          </TableCell>
+                          <TableCell align="right">
+                            <Tooltip title="导出Excel">
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  onClick={() => handleDownload(edition.version_number, 'xlsx')}
+                                  disabled={downloading !== null}
+                                  aria-label={`导出第${edition.version_number}版Excel`}
+                                >
+                                  <SvgIcon><path d={mdiFileExcelOutline} /></SvgIcon>
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                            <Tooltip title="导出PDF">
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  onClick={() => handleDownload(edition.version_number, 'pdf')}
+                                  disabled={downloading !== null}
+                                  aria-label={`导出第${edition.version_number}版PDF`}
+                                >
+                                  <SvgIcon><path d={mdiFilePdfBox} /></SvgIcon>
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>关闭</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClaimRegisterDialog;
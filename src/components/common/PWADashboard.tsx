@@ -35,6 +35,7 @@ import { OfflineStatusIndicator } from './OfflineStatusIndicator';
 import { PWAPerformanceMonitor } from './PWAPerformanceMonitor';
 import { PushNotificationManager } from './PushNotificationManager';
 import { PWACrossPlatformAdapter, usePlatformDetection } from './PWACrossPlatformAdapter';
+import SyncConflictResolutionDialog from './SyncConflictResolutionDialog';
 
 // 导入Hooks
 import { useNetworkState } from '../../hooks/useNetworkState';
@@ -103,6 +104,7 @@ export const PWADashboard: React.FC<PWADashboardProps> = ({
 }) => {
   const [currentTab, setCurrentTab] = useState(0);
   const [showInstallDialog, setShowInstallDialog] = useState(false);
+  const [showConflictDialog, setShowConflictDialog] = useState(false);
 
   // PWA功能Hooks
   const { networkState, isOnline } = useNetworkState();
@@ -454,10 +456,35 @@ export const PWADashboard: React.FC<PWADashboardProps> = ({
                   </CardContent>
                 </Card>
               </Grid>
+              <Grid size={{ xs: 12 }}>
+                <Card variant="outlined">
+                  <CardContent>
+                    <Typography variant="h6" gutterBottom>
+                      同步冲突
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" gutterBottom>
+                      离线期间修改的数据如已被他人更新，需要逐字段确认保留哪一方的修改
+                    </Typography>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      onClick={() => setShowConflictDialog(true)}
+                      disabled={!isOnline}
+                    >
+                      处理同步冲突
+                    </Button>
+                  </CardContent>
+                </Card>
+              </Grid>
             </Grid>
           </TabPanel>
         </Card>
 
+        <SyncConflictResolutionDialog
+          open={showConflictDialog}
+          onClose={() => setShowConflictDialog(false)}
+        />
+
         {/* PWA安装对话框 */}
         <Dialog 
           open={showInstallDialog} 
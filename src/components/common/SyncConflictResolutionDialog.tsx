@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import type { RecordId } from 'surrealdb';
+import {
+  bidirectionalSyncService,
+  SyncConflict
+} from '../../services/bidirectionalSyncService';
+import type { ConflictFieldChoice } from '../../utils/syncConflict';
+
+interface SyncConflictResolutionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /**
+   * 仅显示指定案件的冲突
+   */
+  caseId?: RecordId | string;
+  /**
+   * 每处理完一个冲突后回调
+   */
+  onResolved?: (conflict: SyncConflict) => void;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  claim: '债权申报',
+  creditor: '债权人',
+  case: '案件',
+  document: '文档'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '（空）';
+  }
+  if (Array.isArray(value) || (typeof value === 'object' && value.constructor === Object)) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * 按本地值的类型解析合并输入，无法解析时抛出错误
+ */
+const parseMergedValue = (text: string, template: unknown): unknown => {
+  if (typeof template === 'number') {
+    const parsed = Number(text);
+    if (text.trim() === '' || Number.isNaN(parsed)) {
+      throw new Error('请输入有效的数字');
+    }
+    return parsed;
+  }
+  if (typeof template === 'boolean') {
+    return text.trim() === 'true';
+  }
+  if (template !== null && typeof template === 'object') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error('请输入有效的 JSON');
+    }
+  }
+  return text;
+};
+
+const editableText = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * 同步冲突处理对话框
+ *
+ * 逐字段对比本地离线修改与服务器最新数据，支持保留我的、保留对方或手动合并
+ */
+const SyncConflictResolutionDialog: React.FC<SyncConflictResolutionDialogProps> = ({
+  open,
+  onClose,
+  caseId,
+  onResolved
+}) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictFieldChoice>>({});
+  const [mergedTexts, setMergedTexts] = useState<Record<string, string>>({});
+  const [applyDeletion, setApplyDeletion] = useState(false);
+
+  const current = conflicts[0];
+
+  const resetSelections = () => {
+    setChoices({});
+    setMergedTexts({});
+    setApplyDeletion(false);
+    setError(null);
+  };
+
+  const loadConflicts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setConflicts(await bidirectionalSyncService.getPendingConflicts(caseId));
+    } catch (err) {
+      console.error('加载同步冲突失败:', err);
+      setError('加载同步冲突失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    if (open) {
+      resetSelections();
+      loadConflicts();
+    }
+  }, [open, loadConflicts]);
+
+  const handleChoice = (field: string, choice: ConflictFieldChoice | null) => {
+    if (!choice || !current) return;
+    setChoices(prev => ({ ...prev, [field]: choice }));
+    if (choice === 'merged' && mergedTexts[field] === undefined) {
+      setMergedTexts(prev => ({ ...prev, [field]: editableText(current.local_data?.[field]) }));
+    }
+  };
+
+  const handleChooseAll = (choice: ConflictFieldChoice) => {
+    if (!current) return;
+    const next: Record<string, ConflictFieldChoice> = {};
+    current.conflicting_fields.forEach(field => {
+      next[field] = choice;
+    });
+    setChoices(next);
+  };
+
+  const allChosen = !!current && (
+    current.operation === 'delete' ||
+    current.conflicting_fields.every(field => !!choices[field])
+  );
+
+  const handleResolve = async () => {
+    if (!current) return;
+    setError(null);
+
+    const mergedValues: Record<string, unknown> = {};
+    try {
+      current.conflicting_fields
+        .filter(field => choices[field] === 'merged')
+        .forEach(field => {
+          mergedValues[field] = parseMergedValue(mergedTexts[field] ?? '', current.local_data?.[field]);
+        });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '合并值无效');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await bidirectionalSyncService.resolveConflict(current.id, {
+        fieldChoices: choices,
+        mergedValues,
+        applyDeletion
+      });
+      setConflicts(prev => prev.slice(1));
+      resetSelections();
+      onResolved?.(current);
+    } catch (err) {
+      console.error('处理同步冲突失败:', err);
+      setError(err instanceof Error ? err.message : '处理同步冲突失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderFieldConflicts = (conflict: SyncConflict) => (
+    <>
+      <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+        <Button size="small" onClick={() => handleChooseAll('local')}>全部保留我的</Button>
+        <Button size="small" onClick={() => handleChooseAll('remote')}>全部保留对方</Button>
+      </Stack>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>字段</TableCell>
+            <TableCell>我的修改</TableCell>
+            <TableCell>服务器版本</TableCell>
+            <TableCell>处理方式</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {conflict.conflicting_fields.map(field => (
+            <TableRow key={field}>
+              <TableCell>{field}</TableCell>
+              <TableCell sx={{ wordBreak: 'break-all' }}>{formatValue(conflict.local_data?.[field])}</TableCell>
+              <TableCell sx={{ wordBreak: 'break-all' }}>{formatValue(conflict.remote_data?.[field])}</TableCell>
+              <TableCell sx={{ minWidth: 260 }}>
+                <ToggleButtonGroup
+                  size="small"
+                  exclusive
+                  value={choices[field] ?? null}
+                  onChange={(_, value) => handleChoice(field, value)}
+                  aria-label={`${field} 的处理方式`}
+                >
+                  <ToggleButton value="local">保留我的</ToggleButton>
+                  <ToggleButton value="remote">保留对方</ToggleButton>
+                  <ToggleButton value="merged">合并</ToggleButton>
+                </ToggleButtonGroup>
+                {choices[field] === 'merged' && (
+                  <TextField
+                    size="small"
+                    fullWidth
+                    multiline
+                    sx={{ mt: 1 }}
+                    label="合并结果"
+                    value={mergedTexts[field] ?? ''}
+                    onChange={(e) => setMergedTexts(prev => ({ ...prev, [field]: e.target.value }))}
+                    slotProps={{ htmlInput: { 'aria-label': `${field} 的合并结果` } }}
+                  />
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </>
+  );
+
+  const renderDeleteConflict = (conflict: SyncConflict) => (
+    <>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        您在离线时删除了此记录，但服务器上的记录随后已被修改。
+      </Alert>
+      {conflict.conflicting_fields.length > 0 && (
+        <Table size="small" sx={{ mb: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>被修改的字段</TableCell>
+              <TableCell>服务器版本</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {conflict.conflicting_fields.map(field => (
+              <TableRow key={field}>
+                <TableCell>{field}</TableCell>
+                <TableCell sx={{ wordBreak: 'break-all' }}>{formatValue(conflict.remote_data?.[field])}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      <RadioGroup
+        value={applyDeletion ? 'local' : 'remote'}
+        onChange={(e) => setApplyDeletion(e.target.value === 'local')}
+      >
+        <FormControlLabel value="remote" control={<Radio />} label="保留服务器上的记录" />
+        <FormControlLabel value="local" control={<Radio />} label="仍然删除该记录" />
+      </RadioGroup>
+    </>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="md"
+      fullWidth
+      aria-labelledby="sync-conflict-dialog-title"
+    >
+      <DialogTitle id="sync-conflict-dialog-title">
+        处理同步冲突
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : !current ? (
+          <Typography color="text.secondary">
+            没有待处理的同步冲突
+          </Typography>
+        ) : (
+          <>
+            <Box mb={2}>
+              <Typography variant="subtitle1">
+                {TABLE_LABELS[current.table_name] || current.table_name}：{String(current.record_id)}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                剩余 {conflicts.length} 个冲突 · 本地修改时间 {new Date(current.local_timestamp).toLocaleString()}
+              </Typography>
+            </Box>
+            {current.operation === 'delete'
+              ? renderDeleteConflict(current)
+              : renderFieldConflicts(current)}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>
+          关闭
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleResolve}
+          disabled={!allChosen || saving}
+        >
+          {saving ? '保存中...' : '确认处理'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SyncConflictResolutionDialog;
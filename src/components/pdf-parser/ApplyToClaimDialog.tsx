@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+
+import { ClaimPrefillService, type ClaimPrefillCase } from '@/src/services/claimPrefillService';
+import { useSurreal } from '@/src/contexts/SurrealProvider';
+import { buildClaimDraft, CLAIM_EVIDENCE_FIELD_LABELS } from '@/src/utils/claimPrefill';
+import type { ParseResult } from '@/src/types/pdfParser';
+import type { ClaimDraftFromDocument, ClaimEvidenceField, CreditorMatch } from '@/src/types/claimEvidence';
+
+interface ApplyToClaimDialogProps {
+  open: boolean;
+  onClose: () => void;
+  parseResult: ParseResult;
+  file: File | null;
+  caseId?: string;
+}
+
+const AMOUNT_FIELDS: ClaimEvidenceField[] = ['principal', 'interest', 'total_asserted_amount'];
+
+const formatAmount = (value: number) => value.toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * 由解析的合同生成债权申报：选择案件、核对债权人和金额后跳转到申报页面预填
+ */
+const ApplyToClaimDialog: React.FC<ApplyToClaimDialogProps> = ({ open, onClose, parseResult, file, caseId }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const navigate = useNavigate();
+  const { client } = useSurreal();
+  const prefillService = useMemo(() => new ClaimPrefillService(client), [client]);
+
+  const [cases, setCases] = useState<ClaimPrefillCase[]>([]);
+  const [selectedCaseId, setSelectedCaseId] = useState(caseId ?? '');
+  const [creditor, setCreditor] = useState<ClaimDraftFromDocument['creditor']>({ name: '', legal_id: '', type: 'organization' });
+  const [creditorMatch, setCreditorMatch] = useState<CreditorMatch | null>(null);
+  const [matching, setMatching] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedCase = cases.find(item => item.id === selectedCaseId);
+  const draft = useMemo(
+    () => buildClaimDraft(parseResult, { acceptanceDate: selectedCase?.acceptance_date }),
+    [parseResult, selectedCase?.acceptance_date]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setSelectedCaseId(current => current || caseId || '');
+    prefillService.getCases()
+      .then(setCases)
+      .catch(loadError => setError((loadError as Error).message));
+  }, [open, caseId, prefillService]);
+
+  // 重新打开或解析结果被修正后，以文书中的债权人为准；切换案件不影响已修改的债权人
+  useEffect(() => {
+    if (open) setCreditor(buildClaimDraft(parseResult).creditor);
+  }, [open, parseResult]);
+
+  // 债权人信息变化后重新匹配，输入时稍作延迟
+  useEffect(() => {
+    if (!open || !selectedCaseId) {
+      setCreditorMatch(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setMatching(true);
+      prefillService.findCreditor(selectedCaseId, creditor)
+        .then(setCreditorMatch)
+        .catch(matchError => setError((matchError as Error).message))
+        .finally(() => setMatching(false));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [open, selectedCaseId, creditor, prefillService]);
+
+  const canCreateCreditor = Boolean(creditor.name.trim() && creditor.legal_id.trim());
+  const canSubmit = Boolean(selectedCase && file && !matching && (creditorMatch || canCreateCreditor));
+
+  const handleConfirm = async () => {
+    if (!selectedCase || !file) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const claimPrefill = await prefillService.createClaimPrefill({
+        caseInfo: selectedCase,
+        file,
+        parseResult,
+        draft: { ...draft, creditor },
+      });
+      onClose();
+      navigate('/claims/submit', { state: { claimPrefill } });
+    } catch (submitError) {
+      setError((submitError as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const evidencePages = (field: ClaimEvidenceField) =>
+    Array.from(new Set(draft.evidence.filter(item => item.claim_field === field).map(item => item.page_number)));
+
+  const details = draft.asserted_claim_details;
+  const rows: { field: ClaimEvidenceField; value: string }[] = [
+    { field: 'principal', value: formatAmount(details.principal) },
+    { field: 'interest', value: formatAmount(details.interest) },
+    { field: 'total_asserted_amount', value: formatAmount(details.total_asserted_amount) },
+    { field: 'brief_description', value: details.brief_description },
+  ];
+
+  return (
+    <Dialog open={open} onClose={submitting ? undefined : onClose} maxWidth="md" fullWidth fullScreen={isMobile}>
+      <DialogTitle>生成债权申报</DialogTitle>
+      <DialogContent dividers>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {!file && <Alert severity="warning" sx={{ mb: 2 }}>原始文件已移除，请重新选择文件</Alert>}
+
+        <TextField
+          select
+          fullWidth
+          required
+          label="关联案件"
+          value={selectedCaseId}
+          onChange={(event) => setSelectedCaseId(event.target.value)}
+          margin="normal"
+          helperText={selectedCase
+            ? selectedCase.acceptance_date
+              ? `利息计算至受理日 ${selectedCase.acceptance_date.slice(0, 10)}`
+              : '案件未登记受理日期，利息暂计算至今日'
+            : undefined}
+        >
+          {cases.map(item => (
+            <MenuItem key={item.id} value={item.id}>
+              {item.name} ({item.case_number})
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Typography variant="subtitle1" sx={{ mt: 2 }}>债权人</Typography>
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, sm: 7 }}>
+            <TextField
+              fullWidth
+              label="债权人名称"
+              value={creditor.name}
+              onChange={(event) => setCreditor(prev => ({ ...prev, name: event.target.value }))}
+              margin="dense"
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 5 }}>
+            <TextField
+              fullWidth
+              label="统一社会信用代码"
+              value={creditor.legal_id}
+              onChange={(event) => setCreditor(prev => ({ ...prev, legal_id: event.target.value }))}
+              margin="dense"
+            />
+          </Grid>
+        </Grid>
+        <Box sx={{ mt: 1, minHeight: 32 }}>
+          {matching ? (
+            <CircularProgress size={18} />
+          ) : creditorMatch ? (
+            <Chip
+              color="success"
+              label={`已匹配债权人：${creditorMatch.name}（按${creditorMatch.matched_by === 'legal_id' ? '信用代码' : '名称'}）`}
+            />
+          ) : selectedCaseId ? (
+            <Chip
+              color={canCreateCreditor ? 'info' : 'warning'}
+              label={canCreateCreditor ? '案件中没有该债权人，将新建债权人' : '未匹配到债权人，新建需填写名称和信用代码'}
+            />
+          ) : null}
+        </Box>
+
+        <Typography variant="subtitle1" sx={{ mt: 2 }}>申报金额</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>申报字段</TableCell>
+              <TableCell>预填值</TableCell>
+              <TableCell align="right">来源</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.field}>
+                <TableCell>{CLAIM_EVIDENCE_FIELD_LABELS[row.field]}</TableCell>
+                <TableCell>
+                  {row.value}
+                  {AMOUNT_FIELDS.includes(row.field) && ` ${details.currency}`}
+                </TableCell>
+                <TableCell align="right">
+                  {evidencePages(row.field).map(page => `第${page}页`).join('、') || '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {draft.warnings.length > 0 && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {draft.warnings.map(warning => (
+              <Typography key={warning} variant="body2">{warning}</Typography>
+            ))}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>取消</Button>
+        <Button
+          variant="contained"
+          onClick={handleConfirm}
+          disabled={!canSubmit || submitting}
+          startIcon={submitting ? <CircularProgress size={16} /> : undefined}
+        >
+          {creditorMatch || !canCreateCreditor ? '填写申报' : '新建债权人并填写申报'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ApplyToClaimDialog;
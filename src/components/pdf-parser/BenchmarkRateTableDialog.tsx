@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+  Box,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  Alert,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { BENCHMARK_RATE_LABELS } from '@/src/utils/interestCalculator';
+import type { BenchmarkInterestRate, BenchmarkRateType } from '@/src/types/pdfParser';
+
+interface BenchmarkRateTableDialogProps {
+  open: boolean;
+  onClose: () => void;
+  rates: BenchmarkInterestRate[];
+  /** 仅管理员可维护基准利率表 */
+  canEdit: boolean;
+  onSave: (rates: BenchmarkInterestRate[]) => Promise<void>;
+}
+
+interface EditableRate {
+  key: number;
+  rate_type: BenchmarkRateType;
+  effective_date: string;
+  rate: string;
+  description: string;
+}
+
+const RATE_TYPES = Object.keys(BENCHMARK_RATE_LABELS) as BenchmarkRateType[];
+
+const toEditableRates = (rates: BenchmarkInterestRate[]): EditableRate[] =>
+  rates.map((rate, index) => ({
+    key: index,
+    rate_type: rate.rate_type,
+    effective_date: typeof rate.effective_date === 'string'
+      ? rate.effective_date.slice(0, 10)
+      : format(rate.effective_date, 'yyyy-MM-dd'),
+    rate: String(rate.rate),
+    description: rate.description || '',
+  }));
+
+/**
+ * 校验利率表，返回错误信息
+ */
+const validateRates = (rows: EditableRate[]): string | null => {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const label = BENCHMARK_RATE_LABELS[row.rate_type];
+    if (!row.effective_date) {
+      return `${label}存在未填写生效日期的记录`;
+    }
+    const rate = Number(row.rate);
+    if (row.rate === '' || Number.isNaN(rate) || rate < 0) {
+      return `${label} ${row.effective_date} 的利率无效`;
+    }
+    const key = `${row.rate_type}|${row.effective_date}`;
+    if (seen.has(key)) {
+      return `${label} ${row.effective_date} 存在重复记录`;
+    }
+    seen.add(key);
+  }
+  return null;
+};
+
+const BenchmarkRateTableDialog: React.FC<BenchmarkRateTableDialogProps> = ({
+  open,
+  onClose,
+  rates,
+  canEdit,
+  onSave,
+}) => {
+  const [rows, setRows] = useState<EditableRate[]>([]);
+  const [activeType, setActiveType] = useState<BenchmarkRateType>('LPR_1Y');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setRows(toEditableRates(rates));
+      setError(null);
+    }
+  }, [open, rates]);
+
+  const visibleRows = useMemo(
+    () => rows
+      .filter(row => row.rate_type === activeType)
+      .sort((a, b) => b.effective_date.localeCompare(a.effective_date)),
+    [rows, activeType]
+  );
+
+  const updateRow = (key: number, changes: Partial<EditableRate>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const handleAdd = () => {
+    setRows(prev => [
+      ...prev,
+      {
+        key: Math.max(-1, ...prev.map(row => row.key)) + 1,
+        rate_type: activeType,
+        effective_date: format(new Date(), 'yyyy-MM-dd'),
+        rate: '',
+        description: '',
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const validationError = validateRates(rows);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(rows.map(row => ({
+        rate_type: row.rate_type,
+        effective_date: row.effective_date,
+        rate: Number(row.rate),
+        description: row.description || undefined,
+      })));
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : '保存基准利率表失败');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>基准利率表</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          年利率（%），仅需登记利率调整日，调整日起适用新利率。
+        </Typography>
+
+        <Tabs
+          value={activeType}
+          onChange={(_, value: BenchmarkRateType) => setActiveType(value)}
+          variant="scrollable"
+          scrollButtons="auto"
+          sx={{ mb: 2 }}
+        >
+          {RATE_TYPES.map(type => (
+            <Tab key={type} value={type} label={BENCHMARK_RATE_LABELS[type]} />
+          ))}
+        </Tabs>
+
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>生效日期</TableCell>
+                <TableCell>年利率（%）</TableCell>
+                <TableCell>说明</TableCell>
+                {canEdit && <TableCell align="right">操作</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visibleRows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 4 : 3}>
+                    <Typography variant="body2" color="text.secondary">暂无利率记录</Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+              {visibleRows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    {canEdit ? (
+                      <TextField
+                        type="date"
+                        size="small"
+                        value={row.effective_date}
+                        onChange={(e) => updateRow(row.key, { effective_date: e.target.value })}
+                      />
+                    ) : row.effective_date}
+                  </TableCell>
+                  <TableCell>
+                    {canEdit ? (
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={row.rate}
+                        onChange={(e) => updateRow(row.key, { rate: e.target.value })}
+                        inputProps={{ min: 0, step: 0.01 }}
+                      />
+                    ) : row.rate}
+                  </TableCell>
+                  <TableCell>
+                    {canEdit ? (
+                      <TextField
+                        size="small"
+                        fullWidth
+                        value={row.description}
+                        onChange={(e) => updateRow(row.key, { description: e.target.value })}
+                      />
+                    ) : row.description}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell align="right">
+                      <IconButton
+                        size="small"
+                        aria-label="删除"
+                        onClick={() => setRows(prev => prev.filter(item => item.key !== row.key))}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {canEdit && (
+          <Box mt={1}>
+            <Button startIcon={<AddIcon />} onClick={handleAdd}>
+              新增利率
+            </Button>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{canEdit ? '取消' : '关闭'}</Button>
+        {canEdit && (
+          <Button variant="contained" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? '保存中...' : '保存'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BenchmarkRateTableDialog;
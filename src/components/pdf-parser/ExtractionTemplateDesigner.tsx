@@ -0,0 +1,502 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Anchor as AnchorIcon,
+  CropFree as CropFreeIcon,
+  Delete as DeleteIcon,
+  UploadFile as UploadFileIcon,
+} from '@mui/icons-material';
+
+import PDFPreviewComponent from './PDFPreviewComponent';
+import ExtractionTemplateTestPanel from './ExtractionTemplateTestPanel';
+import type ExtractionTemplateService from '@/src/services/extractionTemplateService';
+import { pdfParseService } from '@/src/services/pdfParseService';
+import { compileTemplate, validateTemplate } from '@/src/utils/extractionTemplate';
+import { extractRegionText, recognizeDocument, type PdfTextPage, type RecognitionRegion } from '@/src/utils/pdfFieldRecognition';
+import type { HighlightRegion, ParsedField, ParseResult } from '@/src/types/pdfParser';
+import type { ExtractionTemplate, ExtractionTemplateField } from '@/src/types/extractionTemplate';
+
+export const DATA_TYPE_LABELS: Record<ParsedField['dataType'], string> = {
+  text: '文本',
+  number: '数字',
+  currency: '金额（元）',
+  percentage: '百分比',
+  date: '日期',
+  boolean: '是/否',
+};
+
+type DrawTarget = 'region' | 'anchor';
+
+const REGION_COLOR = '#1976d2';
+const INACTIVE_REGION_COLOR = '#9e9e9e';
+
+const emptyTemplate = (): ExtractionTemplate => ({
+  id: '',
+  document_type: '',
+  name: '',
+  description: '',
+  version: 0,
+  status: 'draft',
+  keywords: [],
+  fields: [],
+});
+
+const newField = (index: number): ExtractionTemplateField => ({
+  name: `field_${index}`,
+  display_name: '',
+  data_type: 'text',
+  anchors: [],
+  validation: {},
+});
+
+const optionalNumber = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+interface ExtractionTemplateDesignerProps {
+  open: boolean;
+  template: ExtractionTemplate | null;
+  service: ExtractionTemplateService;
+  onClose: () => void;
+  onSave: (template: ExtractionTemplate, publish: boolean) => Promise<void>;
+}
+
+/**
+ * 字段提取模板设计器
+ * 上传样本 PDF 后在页面上框选字段的取值区域或锚点文字，右侧即时显示按当前配置识别出的取值；
+ * 发布前须用样本文件夹测试当前配置。
+ */
+const ExtractionTemplateDesigner: React.FC<ExtractionTemplateDesignerProps> = ({
+  open,
+  template,
+  service,
+  onClose,
+  onSave,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<ExtractionTemplate>(emptyTemplate);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [drawTarget, setDrawTarget] = useState<DrawTarget | null>(null);
+  const [sampleUrl, setSampleUrl] = useState<string | null>(null);
+  const [samplePages, setSamplePages] = useState<PdfTextPage[] | null>(null);
+  const [sampleLoading, setSampleLoading] = useState(false);
+  const [testedSamples, setTestedSamples] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(template ? structuredClone(template) : emptyTemplate());
+    setSelectedIndex(0);
+    setDrawTarget(null);
+    setTestedSamples(0);
+    setSampleUrl(null);
+    setSamplePages(null);
+    setError(null);
+  }, [open, template]);
+
+  // 关闭或更换样本时释放对象 URL
+  useEffect(() => () => {
+    if (sampleUrl) URL.revokeObjectURL(sampleUrl);
+  }, [sampleUrl]);
+
+  const isNew = !draft.id;
+  const errors = useMemo(() => validateTemplate(draft), [draft]);
+  const selectedField = draft.fields[selectedIndex] as ExtractionTemplateField | undefined;
+
+  // 按当前配置识别样本，正则尚未输入完整时不显示取值
+  const preview = useMemo((): ParseResult | null => {
+    if (!samplePages) return null;
+    const profile = { ...compileTemplate(draft), type: 'template_preview' };
+    try {
+      return recognizeDocument(samplePages, {
+        fileId: 'template-preview',
+        fileName: draft.sample_file_name ?? '',
+        profiles: [profile],
+        documentType: profile.type,
+      });
+    } catch {
+      return null;
+    }
+  }, [samplePages, draft]);
+
+  const highlightRegions = useMemo((): HighlightRegion[] => {
+    const configured = draft.fields.flatMap((field, index) => (field.region ? [{
+      id: `region-${field.name}-${index}`,
+      ...field.region,
+      color: index === selectedIndex ? REGION_COLOR : INACTIVE_REGION_COLOR,
+      fieldName: `${field.display_name || field.name}（区域）`,
+      confidence: 1,
+    }] : []));
+    return [...configured, ...(preview?.highlightRegions ?? [])];
+  }, [draft.fields, selectedIndex, preview]);
+
+  const update = (changes: Partial<ExtractionTemplate>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateField = (changes: Partial<ExtractionTemplateField>) => {
+    setDraft(prev => ({
+      ...prev,
+      fields: prev.fields.map((field, index) => (index === selectedIndex ? { ...field, ...changes } : field)),
+    }));
+  };
+
+  const updateValidation = (changes: Partial<ExtractionTemplateField['validation']>) => {
+    if (selectedField) updateField({ validation: { ...selectedField.validation, ...changes } });
+  };
+
+  const handleAddField = () => {
+    setDraft(prev => ({ ...prev, fields: [...prev.fields, newField(prev.fields.length + 1)] }));
+    setSelectedIndex(draft.fields.length);
+  };
+
+  const handleRemoveField = (index: number) => {
+    setDraft(prev => ({ ...prev, fields: prev.fields.filter((_, itemIndex) => itemIndex !== index) }));
+    setSelectedIndex(current => Math.max(0, current >= index ? current - 1 : current));
+  };
+
+  const handleSampleSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setSampleLoading(true);
+    setError(null);
+    try {
+      setSamplePages(await pdfParseService.extractTextPages(file));
+      setSampleUrl(URL.createObjectURL(file));
+      update({ sample_file_name: file.name });
+    } catch (loadError) {
+      console.error('读取样本文件失败:', loadError);
+      setError('读取样本文件失败，请确认是包含文字层的 PDF');
+    } finally {
+      setSampleLoading(false);
+    }
+  };
+
+  // 框选取值区域时保存区域；框选锚点时取区域内的第一行文字作为锚点
+  const handleRegionDrawn = (region: RecognitionRegion) => {
+    if (!selectedField || !drawTarget) return;
+    if (drawTarget === 'region') {
+      updateField({ region });
+    } else {
+      const anchor = samplePages ? extractRegionText(samplePages, region).split('\n')[0].trim() : '';
+      if (!anchor) {
+        setError('框选区域内没有文字，无法作为锚点');
+      } else if (!selectedField.anchors.includes(anchor)) {
+        updateField({ anchors: [...selectedField.anchors, anchor] });
+      }
+    }
+    setDrawTarget(null);
+  };
+
+  const handleSave = async (publish: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft, publish);
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : '保存字段提取模板失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const regionText = selectedField?.region && samplePages ? extractRegionText(samplePages, selectedField.region) : null;
+  const previewValue = (field: ExtractionTemplateField) => {
+    const parsed = preview?.fields.find(item => item.name === field.name);
+    return parsed ? String(parsed.value) : '未识别';
+  };
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} fullScreen>
+      <DialogTitle>
+        {isNew ? '新建字段提取模板' : `${draft.name} · 第 ${draft.version} 版`}
+        {draft.status !== 'draft' && (
+          <Chip size="small" sx={{ ml: 1 }} label="已发布的版本修改后另存为新版本" color="info" />
+        )}
+      </DialogTitle>
+      <DialogContent dividers>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 12, md: 3 }}>
+            <TextField fullWidth size="small" label="模板名称" value={draft.name} onChange={event => update({ name: event.target.value })} />
+          </Grid>
+          <Grid size={{ xs: 12, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="文书类型标识"
+              value={draft.document_type}
+              onChange={event => update({ document_type: event.target.value })}
+              disabled={!isNew}
+              helperText={isNew ? '如 guarantee_contract，与内置类型相同时替换内置规则' : '创建后不可修改'}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <Autocomplete
+              multiple
+              freeSolo
+              size="small"
+              options={[]}
+              value={draft.keywords}
+              onChange={(_, value) => update({ keywords: value.map(item => item.trim()).filter(Boolean) })}
+              renderInput={params => (
+                <TextField {...params} label="文书类型关键词" helperText="输入后回车，用于自动判断文书类型" />
+              )}
+            />
+          </Grid>
+          <Grid size={12}>
+            <TextField fullWidth size="small" label="说明" value={draft.description} onChange={event => update({ description: event.target.value })} />
+          </Grid>
+        </Grid>
+
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 7 }}>
+            <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+              <input ref={fileInputRef} type="file" accept="application/pdf" hidden onChange={handleSampleSelected} />
+              <Button
+                size="small"
+                variant="outlined"
+                startIcon={sampleLoading ? <CircularProgress size={16} /> : <UploadFileIcon />}
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sampleLoading}
+              >
+                {sampleUrl ? '更换样本' : '上传样本 PDF'}
+              </Button>
+              <Typography variant="body2" color="text.secondary" noWrap>
+                {drawTarget
+                  ? `请在页面上拖拽框选${drawTarget === 'region' ? '取值区域' : '锚点文字'}`
+                  : draft.sample_file_name ?? '上传样本后可在页面上框选字段'}
+              </Typography>
+            </Stack>
+            <Box sx={{ height: 640 }}>
+              {sampleUrl ? (
+                <PDFPreviewComponent
+                  fileUrl={sampleUrl}
+                  fileName={draft.sample_file_name}
+                  highlightRegions={highlightRegions}
+                  enableRegionDrawing={drawTarget !== null}
+                  onRegionDrawn={handleRegionDrawn}
+                />
+              ) : (
+                <Alert severity="info">
+                  {draft.sample_file_name
+                    ? `模板使用样本“${draft.sample_file_name}”设计，请重新上传该样本以查看区域`
+                    : '上传一份该类文书的样本 PDF'}
+                </Alert>
+              )}
+            </Box>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Stack direction="row" alignItems="center" sx={{ mb: 1 }}>
+              <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>字段</Typography>
+              <Button size="small" startIcon={<AddIcon />} onClick={handleAddField}>添加字段</Button>
+            </Stack>
+            <List dense sx={{ maxHeight: 200, overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+              {draft.fields.map((field, index) => (
+                <ListItemButton key={index} selected={index === selectedIndex} onClick={() => setSelectedIndex(index)}>
+                  <ListItemText
+                    primary={`${field.display_name || '未命名字段'}（${field.name}）`}
+                    secondary={samplePages ? `样本取值：${previewValue(field)}` : DATA_TYPE_LABELS[field.data_type]}
+                  />
+                  <Tooltip title="删除字段">
+                    <IconButton
+                      size="small"
+                      edge="end"
+                      onClick={event => {
+                        event.stopPropagation();
+                        handleRemoveField(index);
+                      }}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </ListItemButton>
+              ))}
+            </List>
+
+            {selectedField && (
+              <Box sx={{ mt: 2 }}>
+                <Grid container spacing={1.5}>
+                  <Grid size={6}>
+                    <TextField fullWidth size="small" label="显示名称" value={selectedField.display_name} onChange={event => updateField({ display_name: event.target.value })} />
+                  </Grid>
+                  <Grid size={6}>
+                    <TextField fullWidth size="small" label="字段名" value={selectedField.name} onChange={event => updateField({ name: event.target.value })} />
+                  </Grid>
+                  <Grid size={6}>
+                    <TextField
+                      select
+                      fullWidth
+                      size="small"
+                      label="数据类型"
+                      value={selectedField.data_type}
+                      onChange={event => updateField({ data_type: event.target.value as ParsedField['dataType'] })}
+                    >
+                      {(Object.keys(DATA_TYPE_LABELS) as ParsedField['dataType'][]).map(type => (
+                        <MenuItem key={type} value={type}>{DATA_TYPE_LABELS[type]}</MenuItem>
+                      ))}
+                    </TextField>
+                  </Grid>
+                  <Grid size={6}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="取值正则（可选）"
+                      value={selectedField.pattern ?? ''}
+                      onChange={event => updateField({ pattern: event.target.value || undefined })}
+                      helperText="有捕获组时取第一组"
+                    />
+                  </Grid>
+                  <Grid size={12}>
+                    <ToggleButtonGroup
+                      size="small"
+                      exclusive
+                      value={drawTarget}
+                      onChange={(_, value: DrawTarget | null) => setDrawTarget(value)}
+                      disabled={!sampleUrl}
+                    >
+                      <ToggleButton value="region"><CropFreeIcon fontSize="small" sx={{ mr: 0.5 }} />框选取值区域</ToggleButton>
+                      <ToggleButton value="anchor"><AnchorIcon fontSize="small" sx={{ mr: 0.5 }} />框选锚点文字</ToggleButton>
+                    </ToggleButtonGroup>
+                    {selectedField.region && (
+                      <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+                        <Chip
+                          size="small"
+                          label={`取值区域：第 ${selectedField.region.pageNumber} 页`}
+                          onDelete={() => updateField({ region: undefined })}
+                        />
+                        {regionText !== null && (
+                          <Typography variant="caption" color="text.secondary" noWrap>
+                            区域文字：{regionText || '（无文字）'}
+                          </Typography>
+                        )}
+                      </Stack>
+                    )}
+                  </Grid>
+                  <Grid size={12}>
+                    <Autocomplete
+                      multiple
+                      freeSolo
+                      size="small"
+                      options={[]}
+                      value={selectedField.anchors}
+                      onChange={(_, value) => updateField({ anchors: value.map(item => item.trim()).filter(Boolean) })}
+                      renderInput={params => (
+                        <TextField {...params} label="锚点文字" helperText="区域内未取到值时，按锚点在其后查找取值" />
+                      )}
+                    />
+                  </Grid>
+                </Grid>
+
+                <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>校验</Typography>
+                <Grid container spacing={1.5}>
+                  <Grid size={12}>
+                    <FormControlLabel
+                      label="必填"
+                      control={(
+                        <Switch
+                          size="small"
+                          checked={Boolean(selectedField.validation.required)}
+                          onChange={event => updateValidation({ required: event.target.checked || undefined })}
+                        />
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={12}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="格式正则（可选）"
+                      value={selectedField.validation.pattern ?? ''}
+                      onChange={event => updateValidation({ pattern: event.target.value || undefined })}
+                      helperText="取值须完整匹配，如统一社会信用代码 [0-9A-Z]{18}"
+                    />
+                  </Grid>
+                  {['number', 'currency', 'percentage'].includes(selectedField.data_type) && (
+                    <>
+                      <Grid size={6}>
+                        <TextField
+                          fullWidth
+                          size="small"
+                          type="number"
+                          label="最小值"
+                          value={selectedField.validation.min ?? ''}
+                          onChange={event => updateValidation({ min: optionalNumber(event.target.value) })}
+                          helperText={selectedField.data_type === 'percentage' ? '按小数填写，5% 为 0.05' : undefined}
+                        />
+                      </Grid>
+                      <Grid size={6}>
+                        <TextField
+                          fullWidth
+                          size="small"
+                          type="number"
+                          label="最大值"
+                          value={selectedField.validation.max ?? ''}
+                          onChange={event => updateValidation({ max: optionalNumber(event.target.value) })}
+                        />
+                      </Grid>
+                    </>
+                  )}
+                </Grid>
+              </Box>
+            )}
+          </Grid>
+        </Grid>
+
+        <Divider sx={{ my: 2 }} />
+
+        <ExtractionTemplateTestPanel template={draft} service={service} onSamplesChange={setTestedSamples} />
+
+        {errors.length > 0 && <Alert severity="warning" sx={{ mt: 2 }}>{errors.join('；')}</Alert>}
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>取消</Button>
+        <Button onClick={() => handleSave(false)} disabled={saving || errors.length > 0}>
+          {draft.status === 'draft' ? '保存为草稿' : '另存为新版本'}
+        </Button>
+        <Tooltip title={testedSamples === 0 ? '发布前请先用样本文件夹测试' : ''}>
+          <span>
+            <Button
+              variant="contained"
+              onClick={() => handleSave(true)}
+              disabled={saving || errors.length > 0 || testedSamples === 0}
+              startIcon={saving ? <CircularProgress size={16} /> : undefined}
+            >
+              保存并发布
+            </Button>
+          </span>
+        </Tooltip>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExtractionTemplateDesigner;
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  LinearProgress,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { FolderOpen as FolderOpenIcon } from '@mui/icons-material';
+
+import type ExtractionTemplateService from '@/src/services/extractionTemplateService';
+import { evaluateTemplate, validateTemplate } from '@/src/utils/extractionTemplate';
+import type { ExtractionTemplate, TemplateTestSample } from '@/src/types/extractionTemplate';
+
+interface ExtractionTemplateTestPanelProps {
+  template: ExtractionTemplate;
+  service: ExtractionTemplateService;
+  onSamplesChange?: (count: number) => void;
+}
+
+const formatRatio = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? '—' : String(value));
+
+/**
+ * 用样本文件夹测试模板：选择包含 PDF 的文件夹，同名 JSON 文件为标注的正确取值
+ * 修改模板后按当前配置重新统计，无需重新读取样本
+ */
+const ExtractionTemplateTestPanel: React.FC<ExtractionTemplateTestPanelProps> = ({ template, service, onSamplesChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [samples, setSamples] = useState<TemplateTestSample[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  // React 的 input 类型未声明 webkitdirectory，直接设置属性
+  useEffect(() => {
+    inputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // 配置有误（如正则无效）时不统计
+  const valid = useMemo(() => validateTemplate(template).length === 0, [template]);
+  const report = useMemo(
+    () => (valid && samples.length > 0 ? evaluateTemplate(template, samples) : null),
+    [valid, template, samples]
+  );
+
+  const handleFolderSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setProgress(0);
+    const loaded = await service.loadSamples(files, (done, total) => setProgress(Math.round((done / total) * 100)));
+    setProgress(null);
+    setSamples(loaded.samples);
+    setSkipped(loaded.skipped);
+    onSamplesChange?.(loaded.samples.length);
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>样本测试</Typography>
+        <input ref={inputRef} type="file" multiple hidden onChange={handleFolderSelected} />
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<FolderOpenIcon />}
+          onClick={() => inputRef.current?.click()}
+          disabled={progress !== null}
+        >
+          选择样本文件夹
+        </Button>
+      </Stack>
+
+      {progress !== null && <LinearProgress variant="determinate" value={progress} sx={{ mb: 1 }} />}
+      {skipped.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 1 }}>以下样本读取失败，未计入统计：{skipped.join('、')}</Alert>
+      )}
+
+      {samples.length > 0 && !valid ? (
+        <Alert severity="info">模板配置有误，修正后显示测试结果</Alert>
+      ) : !report ? (
+        <Typography variant="body2" color="text.secondary">
+          文件夹中的 PDF 为样本；与 PDF 同名的 JSON 文件为标注的正确取值，如 {'{"guarantee_amount": "500000"}'}，未标注的样本只统计识别率
+        </Typography>
+      ) : (
+        <>
+          <Typography variant="body2" gutterBottom>
+            共 {report.sample_count} 个样本，标注字段整体准确率 {formatRatio(report.overall_accuracy)}
+          </Typography>
+          <TableContainer sx={{ mb: 2 }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>字段</TableCell>
+                  <TableCell align="right">识别率</TableCell>
+                  <TableCell align="right">校验未通过</TableCell>
+                  <TableCell align="right">标注样本</TableCell>
+                  <TableCell align="right">准确率</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.fields.map(field => (
+                  <TableRow key={field.name}>
+                    <TableCell>{field.display_name}</TableCell>
+                    <TableCell align="right">{formatRatio(field.recognized / report.sample_count)}</TableCell>
+                    <TableCell align="right">{field.invalid}</TableCell>
+                    <TableCell align="right">{field.labeled}</TableCell>
+                    <TableCell align="right">
+                      <Chip
+                        size="small"
+                        label={formatRatio(field.accuracy)}
+                        color={field.accuracy === null ? 'default' : field.accuracy >= 0.9 ? 'success' : field.accuracy >= 0.7 ? 'warning' : 'error'}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <TableContainer sx={{ maxHeight: 320 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>样本</TableCell>
+                  {template.fields.map(field => <TableCell key={field.name}>{field.display_name}</TableCell>)}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {report.samples.map(sample => (
+                  <TableRow key={sample.file_name}>
+                    <TableCell>
+                      {sample.file_name}
+                      {sample.error && <Typography variant="caption" color="error" display="block">{sample.error}</Typography>}
+                    </TableCell>
+                    {template.fields.map(field => {
+                      const entry = sample.values[field.name];
+                      const hint = [
+                        entry?.expected !== undefined && `标注：${formatValue(entry.expected)}`,
+                        entry?.validation_error,
+                      ].filter(Boolean).join('；');
+                      return (
+                        <TableCell
+                          key={field.name}
+                          sx={{ color: entry?.correct === false ? 'error.main' : entry?.validation_error ? 'warning.main' : undefined }}
+                        >
+                          <Tooltip title={hint}>
+                            <span>{formatValue(entry?.value)}</span>
+                          </Tooltip>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ExtractionTemplateTestPanel;
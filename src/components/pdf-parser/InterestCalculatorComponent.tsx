@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Card,
   CardContent,
@@ -43,6 +43,7 @@ import {
   History as HistoryIcon,
   Info as InfoIcon,
   Download as DownloadIcon,
+  TableChart as TableChartIcon,
 } from '@mui/icons-material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
@@ -51,69 +52,97 @@ import { zhCN } from 'date-fns/locale';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { formatCurrency, formatPercentage } from '@/src/utils/formatters';
+import { formatCurrency } from '@/src/utils/formatters';
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { useAuth } from '@/src/contexts/AuthContext';
+import BenchmarkRateService from '@/src/services/benchmarkRateService';
+import {
+  BENCHMARK_RATE_LABELS,
+  DEFAULT_BENCHMARK_RATES,
+  calculateInterest,
+} from '@/src/utils/interestCalculator';
+import type {
+  BenchmarkInterestRate,
+  BenchmarkRateType,
+  InterestCalculationParams,
+  InterestCalculationResult,
+} from '@/src/types/pdfParser';
+import BenchmarkRateTableDialog from './BenchmarkRateTableDialog';
 
 // 利息计算参数验证schema
 const interestCalculationSchema = z.object({
   principal: z.number().positive('本金必须大于0'),
-  interestRate: z.number().positive('利率必须大于0'),
-  rateType: z.enum(['daily', 'monthly', 'yearly']),
+  rateSource: z.enum(['fixed', 'LPR_1Y', 'LPR_5Y', 'PBOC_1Y', 'PBOC_1_5Y', 'PBOC_5Y_PLUS']),
+  interestRate: z.number().min(0, '利率不能为负数'),
+  rateType: z.enum(['daily', 'monthly', 'annual']),
+  rateMultiplier: z.number().positive('利率倍数必须大于0'),
+  dayCountConvention: z.enum(['actual/365', 'actual/360', '30/360']),
   startDate: z.date(),
   endDate: z.date(),
+  acceptanceDate: z.date().nullable(),
   isCompound: z.boolean(),
-  compoundFrequency: z.enum(['daily', 'monthly', 'quarterly', 'yearly']).optional(),
+  compoundFrequency: z.enum(['monthly', 'quarterly', 'annually']),
+}).refine(data => data.rateSource !== 'fixed' || data.interestRate > 0, {
+  message: '利率必须大于0',
+  path: ['interestRate'],
+}).refine(data => data.endDate >= data.startDate, {
+  message: '结束日期不能早于开始日期',
+  path: ['endDate'],
 });
 
 type InterestCalculationForm = z.infer<typeof interestCalculationSchema>;
 
-// 计算结果接口
-interface CalculationResult {
-  principal: number;
-  interestRate: number;
-  rateType: string;
-  startDate: Date;
-  endDate: Date;
-  days: number;
-  isCompound: boolean;
-  compoundFrequency?: string;
-  simpleInterest: number;
-  compoundInterest?: number;
-  totalAmount: number;
-  dailyInterest: number;
-  monthlyBreakdown: Array<{
-    month: string;
-    principalStart: number;
-    interest: number;
-    principalEnd: number;
-  }>;
-  formula: string;
-  explanation: string;
-}
-
 // 计算历史记录接口
 interface CalculationHistory {
   id: string;
   timestamp: Date;
   parameters: InterestCalculationForm;
-  result: CalculationResult;
+  result: InterestCalculationResult;
   description: string;
 }
 
 interface InterestCalculatorComponentProps {
   initialPrincipal?: number;
   initialRate?: number;
-  onCalculationComplete?: (result: CalculationResult) => void;
+  /** 案件破产申请受理日，计息截止于该日 */
+  caseAcceptanceDate?: Date;
+  onCalculationComplete?: (result: InterestCalculationResult) => void;
 }
 
+const toCalculationParams = (
+  form: InterestCalculationForm,
+  benchmarkRates: BenchmarkInterestRate[]
+): InterestCalculationParams => ({
+  principal: form.principal,
+  interestRate: form.interestRate,
+  rateType: form.rateType,
+  startDate: form.startDate,
+  endDate: form.endDate,
+  compoundFrequency: form.isCompound ? form.compoundFrequency : 'none',
+  dayCountConvention: form.dayCountConvention,
+  benchmarkRateType: form.rateSource === 'fixed' ? undefined : form.rateSource,
+  rateMultiplier: form.rateMultiplier,
+  benchmarkRates,
+  acceptanceDate: form.acceptanceDate ?? undefined,
+});
+
 const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> = ({
   initialPrincipal,
   initialRate,
+  caseAcceptanceDate,
   onCalculationComplete,
 }) => {
-  const [calculationResult, setCalculationResult] = useState<CalculationResult | null>(null);
+  const client = useSurrealClient();
+  const { hasRole } = useAuth();
+  const [calculationResult, setCalculationResult] = useState<InterestCalculationResult | null>(null);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
   const [calculationHistory, setCalculationHistory] = useState<CalculationHistory[]>([]);
+  const [benchmarkRates, setBenchmarkRates] = useState<BenchmarkInterestRate[]>(DEFAULT_BENCHMARK_RATES);
   const [showHistory, setShowHistory] = useState(false);
   const [showFormula, setShowFormula] = useState(false);
+  const [showRateTable, setShowRateTable] = useState(false);
+
+  const benchmarkRateService = useMemo(() => new BenchmarkRateService(client), [client]);
 
   const {
     control,
@@ -125,10 +154,14 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
     resolver: zodResolver(interestCalculationSchema),
     defaultValues: {
       principal: initialPrincipal || 0,
+      rateSource: 'fixed',
       interestRate: initialRate || 0,
-      rateType: 'yearly',
+      rateType: 'annual',
+      rateMultiplier: 1,
+      dayCountConvention: 'actual/365',
       startDate: new Date(),
       endDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 一年后
+      acceptanceDate: caseAcceptanceDate ?? null,
       isCompound: false,
       compoundFrequency: 'monthly',
     },
@@ -136,150 +169,66 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
   });
 
   const watchedValues = watch();
-  const { principal, interestRate, isCompound } = watchedValues;
-
-  // 计算利息的核心函数
-  const calculateInterest = (params: InterestCalculationForm): CalculationResult => {
-    const days = Math.ceil((params.endDate.getTime() - params.startDate.getTime()) / (1000 * 60 * 60 * 24));
-    
-    // 将利率转换为日利率
-    let dailyRate: number;
-    switch (params.rateType) {
-      case 'daily':
-        dailyRate = params.interestRate / 100;
-        break;
-      case 'monthly':
-        dailyRate = params.interestRate / 100 / 30;
-        break;
-      case 'yearly':
-        dailyRate = params.interestRate / 100 / 365;
-        break;
-    }
+  const { isCompound, rateSource } = watchedValues;
 
-    // 计算单利
-    const simpleInterest = params.principal * dailyRate * days;
-    const dailyInterest = params.principal * dailyRate;
-
-    let compoundInterest: number | undefined;
-    let totalAmount: number;
-    let formula: string;
-    let explanation: string;
-
-    if (params.isCompound && params.compoundFrequency) {
-      // 复利计算
-      let compoundPeriods: number;
-      let periodsPerYear: number;
-
-      switch (params.compoundFrequency) {
-        case 'daily':
-          periodsPerYear = 365;
-          compoundPeriods = days;
-          break;
-        case 'monthly':
-          periodsPerYear = 12;
-          compoundPeriods = days / 30;
-          break;
-        case 'quarterly':
-          periodsPerYear = 4;
-          compoundPeriods = days / 90;
-          break;
-        case 'yearly':
-          periodsPerYear = 1;
-          compoundPeriods = days / 365;
-          break;
-      }
-
-      const yearlyRate = params.rateType === 'yearly' ? params.interestRate / 100 :
-                        params.rateType === 'monthly' ? params.interestRate / 100 * 12 :
-                        params.interestRate / 100 * 365;
-
-      const compoundRate = yearlyRate / periodsPerYear;
-      const finalAmount = params.principal * Math.pow(1 + compoundRate, compoundPeriods);
-      compoundInterest = finalAmount - params.principal;
-      totalAmount = finalAmount;
-
-      formula = `A = P(1 + r/n)^(nt)`;
-      explanation = `复利计算：本金 ${formatCurrency(params.principal)}，年利率 ${formatPercentage(yearlyRate)}，复利频率 ${params.compoundFrequency}，计算周期 ${days} 天`;
-    } else {
-      // 单利计算
-      totalAmount = params.principal + simpleInterest;
-      formula = `利息 = 本金 × 利率 × 时间`;
-      explanation = `单利计算：本金 ${formatCurrency(params.principal)}，日利率 ${formatPercentage(dailyRate)}，计算天数 ${days} 天`;
-    }
-
-    // 生成月度分解
-    const monthlyBreakdown: CalculationResult['monthlyBreakdown'] = [];
-    let currentDate = new Date(params.startDate);
-    let currentPrincipal = params.principal;
-
-    while (currentDate < params.endDate) {
-      const monthEnd = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
-      const actualMonthEnd = monthEnd > params.endDate ? params.endDate : monthEnd;
-      const monthDays = Math.ceil((actualMonthEnd.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-      
-      let monthInterest: number;
-      if (params.isCompound) {
-        const monthlyRate = dailyRate * 30; // 简化计算
-        monthInterest = currentPrincipal * monthlyRate;
-        currentPrincipal += monthInterest;
-      } else {
-        monthInterest = params.principal * dailyRate * monthDays;
-      }
-
-      monthlyBreakdown.push({
-        month: `${currentDate.getFullYear()}年${currentDate.getMonth() + 1}月`,
-        principalStart: params.isCompound ? currentPrincipal - monthInterest : params.principal,
-        interest: monthInterest,
-        principalEnd: currentPrincipal,
+  // 加载基准利率表，加载失败时使用内置利率表
+  useEffect(() => {
+    let cancelled = false;
+    benchmarkRateService.getRates()
+      .then(rates => {
+        if (!cancelled) setBenchmarkRates(rates);
+      })
+      .catch(error => {
+        console.error('加载基准利率表失败，使用内置利率表:', error);
       });
+    return () => {
+      cancelled = true;
+    };
+  }, [benchmarkRateService]);
 
-      currentDate = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1);
+  useEffect(() => {
+    if (caseAcceptanceDate) {
+      setValue('acceptanceDate', caseAcceptanceDate);
     }
-
-    return {
-      principal: params.principal,
-      interestRate: params.interestRate,
-      rateType: params.rateType,
-      startDate: params.startDate,
-      endDate: params.endDate,
-      days,
-      isCompound: params.isCompound,
-      compoundFrequency: params.compoundFrequency,
-      simpleInterest,
-      compoundInterest,
-      totalAmount,
-      dailyInterest,
-      monthlyBreakdown,
-      formula,
-      explanation,
-    };
-  };
+  }, [caseAcceptanceDate, setValue]);
 
   // 实时计算
+  const watchedKey = JSON.stringify(watchedValues);
   useEffect(() => {
-    if (isValid && principal > 0 && interestRate > 0) {
-      try {
-        const result = calculateInterest(watchedValues);
-        setCalculationResult(result);
-      } catch (error) {
-        console.error('计算错误:', error);
-        setCalculationResult(null);
-      }
-    } else {
+    if (!isValid) {
+      setCalculationResult(null);
+      setCalculationError(null);
+      return;
+    }
+    try {
+      setCalculationResult(calculateInterest(toCalculationParams(watchedValues, benchmarkRates)));
+      setCalculationError(null);
+    } catch (error) {
+      console.error('计算错误:', error);
       setCalculationResult(null);
+      setCalculationError(error instanceof Error ? error.message : '利息计算失败');
     }
-  }, [watchedValues, isValid, principal, interestRate]);
+  }, [watchedKey, isValid, benchmarkRates]);
 
   // 提交计算并保存到历史记录
   const onSubmit = (data: InterestCalculationForm) => {
-    const result = calculateInterest(data);
-    
+    let result: InterestCalculationResult;
+    try {
+      result = calculateInterest(toCalculationParams(data, benchmarkRates));
+    } catch (error) {
+      setCalculationError(error instanceof Error ? error.message : '利息计算失败');
+      return;
+    }
+
+    const rateText = data.rateSource === 'fixed'
+      ? `${data.interestRate}%`
+      : `${BENCHMARK_RATE_LABELS[data.rateSource]}${data.rateMultiplier !== 1 ? `×${data.rateMultiplier}` : ''}`;
     const historyItem: CalculationHistory = {
       id: Date.now().toString(),
       timestamp: new Date(),
       parameters: data,
       result,
-      description: `${formatCurrency(data.principal)} | ${data.interestRate}% | ${result.days}天`,
+      description: `${formatCurrency(data.principal)} | ${rateText} | ${result.days}天`,
     };
 
     setCalculationHistory(prev => [historyItem, ...prev.slice(0, 9)]); // 保持最近10条记录
@@ -294,26 +243,45 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
     setShowHistory(false);
   };
 
+  const getRateTypeLabel = (type: string) => {
+    switch (type) {
+      case 'daily': return '日利率';
+      case 'monthly': return '月利率';
+      case 'annual': return '年利率';
+      default: return type;
+    }
+  };
+
   // 导出计算结果
   const exportResult = () => {
     if (!calculationResult) return;
 
+    const { parameters } = calculationResult;
     const exportData = {
       计算参数: {
         本金: formatCurrency(calculationResult.principal),
-        利率: `${calculationResult.interestRate}% (${calculationResult.rateType})`,
-        计算期间: `${calculationResult.startDate.toLocaleDateString()} - ${calculationResult.endDate.toLocaleDateString()}`,
+        利率: parameters.benchmarkRateType
+          ? `${BENCHMARK_RATE_LABELS[parameters.benchmarkRateType]} × ${parameters.rateMultiplier ?? 1}`
+          : `${getRateTypeLabel(parameters.rateType)} ${parameters.interestRate}% × ${parameters.rateMultiplier ?? 1}`,
+        计息惯例: parameters.dayCountConvention,
+        计算期间: `${parameters.startDate.toLocaleDateString()} - ${calculationResult.accrualEndDate?.toLocaleDateString()}`,
         计算天数: `${calculationResult.days}天`,
-        计算方式: calculationResult.isCompound ? '复利' : '单利',
+        计算方式: parameters.compoundFrequency && parameters.compoundFrequency !== 'none' ? `复利（${parameters.compoundFrequency}）` : '单利',
       },
       计算结果: {
         本金: formatCurrency(calculationResult.principal),
-        利息: formatCurrency(calculationResult.isCompound ? calculationResult.compoundInterest! : calculationResult.simpleInterest),
+        利息: formatCurrency(calculationResult.interest),
         总计: formatCurrency(calculationResult.totalAmount),
-        日利息: formatCurrency(calculationResult.dailyInterest),
       },
+      计息明细: calculationResult.breakdown.map(item => ({
+        计息期间: item.period,
+        计息本金: item.principal,
+        适用利率: item.rateDescription,
+        天数: item.days,
+        利息: item.interest,
+        累计利息: item.cumulativeInterest,
+      })),
       计算公式: calculationResult.formula,
-      计算说明: calculationResult.explanation,
     };
 
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
@@ -325,15 +293,6 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
     URL.revokeObjectURL(url);
   };
 
-  const getRateTypeLabel = (type: string) => {
-    switch (type) {
-      case 'daily': return '日利率';
-      case 'monthly': return '月利率';
-      case 'yearly': return '年利率';
-      default: return type;
-    }
-  };
-
   return (
     <LocalizationProvider dateAdapter={AdapterDateFns} adapterLocale={zhCN}>
       <Card>
@@ -341,6 +300,11 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
           title="利息计算器"
           action={
             <Box>
+              <Tooltip title="基准利率表">
+                <IconButton onClick={() => setShowRateTable(true)}>
+                  <TableChartIcon />
+                </IconButton>
+              </Tooltip>
               <Tooltip title="计算历史">
                 <IconButton onClick={() => setShowHistory(true)}>
                   <HistoryIcon />
@@ -373,6 +337,7 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                   render={({ field }) => (
                     <TextField
                       {...field}
+                      onChange={(e) => field.onChange(e.target.value === '' ? 0 : Number(e.target.value))}
                       label="本金 (元)"
                       type="number"
                       fullWidth
@@ -388,18 +353,79 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
 
               <Grid size={{ xs: 12, md: 6 }}>
                 <Controller
-                  name="interestRate"
+                  name="rateSource"
+                  control={control}
+                  render={({ field }) => (
+                    <FormControl fullWidth>
+                      <InputLabel>利率依据</InputLabel>
+                      <Select {...field} label="利率依据">
+                        <MenuItem value="fixed">约定利率</MenuItem>
+                        {(Object.keys(BENCHMARK_RATE_LABELS) as BenchmarkRateType[]).map(type => (
+                          <MenuItem key={type} value={type}>{BENCHMARK_RATE_LABELS[type]}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  )}
+                />
+              </Grid>
+
+              {rateSource === 'fixed' && (
+                <>
+                  <Grid size={{ xs: 12, md: 4 }}>
+                    <Controller
+                      name="interestRate"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value === '' ? 0 : Number(e.target.value))}
+                          label="利率 (%)"
+                          type="number"
+                          fullWidth
+                          error={!!errors.interestRate}
+                          helperText={errors.interestRate?.message}
+                          InputProps={{
+                            inputProps: { min: 0, step: 0.01 }
+                          }}
+                        />
+                      )}
+                    />
+                  </Grid>
+
+                  <Grid size={{ xs: 12, md: 4 }}>
+                    <Controller
+                      name="rateType"
+                      control={control}
+                      render={({ field }) => (
+                        <FormControl fullWidth>
+                          <InputLabel>利率类型</InputLabel>
+                          <Select {...field} label="利率类型">
+                            <MenuItem value="daily">日利率</MenuItem>
+                            <MenuItem value="monthly">月利率</MenuItem>
+                            <MenuItem value="annual">年利率</MenuItem>
+                          </Select>
+                        </FormControl>
+                      )}
+                    />
+                  </Grid>
+                </>
+              )}
+
+              <Grid size={{ xs: 12, md: 4 }}>
+                <Controller
+                  name="rateMultiplier"
                   control={control}
                   render={({ field }) => (
                     <TextField
                       {...field}
-                      label="利率 (%)"
+                      onChange={(e) => field.onChange(e.target.value === '' ? 0 : Number(e.target.value))}
+                      label="利率倍数"
                       type="number"
                       fullWidth
-                      error={!!errors.interestRate}
-                      helperText={errors.interestRate?.message}
+                      error={!!errors.rateMultiplier}
+                      helperText={errors.rateMultiplier?.message || '罚息等上浮计息，如 LPR×1.5'}
                       InputProps={{
-                        inputProps: { min: 0, step: 0.01 }
+                        inputProps: { min: 0, step: 0.1 }
                       }}
                     />
                   )}
@@ -408,15 +434,15 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
 
               <Grid size={{ xs: 12, md: 4 }}>
                 <Controller
-                  name="rateType"
+                  name="dayCountConvention"
                   control={control}
                   render={({ field }) => (
                     <FormControl fullWidth>
-                      <InputLabel>利率类型</InputLabel>
-                      <Select {...field} label="利率类型">
-                        <MenuItem value="daily">日利率</MenuItem>
-                        <MenuItem value="monthly">月利率</MenuItem>
-                        <MenuItem value="yearly">年利率</MenuItem>
+                      <InputLabel>计息惯例</InputLabel>
+                      <Select {...field} label="计息惯例">
+                        <MenuItem value="actual/365">实际天数/365</MenuItem>
+                        <MenuItem value="actual/360">实际天数/360</MenuItem>
+                        <MenuItem value="30/360">30/360</MenuItem>
                       </Select>
                     </FormControl>
                   )}
@@ -463,6 +489,26 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                 />
               </Grid>
 
+              <Grid size={{ xs: 12, md: 4 }}>
+                <Controller
+                  name="acceptanceDate"
+                  control={control}
+                  render={({ field }) => (
+                    <DatePicker
+                      {...field}
+                      label="破产申请受理日"
+                      slotProps={{
+                        textField: {
+                          fullWidth: true,
+                          helperText: '计息截止于受理日',
+                        },
+                        field: { clearable: true },
+                      }}
+                    />
+                  )}
+                />
+              </Grid>
+
               {/* 复利选项 */}
               <Grid size={12}>
                 <Box display="flex" alignItems="center" gap={2}>
@@ -488,12 +534,11 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                       control={control}
                       render={({ field }) => (
                         <FormControl size="small" sx={{ minWidth: 120 }}>
-                          <InputLabel>复利频率</InputLabel>
-                          <Select {...field} label="复利频率">
-                            <MenuItem value="daily">按日</MenuItem>
+                          <InputLabel>结息周期</InputLabel>
+                          <Select {...field} label="结息周期">
                             <MenuItem value="monthly">按月</MenuItem>
                             <MenuItem value="quarterly">按季度</MenuItem>
-                            <MenuItem value="yearly">按年</MenuItem>
+                            <MenuItem value="annually">按年</MenuItem>
                           </Select>
                         </FormControl>
                       )}
@@ -524,6 +569,12 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
             </Grid>
           </form>
 
+          {calculationError && (
+            <Alert severity="error" sx={{ mt: 3 }}>
+              {calculationError}
+            </Alert>
+          )}
+
           {/* 计算结果展示 */}
           {calculationResult && (
             <>
@@ -533,6 +584,13 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                 计算结果
               </Typography>
 
+              {calculationResult.stoppedAtAcceptance && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  依据《企业破产法》第四十六条，附利息的债权自破产申请受理时起停止计息，
+                  利息计算截止于 {calculationResult.accrualEndDate?.toLocaleDateString()}
+                </Alert>
+              )}
+
               <Grid container spacing={2}>
                 <Grid size={{ xs: 12, md: 3 }}>
                   <Card variant="outlined">
@@ -554,14 +612,10 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                         利息
                       </Typography>
                       <Typography variant="h6" color="primary">
-                        {formatCurrency(
-                          calculationResult.isCompound 
-                            ? calculationResult.compoundInterest! 
-                            : calculationResult.simpleInterest
-                        )}
+                        {formatCurrency(calculationResult.interest)}
                       </Typography>
                       <Typography variant="caption">
-                        {calculationResult.isCompound ? '复利' : '单利'}
+                        {calculationResult.parameters.compoundFrequency !== 'none' ? '复利' : '单利'}
                       </Typography>
                     </CardContent>
                   </Card>
@@ -584,47 +638,51 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                   <Card variant="outlined">
                     <CardContent>
                       <Typography color="textSecondary" gutterBottom>
-                        日利息
+                        计息天数
                       </Typography>
                       <Typography variant="h6">
-                        {formatCurrency(calculationResult.dailyInterest)}
+                        {calculationResult.days} 天
                       </Typography>
                       <Typography variant="caption">
-                        {calculationResult.days} 天
+                        {calculationResult.breakdown.length} 个计息分段
                       </Typography>
                     </CardContent>
                   </Card>
                 </Grid>
               </Grid>
 
-              {/* 月度分解 */}
+              {/* 分段明细 */}
               <Accordion sx={{ mt: 2 }}>
                 <AccordionSummary expandIcon={<ExpandMoreIcon />}>
-                  <Typography>月度分解明细</Typography>
+                  <Typography>计息分段明细</Typography>
                 </AccordionSummary>
                 <AccordionDetails>
                   <TableContainer component={Paper} variant="outlined">
                     <Table size="small">
                       <TableHead>
                         <TableRow>
-                          <TableCell>月份</TableCell>
-                          <TableCell align="right">期初本金</TableCell>
+                          <TableCell>计息期间</TableCell>
+                          <TableCell align="right">计息本金</TableCell>
+                          <TableCell>适用利率</TableCell>
+                          <TableCell align="right">天数</TableCell>
                           <TableCell align="right">利息</TableCell>
-                          <TableCell align="right">期末本金</TableCell>
+                          <TableCell align="right">累计利息</TableCell>
                         </TableRow>
                       </TableHead>
                       <TableBody>
-                        {calculationResult.monthlyBreakdown.map((month, index) => (
+                        {calculationResult.breakdown.map((item, index) => (
                           <TableRow key={index}>
-                            <TableCell>{month.month}</TableCell>
+                            <TableCell>{item.period}</TableCell>
                             <TableCell align="right">
-                              {formatCurrency(month.principalStart)}
+                              {formatCurrency(item.principal)}
                             </TableCell>
+                            <TableCell>{item.rateDescription}</TableCell>
+                            <TableCell align="right">{item.days}</TableCell>
                             <TableCell align="right">
-                              {formatCurrency(month.interest)}
+                              {formatCurrency(item.interest)}
                             </TableCell>
                             <TableCell align="right">
-                              {formatCurrency(month.principalEnd)}
+                              {formatCurrency(item.cumulativeInterest)}
                             </TableCell>
                           </TableRow>
                         ))}
@@ -634,13 +692,12 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                 </AccordionDetails>
               </Accordion>
 
-              {/* 计算说明 */}
+              {/* 计算公式 */}
               <Alert severity="info" sx={{ mt: 2 }}>
-                <Typography variant="body2">
-                  <strong>计算公式：</strong> {calculationResult.formula}
-                </Typography>
-                <Typography variant="body2">
-                  <strong>计算说明：</strong> {calculationResult.explanation}
+                <Typography variant="body2" component="div" sx={{ whiteSpace: 'pre-line', wordBreak: 'break-all' }}>
+                  <strong>计算公式：</strong>
+                  {'\n'}
+                  {calculationResult.formula}
                 </Typography>
               </Alert>
             </>
@@ -671,9 +728,12 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
                         </Typography>
                         <Box display="flex" gap={1} mt={1}>
                           <Chip
-                            label={getRateTypeLabel(history.parameters.rateType)}
+                            label={history.parameters.rateSource === 'fixed' ? getRateTypeLabel(history.parameters.rateType) : '基准利率'}
                             size="small"
                           />
+                          {history.parameters.rateSource !== 'fixed' && (
+                            <Chip label={BENCHMARK_RATE_LABELS[history.parameters.rateSource]} size="small" />
+                          )}
                           {history.parameters.isCompound && (
                             <Chip label="复利" size="small" color="primary" />
                           )}
@@ -699,36 +759,52 @@ const InterestCalculatorComponent: React.FC<InterestCalculatorComponentProps> =
             单利计算
           </Typography>
           <Typography variant="body2" paragraph>
-            利息 = 本金 × 利率 × 时间
+            利息 = Σ 本金 × 年利率 × 计息天数 ÷ 年基准天数
           </Typography>
           <Typography variant="body2" paragraph>
-            总额 = 本金 + 利息
+            月利率按 ×12、日利率按 ×年基准天数 折算为年利率；实际天数/365 的年基准天数为 365，其余为 360。
           </Typography>
 
           <Typography variant="h6" gutterBottom>
             复利计算
           </Typography>
           <Typography variant="body2" paragraph>
-            A = P(1 + r/n)^(nt)
+            按结息周期（月/季/年）将上一周期利息计入本金，各分段利息 = 期初本息 × 年利率 × 计息天数 ÷ 年基准天数
+          </Typography>
+
+          <Typography variant="h6" gutterBottom>
+            基准利率与利率倍数
+          </Typography>
+          <Typography variant="body2" paragraph>
+            选择 LPR 或贷款基准利率时，按基准利率表在利率调整日分段计息；2019年8月20日前的期间按同期贷款基准利率计算。
+            利率倍数用于罚息等上浮计息，如 LPR×1.5。
+          </Typography>
+
+          <Typography variant="h6" gutterBottom>
+            停止计息
           </Typography>
           <Typography variant="body2" paragraph>
-            其中：
-            <br />
-            A = 最终金额
-            <br />
-            P = 本金
-            <br />
-            r = 年利率
-            <br />
-            n = 每年复利次数
-            <br />
-            t = 时间（年）
+            依据《企业破产法》第四十六条，附利息的债权自破产申请受理时起停止计息，计息截止于破产申请受理日。
+          </Typography>
+          <Typography variant="body2" paragraph>
+            各分段利息四舍五入到分后累加。
           </Typography>
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setShowFormula(false)}>关闭</Button>
         </DialogActions>
       </Dialog>
+
+      <BenchmarkRateTableDialog
+        open={showRateTable}
+        onClose={() => setShowRateTable(false)}
+        rates={benchmarkRates}
+        canEdit={hasRole('admin')}
+        onSave={async (rates) => {
+          await benchmarkRateService.saveRates(rates);
+          setBenchmarkRates(rates);
+        }}
+      />
     </LocalizationProvider>
   );
 };
@@ -25,10 +25,10 @@ import {
   Fullscreen as FullscreenIcon,
   Download as DownloadIcon,
 } from '@mui/icons-material';
-import { HighlightRegion } from '@/src/types/pdfParser';
+import { BoundingBox, HighlightRegion } from '@/src/types/pdfParser';
 
-// 设置PDF.js worker
-pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
+// 设置PDF.js worker（随应用打包，内网部署无需访问CDN）
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
 
 interface PDFPreviewComponentProps {
   fileUrl: string;
@@ -42,6 +42,9 @@ interface PDFPreviewComponentProps {
   initialScale?: number;
   enableControls?: boolean;
   enableHighlight?: boolean;
+  /** 开启后可在页面上拖拽框选区域，坐标为 PDF 点 */
+  enableRegionDrawing?: boolean;
+  onRegionDrawn?: (region: BoundingBox & { pageNumber: number }) => void;
   maxWidth?: number;
   _maxHeight?: number;
 }
@@ -58,6 +61,8 @@ const PDFPreviewComponent: React.FC<PDFPreviewComponentProps> = ({
   initialScale = 1.0,
   enableControls = true,
   enableHighlight = true,
+  enableRegionDrawing = false,
+  onRegionDrawn,
   maxWidth,
   _maxHeight,
 }) => {
@@ -65,21 +70,19 @@ const PDFPreviewComponent: React.FC<PDFPreviewComponentProps> = ({
   const [currentPage, setCurrentPage] = useState<number>(initialPage);
   const [scale, setScale] = useState<number>(initialScale);
   const [pageInputValue, setPageInputValue] = useState<string>(initialPage.toString());
-  const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [isFullscreen, setIsFullscreen] = useState<boolean>(false);
+  const [drawing, setDrawing] = useState<{ startX: number; startY: number; x: number; y: number } | null>(null);
 
   // 文档加载成功处理
   const handleDocumentLoadSuccess = useCallback((pdf: any) => {
     setNumPages(pdf.numPages);
-    setIsLoading(false);
     setError(null);
     onLoadSuccess?.(pdf.numPages);
   }, [onLoadSuccess]);
 
   // 文档加载错误处理
   const handleDocumentLoadError = useCallback((error: Error) => {
-    setIsLoading(false);
     setError(error.message);
     onLoadError?.(error);
   }, [onLoadError]);
@@ -186,6 +189,72 @@ const PDFPreviewComponent: React.FC<PDFPreviewComponentProps> = ({
     link.click();
   }, [fileUrl, fileName]);
 
+  // 框选区域：以按下点和当前点为对角
+  const pointerPosition = (event: React.PointerEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handleDrawStart = (event: React.PointerEvent<HTMLElement>) => {
+    const { x, y } = pointerPosition(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrawing({ startX: x, startY: y, x, y });
+  };
+
+  const handleDrawMove = (event: React.PointerEvent<HTMLElement>) => {
+    if (!drawing) return;
+    const { x, y } = pointerPosition(event);
+    setDrawing({ ...drawing, x, y });
+  };
+
+  const handleDrawEnd = () => {
+    if (!drawing) return;
+    const left = Math.min(drawing.startX, drawing.x);
+    const top = Math.min(drawing.startY, drawing.y);
+    const width = Math.abs(drawing.x - drawing.startX);
+    const height = Math.abs(drawing.y - drawing.startY);
+    setDrawing(null);
+    // 忽略误触的单击
+    if (width < 4 || height < 4) return;
+    onRegionDrawn?.({
+      pageNumber: currentPage,
+      x: left / scale,
+      y: top / scale,
+      width: width / scale,
+      height: height / scale,
+    });
+  };
+
+  const renderDrawingLayer = () => {
+    if (!enableRegionDrawing) return null;
+
+    return (
+      <Box
+        sx={{ position: 'absolute', inset: 0, cursor: 'crosshair', touchAction: 'none' }}
+        onPointerDown={handleDrawStart}
+        onPointerMove={handleDrawMove}
+        onPointerUp={handleDrawEnd}
+        onPointerCancel={() => setDrawing(null)}
+      >
+        {drawing && (
+          <Box
+            sx={{
+              position: 'absolute',
+              left: Math.min(drawing.startX, drawing.x),
+              top: Math.min(drawing.startY, drawing.y),
+              width: Math.abs(drawing.x - drawing.startX),
+              height: Math.abs(drawing.y - drawing.startY),
+              border: '2px dashed',
+              borderColor: 'primary.main',
+              backgroundColor: 'rgba(25, 118, 210, 0.1)',
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+      </Box>
+    );
+  };
+
   // 渲染高亮区域
   const renderHighlights = () => {
     if (!enableHighlight || currentPageHighlights.length === 0) {
@@ -201,7 +270,7 @@ const PDFPreviewComponent: React.FC<PDFPreviewComponentProps> = ({
           top: `${region.y * scale}px`,
           width: `${region.width * scale}px`,
           height: `${region.height * scale}px`,
-          backgroundColor: region.color || 'rgba(255, 255, 0, 0.3)',
+          backgroundColor: region.color ? `${region.color}33` : 'rgba(255, 255, 0, 0.3)',
           border: '2px solid',
           borderColor: region.color || 'orange',
           cursor: 'pointer',
@@ -374,8 +443,6 @@ const PDFPreviewComponent: React.FC<PDFPreviewComponentProps> = ({
           <Alert severity="error" sx={{ maxWidth: 400 }}>
             PDF加载失败: {error}
           </Alert>
-        ) : isLoading ? (
-          <CircularProgress />
         ) : (
           <Box sx={{ position: 'relative' }}>
             <Document
@@ -405,6 +472,8 @@ const PDFPreviewComponent: React.FC<PDFPreviewComponentProps> = ({
             
             {/* 高亮区域覆盖层 */}
             {renderHighlights()}
+            {/* 框选层位于高亮区域之上，已有区域上也能重新框选 */}
+            {renderDrawingLayer()}
           </Box>
         )}
       </Box>
@@ -117,16 +117,18 @@ const PDFUploadComponent: React.FC<PDFUploadComponentProps> = ({
         caseId,
         fileId: uploadedFile.id,
       }, {
-        onSuccess: () => {
+        onSuccess: (data) => {
+          const completedFile: UploadedFile = {
+            ...uploadedFile,
+            status: 'completed',
+            progress: 100,
+            uploadedAt: new Date(),
+            parseId: data.parseId,
+          };
           setUploadedFiles(prev => 
             prev.map(f => 
               f.id === uploadedFile.id 
-                ? { 
-                    ...f, 
-                    status: 'completed', 
-                    progress: 100,
-                    uploadedAt: new Date(),
-                  }
+                ? completedFile
                 : f
             )
           );
@@ -134,7 +136,7 @@ const PDFUploadComponent: React.FC<PDFUploadComponentProps> = ({
           
           // 通知父组件
           if (onFilesUploaded) {
-            onFilesUploaded(uploadedFiles.filter(f => f.status === 'completed'));
+            onFilesUploaded([completedFile]);
           }
         },
         onError: (error: any) => {
@@ -21,6 +21,7 @@ import {
   Stack,
   CircularProgress,
   Collapse,
+  Button,
 } from '@mui/material';
 import {
   Edit as EditIcon,
@@ -34,9 +35,11 @@ import {
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
   History as HistoryIcon,
+  NoteAdd as NoteAddIcon,
 } from '@mui/icons-material';
 import { ParseResult, ParsedField } from '@/src/types/pdfParser';
 import { useFieldUpdate } from '@/src/hooks/usePDFParser';
+import { canApplyToClaim } from '@/src/utils/claimPrefill';
 
 interface ParseResultComponentProps {
   parseResult: ParseResult | null;
@@ -49,6 +52,8 @@ interface ParseResultComponentProps {
   highlightLowConfidence?: boolean;
   confidenceThreshold?: number;
   onFieldHighlight?: (field: ParsedField) => void;
+  /** 由合同解析结果生成债权申报，仅在识别到本金时显示 */
+  onApplyToClaim?: (parseResult: ParseResult) => void;
 }
 
 type SortField = 'name' | 'confidence' | 'pageNumber' | 'dataType';
@@ -66,6 +71,7 @@ const ParseResultComponent: React.FC<ParseResultComponentProps> = ({
   highlightLowConfidence = true,
   confidenceThreshold = 0.8,
   onFieldHighlight,
+  onApplyToClaim,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<SortField>('confidence');
@@ -210,6 +216,17 @@ const ParseResultComponent: React.FC<ParseResultComponentProps> = ({
             )}
           </Typography>
 
+          {onApplyToClaim && parseResult && canApplyToClaim(parseResult) && (
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={<NoteAddIcon />}
+              onClick={() => onApplyToClaim(parseResult)}
+            >
+              生成债权申报
+            </Button>
+          )}
+
           {showSearch && (
             <TextField
               size="small"
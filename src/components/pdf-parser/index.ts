@@ -6,4 +6,8 @@ export { default as InterestCalculatorComponent } from './InterestCalculatorComp
 export { default as DocumentGeneratorComponent } from './DocumentGeneratorComponent';
 export { default as BatchProcessMonitor } from './BatchProcessMonitor';
 export { default as PDFParserErrorBoundary } from './PDFParserErrorBoundary';
-export { default as NetworkStatusMonitor } from './NetworkStatusMonitor';
\ No newline at end of file
+export { default as NetworkStatusMonitor } from './NetworkStatusMonitor';export { default as BenchmarkRateTableDialog } from './BenchmarkRateTableDialog';
+export { default as ApplyToClaimDialog } from './ApplyToClaimDialog';
+export { default as ExtractionTemplateDesigner } from './ExtractionTemplateDesigner';
+export { default as ExtractionTemplateTestPanel } from './ExtractionTemplateTestPanel';
+
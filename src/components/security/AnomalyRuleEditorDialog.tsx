@@ -0,0 +1,470 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, PlayArrow as PlayArrowIcon } from '@mui/icons-material';
+import { format, subDays } from 'date-fns';
+import { AuditEventType, RiskLevel } from '@/src/services/claimTrackingAuditService';
+import {
+  validateRule,
+  type AnomalyAction,
+  type AnomalyRule,
+  type AnomalyRuleService,
+  type AnomalyRuleType,
+  type RuleReplayReport,
+} from '@/src/services/anomalyRuleService';
+
+export const EVENT_TYPE_LABELS: Record<AuditEventType, string> = {
+  [AuditEventType.LOGIN]: '登录',
+  [AuditEventType.LOGOUT]: '登出',
+  [AuditEventType.ACCESS]: '访问',
+  [AuditEventType.OPERATION]: '操作',
+  [AuditEventType.PERMISSION_DENIED]: '权限拒绝',
+  [AuditEventType.DATA_EXPORT]: '数据导出',
+  [AuditEventType.SENSITIVE_ACCESS]: '敏感访问',
+  [AuditEventType.BULK_OPERATION]: '批量操作',
+  [AuditEventType.SYSTEM_ERROR]: '系统错误',
+};
+
+export const RULE_TYPE_LABELS: Record<AnomalyRuleType, string> = {
+  frequency: '频率',
+  threshold: '阈值',
+  pattern: '多IP模式',
+  time: '非工作时间',
+};
+
+export const ACTION_LABELS: Record<AnomalyAction, string> = {
+  notify: '通知管理员',
+  require_reauth: '要求重新认证',
+  lock_export: '锁定数据导出',
+};
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: '低风险',
+  [RiskLevel.MEDIUM]: '中风险',
+  [RiskLevel.HIGH]: '高风险',
+  [RiskLevel.CRITICAL]: '严重风险',
+};
+
+const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+const REPLAY_RANGES = [1, 7, 30];
+
+export const createEmptyRule = (): AnomalyRule => ({
+  id: `rule_${Date.now().toString(36)}`,
+  name: '',
+  description: '',
+  rule_type: 'frequency',
+  event_types: [],
+  filters: {},
+  threshold: 10,
+  time_window: 10,
+  role_baselines: {},
+  conditions: {},
+  risk_level: RiskLevel.MEDIUM,
+  actions: ['notify'],
+  enforcement_minutes: 60,
+  status: 'draft',
+});
+
+interface AnomalyRuleEditorDialogProps {
+  open: boolean;
+  rule: AnomalyRule | null;
+  service: AnomalyRuleService;
+  roleNames: string[];
+  onClose: () => void;
+  onSave: (rule: AnomalyRule, activate: boolean) => Promise<void>;
+}
+
+/**
+ * 异常检测规则编辑对话框
+ * 启用前必须用历史审计事件回放当前配置，修改配置后需要重新回放
+ */
+const AnomalyRuleEditorDialog: React.FC<AnomalyRuleEditorDialogProps> = ({
+  open,
+  rule,
+  service,
+  roleNames,
+  onClose,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<AnomalyRule>(createEmptyRule);
+  const [replayDays, setReplayDays] = useState(7);
+  const [report, setReport] = useState<RuleReplayReport | null>(null);
+  const [testedSnapshot, setTestedSnapshot] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(rule ? { ...rule } : createEmptyRule());
+      setReport(null);
+      setTestedSnapshot(null);
+      setError(null);
+    }
+  }, [open, rule]);
+
+  const errors = useMemo(() => validateRule(draft), [draft]);
+  const snapshot = JSON.stringify(draft);
+  const tested = testedSnapshot === snapshot;
+
+  const update = (patch: Partial<AnomalyRule>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateConditions = (patch: Partial<AnomalyRule['conditions']>) =>
+    setDraft(prev => ({ ...prev, conditions: { ...prev.conditions, ...patch } }));
+
+  const baselineEntries = Object.entries(draft.role_baselines);
+  const setBaselines = (entries: Array<[string, number]>) => update({ role_baselines: Object.fromEntries(entries) });
+
+  const handleReplay = async () => {
+    setTesting(true);
+    setError(null);
+    try {
+      const end = new Date();
+      setReport(await service.testRule(draft, { start: subDays(end, replayDays), end }));
+      setTestedSnapshot(snapshot);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '回放失败');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = async (activate: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(draft, activate);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberField = (label: string, value: number | undefined, onChange: (value: number) => void, helperText?: string) => (
+    <TextField
+      fullWidth
+      size="small"
+      type="number"
+      label={label}
+      value={value ?? ''}
+      onChange={event => onChange(Number(event.target.value))}
+      helperText={helperText}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={() => !saving && onClose()} maxWidth="md" fullWidth>
+      <DialogTitle>{rule ? '编辑异常检测规则' : '新建异常检测规则'}</DialogTitle>
+      <DialogContent dividers>
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <TextField fullWidth size="small" label="规则名称" value={draft.name} onChange={event => update({ name: event.target.value })} />
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>规则类型</InputLabel>
+              <Select
+                label="规则类型"
+                value={draft.rule_type}
+                onChange={event => update({ rule_type: event.target.value as AnomalyRuleType })}
+              >
+                {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>风险级别</InputLabel>
+              <Select
+                label="风险级别"
+                value={draft.risk_level}
+                onChange={event => update({ risk_level: event.target.value as RiskLevel })}
+              >
+                {Object.entries(RISK_LEVEL_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="说明"
+              value={draft.description}
+              onChange={event => update({ description: event.target.value })}
+            />
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 6 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>事件类型</InputLabel>
+              <Select
+                multiple
+                value={draft.event_types}
+                onChange={event => update({ event_types: event.target.value as AuditEventType[] })}
+                input={<OutlinedInput label="事件类型" />}
+                renderValue={selected => (selected.length === 0
+                  ? '全部事件'
+                  : selected.map(type => EVENT_TYPE_LABELS[type]).join('、'))}
+                displayEmpty
+              >
+                {Object.entries(EVENT_TYPE_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>
+                    <Checkbox size="small" checked={draft.event_types.includes(value as AuditEventType)} />
+                    {label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>事件结果</InputLabel>
+              <Select
+                label="事件结果"
+                value={draft.filters.result ?? ''}
+                onChange={event => update({
+                  filters: { ...draft.filters, result: (event.target.value || undefined) as AnomalyRule['filters']['result'] },
+                })}
+              >
+                <MenuItem value="">不限</MenuItem>
+                <MenuItem value="success">成功</MenuItem>
+                <MenuItem value="failure">失败</MenuItem>
+                <MenuItem value="denied">拒绝</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="资源类型"
+              placeholder="不限"
+              value={draft.filters.resource_type ?? ''}
+              onChange={event => update({ filters: { ...draft.filters, resource_type: event.target.value || undefined } })}
+            />
+          </Grid>
+
+          <Grid size={{ xs: 6, md: 3 }}>
+            {numberField(
+              draft.rule_type === 'pattern' ? '不同IP数阈值' : '事件数阈值',
+              draft.threshold,
+              value => update({ threshold: value })
+            )}
+          </Grid>
+          <Grid size={{ xs: 6, md: 3 }}>
+            {numberField('时间窗口（分钟）', draft.time_window, value => update({ time_window: value }))}
+          </Grid>
+          {draft.rule_type === 'pattern' && (
+            <Grid size={{ xs: 6, md: 3 }}>
+              {numberField('每个IP至少事件数', draft.conditions.min_events_per_ip ?? 1, value => updateConditions({ min_events_per_ip: value }))}
+            </Grid>
+          )}
+          {draft.rule_type === 'time' && (
+            <>
+              <Grid size={{ xs: 6, md: 3 }}>
+                {numberField('工作开始（时）', draft.conditions.work_hours_start ?? 9, value => updateConditions({ work_hours_start: value }))}
+              </Grid>
+              <Grid size={{ xs: 6, md: 3 }}>
+                {numberField('工作结束（时）', draft.conditions.work_hours_end ?? 18, value => updateConditions({ work_hours_end: value }))}
+              </Grid>
+              <Grid size={{ xs: 12 }}>
+                <FormGroup row>
+                  {WEEKDAY_LABELS.map((label, day) => {
+                    const days = draft.conditions.work_days ?? [1, 2, 3, 4, 5];
+                    return (
+                      <FormControlLabel
+                        key={day}
+                        label={label}
+                        control={(
+                          <Checkbox
+                            size="small"
+                            checked={days.includes(day)}
+                            onChange={event => updateConditions({
+                              work_days: event.target.checked
+                                ? [...days, day].sort()
+                                : days.filter(item => item !== day),
+                            })}
+                          />
+                        )}
+                      />
+                    );
+                  })}
+                </FormGroup>
+              </Grid>
+            </>
+          )}
+
+          <Grid size={{ xs: 12 }}>
+            <Typography variant="subtitle2">角色基线</Typography>
+            <Typography variant="caption" color="text.secondary">
+              为业务上需要更高频率的角色单独设置阈值，用户有多个角色时取最大值
+            </Typography>
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              {baselineEntries.map(([role, value], index) => (
+                <Stack key={index} direction="row" spacing={1} alignItems="center">
+                  <FormControl size="small" sx={{ minWidth: 200 }}>
+                    <InputLabel>角色</InputLabel>
+                    <Select
+                      label="角色"
+                      value={role}
+                      onChange={event => setBaselines(baselineEntries.map((entry, i) =>
+                        (i === index ? [event.target.value, entry[1]] : entry)))}
+                    >
+                      {roleNames
+                        .filter(name => name === role || !(name in draft.role_baselines))
+                        .map(name => <MenuItem key={name} value={name}>{name}</MenuItem>)}
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="阈值"
+                    value={value}
+                    onChange={event => setBaselines(baselineEntries.map((entry, i) =>
+                      (i === index ? [entry[0], Number(event.target.value)] : entry)))}
+                  />
+                  <IconButton
+                    size="small"
+                    aria-label={`删除 ${role} 基线`}
+                    onClick={() => setBaselines(baselineEntries.filter((_, i) => i !== index))}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Stack>
+              ))}
+              <Box>
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  disabled={roleNames.every(name => name in draft.role_baselines)}
+                  onClick={() => {
+                    const next = roleNames.find(name => !(name in draft.role_baselines));
+                    if (next) setBaselines([...baselineEntries, [next, draft.threshold]]);
+                  }}
+                >
+                  添加角色基线
+                </Button>
+              </Box>
+            </Stack>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 8 }}>
+            <Typography variant="subtitle2">触发后处置</Typography>
+            <FormGroup row>
+              {(Object.keys(ACTION_LABELS) as AnomalyAction[]).map(action => (
+                <FormControlLabel
+                  key={action}
+                  label={ACTION_LABELS[action]}
+                  control={(
+                    <Checkbox
+                      size="small"
+                      checked={draft.actions.includes(action)}
+                      onChange={event => update({
+                        actions: event.target.checked
+                          ? [...draft.actions, action]
+                          : draft.actions.filter(item => item !== action),
+                      })}
+                    />
+                  )}
+                />
+              ))}
+            </FormGroup>
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            {numberField('处置时长（分钟）', draft.enforcement_minutes, value => update({ enforcement_minutes: value }), '重新认证和锁定导出的有效时长')}
+          </Grid>
+        </Grid>
+
+        <Divider sx={{ my: 2 }} />
+
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+          <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>回放测试</Typography>
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel>历史范围</InputLabel>
+            <Select label="历史范围" value={replayDays} onChange={event => setReplayDays(Number(event.target.value))}>
+              {REPLAY_RANGES.map(days => <MenuItem key={days} value={days}>最近 {days} 天</MenuItem>)}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            onClick={handleReplay}
+            disabled={testing || errors.length > 0}
+            startIcon={testing ? <CircularProgress size={16} /> : <PlayArrowIcon />}
+          >
+            回放
+          </Button>
+        </Stack>
+
+        {report && (
+          <Box>
+            {!tested && (
+              <Alert severity="info" sx={{ mb: 1 }}>规则已修改，启用前请重新回放</Alert>
+            )}
+            <Typography variant="body2" gutterBottom>
+              共回放 {report.eventsScanned} 个事件，其中 {report.matchedEvents} 个符合规则范围，
+              将触发 {report.triggers.length} 次告警，涉及 {report.affectedUsers.length} 个用户
+            </Typography>
+            <Stack direction="row" spacing={1} flexWrap="wrap" sx={{ mb: 1 }}>
+              {report.affectedUsers.slice(0, 5).map(user => (
+                <Chip key={user.user_id} size="small" label={`${user.user_id} × ${user.count}`} />
+              ))}
+            </Stack>
+            {report.triggers.slice(0, 5).map((trigger, index) => (
+              <Typography key={index} variant="caption" color="text.secondary" display="block">
+                {format(trigger.triggered_at, 'MM-dd HH:mm')} · {trigger.description}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
+        {errors.length > 0 && <Alert severity="warning" sx={{ mt: 2 }}>{errors.join('；')}</Alert>}
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>取消</Button>
+        <Button onClick={() => handleSave(false)} disabled={saving || errors.length > 0}>
+          保存为草稿
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => handleSave(true)}
+          disabled={saving || errors.length > 0 || !tested}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          保存并启用
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AnomalyRuleEditorDialog;
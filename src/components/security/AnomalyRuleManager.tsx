@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Block as BlockIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  LockOpen as LockOpenIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import type {
+  AnomalyRule,
+  AnomalyRuleService,
+  AnomalyRuleStatus,
+  SecurityEnforcement,
+} from '@/src/services/anomalyRuleService';
+import AnomalyRuleEditorDialog, {
+  ACTION_LABELS,
+  EVENT_TYPE_LABELS,
+  RISK_LEVEL_LABELS,
+  RULE_TYPE_LABELS,
+} from './AnomalyRuleEditorDialog';
+
+const STATUS_LABELS: Record<AnomalyRuleStatus, { label: string; color: 'success' | 'default' | 'warning' }> = {
+  active: { label: '已启用', color: 'success' },
+  draft: { label: '草稿', color: 'warning' },
+  disabled: { label: '已停用', color: 'default' },
+};
+
+interface AnomalyRuleManagerProps {
+  service: AnomalyRuleService;
+  onRulesChanged?: () => void;
+}
+
+/**
+ * 异常检测规则列表与生效中的处置
+ * 草稿和已停用的规则需在编辑对话框中回放测试后才能启用
+ */
+const AnomalyRuleManager: React.FC<AnomalyRuleManagerProps> = ({ service, onRulesChanged }) => {
+  const [rules, setRules] = useState<AnomalyRule[]>([]);
+  const [enforcements, setEnforcements] = useState<SecurityEnforcement[]>([]);
+  const [roleNames, setRoleNames] = useState<string[]>([]);
+  const [editing, setEditing] = useState<AnomalyRule | null>(null);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const [loadedRules, loadedEnforcements, loadedRoles] = await Promise.all([
+        service.loadRules(),
+        service.loadActiveEnforcements(),
+        service.loadRoleNames(),
+      ]);
+      setRules(loadedRules);
+      setEnforcements(loadedEnforcements);
+      setRoleNames(loadedRoles);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载异常检测规则失败');
+    }
+  }, [service]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAndReload = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      onRulesChanged?.();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '操作失败');
+    }
+  };
+
+  const handleSave = async (rule: AnomalyRule, activate: boolean) => {
+    await service.saveRule(rule, activate ? 'active' : 'draft');
+    onRulesChanged?.();
+    await load();
+  };
+
+  const openEditor = (rule: AnomalyRule | null) => {
+    setEditing(rule);
+    setEditorOpen(true);
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          规则按租户保存，修改后一分钟内生效
+        </Typography>
+        <Button variant="contained" size="small" startIcon={<AddIcon />} onClick={() => openEditor(null)}>
+          新建规则
+        </Button>
+      </Stack>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <TableContainer component={Paper} variant="outlined" sx={{ mb: 3 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>规则</TableCell>
+              <TableCell>类型</TableCell>
+              <TableCell>事件</TableCell>
+              <TableCell>阈值 / 窗口</TableCell>
+              <TableCell>风险</TableCell>
+              <TableCell>处置</TableCell>
+              <TableCell>状态</TableCell>
+              <TableCell align="right">操作</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rules.map(rule => (
+              <TableRow key={rule.id} hover>
+                <TableCell>
+                  <Typography variant="body2">{rule.name}</Typography>
+                  <Typography variant="caption" color="text.secondary">{rule.description}</Typography>
+                </TableCell>
+                <TableCell>{RULE_TYPE_LABELS[rule.rule_type]}</TableCell>
+                <TableCell>
+                  {rule.event_types.length === 0 ? '全部' : rule.event_types.map(type => EVENT_TYPE_LABELS[type] || type).join('、')}
+                </TableCell>
+                <TableCell>
+                  {rule.threshold} 次 / {rule.time_window} 分钟
+                  {Object.keys(rule.role_baselines).length > 0 && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {Object.keys(rule.role_baselines).length} 个角色基线
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{RISK_LEVEL_LABELS[rule.risk_level] || rule.risk_level}</TableCell>
+                <TableCell>
+                  {rule.actions.length === 0 ? '仅记录' : rule.actions.map(action => ACTION_LABELS[action]).join('、')}
+                </TableCell>
+                <TableCell>
+                  <Chip size="small" label={STATUS_LABELS[rule.status].label} color={STATUS_LABELS[rule.status].color} />
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title={rule.status === 'active' ? '编辑' : '编辑并回放后启用'}>
+                    <IconButton size="small" onClick={() => openEditor(rule)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  {rule.status === 'active' && (
+                    <Tooltip title="停用">
+                      <IconButton size="small" onClick={() => runAndReload(() => service.setRuleStatus(rule.id, 'disabled'))}>
+                        <BlockIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title="删除">
+                    <IconButton size="small" onClick={() => runAndReload(() => service.deleteRule(rule.id))}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+            {rules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} align="center">
+                  <Typography variant="body2" color="text.secondary">暂无规则，将使用系统默认规则</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Typography variant="subtitle1" gutterBottom>生效中的处置</Typography>
+      {enforcements.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">暂无</Typography>
+      ) : (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>用户</TableCell>
+                <TableCell>处置</TableCell>
+                <TableCell>原因</TableCell>
+                <TableCell>到期时间</TableCell>
+                <TableCell align="right">操作</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {enforcements.map(item => (
+                <TableRow key={String(item.id)}>
+                  <TableCell>{item.user_name || String(item.user_id)}</TableCell>
+                  <TableCell>{ACTION_LABELS[item.action]}</TableCell>
+                  <TableCell>{item.reason}</TableCell>
+                  <TableCell>{format(new Date(item.expires_at), 'MM-dd HH:mm')}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="解除">
+                      <IconButton size="small" onClick={() => runAndReload(() => service.resolveEnforcement(item.id))}>
+                        <LockOpenIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <AnomalyRuleEditorDialog
+        open={editorOpen}
+        rule={editing}
+        service={service}
+        roleNames={roleNames}
+        onClose={() => setEditorOpen(false)}
+        onSave={handleSave}
+      />
+    </Box>
+  );
+};
+
+export default AnomalyRuleManager;
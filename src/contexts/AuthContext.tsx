@@ -16,6 +16,8 @@ import { strToId } from "@/src/utils/id";
 import { User as OidcUser } from "oidc-client-ts";
 import { RecordId } from "surrealdb";
 import { menuService } from "@/src/services/menuService";
+import { fieldPolicyService } from "@/src/services/fieldPolicyService";
+import { SESSION_EXPIRED_EVENT } from "@/src/lib/sessionEvents";
 
 // Matches AppUser in authService and user table in SurrealDB
 export interface AppUser {
@@ -575,6 +577,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       setUserCases([]);
       setCurrentUserCaseRoles([]);
       setNavMenuItems([]);
+      fieldPolicyService.clearRoles();
 
       // 只有在明确需要时才调用 invalidate
       if (shouldInvalidate) {
@@ -684,10 +687,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       console.log("AuthContext: 收到认证状态变化事件:", { isAuthenticated });
 
       if (!isAuthenticated) {
-        console.log("AuthContext: 用户认证失效，清除状态并重定向");
-        clearAuthState(true);
-        if (window.location.pathname !== "/login") {
-          window.location.href = "/login";
+        if (user) {
+          // 不直接跳转登录页，由会话过期对话框重新登录，保留页面上未保存的内容
+          console.log("AuthContext: 用户认证失效，提示重新登录");
+          window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+        } else {
+          clearAuthState(true);
         }
       }
     };
@@ -703,7 +708,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
         handleAuthStateChange as EventListener,
       );
     };
-  }, [clearAuthState]);
+  }, [clearAuthState, user]);
 
   const setAuthState = (
     appUser: AppUser,
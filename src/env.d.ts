@@ -10,6 +10,7 @@ interface ImportMetaEnv {
   readonly VITE_OIDC_REDIRECT_URI: string;
   readonly VITE_OIDC_POST_LOGOUT_REDIRECT_URI: string;
   readonly VITE_TURNSTILE_SITE_KEY: string;
+  readonly VITE_PDF_PARSER_MODE?: 'local' | 'remote';
 }
 
 interface ImportMeta {
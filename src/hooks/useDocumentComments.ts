@@ -0,0 +1,327 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type Quill from 'quill';
+import Delta from 'quill-delta';
+import { RecordId } from 'surrealdb';
+import { DocumentCommentService } from '@/src/services/documentCommentService';
+import {
+  COMMENT_THREAD_FORMAT,
+  SUGGEST_DELETE_FORMAT,
+  SUGGEST_INSERT_FORMAT,
+  buildFormatRemoval,
+  buildSuggestionResolution,
+  findFormatRanges,
+  getCommentKey,
+  locateAnchor,
+  trackSuggestionChange
+} from '@/src/utils/documentSuggestions';
+import type { TrackedSuggestion } from '@/src/utils/documentSuggestions';
+import type { CommentSelection, DocumentCommentThread } from '@/src/types/documentComment';
+
+// 连续输入结束后再保存修改建议
+const SUGGESTION_SAVE_DELAY_MS = 600;
+
+export interface DocumentCommentThreadView extends DocumentCommentThread {
+  /** 正文中标记的键 */
+  key: string;
+  /** 当前在正文中的位置，标记已不存在时为 null */
+  anchor: CommentSelection | null;
+}
+
+interface UseDocumentCommentsOptions {
+  enabled: boolean;
+  client: unknown;
+  documentId?: string;
+  userName?: string;
+  getQuill: () => Quill | null;
+  /** 编辑器是否已创建 */
+  ready: boolean;
+  /** 是否可以修改正文（只读时仅能在批注面板中讨论） */
+  editable: boolean;
+  /** 建议模式：本地修改记录为修改建议 */
+  suggestMode: boolean;
+}
+
+/**
+ * 编辑器批注线程与建议模式：批注锚点和修改建议以行内格式保存在正文中，
+ * 批注内容、回复和处理结果保存在 document_comment 表
+ */
+export function useDocumentComments({
+  enabled,
+  client,
+  documentId,
+  userName,
+  getQuill,
+  ready,
+  editable,
+  suggestMode
+}: UseDocumentCommentsOptions) {
+  const service = useMemo(() => new DocumentCommentService(client), [client]);
+  const [threads, setThreads] = useState<DocumentCommentThread[]>([]);
+  const [anchors, setAnchors] = useState<Record<string, CommentSelection>>({});
+  const [draft, setDraft] = useState<CommentSelection | null>(null);
+  const [activeThreadKey, setActiveThreadKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const ownSuggestionIdsRef = useRef(new Set<string>());
+  const pendingSuggestionsRef = useRef(new Map<string, TrackedSuggestion>());
+
+  const active = enabled && !!documentId && ready;
+
+  const refreshAnchors = useCallback(() => {
+    const quill = getQuill();
+    if (!quill) return;
+    const contents = quill.getContents();
+    const next: Record<string, CommentSelection> = {};
+    [COMMENT_THREAD_FORMAT, SUGGEST_INSERT_FORMAT, SUGGEST_DELETE_FORMAT].forEach(format => {
+      findFormatRanges(contents, format).forEach((range, key) => {
+        next[key] = range;
+      });
+    });
+    setAnchors(next);
+  }, [getQuill]);
+
+  const loadThreads = useCallback(async () => {
+    if (!active || !documentId) return;
+    try {
+      setThreads(await service.listThreads(documentId));
+      setError(null);
+    } catch (err) {
+      console.error('加载文档批注失败:', err);
+      setError('加载批注失败');
+    }
+  }, [active, documentId, service]);
+
+  useEffect(() => {
+    if (!active || !documentId) return;
+    let unsubscribe: (() => void) | null = null;
+    let disposed = false;
+    loadThreads();
+    refreshAnchors();
+    service
+      .subscribe(documentId, () => loadThreads())
+      .then(cleanup => {
+        if (disposed) cleanup();
+        else unsubscribe = cleanup;
+      })
+      .catch(err => console.error('订阅文档批注失败:', err));
+    return () => {
+      disposed = true;
+      unsubscribe?.();
+    };
+  }, [active, documentId, service, loadThreads, refreshAnchors]);
+
+  // 正文中的标记丢失时（如内容被整体替换）按原文重新定位未解决的批注
+  useEffect(() => {
+    const quill = getQuill();
+    if (!active || !editable || !quill || !documentId) return;
+    const contents = quill.getContents();
+    const marked = findFormatRanges(contents, COMMENT_THREAD_FORMAT);
+    threads
+      .filter(thread => thread.comment_type === 'comment' && !thread.resolved_at && thread.selection_details)
+      .forEach(thread => {
+        const key = getCommentKey(thread.id);
+        if (marked.has(key)) return;
+        const selection = thread.resolved_selection ?? thread.selection_details!;
+        const anchor = locateAnchor(contents, selection);
+        if (!anchor) return;
+        quill.formatText(anchor.index, anchor.length, COMMENT_THREAD_FORMAT, key, 'api');
+        service
+          .updateAnchor(thread.id, { ...anchor, text: selection.text })
+          .catch(err => console.error('更新批注位置失败:', err));
+      });
+    refreshAnchors();
+  }, [active, editable, documentId, threads, getQuill, service, refreshAnchors]);
+
+  // 保存建议模式下产生或变化的修改建议
+  const flushSuggestions = useCallback(async () => {
+    const quill = getQuill();
+    if (!quill || !documentId) return;
+    const contents = quill.getContents();
+    const pending = Array.from(pendingSuggestionsRef.current.values());
+    pendingSuggestionsRef.current.clear();
+    const ranges = {
+      insert: findFormatRanges(contents, SUGGEST_INSERT_FORMAT),
+      delete: findFormatRanges(contents, SUGGEST_DELETE_FORMAT)
+    };
+    await Promise.all(pending.map(async suggestion => {
+      const selection = ranges[suggestion.action].get(suggestion.id);
+      const id = new RecordId('document_comment', suggestion.id);
+      try {
+        if (selection) {
+          await service.saveSuggestion({ id, document_id: documentId, action: suggestion.action, selection, user_name: userName });
+        } else {
+          // 建议者删除了自己建议插入的全部文字
+          await service.deleteSuggestion(id);
+          ownSuggestionIdsRef.current.delete(suggestion.id);
+        }
+      } catch (err) {
+        console.error('保存修改建议失败:', err);
+      }
+    }));
+    loadThreads();
+  }, [documentId, getQuill, loadThreads, service, userName]);
+
+  useEffect(() => {
+    const quill = getQuill();
+    if (!active || !quill) return;
+
+    let backward = false;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      backward = event.key === 'Backspace';
+    };
+
+    const handleTextChange = (delta: Delta, oldContents: Delta, source: string) => {
+      if (source === 'user' && suggestMode && editable) {
+        const result = trackSuggestionChange(delta, oldContents, {
+          ownIds: ownSuggestionIdsRef.current,
+          createId: () => crypto.randomUUID(),
+          backward
+        });
+        result.touched.forEach(suggestion => {
+          ownSuggestionIdsRef.current.add(suggestion.id);
+          pendingSuggestionsRef.current.set(`${suggestion.action}:${suggestion.id}`, suggestion);
+        });
+        if (result.fixup.ops.length > 0) {
+          quill.updateContents(result.fixup, 'api');
+        }
+        if (result.cursor !== null) {
+          quill.setSelection(result.cursor, 0, 'silent');
+        }
+        if (pendingSuggestionsRef.current.size > 0) {
+          if (saveTimer) clearTimeout(saveTimer);
+          saveTimer = setTimeout(() => {
+            saveTimer = null;
+            flushSuggestions();
+          }, SUGGESTION_SAVE_DELAY_MS);
+        }
+      }
+      refreshAnchors();
+    };
+
+    quill.root.addEventListener('keydown', handleKeyDown);
+    quill.on('text-change', handleTextChange);
+    return () => {
+      quill.root.removeEventListener('keydown', handleKeyDown);
+      quill.off('text-change', handleTextChange);
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        flushSuggestions();
+      }
+    };
+  }, [active, editable, suggestMode, getQuill, flushSuggestions, refreshAnchors]);
+
+  /**
+   * 以当前选区开始新批注，未选中文字时返回 false
+   */
+  const startComment = useCallback((): boolean => {
+    const quill = getQuill();
+    const range = quill?.getSelection(true);
+    if (!quill || !range || range.length === 0) {
+      return false;
+    }
+    setDraft({ index: range.index, length: range.length, text: quill.getText(range.index, range.length) });
+    return true;
+  }, [getQuill]);
+
+  const cancelDraft = useCallback(() => setDraft(null), []);
+
+  const submitDraft = useCallback(async (commentText: string) => {
+    const quill = getQuill();
+    if (!quill || !draft || !documentId) return;
+    const key = crypto.randomUUID();
+    await service.createComment({
+      id: new RecordId('document_comment', key),
+      document_id: documentId,
+      comment_text: commentText,
+      selection: draft,
+      user_name: userName
+    });
+    if (editable) {
+      quill.formatText(draft.index, draft.length, COMMENT_THREAD_FORMAT, key, 'api');
+    }
+    setDraft(null);
+    setActiveThreadKey(key);
+    await loadThreads();
+  }, [documentId, draft, editable, getQuill, loadThreads, service, userName]);
+
+  const reply = useCallback(async (thread: DocumentCommentThread, commentText: string) => {
+    await service.reply(thread.id, commentText, userName);
+    await loadThreads();
+  }, [loadThreads, service, userName]);
+
+  const resolveThread = useCallback(async (thread: DocumentCommentThread) => {
+    const quill = getQuill();
+    const key = getCommentKey(thread.id);
+    await service.resolveThread(thread.id, anchors[key]);
+    if (quill && editable) {
+      const removal = buildFormatRemoval(quill.getContents(), COMMENT_THREAD_FORMAT, key);
+      if (removal.ops.length > 0) {
+        quill.updateContents(removal, 'api');
+      }
+    }
+    await loadThreads();
+  }, [anchors, editable, getQuill, loadThreads, service]);
+
+  const reopenThread = useCallback(async (thread: DocumentCommentThread) => {
+    await service.reopenThread(thread.id);
+    // 标记在未解决批注加载后按原文重新定位
+    await loadThreads();
+  }, [loadThreads, service]);
+
+  /**
+   * 采纳或拒绝修改建议，并相应修改正文
+   */
+  const decideSuggestion = useCallback(async (thread: DocumentCommentThread, accept: boolean) => {
+    const quill = getQuill();
+    await service.decideSuggestion(thread.id, accept ? 'accepted' : 'rejected');
+    if (quill && editable) {
+      const resolution = buildSuggestionResolution(quill.getContents(), getCommentKey(thread.id), accept);
+      if (resolution.ops.length > 0) {
+        quill.updateContents(resolution, 'api');
+      }
+    }
+    await loadThreads();
+  }, [editable, getQuill, loadThreads, service]);
+
+  /**
+   * 选中批注线程并在正文中定位
+   */
+  const focusThread = useCallback((thread: DocumentCommentThread) => {
+    const key = getCommentKey(thread.id);
+    setActiveThreadKey(key);
+    const anchor = anchors[key];
+    const quill = getQuill();
+    if (quill && anchor) {
+      quill.setSelection(anchor.index, anchor.length, 'silent');
+      quill.scrollSelectionIntoView();
+    }
+  }, [anchors, getQuill]);
+
+  // 未解决的在前，按正文位置排序；找不到位置的排在最后
+  const threadViews = useMemo<DocumentCommentThreadView[]>(() => threads
+    .map(thread => {
+      const key = getCommentKey(thread.id);
+      return { ...thread, key, anchor: anchors[key] ?? null };
+    })
+    .sort((a, b) => {
+      if (!!a.resolved_at !== !!b.resolved_at) return a.resolved_at ? 1 : -1;
+      return (a.anchor?.index ?? Number.MAX_SAFE_INTEGER) - (b.anchor?.index ?? Number.MAX_SAFE_INTEGER);
+    }), [threads, anchors]);
+
+  return {
+    threads: threadViews,
+    draft,
+    activeThreadKey,
+    error,
+    startComment,
+    cancelDraft,
+    submitDraft,
+    reply,
+    resolveThread,
+    reopenThread,
+    decideSuggestion,
+    focusThread
+  };
+}
@@ -0,0 +1,30 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { fieldPolicyService, type FieldAccess } from '@/src/services/fieldPolicyService';
+
+/**
+ * 订阅当前用户的角色，角色加载或清除后触发重新渲染
+ */
+export function useFieldPolicySnapshot() {
+  return useSyncExternalStore(fieldPolicyService.subscribe, fieldPolicyService.getSnapshot);
+}
+
+/**
+ * 获取表字段在指定案件中的访问级别，供表格和表单隐藏字段、禁用控件
+ * @param table 表名，如 'creditor'
+ * @param caseId 记录所属案件
+ */
+export function useFieldPolicy(table: string, caseId?: unknown) {
+  const snapshot = useFieldPolicySnapshot();
+
+  return useMemo(() => {
+    const access = snapshot ? fieldPolicyService.getTableAccess(table, caseId) : {};
+    const getAccess = (field: string): FieldAccess => access[field] ?? 'editable';
+
+    return {
+      access,
+      getAccess,
+      isVisible: (field: string) => getAccess(field) !== 'hidden',
+      isEditable: (field: string) => getAccess(field) === 'editable',
+    };
+  }, [snapshot, table, caseId]);
+}
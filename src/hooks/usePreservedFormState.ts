@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { SESSION_EXPIRED_EVENT, SESSION_REFRESHED_EVENT } from '@/src/lib/sessionEvents';
+
+const STORAGE_PREFIX = 'cuckoox-preserved-form:';
+
+/**
+ * 会话过期时保存未提交的表单状态
+ * - 会话过期时写入 sessionStorage，若用户选择前往登录页，回到页面后自动恢复
+ * - 在重新登录对话框中恢复会话后清除保存的状态（页面未卸载，表单仍在）
+ * 状态需可被 JSON 序列化
+ */
+export function usePreservedFormState<T>(key: string, state: T, restore: (state: T) => void): void {
+  const storageKey = `${STORAGE_PREFIX}${key}`;
+  const stateRef = useRef(state);
+  const restoreRef = useRef(restore);
+  stateRef.current = state;
+  restoreRef.current = restore;
+
+  useEffect(() => {
+    const saved = sessionStorage.getItem(storageKey);
+    if (saved) {
+      sessionStorage.removeItem(storageKey);
+      try {
+        restoreRef.current(JSON.parse(saved) as T);
+      } catch (error) {
+        console.warn('恢复表单状态失败:', error);
+      }
+    }
+
+    const handleExpired = () => {
+      sessionStorage.setItem(storageKey, JSON.stringify(stateRef.current));
+    };
+    const handleRefreshed = () => {
+      sessionStorage.removeItem(storageKey);
+    };
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    window.addEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+    return () => {
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+      window.removeEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+    };
+  }, [storageKey]);
+}
@@ -80,6 +80,7 @@ const resources = {
       "nav_creditor_management": "债权人管理",
       "nav_claim_management": "债权申报与审核",
       "nav_online_meetings": "在线会议",
+      "nav_case_calendar": "期限日历",
       "nav_message_center": "消息中心",
       "nav_system_management": "系统管理",
       "nav_case_member_management": "成员管理",
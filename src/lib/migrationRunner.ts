@@ -0,0 +1,298 @@
+/**
+ * 数据库结构迁移执行器
+ * 服务端租户库与 Service Worker 本地缓存库共用，不依赖路径别名，可在 Worker 中以相对路径引入
+ */
+
+/** 一个迁移脚本，id 即版本号，按 id 顺序执行 */
+export interface Migration {
+  id: string;
+  description: string;
+  content: string;
+  /**
+   * 取代本迁移的后续迁移。已执行的迁移不能修改，脚本无法在当前数据库版本执行时由后续迁移重新定义其内容；
+   * 尚未执行本迁移的库不再执行脚本，只在执行取代迁移的事务中写入本迁移的执行记录
+   */
+  supersededBy?: string;
+}
+
+/** 迁移执行记录 */
+export interface MigrationRecord {
+  version: string;
+  description: string;
+  /** 执行时脚本内容的 SHA-256，脚本自行写入的早期记录可能为空 */
+  checksum?: string;
+  applied_at: string;
+}
+
+/** 执行 SurrealQL 的对象，Surreal 实例或后端租户查询接口均可，返回每条语句的结果 */
+export interface MigrationExecutor {
+  query(sql: string, vars?: Record<string, unknown>): Promise<unknown[]>;
+}
+
+export interface MigrationStatus {
+  applied: MigrationRecord[];
+  pending: Migration[];
+  current: string | null;
+  latest: string | null;
+}
+
+export interface DryRunResult {
+  /** 目标库将要执行的迁移 */
+  pending: string[];
+  /** 在临时库中从头执行成功的迁移 */
+  verified: string[];
+}
+
+export interface MigrationRunnerOptions {
+  /** 执行记录表名 */
+  table?: string;
+  /**
+   * 库中已有数据表但没有执行记录时仍从头执行迁移，只用于全部迁移可重复执行的库（如本地缓存库）
+   * 默认拒绝执行，需先用 baseline 登记已执行的迁移
+   */
+  adoptExisting?: boolean;
+}
+
+export const DEFAULT_MIGRATION_TABLE = 'schema_migrations';
+
+export class MigrationError extends Error {
+  /** 数据库返回的原始错误 */
+  readonly cause?: unknown;
+
+  constructor(
+    public readonly migrationId: string,
+    message: string = `执行迁移 ${migrationId} 失败`,
+    options: { cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+    this.cause = options.cause;
+  }
+}
+
+/** 已执行的迁移脚本被修改 */
+export class MigrationChecksumError extends MigrationError {
+  constructor(migrationId: string) {
+    super(migrationId, `迁移 ${migrationId} 执行后被修改，请新增迁移而不是修改已执行的脚本`);
+    this.name = 'MigrationChecksumError';
+  }
+}
+
+/** 执行记录与库的实际状态对不上：记录缺少校验和、中间有未记录的迁移，或库中已有数据表却没有记录 */
+export class MigrationHistoryError extends MigrationError {
+  constructor(migrationId: string, message: string) {
+    super(migrationId, message);
+    this.name = 'MigrationHistoryError';
+  }
+}
+
+/**
+ * 计算脚本校验和，忽略换行符差异
+ */
+export async function computeChecksum(content: string): Promise<string> {
+  const data = new TextEncoder().encode(content.replace(/\r\n/g, '\n'));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class MigrationRunner {
+  private readonly table: string;
+  private readonly adoptExisting: boolean;
+  private readonly migrations: Migration[];
+
+  constructor(
+    private readonly executor: MigrationExecutor,
+    migrations: Migration[],
+    options: MigrationRunnerOptions = {}
+  ) {
+    this.table = options.table ?? DEFAULT_MIGRATION_TABLE;
+    this.adoptExisting = options.adoptExisting ?? false;
+    this.migrations = [...migrations].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * 查询迁移状态，已执行的脚本被修改时抛出 MigrationChecksumError
+   */
+  async status(): Promise<MigrationStatus> {
+    const records = await this.getRecords();
+    const recordByVersion = new Map(records.map(record => [record.version, record]));
+    const pending: Migration[] = [];
+
+    for (const migration of this.migrations) {
+      const record = recordByVersion.get(migration.id);
+      if (!record) {
+        pending.push(migration);
+      } else if (record.checksum && record.checksum !== await computeChecksum(migration.content)) {
+        throw new MigrationChecksumError(migration.id);
+      }
+    }
+
+    return {
+      applied: records,
+      pending,
+      current: records.length > 0 ? records[records.length - 1].version : null,
+      latest: this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].id : null,
+    };
+  }
+
+  /**
+   * 按顺序执行未执行的迁移，每个迁移与其执行记录在同一事务中提交，失败时停止
+   * 被取代的迁移不执行，其执行记录随取代它的迁移一起写入
+   * @returns 本次执行的迁移版本号
+   */
+  async migrate(): Promise<string[]> {
+    await this.ensureTable();
+    const { applied: records, pending } = await this.status();
+    await this.checkHistory(records, pending);
+
+    const pendingIds = new Set(pending.map(migration => migration.id));
+    const applied: string[] = [];
+    for (const migration of pending) {
+      if (migration.supersededBy && pendingIds.has(migration.supersededBy)) continue;
+      await this.apply(migration, pending.filter(item => item.supersededBy === migration.id));
+      applied.push(migration.id);
+    }
+    return applied;
+  }
+
+  /**
+   * 登记基线：将指定版本及之前的迁移记为已执行并写入校验和，不执行脚本
+   * 用于接入迁移工具之前已按脚本建好结构的库，以及重新记录缺少校验和的记录；调用方需先核对库结构与脚本一致
+   * @returns 本次登记的迁移版本号
+   */
+  async baseline(version: string): Promise<string[]> {
+    if (!this.migrations.some(migration => migration.id === version)) {
+      throw new MigrationError(version, `迁移 ${version} 不存在`);
+    }
+    await this.ensureTable();
+    const { applied: records } = await this.status();
+    const verified = new Set(records.filter(record => record.checksum).map(record => record.version));
+    const recorded = this.migrations.filter(migration => migration.id <= version && !verified.has(migration.id));
+    if (recorded.length === 0) return [];
+
+    try {
+      await this.executor.query(
+        ['BEGIN TRANSACTION;', this.recordStatement(), 'COMMIT TRANSACTION;'].join('\n'),
+        { records: await this.toRecords(recorded) }
+      );
+    } catch (error) {
+      console.error(`登记迁移基线 ${version} 失败:`, error);
+      throw new MigrationError(version, `登记迁移基线 ${version} 失败: ${describeError(error)}`, { cause: error });
+    }
+    return recorded.map(migration => migration.id);
+  }
+
+  /**
+   * 演练：检查目标库的迁移状态，并在临时库（内存中的 @surrealdb/node 或 WASM 实例）中从头执行全部迁移，
+   * 不修改目标库
+   */
+  async dryRun(scratch: MigrationExecutor): Promise<DryRunResult> {
+    const { pending } = await this.status();
+    const verified = await new MigrationRunner(scratch, this.migrations, { table: this.table }).migrate();
+    return { pending: pending.map(migration => migration.id), verified };
+  }
+
+  private async ensureTable(): Promise<void> {
+    await this.executor.query(`
+      DEFINE TABLE IF NOT EXISTS ${this.table} TYPE NORMAL SCHEMAFULL PERMISSIONS
+        FOR select, create, update, delete WHERE $auth.id->has_role->role.name CONTAINS 'admin';
+      DEFINE FIELD IF NOT EXISTS version ON ${this.table} TYPE string PERMISSIONS FULL;
+      DEFINE FIELD IF NOT EXISTS description ON ${this.table} TYPE string PERMISSIONS FULL;
+      DEFINE FIELD IF NOT EXISTS checksum ON ${this.table} TYPE option<string> PERMISSIONS FULL;
+      DEFINE FIELD IF NOT EXISTS applied_at ON ${this.table} TYPE datetime DEFAULT time::now() PERMISSIONS FULL;
+      DEFINE INDEX IF NOT EXISTS ${this.table}_version_idx ON ${this.table} FIELDS version UNIQUE;
+    `);
+  }
+
+  private async getRecords(): Promise<MigrationRecord[]> {
+    const result = await this.executor.query(
+      `SELECT version, description, checksum, applied_at FROM ${this.table} ORDER BY version`
+    );
+    return (result[0] as MigrationRecord[] | undefined) || [];
+  }
+
+  /**
+   * 执行前核对执行记录，无法确认库中实际执行过哪些脚本时拒绝执行，不以当前脚本内容补记
+   */
+  private async checkHistory(records: MigrationRecord[], pending: Migration[]): Promise<void> {
+    const known = new Set(this.migrations.map(migration => migration.id));
+    const unverified = records.filter(record => !record.checksum && known.has(record.version));
+    if (unverified.length > 0) {
+      const version = unverified[unverified.length - 1].version;
+      throw new MigrationHistoryError(
+        version,
+        `迁移 ${unverified.map(record => record.version).join(', ')} 的执行记录没有校验和，无法确认执行的是当前脚本。` +
+          `核对库结构与脚本一致后执行 --baseline ${version} 重新登记`
+      );
+    }
+
+    const current = records.filter(record => known.has(record.version)).pop()?.version;
+    const skipped = current ? pending.find(migration => migration.id < current && !migration.supersededBy) : undefined;
+    if (current && skipped) {
+      throw new MigrationHistoryError(
+        skipped.id,
+        `迁移 ${skipped.id} 早于已执行的 ${current} 却没有执行记录，请核对库结构后用 --baseline 登记或手动执行`
+      );
+    }
+
+    if (records.length === 0 && pending.length > 0 && !this.adoptExisting) {
+      const [info] = await this.executor.query('INFO FOR DB');
+      const tables = Object.keys((info as { tables?: Record<string, unknown> } | undefined)?.tables ?? {})
+        .filter(table => table !== this.table);
+      if (tables.length > 0) {
+        throw new MigrationHistoryError(
+          pending[0].id,
+          `库中已有 ${tables.length} 张数据表但没有迁移记录，重新执行基础表结构会失败。` +
+            '核对库结构对应的迁移版本后先执行 --baseline <版本> 登记已执行的迁移'
+        );
+      }
+    }
+  }
+
+  /** 写入执行记录的语句，部分脚本会自行写入记录，这里先删除再写入，保证记录带有校验和 */
+  private recordStatement(): string {
+    return `FOR $record IN $records {
+      DELETE ${this.table} WHERE version = $record.version;
+      CREATE ${this.table} SET version = $record.version, description = $record.description,
+        checksum = $record.checksum, applied_at = time::now();
+    };`;
+  }
+
+  private async toRecords(migrations: Migration[]): Promise<Omit<MigrationRecord, 'applied_at'>[]> {
+    return Promise.all(migrations.map(async migration => ({
+      version: migration.id,
+      description: migration.description,
+      checksum: await computeChecksum(migration.content),
+    })));
+  }
+
+  /**
+   * 执行单个迁移，并在同一事务中写入它及被它取代的迁移的执行记录
+   * 脚本中不能使用顶层 RETURN，否则事务会提前结束而不写入执行记录
+   */
+  private async apply(migration: Migration, superseded: Migration[] = []): Promise<void> {
+    const records = [
+      migration,
+      ...superseded.map(item => ({ ...item, description: `${item.description}（已由 ${migration.id} 取代）` })),
+    ];
+    try {
+      await this.executor.query(
+        [
+          'BEGIN TRANSACTION;',
+          migration.content,
+          ';',
+          this.recordStatement(),
+          'COMMIT TRANSACTION;',
+        ].join('\n'),
+        { records: await this.toRecords(records) }
+      );
+    } catch (error) {
+      console.error(`执行迁移 ${migration.id} 失败:`, error);
+      throw new MigrationError(migration.id, `执行迁移 ${migration.id} 失败: ${describeError(error)}`, { cause: error });
+    }
+  }
+}
@@ -13,6 +13,7 @@ import type {
   LiveMessage,
 } from "surrealdb";
 
+import { SESSION_EXPIRED_EVENT, SESSION_REFRESHED_EVENT } from "@/src/lib/sessionEvents";
 
 interface Call<T> {
   request: object;
@@ -303,6 +304,14 @@ export class ServiceWorkerEngine implements SurrealEngine {
         this.handleServiceWorkerActivated(payload);
         break;
 
+      case 'session_expired':
+        window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT, { detail: payload }));
+        break;
+
+      case 'session_refreshed':
+        window.dispatchEvent(new CustomEvent(SESSION_REFRESHED_EVENT, { detail: payload }));
+        break;
+
       default:
         console.warn(`ServiceWorkerEngine: 未知消息类型 ${type}`);
     }
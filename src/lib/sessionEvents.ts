@@ -0,0 +1,6 @@
+/**
+ * 会话事件：Service Worker刷新令牌失败或会话恢复后广播到所有标签页，
+ * 由 ServiceWorkerEngine 转发为 window 事件；API请求返回401时也会派发会话过期事件
+ */
+export const SESSION_EXPIRED_EVENT = 'session-expired';
+export const SESSION_REFRESHED_EVENT = 'session-refreshed';
@@ -0,0 +1,40 @@
+import type { Migration } from './migrationRunner';
+
+/** 基础表结构（含角色、菜单、操作权限等初始化数据）作为 0000 号迁移 */
+export const BASE_SCHEMA_ID = '0000_base_schema';
+
+/** 无法在当前 SurrealDB 版本解析的早期迁移及重新定义其内容的迁移 */
+export const SUPERSEDED_MIGRATIONS: Record<string, string> = {
+  '0001_extend_group_schema': '0010_repair_group_schema',
+  '0002_add_webrtc_permissions': '0010_repair_group_schema',
+  '0003_add_group_webrtc_permissions': '0010_repair_group_schema',
+};
+
+/** 取脚本头部注释的第一行作为迁移说明 */
+function getDescription(content: string, fallback: string): string {
+  const line = content
+    .split('\n')
+    .map(text => text.trim())
+    .find(text => text.startsWith('--') && /[^-=\s]/.test(text));
+  return line ? line.replace(/^--\s*/, '') : fallback;
+}
+
+/**
+ * 由基础表结构和 migrations 目录下的文件生成按执行顺序排列的租户库迁移
+ * 只有带编号前缀的文件是迁移，validate_* 等校验脚本不参与执行
+ * @param files 文件路径到内容的映射
+ */
+export function buildTenantMigrations(baseSchema: string, files: Record<string, string>): Migration[] {
+  const migrations = Object.entries(files)
+    .map(([path, content]) => {
+      const id = path.slice(path.replace(/\\/g, '/').lastIndexOf('/') + 1).replace(/\.surql$/, '');
+      return { id, description: getDescription(content, id), content, supersededBy: SUPERSEDED_MIGRATIONS[id] };
+    })
+    .filter(migration => /^\d{4}_/.test(migration.id))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  return [
+    { id: BASE_SCHEMA_ID, description: '基础表结构及初始化数据', content: baseSchema },
+    ...migrations,
+  ];
+}
@@ -0,0 +1,22 @@
+import baseSchema from './surreal_schemas.surql?raw';
+import tenantSeed from './tenant_seed.surql?raw';
+import type { Migration } from './migrationRunner';
+import { buildTenantMigrations } from './tenantMigrations';
+
+const migrationFiles = import.meta.glob<string>('../../migrations/*.surql', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+/**
+ * 按执行顺序返回租户库的全部迁移
+ */
+export function getSchemaScripts(): Migration[] {
+  return buildTenantMigrations(baseSchema, migrationFiles);
+}
+
+/** 租户默认数据（债权审核状态等），脚本可重复执行 */
+export function getTenantSeedScript(): string {
+  return tenantSeed;
+}
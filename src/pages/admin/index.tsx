@@ -19,6 +19,7 @@ import {
   mdiCog,
   mdiAccountGroup,
   mdiCellphone,
+  mdiFileDocumentEditOutline,
 } from '@mdi/js'; // Using @mdi/js for path data
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
@@ -27,7 +28,8 @@ const adminSections = [
   { title: '用户管理', description: '管理系统用户账户、分配全局角色。', buttonText: '管理用户', icon: mdiAccountGroupOutline },
   { title: '身份与权限管理', description: '定义用户身份（角色）及其可操作的菜单和功能权限。', buttonText: '管理身份权限', icon: mdiSecurity },
   { title: '审核状态维护', description: '配置债权审核时可选的审核状态列表。', buttonText: '维护审核状态', icon: mdiPlaylistCheck },
-  { title: '案件通知规则', description: '配置案件机器人基于案件阶段发送通知的规则和模板。', buttonText: '配置通知规则', icon: mdiBellRingOutline },
+  { title: '案件通知规则', description: '配置案件机器人基于案件阶段发送通知的规则和模板。', buttonText: '配置通知规则', icon: mdiBellRingOutline, path: '/admin/manage/notification-rules' },
+  { title: '字段提取模板', description: '为新的文书类型框选字段区域、设置校验，测试后发布用于PDF解析。', buttonText: '设计模板', icon: mdiFileDocumentEditOutline, path: '/admin/manage/extraction-templates' },
   { title: '系统配置', description: '管理系统级参数，如数据库连接（概念性）、OIDC客户端设置等。', buttonText: '系统配置', icon: mdiCogOutline },
 ];
 
@@ -145,6 +147,7 @@ const AdminPage: React.FC = () => {
                   size="medium" 
                   color="primary" 
                   fullWidth
+                  onClick={section.path ? () => navigate(section.path) : undefined}
                   sx={isMobile ? { minHeight: '44px' } : {}}
                 >
                   {section.buttonText}
@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Toolbar,
+  Tooltip,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { format } from 'date-fns';
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { ExtractionTemplateService } from '@/src/services/extractionTemplateService';
+import ExtractionTemplateDesigner from '@/src/components/pdf-parser/ExtractionTemplateDesigner';
+import ConfirmDeleteDialog from '@/src/components/common/ConfirmDeleteDialog';
+import type { ExtractionTemplate, ExtractionTemplateStatus } from '@/src/types/extractionTemplate';
+
+const STATUS_LABELS: Record<ExtractionTemplateStatus, { label: string; color: 'success' | 'default' | 'warning' }> = {
+  published: { label: '已发布', color: 'success' },
+  draft: { label: '草稿', color: 'warning' },
+  archived: { label: '已归档', color: 'default' },
+};
+
+const ExtractionTemplateManagementPage: React.FC = () => {
+  const theme = useTheme();
+  const client = useSurrealClient();
+  const service = useMemo(() => new ExtractionTemplateService(client), [client]);
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [designerOpen, setDesignerOpen] = useState(false);
+  const [editing, setEditing] = useState<ExtractionTemplate | null>(null);
+  const [deleting, setDeleting] = useState<ExtractionTemplate | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTemplates(await service.loadTemplates());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载字段提取模板失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [service]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const openDesigner = (template: ExtractionTemplate | null) => {
+    setEditing(template);
+    setDesignerOpen(true);
+  };
+
+  // 保存失败时由设计器显示错误并保持打开
+  const handleSave = async (template: ExtractionTemplate, publish: boolean) => {
+    const saved = await service.saveDraft(template);
+    if (publish) {
+      await service.publish(saved);
+      await service.applyPublishedTemplates();
+    }
+    fetchTemplates();
+  };
+
+  const handleConfirmDelete = async () => {
+    if (deleting) {
+      try {
+        await service.deleteDraft(deleting.id);
+        fetchTemplates();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : '删除模板草稿失败');
+      } finally {
+        setDeleting(null);
+      }
+    }
+  };
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2, md: 3 } }}>
+      <Typography variant="h4" component="h1" gutterBottom sx={{ mb: 2 }}>
+        字段提取模板
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        为新的文书类型设计字段提取规则。已发布的模板在本地解析 PDF 时生效，文书类型与内置类型相同时替换内置规则。
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Paper elevation={1} sx={{ backgroundColor: theme.palette.background.paper }}>
+        <Toolbar sx={{ p: { xs: 1.5, sm: 2 }, borderBottom: `1px solid ${theme.palette.divider}` }}>
+          <Button variant="contained" color="primary" startIcon={<AddCircleOutlineIcon />} onClick={() => openDesigner(null)}>
+            新建模板
+          </Button>
+        </Toolbar>
+
+        {isLoading && <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}><CircularProgress /></Box>}
+
+        {!isLoading && templates.length > 0 && (
+          <TableContainer>
+            <Table sx={{ minWidth: 750 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>模板</TableCell>
+                  <TableCell>文书类型</TableCell>
+                  <TableCell>版本</TableCell>
+                  <TableCell>字段</TableCell>
+                  <TableCell>状态</TableCell>
+                  <TableCell>更新时间</TableCell>
+                  <TableCell align="center">操作</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {templates.map(template => (
+                  <TableRow key={template.id} hover>
+                    <TableCell>
+                      <Typography variant="body2">{template.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{template.description}</Typography>
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{template.document_type}</TableCell>
+                    <TableCell>第 {template.version} 版</TableCell>
+                    <TableCell>{template.fields.map(field => field.display_name).join('、')}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={STATUS_LABELS[template.status].label} color={STATUS_LABELS[template.status].color} />
+                    </TableCell>
+                    <TableCell>
+                      {template.updated_at ? format(new Date(template.updated_at), 'yyyy-MM-dd HH:mm') : '—'}
+                    </TableCell>
+                    <TableCell align="center">
+                      <Tooltip title={template.status === 'draft' ? '编辑并测试后发布' : '基于此版本修改，另存为新版本'}>
+                        <IconButton size="small" onClick={() => openDesigner(template)} sx={{ mr: 0.5 }}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      {template.status === 'draft' && (
+                        <Tooltip title="删除草稿">
+                          <IconButton size="small" onClick={() => setDeleting(template)}>
+                            <DeleteOutlineIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+        {!isLoading && templates.length === 0 && !error && (
+          <Typography align="center" color="text.secondary" sx={{ p: 3 }}>
+            尚未设计模板，本地解析使用内置的立案书和债权合同识别规则
+          </Typography>
+        )}
+      </Paper>
+
+      <ExtractionTemplateDesigner
+        open={designerOpen}
+        template={editing}
+        service={service}
+        onClose={() => setDesignerOpen(false)}
+        onSave={handleSave}
+      />
+
+      <ConfirmDeleteDialog
+        open={Boolean(deleting)}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleConfirmDelete}
+        title="删除模板草稿"
+        contentText={deleting ? `确定删除“${deleting.name}”第 ${deleting.version} 版草稿吗？` : '确定删除该草稿吗？'}
+      />
+    </Box>
+  );
+};
+
+export default ExtractionTemplateManagementPage;
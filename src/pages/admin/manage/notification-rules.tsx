@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -21,43 +21,51 @@ import {
 import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
-import {
-  getNotificationRules,
-  deleteNotificationRule,
-  NotificationRule,
-  // NotificationRuleInput, // Not used directly in this file's save handler
-} from '@/src/services/adminNotificationRuleService'; // Adjusted import path
-import CreateEditNotificationRuleDialog from '@/src/components/admin/notifications/CreateEditNotificationRuleDialog'; // Adjusted import path
-import ConfirmDeleteDialog from '@/src/components/common/ConfirmDeleteDialog'; // Adjusted import path
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { NotificationRuleService } from '@/src/services/notificationRuleService';
+import type { CaseProcedureFlow } from '@/src/types/caseProcedure';
+import type { NotificationRule, ReminderCaseData } from '@/src/types/caseReminder';
+import CreateEditNotificationRuleDialog, {
+  FREQUENCY_LABELS,
+} from '@/src/components/admin/notifications/CreateEditNotificationRuleDialog';
+import ConfirmDeleteDialog from '@/src/components/common/ConfirmDeleteDialog';
 
 const NotificationRuleManagementPage: React.FC = () => {
   const theme = useTheme();
+  const client = useSurrealClient();
+  const service = useMemo(() => new NotificationRuleService(client), [client]);
   const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [cases, setCases] = useState<ReminderCaseData[]>([]);
+  const [flows, setFlows] = useState<CaseProcedureFlow[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<NotificationRule | null>(null);
-  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [deletingRuleId, setDeletingRuleId] = useState<string | null>(null);
-
-  // Mock case statuses and date fields for the dialog - these might come from a config or context in a real app
-  const MOCK_CASE_STATUSES = ['立案', '公告', '债权申报', '债权审核', '破产清算', '重整', '和解'];
-  const MOCK_CASE_DATE_FIELDS = ['受理时间', '公告时间', '债权申报截止时间', '首次会议时间'];
+  const [deletingRule, setDeletingRule] = useState<NotificationRule | null>(null);
 
+  // 可选阶段取自启用的程序流程，按阶段顺序排列
+  const phases = useMemo(() => {
+    const ordered = flows
+      .flatMap(flow => flow.phases.filter(phase => !phase.is_terminal))
+      .sort((a, b) => a.display_order - b.display_order)
+      .map(phase => phase.name);
+    return Array.from(new Set(ordered));
+  }, [flows]);
 
   const fetchRules = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const fetchedRules = await getNotificationRules();
+      const [fetchedRules, previewData] = await Promise.all([service.getRules(), service.loadPreviewData()]);
       setRules(fetchedRules);
+      setCases(previewData.cases);
+      setFlows(previewData.flows);
     } catch (err) {
-      setError('Failed to fetch notification rules.');
-      console.error(err);
+      setError(err instanceof Error ? err.message : '获取通知规则失败');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [service]);
 
   useEffect(() => {
     fetchRules();
@@ -78,40 +86,34 @@ const NotificationRuleManagementPage: React.FC = () => {
     setEditingRule(null);
   };
 
-  const handleSaveRule = async () => {
-    // The actual save logic (create/update) is within CreateEditNotificationRuleDialog.
-    // This parent component just needs to refresh its list of rules after a save.
-    fetchRules(); 
-    // Dialog will close itself upon successful save, or user can cancel.
-    // Forcing close here might be premature if save fails in dialog.
-    // handleCloseDialog(); 
-  };
-  
-  const handleOpenDeleteDialog = (ruleId: string) => {
-    setDeletingRuleId(ruleId);
-    setIsDeleteDialogOpen(true);
+  // 保存失败时由对话框显示错误并保持打开
+  const handleSaveRule = async (rule: NotificationRule) => {
+    await service.saveRule(rule);
+    fetchRules();
   };
 
-  const handleCloseDeleteDialog = () => {
-    setDeletingRuleId(null);
-    setIsDeleteDialogOpen(false);
+  const handleToggleActive = async (rule: NotificationRule) => {
+    if (!rule.id) return;
+    try {
+      await service.setActive(rule.id, !rule.is_active);
+      fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '更新通知规则状态失败');
+    }
   };
 
   const handleConfirmDelete = async () => {
-    if (deletingRuleId) {
+    if (deletingRule?.id) {
       try {
-        await deleteNotificationRule(deletingRuleId);
-        fetchRules(); // Refetch after delete
+        await service.deleteRule(deletingRule.id);
+        fetchRules();
       } catch (err) {
-        setError('Failed to delete rule.');
-        console.error(err);
+        setError(err instanceof Error ? err.message : '删除通知规则失败');
       } finally {
-        handleCloseDeleteDialog();
+        setDeletingRule(null);
       }
     }
   };
-  
-  const ruleToDelete = rules.find(r => r.id === deletingRuleId);
 
   return (
     <Box sx={{ p: { xs: 1, sm: 2, md: 3 } }}>
@@ -128,46 +130,49 @@ const NotificationRuleManagementPage: React.FC = () => {
             color="primary"
             startIcon={<AddCircleOutlineIcon />}
             onClick={handleOpenCreateDialog}
+            disabled={phases.length === 0}
           >
             创建新规则
           </Button>
         </Toolbar>
 
         {isLoading && <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}><CircularProgress /></Box>}
-        
-        {!isLoading && !error && (
+
+        {!isLoading && rules.length > 0 && (
           <TableContainer>
             <Table sx={{ minWidth: 750 }}>
               <TableHead>
                 <TableRow>
-                  <TableCell>Name</TableCell>
-                  <TableCell>Description</TableCell>
-                  <TableCell>Case Status Trigger</TableCell>
-                  <TableCell>Timing Condition</TableCell>
-                  <TableCell>Frequency</TableCell>
-                  <TableCell>Enabled</TableCell>
-                  <TableCell align="center">Actions</TableCell>
+                  <TableCell>案件阶段</TableCell>
+                  <TableCell>触发条件</TableCell>
+                  <TableCell>消息模板</TableCell>
+                  <TableCell>频率</TableCell>
+                  <TableCell>发送时间</TableCell>
+                  <TableCell>启用</TableCell>
+                  <TableCell align="center">操作</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
                 {rules.map((rule) => (
-                  <TableRow key={rule.id} hover>
-                    <TableCell>{rule.name}</TableCell>
-                    <TableCell>{rule.description}</TableCell>
-                    <TableCell>{rule.caseStatusTrigger}</TableCell>
-                    <TableCell>{`${rule.timingCondition.triggerType} (DateField: ${rule.timingCondition.caseDateField || 'N/A'}, Offset: ${rule.timingCondition.offsetDays === undefined ? 'N/A' : rule.timingCondition.offsetDays})`}</TableCell>
-                    <TableCell>{rule.frequencyDescription}</TableCell>
+                  <TableRow key={String(rule.id)} hover>
+                    <TableCell>{rule.procedure_phase}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>
+                      {rule.trigger_condition || <Typography variant="body2" color="text.secondary">按阶段期限</Typography>}
+                    </TableCell>
+                    <TableCell>{rule.message_template}</TableCell>
+                    <TableCell>{FREQUENCY_LABELS[rule.notification_frequency] ?? rule.notification_frequency}</TableCell>
+                    <TableCell>{rule.notification_time}</TableCell>
                     <TableCell>
-                      <Switch checked={rule.isEnabled} disabled /> {/* Actual toggle logic would be in update service call */}
+                      <Switch checked={rule.is_active} onChange={() => handleToggleActive(rule)} />
                     </TableCell>
                     <TableCell align="center">
-                      <Tooltip title="Edit Rule">
+                      <Tooltip title="编辑规则">
                         <IconButton size="small" onClick={() => handleOpenEditDialog(rule)} sx={{ mr: 0.5 }}>
                           <EditIcon fontSize="small"/>
                         </IconButton>
                       </Tooltip>
-                      <Tooltip title="Delete Rule">
-                        <IconButton size="small" onClick={() => handleOpenDeleteDialog(rule.id)}>
+                      <Tooltip title="删除规则">
+                        <IconButton size="small" onClick={() => setDeletingRule(rule)}>
                           <DeleteOutlineIcon fontSize="small"/>
                         </IconButton>
                       </Tooltip>
@@ -180,27 +185,27 @@ const NotificationRuleManagementPage: React.FC = () => {
         )}
         {!isLoading && rules.length === 0 && !error && (
           <Typography align="center" color="text.secondary" sx={{ p: 3 }}>
-            No notification rules configured.
+            尚未配置通知规则
           </Typography>
         )}
       </Paper>
 
-      {/* Ensure CreateEditNotificationRuleDialog receives all necessary props including caseStatuses and caseDateFields */}
       <CreateEditNotificationRuleDialog
         open={isDialogOpen}
         onClose={handleCloseDialog}
-        onSave={handleSaveRule} 
+        onSave={handleSaveRule}
         initialData={editingRule}
-        caseStatuses={MOCK_CASE_STATUSES} 
-        caseDateFields={MOCK_CASE_DATE_FIELDS}
+        phases={phases}
+        cases={cases}
+        flows={flows}
       />
-      
+
       <ConfirmDeleteDialog
-        open={isDeleteDialogOpen}
-        onClose={handleCloseDeleteDialog}
+        open={Boolean(deletingRule)}
+        onClose={() => setDeletingRule(null)}
         onConfirm={handleConfirmDelete}
-        title="Confirm Delete Rule"
-        contentText={ruleToDelete ? `Are you sure you want to delete the rule "${ruleToDelete.name}"?` : "Are you sure?"}
+        title="删除通知规则"
+        contentText={deletingRule ? `确定删除“${deletingRule.procedure_phase}”阶段的通知规则吗？` : '确定删除该规则吗？'}
       />
     </Box>
   );
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -38,10 +38,18 @@ import {
   Menu as MenuIcon,
   TouchApp as TouchAppIcon,
   People as PeopleIcon,
+  GridOn as GridOnIcon,
+  PersonSearch as PersonSearchIcon,
 } from '@mui/icons-material';
 import { useSurreal } from '@/src/contexts/SurrealProvider';
 import { useSnackbar } from '@/src/contexts/SnackbarContext';
 import { RecordId } from 'surrealdb';
+import PermissionMatrixService, {
+  type PermissionCatalog,
+  type PermissionChange,
+} from '@/src/services/permissionMatrixService';
+import PermissionMatrixEditor from '@/src/components/admin/permissions/PermissionMatrixEditor';
+import EffectivePermissionSimulator from '@/src/components/admin/permissions/EffectivePermissionSimulator';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -121,6 +129,10 @@ const PermissionManagementPage: React.FC = () => {
   const [selectedRolePermission, setSelectedRolePermission] = useState<RolePermission | null>(null);
   const [rolePermissionDialogOpen, setRolePermissionDialogOpen] = useState(false);
 
+  // 权限矩阵与权限模拟共用的数据
+  const permissionMatrixService = useMemo(() => new PermissionMatrixService(client), [client]);
+  const [catalog, setCatalog] = useState<PermissionCatalog | null>(null);
+
   // 加载角色列表
   const loadRoles = useCallback(async () => {
     try {
@@ -205,12 +217,26 @@ const PermissionManagementPage: React.FC = () => {
     }
   }, [client, showError]);
 
+  // 加载权限矩阵数据
+  const loadCatalog = useCallback(async () => {
+    setLoading(true);
+    try {
+      setCatalog(await permissionMatrixService.loadCatalog());
+    } catch (error) {
+      console.error('Error loading permission catalog:', error);
+      showError('加载权限数据失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [permissionMatrixService, showError]);
+
   useEffect(() => {
     loadRoles();
     if (tabValue === 0) loadMenus();
     else if (tabValue === 1) loadOperations();
     else if (tabValue === 2) loadRolePermissions();
-  }, [tabValue, loadRoles, loadMenus, loadOperations, loadRolePermissions]);
+    else loadCatalog();
+  }, [tabValue, loadRoles, loadMenus, loadOperations, loadRolePermissions, loadCatalog]);
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
@@ -357,6 +383,18 @@ const PermissionManagementPage: React.FC = () => {
     }
   };
 
+  const handleMatrixSave = async (changes: PermissionChange[]) => {
+    if (!catalog) return;
+    try {
+      await permissionMatrixService.saveOperationChanges(catalog, changes);
+      showSuccess(`已保存 ${changes.length} 项权限变更`);
+      await loadCatalog();
+    } catch (error) {
+      console.error('Error saving permission matrix:', error);
+      showError(error instanceof Error ? error.message : '保存权限矩阵失败');
+    }
+  };
+
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h4" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -369,6 +407,8 @@ const PermissionManagementPage: React.FC = () => {
           <Tab icon={<MenuIcon />} label="菜单权限" />
           <Tab icon={<TouchAppIcon />} label="操作权限" />
           <Tab icon={<PeopleIcon />} label="角色权限" />
+          <Tab icon={<GridOnIcon />} label="权限矩阵" />
+          <Tab icon={<PersonSearchIcon />} label="权限模拟" />
         </Tabs>
       </Paper>
 
@@ -556,6 +596,34 @@ const PermissionManagementPage: React.FC = () => {
         )}
       </TabPanel>
 
+      {/* 角色 × 操作权限矩阵 */}
+      <TabPanel value={tabValue} index={3}>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          勾选角色可执行的操作，可按角色列、菜单分组或操作行批量授予或撤销，保存前会列出全部变更。
+        </Alert>
+        {loading || !catalog ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <PermissionMatrixEditor catalog={catalog} onSave={handleMatrixSave} />
+        )}
+      </TabPanel>
+
+      {/* 以用户身份模拟有效权限 */}
+      <TabPanel value={tabValue} index={4}>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          选择用户和案件，按其全局角色与案件角色计算可访问的菜单和可执行的操作，并说明每一项的判断依据。
+        </Alert>
+        {loading || !catalog ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <EffectivePermissionSimulator service={permissionMatrixService} catalog={catalog} />
+        )}
+      </TabPanel>
+
       {/* 菜单编辑对话框 */}
       <Dialog open={menuDialogOpen} onClose={() => setMenuDialogOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>{selectedMenu ? '编辑菜单' : '添加菜单'}</DialogTitle>
@@ -0,0 +1,351 @@
+/**
+ * 案件期限日历
+ * 汇总当前用户所属全部案件的法定期限、关键日期和会议，提供月、周、日程三种视图，
+ * 并可按用户或按案件导出 .ics 文件，或生成订阅链接供 Outlook、Google 日历等日历应用定期拉取。
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
+import EventRepeatOutlinedIcon from '@mui/icons-material/EventRepeatOutlined';
+import {
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { useAuth } from '@/src/contexts/AuthContext';
+import {
+  CaseCalendarService,
+  buildCaseCalendarEvents,
+  buildCaseCalendarFeed,
+  eventsInRange,
+  type CaseCalendarData,
+} from '@/src/services/caseCalendarService';
+import type { CaseCalendarEvent } from '@/src/types/caseCalendar';
+import CalendarMonthView from '@/src/components/calendar/CalendarMonthView';
+import CalendarWeekView from '@/src/components/calendar/CalendarWeekView';
+import CalendarAgendaView from '@/src/components/calendar/CalendarAgendaView';
+import {
+  EVENT_KIND_LABELS,
+  EVENT_STATUS_COLORS,
+  EVENT_STATUS_LABELS,
+} from '@/src/components/calendar/CalendarEventChip';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+const ALL_CASES = 'all';
+
+function downloadICalendar(content: string, fileName: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const CaseCalendarPage: React.FC = () => {
+  const client = useSurrealClient();
+  const { user } = useAuth();
+  const service = useMemo(() => new CaseCalendarService(client), [client]);
+  const [data, setData] = useState<CaseCalendarData>({ cases: [], flows: [], meetings: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [caseFilter, setCaseFilter] = useState<string>(ALL_CASES);
+  const [showDone, setShowDone] = useState(true);
+  const [selectedEvent, setSelectedEvent] = useState<CaseCalendarEvent | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [isFeedLoading, setIsFeedLoading] = useState(false);
+
+  const today = useMemo(() => startOfDay(new Date()), []);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setData(await service.loadCalendarData());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载案件日历失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [service]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const allEvents = useMemo(() => buildCaseCalendarEvents(data, new Date()), [data]);
+
+  const caseEvents = useMemo(
+    () => (caseFilter === ALL_CASES ? allEvents : allEvents.filter(event => event.case_id === caseFilter)),
+    [allEvents, caseFilter]
+  );
+
+  const visibleEvents = useMemo(
+    () => (showDone ? caseEvents : caseEvents.filter(event => event.status !== 'done')),
+    [caseEvents, showDone]
+  );
+
+  const overdueCount = caseEvents.filter(event => event.status === 'overdue').length;
+  const atRiskCount = caseEvents.filter(event => event.status === 'at_risk').length;
+
+  // 日程视图列出逾期事项和当前日期之后的未完成事项
+  const agendaEvents = useMemo(
+    () => caseEvents.filter(event => event.status === 'overdue' || (event.status !== 'done' && event.start >= cursor)),
+    [caseEvents, cursor]
+  );
+
+  const periodLabel = view === 'week'
+    ? `${format(startOfWeek(cursor, { weekStartsOn: 1 }), 'yyyy年M月d日')} - ${format(endOfWeek(cursor, { weekStartsOn: 1 }), 'M月d日')}`
+    : view === 'month'
+      ? format(cursor, 'yyyy年M月')
+      : `${format(cursor, 'yyyy年M月d日')}起`;
+
+  const movePeriod = (step: number) => {
+    setCursor(current => (view === 'week' ? addWeeks(current, step) : addMonths(current, step)));
+  };
+
+  const handleExport = () => {
+    const selectedCase = data.cases.find(caseData => String(caseData.id) === caseFilter);
+    const name = selectedCase
+      ? `${selectedCase.case_number} ${selectedCase.name} 期限`
+      : `${user?.name ?? '我'}的案件期限`;
+    const content = buildCaseCalendarFeed(allEvents, { name, caseId: selectedCase ? caseFilter : null });
+    const fileName = selectedCase ? `case-${selectedCase.case_number || 'calendar'}.ics` : 'my-cases.ics';
+    downloadICalendar(content, fileName);
+  };
+
+  const feedCaseId = caseFilter === ALL_CASES ? null : caseFilter;
+
+  const loadFeedUrl = async (reset: boolean) => {
+    setIsFeedLoading(true);
+    setFeedError(null);
+    try {
+      setFeedUrl(reset ? await service.resetFeedUrl(feedCaseId) : await service.getFeedUrl(feedCaseId));
+    } catch (err) {
+      setFeedError(err instanceof Error ? err.message : '获取日历订阅链接失败');
+    } finally {
+      setIsFeedLoading(false);
+    }
+  };
+
+  const handleSubscribe = () => {
+    setFeedUrl('');
+    loadFeedUrl(false);
+  };
+
+  const handleCopyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+    } catch {
+      setFeedError('复制失败，请手动复制链接');
+    }
+  };
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2, md: 3 } }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        案件期限日历
+      </Typography>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Stack direction="row" spacing={1} sx={{ mb: 2 }} flexWrap="wrap" useFlexGap>
+        <Chip color="error" label={`已逾期 ${overdueCount}`} variant={overdueCount ? 'filled' : 'outlined'} />
+        <Chip color="warning" label={`临近期限 ${atRiskCount}`} variant={atRiskCount ? 'filled' : 'outlined'} />
+        <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center' }}>
+          法定期限按程序流程推算，届满日为节假日的顺延至下一个工作日
+        </Typography>
+      </Stack>
+
+      <Paper elevation={1} sx={{ p: { xs: 1.5, sm: 2 } }}>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+          <Stack direction="row" alignItems="center" spacing={1}>
+            <IconButton onClick={() => movePeriod(-1)} aria-label="上一页">
+              <ChevronLeftIcon />
+            </IconButton>
+            <Button variant="outlined" size="small" onClick={() => setCursor(today)}>
+              今天
+            </Button>
+            <IconButton onClick={() => movePeriod(1)} aria-label="下一页">
+              <ChevronRightIcon />
+            </IconButton>
+            <Typography variant="h6" sx={{ minWidth: 180 }}>{periodLabel}</Typography>
+          </Stack>
+
+          <Box sx={{ flexGrow: 1 }} />
+
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="calendar-case-filter-label">案件</InputLabel>
+            <Select
+              labelId="calendar-case-filter-label"
+              label="案件"
+              value={caseFilter}
+              onChange={event => setCaseFilter(event.target.value)}
+            >
+              <MenuItem value={ALL_CASES}>全部案件</MenuItem>
+              {data.cases.map(caseData => (
+                <MenuItem key={String(caseData.id)} value={String(caseData.id)}>
+                  {caseData.case_number} {caseData.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControlLabel
+            control={<Switch checked={showDone} onChange={event => setShowDone(event.target.checked)} />}
+            label="显示已完成"
+          />
+
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={view}
+            onChange={(_, value: CalendarView | null) => value && setView(value)}
+          >
+            <ToggleButton value="month">月</ToggleButton>
+            <ToggleButton value="week">周</ToggleButton>
+            <ToggleButton value="agenda">日程</ToggleButton>
+          </ToggleButtonGroup>
+
+          <Button
+            variant="contained"
+            startIcon={<FileDownloadOutlinedIcon />}
+            onClick={handleExport}
+            disabled={allEvents.length === 0}
+          >
+            导出 .ics
+          </Button>
+          <Button variant="outlined" startIcon={<EventRepeatOutlinedIcon />} onClick={handleSubscribe}>
+            订阅
+          </Button>
+        </Stack>
+
+        {isLoading && <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}><CircularProgress /></Box>}
+
+        {!isLoading && view === 'month' && (
+          <CalendarMonthView
+            month={cursor}
+            today={today}
+            events={eventsInRange(visibleEvents, startOfWeek(startOfMonth(cursor), { weekStartsOn: 1 }), endOfWeek(endOfMonth(cursor), { weekStartsOn: 1 }))}
+            onSelectEvent={setSelectedEvent}
+            onSelectDay={day => {
+              setCursor(day);
+              setView('week');
+            }}
+          />
+        )}
+        {!isLoading && view === 'week' && (
+          <CalendarWeekView week={cursor} today={today} events={visibleEvents} onSelectEvent={setSelectedEvent} />
+        )}
+        {!isLoading && view === 'agenda' && (
+          <CalendarAgendaView events={agendaEvents} onSelectEvent={setSelectedEvent} />
+        )}
+
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+          导出的日历文件中每个事项的 UID 保持不变，案件日期调整后重新导出并导入即可更新日历应用中的原有事项；订阅的日历由日历应用定期自动更新。
+        </Typography>
+      </Paper>
+
+      <Dialog open={feedUrl !== null} onClose={() => setFeedUrl(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>订阅{feedCaseId ? '本案件' : '全部案件'}日历</DialogTitle>
+        <DialogContent dividers>
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              在日历应用中选择“通过 URL 添加日历”并粘贴以下链接，日历应用会定期拉取最新的期限和会议安排。
+              持有链接即可查看日历，请勿分享；链接泄露时重置，原链接随即失效。
+            </Typography>
+            {feedError && <Alert severity="error">{feedError}</Alert>}
+            <TextField
+              label="订阅链接"
+              value={feedUrl ?? ''}
+              fullWidth
+              size="small"
+              slotProps={{ input: { readOnly: true } }}
+              disabled={isFeedLoading}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button color="warning" onClick={() => loadFeedUrl(true)} disabled={isFeedLoading}>重置链接</Button>
+          <Box sx={{ flexGrow: 1 }} />
+          <Button onClick={() => setFeedUrl(null)}>关闭</Button>
+          <Button variant="contained" onClick={handleCopyFeedUrl} disabled={isFeedLoading || !feedUrl}>复制链接</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={Boolean(selectedEvent)} onClose={() => setSelectedEvent(null)} maxWidth="sm" fullWidth>
+        {selectedEvent && (
+          <>
+            <DialogTitle>{selectedEvent.title}</DialogTitle>
+            <DialogContent dividers>
+              <Stack spacing={1}>
+                <Stack direction="row" spacing={1}>
+                  <Chip size="small" label={EVENT_KIND_LABELS[selectedEvent.kind]} variant="outlined" />
+                  <Chip size="small" label={EVENT_STATUS_LABELS[selectedEvent.status]} color={EVENT_STATUS_COLORS[selectedEvent.status]} />
+                </Stack>
+                <Typography>案件：{selectedEvent.case_number} {selectedEvent.case_name}</Typography>
+                <Typography>
+                  时间：{format(selectedEvent.start, selectedEvent.all_day ? 'yyyy-MM-dd' : 'yyyy-MM-dd HH:mm')}
+                  {selectedEvent.end && !selectedEvent.all_day ? ` - ${format(selectedEvent.end, 'HH:mm')}` : ''}
+                </Typography>
+                {selectedEvent.description && (
+                  <Typography sx={{ whiteSpace: 'pre-line' }} color="text.secondary">{selectedEvent.description}</Typography>
+                )}
+                {selectedEvent.meeting_link && (
+                  <Typography>
+                    会议链接：<a href={selectedEvent.meeting_link} target="_blank" rel="noreferrer">{selectedEvent.meeting_link}</a>
+                  </Typography>
+                )}
+              </Stack>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setSelectedEvent(null)}>关闭</Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CaseCalendarPage;
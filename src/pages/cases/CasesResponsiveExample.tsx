@@ -354,6 +354,14 @@ const CasesResponsiveExample: React.FC = () => {
     },
   ];
 
+  // 状态变更后同步列表
+  const handleStatusChanged = (newStatus: CaseStatus) => {
+    if (!selectedCase) return;
+    setCases(prev => prev.map(caseItem =>
+      caseItem.id === selectedCase.id ? { ...caseItem, current_stage: newStatus } : caseItem
+    ));
+  };
+
   // 处理筛选变化
   const handleFilterChange = (filterId: string, value: any) => {
     switch (filterId) {
@@ -471,7 +479,8 @@ const CasesResponsiveExample: React.FC = () => {
         <ModifyCaseStatusDialog
           open={modifyStatusOpen}
           onClose={() => setModifyStatusOpen(false)}
-          currentCase={{ id: selectedCase.id, current_status: selectedCase.current_stage }}
+          currentCase={{ id: selectedCase.id, current_status: selectedCase.current_stage, case_procedure: selectedCase.case_procedure }}
+          onStatusChanged={handleStatusChanged}
         />
       )}
       
@@ -139,6 +139,10 @@ const CaseDetailPage: React.FC = () => {
     }
   };
 
+  const handleStatusChanged = (newStatus: CaseStatus) => {
+    setCaseDetail(prev => (prev ? { ...prev, procedure_phase: newStatus } : prev));
+  };
+
   const handleOpenMeetingMinutes = () => {
     if (caseDetail) {
       let title = '';
@@ -689,7 +693,9 @@ const CaseDetailPage: React.FC = () => {
             currentCase={{
               id: caseDetail.id.toString(),
               current_status: displayCase.current_stage as CaseStatus,
+              case_procedure: caseDetail.case_procedure,
             }}
+            onStatusChanged={handleStatusChanged}
           />
         )}
 
@@ -801,7 +807,9 @@ const CaseDetailPage: React.FC = () => {
           currentCase={{
             id: caseDetail.id.toString(),
             current_status: displayCase.current_stage as CaseStatus,
+            case_procedure: caseDetail.case_procedure,
           }}
+          onStatusChanged={handleStatusChanged}
         />
       )}
 
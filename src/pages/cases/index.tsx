@@ -490,6 +490,13 @@ const CaseListPage: React.FC = () => {
     setModifyStatusOpen(false);
   };
 
+  const handleStatusChanged = (newStatus: CaseStatus) => {
+    if (!selectedCase) return;
+    setCases(prev => prev.map(caseItem =>
+      caseItem.id === selectedCase.id ? { ...caseItem, current_stage: newStatus } : caseItem
+    ));
+  };
+
   const handleCloseMeetingMinutes = () => {
     setMeetingMinutesOpen(false);
   };
@@ -756,7 +763,8 @@ const CaseListPage: React.FC = () => {
         <ModifyCaseStatusDialog
           open={modifyStatusOpen}
           onClose={handleCloseModifyStatus}
-          currentCase={selectedCase ? { id: selectedCase.id, current_status: selectedCase.current_stage } : null}
+          currentCase={selectedCase ? { id: selectedCase.id, current_status: selectedCase.current_stage, case_procedure: selectedCase.case_procedure } : null}
+          onStatusChanged={handleStatusChanged}
         />
       )}
       {selectedCase && meetingMinutesOpen && (
@@ -41,6 +41,13 @@ import { RecordId } from 'surrealdb';
 import ClaimStatisticsCharts from '../components/claim/ClaimStatisticsCharts';
 import { claimDataExportService } from '../services/claimDataExportService';
 import type { ExportConfig, ExportTask, ExportFormat } from '../services/claimDataExportService';
+import { useSurrealClient } from '../contexts/SurrealProvider';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  excel: 'xlsx',
+  pdf: 'pdf',
+  csv: 'csv'
+};
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -69,6 +76,7 @@ function TabPanel(props: TabPanelProps) {
 }
 
 const ClaimStatisticsPage: React.FC = () => {
+  const client = useSurrealClient();
   const [tabValue, setTabValue] = useState(0);
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
   const [exportTasks, setExportTasks] = useState<ExportTask[]>([]);
@@ -169,7 +177,7 @@ const ClaimStatisticsPage: React.FC = () => {
       // 创建下载链接
       const link = document.createElement('a');
       link.href = task.downloadUrl;
-      link.download = `claim_statistics_${task.id}.${task.format}`;
+      link.download = task.fileName ?? `claim_statistics_${task.id}.${FILE_EXTENSIONS[task.format]}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -223,6 +231,13 @@ const ClaimStatisticsPage: React.FC = () => {
     loadExportTasks();
   }, []);
 
+  // 初始化服务
+  useEffect(() => {
+    if (client) {
+      claimDataExportService.setClientGetter(() => Promise.resolve(client));
+    }
+  }, [client]);
+
   return (
     <Container maxWidth="xl" sx={{ py: 3 }}>
       <Box sx={{ mb: 3 }}>
@@ -1,7 +1,7 @@
 // STYLING: This page currently uses Tailwind CSS. Per 规范.md, consider migration to MUI components.
 // TODO: Access Control - This page should be accessible only to users with 'admin' or specific claim review roles.
 // TODO: Access Control - Data loaded should be verified against case access permissions.
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, Link as RouterLink } from 'react-router-dom'; // Removed useNavigate
 import {
   Box,
@@ -36,6 +36,11 @@ import {
   Card,
   CardContent,
   Collapse,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
   useTheme,
   alpha,
 } from '@mui/material';
@@ -56,9 +61,30 @@ import {
 } from '@mdi/js';
 import { useTranslation } from 'react-i18next';
 import RichTextEditor, { QuillDelta } from '@/src/components/RichTextEditor'; // Assuming QuillDelta is exported
+import VersionHistoryPanel from '@/src/components/RichTextEditor/VersionHistoryPanel';
+import ClaimEvidencePanel from '@/src/components/claim/ClaimEvidencePanel';
 import { useSnackbar } from '@/src/contexts/SnackbarContext';
 import { Delta } from 'quill/core'; // For initializing editor content
 import { useAuth } from '@/src/contexts/AuthContext'; // Added useAuth import
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import ClaimReviewService, {
+  CLAIM_REDUCTION_REASON_LABELS,
+  buildReductionReasons,
+  computeReviewVariance,
+  getComponentsMissingReasons,
+  recalculateClaimInterest,
+} from '@/src/services/claimReviewService';
+import BenchmarkRateService from '@/src/services/benchmarkRateService';
+import { BENCHMARK_RATE_LABELS } from '@/src/utils/interestCalculator';
+import type { BenchmarkInterestRate, BenchmarkRateType } from '@/src/types/pdfParser';
+import type {
+  ClaimAmountComponent,
+  ClaimInterestRecalculation,
+  ClaimInterestTerms,
+  ClaimReductionReasonCode,
+  ClaimReviewContext,
+} from '@/src/types/claimReview';
+import type { ClaimSourceEvidence } from '@/src/types/claimEvidence';
 
 // Import mobile components
 import MobileOptimizedLayout from '@/src/components/mobile/MobileOptimizedLayout';
@@ -74,6 +100,7 @@ interface AssertedDetails {
   total: number;
   briefDescription: string;
   attachments_content: QuillDelta; // Changed to QuillDelta
+  attachment_doc_id?: string; // 附件文档记录，存在时可批注和提出修改建议
 }
 
 interface ApprovedDetails {
@@ -98,53 +125,92 @@ interface ClaimDataType {
   audit_time: string;
   reviewOpinion: string;
   admin_attachments_content?: QuillDelta; // Changed to QuillDelta
+  case_acceptance_date?: string; // 破产申请受理日，利息计算截止日
+  interest_terms?: ClaimInterestTerms; // 申报时登记的合同计息条款
+  source_evidence?: ClaimSourceEvidence; // 由解析合同预填的取值来源
 }
 
-const initialMockClaimData: ClaimDataType = {
-  id: 'claim001',
-  creditorName: 'Acme Corp',
-  creditorType: '组织',
-  creditorId: '91310000MA1FL000XQ',
-  claim_number: 'CL-2023-001',
-  contact: { name: 'John Doe', phone: '13800138000', email: 'john.doe@acme.com' },
-  submissionDate: '2023-10-15',
-  asserted_details: {
-    nature: '货款',
-    currency: 'CNY',
-    principal: 120000,
-    interest: 30000,
-    other: 0,
-    total: 150000,
-    briefDescription: '合同编号 XYZ-2022，供应原材料A，款项逾期未付。',
-    attachments_content: new Delta([
-      { insert: '附件材料说明\n', attributes: { header: 2 } },
-      { insert: '这是债权人提交的关于债权 ' },
-      { insert: 'CL-2023-001', attributes: { bold: true } },
-      { insert: ' 的详细说明和附件列表。\n' },
-      { insert: '合同文件：' },
-      { insert: 'Contract_XYZ-2022.pdf', attributes: { link: '#' } },
-      { insert: ' (模拟链接)\n' },
-      { insert: '相关发票：' },
-      { insert: 'Invoice_INV001.pdf', attributes: { link: '#' } },
-      { insert: ', ' },
-      { insert: 'Invoice_INV002.pdf', attributes: { link: '#' } },
-      { insert: ' (模拟链接)\n' },
-      { insert: '请注意：以上链接均为模拟，实际应用中应指向真实文件。\n', attributes: { italic: true } },
-    ])
-  },
-  approved_details: {
-    nature: null,
-    principal: null,
-    interest: null,
-    other: null,
-  },
-  audit_status: '待审核',
-  auditor: '',
-  audit_time: '',
-  reviewOpinion: '',
-  admin_attachments_content: new Delta(),
+// 利息重算表单，数值字段使用字符串以适配 TextField
+interface InterestTermsForm {
+  interest_start_date: string;
+  rate_source: ClaimInterestTerms['rate_source'];
+  interest_rate: string;
+  rate_type: NonNullable<ClaimInterestTerms['rate_type']>;
+  rate_multiplier: string;
+  day_count_convention: NonNullable<ClaimInterestTerms['day_count_convention']>;
+}
+
+const REVIEWABLE_STATUSES: ClaimDataType['audit_status'][] = ['审核通过', '部分通过', '已驳回'];
+
+const toAuditStatus = (status: string): ClaimDataType['audit_status'] => {
+  if (status === '需要补充') return '要求补充材料';
+  return REVIEWABLE_STATUSES.includes(status as ClaimDataType['audit_status'])
+    ? status as ClaimDataType['audit_status']
+    : '待审核';
+};
+
+const toClaimData = (context: ClaimReviewContext): ClaimDataType => {
+  const asserted = context.asserted_claim_details;
+  const approved = context.approved_claim_details;
+  return {
+    id: context.id,
+    creditorName: context.creditor?.name || '',
+    creditorType: context.creditor?.type === 'individual' ? '个人' : '组织',
+    creditorId: context.creditor?.legal_id || '',
+    claim_number: context.claim_number,
+    contact: {
+      name: context.creditor?.contact_person_name || '',
+      phone: context.creditor?.contact_phone || '',
+      email: context.creditor?.contact_email,
+    },
+    submissionDate: context.submission_time?.slice(0, 10) || '',
+    asserted_details: {
+      nature: asserted.nature,
+      currency: asserted.currency,
+      principal: asserted.principal,
+      interest: asserted.interest,
+      other: asserted.other_amount || 0,
+      total: asserted.total_asserted_amount,
+      briefDescription: asserted.brief_description || '',
+      attachments_content: new Delta(Array.isArray(asserted.attachment_content) ? asserted.attachment_content as QuillDelta['ops'] : []),
+      attachment_doc_id: asserted.attachment_doc_id ? String(asserted.attachment_doc_id) : undefined,
+    },
+    approved_details: {
+      nature: approved?.nature ?? null,
+      principal: approved?.principal ?? null,
+      interest: approved?.interest ?? null,
+      other: approved ? approved.other_amount || 0 : null,
+    },
+    audit_status: toAuditStatus(context.status),
+    auditor: context.reviewer_name || '',
+    audit_time: context.review_time?.slice(0, 10) || '',
+    reviewOpinion: context.review_comments || '',
+    admin_attachments_content: new Delta(),
+    case_acceptance_date: context.case_acceptance_date,
+    interest_terms: asserted.interest_terms,
+    source_evidence: asserted.source_evidence,
+  };
 };
 
+const toInterestTermsForm = (terms?: ClaimInterestTerms): InterestTermsForm => ({
+  interest_start_date: terms?.interest_start_date?.slice(0, 10) || '',
+  rate_source: terms?.rate_source || 'fixed',
+  interest_rate: terms?.interest_rate !== undefined ? String(terms.interest_rate) : '',
+  rate_type: terms?.rate_type || 'annual',
+  rate_multiplier: String(terms?.rate_multiplier ?? 1),
+  day_count_convention: terms?.day_count_convention || 'actual/365',
+});
+
+const toInterestTerms = (form: InterestTermsForm, base?: ClaimInterestTerms): ClaimInterestTerms => ({
+  ...base,
+  interest_start_date: form.interest_start_date,
+  rate_source: form.rate_source,
+  interest_rate: form.rate_source === 'fixed' ? parseFloat(form.interest_rate) || 0 : undefined,
+  rate_type: form.rate_type,
+  rate_multiplier: parseFloat(form.rate_multiplier) || 1,
+  day_count_convention: form.day_count_convention,
+});
+
 
 const ClaimReviewDetailPage: React.FC = () => {
   const { t } = useTranslation();
@@ -155,7 +221,10 @@ const ClaimReviewDetailPage: React.FC = () => {
   const theme = useTheme();
   const { isMobile } = useResponsiveLayout();
 
-  // TODO: Fetch actual claim data based on claimIdFromParams
+  const client = useSurrealClient();
+  const claimReviewService = useMemo(() => new ClaimReviewService(client), [client]);
+  const benchmarkRateService = useMemo(() => new BenchmarkRateService(client), [client]);
+
   const [claimData, setClaimData] = useState<ClaimDataType | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -163,6 +232,7 @@ const ClaimReviewDetailPage: React.FC = () => {
 
   // Modal specific states
   const [auditModalOpen, setAuditModalOpen] = useState(false);
+  const [versionHistoryOpen, setVersionHistoryOpen] = useState(false);
   const [modalApprovedNature, setModalApprovedNature] = useState<string>('');
   const [modalApprovedPrincipal, setModalApprovedPrincipal] = useState<string>(''); // Use string for TextField
   const [modalApprovedInterest, setModalApprovedInterest] = useState<string>(''); // Use string for TextField
@@ -171,6 +241,12 @@ const ClaimReviewDetailPage: React.FC = () => {
   const [modalReviewOpinion, setModalReviewOpinion] = useState<string>('');
   const [modalAdminSupplementalAttachmentsContent, setModalAdminSupplementalAttachmentsContent] = useState<QuillDelta>(new Delta());
   const [modalErrors, setModalErrors] = useState<Record<string, string>>({});
+  const [modalReductionReasons, setModalReductionReasons] = useState<Partial<Record<ClaimAmountComponent, ClaimReductionReasonCode[]>>>({});
+  const [interestTermsForm, setInterestTermsForm] = useState<InterestTermsForm>(toInterestTermsForm());
+  const [interestRecalculation, setInterestRecalculation] = useState<ClaimInterestRecalculation | null>(null);
+  const [interestRecalculationError, setInterestRecalculationError] = useState<string | null>(null);
+  const [benchmarkRates, setBenchmarkRates] = useState<BenchmarkInterestRate[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
   const [adminInternalNotes, setAdminInternalNotes] = useState<QuillDelta>(new Delta());
 
@@ -179,17 +255,25 @@ const ClaimReviewDetailPage: React.FC = () => {
 
 
   useEffect(() => {
-    // Simulate fetching data
-    setLoading(true);
-    setTimeout(() => {
-      if (claimIdFromParams) {
-        setClaimData({ ...initialMockClaimData, id: claimIdFromParams, claim_number: `CL-${claimIdFromParams.slice(-5)}` });
-        setAdminInternalNotes(new Delta().insert(initialMockClaimData.reviewOpinion || '')); // Initialize internal notes
-      } else {
-        setError(t('claim_review_error_no_id', '未提供有效的债权ID。'));
-      }
+    if (!claimIdFromParams) {
+      setError(t('claim_review_error_no_id', '未提供有效的债权ID。'));
       setLoading(false);
-    }, 500);
+      return;
+    }
+
+    setLoading(true);
+    claimReviewService.getReviewContext(claimIdFromParams)
+      .then(context => {
+        if (context) {
+          const data = toClaimData(context);
+          setClaimData(data);
+          setAdminInternalNotes(new Delta().insert(data.reviewOpinion || '')); // Initialize internal notes
+        }
+      })
+      .catch(loadError => {
+        setError(loadError instanceof Error ? loadError.message : t('claim_review_error_load', '加载债权详情失败。'));
+      })
+      .finally(() => setLoading(false));
   }, [claimIdFromParams, t]);
 
 
@@ -198,32 +282,96 @@ const ClaimReviewDetailPage: React.FC = () => {
       (parseFloat(modalApprovedInterest) || 0) +
       (parseFloat(modalApprovedOther) || 0);
 
+  // 申报与认定金额逐项差异
+  const modalVariance = claimData
+    ? computeReviewVariance(
+        {
+          principal: claimData.asserted_details.principal,
+          interest: claimData.asserted_details.interest,
+          other: claimData.asserted_details.other,
+        },
+        {
+          principal: parseFloat(modalApprovedPrincipal) || 0,
+          interest: parseFloat(modalApprovedInterest) || 0,
+          other: parseFloat(modalApprovedOther) || 0,
+        }
+      )
+    : [];
+
 
   const formatCurrencyDisplay = (amount: number | null, currency: string = 'CNY') => {
     if (amount === null || typeof amount === 'undefined') return '-';
     return `${amount.toLocaleString('zh-CN', { style: 'currency', currency: currency })}`;
   };
 
+  /**
+   * 按合同计息条款重算利息，计息截止于案件受理日
+   */
+  const handleRecalculateInterest = async (form: InterestTermsForm = interestTermsForm, principalInput: string = modalApprovedPrincipal) => {
+    if (!claimData) return;
+    if (!form.interest_start_date) {
+      setInterestRecalculationError(t('validation_required_interest_start_date', '请填写起息日。'));
+      return;
+    }
+
+    try {
+      let rates = benchmarkRates ?? undefined;
+      if (form.rate_source !== 'fixed' && !rates) {
+        rates = await benchmarkRateService.getRates();
+        setBenchmarkRates(rates);
+      }
+      const principal = principalInput.trim() ? parseFloat(principalInput) : claimData.asserted_details.principal;
+      setInterestRecalculation(recalculateClaimInterest(
+        principal,
+        toInterestTerms(form, claimData.interest_terms),
+        claimData.case_acceptance_date,
+        rates
+      ));
+      setInterestRecalculationError(null);
+    } catch (calculationError) {
+      setInterestRecalculation(null);
+      setInterestRecalculationError(calculationError instanceof Error ? calculationError.message : t('interest_recalculation_failed', '利息重算失败。'));
+    }
+  };
+
+  const updateInterestTermsForm = (changes: Partial<InterestTermsForm>) => {
+    setInterestTermsForm(prev => ({ ...prev, ...changes }));
+    setInterestRecalculation(null);
+  };
+
   const handleOpenAuditModal = () => {
     if (!claimData) return;
     setModalErrors({});
+    setModalReductionReasons({});
+    let principalInput: string;
     if (claimData.audit_status === '待审核' || claimData.approved_details.principal === null) {
+      principalInput = String(claimData.asserted_details.principal);
       setModalApprovedNature(claimData.asserted_details.nature);
-      setModalApprovedPrincipal(String(claimData.asserted_details.principal));
+      setModalApprovedPrincipal(principalInput);
       setModalApprovedInterest(String(claimData.asserted_details.interest));
       setModalApprovedOther(String(claimData.asserted_details.other));
       setModalAuditStatus('');
       setModalReviewOpinion('');
       setModalAdminSupplementalAttachmentsContent(new Delta());
     } else {
+      principalInput = String(claimData.approved_details.principal ?? '');
       setModalApprovedNature(claimData.approved_details.nature || claimData.asserted_details.nature);
-      setModalApprovedPrincipal(String(claimData.approved_details.principal ?? ''));
+      setModalApprovedPrincipal(principalInput);
       setModalApprovedInterest(String(claimData.approved_details.interest ?? ''));
       setModalApprovedOther(String(claimData.approved_details.other ?? ''));
       setModalAuditStatus(claimData.audit_status);
       setModalReviewOpinion(claimData.reviewOpinion);
       setModalAdminSupplementalAttachmentsContent(claimData.admin_attachments_content || new Delta());
     }
+
+    // 申报时登记了计息条款的，打开审核时即按条款重算利息
+    const termsForm = toInterestTermsForm(claimData.interest_terms);
+    setInterestTermsForm(termsForm);
+    setInterestRecalculation(null);
+    setInterestRecalculationError(null);
+    if (claimData.interest_terms) {
+      handleRecalculateInterest(termsForm, principalInput);
+    }
     setAuditModalOpen(true);
   };
 
@@ -235,11 +383,15 @@ const ClaimReviewDetailPage: React.FC = () => {
     if (modalApprovedOther.trim() && parseFloat(modalApprovedOther) < 0) errors.modalApprovedOther = t('validation_invalid_approved_other', '审核认定其他费用必须大于等于0（如果填写）。');
     if (!modalAuditStatus) errors.modalAuditStatus = t('validation_required_audit_status', '审核状态不能为空。');
     if (!modalReviewOpinion.trim()) errors.modalReviewOpinion = t('validation_required_review_opinion', '审核意见/备注不能为空。');
+    const componentsMissingReasons = getComponentsMissingReasons(modalVariance, modalReductionReasons);
+    if (componentsMissingReasons.length > 0) {
+      errors.modalReductionReasons = t('validation_required_reduction_reasons', '请为核减项目选择核减理由：{{components}}', { components: componentsMissingReasons.join('、') });
+    }
     setModalErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
-  const handleSubmitReview = () => {
+  const handleSubmitReview = async () => {
     if (!validateModalForm() || !claimData) {
       showError(t('claim_review_error_form_invalid', '请修正审核表单中的错误。'));
       return;
@@ -247,26 +399,52 @@ const ClaimReviewDetailPage: React.FC = () => {
 
     // Using MUI's Dialog for confirmation would be more consistent than window.confirm
     // For now, keeping window.confirm as per original logic structure
-    if (window.confirm(t('claim_review_confirm_submission', '请再次确认认定的债权金额及信息后提交。\n审核认定债权总额: {{totalAmount}}', { totalAmount: formatCurrencyDisplay(calculatedModalApprovedTotal, claimData.asserted_details.currency) }))) {
+    if (!window.confirm(t('claim_review_confirm_submission', '请再次确认认定的债权金额及信息后提交。\n审核认定债权总额: {{totalAmount}}', { totalAmount: formatCurrencyDisplay(calculatedModalApprovedTotal, claimData.asserted_details.currency) }))) {
+      return;
+    }
+
+    const approvedDetails = {
+      nature: modalApprovedNature,
+      principal: parseFloat(modalApprovedPrincipal) || 0,
+      interest: parseFloat(modalApprovedInterest) || 0,
+      other: parseFloat(modalApprovedOther) || 0,
+    };
+    const decision = modalAuditStatus as Exclude<ClaimDataType['audit_status'], '待审核'>;
+
+    setIsSubmitting(true);
+    try {
+      await claimReviewService.submitReview({
+        claim_id: claimData.id,
+        decision,
+        approved: { ...approvedDetails, currency: claimData.asserted_details.currency },
+        asserted: {
+          principal: claimData.asserted_details.principal,
+          interest: claimData.asserted_details.interest,
+          other: claimData.asserted_details.other,
+        },
+        review_opinion: modalReviewOpinion,
+        reduction_reasons: buildReductionReasons(modalVariance, modalReductionReasons),
+        interest_recalculation: interestRecalculation ?? undefined,
+      });
+
       const updatedClaimData: ClaimDataType = {
         ...claimData,
-        approved_details: {
-          nature: modalApprovedNature,
-          principal: parseFloat(modalApprovedPrincipal) || 0,
-          interest: parseFloat(modalApprovedInterest) || 0,
-          other: parseFloat(modalApprovedOther) || 0,
-        },
-        audit_status: modalAuditStatus as ClaimDataType['audit_status'],
+        approved_details: approvedDetails,
+        audit_status: decision,
         reviewOpinion: modalReviewOpinion,
         admin_attachments_content: modalAdminSupplementalAttachmentsContent,
-        auditor: 'CurrentAdminUser', // TODO: Replace with actual admin user
+        auditor: (user as any)?.name || user?.email || '',
         audit_time: new Date().toISOString().split('T')[0],
       };
       setClaimData(updatedClaimData);
       setAdminInternalNotes(new Delta().insert(modalReviewOpinion)); // Update internal notes as well if it's tied to official opinion
 
-      showSuccess(t('claim_review_submit_success_mock', '审核意见已提交 (模拟)'));
+      showSuccess(t('claim_review_submit_success', '审核意见已提交'));
       setAuditModalOpen(false);
+    } catch (submitError) {
+      showError(submitError instanceof Error ? submitError.message : t('claim_review_submit_failed', '提交审核失败。'));
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -516,6 +694,11 @@ const ClaimReviewDetailPage: React.FC = () => {
                       </Typography>
                     </Box>
                   )}
+                  {claimData.source_evidence && (
+                    <Box sx={{ mt: 2 }}>
+                      <ClaimEvidencePanel sourceEvidence={claimData.source_evidence} />
+                    </Box>
+                  )}
                 </Box>
               </Collapse>
             </CardContent>
@@ -761,6 +944,11 @@ const ClaimReviewDetailPage: React.FC = () => {
                   {claimData.asserted_details.briefDescription && (
                       <ListItem sx={{flexDirection: 'column', alignItems: 'flex-start'}}><Typography variant="caption" color="text.secondary">{t('brief_description_label', '简要说明')}:</Typography> <Typography variant="body2" sx={{whiteSpace: 'pre-wrap'}}>{claimData.asserted_details.briefDescription}</Typography></ListItem>
                   )}
+                  {claimData.source_evidence && (
+                      <Box sx={{ px: 2, py: 1 }}>
+                        <ClaimEvidencePanel sourceEvidence={claimData.source_evidence} title={t('claim_source_evidence_title', '取值来源')} />
+                      </Box>
+                  )}
                   <Divider sx={{ my: 1 }} />
                   <Typography variant="subtitle1" sx={{mt:1, ml:2}}>{t('current_audit_status_title', '当前审核状态')}</Typography>
                   <ListItem><ListItemText primary={t('status_label', '状态')} secondary={<Chip label={claimData.audit_status} color={getStatusChipColor(claimData.audit_status)} size="small" />} secondaryTypographyProps={{ component: 'span' }} /></ListItem>
@@ -791,16 +979,35 @@ const ClaimReviewDetailPage: React.FC = () => {
                 <Paper elevation={3} sx={{ p: 2 }}>
                   <Stack direction="row" justifyContent="space-between" alignItems="center" mb={1}>
                     <Typography variant="h5">{t('creditor_submitted_attachments_title', '债权人提交的附件材料')}</Typography>
-                    <Button size="small" disabled>{t('view_history_button_placeholder', '查看历史版本 (未来功能)')}</Button>
+                    <Button
+                      size="small"
+                      disabled={!claimData.asserted_details.attachment_doc_id}
+                      onClick={() => setVersionHistoryOpen(true)}
+                    >
+                      {t('view_history_button', '查看历史版本')}
+                    </Button>
                   </Stack>
                   <Box sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 1, minHeight: 250, p: 1, bgcolor: 'action.hover' }}>
-                    <RichTextEditor
-                      value={claimData.asserted_details.attachments_content}
-                      readOnly={true}
-                      documentId={`claim-${claimData.id}-asserted-attachments-readonly`}
-                      userId={editorUserId}
-                      userName={editorUserName}
-                    />
+                    {claimData.asserted_details.attachment_doc_id ? (
+                      // 审核人以批注和修改建议的方式处理附件材料，由债权人采纳或拒绝
+                      <RichTextEditor
+                        defaultValue={claimData.asserted_details.attachments_content}
+                        documentId={claimData.asserted_details.attachment_doc_id}
+                        userId={editorUserId}
+                        userName={editorUserName}
+                        enableComments
+                        suggestOnly
+                        enableVersionHistory
+                      />
+                    ) : (
+                      <RichTextEditor
+                        value={claimData.asserted_details.attachments_content}
+                        readOnly={true}
+                        documentId={`claim-${claimData.id}-asserted-attachments-readonly`}
+                        userId={editorUserId}
+                        userName={editorUserName}
+                      />
+                    )}
                   </Box>
                 </Paper>
 
@@ -836,6 +1043,17 @@ const ClaimReviewDetailPage: React.FC = () => {
             </Fab>
         )}
 
+        {/* 附件材料版本历史（只读，可比较版本） */}
+        {claimData.asserted_details.attachment_doc_id && (
+          <Dialog open={versionHistoryOpen} onClose={() => setVersionHistoryOpen(false)} maxWidth="sm" fullWidth>
+            <VersionHistoryPanel
+              client={client}
+              documentId={claimData.asserted_details.attachment_doc_id}
+              onClose={() => setVersionHistoryOpen(false)}
+            />
+          </Dialog>
+        )}
+
         {/* Audit Modal/Form */}
         <Dialog 
           open={auditModalOpen} 
@@ -941,6 +1159,201 @@ const ClaimReviewDetailPage: React.FC = () => {
                     sx={isMobile ? { '& .MuiOutlinedInput-root': { minHeight: 56 } } : {}}
                 />
               </Grid>
+              <Grid size={12}>
+                <Paper variant="outlined" sx={{ p: 2 }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1, flexWrap: 'wrap', gap: 1 }}>
+                    <Typography variant="subtitle2">{t('interest_recalculation_title', '按合同条款重算利息')}</Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {t('case_acceptance_date_label', '破产申请受理日')}: {claimData.case_acceptance_date?.slice(0, 10) || '-'}
+                    </Typography>
+                  </Box>
+                  {!claimData.case_acceptance_date && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      {t('case_acceptance_date_missing', '案件未登记受理日期，利息将计算至今日。')}
+                    </Alert>
+                  )}
+                  <Grid container spacing={2}>
+                    <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+                      <TextField
+                          label={t('interest_start_date_label', '起息日')}
+                          type="date"
+                          fullWidth
+                          size="small"
+                          value={interestTermsForm.interest_start_date}
+                          onChange={e => updateInterestTermsForm({ interest_start_date: e.target.value })}
+                          InputLabelProps={{ shrink: true }}
+                      />
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel id="interestRateSource-label">{t('interest_rate_source_label', '利率来源')}</InputLabel>
+                        <Select
+                            labelId="interestRateSource-label"
+                            value={interestTermsForm.rate_source}
+                            label={t('interest_rate_source_label', '利率来源')}
+                            onChange={e => updateInterestTermsForm({ rate_source: e.target.value as InterestTermsForm['rate_source'] })}
+                        >
+                          <MenuItem value="fixed">{t('interest_rate_source_fixed', '合同约定利率')}</MenuItem>
+                          {(Object.keys(BENCHMARK_RATE_LABELS) as BenchmarkRateType[]).map(type => (
+                            <MenuItem key={type} value={type}>{BENCHMARK_RATE_LABELS[type]}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                    {interestTermsForm.rate_source === 'fixed' ? (
+                      <>
+                        <Grid size={{ xs: 6, md: 2 }}>
+                          <TextField
+                              label={t('contract_interest_rate_label', '约定利率（%）')}
+                              type="number"
+                              fullWidth
+                              size="small"
+                              value={interestTermsForm.interest_rate}
+                              onChange={e => updateInterestTermsForm({ interest_rate: e.target.value })}
+                              InputProps={{ inputProps: { min: 0, step: 0.01 } }}
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 6, md: 2 }}>
+                          <FormControl fullWidth size="small">
+                            <InputLabel id="interestRateType-label">{t('interest_rate_type_label', '利率类型')}</InputLabel>
+                            <Select
+                                labelId="interestRateType-label"
+                                value={interestTermsForm.rate_type}
+                                label={t('interest_rate_type_label', '利率类型')}
+                                onChange={e => updateInterestTermsForm({ rate_type: e.target.value as InterestTermsForm['rate_type'] })}
+                            >
+                              <MenuItem value="annual">{t('interest_rate_type_annual', '年利率')}</MenuItem>
+                              <MenuItem value="monthly">{t('interest_rate_type_monthly', '月利率')}</MenuItem>
+                              <MenuItem value="daily">{t('interest_rate_type_daily', '日利率')}</MenuItem>
+                            </Select>
+                          </FormControl>
+                        </Grid>
+                      </>
+                    ) : (
+                      <Grid size={{ xs: 12, md: 4 }}>
+                        <TextField
+                            label={t('interest_rate_multiplier_label', '利率倍数')}
+                            type="number"
+                            fullWidth
+                            size="small"
+                            value={interestTermsForm.rate_multiplier}
+                            onChange={e => updateInterestTermsForm({ rate_multiplier: e.target.value })}
+                            InputProps={{ inputProps: { min: 0, step: 0.1 } }}
+                        />
+                      </Grid>
+                    )}
+                    <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel id="dayCountConvention-label">{t('day_count_convention_label', '计息天数惯例')}</InputLabel>
+                        <Select
+                            labelId="dayCountConvention-label"
+                            value={interestTermsForm.day_count_convention}
+                            label={t('day_count_convention_label', '计息天数惯例')}
+                            onChange={e => updateInterestTermsForm({ day_count_convention: e.target.value as InterestTermsForm['day_count_convention'] })}
+                        >
+                          <MenuItem value="actual/365">{t('day_count_actual_365', '实际天数/365')}</MenuItem>
+                          <MenuItem value="actual/360">{t('day_count_actual_360', '实际天数/360')}</MenuItem>
+                          <MenuItem value="30/360">30/360</MenuItem>
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                    <Grid size={{ xs: 12, md: 8 }} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                      <Button variant="outlined" size="small" onClick={() => handleRecalculateInterest()}>
+                        {t('recalculate_interest_button', '重算利息')}
+                      </Button>
+                      <Button
+                          size="small"
+                          disabled={!interestRecalculation}
+                          onClick={() => {
+                            if (!interestRecalculation) return;
+                            setModalApprovedInterest(String(interestRecalculation.interest));
+                            setModalErrors(p => ({ ...p, modalApprovedInterest: '' }));
+                          }}
+                      >
+                        {t('apply_recalculated_interest_button', '采用重算利息')}
+                      </Button>
+                    </Grid>
+                  </Grid>
+                  {interestRecalculationError && (
+                    <Alert severity="error" sx={{ mt: 2 }}>{interestRecalculationError}</Alert>
+                  )}
+                  {interestRecalculation && (
+                    <Box sx={{ mt: 2 }}>
+                      <Typography variant="body2" fontWeight="600">
+                        {t('recalculated_interest_label', '重算利息')}: {formatCurrencyDisplay(interestRecalculation.interest, claimData.asserted_details.currency)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" component="pre" sx={{ whiteSpace: 'pre-wrap', fontFamily: 'monospace', m: 0 }}>
+                        {interestRecalculation.formula}
+                      </Typography>
+                    </Box>
+                  )}
+                </Paper>
+              </Grid>
+              <Grid size={12}>
+                <Typography variant="subtitle2" gutterBottom>{t('review_variance_title', '申报与认定差异')}</Typography>
+                <Box sx={{ overflowX: 'auto' }}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>{t('review_variance_component', '项目')}</TableCell>
+                        <TableCell align="right">{t('review_variance_asserted', '申报金额')}</TableCell>
+                        <TableCell align="right">{t('review_variance_approved', '认定金额')}</TableCell>
+                        <TableCell align="right">{t('review_variance_delta', '差额')}</TableCell>
+                        <TableCell sx={{ minWidth: 220 }}>{t('reduction_reasons_label', '核减理由')}</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {modalVariance.filter(row => row.component !== 'total').map(row => {
+                        const component = row.component as ClaimAmountComponent;
+                        return (
+                          <TableRow key={component}>
+                            <TableCell>{row.label}</TableCell>
+                            <TableCell align="right">{formatCurrencyDisplay(row.asserted, claimData.asserted_details.currency)}</TableCell>
+                            <TableCell align="right">{formatCurrencyDisplay(row.approved, claimData.asserted_details.currency)}</TableCell>
+                            <TableCell align="right" sx={{ color: row.delta < 0 ? 'error.main' : row.delta > 0 ? 'warning.main' : 'text.secondary' }}>
+                              {row.delta > 0 ? '+' : ''}{formatCurrencyDisplay(row.delta, claimData.asserted_details.currency)}
+                            </TableCell>
+                            <TableCell>
+                              {row.delta < 0 ? (
+                                <Select
+                                    multiple
+                                    fullWidth
+                                    size="small"
+                                    displayEmpty
+                                    value={modalReductionReasons[component] || []}
+                                    inputProps={{ 'aria-label': `${row.label}${t('reduction_reasons_label', '核减理由')}` }}
+                                    onChange={e => {
+                                      const value = e.target.value;
+                                      setModalReductionReasons(prev => ({
+                                        ...prev,
+                                        [component]: (typeof value === 'string' ? value.split(',') : value) as ClaimReductionReasonCode[],
+                                      }));
+                                      setModalErrors(p => ({ ...p, modalReductionReasons: '' }));
+                                    }}
+                                    renderValue={selected => selected.length === 0
+                                      ? <Typography variant="body2" color="text.secondary">{t('select_reduction_reasons', '请选择核减理由')}</Typography>
+                                      : (
+                                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                                          {selected.map(code => (
+                                            <Chip key={code} size="small" label={CLAIM_REDUCTION_REASON_LABELS[code]} />
+                                          ))}
+                                        </Box>
+                                      )}
+                                >
+                                  {(Object.keys(CLAIM_REDUCTION_REASON_LABELS) as ClaimReductionReasonCode[]).map(code => (
+                                    <MenuItem key={code} value={code}>{CLAIM_REDUCTION_REASON_LABELS[code]}</MenuItem>
+                                  ))}
+                                </Select>
+                              ) : '-'}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </Box>
+                {modalErrors.modalReductionReasons && <FormHelperText error>{modalErrors.modalReductionReasons}</FormHelperText>}
+              </Grid>
               <Grid size={12}>
                 <TextField
                     label={t('review_opinion_label', '审核意见/备注')}
@@ -969,6 +1382,9 @@ const ClaimReviewDetailPage: React.FC = () => {
             <Box sx={{mt:2, textAlign: isMobile ? 'center' : 'right'}}>
               <Typography variant={isMobile ? "h6" : "h6"} color="error" fontWeight="600">
                 {t('approved_total_amount_modal_label', '审核认定债权总额')}: {formatCurrencyDisplay(calculatedModalApprovedTotal, claimData.asserted_details.currency)}
+                {modalVariance.length > 0 && modalVariance[modalVariance.length - 1].delta !== 0 && (
+                  `（${t('review_variance_total_delta', '较申报')} ${formatCurrencyDisplay(modalVariance[modalVariance.length - 1].delta, claimData.asserted_details.currency)}）`
+                )}
               </Typography>
             </Box>
           </DialogContent>
@@ -982,6 +1398,7 @@ const ClaimReviewDetailPage: React.FC = () => {
             {/* // TODO: Access Control - Ensure user has permission to submit/modify a claim review. */}
             <Button 
               onClick={handleSubmitReview} 
+              disabled={isSubmitting}
               variant="contained" 
               color="primary" 
               startIcon={<SvgIcon><path d={mdiCheckDecagramOutline}/></SvgIcon>}
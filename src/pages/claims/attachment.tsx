@@ -221,9 +221,12 @@ const ClaimAttachmentPage: React.FC = () => {
             <FullscreenRichTextEditor
               value={editorContent}
               onChange={setEditorContent}
-              documentId={`claim-attachment-${claimId}`}
+              documentId={claimData.asserted_claim_details.attachment_doc_id || `claim-attachment-${claimId}`}
               userId={currentUserId}
               userName={currentUserName}
+              enableComments
+              canReviewSuggestions
+              enableVersionHistory
               contextInfo={{
                 title: `债权申报 - ${claimId}`,
                 subtitle: '附件材料编辑',
@@ -52,6 +52,9 @@ import {
   mdiPencilOutline,
   mdiEyeOutline,
   mdiFileDocumentOutline, // For attachment icon
+  mdiTableLarge,
+  mdiEmailFastOutline,
+  mdiScaleBalance,
 } from '@mdi/js';
 
 // Import mobile components
@@ -63,6 +66,9 @@ import { useResponsiveLayout } from '@/src/hooks/useResponsiveLayout';
 
 // Import the new dialog
 import AdminCreateClaimBasicInfoDialog, { AdminBasicClaimData } from '@/src/components/admin/claims/AdminCreateClaimBasicInfoDialog';
+import ClaimRegisterDialog from '@/src/components/claim/ClaimRegisterDialog';
+import ClaimNoticeDialog from '@/src/components/claim/ClaimNoticeDialog';
+import ClaimObjectionReviewDialog from '@/src/components/claim/ClaimObjectionReviewDialog';
 
 
 // 数据库原始数据接口
@@ -195,6 +201,9 @@ const ClaimListPage: React.FC = () => {
   const { selectedCaseId } = useAuth();
   const { hasPermission: canCreateClaim } = useOperationPermission('claim_create_admin');
   const { hasPermission: canBatchReject } = useOperationPermission('claim_batch_reject');
+  const { hasPermission: canManageRegister } = useOperationPermission('claim_register_manage');
+  const { hasPermission: canSendNotices } = useOperationPermission('claim_notice_manage');
+  const { hasPermission: canReviewObjections } = useOperationPermission('claim_objection_review');
   const { isMobile } = useResponsiveLayout();
 
   const [claimsData, setClaimsData] = useState<Claim[]>([]);
@@ -456,6 +465,9 @@ const ClaimListPage: React.FC = () => {
   const [rejectionReason, setRejectionReason] = useState('');
   const [rejectReasonError, setRejectReasonError] = useState('');
   const [adminCreateClaimDialogOpen, setAdminCreateClaimDialogOpen] = useState(false); // New state for admin create claim dialog
+  const [registerDialogOpen, setRegisterDialogOpen] = useState(false);
+  const [noticeDialogOpen, setNoticeDialogOpen] = useState(false);
+  const [objectionDialogOpen, setObjectionDialogOpen] = useState(false);
 
   // 无需本地筛选，数据已在服务端筛选
   const filteredClaims = claimsData;
@@ -1001,6 +1013,35 @@ const ClaimListPage: React.FC = () => {
                 {t('batch_reject_button', '批量驳回')}
               </Button>
             )}
+            {canManageRegister && selectedCaseId && (
+              <Button
+                  variant="outlined"
+                  startIcon={<SvgIcon><path d={mdiTableLarge} /></SvgIcon>}
+                  onClick={() => setRegisterDialogOpen(true)}
+              >
+                {t('claim_register_button', '债权表')}
+              </Button>
+            )}
+            {canSendNotices && selectedCaseId && (
+              <Button
+                  variant="outlined"
+                  startIcon={<SvgIcon><path d={mdiEmailFastOutline} /></SvgIcon>}
+                  onClick={() => setNoticeDialogOpen(true)}
+              >
+                {selected.length > 0
+                  ? t('claim_notice_selected_button', `发送通知书（${selected.length}）`)
+                  : t('claim_notice_button', '发送通知书')}
+              </Button>
+            )}
+            {canReviewObjections && selectedCaseId && (
+              <Button
+                  variant="outlined"
+                  startIcon={<SvgIcon><path d={mdiScaleBalance} /></SvgIcon>}
+                  onClick={() => setObjectionDialogOpen(true)}
+              >
+                {t('claim_objection_review_button', '异议复核')}
+              </Button>
+            )}
           </Stack>
         </Paper>
 
@@ -1203,6 +1244,35 @@ const ClaimListPage: React.FC = () => {
             onClose={() => setAdminCreateClaimDialogOpen(false)}
             onNext={handleAdminCreateClaimNext}
         />
+
+        {registerDialogOpen && selectedCaseId && (
+          <ClaimRegisterDialog
+              open={registerDialogOpen}
+              onClose={() => setRegisterDialogOpen(false)}
+              caseId={String(selectedCaseId)}
+          />
+        )}
+
+        {noticeDialogOpen && selectedCaseId && (
+          <ClaimNoticeDialog
+              open={noticeDialogOpen}
+              onClose={() => setNoticeDialogOpen(false)}
+              caseId={String(selectedCaseId)}
+              claimIds={selected.length > 0 ? selected : undefined}
+          />
+        )}
+
+        {objectionDialogOpen && selectedCaseId && (
+          <ClaimObjectionReviewDialog
+              open={objectionDialogOpen}
+              onClose={() => setObjectionDialogOpen(false)}
+              caseId={String(selectedCaseId)}
+              onResolved={() => {
+                fetchClaims(page, rowsPerPage, debouncedSearchTerm);
+                fetchClaimsStats();
+              }}
+          />
+        )}
       </Box>
   );
 };
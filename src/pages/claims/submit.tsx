@@ -2,7 +2,7 @@
 // TODO: Access Control - Module access (new submission) should typically be conditional on Case Status being '债权申报'. This check might be done in higher-level routing.
 // TODO: Access Control - If loaded with a claimId (for editing): Verify this claimId belongs to the logged-in creditor and is in an editable status ('草稿', '已驳回', '需要补充').
 import React, { useState, useEffect, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useSnackbar } from '@/src/contexts/SnackbarContext';
 import PageContainer from '@/src/components/PageContainer';
 import {
@@ -56,7 +56,10 @@ import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/src/contexts/AuthContext';
 import ClaimService, { ClaimData, CaseData } from '@/src/services/claimService';
 import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { usePreservedFormState } from '@/src/hooks/usePreservedFormState';
 import { Delta } from 'quill/core';
+import ClaimEvidencePanel from '@/src/components/claim/ClaimEvidencePanel';
+import type { ClaimPrefill } from '@/src/types/claimEvidence';
 
 // Import mobile components
 import MobileOptimizedLayout from '@/src/components/mobile/MobileOptimizedLayout';
@@ -118,6 +121,7 @@ const getNatureText = (nature: string) => {
 
 const ClaimSubmissionPage: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { showSuccess, showError } = useSnackbar();
   const { user } = useAuth();
   const { t } = useTranslation();
@@ -148,6 +152,37 @@ const ClaimSubmissionPage: React.FC = () => {
   // 附件材料（模拟）
   const [attachments, setAttachments] = useState<any[]>([]);
   const [editorContent, setEditorContent] = useState('');
+  // 由解析合同生成申报时的预填数据（债权人、来源文件及取值来源）
+  const [claimPrefill, setClaimPrefill] = useState<ClaimPrefill | null>(null);
+
+  // 会话过期时保留未提交的申报草稿，重新登录后恢复
+  usePreservedFormState(
+    'claim-submit',
+    {
+      isListView,
+      activeStep,
+      formData,
+      editorContent,
+      editingClaimId: editingClaim?.id ? String(editingClaim.id) : null,
+      claimPrefill,
+    },
+    (draft) => {
+      if (draft.isListView) return;
+      setIsListView(false);
+      setActiveStep(draft.activeStep);
+      setFormData(draft.formData);
+      setEditorContent(draft.editorContent);
+      if (draft.claimPrefill) {
+        setClaimPrefill(draft.claimPrefill);
+        setAttachments([draft.claimPrefill.attachment]);
+      }
+      if (draft.editingClaimId) {
+        claimService.getClaimById(draft.editingClaimId)
+          .then((claim) => setEditingClaim(claim))
+          .catch((error) => showError((error as Error).message));
+      }
+    },
+  );
 
   useEffect(() => {
     if (!user) return;
@@ -169,6 +204,36 @@ const ClaimSubmissionPage: React.FC = () => {
     fetchData();
   }, [user, claimService, showError]);
 
+  // 从PDF解析页面跳转而来时预填申报信息，预填后清除路由 state，刷新页面不再重复预填
+  useEffect(() => {
+    const prefill = (location.state as { claimPrefill?: ClaimPrefill } | null)?.claimPrefill;
+    if (!prefill) return;
+
+    const details = prefill.asserted_claim_details;
+    setClaimPrefill(prefill);
+    setEditingClaim(null);
+    setFormData({
+      case_id: prefill.case_id,
+      nature: details.nature,
+      principal: String(details.principal),
+      interest: String(details.interest),
+      otherFees: String(details.other_amount),
+      currency: details.currency,
+      description: details.brief_description,
+      has_guarantee: false,
+    });
+    setAttachments([prefill.attachment]);
+    setIsListView(false);
+    setActiveStep(0);
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, location.pathname, navigate]);
+
+  // 预填的案件可能不在当前用户作为债权人的案件中，补充到选项里
+  const caseOptions = useMemo(() => {
+    if (!claimPrefill || cases.some(c => c.id === claimPrefill.case_id)) return cases;
+    return [...cases, { id: claimPrefill.case_id, name: claimPrefill.case_name, case_number: claimPrefill.case_number }];
+  }, [cases, claimPrefill]);
+
   // 计算总额
   const calculateTotal = () => {
     const principal = parseFloat(formData.principal) || 0;
@@ -192,7 +257,7 @@ const ClaimSubmissionPage: React.FC = () => {
         // Create or update draft claim
         const claimToSave = {
           case_id: formData.case_id,
-          creditor_id: user?.id.toString() || '',
+          creditor_id: claimPrefill?.creditor_id || user?.id.toString() || '',
           asserted_claim_details: {
             nature: formData.nature,
             principal: parseFloat(formData.principal) || 0,
@@ -201,6 +266,10 @@ const ClaimSubmissionPage: React.FC = () => {
             total_asserted_amount: calculateTotal(),
             currency: formData.currency,
             brief_description: formData.description,
+            ...(claimPrefill && {
+              interest_terms: claimPrefill.asserted_claim_details.interest_terms,
+              source_evidence: claimPrefill.source_evidence,
+            }),
           },
           review_status: 'draft' as const,
         };
@@ -239,6 +308,7 @@ const ClaimSubmissionPage: React.FC = () => {
     });
     setAttachments([]);
     setEditorContent('');
+    setClaimPrefill(null);
   };
 
   const handleSubmit = () => {
@@ -552,7 +622,7 @@ const ClaimSubmissionPage: React.FC = () => {
                             },
                           }}
                         >
-                          {cases.map((c) => (
+                          {caseOptions.map((c) => (
                             <MenuItem key={c.id} value={c.id}>
                               <Box>
                                 <Typography variant="body2" fontWeight="500">
@@ -707,6 +777,14 @@ const ClaimSubmissionPage: React.FC = () => {
                 </CardContent>
               </Card>
 
+              {claimPrefill && (
+                <Card sx={{ mb: 3 }}>
+                  <CardContent>
+                    <ClaimEvidencePanel sourceEvidence={claimPrefill.source_evidence} />
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Mobile Navigation Buttons */}
               <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
                 <Button
@@ -1052,7 +1130,7 @@ const ClaimSubmissionPage: React.FC = () => {
                 label="关联案件"
                 onChange={(e) => handleFormChange('case_id', e.target.value)}
               >
-                {cases.map((c) => (
+                {caseOptions.map((c) => (
                   <MenuItem key={c.id} value={c.id}>
                     {c.name} ({c.case_number})
                   </MenuItem>
@@ -1125,6 +1203,14 @@ const ClaimSubmissionPage: React.FC = () => {
               multiline
               rows={4}
             />
+            {claimPrefill && (
+              <Box sx={{ mt: 2 }}>
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  已根据《{claimPrefill.source_evidence.file_name}》预填债权人 {claimPrefill.creditor_name} 的申报信息，原始文件已作为附件保存，请对照原文核对后继续。
+                </Alert>
+                <ClaimEvidencePanel sourceEvidence={claimPrefill.source_evidence} />
+              </Box>
+            )}
             <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 3 }}>
               <Button
                 variant="contained"
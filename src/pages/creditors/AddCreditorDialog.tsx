@@ -18,6 +18,7 @@ import {
 
 // Using Creditor type from local types file
 import type { Creditor, CreditorFormData } from './types'; // MODIFIED PATH
+import { useFieldPolicy } from '@/src/hooks/useFieldPolicy';
 
 // Form data type `CreditorFormData` moved to ./types.ts
 
@@ -38,6 +39,13 @@ const initialCreditorFormData: CreditorFormData = {
   address: '',
 };
 
+// 表单字段对应的数据库字段，用于按字段级权限控制
+const formFieldToColumn: Partial<Record<keyof CreditorFormData, string>> = {
+  identifier: 'legal_id',
+  contactInfo: 'contact_phone',
+  address: 'contact_address',
+};
+
 // Map Creditor to CreditorFormData
 const mapCreditorToFormData = (creditor: Creditor | null | undefined): CreditorFormData => {
   if (!creditor) return initialCreditorFormData;
@@ -59,6 +67,13 @@ const AddCreditorDialog: React.FC<AddCreditorDialogProps> = ({
   existingCreditor,
 }) => {
   const { t } = useTranslation();
+  const creditorFields = useFieldPolicy('creditor', existingCreditor?.case_id);
+
+  // 新增时由用户自行录入，不受限制；编辑时隐藏不可见字段，禁用脱敏和只读字段
+  const isFieldVisible = (field: keyof CreditorFormData) =>
+    !existingCreditor || !formFieldToColumn[field] || creditorFields.isVisible(formFieldToColumn[field]);
+  const isFieldEditable = (field: keyof CreditorFormData) =>
+    !existingCreditor || !formFieldToColumn[field] || creditorFields.isEditable(formFieldToColumn[field]);
 
   const [creditorData, setCreditorData] = useState<CreditorFormData>(initialCreditorFormData);
   const [formError, setFormError] = useState<string | null>(null);
@@ -93,7 +108,8 @@ const AddCreditorDialog: React.FC<AddCreditorDialogProps> = ({
   };
 
   const validateForm = () => {
-    if (!creditorData.category || !creditorData.name.trim() || !creditorData.identifier.trim()) {
+    const identifierMissing = isFieldEditable('identifier') && !creditorData.identifier?.trim();
+    if (!creditorData.category || !creditorData.name.trim() || identifierMissing) {
       setFormError(t('add_creditor_error_required_fields', '请填写所有必填字段：类别、名称和ID。'));
       return false;
     }
@@ -148,9 +164,10 @@ const AddCreditorDialog: React.FC<AddCreditorDialogProps> = ({
               onChange={handleChange}
             />
           </Grid>
-          <Grid size={{xs:12}}>
+          {isFieldVisible('identifier') && <Grid size={{xs:12}}>
             <TextField
               required
+              disabled={!isFieldEditable('identifier')}
               id="identifier"
               name="identifier"
               label={t('creditor_form_identifier_label', 'ID (统一社会信用代码/身份证号)')}
@@ -159,7 +176,7 @@ const AddCreditorDialog: React.FC<AddCreditorDialogProps> = ({
               value={creditorData.identifier}
               onChange={handleChange}
             />
-          </Grid>
+          </Grid>}
           <Grid size={{xs:12, sm:6}}>
             <TextField
               id="contactPersonName"
@@ -171,8 +188,9 @@ const AddCreditorDialog: React.FC<AddCreditorDialogProps> = ({
               onChange={handleChange}
             />
           </Grid>
-          <Grid size={{xs:12, sm:6}}>
+          {isFieldVisible('contactInfo') && <Grid size={{xs:12, sm:6}}>
             <TextField
+              disabled={!isFieldEditable('contactInfo')}
               id="contactInfo"
               name="contactInfo"
               label={t('creditor_form_contact_info_label', '联系方式')}
@@ -181,9 +199,10 @@ const AddCreditorDialog: React.FC<AddCreditorDialogProps> = ({
               value={creditorData.contactInfo}
               onChange={handleChange}
             />
-          </Grid>
-          <Grid size={{xs:12}}>
+          </Grid>}
+          {isFieldVisible('address') && <Grid size={{xs:12}}>
             <TextField
+              disabled={!isFieldEditable('address')}
               id="address"
               name="address"
               label={t('creditor_form_address_label', '地址')}
@@ -194,7 +213,7 @@ const AddCreditorDialog: React.FC<AddCreditorDialogProps> = ({
               multiline
               rows={2}
             />
-          </Grid>
+          </Grid>}
         </Grid>
       </DialogContent>
       <DialogActions>
@@ -1,4 +1,4 @@
-import React, { useState, useRef, ChangeEvent } from 'react';
+import React, { useState, useRef, useMemo, ChangeEvent } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   Dialog,
@@ -11,124 +11,522 @@ import {
   Link as MuiLink, // For download link
   SvgIcon,
   CircularProgress,
+  Stepper,
+  Step,
+  StepLabel,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Paper,
+  Select,
+  MenuItem,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  RadioGroup,
+  Radio,
+  Switch,
+  Chip,
+  Stack,
+  LinearProgress,
 } from '@mui/material';
 import { mdiFileDownloadOutline, mdiFileUploadOutline } from '@mdi/js';
+import type { RecordId } from 'surrealdb';
+import { useSurrealClient, AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import CreditorImportService from '@/src/services/creditorImportService';
+import {
+  CREDITOR_IMPORT_FIELDS,
+  buildImportErrorReport,
+  buildImportPreview,
+  getUnmappedRequiredFields,
+  guessColumnMapping,
+  readImportFile,
+} from '@/src/utils/creditorImport';
+import type {
+  CreditorColumnMapping,
+  CreditorDuplicateStrategy,
+  CreditorImportPreviewRow,
+  CreditorImportProgress,
+  CreditorImportResult,
+  ParsedImportFile,
+} from '@/src/types/creditorImport';
 
 interface BatchImportCreditorsDialogProps {
   open: boolean;
   onClose: () => void;
-  onImport: (file: File) => void;
-  isImporting?: boolean; // Optional prop to indicate import is in progress
+  caseId: RecordId | string | null;
+  /** 导入完成后回调，用于刷新列表和提示结果 */
+  onImportComplete: (result: CreditorImportResult) => void;
+  /** 导入过程中登录失效时回调 */
+  onAuthenticationRequired?: (message: string) => void;
 }
 
 // Updated template file path to CSV
-const TEMPLATE_FILE_URL = '/templates/creditor_import_template.csv'; 
+const TEMPLATE_FILE_URL = '/templates/creditor_import_template.csv';
+
+const STEP_KEYS = ['select_file', 'map_columns', 'preview', 'result'] as const;
 
 const BatchImportCreditorsDialog: React.FC<BatchImportCreditorsDialogProps> = ({
   open,
   onClose,
-  onImport,
-  isImporting = false,
+  caseId,
+  onImportComplete,
+  onAuthenticationRequired,
 }) => {
   const { t } = useTranslation();
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const client = useSurrealClient();
+  const importService = useMemo(() => new CreditorImportService(client), [client]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const [activeStep, setActiveStep] = useState(0);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [parsedFile, setParsedFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<CreditorColumnMapping>({});
+  const [previewRows, setPreviewRows] = useState<CreditorImportPreviewRow[]>([]);
+  const [duplicateStrategy, setDuplicateStrategy] = useState<CreditorDuplicateStrategy>('skip');
+  const [showProblemRowsOnly, setShowProblemRowsOnly] = useState(false);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<CreditorImportProgress | null>(null);
+  const [result, setResult] = useState<CreditorImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const invalidCount = previewRows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = previewRows.filter(row => row.errors.length === 0 && row.existing).length;
+  const importableCount = previewRows.length - invalidCount - (duplicateStrategy === 'skip' ? duplicateCount : 0);
+  const visibleRows = showProblemRowsOnly
+    ? previewRows.filter(row => row.errors.length > 0 || row.existing)
+    : previewRows;
+  const unmappedRequiredFields = getUnmappedRequiredFields(mapping);
+
+  const resetState = () => {
+    setActiveStep(0);
+    setSelectedFile(null);
+    setParsedFile(null);
+    setMapping({});
+    setPreviewRows([]);
+    setDuplicateStrategy('skip');
+    setShowProblemRowsOnly(false);
+    setPage(0);
+    setProgress(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleCloseDialog = () => {
+    if (isProcessing) return;
+    resetState(); // Clear selected file on close
+    onClose();
+  };
+
+  const handleAuthError = (err: unknown): boolean => {
+    if (err instanceof AuthenticationRequiredError) {
+      resetState();
+      onAuthenticationRequired?.(err.message);
+      return true;
+    }
+    return false;
+  };
+
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files ? event.target.files[0] : null;
     setSelectedFile(file);
+    setError(null);
   };
 
   const handleSelectFileClick = () => {
     fileInputRef.current?.click();
   };
 
-  const handleCloseDialog = () => {
-    setSelectedFile(null); // Clear selected file on close
-    onClose();
+  const handleParseFile = async () => {
+    if (!selectedFile) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const parsed = await readImportFile(selectedFile);
+      if (parsed.rows.length === 0) {
+        setError(t('batch_import_error_no_rows', '文件中没有数据行。'));
+        return;
+      }
+      setParsedFile(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setActiveStep(1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('batch_import_error_parse', '文件解析失败。'));
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const handleStartImport = () => {
-    if (selectedFile) {
-      onImport(selectedFile);
-      // Optionally clear file after starting import, or let parent manage
-      // setSelectedFile(null); 
+  const handleBuildPreview = async () => {
+    if (!parsedFile || !caseId) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const rows = buildImportPreview(parsedFile, mapping);
+      const existing = await importService.findExistingCreditors(
+        caseId,
+        rows.map(row => row.record.legal_id).filter(Boolean)
+      );
+      setPreviewRows(buildImportPreview(parsedFile, mapping, existing));
+      setPage(0);
+      setActiveStep(2);
+    } catch (err) {
+      if (!handleAuthError(err)) {
+        setError(err instanceof Error ? err.message : t('batch_import_error_preview', '生成预览失败。'));
+      }
+    } finally {
+      setIsProcessing(false);
     }
   };
 
-  return (
-    <Dialog open={open} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
-      <DialogTitle>{t('batch_import_creditors_dialog_title', '批量导入债权人')}</DialogTitle>
-      <DialogContent dividers>
-        <Box sx={{ mb: 2 }}>
-          <Typography variant="body1" gutterBottom>
-            {t('batch_import_step_1', '步骤 1: 下载模板文件')}
+  const handleStartImport = async () => {
+    if (!caseId) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const importResult = await importService.importCreditors(caseId, previewRows, {
+        duplicateStrategy,
+        onProgress: setProgress,
+      });
+      setResult(importResult);
+      setActiveStep(3);
+      onImportComplete(importResult);
+    } catch (err) {
+      if (!handleAuthError(err)) {
+        setError(err instanceof Error ? err.message : t('batch_import_error_commit', '导入失败。'));
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDownloadErrorReport = () => {
+    if (!parsedFile) return;
+    const blob = buildImportErrorReport(parsedFile.headers, previewRows, result?.rows);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `债权人导入错误报告_${selectedFile?.name.replace(/\.[^.]+$/, '') || 'import'}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const renderRowStatus = (row: CreditorImportPreviewRow) => {
+    if (row.errors.length > 0) {
+      return (
+        <Typography variant="body2" color="error">{row.errors.join('；')}</Typography>
+      );
+    }
+    if (row.existing) {
+      return (
+        <Chip
+          size="small"
+          color="warning"
+          label={t('batch_import_duplicate_existing', '与已有债权人“{{name}}”重复', { name: row.existing.name })}
+        />
+      );
+    }
+    return <Chip size="small" color="success" label={t('batch_import_row_valid', '可导入')} />;
+  };
+
+  const renderSelectFileStep = () => (
+    <>
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="body1" gutterBottom>
+          {t('batch_import_step_1', '步骤 1: 下载模板文件')}
+        </Typography>
+        <Button
+          component={MuiLink}
+          href={TEMPLATE_FILE_URL}
+          download // Suggests download to browser
+          variant="outlined"
+          startIcon={<SvgIcon><path d={mdiFileDownloadOutline} /></SvgIcon>}
+          sx={{textTransform: 'none'}}
+        >
+          {t('download_import_template_button_csv', '下载导入模板 (.csv)')}
+        </Button>
+        <Typography variant="caption" display="block" color="text.secondary" sx={{mt:0.5}}>
+          {t('batch_import_template_note_csv', '可使用此模板，也可导入任意表头的文件，下一步中对应字段即可。')}
+        </Typography>
+      </Box>
+
+      <Box sx={{ my: 3 }}>
+        <Typography variant="body1" gutterBottom>
+          {t('batch_import_step_2', '步骤 2: 选择已填写数据的文件')}
+        </Typography>
+        <input
+          type="file"
+          accept=".csv, .xlsx, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          ref={fileInputRef}
+          style={{ display: 'none' }}
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="outlined"
+          onClick={handleSelectFileClick}
+          startIcon={<SvgIcon><path d={mdiFileUploadOutline} /></SvgIcon>}
+          sx={{textTransform: 'none'}}
+        >
+          {t('select_file_button', '选择文件')}
+        </Button>
+        {selectedFile && (
+          <Typography variant="body2" sx={{ mt: 1, fontStyle: 'italic' }}>
+            {t('selected_file_label', '已选文件')}: {selectedFile.name}
           </Typography>
-          <Button
-            component={MuiLink}
-            href={TEMPLATE_FILE_URL}
-            download // Suggests download to browser
-            variant="outlined"
-            startIcon={<SvgIcon><path d={mdiFileDownloadOutline} /></SvgIcon>}
-            sx={{textTransform: 'none'}}
-          >
-            {t('download_import_template_button_csv', '下载导入模板 (.csv)')}
-          </Button>
-          <Typography variant="caption" display="block" color="text.secondary" sx={{mt:0.5}}>
-            {t('batch_import_template_note_csv', '请使用此CSV模板准备您的债权人数据。')}
+        )}
+        {!selectedFile && (
+           <Typography variant="body2" sx={{ mt: 1, color: 'text.secondary' }}>
+            {t('no_file_selected_label', '未选择文件')}
           </Typography>
-        </Box>
+        )}
+      </Box>
 
-        <Box sx={{ my: 3 }}>
-          <Typography variant="body1" gutterBottom>
-            {t('batch_import_step_2', '步骤 2: 选择已填写数据的文件')}
-          </Typography>
-          <input
-            type="file"
-            accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
-            ref={fileInputRef}
-            style={{ display: 'none' }}
-            onChange={handleFileChange}
-          />
-          <Button
-            variant="outlined"
-            onClick={handleSelectFileClick}
-            startIcon={<SvgIcon><path d={mdiFileUploadOutline} /></SvgIcon>}
-            sx={{textTransform: 'none'}}
+      <Box sx={{ mt: 2 }}>
+        <Typography variant="body2" color="text.secondary">
+          {t('batch_import_instructions', '支持 .xlsx 和 .csv 格式，首行为表头。')}
+        </Typography>
+      </Box>
+    </>
+  );
+
+  const renderMappingStep = () => (
+    <>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        {t('batch_import_mapping_hint', '请为每个债权人字段选择文件中对应的列。未映射“类别”时将根据证件号自动判断。')}
+      </Typography>
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('batch_import_creditor_field', '债权人字段')}</TableCell>
+              <TableCell>{t('batch_import_file_column', '文件列')}</TableCell>
+              <TableCell>{t('batch_import_sample_value', '示例值')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {CREDITOR_IMPORT_FIELDS.map(field => (
+              <TableRow key={field.key}>
+                <TableCell>{field.label}{field.required ? ' *' : ''}</TableCell>
+                <TableCell sx={{ minWidth: 200 }}>
+                  <FormControl fullWidth size="small">
+                    <Select
+                      value={mapping[field.key] || ''}
+                      displayEmpty
+                      inputProps={{ 'aria-label': field.label }}
+                      onChange={e => setMapping(prev => ({ ...prev, [field.key]: e.target.value || undefined }))}
+                    >
+                      <MenuItem value="">{t('batch_import_column_unmapped', '不导入')}</MenuItem>
+                      {parsedFile?.headers.map(header => (
+                        <MenuItem key={header} value={header}>{header}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary">
+                    {mapping[field.key] ? parsedFile?.rows[0]?.[mapping[field.key]!] || '-' : '-'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {unmappedRequiredFields.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          {t('batch_import_required_unmapped', '以下必填字段尚未映射：{{fields}}', { fields: unmappedRequiredFields.join('、') })}
+        </Alert>
+      )}
+    </>
+  );
+
+  const renderPreviewStep = () => (
+    <>
+      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap' }} useFlexGap>
+        <Chip label={t('batch_import_total_rows', '共 {{count}} 行', { count: previewRows.length })} />
+        <Chip color="error" variant="outlined" label={t('batch_import_invalid_rows', '错误 {{count}} 行', { count: invalidCount })} />
+        <Chip color="warning" variant="outlined" label={t('batch_import_duplicate_rows', '与已有债权人重复 {{count}} 行', { count: duplicateCount })} />
+      </Stack>
+
+      {duplicateCount > 0 && (
+        <FormControl sx={{ mb: 2 }}>
+          <FormLabel>{t('batch_import_duplicate_strategy', '重复债权人处理方式')}</FormLabel>
+          <RadioGroup
+            row
+            value={duplicateStrategy}
+            onChange={e => setDuplicateStrategy(e.target.value as CreditorDuplicateStrategy)}
           >
-            {t('select_file_button', '选择文件')}
-          </Button>
-          {selectedFile && (
-            <Typography variant="body2" sx={{ mt: 1, fontStyle: 'italic' }}>
-              {t('selected_file_label', '已选文件')}: {selectedFile.name}
-            </Typography>
-          )}
-          {!selectedFile && (
-             <Typography variant="body2" sx={{ mt: 1, color: 'text.secondary' }}>
-              {t('no_file_selected_label', '未选择文件')}
-            </Typography>
-          )}
-        </Box>
+            <FormControlLabel value="skip" control={<Radio />} label={t('batch_import_duplicate_skip', '跳过')} />
+            <FormControlLabel value="merge" control={<Radio />} label={t('batch_import_duplicate_merge', '合并更新（以文件中非空字段覆盖）')} />
+          </RadioGroup>
+        </FormControl>
+      )}
 
+      <FormControlLabel
+        control={<Switch checked={showProblemRowsOnly} onChange={e => { setShowProblemRowsOnly(e.target.checked); setPage(0); }} />}
+        label={t('batch_import_show_problem_rows', '仅显示有问题的行')}
+      />
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('batch_import_row_number', '行号')}</TableCell>
+              <TableCell>{t('creditor_type', '类别')}</TableCell>
+              <TableCell>{t('creditor_name', '名称')}</TableCell>
+              <TableCell>{t('creditor_identifier', '证件号')}</TableCell>
+              <TableCell>{t('contact_person_name', '联系人')}</TableCell>
+              <TableCell>{t('contact_phone', '联系电话')}</TableCell>
+              <TableCell>{t('batch_import_row_status', '校验结果')}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleRows.slice(page * rowsPerPage, (page + 1) * rowsPerPage).map(row => (
+              <TableRow key={row.row_number}>
+                <TableCell>{row.row_number}</TableCell>
+                <TableCell>{row.record.type === 'organization' ? '组织' : '个人'}</TableCell>
+                <TableCell>{row.record.name}</TableCell>
+                <TableCell>{row.record.legal_id}</TableCell>
+                <TableCell>{row.record.contact_person_name}</TableCell>
+                <TableCell>{row.record.contact_phone}</TableCell>
+                <TableCell>{renderRowStatus(row)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={visibleRows.length}
+        page={page}
+        onPageChange={(_, newPage) => setPage(newPage)}
+        rowsPerPage={rowsPerPage}
+        onRowsPerPageChange={e => { setRowsPerPage(parseInt(e.target.value, 10)); setPage(0); }}
+        rowsPerPageOptions={[10, 25, 50]}
+      />
+
+      {isProcessing && progress && (
         <Box sx={{ mt: 2 }}>
-          <Typography variant="body2" color="text.secondary">
-            {t('batch_import_instructions', '请确保文件格式符合模板要求。支持 .xlsx, .xls, .csv 格式。')}
+          <LinearProgress variant="determinate" value={progress.total ? (progress.processed / progress.total) * 100 : 100} />
+          <Typography variant="caption" color="text.secondary">
+            {t('batch_import_progress', '已提交 {{processed}} / {{total}} 行', { ...progress })}
           </Typography>
         </Box>
+      )}
+    </>
+  );
+
+  const renderResultStep = () => result && (
+    <>
+      <Alert severity={result.failed > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+        {t('batch_import_result_summary', '新增 {{created}} 条，合并更新 {{merged}} 条，跳过 {{skipped}} 条，失败 {{failed}} 条。', {
+          created: result.created,
+          merged: result.merged,
+          skipped: result.skipped,
+          failed: result.failed
+        })}
+      </Alert>
+      {result.failed > 0 && (
+        <Typography variant="body2" color="text.secondary">
+          {t('batch_import_result_error_hint', '失败行未导入，可下载错误报告修正后重新导入。')}
+        </Typography>
+      )}
+    </>
+  );
+
+  const hasErrorReport = invalidCount > 0 || (result?.failed ?? 0) > 0;
+
+  return (
+    <Dialog open={open} onClose={handleCloseDialog} maxWidth={activeStep === 0 ? 'sm' : 'md'} fullWidth>
+      <DialogTitle>{t('batch_import_creditors_dialog_title', '批量导入债权人')}</DialogTitle>
+      <DialogContent dividers>
+        <Stepper activeStep={activeStep} sx={{ mb: 3 }}>
+          {STEP_KEYS.map(key => (
+            <Step key={key}>
+              <StepLabel>
+                {{
+                  select_file: t('batch_import_step_select_file', '选择文件'),
+                  map_columns: t('batch_import_step_map_columns', '字段映射'),
+                  preview: t('batch_import_step_preview', '校验预览'),
+                  result: t('batch_import_step_result', '导入结果'),
+                }[key]}
+              </StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {activeStep === 0 && renderSelectFileStep()}
+        {activeStep === 1 && renderMappingStep()}
+        {activeStep === 2 && renderPreviewStep()}
+        {activeStep === 3 && renderResultStep()}
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>
+        )}
       </DialogContent>
       <DialogActions>
-        <Button onClick={handleCloseDialog} disabled={isImporting}>
+        {hasErrorReport && activeStep >= 2 && (
+          <Button onClick={handleDownloadErrorReport} disabled={isProcessing} sx={{ mr: 'auto' }}>
+            {t('batch_import_download_error_report', '下载错误报告')}
+          </Button>
+        )}
+        {activeStep < 3 && (
+          <Button onClick={handleCloseDialog} disabled={isProcessing}>
             {t('cancel_button', '取消')}
-        </Button>
-        <Button
-          onClick={handleStartImport}
-          variant="contained"
-          color="primary"
-          disabled={!selectedFile || isImporting}
-          startIcon={isImporting ? <CircularProgress size={20} color="inherit" /> : null}
-        >
-          {isImporting ? t('importing_button_text', '导入中...') : t('start_import_button', '开始导入')}
-        </Button>
+          </Button>
+        )}
+        {(activeStep === 1 || activeStep === 2) && (
+          <Button onClick={() => setActiveStep(activeStep - 1)} disabled={isProcessing}>
+            {t('previous_step_button', '上一步')}
+          </Button>
+        )}
+        {activeStep === 0 && (
+          <Button
+            onClick={handleParseFile}
+            variant="contained"
+            disabled={!selectedFile || isProcessing}
+            startIcon={isProcessing ? <CircularProgress size={20} color="inherit" /> : null}
+          >
+            {t('next_step_button', '下一步')}
+          </Button>
+        )}
+        {activeStep === 1 && (
+          <Button
+            onClick={handleBuildPreview}
+            variant="contained"
+            disabled={unmappedRequiredFields.length > 0 || !caseId || isProcessing}
+            startIcon={isProcessing ? <CircularProgress size={20} color="inherit" /> : null}
+          >
+            {t('batch_import_validate_button', '校验并预览')}
+          </Button>
+        )}
+        {activeStep === 2 && (
+          <Button
+            onClick={handleStartImport}
+            variant="contained"
+            color="primary"
+            disabled={importableCount === 0 || isProcessing}
+            startIcon={isProcessing ? <CircularProgress size={20} color="inherit" /> : null}
+          >
+            {isProcessing
+              ? t('importing_button_text', '导入中...')
+              : t('start_import_button_with_count', '导入 {{count}} 条', { count: importableCount })}
+          </Button>
+        )}
+        {activeStep === 3 && (
+          <Button onClick={handleCloseDialog} variant="contained">
+            {t('done_button', '完成')}
+          </Button>
+        )}
       </DialogActions>
     </Dialog>
   );
@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useSnackbar } from '@/src/contexts/SnackbarContext'; // Added for showSuccess
+import { useSnackbar } from '@/src/contexts/SnackbarContext';
 import {
   Dialog,
   DialogTitle,
@@ -8,76 +8,342 @@ import {
   DialogActions,
   Button,
   Typography,
-  List,
-  ListItem,
-  ListItemText,
-  Divider,
   Box,
+  Grid,
+  TextField,
+  MenuItem,
+  Autocomplete,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Alert,
+  CircularProgress,
+  Divider,
 } from '@mui/material';
-import type { Creditor } from './types'; // MODIFIED PATH
+import type { RecordId } from 'surrealdb';
+import { useSurrealClient, AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import WaybillService from '@/src/services/waybillService';
+import {
+  MAILING_DOCUMENT_OPTIONS,
+  WAYBILL_TEMPLATES,
+  assignTrackingNumbers,
+  buildWaybillPrintHtml,
+  isValidTrackingNumber,
+  printWaybillDocument,
+} from '@/src/utils/waybill';
+import type { CourierCode, WaybillEntry, WaybillSender } from '@/src/types/waybill';
+import type { Creditor } from './types';
 
 interface PrintWaybillsDialogProps {
   open: boolean;
   onClose: () => void;
   selectedCreditors: Creditor[];
+  caseId?: RecordId | string | null;
+  onPrinted?: () => void;
+  onAuthenticationRequired?: (message: string) => void;
 }
 
+type TrackingMode = 'assign' | 'manual';
+
+const EMPTY_SENDER: WaybillSender = { name: '', contact_person: '', phone: '', address: '' };
+
 const PrintWaybillsDialog: React.FC<PrintWaybillsDialogProps> = ({
   open,
   onClose,
   selectedCreditors,
+  caseId,
+  onPrinted,
+  onAuthenticationRequired,
 }) => {
   const { t } = useTranslation();
-  const { showSuccess } = useSnackbar(); // Added
-
-  const handleConfirmPrint = () => {
-    const waybillData = selectedCreditors.map(creditor => (
-      `--- Waybill ---
-      To: ${creditor.name}
-      Address: ${creditor.address}
-      Contact: ${creditor.contact_person_name}, ${creditor.contact_person_phone}
-      ID: ${creditor.identifier}
-      ---------------`
-    )).join('\n\n');
-
-    console.log("--- Mock Printing Waybills ---");
-    console.log(waybillData);
-    showSuccess(t('waybills_mock_printed_success', '快递单已（模拟）生成到控制台'));
-    // In a real scenario, trigger backend process here
-    onClose();
+  const { showSuccess } = useSnackbar();
+  const client = useSurrealClient();
+  const waybillService = useMemo(() => new WaybillService(client), [client]);
+
+  const [courier, setCourier] = useState<CourierCode>('SF');
+  const [documentName, setDocumentName] = useState<string>(MAILING_DOCUMENT_OPTIONS[0]);
+  const [sender, setSender] = useState<WaybillSender>(EMPTY_SENDER);
+  const [isLoadingSender, setIsLoadingSender] = useState<boolean>(false);
+  const [trackingMode, setTrackingMode] = useState<TrackingMode>('assign');
+  const [startNumber, setStartNumber] = useState<string>('');
+  const [trackingNumbers, setTrackingNumbers] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const template = WAYBILL_TEMPLATES[courier];
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setTrackingNumbers(selectedCreditors.map(() => ''));
+    setStartNumber('');
+    setError(null);
+
+    if (!caseId) {
+      setSender(EMPTY_SENDER);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingSender(true);
+    waybillService.getSenderInfo(caseId)
+      .then(info => {
+        if (!cancelled) setSender(info);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        if (err instanceof AuthenticationRequiredError) {
+          onAuthenticationRequired?.(err.message);
+        } else {
+          setError(err instanceof Error ? err.message : t('waybill_sender_load_failed', '获取寄件人信息失败'));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSender(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, caseId]);
+
+  const rowErrors = useMemo(() => selectedCreditors.map((creditor, index) => {
+    const trackingNumber = (trackingNumbers[index] || '').trim();
+    if (!creditor.address) {
+      return t('waybill_error_missing_address', '收件地址缺失');
+    }
+    if (!trackingNumber) {
+      return t('waybill_error_missing_tracking', '请填写运单号');
+    }
+    if (!isValidTrackingNumber(courier, trackingNumber)) {
+      return t('waybill_error_invalid_tracking', '运单号格式不正确（{{hint}}）', { hint: template.tracking_number_hint });
+    }
+    if (trackingNumbers.findIndex(other => (other || '').trim() === trackingNumber) !== index) {
+      return t('waybill_error_duplicate_tracking', '运单号重复');
+    }
+    return null;
+  }), [selectedCreditors, trackingNumbers, courier, template, t]);
+
+  const senderIncomplete = !sender.name.trim() || !sender.phone.trim() || !sender.address.trim();
+  const canPrint = selectedCreditors.length > 0
+    && rowErrors.every(rowError => rowError === null)
+    && !senderIncomplete
+    && documentName.trim() !== ''
+    && !isSubmitting;
+
+  const handleAssign = () => {
+    try {
+      setTrackingNumbers(assignTrackingNumbers(startNumber, selectedCreditors.length));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('waybill_assign_failed', '分配运单号失败'));
+    }
+  };
+
+  const handleTrackingNumberChange = (index: number, value: string) => {
+    setTrackingNumbers(prev => prev.map((current, i) => (i === index ? value.toUpperCase() : current)));
+  };
+
+  const handleConfirmPrint = async () => {
+    if (!caseId) {
+      setError(t('error_no_case_selected', '请先选择一个案件。'));
+      return;
+    }
+    const entries: WaybillEntry[] = selectedCreditors.map((creditor, index) => ({
+      creditor_id: creditor.id,
+      recipient_name: creditor.name,
+      contact_person: creditor.contact_person_name,
+      phone: creditor.contact_person_phone,
+      address: creditor.address,
+      tracking_number: trackingNumbers[index].trim(),
+    }));
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const printedAt = new Date();
+      // 先保存寄送记录（运单号唯一性由数据库保证），成功后再打印
+      await waybillService.recordMailings(caseId, courier, documentName.trim(), entries, printedAt);
+      printWaybillDocument(buildWaybillPrintHtml(template, entries, sender, documentName.trim(), printedAt));
+      showSuccess(t('waybills_printed_success', '已生成 {{count}} 张快递单并保存寄送记录', { count: entries.length }));
+      onPrinted?.();
+      onClose();
+    } catch (err) {
+      if (err instanceof AuthenticationRequiredError) {
+        onAuthenticationRequired?.(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : t('waybills_print_failed', '打印快递单失败'));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
       <DialogTitle>{t('print_waybills_dialog_title', '确认打印快递单号')}</DialogTitle>
       <DialogContent dividers>
         <Typography variant="body1" gutterBottom>
           {t('print_waybills_confirmation_intro', '将为以下 {{count}} 位债权人打印快递单:', { count: selectedCreditors.length })}
         </Typography>
-        <Box sx={{ maxHeight: 300, overflow: 'auto', my:1 }}> {/* Scrollable list area */}
-          <List dense>
-            {selectedCreditors.map((creditor) => (
-              <ListItem key={creditor.id} disablePadding>
-                <ListItemText 
-                    primary={creditor.name} 
-                    secondary={`${t('creditor_id_label', 'ID')}: ${creditor.identifier} - ${t('address_label', '地址')}: ${creditor.address}`} 
-                />
-              </ListItem>
-            ))}
-          </List>
-        </Box>
-        <Divider sx={{my:1}}/>
-        <Typography variant="caption" color="text.secondary">
-            {t('print_waybills_final_confirmation_note', '请确保打印机已连接并准备就绪。')}
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Grid container spacing={2} sx={{ mt: 1 }}>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label={t('waybill_courier_label', '快递公司')}
+              value={courier}
+              onChange={(e) => setCourier(e.target.value as CourierCode)}
+            >
+              {Object.values(WAYBILL_TEMPLATES).map(option => (
+                <MenuItem key={option.courier} value={option.courier}>
+                  {option.name}（{option.width_mm}×{option.height_mm}mm）
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 12, md: 6 }}>
+            <Autocomplete
+              freeSolo
+              options={MAILING_DOCUMENT_OPTIONS}
+              inputValue={documentName}
+              onInputChange={(_event, value) => setDocumentName(value)}
+              renderInput={(params) => (
+                <TextField {...params} size="small" label={t('waybill_document_label', '寄送文书')} />
+              )}
+            />
+          </Grid>
+        </Grid>
+
+        <Divider sx={{ my: 2 }} />
+        <Typography variant="subtitle2" gutterBottom>
+          {t('waybill_sender_title', '寄件人（案件管理人）')}
+          {isLoadingSender && <CircularProgress size={14} sx={{ ml: 1 }} />}
+        </Typography>
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label={t('waybill_sender_name', '管理人名称')}
+              value={sender.name}
+              onChange={(e) => setSender(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label={t('waybill_sender_contact', '联系人')}
+              value={sender.contact_person}
+              onChange={(e) => setSender(prev => ({ ...prev, contact_person: e.target.value }))}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label={t('waybill_sender_phone', '联系电话')}
+              value={sender.phone}
+              onChange={(e) => setSender(prev => ({ ...prev, phone: e.target.value }))}
+            />
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label={t('waybill_sender_address', '寄件地址')}
+              value={sender.address}
+              onChange={(e) => setSender(prev => ({ ...prev, address: e.target.value }))}
+            />
+          </Grid>
+        </Grid>
+        {senderIncomplete && !isLoadingSender && (
+          <Alert severity="warning" sx={{ mt: 1 }}>
+            {t('waybill_sender_incomplete', '请补全寄件人名称、电话和地址。')}
+          </Alert>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+        <RadioGroup
+          row
+          value={trackingMode}
+          onChange={(e) => setTrackingMode(e.target.value as TrackingMode)}
+        >
+          <FormControlLabel value="assign" control={<Radio />} label={t('waybill_tracking_assign', '从起始单号连号分配')} />
+          <FormControlLabel value="manual" control={<Radio />} label={t('waybill_tracking_manual', '逐个录入运单号')} />
+        </RadioGroup>
+        {trackingMode === 'assign' && (
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', my: 1 }}>
+            <TextField
+              size="small"
+              label={t('waybill_start_number', '起始运单号')}
+              value={startNumber}
+              onChange={(e) => setStartNumber(e.target.value)}
+              helperText={template.tracking_number_hint}
+            />
+            <Button variant="outlined" onClick={handleAssign} disabled={!startNumber.trim()}>
+              {t('waybill_assign_button', '分配运单号')}
+            </Button>
+          </Box>
+        )}
+
+        <TableContainer sx={{ maxHeight: 320 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('table_header_name', '姓名/名称')}</TableCell>
+                <TableCell>{t('address_label', '地址')}</TableCell>
+                <TableCell sx={{ minWidth: 220 }}>{t('waybill_tracking_number', '运单号')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {selectedCreditors.map((creditor, index) => (
+                <TableRow key={String(creditor.id)}>
+                  <TableCell>
+                    <Typography variant="body2">{creditor.name}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {t('creditor_id_label', 'ID')}: {creditor.identifier}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{creditor.address}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={trackingNumbers[index] ?? ''}
+                      onChange={(e) => handleTrackingNumberChange(index, e.target.value)}
+                      error={Boolean(rowErrors[index]) && (Boolean(trackingNumbers[index]) || !creditor.address)}
+                      helperText={(trackingNumbers[index] || !creditor.address) ? rowErrors[index] : undefined}
+                      inputProps={{ 'aria-label': t('waybill_tracking_number_for', '{{name}} 的运单号', { name: creditor.name }) }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          {t('print_waybills_final_confirmation_note', '请确保打印机已连接并准备就绪。')}
+          {t('waybill_paper_size_note', '请在打印设置中选择 {{width}}×{{height}}mm 标签纸，边距设为无。', { width: template.width_mm, height: template.height_mm })}
         </Typography>
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose}>{t('cancel_button', '取消')}</Button>
-        <Button 
-          onClick={handleConfirmPrint} 
-          variant="contained" 
+        <Button
+          onClick={handleConfirmPrint}
+          variant="contained"
           color="primary"
-          disabled={selectedCreditors.length === 0}
+          disabled={!canPrint}
+          startIcon={isSubmitting ? <CircularProgress size={16} /> : undefined}
         >
           {t('confirm_print_button', '确认打印')}
         </Button>
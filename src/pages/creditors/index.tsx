@@ -1,7 +1,6 @@
 // TODO: Automatic Navigation - Logic for navigating to this page when case status is '立案' should be handled in higher-level routing (e.g., App.tsx or ProtectedRoute.tsx).
 // TODO: Access Control - Page access to Creditor Management itself should be controlled via routing based on user permissions (e.g., has 'view_creditors' or a general case access permission).
 import React, { useState, useEffect } from 'react';
-import Papa from 'papaparse'; // Added for CSV parsing
 import {
   Box,
   Typography,
@@ -24,6 +23,9 @@ import {
   Alert, // Added for error state
   TablePagination, // Added for pagination
   LinearProgress,
+  Chip,
+  Menu,
+  MenuItem,
 } from '@mui/material';
 import { 
   mdiAccountPlusOutline, 
@@ -44,7 +46,11 @@ import { useTranslation } from 'react-i18next';
 import { useSnackbar } from '@/src/contexts/SnackbarContext';
 import PrintWaybillsDialog from './PrintWaybillsDialog'; // MODIFIED PATH
 import AddCreditorDialog from './AddCreditorDialog'; // MODIFIED PATH
-import type { CreditorFormData, Creditor, RawCreditorData, CountResult, CsvRowData } from './types'; // MODIFIED PATH for type
+import type { CreditorFormData, Creditor, RawCreditorData, CountResult } from './types'; // MODIFIED PATH for type
+import type { CreditorImportResult } from '@/src/types/creditorImport';
+import type { DeliveryStatus, DeliveryStatusFilter } from '@/src/types/waybill';
+import { DELIVERY_STATUS_LABELS } from '@/src/utils/waybill';
+import WaybillService from '@/src/services/waybillService';
 import BatchImportCreditorsDialog from './BatchImportCreditorsDialog'; // MODIFIED PATH
 import CreditorClaimsDialog from './CreditorClaimsDialog';
 import ConfirmDeleteDialog from '@/src/components/common/ConfirmDeleteDialog';
@@ -56,6 +62,8 @@ import { useOperationPermission } from '@/src/hooks/usePermission';
 import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider'; // Added for new auth check
 import { useNavigate } from 'react-router-dom'; // Added for navigation
 import { queryWithAuth } from '@/src/utils/surrealAuth'; // Added for auth queries
+import { fieldPolicyService } from '@/src/services/fieldPolicyService';
+import { useFieldPolicy } from '@/src/hooks/useFieldPolicy';
 
 // Creditor interface moved to ./types.ts
 
@@ -66,6 +74,7 @@ const CreditorListPage: React.FC = () => {
   const { showSuccess, showError, showInfo } = useSnackbar(); // Added showError and showInfo
   const { selectedCaseId, user, hasRole } = useAuth(); // Added user and hasRole
   const client = useSurrealClient(); // Updated to use client
+  const waybillService = React.useMemo(() => new WaybillService(client), [client]);
   const navigate = useNavigate(); // Added for navigation
   const { isMobile } = useResponsiveLayout();
 
@@ -80,6 +89,7 @@ const CreditorListPage: React.FC = () => {
   const { hasPermission: canDelete } = useOperationPermission('creditor_delete');
   const { hasPermission: canBatchImport } = useOperationPermission('creditor_batch_import');
   const { hasPermission: canPrintWaybill } = useOperationPermission('creditor_print_waybill');
+  const creditorFields = useFieldPolicy('creditor', selectedCaseId);
 
   const [creditors, setCreditors] = useState<Creditor[]>([]); // Initialize with empty array
   const [isLoading, setIsLoading] = useState<boolean>(true); // Added
@@ -87,6 +97,7 @@ const CreditorListPage: React.FC = () => {
   const [selectedCreditorIds, setSelectedCreditorIds] = useState<(RecordId | string)[]>([]);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const debouncedSearchTerm = useDebounce(searchTerm, 500); // ADDED
+  const [deliveryStatusFilter, setDeliveryStatusFilter] = useState<DeliveryStatusFilter>('all');
 
   // Pagination states
   const [page, setPage] = useState<number>(0);
@@ -98,8 +109,6 @@ const CreditorListPage: React.FC = () => {
   const [addCreditorOpen, setAddCreditorOpen] = useState<boolean>(false);
   const [batchImportOpen, setBatchImportOpen] = useState<boolean>(false);
   const [editingCreditor, setEditingCreditor] = useState<Creditor | null>(null);
-  // const [isImporting, setIsImporting] = useState<boolean>(false); // Replaced by isBatchProcessing
-  const [isBatchProcessing, setIsBatchProcessing] = useState<boolean>(false); // Added for batch import loading state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
   const [creditorToDelete, setCreditorToDelete] = useState<Creditor | null>(null);
   
@@ -107,7 +116,11 @@ const CreditorListPage: React.FC = () => {
   const [claimsDialogOpen, setClaimsDialogOpen] = useState<boolean>(false);
   const [selectedCreditorForClaims, setSelectedCreditorForClaims] = useState<Creditor | null>(null);
 
-  const fetchCreditors = React.useCallback(async (currentPage: number, currentRowsPerPage: number, currentSearchTerm: string) => {
+  // Delivery status menu states
+  const [statusMenuAnchor, setStatusMenuAnchor] = useState<HTMLElement | null>(null);
+  const [statusMenuCreditor, setStatusMenuCreditor] = useState<Creditor | null>(null);
+
+  const fetchCreditors = React.useCallback(async (currentPage: number, currentRowsPerPage: number, currentSearchTerm: string, currentDeliveryStatus: DeliveryStatusFilter = 'all') => {
     if (!selectedCaseId || !client) {
       setCreditors([]);
       setTotalCreditors(0);
@@ -131,11 +144,16 @@ const CreditorListPage: React.FC = () => {
         type, 
         name, 
         legal_id, 
+        legal_id_masked,
         contact_person_name, 
         contact_phone, 
+        contact_phone_masked,
         contact_address, 
+        contact_address_masked,
         created_at, 
-        case_id
+        case_id,
+        delivery_status,
+        last_tracking_number
       FROM creditor WHERE case_id = $caseId`;
       let countQuery = 'SELECT count() AS total FROM creditor WHERE case_id = $caseId';
       const queryParams: Record<string, unknown> = {
@@ -147,9 +165,20 @@ const CreditorListPage: React.FC = () => {
       
       if (currentSearchTerm && currentSearchTerm.trim() !== '') {
         // Full-text search across all relevant fields
-        searchConditions.push(`AND (name @@ $searchTerm OR legal_id @@ $searchTerm OR contact_person_name @@ $searchTerm OR contact_phone @@ $searchTerm OR contact_address @@ $searchTerm)`);
+        // 只搜索当前用户可以查看原文的字段，避免通过搜索探测被隐藏或脱敏的信息
+        const searchFields = ['name', 'legal_id', 'contact_person_name', 'contact_phone', 'contact_address']
+          .filter(field => ['readonly', 'editable'].includes(fieldPolicyService.resolveAccess('creditor', field, selectedCaseId)));
+        searchConditions.push(`AND (${searchFields.map(field => `${field} @@ $searchTerm`).join(' OR ')})`);
         queryParams.searchTerm = currentSearchTerm;
       }
+
+      // Delivery status filter (not_sent means the creditor has never been mailed)
+      if (currentDeliveryStatus === 'not_sent') {
+        searchConditions.push('AND delivery_status IS NONE');
+      } else if (currentDeliveryStatus !== 'all') {
+        searchConditions.push('AND delivery_status = $deliveryStatus');
+        queryParams.deliveryStatus = currentDeliveryStatus;
+      }
       
       // Apply search conditions
       const searchConditionStr = searchConditions.join(' ');
@@ -202,6 +231,8 @@ const CreditorListPage: React.FC = () => {
             updated_at: cred.updated_at,
             total_claim_amount: totalClaimAmount,
             claim_count: claimCount,
+            delivery_status: cred.delivery_status,
+            last_tracking_number: cred.last_tracking_number,
           });
         } catch (claimErr) {
           console.warn(`Failed to fetch claim data for creditor ${cred.id}:`, claimErr);
@@ -219,6 +250,8 @@ const CreditorListPage: React.FC = () => {
             updated_at: cred.updated_at,
             total_claim_amount: 0,
             claim_count: 0,
+            delivery_status: cred.delivery_status,
+            last_tracking_number: cred.last_tracking_number,
           });
         }
       }
@@ -231,6 +264,9 @@ const CreditorListPage: React.FC = () => {
       if (currentSearchTerm && currentSearchTerm.trim() !== '') {
         countQueryParams.searchTerm = currentSearchTerm;
       }
+      if (queryParams.deliveryStatus) {
+        countQueryParams.deliveryStatus = queryParams.deliveryStatus;
+      }
       const countResult: unknown = await queryWithAuth(client, countQuery, countQueryParams);
 
       // SurrealDB's count() GROUP ALL returns an array with an object, e.g., [{ total: 50 }]
@@ -262,13 +298,13 @@ const CreditorListPage: React.FC = () => {
   }, [selectedCaseId, client]); // 移除经常变化的函数依赖
 
   useEffect(() => {
-    // Reset page to 0 when debouncedSearchTerm changes
+    // Reset page to 0 when debouncedSearchTerm or delivery status filter changes
     setPage(0);
-  }, [debouncedSearchTerm]);
+  }, [debouncedSearchTerm, deliveryStatusFilter]);
 
   useEffect(() => {
-    fetchCreditors(page, rowsPerPage, debouncedSearchTerm);
-  }, [fetchCreditors, page, rowsPerPage, debouncedSearchTerm]);
+    fetchCreditors(page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter);
+  }, [fetchCreditors, page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter]);
 
   const handleChangePage = (_event: React.MouseEvent<HTMLButtonElement> | null, newPage: number) => {
     setPage(newPage);
@@ -352,13 +388,14 @@ const CreditorListPage: React.FC = () => {
         };
 
         // dataToSave.id is the full record ID string like 'creditor:uuid'
+        // 只提交可编辑的字段，脱敏后的值不能写回
         await queryWithAuth(client, 'UPDATE $id MERGE $data;', {
           id: dataToSave.id,
-          data: dataForUpdate
+          data: fieldPolicyService.pickWritable('creditor', dataForUpdate, selectedCaseId)
         });
 
         showSuccess(t('creditor_updated_success', '债权人已成功更新'));
-        fetchCreditors(page, rowsPerPage, debouncedSearchTerm); // Refresh the list
+        fetchCreditors(page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter); // Refresh the list
         handleCloseAddCreditorDialog();
       } catch (err) {
         console.error("Error updating creditor:", err);
@@ -399,7 +436,7 @@ const CreditorListPage: React.FC = () => {
         const result = await queryWithAuth(client, 'CREATE creditor CONTENT $data', { data: newCreditorData });
         console.log("Creditor created successfully:", result);
         showSuccess(t('creditor_added_success', '债权人已成功添加'));
-        fetchCreditors(page, rowsPerPage, debouncedSearchTerm); // Refresh the creditor list
+        fetchCreditors(page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter); // Refresh the creditor list
         handleCloseAddCreditorDialog();
       } catch (err) { // ADDED opening brace
         console.error("Error creating creditor:", err);
@@ -420,104 +457,29 @@ const CreditorListPage: React.FC = () => {
     setBatchImportOpen(true);
   };
 
-  const handleImportCreditors = (file: File) => {
-    if (!selectedCaseId || !client) {
-      showError(t('import_error_no_case_or_db', '无法导入：未选择案件或数据库未连接。'));
-      setBatchImportOpen(false);
-      return;
+  const handleImportComplete = (result: CreditorImportResult) => {
+    fetchCreditors(page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter); // Refresh the main list
+
+    const importedCount = result.created + result.merged;
+    if (result.failed > 0) {
+      showError(t('batch_import_summary_with_errors',
+        '批量导入部分完成：成功 {{successCount}} 条，失败 {{failureCount}} 条。详情请下载错误报告。',
+        { successCount: importedCount, failureCount: result.failed }
+      ));
+    } else if (importedCount > 0) {
+      showSuccess(t('batch_import_summary_all_success',
+        '批量导入成功：共导入 {{successCount}} 条记录。',
+        { successCount: importedCount }
+      ));
+    } else {
+      showInfo(t('batch_import_summary_no_valid_rows', '批量导入：未找到有效数据行进行导入。'));
     }
+  };
 
-    setIsBatchProcessing(true);
-
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: async (results) => {
-        let successfulImports = 0;
-        let failedImports = 0;
-        const errors: string[] = [];
-
-        // Assuming CSV headers are: 类别, 名称, ID/统一码, 联系人姓名, 联系方式, 地址
-        // Match these with the actual headers in public/templates/creditor_import_template.csv
-        const expectedHeaders = {
-          type: '类别',
-          name: '名称',
-          identifier: 'ID/统一码',
-          contact_person_name: '联系人姓名',
-          contact_person_phone: '联系方式',
-          address: '地址',
-        };
-
-        for (const row of results.data as CsvRowData[]) {
-          if (!row[expectedHeaders.name] || !row[expectedHeaders.identifier] || !row[expectedHeaders.type]) {
-            failedImports++;
-            errors.push(t('import_error_missing_fields_row', '无效行数据 (缺少必填字段: 名称, ID/统一码, 类别): {{rowJson}}', {rowJson: JSON.stringify(row)}));
-            continue;
-          }
-
-          const typeValue = row[expectedHeaders.type] as string;
-          if (typeValue !== '组织' && typeValue !== '个人') {
-            failedImports++;
-            errors.push(t('import_error_invalid_type_row', '无效行数据 (类别必须是 "组织" 或 "个人"): {{rowJson}}', {rowJson: JSON.stringify(row)}));
-            continue;
-          }
-
-          const creditorDataToCreate = {
-            case_id: selectedCaseId,
-            type: typeValue === '组织' ? 'organization' : 'individual',
-            name: row[expectedHeaders.name],
-            legal_id: row[expectedHeaders.identifier],
-            contact_person_name: row[expectedHeaders.contact_person_name] || '',
-            contact_phone: row[expectedHeaders.contact_person_phone] || '',
-            contact_address: row[expectedHeaders.address] || '',
-            created_by: user?.id, // Explicitly set created_by to current user's ID
-          };
-
-          try {
-            await queryWithAuth(client, 'CREATE creditor CONTENT $data', { data: creditorDataToCreate });
-            successfulImports++;
-          } catch (err: unknown) {
-            const error = err as Error;
-            // Check if it's an authentication error
-            if (err instanceof AuthenticationRequiredError) {
-              // Authentication failed, stop import and redirect to login
-              navigate('/login');
-              showError(error.message);
-              break;
-            }
-            
-            failedImports++;
-            console.error('Failed to import creditor row:', row, err);
-            errors.push(t('import_error_db_error_row', '导入失败 (数据库错误) 行: {{rowJson}} - {{errorMessage}}', { rowJson: JSON.stringify(row), errorMessage: error.message }));
-          }
-        }
-
-        setIsBatchProcessing(false);
-        setBatchImportOpen(false); // Close dialog
-        fetchCreditors(page, rowsPerPage, debouncedSearchTerm); // Refresh the main list
-
-        if (failedImports > 0) {
-          showError(t('batch_import_summary_with_errors',
-            '批量导入部分完成：成功 {{successCount}} 条，失败 {{failureCount}} 条。详情请查看控制台。',
-            { successCount: successfulImports, failureCount: failedImports }
-          ));
-          console.warn("Batch import errors:", errors);
-        } else if (successfulImports > 0) {
-          showSuccess(t('batch_import_summary_all_success',
-            '批量导入成功：共导入 {{successCount}} 条记录。',
-            { successCount: successfulImports }
-          ));
-        } else {
-          showInfo(t('batch_import_summary_no_valid_rows', '批量导入：未找到有效数据行进行导入。'));
-        }
-      },
-      error: (error: Error) => {
-        console.error("CSV parsing error:", error);
-        showError(t('csv_parse_error', 'CSV文件解析失败。'));
-        setIsBatchProcessing(false);
-        setBatchImportOpen(false);
-      }
-    });
+  const handleImportAuthError = (message: string) => {
+    setBatchImportOpen(false);
+    showError(message);
+    navigate('/login');
   };
 
   // Delete handlers
@@ -550,7 +512,7 @@ const CreditorListPage: React.FC = () => {
       await queryWithAuth(client, 'DELETE $id;', { id: creditorToDelete.id });
 
       showSuccess(t('creditor_deleted_success', '债权人已成功删除'));
-      fetchCreditors(page, rowsPerPage, debouncedSearchTerm); // Refresh the list
+      fetchCreditors(page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter); // Refresh the list
     } catch (err) {
       console.error("Error deleting creditor:", err);
       
@@ -578,6 +540,104 @@ const CreditorListPage: React.FC = () => {
     setSelectedCreditorForClaims(null);
   };
 
+  // Waybill printing / delivery status handlers
+  const handleWaybillsPrinted = () => {
+    setSelectedCreditorIds([]);
+    fetchCreditors(page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter); // Refresh delivery status
+  };
+
+  const handleWaybillAuthError = (message: string) => {
+    setPrintWaybillsDialogOpen(false);
+    showError(message);
+    navigate('/login');
+  };
+
+  const handleOpenStatusMenu = (event: React.MouseEvent<HTMLElement>, creditor: Creditor) => {
+    event.stopPropagation();
+    setStatusMenuAnchor(event.currentTarget);
+    setStatusMenuCreditor(creditor);
+  };
+
+  const handleCloseStatusMenu = () => {
+    setStatusMenuAnchor(null);
+    setStatusMenuCreditor(null);
+  };
+
+  const handleUpdateDeliveryStatus = async (status: DeliveryStatus) => {
+    const creditor = statusMenuCreditor;
+    handleCloseStatusMenu();
+    if (!creditor) {
+      return;
+    }
+    try {
+      await waybillService.updateDeliveryStatus(creditor.id, status);
+      showSuccess(t('delivery_status_updated_success', '投递状态已更新'));
+      fetchCreditors(page, rowsPerPage, debouncedSearchTerm, deliveryStatusFilter); // Refresh the list
+    } catch (err) {
+      console.error("Error updating delivery status:", err);
+      if (err instanceof AuthenticationRequiredError) {
+        navigate('/login');
+        showError(err.message);
+      } else {
+        showError(t('delivery_status_update_failed', '更新投递状态失败'));
+      }
+    }
+  };
+
+  const renderDeliveryStatus = (creditor: Creditor) => {
+    if (!creditor.delivery_status) {
+      return <Chip size="small" variant="outlined" label={t('delivery_status_not_sent', '未寄送')} />;
+    }
+    const color = creditor.delivery_status === 'delivered'
+      ? 'success'
+      : creditor.delivery_status === 'returned' ? 'error' : 'info';
+    return (
+      <Tooltip title={creditor.last_tracking_number ? `${t('waybill_tracking_number', '运单号')}: ${creditor.last_tracking_number}` : ''}>
+        <Chip
+          size="small"
+          color={color}
+          label={t(`delivery_status_${creditor.delivery_status}`, DELIVERY_STATUS_LABELS[creditor.delivery_status])}
+          onClick={canPrintWaybill ? (event) => handleOpenStatusMenu(event, creditor) : undefined}
+        />
+      </Tooltip>
+    );
+  };
+
+  const deliveryStatusFilterField = (
+    <TextField
+      select
+      label={t('delivery_status_filter_label', '投递状态')}
+      size="small"
+      value={deliveryStatusFilter}
+      onChange={(e) => setDeliveryStatusFilter(e.target.value as DeliveryStatusFilter)}
+      sx={{ minWidth: 140 }}
+    >
+      <MenuItem value="all">{t('delivery_status_all', '全部')}</MenuItem>
+      <MenuItem value="not_sent">{t('delivery_status_not_sent', '未寄送')}</MenuItem>
+      {(Object.keys(DELIVERY_STATUS_LABELS) as DeliveryStatus[]).map(status => (
+        <MenuItem key={status} value={status}>{t(`delivery_status_${status}`, DELIVERY_STATUS_LABELS[status])}</MenuItem>
+      ))}
+    </TextField>
+  );
+
+  const deliveryStatusMenu = (
+    <Menu
+      anchorEl={statusMenuAnchor}
+      open={Boolean(statusMenuAnchor)}
+      onClose={handleCloseStatusMenu}
+    >
+      {(Object.keys(DELIVERY_STATUS_LABELS) as DeliveryStatus[]).map(status => (
+        <MenuItem
+          key={status}
+          selected={statusMenuCreditor?.delivery_status === status}
+          onClick={() => handleUpdateDeliveryStatus(status)}
+        >
+          {t(`delivery_status_${status}`, DELIVERY_STATUS_LABELS[status])}
+        </MenuItem>
+      ))}
+    </Menu>
+  );
+
   // Mobile rendering
   if (isMobile) {
     return (
@@ -609,6 +669,7 @@ const CreditorListPage: React.FC = () => {
                 ),
               }}
             />
+            <Box sx={{ mt: 1 }}>{deliveryStatusFilterField}</Box>
           </Box>
 
           {/* Mobile Action Buttons */}
@@ -750,6 +811,9 @@ const CreditorListPage: React.FC = () => {
           open={printWaybillsDialogOpen}
           onClose={() => setPrintWaybillsDialogOpen(false)}
           selectedCreditors={creditorsToPrint}
+          caseId={selectedCaseId}
+          onPrinted={handleWaybillsPrinted}
+          onAuthenticationRequired={handleWaybillAuthError}
         />
         <AddCreditorDialog
           open={addCreditorOpen}
@@ -760,8 +824,9 @@ const CreditorListPage: React.FC = () => {
         <BatchImportCreditorsDialog
           open={batchImportOpen}
           onClose={() => setBatchImportOpen(false)}
-          onImport={handleImportCreditors}
-          isImporting={isBatchProcessing}
+          caseId={selectedCaseId}
+          onImportComplete={handleImportComplete}
+          onAuthenticationRequired={handleImportAuthError}
         />
         <ConfirmDeleteDialog
           open={deleteDialogOpen}
@@ -779,6 +844,7 @@ const CreditorListPage: React.FC = () => {
           onClose={handleCloseCreditorClaims}
           creditor={selectedCreditorForClaims}
         />
+        {deliveryStatusMenu}
       </MobileOptimizedLayout>
     );
   }
@@ -807,6 +873,7 @@ const CreditorListPage: React.FC = () => {
             }}
             sx={{ minWidth: '400px', maxWidth: '600px' }}
           />
+          <Box component="span" sx={{ ml: 2 }}>{deliveryStatusFilterField}</Box>
         </Box>
 
       {/* 操作按钮区域 */}
@@ -853,31 +920,32 @@ const CreditorListPage: React.FC = () => {
                 <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_no', '序号')}</TableCell>
                 <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_type', '类别')}</TableCell>
                 <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_name', '姓名/名称')}</TableCell>
-                <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_identifier', 'ID/统一码')}</TableCell>
+                {creditorFields.isVisible('legal_id') && <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_identifier', 'ID/统一码')}</TableCell>}
                 <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_contact_person', '联系人')}</TableCell>
-                <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_contact_phone', '联系方式')}</TableCell>
-                <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_address', '地址')}</TableCell>
+                {creditorFields.isVisible('contact_phone') && <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_contact_phone', '联系方式')}</TableCell>}
+                {creditorFields.isVisible('contact_address') && <TableCell sx={{whiteSpace: 'nowrap'}}>{t('table_header_address', '地址')}</TableCell>}
                 <TableCell align="right" sx={{whiteSpace: 'nowrap'}}>{t('table_header_claim_amount', '债权金额')}</TableCell>
                 <TableCell align="center" sx={{whiteSpace: 'nowrap'}}>{t('table_header_claim_count', '债权数量')}</TableCell>
+                <TableCell align="center" sx={{whiteSpace: 'nowrap'}}>{t('table_header_delivery_status', '投递状态')}</TableCell>
                 <TableCell align="center" sx={{whiteSpace: 'nowrap'}}>{t('table_header_actions', '操作')}</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={11} align="center" sx={{ py: 3 }}>
+                  <TableCell colSpan={12} align="center" sx={{ py: 3 }}>
                     <CircularProgress />
                     <Typography sx={{ mt: 1 }}>{t('loading_creditors', '正在加载债权人数据...')}</Typography>
                   </TableCell>
                 </TableRow>
               ) : error ? (
                 <TableRow>
-                  <TableCell colSpan={11} align="center" sx={{ py: 3 }}>
+                  <TableCell colSpan={12} align="center" sx={{ py: 3 }}>
                     <Alert severity="error" sx={{ justifyContent: 'center' }}>{error}</Alert>
                   </TableCell>
                 </TableRow>
               ) : creditors.length === 0 ? ( // Use creditors instead of filteredCreditors
-                <TableRow><TableCell colSpan={11} align="center"><Typography sx={{p:2}}>{debouncedSearchTerm ? t('no_matching_creditors_found', '没有找到匹配的债权人') : t('no_creditors_found', '暂无债权人数据')}</Typography></TableCell></TableRow>
+                <TableRow><TableCell colSpan={12} align="center"><Typography sx={{p:2}}>{debouncedSearchTerm ? t('no_matching_creditors_found', '没有找到匹配的债权人') : t('no_creditors_found', '暂无债权人数据')}</Typography></TableCell></TableRow>
               ) : (
                 creditors.map((creditor, index) => { // Use creditors instead of filteredCreditors
                   const isItemSelected = creditor.id ? isSelected(creditor.id) : false;
@@ -903,10 +971,10 @@ const CreditorListPage: React.FC = () => {
                     <TableCell>{index + 1}</TableCell>
                     <TableCell>{creditor.type}</TableCell>
                     <TableCell component="th" id={labelId} scope="row">{creditor.name}</TableCell>
-                    <TableCell>{creditor.identifier}</TableCell>
+                    {creditorFields.isVisible('legal_id') && <TableCell>{creditor.identifier}</TableCell>}
                     <TableCell>{creditor.contact_person_name}</TableCell>
-                    <TableCell>{creditor.contact_person_phone}</TableCell>
-                    <TableCell>{creditor.address}</TableCell>
+                    {creditorFields.isVisible('contact_phone') && <TableCell>{creditor.contact_person_phone}</TableCell>}
+                    {creditorFields.isVisible('contact_address') && <TableCell>{creditor.address}</TableCell>}
                     <TableCell align="right">
                       {creditor.total_claim_amount ? 
                         `¥${creditor.total_claim_amount.toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : 
@@ -931,6 +999,7 @@ const CreditorListPage: React.FC = () => {
                     >
                       {creditor.claim_count || 0}
                     </TableCell>
+                    <TableCell align="center">{renderDeliveryStatus(creditor)}</TableCell>
                     <TableCell align="center">
                       <Stack direction="row" spacing={0} justifyContent="center">
                         {canEdit && (
@@ -1002,6 +1071,9 @@ const CreditorListPage: React.FC = () => {
         open={printWaybillsDialogOpen}
         onClose={() => setPrintWaybillsDialogOpen(false)}
         selectedCreditors={creditorsToPrint}
+        caseId={selectedCaseId}
+        onPrinted={handleWaybillsPrinted}
+        onAuthenticationRequired={handleWaybillAuthError}
       />
       <AddCreditorDialog
         open={addCreditorOpen}
@@ -1012,8 +1084,9 @@ const CreditorListPage: React.FC = () => {
       <BatchImportCreditorsDialog
         open={batchImportOpen}
         onClose={() => setBatchImportOpen(false)}
-        onImport={handleImportCreditors}
-        isImporting={isBatchProcessing} // Pass isBatchProcessing state
+        caseId={selectedCaseId}
+        onImportComplete={handleImportComplete}
+        onAuthenticationRequired={handleImportAuthError}
       />
       <ConfirmDeleteDialog
         open={deleteDialogOpen}
@@ -1031,6 +1104,7 @@ const CreditorListPage: React.FC = () => {
         onClose={handleCloseCreditorClaims}
         creditor={selectedCreditorForClaims}
       />
+      {deliveryStatusMenu}
     </PageContainer>
   );
 };
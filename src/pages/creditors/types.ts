@@ -1,4 +1,5 @@
 import { RecordId } from 'surrealdb';
+import type { DeliveryStatus } from '@/src/types/waybill';
 
 // Define Creditor type for clarity
 export interface Creditor {
@@ -14,6 +15,8 @@ export interface Creditor {
   updated_at?: string; // Added
   total_claim_amount?: number; // 债权人在当前案件中的总债权金额
   claim_count?: number; // 债权人在当前案件中的债权数量
+  delivery_status?: DeliveryStatus; // 最近一次寄送的投递状态
+  last_tracking_number?: string; // 最近一次寄送的运单号
 }
 
 // Form data type with camelCase property names for form handling
@@ -41,20 +44,11 @@ export interface RawCreditorData {
   updated_at?: string;
   total_claim_amount?: number; // 总债权金额
   claim_count?: number; // 债权数量
+  delivery_status?: DeliveryStatus;
+  last_tracking_number?: string;
 }
 
 // Count query result type
 export interface CountResult {
   total: number;
 }
-
-// CSV import row type
-export interface CsvRowData {
-  '类别': string;
-  '名称': string;
-  'ID/统一码': string;
-  '联系人姓名': string;
-  '联系方式': string;
-  '地址': string;
-  [key: string]: string | undefined;
-}
@@ -3,6 +3,8 @@
 // Workflow: This page displays a read-only view of the claim as per product requirements.
 import React, { useState, useEffect } from 'react';
 import ClaimDetailView from '@/src/components/claim/ClaimDetailView';
+import ClaimNoticePanel from '@/src/components/claim/ClaimNoticePanel';
+import ClaimObjectionPanel from '@/src/components/claim/ClaimObjectionPanel';
 import { useNavigate, useParams } from 'react-router-dom';
 import PageContainer from '@/src/components/PageContainer';
 import { 
@@ -351,6 +353,10 @@ const SubmittedClaimDetailPage: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Mobile Review Notices and Objections */}
+          {claimId && <ClaimNoticePanel claimId={claimId} />}
+          {claimId && <ClaimObjectionPanel claimId={claimId} />}
+
           {/* Mobile Action Button */}
           <Box sx={{ textAlign: 'center', mb: 2 }}>
             <Button
@@ -373,6 +379,12 @@ const SubmittedClaimDetailPage: React.FC = () => {
     <PageContainer>
       <Box sx={{ p: 3, maxWidth: '896px', mx: 'auto' }}>
         <ClaimDetailView claim={claimToView} />
+        {claimId && (
+          <Box sx={{ mt: 3 }}>
+            <ClaimNoticePanel claimId={claimId} />
+            <ClaimObjectionPanel claimId={claimId} />
+          </Box>
+        )}
         <Box sx={{ mt: 4, display: 'flex', justifyContent: 'center' }}>
           <Button
             variant="contained"
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   Box,
   Grid,
@@ -43,11 +43,15 @@ import {
   FieldEditDialog,
   PDFParserErrorBoundary,
   NetworkStatusMonitor,
+  ApplyToClaimDialog,
 } from '@/src/components/pdf-parser';
 import { usePDFParserState } from '@/src/hooks/usePDFParser';
 import { usePDFParserPermissions } from '@/src/hooks/usePDFParserPermissions';
 import { useNetworkStatus } from '@/src/hooks/useNetworkStatus';
 import { handleError } from '@/src/utils/errorHandler';
+import { useSurrealClient } from '@/src/contexts/SurrealProvider';
+import { pdfParseService } from '@/src/services/pdfParseService';
+import { ExtractionTemplateService } from '@/src/services/extractionTemplateService';
 import { UploadedFile, ParsedField } from '@/src/types/pdfParser';
 import PageContainer from '@/src/components/PageContainer';
 
@@ -109,6 +113,7 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
     severity: 'info',
   });
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
+  const [showApplyToClaim, setShowApplyToClaim] = useState(false);
 
   // PDF解析器状态
   const {
@@ -116,9 +121,18 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
     parseResult,
     isLoadingParse,
     parseError,
-    setCurrentParseId: _setCurrentParseId,
+    setCurrentParseId,
   } = usePDFParserState();
 
+  // 本地解析时使用管理员发布的字段提取模板
+  const client = useSurrealClient();
+  const templateService = useMemo(() => new ExtractionTemplateService(client), [client]);
+  useEffect(() => {
+    if (pdfParseService.isLocalMode()) {
+      templateService.applyPublishedTemplates().catch((error: Error) => handleError(error, '加载字段提取模板'));
+    }
+  }, [templateService]);
+
   // 从URL参数获取case ID
   const finalCaseId = caseId || searchParams.get('caseId') || undefined;
 
@@ -155,9 +169,10 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
         const firstFile = files[0];
         setSelectedFile(firstFile);
         
-        // 这里需要从上传响应中获取文件URL和解析ID
-        // 暂时模拟文件URL
         setCurrentFileUrl(URL.createObjectURL(firstFile.file));
+        if (firstFile.parseId) {
+          setCurrentParseId(firstFile.parseId);
+        }
         
         // 显示成功消息
         setSnackbar({
@@ -167,18 +182,21 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
         });
       }
     }, '上传文件');
-  }, [checkAndExecute]);
+  }, [checkAndExecute, setCurrentParseId]);
 
   // 处理文件选择
   const handleFileSelected = useCallback((file: UploadedFile) => {
     setSelectedFile(file);
     setCurrentFileUrl(URL.createObjectURL(file.file));
+    if (file.parseId) {
+      setCurrentParseId(file.parseId);
+    }
     
     // 在移动端自动切换到预览tab
     if (isMobile) {
       setActiveTab(1);
     }
-  }, [isMobile]);
+  }, [isMobile, setCurrentParseId]);
 
   // 处理字段点击（高亮PDF对应区域）
   const handleFieldClick = useCallback((fieldName: string) => {
@@ -206,6 +224,11 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
     });
   }, []);
 
+  // 由解析结果生成债权申报
+  const handleApplyToClaim = useCallback(() => {
+    setShowApplyToClaim(true);
+  }, []);
+
   // 关闭字段编辑对话框
   const handleCloseFieldEdit = useCallback(() => {
     setEditingField(null);
@@ -361,6 +384,7 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
               parseResult={parseResult}
               onFieldEdit={handleFieldEdit}
               onFieldClick={handleFieldClick}
+              onApplyToClaim={handleApplyToClaim}
               highlightLowConfidence={true}
             />
           </Box>
@@ -373,6 +397,7 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
           <PDFPreviewComponent
             fileUrl={currentFileUrl}
             fileName={selectedFile?.name}
+            highlightRegions={parseResult?.highlightRegions}
             onPageChange={handlePDFPageChange}
             onLoadSuccess={handleParseSuccess}
             onLoadError={handleParseError}
@@ -433,6 +458,7 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
             <PDFPreviewComponent
               fileUrl={currentFileUrl}
               fileName={selectedFile?.name}
+              highlightRegions={parseResult?.highlightRegions}
               onPageChange={handlePDFPageChange}
               onLoadSuccess={handleParseSuccess}
               onLoadError={handleParseError}
@@ -447,6 +473,7 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
             parseResult={parseResult}
             onFieldEdit={handleFieldEdit}
             onFieldClick={handleFieldClick}
+            onApplyToClaim={handleApplyToClaim}
             highlightLowConfidence={true}
           />
         </TabPanel>
@@ -582,6 +609,17 @@ const PDFParserPage: React.FC<PDFParserPageProps> = ({ caseId }) => {
             </DialogActions>
           </Dialog>
 
+          {/* 生成债权申报对话框 */}
+          {parseResult && (
+            <ApplyToClaimDialog
+              open={showApplyToClaim}
+              onClose={() => setShowApplyToClaim(false)}
+              parseResult={parseResult}
+              file={selectedFile?.file ?? null}
+              caseId={finalCaseId}
+            />
+          )}
+
           {/* 字段编辑对话框 */}
           {currentParseId && (
             <FieldEditDialog
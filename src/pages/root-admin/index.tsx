@@ -23,8 +23,18 @@ import {
   TableRow,
   Paper,
   CircularProgress,
+  Tooltip,
 } from '@mui/material';
-import { mdiPlus, mdiDelete, mdiRefresh, mdiEye, mdiEyeOff } from '@mdi/js';
+import {
+  mdiPlus,
+  mdiDelete,
+  mdiRefresh,
+  mdiEye,
+  mdiEyeOff,
+  mdiPauseCircleOutline,
+  mdiPlayCircleOutline,
+  mdiDatabaseArrowUp,
+} from '@mdi/js';
 import { SvgIcon } from '@mui/material';
 import { useAuth } from '@/src/contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
@@ -32,16 +42,20 @@ import { useTranslation } from 'react-i18next';
 import Logo from '@/src/components/Logo';
 import { apiClient } from '@/src/utils/apiClient';
 import authService from '@/src/services/authService';
+import tenantAdminService from '@/src/services/tenantAdminService';
+import type {
+  Tenant,
+  TenantUsage,
+  TenantSchemaVersion,
+  ProvisionStep,
+} from '@/src/services/tenantAdminService';
+import { formatFileSize } from '@/src/utils/formatters';
+import { MigrationChecksumError } from '@/src/lib/migrationRunner';
 
-interface Tenant {
-  tenant_code: string;
-  tenant_name: string;
-  database_name: string;
-  admin_username: string;
-  admin_password: string;
-  status: 'active' | 'suspended' | 'deleted';
-  created_at: string;
-  updated_at: string;
+interface TenantDetail {
+  usage?: TenantUsage;
+  schema?: TenantSchemaVersion;
+  error?: string;
 }
 
 interface RootAdmin {
@@ -67,6 +81,10 @@ const RootAdminPage: React.FC = () => {
   const [newTenantName, setNewTenantName] = useState('');
   const [newTenantAdminUsername, setNewTenantAdminUsername] = useState('');
   const [createTenantError, setCreateTenantError] = useState<string | null>(null);
+  const [provisionStep, setProvisionStep] = useState<ProvisionStep | null>(null);
+  const [tenantDetails, setTenantDetails] = useState<Record<string, TenantDetail>>({});
+  const [busyTenant, setBusyTenant] = useState<string | null>(null);
+  const [tenantActionError, setTenantActionError] = useState<string | null>(null);
 
   // Root管理员管理状态
   const [rootAdmins, setRootAdmins] = useState<RootAdmin[]>([]);
@@ -112,8 +130,9 @@ const RootAdminPage: React.FC = () => {
   const loadTenants = async () => {
     setIsLoadingTenants(true);
     try {
-      const data = await apiClient.getTenants();
+      const data: Tenant[] = await apiClient.getTenants();
       setTenants(data);
+      loadTenantDetails(data);
     } catch (error) {
       console.error('Failed to load tenants:', error);
     } finally {
@@ -121,6 +140,94 @@ const RootAdminPage: React.FC = () => {
     }
   };
 
+  // 加载租户的用量统计和结构版本，已执行的迁移被修改时显示具体原因
+  const fetchTenantDetail = async (tenantCode: string): Promise<TenantDetail> => {
+    try {
+      const [usage, schema] = await Promise.all([
+        tenantAdminService.getTenantUsage(tenantCode),
+        tenantAdminService.getSchemaVersion(tenantCode),
+      ]);
+      return { usage, schema };
+    } catch (error) {
+      console.error(`Failed to load details for tenant ${tenantCode}:`, error);
+      return {
+        error: error instanceof MigrationChecksumError
+          ? error.message
+          : t('tenant_details_load_failed', 'Failed to load'),
+      };
+    }
+  };
+
+  const loadTenantDetails = async (list: Tenant[]) => {
+    const entries = await Promise.all(
+      list
+        .filter(tenant => tenant.status !== 'deleted')
+        .map(async (tenant): Promise<[string, TenantDetail]> => [tenant.tenant_code, await fetchTenantDetail(tenant.tenant_code)])
+    );
+    setTenantDetails(Object.fromEntries(entries));
+  };
+
+  const refreshTenantDetail = async (tenantCode: string) => {
+    const detail = await fetchTenantDetail(tenantCode);
+    setTenantDetails(prev => ({ ...prev, [tenantCode]: detail }));
+  };
+
+  const handleToggleTenantStatus = async (tenant: Tenant) => {
+    setTenantActionError(null);
+    setBusyTenant(tenant.tenant_code);
+    try {
+      const updated = tenant.status === 'suspended'
+        ? await tenantAdminService.resumeTenant(tenant.tenant_code)
+        : await tenantAdminService.suspendTenant(tenant.tenant_code);
+      setTenants(prev => prev.map(item => (item.tenant_code === tenant.tenant_code ? { ...item, ...updated } : item)));
+    } catch (error) {
+      setTenantActionError(error instanceof Error ? error.message : 'Failed to update tenant status');
+    } finally {
+      setBusyTenant(null);
+    }
+  };
+
+  const handleUpgradeSchema = async (tenantCode: string) => {
+    setTenantActionError(null);
+    setBusyTenant(tenantCode);
+    try {
+      await tenantAdminService.applyPendingMigrations(tenantCode);
+    } catch (error) {
+      setTenantActionError(error instanceof Error ? error.message : 'Failed to upgrade schema');
+    } finally {
+      await refreshTenantDetail(tenantCode);
+      setBusyTenant(null);
+    }
+  };
+
+  const renderSchemaVersion = (detail?: TenantDetail) => {
+    if (!detail?.schema) {
+      return detail?.error ? (
+        <Tooltip title={detail.error}>
+          <Chip label={t('schema_version_error', 'Error')} size="small" color="error" variant="outlined" />
+        </Tooltip>
+      ) : '-';
+    }
+    const { schema } = detail;
+    const upToDate = schema.pending.length === 0;
+    return (
+      <Tooltip
+        title={upToDate
+          ? t('schema_up_to_date', 'All migrations applied')
+          : `${t('schema_pending_migrations', 'Pending migrations')}: ${schema.pending.join(', ')}`}
+      >
+        <Chip
+          label={upToDate
+            ? schema.current
+            : `${schema.current ?? t('schema_not_initialized', 'Not initialized')} (+${schema.pending.length})`}
+          color={upToDate ? 'success' : 'warning'}
+          size="small"
+          variant="outlined"
+        />
+      </Tooltip>
+    );
+  };
+
   const loadRootAdmins = async () => {
     setIsLoadingRootAdmins(true);
     try {
@@ -144,22 +251,34 @@ const RootAdminPage: React.FC = () => {
     }
     
     try {
-      const newTenant = await apiClient.createTenant({
+      const newTenant = await tenantAdminService.provisionTenant({
         tenant_code: newTenantCode,
         tenant_name: newTenantName,
         admin_username: newTenantAdminUsername,
-      });
+      }, setProvisionStep);
       
       setTenants([...tenants, newTenant]);
       setShowCreateTenantDialog(false);
       setNewTenantCode('');
       setNewTenantName('');
       setNewTenantAdminUsername('');
+      refreshTenantDetail(newTenant.tenant_code);
     } catch (error) {
       setCreateTenantError(error instanceof Error ? error.message : 'Failed to create tenant');
+      // 租户已创建但初始化失败时刷新列表，便于在列表中升级结构
+      loadTenants();
+    } finally {
+      setProvisionStep(null);
     }
   };
 
+  const provisionStepLabels: Record<ProvisionStep, string> = {
+    create: t('provision_step_create', 'Creating tenant database and admin account...'),
+    schema: t('provision_step_schema', 'Applying schema migrations...'),
+    seed: t('provision_step_seed', 'Seeding default data...'),
+    done: t('provision_step_done', 'Done'),
+  };
+
   const handleCreateRootAdmin = async () => {
     setCreateRootAdminError(null);
     
@@ -259,6 +378,12 @@ const RootAdminPage: React.FC = () => {
                 </Box>
               </Box>
 
+              {tenantActionError && (
+                <Alert severity="error" sx={{ mb: 2 }} onClose={() => setTenantActionError(null)}>
+                  {tenantActionError}
+                </Alert>
+              )}
+
               {isLoadingTenants ? (
                 <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
                   <CircularProgress />
@@ -273,7 +398,12 @@ const RootAdminPage: React.FC = () => {
                         <TableCell>{t('admin_username', 'Admin Username')}</TableCell>
                         <TableCell>{t('admin_password', 'Admin Password')}</TableCell>
                         <TableCell>{t('status', 'Status')}</TableCell>
+                        <TableCell align="right">{t('tenant_cases', 'Cases')}</TableCell>
+                        <TableCell align="right">{t('tenant_users', 'Users')}</TableCell>
+                        <TableCell align="right">{t('tenant_storage', 'Storage')}</TableCell>
+                        <TableCell>{t('schema_version', 'Schema Version')}</TableCell>
                         <TableCell>{t('created_at', 'Created')}</TableCell>
+                        <TableCell align="right">{t('actions', 'Actions')}</TableCell>
                       </TableRow>
                     </TableHead>
                     <TableBody>
@@ -308,9 +438,59 @@ const RootAdminPage: React.FC = () => {
                               size="small"
                             />
                           </TableCell>
+                          <TableCell align="right">{tenantDetails[tenant.tenant_code]?.usage?.cases ?? '-'}</TableCell>
+                          <TableCell align="right">{tenantDetails[tenant.tenant_code]?.usage?.users ?? '-'}</TableCell>
+                          <TableCell align="right">
+                            {tenantDetails[tenant.tenant_code]?.usage
+                              ? formatFileSize(tenantDetails[tenant.tenant_code].usage!.storage_bytes)
+                              : '-'}
+                          </TableCell>
+                          <TableCell>{renderSchemaVersion(tenantDetails[tenant.tenant_code])}</TableCell>
                           <TableCell>
                             {new Date(tenant.created_at).toLocaleDateString()}
                           </TableCell>
+                          <TableCell align="right">
+                            {tenant.status !== 'deleted' && (
+                              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 0.5 }}>
+                                {busyTenant === tenant.tenant_code ? (
+                                  <CircularProgress size={24} />
+                                ) : (
+                                  <>
+                                    {!!tenantDetails[tenant.tenant_code]?.schema?.pending.length && (
+                                      <Tooltip title={t('upgrade_schema', 'Apply pending migrations')}>
+                                        <IconButton
+                                          size="small"
+                                          aria-label={t('upgrade_schema', 'Apply pending migrations')}
+                                          onClick={() => handleUpgradeSchema(tenant.tenant_code)}
+                                          disabled={busyTenant !== null}
+                                        >
+                                          <SvgIcon fontSize="small"><path d={mdiDatabaseArrowUp} /></SvgIcon>
+                                        </IconButton>
+                                      </Tooltip>
+                                    )}
+                                    <Tooltip
+                                      title={tenant.status === 'suspended'
+                                        ? t('resume_tenant', 'Resume tenant')
+                                        : t('suspend_tenant', 'Suspend tenant')}
+                                    >
+                                      <IconButton
+                                        size="small"
+                                        aria-label={tenant.status === 'suspended'
+                                          ? t('resume_tenant', 'Resume tenant')
+                                          : t('suspend_tenant', 'Suspend tenant')}
+                                        onClick={() => handleToggleTenantStatus(tenant)}
+                                        disabled={busyTenant !== null}
+                                      >
+                                        <SvgIcon fontSize="small">
+                                          <path d={tenant.status === 'suspended' ? mdiPlayCircleOutline : mdiPauseCircleOutline} />
+                                        </SvgIcon>
+                                      </IconButton>
+                                    </Tooltip>
+                                  </>
+                                )}
+                              </Box>
+                            )}
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -411,6 +591,7 @@ const RootAdminPage: React.FC = () => {
       <Dialog
         open={showCreateTenantDialog}
         onClose={() => {
+          if (provisionStep) return;
           setShowCreateTenantDialog(false);
           setNewTenantCode('');
           setNewTenantName('');
@@ -427,6 +608,11 @@ const RootAdminPage: React.FC = () => {
               {createTenantError}
             </Alert>
           )}
+          {provisionStep && (
+            <Alert severity="info" icon={<CircularProgress size={20} />} sx={{ mb: 2 }}>
+              {provisionStepLabels[provisionStep]}
+            </Alert>
+          )}
           <TextField
             autoFocus
             margin="dense"
@@ -470,7 +656,7 @@ const RootAdminPage: React.FC = () => {
           <Button
             onClick={handleCreateTenant}
             variant="contained"
-            disabled={!newTenantCode || !newTenantName || !newTenantAdminUsername}
+            disabled={!newTenantCode || !newTenantName || !newTenantAdminUsername || provisionStep !== null}
           >
             {t('create', 'Create')}
           </Button>
@@ -3,7 +3,7 @@
  * 集中展示系统安全状态、审计信息和风险分析
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Box,
   Container,
@@ -38,7 +38,9 @@ import {
   People as PeopleIcon,
   Lock as LockIcon,
   Visibility as VisibilityIcon,
-  Timeline as TimelineIcon
+  Timeline as TimelineIcon,
+  VerifiedUser as VerifiedUserIcon,
+  LinkOff as LinkOffIcon
 } from '@mui/icons-material';
 import { format, subDays, subHours } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
@@ -51,6 +53,9 @@ import {
   AuditEventType,
   RiskLevel
 } from '../services/claimTrackingAuditService';
+import type { IntegrityReport } from '../services/auditChainService';
+import { AnomalyRuleService } from '../services/anomalyRuleService';
+import AnomalyRuleManager from '../components/security/AnomalyRuleManager';
 import { useAuth } from '../contexts/AuthContext';
 import { useSurrealClient } from '../contexts/SurrealProvider';
 
@@ -65,6 +70,11 @@ interface SecurityMetrics {
   riskScore: number;
 }
 
+const CHAIN_TABLE_LABELS: Record<string, string> = {
+  claim_operation_log: '操作日志',
+  claim_audit_event: '审计事件'
+};
+
 interface SecurityTrend {
   date: string;
   events: number;
@@ -73,7 +83,7 @@ interface SecurityTrend {
 }
 
 const SecurityDashboard: React.FC = () => {
-  const { user, selectedCaseId } = useAuth();
+  const { user, selectedCaseId, hasRole } = useAuth();
   const client = useSurrealClient();
   
   const [loading, setLoading] = useState(false);
@@ -95,14 +105,18 @@ const SecurityDashboard: React.FC = () => {
   const [auditStats, setAuditStats] = useState<AuditStatistics | null>(null);
   const [anomalies, setAnomalies] = useState<AnomalyDetectionResult[]>([]);
   const [securityTrends, setSecurityTrends] = useState<SecurityTrend[]>([]);
+  const [integrity, setIntegrity] = useState<IntegrityReport | null>(null);
+  const [integrityError, setIntegrityError] = useState<string | null>(null);
 
   // 初始化服务
   useEffect(() => {
     if (client) {
-      claimTrackingAuditService.setClientGetter(client);
+      claimTrackingAuditService.setClientGetter(() => Promise.resolve(client));
     }
   }, [client]);
 
+  const anomalyRuleService = useMemo(() => (client ? new AnomalyRuleService(client) : null), [client]);
+
   /**
    * 获取时间范围
    */
@@ -122,6 +136,24 @@ const SecurityDashboard: React.FC = () => {
     }
   }, [timeRange]);
 
+  /**
+   * 校验当前案件审计日志的哈希链
+   */
+  const loadIntegrity = useCallback(async () => {
+    if (!client || !user || !selectedCaseId) {
+      setIntegrity(null);
+      return;
+    }
+
+    setIntegrityError(null);
+    try {
+      setIntegrity(await claimTrackingAuditService.verifyIntegrity(selectedCaseId));
+    } catch (err) {
+      setIntegrity(null);
+      setIntegrityError(err instanceof Error ? err.message : '校验审计哈希链失败');
+    }
+  }, [client, user, selectedCaseId]);
+
   /**
    * 加载安全指标数据
    */
@@ -165,13 +197,16 @@ const SecurityDashboard: React.FC = () => {
       // 生成趋势数据
       setSecurityTrends(generateTrendData(timeRange));
 
+      // 日志完整性校验失败不影响其他指标
+      await loadIntegrity();
+
     } catch (err) {
       console.error('Failed to load security data:', err);
       setError(err instanceof Error ? err.message : '加载安全数据失败');
     } finally {
       setLoading(false);
     }
-  }, [client, user, selectedCaseId, timeRange, getTimeRange]);
+  }, [client, user, selectedCaseId, timeRange, getTimeRange, loadIntegrity]);
 
   // 初始加载和定时刷新
   useEffect(() => {
@@ -297,6 +332,35 @@ const SecurityDashboard: React.FC = () => {
     }
   };
 
+  /**
+   * 导出签名审计包
+   */
+  const handleExportBundle = async () => {
+    if (!selectedCaseId) return;
+    try {
+      setLoading(true);
+      const bundle = await claimTrackingAuditService.exportSignedBundle(selectedCaseId);
+
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+        type: 'application/json'
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-bundle-${format(new Date(), 'yyyy-MM-dd-HH-mm')}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '导出签名审计包失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const integrityBreaks = integrity ? integrity.chains.flatMap(chain => chain.breaks) : [];
+
   return (
     <Container maxWidth="xl" sx={{ py: 3 }}>
       {/* 页面标题 */}
@@ -470,7 +534,7 @@ const SecurityDashboard: React.FC = () => {
       {/* 统计概览 */}
       {auditStats && (
         <Grid container spacing={3} sx={{ mb: 3 }}>
-          <Grid item xs={12} md={6}>
+          <Grid size={{ xs: 12, md: 4 }}>
             <Card>
               <CardContent>
                 <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -499,7 +563,7 @@ const SecurityDashboard: React.FC = () => {
             </Card>
           </Grid>
 
-          <Grid item xs={12} md={6}>
+          <Grid size={{ xs: 12, md: 4 }}>
             <Card>
               <CardContent>
                 <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -526,9 +590,86 @@ const SecurityDashboard: React.FC = () => {
               </CardContent>
             </Card>
           </Grid>
+
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  {integrity && !integrity.intact ? <LinkOffIcon color="error" /> : <VerifiedUserIcon />}
+                  日志完整性
+                </Typography>
+                {!selectedCaseId ? (
+                  <Typography variant="body2" color="text.secondary">
+                    选择案件后校验该案件的审计哈希链
+                  </Typography>
+                ) : integrityError ? (
+                  <Alert severity="error">{integrityError}</Alert>
+                ) : integrity ? (
+                  <Stack spacing={1}>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <Chip
+                        label={integrity.intact ? '哈希链完整' : `发现 ${integrityBreaks.length} 处断链`}
+                        size="small"
+                        color={integrity.intact ? 'success' : 'error'}
+                      />
+                      <Typography variant="caption" color="text.secondary">
+                        校验于 {format(integrity.verifiedAt, 'HH:mm:ss')}
+                      </Typography>
+                    </Box>
+                    {integrity.chains.map(chain => (
+                      <Box key={chain.chain} sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2" color="text.secondary">
+                          {CHAIN_TABLE_LABELS[chain.table] || chain.table}
+                        </Typography>
+                        <Typography variant="body2">
+                          {chain.length} 条{chain.anchor ? `（已清理 ${chain.anchor.seq} 条）` : ''}
+                        </Typography>
+                      </Box>
+                    ))}
+                    {integrityBreaks.slice(0, 3).map((item, index) => (
+                      <Alert key={index} severity="error" sx={{ py: 0 }}>
+                        {CHAIN_TABLE_LABELS[item.chain.split('|')[0]] || item.chain}
+                        {item.seq ? ` 第 ${item.seq} 个节点` : ''}：{item.message}
+                        {item.record && (
+                          <Typography variant="caption" sx={{ display: 'block' }}>{item.record}</Typography>
+                        )}
+                      </Alert>
+                    ))}
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      startIcon={<DownloadIcon />}
+                      onClick={handleExportBundle}
+                      disabled={loading}
+                    >
+                      导出签名审计包
+                    </Button>
+                  </Stack>
+                ) : (
+                  <Typography variant="body2" color="text.secondary">正在校验…</Typography>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
         </Grid>
       )}
 
+      {/* 异常检测规则 */}
+      {anomalyRuleService && hasRole('admin') && (
+        <Card sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <ShieldIcon />
+              异常检测规则
+            </Typography>
+            <AnomalyRuleManager
+              service={anomalyRuleService}
+              onRulesChanged={() => claimTrackingAuditService.invalidateAnomalyRules()}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* 审计监控组件 */}
       <Grid container spacing={3}>
         <Grid item xs={12}>
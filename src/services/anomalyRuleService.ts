@@ -0,0 +1,580 @@
+/**
+ * 异常检测规则服务
+ * 规则存储在 anomaly_rule 表中，按租户调整阈值、时间窗口、事件类型、角色基线和触发后的处置；
+ * 实时检测与规则回放使用同一套判定逻辑，草稿规则可先用历史审计事件回放验证再启用。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import { SESSION_EXPIRED_EVENT } from '@/src/lib/sessionEvents';
+import { messageService } from '@/src/services/messageService';
+import type { RecordId } from 'surrealdb';
+import type {
+  AuditEvent,
+  AuditEventType,
+  AnomalyDetectionResult,
+  RiskLevel,
+} from './claimTrackingAuditService';
+
+export type AnomalyRuleType = 'frequency' | 'threshold' | 'pattern' | 'time';
+
+// notify: 通知管理员；require_reauth: 要求重新登录；lock_export: 锁定数据导出
+export type AnomalyAction = 'notify' | 'require_reauth' | 'lock_export';
+
+export type AnomalyRuleStatus = 'draft' | 'active' | 'disabled';
+
+export interface AnomalyRuleConditions {
+  min_events_per_ip?: number;   // pattern：IP 至少出现的事件数
+  work_hours_start?: number;    // time：工作时间开始（小时）
+  work_hours_end?: number;      // time：工作时间结束（小时，不含）
+  work_days?: number[];         // time：工作日，0 为周日
+}
+
+export interface AnomalyRule {
+  id: string;
+  name: string;
+  description: string;
+  rule_type: AnomalyRuleType;
+  event_types: AuditEventType[];          // 为空时匹配所有事件
+  filters: {
+    result?: AuditEvent['result'];
+    resource_type?: string;
+  };
+  threshold: number;
+  time_window: number;                    // 分钟
+  role_baselines: Record<string, number>; // 角色 -> 该角色的阈值
+  conditions: AnomalyRuleConditions;
+  risk_level: RiskLevel;
+  actions: AnomalyAction[];
+  enforcement_minutes: number;            // 重新认证、锁定导出的有效时长
+  status: AnomalyRuleStatus;
+  updated_at?: Date | string;
+}
+
+export interface SecurityEnforcement {
+  id: RecordId | string;
+  user_id: RecordId | string;
+  user_name?: string;
+  action: Exclude<AnomalyAction, 'notify'>;
+  rule_id: string;
+  reason: string;
+  created_at: Date | string;
+  expires_at: Date | string;
+}
+
+// 当前用户生效中的处置
+export interface EnforcementStatus {
+  export_locked: boolean;
+  reauth_required: boolean;
+}
+
+export interface RuleReplayReport {
+  eventsScanned: number;
+  matchedEvents: number;
+  triggers: AnomalyDetectionResult[];
+  affectedUsers: Array<{ user_id: string; count: number }>;
+}
+
+const RECOMMENDED_ACTIONS: Record<string, string> = {
+  critical: '立即审查用户活动，考虑临时限制账户权限',
+  high: '通知安全团队进行详细调查，监控后续活动',
+  medium: '持续监控用户活动，记录相关行为模式',
+};
+
+const NOTIFY_PRIORITY: Record<string, 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT'> = {
+  critical: 'URGENT',
+  high: 'HIGH',
+  medium: 'NORMAL',
+  low: 'LOW',
+};
+
+export function getRecommendedAction(riskLevel: RiskLevel): string {
+  return RECOMMENDED_ACTIONS[riskLevel] || '正常监控，定期审查';
+}
+
+/**
+ * 重新认证以令牌的 auth_time（输入密码或单点登录的时间，刷新令牌时不变）判断：
+ * 处置生效后没有重新登录过的会话仍需重新认证，令牌没有 auth_time 时在处置到期前一律需要
+ */
+const ENFORCEMENT_STATUS_QUERY = `RETURN {
+  export_locked: array::len(SELECT VALUE id FROM security_enforcement
+    WHERE user_id = $auth.id AND action = 'lock_export'
+      AND resolved_at IS NONE AND expires_at > time::now()) > 0,
+  reauth_required: array::len(SELECT VALUE id FROM security_enforcement
+    WHERE user_id = $auth.id AND action = 'require_reauth'
+      AND resolved_at IS NONE AND expires_at > time::now()
+      AND ($token.auth_time = NONE OR created_at > time::from::secs($token.auth_time))) > 0
+}`;
+
+const eventTime = (event: AuditEvent) => new Date(event.created_at).getTime();
+
+const sameEvent = (a: AuditEvent, b: AuditEvent) =>
+  a === b || (a.id != null && b.id != null && String(a.id) === String(b.id));
+
+/**
+ * 事件是否属于规则关注的范围
+ */
+export function matchesRule(rule: AnomalyRule, event: AuditEvent): boolean {
+  if (rule.event_types.length > 0 && !rule.event_types.includes(event.event_type)) return false;
+  if (rule.filters.result && event.result !== rule.filters.result) return false;
+  if (rule.filters.resource_type && event.resource_type !== rule.filters.resource_type) return false;
+  return true;
+}
+
+/**
+ * 计算用户适用的阈值：用户的任一角色设置了基线时取其中最大值，否则使用规则阈值
+ */
+export function effectiveThreshold(rule: AnomalyRule, roles: string[]): number {
+  const baselines = roles
+    .map(role => rule.role_baselines[role])
+    .filter((value): value is number => typeof value === 'number' && value > 0);
+  return baselines.length > 0 ? Math.max(...baselines) : rule.threshold;
+}
+
+export function isOffHours(conditions: AnomalyRuleConditions, date: Date): boolean {
+  const start = conditions.work_hours_start ?? 9;
+  const end = conditions.work_hours_end ?? 18;
+  const days = conditions.work_days ?? [1, 2, 3, 4, 5];
+  const hour = date.getHours();
+  return !days.includes(date.getDay()) || hour < start || hour >= end;
+}
+
+/**
+ * 校验规则配置，返回错误说明
+ */
+export function validateRule(rule: AnomalyRule): string[] {
+  const errors: string[] = [];
+  if (!rule.name.trim()) errors.push('请填写规则名称');
+  if (!Number.isInteger(rule.threshold) || rule.threshold <= 0) errors.push('阈值必须是正整数');
+  if (!Number.isInteger(rule.time_window) || rule.time_window <= 0) errors.push('时间窗口必须是正整数（分钟）');
+  for (const [role, value] of Object.entries(rule.role_baselines)) {
+    if (!Number.isInteger(value) || value <= 0) errors.push(`角色 ${role} 的基线必须是正整数`);
+  }
+  if (rule.rule_type === 'time') {
+    const start = rule.conditions.work_hours_start ?? 9;
+    const end = rule.conditions.work_hours_end ?? 18;
+    if (start < 0 || end > 24 || start >= end) errors.push('工作时间的开始须早于结束，且在 0–24 点之间');
+  }
+  if (rule.actions.some(action => action !== 'notify') && !(rule.enforcement_minutes > 0)) {
+    errors.push('处置时长必须大于 0 分钟');
+  }
+  return errors;
+}
+
+/**
+ * 以事件发生时刻为准，按规则判定是否异常
+ * @param history 同一用户的历史事件，可以包含当前事件
+ * @param roles 用户的角色，用于角色基线
+ */
+export function evaluateRule(
+  rule: AnomalyRule,
+  event: AuditEvent,
+  history: AuditEvent[],
+  roles: string[] = []
+): AnomalyDetectionResult | null {
+  if (!matchesRule(rule, event)) {
+    return null;
+  }
+
+  const at = eventTime(event);
+  const windowStart = at - rule.time_window * 60 * 1000;
+  const inWindow = [
+    event,
+    ...history.filter(item =>
+      !sameEvent(item, event) &&
+      String(item.user_id) === String(event.user_id) &&
+      eventTime(item) >= windowStart &&
+      eventTime(item) <= at &&
+      matchesRule(rule, item)
+    ),
+  ];
+  const threshold = effectiveThreshold(rule, roles);
+  const label = rule.event_types.length > 0 ? rule.event_types.join('/') : '执行操作';
+  const base = {
+    rule_id: rule.id,
+    rule_name: rule.name,
+    risk_level: rule.risk_level,
+    triggered_at: new Date(at),
+    user_id: event.user_id,
+    recommended_action: getRecommendedAction(rule.risk_level),
+    actions: rule.actions,
+  };
+
+  switch (rule.rule_type) {
+    case 'frequency':
+    case 'threshold': {
+      const count = inWindow.length;
+      if (count < threshold) return null;
+      const factor = rule.rule_type === 'frequency' ? 50 : 70;
+      return {
+        ...base,
+        score: Math.min(100, (count / threshold) * factor),
+        event_count: count,
+        description: `检测到用户在${rule.time_window}分钟内${label}${count}次，超出阈值${threshold}`,
+        evidence: rule.rule_type === 'frequency'
+          ? [...inWindow].sort((a, b) => eventTime(b) - eventTime(a)).slice(0, 20)
+          : [],
+      };
+    }
+
+    case 'pattern': {
+      const perIp = new Map<string, number>();
+      inWindow.forEach(item => perIp.set(item.ip_address, (perIp.get(item.ip_address) || 0) + 1));
+      const minEvents = rule.conditions.min_events_per_ip ?? 1;
+      const ips = Array.from(perIp.values()).filter(count => count >= minEvents).length;
+      if (ips < threshold) return null;
+      return {
+        ...base,
+        score: Math.min(100, (ips / threshold) * 60),
+        event_count: ips,
+        description: `检测到用户在${rule.time_window}分钟内从${ips}个不同IP地址访问系统`,
+        evidence: [],
+      };
+    }
+
+    case 'time': {
+      if (!isOffHours(rule.conditions, new Date(at))) return null;
+      const offHours = inWindow.filter(item => isOffHours(rule.conditions, new Date(item.created_at)));
+      if (offHours.length < threshold) return null;
+      return {
+        ...base,
+        score: 40,
+        event_count: offHours.length,
+        description: `检测到用户在非工作时间（${new Date(at).getHours()}:00）${label}${offHours.length}次`,
+        evidence: [event],
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * 按时间顺序回放历史事件，统计规则会在哪些事件上触发
+ * @param rolesByUser 用户ID -> 角色，用于角色基线
+ */
+export function replayRule(
+  rule: AnomalyRule,
+  events: AuditEvent[],
+  rolesByUser: Record<string, string[]> = {}
+): RuleReplayReport {
+  const ordered = [...events].sort((a, b) => eventTime(a) - eventTime(b));
+  const histories = new Map<string, AuditEvent[]>();
+  const triggers: AnomalyDetectionResult[] = [];
+  const perUser = new Map<string, number>();
+  let matchedEvents = 0;
+
+  for (const event of ordered) {
+    const userId = String(event.user_id);
+    const windowStart = eventTime(event) - rule.time_window * 60 * 1000;
+    const history = (histories.get(userId) || []).filter(item => eventTime(item) >= windowStart);
+
+    if (matchesRule(rule, event)) {
+      matchedEvents++;
+      const result = evaluateRule(rule, event, history, rolesByUser[userId] || []);
+      if (result) {
+        triggers.push(result);
+        perUser.set(userId, (perUser.get(userId) || 0) + 1);
+      }
+    }
+
+    history.push(event);
+    histories.set(userId, history);
+  }
+
+  return {
+    eventsScanned: ordered.length,
+    matchedEvents,
+    triggers,
+    affectedUsers: Array.from(perUser.entries())
+      .map(([user_id, count]) => ({ user_id, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * 将数据库记录规范为规则，记录 ID 只保留 anomaly_rule 之后的部分
+ */
+export function normalizeRule(record: Record<string, any>): AnomalyRule {
+  const rawId = record.id;
+  const id = rawId && typeof rawId === 'object' && 'id' in rawId
+    ? String(rawId.id)
+    : String(rawId ?? '').replace(/^anomaly_rule:/, '');
+  return {
+    id,
+    name: record.name ?? '',
+    description: record.description ?? '',
+    rule_type: record.rule_type,
+    event_types: record.event_types ?? [],
+    filters: record.filters ?? {},
+    threshold: record.threshold,
+    time_window: record.time_window,
+    role_baselines: record.role_baselines ?? {},
+    conditions: record.conditions ?? {},
+    risk_level: record.risk_level,
+    actions: record.actions ?? [],
+    enforcement_minutes: record.enforcement_minutes ?? 60,
+    status: record.status ?? 'draft',
+    updated_at: record.updated_at,
+  };
+}
+
+export class AnomalyRuleService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 加载全部规则
+   */
+  async loadRules(): Promise<AnomalyRule[]> {
+    try {
+      const records = await queryWithAuth<Record<string, any>[]>(
+        this.client,
+        'SELECT * FROM anomaly_rule ORDER BY name'
+      );
+      return (records || []).map(normalizeRule);
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载异常检测规则失败:', error);
+      throw new Error('加载异常检测规则失败');
+    }
+  }
+
+  /**
+   * 保存规则，status 决定保存为草稿还是直接启用
+   */
+  async saveRule(rule: AnomalyRule, status: AnomalyRuleStatus): Promise<AnomalyRule> {
+    const errors = validateRule(rule);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const { id, updated_at: _updatedAt, ...content } = rule;
+    try {
+      const saved = await queryWithAuth<Record<string, any>[]>(
+        this.client,
+        `UPSERT type::thing('anomaly_rule', $rule_id) CONTENT $content`,
+        { rule_id: id, content: { ...content, status } }
+      );
+      return saved?.[0] ? normalizeRule(saved[0]) : { ...rule, status };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('保存异常检测规则失败:', error);
+      throw new Error('保存异常检测规则失败');
+    }
+  }
+
+  async setRuleStatus(ruleId: string, status: AnomalyRuleStatus): Promise<void> {
+    try {
+      await queryWithAuth(
+        this.client,
+        `UPDATE type::thing('anomaly_rule', $rule_id) SET status = $status`,
+        { rule_id: ruleId, status }
+      );
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('更新规则状态失败:', error);
+      throw new Error('更新规则状态失败');
+    }
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    try {
+      await queryWithAuth(this.client, `DELETE type::thing('anomaly_rule', $rule_id)`, { rule_id: ruleId });
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('删除异常检测规则失败:', error);
+      throw new Error('删除异常检测规则失败');
+    }
+  }
+
+  /**
+   * 可设置基线的角色
+   */
+  async loadRoleNames(): Promise<string[]> {
+    const names = await queryWithAuth<string[]>(this.client, 'SELECT VALUE name FROM role ORDER BY name');
+    return names || [];
+  }
+
+  /**
+   * 查询用户的全局角色
+   */
+  async loadUserRoles(userIds: Array<RecordId | string>): Promise<Record<string, string[]>> {
+    if (userIds.length === 0) {
+      return {};
+    }
+    const rows = await queryWithAuth<Array<{ user: RecordId | string; role: string }>>(
+      this.client,
+      'SELECT in AS user, out.name AS role FROM has_role WHERE in IN $user_ids',
+      { user_ids: userIds }
+    );
+    const rolesByUser: Record<string, string[]> = {};
+    for (const row of rows || []) {
+      (rolesByUser[String(row.user)] ||= []).push(row.role);
+    }
+    return rolesByUser;
+  }
+
+  /**
+   * 用指定时间范围内的审计事件回放规则
+   */
+  async testRule(rule: AnomalyRule, range: { start: Date; end: Date }, limit = 5000): Promise<RuleReplayReport> {
+    try {
+      const events = await queryWithAuth<AuditEvent[]>(
+        this.client,
+        `SELECT * FROM claim_audit_event
+         WHERE created_at >= $start AND created_at <= $end
+         ORDER BY created_at ASC
+         LIMIT $limit`,
+        { start: range.start, end: range.end, limit }
+      );
+      const history = events || [];
+      const rolesByUser = Object.keys(rule.role_baselines).length > 0
+        ? await this.loadUserRoles(Array.from(new Map(history.map(event => [String(event.user_id), event.user_id])).values()))
+        : {};
+      return replayRule(rule, history, rolesByUser);
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('回放异常检测规则失败:', error);
+      throw new Error('回放异常检测规则失败');
+    }
+  }
+
+  /**
+   * 执行规则触发后的处置
+   * 重新认证和锁定导出记录为处置，到期或被管理员解除前有效；
+   * 触发者正是当前登录用户时，立即弹出重新登录对话框
+   */
+  async enforce(result: AnomalyDetectionResult, rule: AnomalyRule): Promise<void> {
+    const expiresAt = new Date(new Date(result.triggered_at).getTime() + rule.enforcement_minutes * 60 * 1000);
+
+    for (const action of rule.actions) {
+      try {
+        if (action === 'notify') {
+          await this.notifyAdmins(result);
+          continue;
+        }
+
+        await queryWithAuth(
+          this.client,
+          `CREATE security_enforcement CONTENT {
+            user_id: <record>$user_id,
+            action: $action,
+            rule_id: $rule_id,
+            reason: $reason,
+            expires_at: $expires_at
+          }`,
+          {
+            user_id: result.user_id,
+            action,
+            rule_id: rule.id,
+            reason: result.description,
+            expires_at: expiresAt,
+          }
+        );
+
+        if (action === 'require_reauth') {
+          const currentUser = await queryWithAuth<RecordId | string | null>(this.client, 'RETURN $auth.id');
+          if (currentUser && String(currentUser) === String(result.user_id) && typeof window !== 'undefined') {
+            window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT, { detail: { reason: result.description } }));
+          }
+        }
+      } catch (error) {
+        if (error instanceof AuthenticationRequiredError) throw error;
+        console.error(`执行异常处置 ${action} 失败:`, error);
+      }
+    }
+  }
+
+  private async notifyAdmins(result: AnomalyDetectionResult): Promise<void> {
+    const admins = await queryWithAuth<Array<RecordId | string>>(
+      this.client,
+      "SELECT VALUE in FROM has_role WHERE out.name = 'admin'"
+    );
+    for (const adminId of admins || []) {
+      await messageService.sendNotification({
+        type: 'SYSTEM_NOTIFICATION',
+        target_user_id: adminId,
+        title: `安全告警：${result.rule_name}`,
+        content: `${result.description}。${result.recommended_action}`,
+        priority: NOTIFY_PRIORITY[result.risk_level] || 'NORMAL',
+        action_link: '/security-dashboard',
+        sender_name: '安全监控',
+      });
+    }
+  }
+
+  /**
+   * 当前用户生效中的处置
+   * 查询失败时按没有处置处理，以免处置表不可用时影响正常业务
+   */
+  async getEnforcementStatus(): Promise<EnforcementStatus> {
+    try {
+      const status = await queryWithAuth<Partial<EnforcementStatus> | null>(this.client, ENFORCEMENT_STATUS_QUERY);
+      return {
+        export_locked: status?.export_locked === true,
+        reauth_required: status?.reauth_required === true,
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('查询安全处置状态失败:', error);
+      return { export_locked: false, reauth_required: false };
+    }
+  }
+
+  /**
+   * 导出数据前检查处置，债权表、统计报表和审计包的导出都经过这里：
+   * 要求重新认证时弹出重新登录对话框并拒绝导出，导出被锁定时拒绝导出
+   */
+  async assertExportAllowed(): Promise<void> {
+    const status = await this.getEnforcementStatus();
+    if (status.reauth_required) {
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+      }
+      throw new Error('安全规则要求重新登录，请重新登录后再导出');
+    }
+    if (status.export_locked) {
+      throw new Error('数据导出已被安全规则锁定，请联系管理员');
+    }
+  }
+
+  /**
+   * 生效中的处置
+   */
+  async loadActiveEnforcements(): Promise<SecurityEnforcement[]> {
+    try {
+      const rows = await queryWithAuth<SecurityEnforcement[]>(
+        this.client,
+        `SELECT *, user_id.name AS user_name FROM security_enforcement
+         WHERE resolved_at IS NONE AND expires_at > time::now()
+         ORDER BY created_at DESC`
+      );
+      return rows || [];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载安全处置失败:', error);
+      throw new Error('加载安全处置失败');
+    }
+  }
+
+  async resolveEnforcement(enforcementId: RecordId | string): Promise<void> {
+    try {
+      await queryWithAuth(
+        this.client,
+        'UPDATE $id SET resolved_at = time::now(), resolved_by = $auth.id',
+        { id: enforcementId }
+      );
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('解除安全处置失败:', error);
+      throw new Error('解除安全处置失败');
+    }
+  }
+}
+
+export default AnomalyRuleService;
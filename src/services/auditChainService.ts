@@ -0,0 +1,508 @@
+/**
+ * 审计日志哈希链服务
+ * 操作日志和审计事件写入后，按债权、按案件各追加一个哈希链节点；
+ * 校验时逐个节点重算哈希并报告断链，导出时附带链证明，并由后端用租户的长期密钥对整个导出包签名。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import { apiClient } from '@/src/utils/apiClient';
+import { AnomalyRuleService } from '@/src/services/anomalyRuleService';
+import type { RecordId } from 'surrealdb';
+
+export type AuditChainTable = 'claim_operation_log' | 'claim_audit_event';
+
+// 每条链的第一个节点以全零哈希作为前一节点哈希
+export const GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_BUNDLE_FORMAT = 'cuckoox-audit-bundle';
+
+const MAX_SEAL_ATTEMPTS = 3;
+
+export interface ChainLink {
+  id?: RecordId | string;
+  chain: string;
+  source_table: AuditChainTable;
+  scope: string;
+  seq: number;
+  record: RecordId | string;
+  prev_hash: string;
+  content_hash: string;
+  hash: string;
+  recorded_at: Date | string;
+  entry?: Record<string, unknown> | null;   // 节点对应的日志内容，记录已删除时为空
+}
+
+export interface ChainAnchor {
+  chain: string;
+  seq: number;
+  hash: string;
+  pruned_at?: Date | string;
+}
+
+export type ChainBreakType =
+  | 'sequence_gap'
+  | 'prev_mismatch'
+  | 'hash_mismatch'
+  | 'content_mismatch'
+  | 'missing_record'
+  | 'unsealed';
+
+export interface ChainBreak {
+  chain: string;
+  type: ChainBreakType;
+  seq?: number;
+  record?: string;
+  message: string;
+}
+
+export interface ChainVerification {
+  chain: string;
+  table: AuditChainTable;
+  scope: string;
+  length: number;
+  anchor: ChainAnchor | null;
+  head: { seq: number; hash: string } | null;
+  intact: boolean;
+  breaks: ChainBreak[];
+}
+
+export interface IntegrityReport {
+  verifiedAt: Date;
+  intact: boolean;
+  totalEntries: number;
+  chains: ChainVerification[];
+}
+
+export interface AuditBundleChain {
+  chain: string;
+  table: AuditChainTable;
+  scope: string;
+  anchor: ChainAnchor | null;
+  head: { seq: number; hash: string } | null;
+  links: ChainLink[];
+}
+
+export interface AuditBundleSignature {
+  algorithm: 'ECDSA-P256-SHA256';
+  key_id: string;  // 签名密钥的公钥指纹，见 publicKeyFingerprint
+  value: string;   // base64
+}
+
+// 后端发布的签名公钥，与导出包分开获取和保存
+export interface AuditSigningKey {
+  key_id: string;
+  algorithm: 'ECDSA-P256-SHA256';
+  public_key: JsonWebKey;
+  created_at: string;
+  retired_at?: string;   // 停用后不再用于签名，仍用于校验之前导出的包
+}
+
+export type AuditBundlePayload = Omit<AuditBundle, 'digest' | 'signature'>;
+
+// 对导出包的摘要签名，签名方须自行核对包内容与数据库一致
+export type AuditBundleSigner = (payload: AuditBundlePayload, digest: string) => Promise<AuditBundleSignature>;
+
+export interface AuditBundle {
+  format: typeof AUDIT_BUNDLE_FORMAT;
+  version: 1;
+  generated_at: string;
+  scope: string;
+  chains: AuditBundleChain[];
+  digest: string;
+  signature: AuditBundleSignature;
+}
+
+export interface AuditBundleVerification {
+  digestValid: boolean;
+  signatureValid: boolean;
+  chains: ChainVerification[];
+  valid: boolean;
+}
+
+// 各日志表在不同范围下的筛选条件，用于找出未加入哈希链的记录
+const SCOPE_FILTERS: Record<AuditChainTable, Record<string, string>> = {
+  claim_operation_log: {
+    claim: 'claim_id = <record>$scope_id',
+    case: 'claim_id.case_id = <record>$scope_id',
+  },
+  claim_audit_event: {
+    claim: 'claim_id = <record>$scope_id',
+    case: 'case_id = <record>$scope_id',
+    global: 'claim_id IS NONE AND case_id IS NONE',
+  },
+};
+
+/**
+ * 链名由日志表和范围组成，例如 claim_operation_log|case:abc
+ */
+export function chainName(table: AuditChainTable, scope: string): string {
+  return `${table}|${scope}`;
+}
+
+/**
+ * 规范化 JSON：对象键排序，省略 undefined，数据库值类型按其 JSON 形式处理
+ * 保证写入时与读取或导出后重新计算得到相同的哈希
+ */
+export function canonicalize(value: unknown): string {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalize((value as { toJSON: () => unknown }).toJSON());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function computeContentHash(entry: Record<string, unknown>): Promise<string> {
+  return sha256Hex(canonicalize(entry));
+}
+
+export function computeLinkHash(prevHash: string, seq: number, contentHash: string): Promise<string> {
+  return sha256Hex(`${prevHash}|${seq}|${contentHash}`);
+}
+
+/**
+ * 校验一条链：序号连续、前一节点哈希衔接、节点哈希正确、日志内容未被修改
+ * 序号不大于锚点的节点对应已按保留期限清理的日志，不参与校验
+ */
+export async function verifyChainLinks(
+  chain: string,
+  links: ChainLink[],
+  anchor: ChainAnchor | null = null
+): Promise<ChainVerification> {
+  const [table, scope] = chain.split('|') as [AuditChainTable, string];
+  const active = links.filter(link => !anchor || link.seq > anchor.seq).sort((a, b) => a.seq - b.seq);
+  const breaks: ChainBreak[] = [];
+
+  let expectedSeq = anchor ? anchor.seq + 1 : 1;
+  let prevHash = anchor ? anchor.hash : GENESIS_HASH;
+
+  for (const link of active) {
+    const record = String(link.record);
+    if (link.seq !== expectedSeq) {
+      breaks.push({
+        chain,
+        type: 'sequence_gap',
+        seq: link.seq,
+        record,
+        message: `第 ${expectedSeq} 至 ${link.seq - 1} 个节点缺失`,
+      });
+    } else if (link.prev_hash !== prevHash) {
+      breaks.push({ chain, type: 'prev_mismatch', seq: link.seq, record, message: '与前一节点的哈希不衔接' });
+    }
+
+    if (await computeLinkHash(link.prev_hash, link.seq, link.content_hash) !== link.hash) {
+      breaks.push({ chain, type: 'hash_mismatch', seq: link.seq, record, message: '节点哈希与链数据不符' });
+    }
+
+    if (!link.entry) {
+      breaks.push({ chain, type: 'missing_record', seq: link.seq, record, message: '日志记录已被删除' });
+    } else if (await computeContentHash(link.entry) !== link.content_hash) {
+      breaks.push({ chain, type: 'content_mismatch', seq: link.seq, record, message: '日志内容已被修改' });
+    }
+
+    prevHash = link.hash;
+    expectedSeq = link.seq + 1;
+  }
+
+  const last = active[active.length - 1];
+  return {
+    chain,
+    table,
+    scope,
+    length: active.length,
+    anchor,
+    head: last ? { seq: last.seq, hash: last.hash } : anchor ? { seq: anchor.seq, hash: anchor.hash } : null,
+    intact: breaks.length === 0,
+    breaks,
+  };
+}
+
+/**
+ * 生成清理日志后记录链首锚点的语句，应紧跟在对应的 DELETE 语句之后执行
+ * 只为记录已不存在且早于保留期限的节点建立锚点，提前被删除的记录仍会被报告为断链
+ * @param cutoffParam 保留期限的参数名（不含 $）
+ */
+export function buildAnchorStatement(table: AuditChainTable, cutoffParam: string): string {
+  return `FOR $link IN (SELECT chain, seq, hash FROM audit_chain_link WHERE source_table = '${table}' AND recorded_at < <datetime>$${cutoffParam} AND record.id IS NONE ORDER BY seq) {
+          UPSERT type::thing('audit_chain_anchor', $link.chain) SET chain = $link.chain, seq = $link.seq, hash = $link.hash, pruned_at = time::now();
+        };`;
+}
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+function bundlePayload(bundle: AuditBundlePayload | AuditBundle): AuditBundlePayload {
+  const { format, version, generated_at, scope, chains } = bundle;
+  return { format, version, generated_at, scope, chains };
+}
+
+/**
+ * 公钥指纹：公钥 JWK 中 kty、crv、x、y 规范化后 SHA-256 的前 32 位，作为签名密钥的 key_id
+ */
+export async function publicKeyFingerprint(publicKey: JsonWebKey): Promise<string> {
+  const { kty, crv, x, y } = publicKey;
+  return (await sha256Hex(canonicalize({ kty, crv, x, y }))).slice(0, 32);
+}
+
+/**
+ * 由后端签名：后端核对包内每条链与租户库中的节点一致后，用租户的长期密钥对摘要签名
+ * 接口约定见 doc/audit-signing-api.md
+ */
+const requestServerSignature: AuditBundleSigner = (payload, digest) =>
+  apiClient.signAuditBundle({ ...payload, digest }) as Promise<AuditBundleSignature>;
+
+/**
+ * 计算导出包摘要并签名
+ */
+export async function signAuditBundle(
+  payload: AuditBundlePayload,
+  signer: AuditBundleSigner = requestServerSignature
+): Promise<AuditBundle> {
+  const digest = await sha256Hex(canonicalize(bundlePayload(payload)));
+  return { ...payload, digest, signature: await signer(payload, digest) };
+}
+
+/**
+ * 校验导出包：摘要、签名以及包内每条链
+ * 签名只用调用方提供的公钥校验（GET /api/audit/signing-keys 发布或另行存档的公钥），不信任包内的任何密钥信息
+ */
+export async function verifyAuditBundle(
+  bundle: AuditBundle,
+  trustedKeys: AuditSigningKey[]
+): Promise<AuditBundleVerification> {
+  const digestValid = await sha256Hex(canonicalize(bundlePayload(bundle))) === bundle.digest;
+
+  let signatureValid = false;
+  try {
+    const key = trustedKeys.find(item => item.key_id === bundle.signature.key_id);
+    if (!key || await publicKeyFingerprint(key.public_key) !== key.key_id) {
+      throw new Error('签名密钥不在已发布的公钥中');
+    }
+    const publicKey = await crypto.subtle.importKey('jwk', key.public_key, ECDSA_PARAMS, true, ['verify']);
+    signatureValid = await crypto.subtle.verify(
+      SIGN_PARAMS,
+      publicKey,
+      fromBase64(bundle.signature.value),
+      new TextEncoder().encode(bundle.digest)
+    );
+  } catch {
+    signatureValid = false;
+  }
+
+  const chains = await Promise.all(
+    bundle.chains.map(chain => verifyChainLinks(chain.chain, chain.links, chain.anchor))
+  );
+
+  return {
+    digestValid,
+    signatureValid,
+    chains,
+    valid: digestValid && signatureValid && chains.every(chain => chain.intact),
+  };
+}
+
+export class AuditChainService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 为新写入的日志在每个范围的链上追加节点
+   * 节点 ID 为 [链, 序号]，并发写入同一序号时事务失败并重新读取链尾重试；
+   * 追加失败不影响业务，未加入链的日志会在校验时报告
+   * @param scopes 范围，例如 claim:abc、case:xyz
+   */
+  async seal(table: AuditChainTable, entry: Record<string, unknown>, scopes: string[]): Promise<boolean> {
+    if (!entry?.id || scopes.length === 0) {
+      return false;
+    }
+
+    const chains = scopes.map(scope => chainName(table, scope));
+    const time = entry.operation_time ?? entry.created_at;
+    const parsed = time instanceof Date ? time : new Date(String(time));
+    const recordedAt = time != null && !Number.isNaN(parsed.getTime()) ? parsed : new Date();
+
+    for (let attempt = 1; attempt <= MAX_SEAL_ATTEMPTS; attempt++) {
+      try {
+        const contentHash = await computeContentHash(entry);
+        const headParams: Record<string, unknown> = {};
+        chains.forEach((chain, index) => {
+          headParams[`chain_${index}`] = chain;
+        });
+        const heads = await queryWithAuth<Array<{ seq: number; hash: string } | null>>(
+          this.client,
+          `RETURN [${chains
+            .map((_, index) => `(SELECT seq, hash FROM audit_chain_link WHERE chain = $chain_${index} ORDER BY seq DESC LIMIT 1)[0]`)
+            .join(', ')}];`,
+          headParams
+        );
+
+        const statements: string[] = [];
+        const params: Record<string, unknown> = {};
+        for (const [index, chain] of chains.entries()) {
+          const head = Array.isArray(heads) ? heads[index] : null;
+          const seq = (typeof head?.seq === 'number' ? head.seq : 0) + 1;
+          const prevHash = typeof head?.hash === 'string' ? head.hash : GENESIS_HASH;
+          const link: ChainLink = {
+            chain,
+            source_table: table,
+            scope: scopes[index],
+            seq,
+            record: entry.id as RecordId,
+            prev_hash: prevHash,
+            content_hash: contentHash,
+            hash: await computeLinkHash(prevHash, seq, contentHash),
+            recorded_at: recordedAt,
+          };
+          params[`chain_${index}`] = chain;
+          params[`seq_${index}`] = seq;
+          params[`link_${index}`] = link;
+          statements.push(`CREATE type::thing('audit_chain_link', [$chain_${index}, $seq_${index}]) CONTENT $link_${index};`);
+        }
+
+        await queryWithAuth(
+          this.client,
+          `
+          BEGIN TRANSACTION;
+          ${statements.join('\n          ')}
+          COMMIT TRANSACTION;
+        `,
+          params
+        );
+        return true;
+      } catch (error) {
+        if (error instanceof AuthenticationRequiredError) throw error;
+        if (attempt === MAX_SEAL_ATTEMPTS) {
+          console.error('追加审计哈希链节点失败:', error);
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 校验一个日志表在指定范围（债权或案件）上的链
+   */
+  async verifyScope(
+    table: AuditChainTable,
+    scopeType: 'claim' | 'case' | 'global',
+    scopeId?: RecordId | string
+  ): Promise<ChainVerification> {
+    const scope = scopeType === 'global' ? 'global' : String(scopeId);
+    const chain = chainName(table, scope);
+    const filter = SCOPE_FILTERS[table][scopeType];
+    if (!filter) {
+      throw new Error(`${table} 不支持按 ${scopeType} 校验`);
+    }
+
+    try {
+      const { links, anchor } = await this.loadChain(chain);
+      const verification = await verifyChainLinks(chain, links, anchor);
+
+      const unsealed = await queryWithAuth<Array<RecordId | string>>(
+        this.client,
+        `SELECT VALUE id FROM ${table} WHERE ${filter} AND id NOTINSIDE (SELECT VALUE record FROM audit_chain_link WHERE chain = $chain)`,
+        { scope_id: scopeId, chain }
+      );
+      for (const record of unsealed || []) {
+        verification.breaks.push({ chain, type: 'unsealed', record: String(record), message: '日志未加入哈希链' });
+      }
+      verification.intact = verification.breaks.length === 0;
+      return verification;
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('校验审计哈希链失败:', error);
+      throw new Error('校验审计哈希链失败');
+    }
+  }
+
+  /**
+   * 校验案件下的操作日志链和审计事件链
+   */
+  async verifyCase(caseId: RecordId | string): Promise<IntegrityReport> {
+    const chains = await Promise.all([
+      this.verifyScope('claim_operation_log', 'case', caseId),
+      this.verifyScope('claim_audit_event', 'case', caseId),
+    ]);
+    return {
+      verifiedAt: new Date(),
+      intact: chains.every(chain => chain.intact),
+      totalEntries: chains.reduce((sum, chain) => sum + chain.length, 0),
+      chains,
+    };
+  }
+
+  /**
+   * 导出案件的签名审计包：两条案件链的全部节点及其日志内容
+   * 异常检测规则要求重新认证或锁定导出时拒绝导出
+   */
+  async exportCaseBundle(caseId: RecordId | string): Promise<AuditBundle> {
+    await new AnomalyRuleService(this.client).assertExportAllowed();
+
+    const scope = String(caseId);
+    try {
+      const chains: AuditBundleChain[] = [];
+      for (const table of ['claim_operation_log', 'claim_audit_event'] as AuditChainTable[]) {
+        const chain = chainName(table, scope);
+        const { links, anchor } = await this.loadChain(chain);
+        const last = links[links.length - 1];
+        chains.push({
+          chain,
+          table,
+          scope,
+          anchor,
+          head: last ? { seq: last.seq, hash: last.hash } : null,
+          links,
+        });
+      }
+
+      return await signAuditBundle({
+        format: AUDIT_BUNDLE_FORMAT,
+        version: 1,
+        generated_at: new Date().toISOString(),
+        scope,
+        chains,
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('导出签名审计包失败:', error);
+      throw new Error('导出签名审计包失败');
+    }
+  }
+
+  private async loadChain(chain: string): Promise<{ links: ChainLink[]; anchor: ChainAnchor | null }> {
+    const [links, anchors] = await Promise.all([
+      queryWithAuth<ChainLink[]>(
+        this.client,
+        'SELECT chain, source_table, scope, seq, record, prev_hash, content_hash, hash, recorded_at, record.* AS entry FROM audit_chain_link WHERE chain = $chain ORDER BY seq',
+        { chain }
+      ),
+      queryWithAuth<ChainAnchor[]>(
+        this.client,
+        'SELECT chain, seq, hash, pruned_at FROM audit_chain_anchor WHERE chain = $chain',
+        { chain }
+      ),
+    ]);
+    return { links: links || [], anchor: anchors?.[0] ?? null };
+  }
+}
+
+export default AuditChainService;
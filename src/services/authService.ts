@@ -169,15 +169,16 @@ class AuthService {
 
   // Token Management
   async setAuthTokens(accessToken: string, refreshToken?: string, expiresIn?: number): Promise<void> {
-    // 新的Service Worker架构中，认证由SurrealProvider统一管理
-    // authService只需要存储token到localStorage，让Service Worker处理认证
-    // localStorage.setItem('access_token', accessToken);
-    // if (refreshToken) {
-    //   localStorage.setItem('refresh_token', refreshToken);
-    // }
-    // if (expiresIn) {
-    //   localStorage.setItem('token_expires_in', expiresIn.toString());
-    // }
+    // 令牌交给Service Worker统一保存，并按 expiresIn 提前刷新（所有标签页共享）
+    this.postToServiceWorker({
+      type: 'auth_tokens',
+      payload: {
+        access_token: accessToken,
+        refresh_token: refreshToken,
+        expires_in: expiresIn,
+        tenant_code: localStorage.getItem('tenant_code') || undefined,
+      },
+    });
     const client = await this.getSurrealClient();
     client.authenticate(accessToken);
     this.isAuthenticated = true;
@@ -186,6 +187,7 @@ class AuthService {
 
   async clearAuthTokens(): Promise<void> {
     try {
+      this.postToServiceWorker({ type: 'auth_tokens_clear' });
       const client = await this.getSurrealClient();
       await client.invalidate();
 
@@ -204,6 +206,11 @@ class AuthService {
     }
   }
 
+  private postToServiceWorker(message: { type: string; payload?: unknown }): void {
+    if (typeof navigator === 'undefined') return;
+    navigator.serviceWorker?.controller?.postMessage(message);
+  }
+
   async getStoredAccessToken(): Promise<string | null> {
     // Service Worker handles token storage internally
     // We check authentication status instead
@@ -374,6 +381,8 @@ class AuthService {
   // Error Handling
   isSessionExpiredError(error: any): boolean {
     if (!(error instanceof Error)) return false;
+    // Service Worker刷新令牌失败后返回的错误码
+    if ((error as any).code === 'SESSION_EXPIRED') return true;
     const msg = error.message.toLowerCase();
     return (
       msg.includes('session') && msg.includes('expired')) ||
@@ -0,0 +1,68 @@
+/**
+ * 基准利率表服务
+ * 维护利息计算使用的 LPR / 人民银行贷款基准利率表，
+ * 数据库未维护利率时回退到利息计算引擎的内置利率表。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { DEFAULT_BENCHMARK_RATES } from '@/src/utils/interestCalculator';
+import type { BenchmarkInterestRate } from '@/src/types/pdfParser';
+import { format } from 'date-fns';
+
+function toDateString(value: Date | string): string {
+  return typeof value === 'string' ? value.slice(0, 10) : format(value, 'yyyy-MM-dd');
+}
+
+export class BenchmarkRateService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 获取基准利率表
+   */
+  async getRates(): Promise<BenchmarkInterestRate[]> {
+    try {
+      const query = `
+        SELECT * FROM benchmark_interest_rate
+        ORDER BY rate_type, effective_date
+      `;
+      const rates = await queryWithAuth<BenchmarkInterestRate[]>(this.client, query, {});
+      if (!rates || rates.length === 0) {
+        return DEFAULT_BENCHMARK_RATES;
+      }
+      return rates.map(rate => ({ ...rate, id: rate.id ? String(rate.id) : undefined }));
+    } catch (error) {
+      console.error('获取基准利率表失败:', error);
+      throw new Error('获取基准利率表失败');
+    }
+  }
+
+  /**
+   * 保存基准利率表（整表替换，在同一事务内完成）
+   */
+  async saveRates(rates: BenchmarkInterestRate[]): Promise<void> {
+    try {
+      const data = rates.map(rate => ({
+        rate_type: rate.rate_type,
+        effective_date: new Date(toDateString(rate.effective_date) + 'T00:00:00Z'),
+        rate: rate.rate,
+        description: rate.description || undefined
+      }));
+      const query = `
+        BEGIN TRANSACTION;
+        DELETE benchmark_interest_rate;
+        INSERT INTO benchmark_interest_rate $rates;
+        COMMIT TRANSACTION;
+      `;
+      await queryWithAuth(this.client, query, { rates: data });
+    } catch (error) {
+      console.error('保存基准利率表失败:', error);
+      throw new Error('保存基准利率表失败');
+    }
+  }
+}
+
+export default BenchmarkRateService;
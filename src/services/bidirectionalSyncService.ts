@@ -1,5 +1,15 @@
 import { RecordId } from 'surrealdb';
 import { incrementalSyncService } from './incrementalSyncService';
+import { ClaimOperationService } from './claimOperationService';
+import { OperationType } from '../types/claimTracking';
+import {
+  ConflictFieldChoice,
+  buildResolvedData,
+  getConflictingFields,
+  getLocalChanges,
+  getRemoteChangedFields,
+  hasRemoteChangedSince
+} from '../utils/syncConflict';
 
 // Data service interface for dependency injection
 interface DataServiceInterface {
@@ -37,10 +47,42 @@ export interface SyncOperation {
   data: any;
   timestamp: number;
   retryCount: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'conflicted';
   errorMessage?: string;
   userId?: string;
   caseId?: string;
+  baseData?: Record<string, unknown>; // 离线修改前的记录快照，用于冲突检测
+  conflictId?: string; // 冲突记录ID（status 为 conflicted 时）
+}
+
+/**
+ * 同步冲突记录（持久化在 sync_conflict 表）
+ */
+export interface SyncConflict {
+  id: RecordId | string;
+  table_name: string;
+  record_id: RecordId | string;
+  operation: 'create' | 'update' | 'delete';
+  operation_id: string;
+  local_data?: Record<string, unknown>;
+  remote_data?: Record<string, unknown>;
+  base_data?: Record<string, unknown>;
+  conflicting_fields: string[];
+  status: 'pending' | 'resolved';
+  local_timestamp: Date | string;
+  detected_at: Date | string;
+  case_id?: RecordId | string;
+  resolution?: Record<string, unknown>;
+  resolved_at?: Date | string;
+}
+
+/**
+ * 冲突处理方式
+ */
+export interface SyncConflictResolution {
+  fieldChoices: Record<string, ConflictFieldChoice>; // 逐字段选择：保留本地、保留远程或合并
+  mergedValues?: Record<string, unknown>; // 选择合并的字段最终值
+  applyDeletion?: boolean; // 删除冲突：是否仍删除远程记录
 }
 
 /**
@@ -97,6 +139,7 @@ export class BidirectionalSyncService {
     this.serviceWorkerComm = comm;
   }
   private syncQueues = new Map<string, SyncOperation[]>();
+  private syncConfigs = new Map<string, BidirectionalSyncConfig>();
   private activeSync = new Set<string>();
   private syncTimers = new Map<string, NodeJS.Timeout>();
   private networkStatus: NetworkStatus = {
@@ -160,6 +203,7 @@ export class BidirectionalSyncService {
     
     // 初始化同步队列
     this.syncQueues.set(syncKey, []);
+    this.syncConfigs.set(syncKey, syncConfig);
     
     // 启动本地到远程同步
     await this.startLocalToRemoteSync(syncConfig, userId, caseId);
@@ -194,6 +238,7 @@ export class BidirectionalSyncService {
     
     // 清理同步队列
     this.syncQueues.delete(syncKey);
+    this.syncConfigs.delete(syncKey);
     this.activeSync.delete(syncKey);
     
     console.log('BidirectionalSyncService: Bidirectional sync stopped for:', syncKey);
@@ -201,6 +246,7 @@ export class BidirectionalSyncService {
 
   /**
    * 添加本地操作到同步队列
+   * @param baseData 修改前的记录快照，提供后可按版本号/字段精确判断冲突
    */
   async queueLocalOperation(
     table: string,
@@ -208,7 +254,8 @@ export class BidirectionalSyncService {
     recordId: RecordId,
     data: any,
     userId: string,
-    caseId?: string
+    caseId?: string,
+    baseData?: Record<string, unknown>
   ): Promise<void> {
     const syncKey = this.generateSyncKey([table], userId, caseId);
     
@@ -222,7 +269,8 @@ export class BidirectionalSyncService {
       retryCount: 0,
       status: 'pending',
       userId,
-      caseId
+      caseId,
+      baseData
     };
     
     // 添加到同步队列
@@ -304,13 +352,16 @@ export class BidirectionalSyncService {
     try {
       console.log(`BidirectionalSyncService: Processing ${operations.length} local operations for sync key: ${syncKey}`);
       
-      const config = this.defaultConfig;
+      const config = this.syncConfigs.get(syncKey) || this.defaultConfig;
+      
+      // 回放前检测冲突，冲突或被丢弃的操作不再写入远程
+      const readyOperations = await this.detectConflicts(operations, config);
       
       // 根据配置决定是否批处理
-      if (config.enableBatching && operations.length > 1) {
-        await this.processBatchOperations(operations, config);
-      } else {
-        await this.processIndividualOperations(operations, config);
+      if (config.enableBatching && readyOperations.length > 1) {
+        await this.processBatchOperations(readyOperations, config);
+      } else if (readyOperations.length > 0) {
+        await this.processIndividualOperations(readyOperations, config);
       }
       
       // 清理成功的操作
@@ -477,6 +528,140 @@ export class BidirectionalSyncService {
     }
   }
 
+  /**
+   * 检测离线操作与远程记录的冲突
+   * 返回可以直接写入远程的操作；冲突操作按配置的策略丢弃、覆盖或持久化等待人工处理
+   */
+  private async detectConflicts(
+    operations: SyncOperation[],
+    config: BidirectionalSyncConfig
+  ): Promise<SyncOperation[]> {
+    const readyOperations: SyncOperation[] = [];
+
+    for (const operation of operations) {
+      if (operation.operation === 'create' || config.conflictResolution === 'local') {
+        readyOperations.push(operation);
+        continue;
+      }
+
+      try {
+        const remote = await this.fetchRemoteRecord(operation.recordId);
+
+        if (!remote) {
+          // 远程记录已不存在：删除操作视为已完成，更新操作按原逻辑写入
+          if (operation.operation === 'delete') {
+            operation.status = 'completed';
+          } else {
+            readyOperations.push(operation);
+          }
+          continue;
+        }
+
+        if (!hasRemoteChangedSince(remote, operation.baseData, operation.timestamp)) {
+          readyOperations.push(operation);
+          continue;
+        }
+
+        const conflictingFields = operation.operation === 'delete'
+          ? getRemoteChangedFields(remote, operation.baseData)
+          : getConflictingFields(operation.data || {}, remote, operation.baseData);
+
+        // 本地与远程修改的字段互不重叠时只写入本地实际修改的字段，保留远程的其他修改
+        if (operation.operation === 'update' && conflictingFields.length === 0) {
+          operation.data = getLocalChanges(operation.data || {}, operation.baseData);
+          readyOperations.push(operation);
+          continue;
+        }
+
+        switch (config.conflictResolution) {
+          case 'timestamp': {
+            const remoteTime = new Date(String(remote.updated_at)).getTime();
+            if (operation.timestamp >= remoteTime) {
+              readyOperations.push(operation);
+            } else {
+              operation.status = 'completed';
+              console.log('BidirectionalSyncService: Remote record is newer, discarded local operation:', operation.id);
+            }
+            break;
+          }
+
+          case 'remote':
+            operation.status = 'completed';
+            console.log('BidirectionalSyncService: Kept remote record, discarded local operation:', operation.id);
+            break;
+
+          case 'manual':
+            operation.conflictId = await this.recordConflict(operation, remote, conflictingFields);
+            operation.status = 'conflicted';
+            console.log('BidirectionalSyncService: Conflict recorded for manual resolution:', operation.conflictId);
+            break;
+        }
+      } catch (error) {
+        console.error('BidirectionalSyncService: Error detecting conflict:', error);
+
+        operation.status = 'failed';
+        operation.errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        operation.retryCount++;
+      }
+    }
+
+    return readyOperations;
+  }
+
+  /**
+   * 读取远程记录当前数据
+   */
+  private async fetchRemoteRecord(recordId: RecordId | string): Promise<Record<string, unknown> | null> {
+    const results = await this.ensureDataService().query<unknown[][]>(
+      'SELECT * FROM $record_id',
+      { record_id: recordId }
+    );
+    return (results[0]?.[0] as Record<string, unknown> | undefined) ?? null;
+  }
+
+  /**
+   * 持久化冲突记录，返回冲突ID
+   */
+  private async recordConflict(
+    operation: SyncOperation,
+    remote: Record<string, unknown>,
+    conflictingFields: string[]
+  ): Promise<string> {
+    const query = `
+      CREATE sync_conflict CONTENT {
+        table_name: $table_name,
+        record_id: $record_id,
+        operation: $operation,
+        operation_id: $operation_id,
+        local_data: $local_data,
+        remote_data: $remote_data,
+        base_data: $base_data,
+        conflicting_fields: $conflicting_fields,
+        local_timestamp: $local_timestamp,
+        case_id: IF $case_id THEN type::record($case_id) END
+      }
+    `;
+    const results = await this.ensureDataService().query<unknown[][]>(query, {
+      table_name: operation.table,
+      record_id: operation.recordId,
+      operation: operation.operation,
+      operation_id: operation.id,
+      local_data: operation.data ?? undefined,
+      remote_data: remote,
+      base_data: operation.baseData,
+      conflicting_fields: conflictingFields,
+      local_timestamp: new Date(operation.timestamp),
+      case_id: operation.caseId
+    });
+    const conflict = results[0]?.[0] as SyncConflict | undefined;
+
+    if (!conflict) {
+      throw new Error('Failed to persist sync conflict');
+    }
+
+    return String(conflict.id);
+  }
+
   /**
    * 设置定时同步
    */
@@ -620,11 +805,116 @@ export class BidirectionalSyncService {
       lastSyncTime: Date.now(),
       pendingOperations: queue.filter(op => op.status === 'pending').length,
       failedOperations: queue.filter(op => op.status === 'failed').length,
-      conflictedOperations: 0, // TODO: 实现冲突统计
+      conflictedOperations: queue.filter(op => op.status === 'conflicted').length,
       networkStatus: this.networkStatus
     };
   }
 
+  /**
+   * 获取当前用户待处理的同步冲突
+   */
+  async getPendingConflicts(caseId?: RecordId | string): Promise<SyncConflict[]> {
+    const caseFilter = caseId ? 'AND case_id = type::record($case_id)' : '';
+    const results = await this.ensureDataService().query<unknown[][]>(
+      `SELECT * FROM sync_conflict WHERE status = 'pending' AND created_by = $auth.id ${caseFilter} ORDER BY detected_at DESC`,
+      { case_id: caseId ? String(caseId) : undefined }
+    );
+    return (results[0] as SyncConflict[] | undefined) ?? [];
+  }
+
+  /**
+   * 人工处理同步冲突
+   * 按逐字段选择写入远程记录并标记冲突已解决，同时移除队列中对应的操作；
+   * 冲突记录属于债权时写入债权操作日志
+   */
+  async resolveConflict(conflictId: RecordId | string, resolution: SyncConflictResolution): Promise<void> {
+    const dataService = this.ensureDataService();
+    const results = await dataService.query<unknown[][]>(
+      'SELECT * FROM type::record($conflict_id)',
+      { conflict_id: String(conflictId) }
+    );
+    const conflict = results[0]?.[0] as SyncConflict | undefined;
+
+    if (!conflict || conflict.status !== 'pending') {
+      throw new Error('冲突记录不存在或已处理');
+    }
+
+    const applyDeletion = conflict.operation === 'delete' && resolution.applyDeletion === true;
+    const resolvedData = conflict.operation === 'delete'
+      ? {}
+      : buildResolvedData(
+          conflict.local_data || {},
+          conflict.conflicting_fields,
+          resolution.fieldChoices,
+          resolution.mergedValues,
+          conflict.base_data
+        );
+    const resolutionSummary = {
+      field_choices: resolution.fieldChoices,
+      merged_values: resolution.mergedValues || {},
+      applied_deletion: applyDeletion
+    };
+
+    const statements = ['BEGIN TRANSACTION;'];
+    if (applyDeletion) {
+      statements.push('DELETE $record_id;');
+    } else if (Object.keys(resolvedData).length > 0) {
+      statements.push('UPDATE $record_id MERGE $resolved_data;');
+    }
+    statements.push(
+      "UPDATE $conflict_id SET status = 'resolved', resolution = $resolution, resolved_by = $auth.id, resolved_at = time::now();",
+      'COMMIT TRANSACTION;'
+    );
+
+    try {
+      await dataService.query(statements.join('\n'), {
+        record_id: conflict.record_id,
+        conflict_id: conflict.id,
+        resolved_data: resolvedData,
+        resolution: resolutionSummary
+      });
+    } catch (error) {
+      console.error('BidirectionalSyncService: Error resolving conflict:', error);
+      throw new Error('保存冲突处理结果失败');
+    }
+
+    await this.removeConflictedOperation(conflict.operation_id);
+
+    if (conflict.table_name === 'claim') {
+      await new ClaimOperationService(dataService).logOperation({
+        claim_id: conflict.record_id,
+        operation_type: OperationType.CONFLICT_RESOLVE,
+        description: applyDeletion ? '解决离线同步冲突（保留本地删除）' : '解决离线同步冲突',
+        before_data: conflict.remote_data,
+        after_data: applyDeletion ? undefined : { ...(conflict.remote_data || {}), ...resolvedData },
+        operation_details: {
+          conflict_id: String(conflict.id),
+          sync_operation: conflict.operation,
+          conflicting_fields: conflict.conflicting_fields,
+          ...resolutionSummary
+        },
+        business_context: {
+          source: 'offline_sync',
+          local_timestamp: conflict.local_timestamp
+        }
+      });
+    }
+  }
+
+  /**
+   * 从同步队列中移除已人工处理的冲突操作
+   */
+  private async removeConflictedOperation(operationId: string): Promise<void> {
+    for (const [syncKey, queue] of this.syncQueues) {
+      if (!queue.some(op => op.id === operationId)) {
+        continue;
+      }
+      const remainingOperations = queue.filter(op => op.id !== operationId);
+      this.syncQueues.set(syncKey, remainingOperations);
+      await this.persistOfflineQueue(syncKey, remainingOperations);
+    }
+  }
+
   /**
    * 清理同步数据
    */
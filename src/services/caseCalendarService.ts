@@ -0,0 +1,334 @@
+/**
+ * 案件期限日历服务
+ * 汇总用户可访问案件的法定期限（按程序流程推算）、已登记的关键日期和会议安排，
+ * 标记逾期和临近期限的事项，并生成按用户或按案件的 iCalendar 日历文件和订阅链接。
+ */
+
+import { differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { RecordId } from 'surrealdb';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { apiClient } from '@/src/utils/apiClient';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import { DEFAULT_PROCEDURE_TYPE, findPhase, getPhaseDeadline } from './caseProcedureFlowService';
+import { CASE_DATE_FIELDS } from '@/src/utils/reminderCondition';
+import { defaultHolidayCalendar, nextWorkingDay, type HolidayCalendar } from '@/src/utils/holidayCalendar';
+import { buildICalendar, type ICalendarEvent } from '@/src/utils/icalendar';
+import type { CaseProcedureFlow } from '@/src/types/caseProcedure';
+import type {
+  CalendarFeed,
+  CaseCalendarCase,
+  CaseCalendarEvent,
+  CaseCalendarEventStatus,
+  CaseCalendarMeeting,
+} from '@/src/types/caseCalendar';
+
+const CANCELLED_MEETING_STATUSES = ['已取消', 'CANCELLED'];
+const MEETING_ALARM_MINUTES = 30;
+const UID_DOMAIN = 'cuckoox';
+
+export interface CaseCalendarData {
+  cases: CaseCalendarCase[];
+  flows: CaseProcedureFlow[];
+  meetings: CaseCalendarMeeting[];
+}
+
+function toCaseRecordId(caseId: string | null): RecordId | undefined {
+  if (!caseId) return undefined;
+  return new RecordId('case', caseId.startsWith('case:') ? caseId.slice('case:'.length) : caseId);
+}
+
+// 订阅链接带租户代码，后端据此选择租户库查找令牌
+function toFeedUrl(feed: CalendarFeed): string {
+  return apiClient.getCalendarFeedUrl(localStorage.getItem('tenant_code') || '', feed.token);
+}
+
+function toKey(id: unknown): string {
+  return String(id).replace(/[^\w-]/g, '_');
+}
+
+function parseDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(value as string | Date);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function caseFields(caseData: CaseCalendarCase) {
+  return {
+    case_id: String(caseData.id),
+    case_number: caseData.case_number ?? '',
+    case_name: caseData.name ?? '',
+  };
+}
+
+/**
+ * 按程序流程推算案件各阶段的法定期限
+ * 期限届满日为法定节假日或休息日的，顺延至其后的第一个工作日（《民事诉讼法》第八十五条）。
+ * 案件已进入后续阶段的期限视为已完成，其余按剩余天数标记逾期或临近。
+ */
+export function deriveStatutoryDeadlines(
+  caseData: CaseCalendarCase,
+  flow: CaseProcedureFlow,
+  now: Date,
+  calendar: HolidayCalendar = defaultHolidayCalendar,
+): CaseCalendarEvent[] {
+  const today = startOfDay(now);
+  const currentPhase = findPhase(flow, caseData.procedure_phase);
+  const events: CaseCalendarEvent[] = [];
+
+  for (const phase of flow.phases) {
+    const rawDeadline = getPhaseDeadline(phase, caseData);
+    if (!phase.deadline || !rawDeadline) continue;
+
+    const originalDate = startOfDay(rawDeadline);
+    const deadline = nextWorkingDay(originalDate, calendar);
+    const extended = deadline.getTime() !== originalDate.getTime();
+    const days = differenceInCalendarDays(deadline, today);
+    const passed = Boolean(currentPhase) &&
+      (currentPhase!.is_terminal || currentPhase!.display_order > phase.display_order);
+
+    let status: CaseCalendarEventStatus = 'upcoming';
+    if (passed) status = 'done';
+    else if (days < 0) status = 'overdue';
+    else if (days <= phase.deadline.remind_within_days) status = 'at_risk';
+
+    const title = phase.deadline.description || `${phase.name}阶段期限`;
+    const baseLabel = CASE_DATE_FIELDS[phase.deadline.base_date_field] ?? phase.deadline.base_date_field;
+    const offset = [
+      phase.deadline.offset_months ? `${phase.deadline.offset_months} 个月` : '',
+      phase.deadline.offset_days ? `${phase.deadline.offset_days} 日` : '',
+    ].filter(Boolean).join(' ');
+    const description = [
+      `程序阶段：${phase.name}`,
+      `计算方式：${baseLabel}${offset ? ` + ${offset}` : ''}`,
+      extended ? `届满日 ${format(originalDate, 'yyyy-MM-dd')} 为节假日，顺延至 ${format(deadline, 'yyyy-MM-dd')}` : '',
+    ].filter(Boolean).join('\n');
+
+    events.push({
+      id: `deadline-${toKey(caseData.id)}-${phase.display_order}`,
+      kind: 'statutory_deadline',
+      ...caseFields(caseData),
+      title,
+      description,
+      start: deadline,
+      all_day: true,
+      status,
+      days_remaining: days,
+      phase: phase.name,
+      original_date: extended ? originalDate : undefined,
+      remind_within_days: phase.deadline.remind_within_days,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * 案件已登记的关键日期（受理、公告、债权申报、债权人会议等）
+ */
+export function deriveCaseDates(caseData: CaseCalendarCase, now: Date): CaseCalendarEvent[] {
+  const today = startOfDay(now);
+  const events: CaseCalendarEvent[] = [];
+
+  for (const [field, label] of Object.entries(CASE_DATE_FIELDS)) {
+    const value = parseDate(caseData[field]);
+    if (!value) continue;
+
+    const date = startOfDay(value);
+    const days = differenceInCalendarDays(date, today);
+    events.push({
+      id: `date-${toKey(caseData.id)}-${field}`,
+      kind: 'case_date',
+      ...caseFields(caseData),
+      title: label,
+      start: date,
+      all_day: true,
+      status: days < 0 ? 'done' : 'upcoming',
+      days_remaining: days,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * 会议安排，已取消的会议不列入日历
+ */
+export function deriveMeetingEvents(
+  meetings: CaseCalendarMeeting[],
+  cases: CaseCalendarCase[],
+  now: Date,
+): CaseCalendarEvent[] {
+  const casesById = new Map(cases.map(caseData => [String(caseData.id), caseData]));
+  const today = startOfDay(now);
+  const events: CaseCalendarEvent[] = [];
+
+  for (const meeting of meetings) {
+    const caseData = casesById.get(String(meeting.case_id));
+    const start = parseDate(meeting.scheduled_start_date);
+    if (!caseData || !start || CANCELLED_MEETING_STATUSES.includes(meeting.status ?? '')) continue;
+
+    const end = parseDate(meeting.scheduled_end_date) ?? undefined;
+    events.push({
+      id: `meeting-${toKey(meeting.id)}`,
+      kind: 'meeting',
+      ...caseFields(caseData),
+      title: meeting.meeting_name,
+      description: [meeting.meeting_type, meeting.meeting_agenda].filter(Boolean).join('\n') || undefined,
+      start,
+      end,
+      all_day: false,
+      status: (end ?? start) < now ? 'done' : 'upcoming',
+      days_remaining: differenceInCalendarDays(startOfDay(start), today),
+      meeting_link: meeting.meeting_link,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * 汇总所有案件的日历事件，按时间排序
+ */
+export function buildCaseCalendarEvents(
+  data: CaseCalendarData,
+  now: Date,
+  calendar: HolidayCalendar = defaultHolidayCalendar,
+): CaseCalendarEvent[] {
+  const flowsByType = new Map(data.flows.map(flow => [flow.procedure_type, flow]));
+  const events: CaseCalendarEvent[] = [];
+
+  for (const caseData of data.cases) {
+    const flow = flowsByType.get(caseData.case_procedure) ?? flowsByType.get(DEFAULT_PROCEDURE_TYPE);
+    if (flow) {
+      events.push(...deriveStatutoryDeadlines(caseData, flow, now, calendar));
+    }
+    events.push(...deriveCaseDates(caseData, now));
+  }
+  events.push(...deriveMeetingEvents(data.meetings, data.cases, now));
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime() || a.case_number.localeCompare(b.case_number));
+}
+
+/**
+ * 筛选落在 [from, to) 区间内的事件
+ */
+export function eventsInRange(events: CaseCalendarEvent[], from: Date, to: Date): CaseCalendarEvent[] {
+  return events.filter(event => event.start >= from && event.start < to);
+}
+
+function toICalendarEvent(event: CaseCalendarEvent): ICalendarEvent {
+  const alarms: ICalendarEvent['alarms'] = [];
+  if (event.kind === 'statutory_deadline' && event.status !== 'done' && event.remind_within_days) {
+    alarms.push({ minutes_before: event.remind_within_days * 24 * 60, description: `${event.title}将于 ${event.remind_within_days} 天后届满` });
+  }
+  if (event.kind === 'meeting' && event.status !== 'done') {
+    alarms.push({ minutes_before: MEETING_ALARM_MINUTES, description: `${event.title}即将开始` });
+  }
+
+  return {
+    uid: `${event.id}@${UID_DOMAIN}`,
+    summary: `[${event.case_number || event.case_name}] ${event.title}`,
+    description: [`案件：${event.case_name}`, event.description].filter(Boolean).join('\n'),
+    url: event.meeting_link,
+    start: event.start,
+    end: event.end,
+    all_day: event.all_day,
+    categories: [event.kind === 'statutory_deadline' ? '法定期限' : event.kind === 'meeting' ? '会议' : '案件日期'],
+    status: 'CONFIRMED',
+    alarms,
+  };
+}
+
+/**
+ * 生成 .ics 日历文件内容，caseId 为空时包含全部事件
+ */
+export function buildCaseCalendarFeed(
+  events: CaseCalendarEvent[],
+  options: { name: string; caseId?: string | null; now?: Date },
+): string {
+  const selected = options.caseId ? events.filter(event => event.case_id === options.caseId) : events;
+  return buildICalendar(selected.map(toICalendarEvent), {
+    name: options.name,
+    description: '破产案件法定期限、关键日期和会议安排',
+    now: options.now,
+  });
+}
+
+export class CaseCalendarService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 加载当前用户可访问的案件、启用的程序流程和这些案件的会议
+   */
+  async loadCalendarData(): Promise<CaseCalendarData> {
+    try {
+      const [cases, flows, meetings] = await queryWithAuth<[CaseCalendarCase[], CaseProcedureFlow[], CaseCalendarMeeting[]]>(
+        this.client,
+        `RETURN [
+          (SELECT * FROM case),
+          (SELECT * FROM case_procedure_flow WHERE is_active = true),
+          (SELECT * FROM meeting WHERE case_id INSIDE (SELECT VALUE id FROM case))
+        ]`
+      );
+      return { cases: cases || [], flows: flows || [], meetings: meetings || [] };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载案件日历失败:', error);
+      throw new Error('加载案件日历失败');
+    }
+  }
+
+  /**
+   * 获取当前用户订阅全部案件（caseId 为空）或单个案件的日历链接，没有有效订阅时新建
+   */
+  async getFeedUrl(caseId: string | null): Promise<string> {
+    try {
+      const [feed] = await queryWithAuth<CalendarFeed[]>(
+        this.client,
+        `SELECT * FROM calendar_feed WHERE user_id = $auth.id AND case_id = $case_id AND revoked_at = NONE LIMIT 1`,
+        { case_id: toCaseRecordId(caseId) }
+      );
+      return toFeedUrl(feed ?? await this.createFeed(caseId));
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取日历订阅链接失败:', error);
+      throw new Error('获取日历订阅链接失败');
+    }
+  }
+
+  /**
+   * 停用当前的订阅链接并生成新链接，链接泄露时使用
+   */
+  async resetFeedUrl(caseId: string | null): Promise<string> {
+    try {
+      await queryWithAuth(
+        this.client,
+        `UPDATE calendar_feed SET revoked_at = time::now() WHERE user_id = $auth.id AND case_id = $case_id AND revoked_at = NONE`,
+        { case_id: toCaseRecordId(caseId) }
+      );
+      return toFeedUrl(await this.createFeed(caseId));
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('重置日历订阅链接失败:', error);
+      throw new Error('重置日历订阅链接失败');
+    }
+  }
+
+  private async createFeed(caseId: string | null): Promise<CalendarFeed> {
+    const [feed] = await queryWithAuth<CalendarFeed[]>(
+      this.client,
+      `CREATE calendar_feed SET user_id = $auth.id, case_id = $case_id`,
+      { case_id: toCaseRecordId(caseId) }
+    );
+    if (!feed) {
+      throw new Error('日历订阅创建失败');
+    }
+    return feed;
+  }
+}
+
+export default CaseCalendarService;
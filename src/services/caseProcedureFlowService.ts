@@ -0,0 +1,235 @@
+/**
+ * 案件程序流程服务
+ * 从数据库读取各程序类型（破产清算、破产重整、破产和解）的阶段与流转定义，
+ * 提供可用流转计算、必填项校验、阶段期限计算以及阶段变更和变更日志查询。
+ * 阶段变更的最终校验和日志记录由数据库事件 case_procedure_phase_change 完成。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import {
+  CaseProcedureFlow,
+  CaseProcedurePhase,
+  CaseProcedureTransition,
+  CaseProcedureTransitionLog,
+  TransitionCaseParams
+} from '@/src/types/caseProcedure';
+import type { RecordId } from 'surrealdb';
+
+// 未登记流程的程序类型（如旧数据中的'破产'）按破产清算流程处理，与数据库事件保持一致
+export const DEFAULT_PROCEDURE_TYPE = '破产清算';
+
+const ANY_PHASE = '*';
+
+/**
+ * 查找阶段定义
+ */
+export function findPhase(flow: CaseProcedureFlow, phaseName: string): CaseProcedurePhase | undefined {
+  return flow.phases.find(phase => phase.name === phaseName);
+}
+
+/**
+ * 获取当前阶段可执行的流转
+ * admin 角色不受角色限制
+ */
+export function getAvailableTransitions(
+  flow: CaseProcedureFlow,
+  currentPhase: string,
+  userRoles: string[]
+): CaseProcedureTransition[] {
+  if (findPhase(flow, currentPhase)?.is_terminal) {
+    return [];
+  }
+
+  const isAdmin = userRoles.includes('admin');
+  const seen = new Set<string>();
+
+  return flow.transitions
+    .filter(transition => transition.from === currentPhase || transition.from === ANY_PHASE)
+    .filter(transition => transition.to !== currentPhase)
+    .filter(transition =>
+      isAdmin ||
+      transition.allowed_roles.length === 0 ||
+      transition.allowed_roles.some(role => userRoles.includes(role))
+    )
+    // 明确定义的流转优先于通配流转
+    .sort((a, b) => Number(a.from === ANY_PHASE) - Number(b.from === ANY_PHASE))
+    .filter(transition => {
+      if (seen.has(transition.to)) return false;
+      seen.add(transition.to);
+      return true;
+    })
+    .sort((a, b) => (findPhase(flow, a.to)?.display_order ?? 0) - (findPhase(flow, b.to)?.display_order ?? 0));
+}
+
+/**
+ * 校验流转必填项，返回缺失项名称
+ */
+export function getMissingRequirements(
+  transition: CaseProcedureTransition,
+  values: Pick<TransitionCaseParams, 'date_values' | 'documents'>
+): string[] {
+  const missingDates = transition.required_date_fields
+    .filter(requirement => !values.date_values[requirement.field])
+    .map(requirement => requirement.label);
+  const missingDocuments = transition.required_documents
+    .filter(requirement => !values.documents[requirement.field])
+    .map(requirement => requirement.label);
+  return [...missingDates, ...missingDocuments];
+}
+
+/**
+ * 计算阶段法定期限截止日期，基准日期缺失或阶段无期限时返回 null
+ */
+export function getPhaseDeadline(
+  phase: CaseProcedurePhase | undefined,
+  caseData: Record<string, unknown>
+): Date | null {
+  const deadline = phase?.deadline;
+  if (!deadline) return null;
+
+  const baseValue = caseData[deadline.base_date_field];
+  if (!baseValue) return null;
+
+  const deadlineDate = new Date(baseValue as string | Date);
+  if (Number.isNaN(deadlineDate.getTime())) return null;
+
+  if (deadline.offset_months) {
+    deadlineDate.setMonth(deadlineDate.getMonth() + deadline.offset_months);
+  }
+  if (deadline.offset_days) {
+    deadlineDate.setDate(deadlineDate.getDate() + deadline.offset_days);
+  }
+  return deadlineDate;
+}
+
+/**
+ * 将数据库 THROW 的错误信息还原为业务提示
+ */
+function extractServerMessage(error: unknown): string | null {
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+  const match = message.match(/An error occurred: (.+)$/s);
+  return match ? match[1].trim() : null;
+}
+
+export class CaseProcedureFlowService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 获取全部启用的程序流程
+   */
+  async getFlows(): Promise<CaseProcedureFlow[]> {
+    try {
+      const query = `
+        SELECT * FROM case_procedure_flow
+        WHERE is_active = true
+        ORDER BY procedure_type
+      `;
+      const flows = await queryWithAuth<CaseProcedureFlow[]>(this.client, query, {});
+      return flows || [];
+    } catch (error) {
+      console.error('获取案件程序流程失败:', error);
+      throw new Error('获取案件程序流程失败');
+    }
+  }
+
+  /**
+   * 获取程序类型对应的流程，未定义时回退到破产清算流程
+   */
+  async getFlow(procedureType: string): Promise<CaseProcedureFlow | null> {
+    try {
+      const query = `
+        SELECT * FROM case_procedure_flow
+        WHERE procedure_type INSIDE $procedure_types AND is_active = true
+      `;
+      const flows = (await queryWithAuth<CaseProcedureFlow[]>(this.client, query, {
+        procedure_types: [procedureType, DEFAULT_PROCEDURE_TYPE]
+      })) || [];
+
+      return (
+        flows.find(flow => flow.procedure_type === procedureType) ||
+        flows.find(flow => flow.procedure_type === DEFAULT_PROCEDURE_TYPE) ||
+        null
+      );
+    } catch (error) {
+      console.error('获取案件程序流程失败:', error);
+      throw new Error('获取案件程序流程失败');
+    }
+  }
+
+  /**
+   * 变更案件程序阶段
+   * 先保存阶段变更所需文书，再一次性更新阶段与日期字段；
+   * 流转合法性、角色和必填项由数据库事件校验，校验失败时整个更新回滚
+   */
+  async transitionCase(params: TransitionCaseParams): Promise<void> {
+    try {
+      const caseId = typeof params.case_id === 'string' && !params.case_id.startsWith('case:')
+        ? `case:${params.case_id}`
+        : params.case_id;
+      const patch: Record<string, unknown> = {
+        procedure_phase: params.to_phase
+      };
+
+      Object.entries(params.date_values).forEach(([field, value]) => {
+        if (value) {
+          patch[field] = new Date(value + 'T00:00:00Z');
+        }
+      });
+
+      for (const [field, document] of Object.entries(params.documents)) {
+        const documentQuery = `
+          CREATE document SET
+            title = $title,
+            content = $content,
+            case_id = type::record($case_id),
+            document_type = $document_type,
+            last_edited_by = $auth.id
+        `;
+        const [createdDocument] = await queryWithAuth<{ id: RecordId | string }[]>(this.client, documentQuery, {
+          title: document.title,
+          content: document.content,
+          case_id: caseId,
+          document_type: field
+        });
+        if (!createdDocument) {
+          throw new Error(`${document.title}保存失败`);
+        }
+        patch[field] = createdDocument.id;
+      }
+
+      const updateQuery = `UPDATE type::record($case_id) MERGE $patch`;
+      await queryWithAuth(this.client, updateQuery, {
+        case_id: caseId,
+        patch
+      });
+    } catch (error) {
+      console.error('变更案件程序阶段失败:', error);
+      throw new Error(extractServerMessage(error) || '变更案件程序阶段失败');
+    }
+  }
+
+  /**
+   * 获取案件程序阶段变更日志
+   */
+  async getTransitionLogs(caseId: RecordId | string): Promise<CaseProcedureTransitionLog[]> {
+    try {
+      const query = `
+        SELECT *, operator_id.name AS operator_name
+        FROM case_procedure_transition_log
+        WHERE case_id = type::record($case_id)
+        ORDER BY created_at DESC
+      `;
+      const logs = await queryWithAuth<CaseProcedureTransitionLog[]>(this.client, query, { case_id: caseId });
+      return logs || [];
+    } catch (error) {
+      console.error('获取案件程序变更日志失败:', error);
+      throw new Error('获取案件程序变更日志失败');
+    }
+  }
+}
+
+export default CaseProcedureFlowService;
@@ -1,35 +1,203 @@
 import { RecordId } from "surrealdb";
+import { differenceInCalendarDays, format, startOfDay } from "date-fns";
 import type { SurrealWorkerAPI } from "@/src/contexts/SurrealProvider";
 import { messageService } from "./messageService";
+import {
+  DEFAULT_PROCEDURE_TYPE,
+  findPhase,
+  getPhaseDeadline,
+} from "./caseProcedureFlowService";
+import type { CaseProcedureFlow } from "@/src/types/caseProcedure";
+import type {
+  NotificationRule,
+  ReminderCaseData,
+  ReminderEvaluation,
+  ReminderFrequency,
+} from "@/src/types/caseReminder";
+import {
+  evaluateCondition,
+  parseCondition,
+  type ConditionNode,
+} from "@/src/utils/reminderCondition";
+import {
+  defaultHolidayCalendar,
+  isWorkingDay,
+  type HolidayCalendar,
+} from "@/src/utils/holidayCalendar";
 
-interface NotificationRule {
-  id: RecordId | string;
-  procedure_phase: string;
-  trigger_condition: string;
-  message_template: string;
-  notification_frequency: string;
-  notification_time: string;
-  is_active: boolean;
+interface CaseBotSubscriber {
+  user_id: RecordId | string;
 }
 
-interface CaseData {
-  id: RecordId | string;
-  case_number: string;
-  name: string;
-  procedure_phase: string;
-  acceptance_date: string;
-  announcement_date?: string;
-  claim_submission_start_date?: string;
-  claim_submission_end_date?: string;
-  first_creditor_meeting_date?: string;
-  reorganization_ruling_date?: string;
-  delayed_reorganization_plan_submission_date?: string;
-  reorganization_plan_submission_date?: string;
-  second_creditor_meeting_date?: string;
+export interface ReminderPreviewItem {
+  case: ReminderCaseData;
+  evaluation: ReminderEvaluation;
 }
 
-interface CaseBotSubscriber {
-  user_id: RecordId | string;
+/**
+ * 未配置触发条件时，使用程序流程中当前阶段的期限设置
+ */
+function defaultCondition(
+  flow: CaseProcedureFlow,
+  phaseName: string,
+): string | null {
+  const deadline = findPhase(flow, phaseName)?.deadline;
+  return deadline
+    ? `due_within(phase_deadline, ${deadline.remind_within_days})`
+    : null;
+}
+
+/**
+ * 计算去重周期，返回 null 表示本次不应提醒（如 WORKDAY 规则遇到休息日）
+ */
+export function getPeriodKey(
+  frequency: ReminderFrequency | string,
+  now: Date,
+  target: Date | null,
+  calendar: HolidayCalendar = defaultHolidayCalendar,
+): string | null {
+  switch (frequency) {
+    case "ONCE":
+      return `once:${target ? format(target, "yyyy-MM-dd") : "none"}`;
+    case "WORKDAY":
+      return isWorkingDay(now, calendar)
+        ? `day:${format(now, "yyyy-MM-dd")}`
+        : null;
+    case "WEEKLY":
+      return `week:${format(now, "RRRR-'W'II")}`;
+    case "DAILY":
+    default:
+      return `day:${format(now, "yyyy-MM-dd")}`;
+  }
+}
+
+/**
+ * 当天是否已到规则的发送时间，时间格式不正确时不限制
+ */
+export function isNotificationTimeReached(
+  notificationTime: string | undefined,
+  now: Date,
+): boolean {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(notificationTime ?? "");
+  if (!match) {
+    return true;
+  }
+  return (
+    now.getHours() * 60 + now.getMinutes() >=
+    Number(match[1]) * 60 + Number(match[2])
+  );
+}
+
+/**
+ * 判定单个案件是否触发规则（不考虑发送时间和去重）
+ */
+export function evaluateReminderRule(
+  rule: Pick<
+    NotificationRule,
+    "trigger_condition" | "notification_frequency" | "procedure_phase"
+  >,
+  caseData: ReminderCaseData,
+  flow: CaseProcedureFlow,
+  now: Date,
+  calendar: HolidayCalendar = defaultHolidayCalendar,
+  parsed?: ConditionNode,
+): ReminderEvaluation {
+  const phaseDeadline = getPhaseDeadline(
+    findPhase(flow, caseData.procedure_phase),
+    caseData,
+  );
+  const condition =
+    parsed ??
+    (rule.trigger_condition?.trim() ||
+      defaultCondition(flow, caseData.procedure_phase));
+
+  if (!condition) {
+    return { fired: false, target: null, days: null, period_key: null };
+  }
+
+  try {
+    const { matched, target } = evaluateCondition(condition, {
+      fields: caseData,
+      today: now,
+      phaseDeadline,
+      calendar,
+    });
+    const deadline = target ?? (phaseDeadline ? startOfDay(phaseDeadline) : null);
+    const periodKey = matched
+      ? getPeriodKey(rule.notification_frequency, now, deadline, calendar)
+      : null;
+
+    return {
+      fired: matched && periodKey !== null,
+      target: deadline,
+      days: deadline ? differenceInCalendarDays(deadline, startOfDay(now)) : null,
+      period_key: periodKey,
+    };
+  } catch (error) {
+    return {
+      fired: false,
+      target: null,
+      days: null,
+      period_key: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * 填充消息模板
+ */
+export function renderReminderMessage(
+  template: string,
+  caseData: ReminderCaseData,
+  evaluation: ReminderEvaluation,
+): string {
+  const values: Record<string, string> = {
+    days: String(Math.max(evaluation.days ?? 0, 0)),
+    deadline: evaluation.target ? format(evaluation.target, "yyyy-MM-dd") : "",
+    case_number: caseData.case_number ?? "",
+    case_name: caseData.name ?? "",
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    key in values ? values[key] : placeholder,
+  );
+}
+
+/**
+ * 预览规则今天会在哪些案件上触发，供规则编辑器使用
+ * 返回触发的案件和条件计算出错的案件
+ */
+export function previewReminderRule(
+  rule: Pick<
+    NotificationRule,
+    "trigger_condition" | "notification_frequency" | "procedure_phase"
+  >,
+  cases: ReminderCaseData[],
+  flows: CaseProcedureFlow[],
+  now: Date,
+  calendar: HolidayCalendar = defaultHolidayCalendar,
+): ReminderPreviewItem[] {
+  const flowsByType = new Map(flows.map((flow) => [flow.procedure_type, flow]));
+  const items: ReminderPreviewItem[] = [];
+
+  for (const caseData of cases) {
+    if (caseData.procedure_phase !== rule.procedure_phase) {
+      continue;
+    }
+    const flow =
+      flowsByType.get(caseData.case_procedure) ??
+      flowsByType.get(DEFAULT_PROCEDURE_TYPE);
+    if (!flow || findPhase(flow, caseData.procedure_phase)?.is_terminal) {
+      continue;
+    }
+
+    const evaluation = evaluateReminderRule(rule, caseData, flow, now, calendar);
+    if (evaluation.fired || evaluation.error) {
+      items.push({ case: caseData, evaluation });
+    }
+  }
+
+  return items;
 }
 
 class CaseReminderService {
@@ -56,43 +224,108 @@ class CaseReminderService {
   }
   /**
    * Check and send reminders for all active cases
+   * 可以反复调用：未到规则的发送时间时跳过，同一案件、规则、周期只发送一次
    */
-  async checkAndSendReminders() {
+  async checkAndSendReminders(now: Date = new Date()) {
     try {
       const client = await this.getClient();
 
       // Get all active notification rules
-      const rules = await client.query<NotificationRule[]>(
+      const [rules] = await client.query<[NotificationRule[]]>(
         "SELECT * FROM notification_rule WHERE is_active = true",
       );
 
-      if (rules.length === 0) {
-        console.log("No active notification rules found");
+      const dueRules = (rules ?? []).filter((rule) =>
+        isNotificationTimeReached(rule.notification_time, now),
+      );
+      if (dueRules.length === 0) {
+        console.log("No notification rules due at this time");
         return;
       }
 
-      // Get all active cases
-      const cases = await client.query<CaseData[]>(
-        'SELECT * FROM case WHERE procedure_phase != "结案"',
+      // Parse each trigger condition once, invalid rules are skipped
+      const parsedRules = new Map<NotificationRule, ConditionNode | undefined>();
+      for (const rule of dueRules) {
+        try {
+          parsedRules.set(
+            rule,
+            rule.trigger_condition?.trim()
+              ? parseCondition(rule.trigger_condition)
+              : undefined,
+          );
+        } catch (error) {
+          console.error(
+            `Invalid trigger condition in notification rule ${String(rule.id)}:`,
+            error,
+          );
+        }
+      }
+
+      // Get case procedure flows
+      const [flows] = await client.query<[CaseProcedureFlow[]]>(
+        "SELECT * FROM case_procedure_flow WHERE is_active = true",
+      );
+      const flowsByType = new Map(
+        (flows ?? []).map((flow) => [flow.procedure_type, flow]),
       );
 
-      if (cases.length === 0) {
+      // Get all cases, terminal phases are skipped below
+      const [cases] = await client.query<[ReminderCaseData[]]>(
+        "SELECT * FROM case",
+      );
+
+      if (!cases || cases.length === 0) {
         console.log("No active cases found");
         return;
       }
 
       // Check each case against each rule
       for (const caseData of cases) {
-        for (const rule of rules) {
-          if (caseData.procedure_phase === rule.procedure_phase) {
-            const shouldSend = await this.evaluateTriggerCondition(
-              caseData,
-              rule.trigger_condition,
+        const flow =
+          flowsByType.get(caseData.case_procedure) ??
+          flowsByType.get(DEFAULT_PROCEDURE_TYPE);
+        if (!flow || findPhase(flow, caseData.procedure_phase)?.is_terminal) {
+          continue;
+        }
+
+        for (const [rule, parsed] of parsedRules) {
+          if (caseData.procedure_phase !== rule.procedure_phase) {
+            continue;
+          }
+
+          const evaluation = evaluateReminderRule(
+            rule,
+            caseData,
+            flow,
+            now,
+            defaultHolidayCalendar,
+            parsed,
+          );
+          if (evaluation.error) {
+            console.error(
+              `Error evaluating trigger condition for case ${caseData.case_number}:`,
+              evaluation.error,
             );
+          }
+          if (!evaluation.fired || !evaluation.period_key) {
+            continue;
+          }
+
+          const logId = await this.claimReminder(
+            rule,
+            caseData,
+            evaluation.period_key,
+          );
+          if (!logId) {
+            continue;
+          }
 
-            if (shouldSend) {
-              await this.sendReminder(caseData, rule);
-            }
+          try {
+            await this.sendReminder(caseData, rule, evaluation);
+          } catch (error) {
+            // 发送失败时释放去重记录，下次检查时重试
+            await this.releaseReminder(logId);
+            throw error;
           }
         }
       }
@@ -103,157 +336,87 @@ class CaseReminderService {
   }
 
   /**
-   * Evaluate trigger condition for a case
+   * 登记本周期的提醒，记录已存在（本周期已提醒）时返回 null
+   * 记录 ID 由规则、案件和周期组成，并发检查时只有一方能创建成功
    */
-  private async evaluateTriggerCondition(
-    caseData: CaseData,
-    triggerCondition: string,
-  ): Promise<boolean> {
+  private async claimReminder(
+    rule: NotificationRule,
+    caseData: ReminderCaseData,
+    periodKey: string,
+  ): Promise<RecordId | string | null> {
+    const client = await this.getClient();
     try {
-      const now = new Date();
-      let days = 0;
-
-      switch (caseData.procedure_phase) {
-        case "立案":
-          // 受理时间+25天-当前时间 <= 5天
-          if (caseData.acceptance_date) {
-            const acceptanceDate = new Date(caseData.acceptance_date);
-            const deadlineDate = new Date(acceptanceDate);
-            deadlineDate.setDate(deadlineDate.getDate() + 25);
-            days = Math.ceil(
-              (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-            );
-            return days <= 5 && days > 0;
-          }
-          break;
-
-        case "公告":
-          // 公告时间+30天-当前时间 <= 3天
-          if (caseData.announcement_date) {
-            const announcementDate = new Date(caseData.announcement_date);
-            const deadlineDate = new Date(announcementDate);
-            deadlineDate.setDate(deadlineDate.getDate() + 30);
-            days = Math.ceil(
-              (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-            );
-            return days <= 3 && days > 0;
-          }
-          break;
-
-        case "债权申报":
-          // 公告时间+3月-当前时间 <= 3天
-          if (caseData.announcement_date) {
-            const announcementDate = new Date(caseData.announcement_date);
-            const deadlineDate = new Date(announcementDate);
-            deadlineDate.setMonth(deadlineDate.getMonth() + 3);
-            days = Math.ceil(
-              (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-            );
-            return days <= 3 && days > 0;
-          }
-          break;
-
-        case "债权人第一次会议":
-          // 债权申报截止时间+15日-当前时间 <= 3天
-          if (caseData.claim_submission_end_date) {
-            const submissionEndDate = new Date(
-              caseData.claim_submission_end_date,
-            );
-            const deadlineDate = new Date(submissionEndDate);
-            deadlineDate.setDate(deadlineDate.getDate() + 15);
-            days = Math.ceil(
-              (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-            );
-            return days <= 3 && days > 0;
-          }
-          break;
-
-        case "裁定重整":
-          // 裁定重整时间+6月-当前时间 <= 5天
-          if (caseData.reorganization_ruling_date) {
-            const rulingDate = new Date(caseData.reorganization_ruling_date);
-            const deadlineDate = new Date(rulingDate);
-            deadlineDate.setMonth(deadlineDate.getMonth() + 6);
-            days = Math.ceil(
-              (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-            );
-            return days <= 5 && days > 0;
-          }
-          break;
-
-        case "延迟提交重整计划":
-          // 延迟提交重整计划时间+3月-当前时间 <= 5天
-          if (caseData.delayed_reorganization_plan_submission_date) {
-            const delayedDate = new Date(
-              caseData.delayed_reorganization_plan_submission_date,
-            );
-            const deadlineDate = new Date(delayedDate);
-            deadlineDate.setMonth(deadlineDate.getMonth() + 3);
-            days = Math.ceil(
-              (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-            );
-            return days <= 5 && days > 0;
-          }
-          break;
-
-        case "债权人第二次会议":
-          // 提交重整计划时间+15日-当前时间 <= 3天
-          if (caseData.reorganization_plan_submission_date) {
-            const planDate = new Date(
-              caseData.reorganization_plan_submission_date,
-            );
-            const deadlineDate = new Date(planDate);
-            deadlineDate.setDate(deadlineDate.getDate() + 15);
-            days = Math.ceil(
-              (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-            );
-            return days <= 3 && days > 0;
-          }
-          break;
+      const [created] = await client.query<[Array<{ id: RecordId }>]>(
+        `CREATE type::thing('case_reminder_log', [$rule_key, $case_key, $period_key]) CONTENT {
+          rule_id: $rule_id,
+          case_id: $case_id,
+          period_key: $period_key
+        }`,
+        {
+          rule_key: String(rule.id),
+          case_key: String(caseData.id),
+          rule_id: rule.id,
+          case_id: caseData.id,
+          period_key: periodKey,
+        },
+      );
+      return created?.[0]?.id ?? null;
+    } catch (error) {
+      if (error instanceof Error && /already exists/i.test(error.message)) {
+        return null;
       }
+      throw error;
+    }
+  }
 
-      return false;
+  private async releaseReminder(logId: RecordId | string) {
+    try {
+      const client = await this.getClient();
+      await client.query("DELETE $id", { id: logId });
     } catch (error) {
-      console.error("Error evaluating trigger condition:", error);
-      return false;
+      console.error("Error releasing reminder log:", error);
     }
   }
 
   /**
    * Send reminder to case bot subscribers
    */
-  private async sendReminder(caseData: CaseData, rule: NotificationRule) {
+  private async sendReminder(
+    caseData: ReminderCaseData,
+    rule: NotificationRule,
+    evaluation: ReminderEvaluation,
+  ) {
     try {
       const client = await this.getClient();
 
       // Get case bot
-      const caseBotResult = await client.query(
+      const [caseBots] = await client.query<[Array<{ id: RecordId }>]>(
         "SELECT * FROM case_bot WHERE case_id = $case_id",
         { case_id: caseData.id },
       );
 
-      if (caseBotResult.length === 0) {
+      if (!caseBots || caseBots.length === 0) {
         console.log(`No case bot found for case ${caseData.case_number}`);
         return;
       }
 
       // Get subscribers
-      const subscribers = await client.query<CaseBotSubscriber[]>(
+      const [subscribers] = await client.query<[CaseBotSubscriber[]]>(
         "SELECT user_id FROM case_bot_subscription WHERE case_bot_id = $case_bot_id",
-        { case_bot_id: caseBotResult[0].id },
+        { case_bot_id: caseBots[0].id },
       );
 
-      if (subscribers.length === 0) {
+      if (!subscribers || subscribers.length === 0) {
         console.log(`No subscribers for case bot ${caseData.case_number}`);
         return;
       }
 
-      // Calculate days for message template
-      const days = await this.calculateDaysForMessage(
+      const content = renderReminderMessage(
+        rule.message_template,
         caseData,
-        rule.procedure_phase,
+        evaluation,
       );
-      const content = rule.message_template.replace("{{days}}", String(days));
+      const days = Math.max(evaluation.days ?? 0, 0);
 
       // Send notification to each subscriber
       for (const subscriber of subscribers) {
@@ -278,104 +441,6 @@ class CaseReminderService {
     }
   }
 
-  /**
-   * Calculate days for message template
-   */
-  private async calculateDaysForMessage(
-    caseData: CaseData,
-    procedurePhase: string,
-  ): Promise<number> {
-    const now = new Date();
-    let days = 0;
-
-    switch (procedurePhase) {
-      case "立案":
-        if (caseData.acceptance_date) {
-          const acceptanceDate = new Date(caseData.acceptance_date);
-          const deadlineDate = new Date(acceptanceDate);
-          deadlineDate.setDate(deadlineDate.getDate() + 25);
-          days = Math.ceil(
-            (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-        }
-        break;
-
-      case "公告":
-        if (caseData.announcement_date) {
-          const announcementDate = new Date(caseData.announcement_date);
-          const deadlineDate = new Date(announcementDate);
-          deadlineDate.setDate(deadlineDate.getDate() + 30);
-          days = Math.ceil(
-            (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-        }
-        break;
-
-      case "债权申报":
-        if (caseData.announcement_date) {
-          const announcementDate = new Date(caseData.announcement_date);
-          const deadlineDate = new Date(announcementDate);
-          deadlineDate.setMonth(deadlineDate.getMonth() + 3);
-          days = Math.ceil(
-            (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-        }
-        break;
-
-      case "债权人第一次会议":
-        if (caseData.claim_submission_end_date) {
-          const submissionEndDate = new Date(
-            caseData.claim_submission_end_date,
-          );
-          const deadlineDate = new Date(submissionEndDate);
-          deadlineDate.setDate(deadlineDate.getDate() + 15);
-          days = Math.ceil(
-            (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-        }
-        break;
-
-      case "裁定重整":
-        if (caseData.reorganization_ruling_date) {
-          const rulingDate = new Date(caseData.reorganization_ruling_date);
-          const deadlineDate = new Date(rulingDate);
-          deadlineDate.setMonth(deadlineDate.getMonth() + 6);
-          days = Math.ceil(
-            (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-        }
-        break;
-
-      case "延迟提交重整计划":
-        if (caseData.delayed_reorganization_plan_submission_date) {
-          const delayedDate = new Date(
-            caseData.delayed_reorganization_plan_submission_date,
-          );
-          const deadlineDate = new Date(delayedDate);
-          deadlineDate.setMonth(deadlineDate.getMonth() + 3);
-          days = Math.ceil(
-            (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-        }
-        break;
-
-      case "债权人第二次会议":
-        if (caseData.reorganization_plan_submission_date) {
-          const planDate = new Date(
-            caseData.reorganization_plan_submission_date,
-          );
-          const deadlineDate = new Date(planDate);
-          deadlineDate.setDate(deadlineDate.getDate() + 15);
-          days = Math.ceil(
-            (deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
-          );
-        }
-        break;
-    }
-
-    return Math.max(days, 0);
-  }
-
   /**
    * Subscribe user to case bot when case is created
    */
@@ -5,6 +5,18 @@
 
 import { RecordId } from 'surrealdb';
 import { claimStatisticsService } from './claimStatisticsService';
+import { AnomalyRuleService } from './anomalyRuleService';
+import type { SurrealWorkerAPI } from '../contexts/SurrealProvider';
+import { PdfWriter } from '@/src/utils/pdfWriter';
+import {
+  createXlsxBlob,
+  decimalCell,
+  headerRow,
+  integerCell,
+  percentCell,
+  titleCell
+} from '@/src/utils/spreadsheetExport';
+import type { SheetData, SheetRow } from '@/src/utils/spreadsheetExport';
 import type {
   ProcessingEfficiencyStats,
   QualityIndicatorStats,
@@ -32,6 +44,8 @@ export interface ExportTask {
   status: ExportStatus;
   progress: number;
   downloadUrl?: string;
+  fileName?: string;
+  fileSize?: number;
   error?: string;
   createdAt: Date;
   completedAt?: Date;
@@ -55,13 +69,56 @@ export interface ExportConfig {
   };
 }
 
+// 生成的导出文件
+interface ExportFile {
+  blob: Blob;
+  fileName: string;
+}
+
+const REPORT_TITLE = '债权申报统计分析报告';
+
+const SEVERITY_LABELS: Record<BottleneckAnalysis['bottleneckStages'][number]['severity'], string> = {
+  low: '低',
+  medium: '中',
+  high: '高'
+};
+
 class ClaimDataExportService {
   private exportTasks = new Map<string, ExportTask>();
+  private exportFiles = new Map<string, Blob>();
+  private clientGetter: (() => Promise<SurrealWorkerAPI>) | null = null;
+
+  /**
+   * 设置客户端获取函数
+   */
+  setClientGetter(getter: () => Promise<SurrealWorkerAPI>) {
+    this.clientGetter = getter;
+  }
+
+  /**
+   * 获取 SurrealDB 客户端
+   */
+  private async getClient(): Promise<SurrealWorkerAPI> {
+    if (!this.clientGetter) {
+      throw new Error(
+        "SurrealDB client not available. Ensure ClaimDataExportService is properly initialized with setClientGetter.",
+      );
+    }
+
+    const client = await this.clientGetter();
+    if (!client) {
+      throw new Error("SurrealDB client is null");
+    }
+    return client;
+  }
   
   /**
    * 创建导出任务
+   * 异常检测规则要求重新认证或锁定导出时拒绝创建
    */
   async createExportTask(config: ExportConfig): Promise<ExportTask> {
+    await new AnomalyRuleService(await this.getClient()).assertExportAllowed();
+
     const taskId = `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     const task: ExportTask = {
@@ -121,14 +178,17 @@ class ClaimDataExportService {
       this.exportTasks.set(taskId, task);
       
       // 生成文件
-      const downloadUrl = await this.generateExportFile(data, config);
+      const file = await this.generateExportFile(data, config);
       task.progress = 90;
       this.exportTasks.set(taskId, task);
       
       // 完成
+      this.exportFiles.set(taskId, file.blob);
       task.status = ExportStatus.COMPLETED;
       task.progress = 100;
-      task.downloadUrl = downloadUrl;
+      task.downloadUrl = URL.createObjectURL(file.blob);
+      task.fileName = file.fileName;
+      task.fileSize = file.blob.size;
       task.completedAt = new Date();
       this.exportTasks.set(taskId, task);
       
@@ -194,7 +254,7 @@ class ClaimDataExportService {
     // 生成概览数据
     if (config.sections.overview && data.efficiency && data.quality) {
       data.overview = {
-        reportTitle: '债权申报统计分析报告',
+        reportTitle: REPORT_TITLE,
         generatedAt: new Date().toLocaleString('zh-CN'),
         dateRange: config.dateRange ? {
           start: config.dateRange.start.toLocaleDateString('zh-CN'),
@@ -219,7 +279,7 @@ class ClaimDataExportService {
   /**
    * 生成导出文件
    */
-  private async generateExportFile(data: any, config: ExportConfig): Promise<string> {
+  private async generateExportFile(data: any, config: ExportConfig): Promise<ExportFile> {
     switch (config.format) {
       case 'excel':
         return await this.generateExcelFile(data, config);
@@ -231,476 +291,471 @@ class ClaimDataExportService {
         throw new Error(`Unsupported export format: ${config.format}`);
     }
   }
-  
+
   /**
    * 生成Excel文件
    */
-  private async generateExcelFile(data: any, config: ExportConfig): Promise<string> {
+  private async generateExcelFile(data: any, config: ExportConfig): Promise<ExportFile> {
     try {
-      // 这里应该使用一个Excel生成库，如 xlsx 或 exceljs
-      // 由于项目环境限制，这里提供一个模拟实现
-      const workbookData = this.prepareExcelData(data, config);
-      
-      // 模拟文件生成和上传
-      const fileName = `claim_statistics_${Date.now()}.xlsx`;
-      const fileUrl = await this.uploadFile(workbookData, fileName);
-      
-      return fileUrl;
+      const sheets = this.prepareExcelData(data, config);
+      if (sheets.length === 0) {
+        throw new Error('No data available for selected sections');
+      }
+
+      const blob = await createXlsxBlob(sheets, { title: REPORT_TITLE });
+      return { blob, fileName: `claim_statistics_${Date.now()}.xlsx` };
     } catch (error) {
       throw new Error(`Excel generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-  
+
   /**
    * 生成PDF文件
    */
-  private async generatePdfFile(data: any, config: ExportConfig): Promise<string> {
+  private async generatePdfFile(data: any, config: ExportConfig): Promise<ExportFile> {
     try {
-      // 这里应该使用一个PDF生成库，如 jsPDF 或 puppeteer
-      // 由于项目环境限制，这里提供一个模拟实现
-      const pdfContent = this.preparePdfContent(data, config);
-      
-      // 模拟文件生成和上传
-      const fileName = `claim_statistics_${Date.now()}.pdf`;
-      const fileUrl = await this.uploadFile(pdfContent, fileName);
-      
-      return fileUrl;
+      const writer = this.preparePdfContent(data, config);
+      return { blob: writer.toBlob(), fileName: `claim_statistics_${Date.now()}.pdf` };
     } catch (error) {
       throw new Error(`PDF generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-  
+
   /**
    * 生成CSV文件
    */
-  private async generateCsvFile(data: any, config: ExportConfig): Promise<string> {
+  private async generateCsvFile(data: any, config: ExportConfig): Promise<ExportFile> {
     try {
       const csvContent = this.prepareCsvContent(data, config);
-      
-      // 模拟文件生成和上传
-      const fileName = `claim_statistics_${Date.now()}.csv`;
-      const fileUrl = await this.uploadFile(csvContent, fileName);
-      
-      return fileUrl;
+      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8' });
+      return { blob, fileName: `claim_statistics_${Date.now()}.csv` };
     } catch (error) {
       throw new Error(`CSV generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-  
+
   /**
    * 准备Excel数据
    */
-  private prepareExcelData(data: any, config: ExportConfig): any {
-    const workbook = {
-      sheets: [] as any[]
-    };
-    
+  private prepareExcelData(data: any, config: ExportConfig): SheetData[] {
+    const sheets: SheetData[] = [];
+
     // 概览表
     if (config.sections.overview && data.overview) {
-      workbook.sheets.push({
+      sheets.push({
         name: '概览',
-        data: this.formatOverviewForExcel(data.overview)
+        rows: this.formatOverviewForExcel(data.overview)
       });
     }
-    
+
     // 效率统计表
     if (config.sections.efficiency && data.efficiency) {
-      workbook.sheets.push({
+      sheets.push({
         name: '处理效率',
-        data: this.formatEfficiencyForExcel(data.efficiency)
+        rows: this.formatEfficiencyForExcel(data.efficiency)
       });
     }
-    
+
     // 质量指标表
     if (config.sections.quality && data.quality) {
-      workbook.sheets.push({
+      sheets.push({
         name: '质量指标',
-        data: this.formatQualityForExcel(data.quality)
+        rows: this.formatQualityForExcel(data.quality)
       });
     }
-    
+
     // 工作量统计表
     if (config.sections.workload && data.workload) {
-      workbook.sheets.push({
+      sheets.push({
         name: '工作量统计',
-        data: this.formatWorkloadForExcel(data.workload)
+        rows: this.formatWorkloadForExcel(data.workload)
       });
     }
-    
+
     // 状态流转表
     if (config.sections.statusFlow && data.statusFlow) {
-      workbook.sheets.push({
+      sheets.push({
         name: '状态流转',
-        data: this.formatStatusFlowForExcel(data.statusFlow)
+        rows: this.formatStatusFlowForExcel(data.statusFlow)
       });
     }
-    
+
     // 瓶颈分析表
     if (config.sections.bottleneck && data.bottleneck) {
-      workbook.sheets.push({
+      sheets.push({
         name: '瓶颈分析',
-        data: this.formatBottleneckForExcel(data.bottleneck)
+        rows: this.formatBottleneckForExcel(data.bottleneck)
       });
     }
-    
+
     // 时间序列表
     if (config.sections.timeSeries && data.timeSeries) {
-      workbook.sheets.push({
+      sheets.push({
         name: '时间趋势',
-        data: this.formatTimeSeriesForExcel(data.timeSeries)
+        rows: this.formatTimeSeriesForExcel(data.timeSeries)
       });
     }
-    
-    return workbook;
+
+    return sheets;
   }
-  
+
   /**
    * 准备PDF内容
    */
-  private preparePdfContent(data: any, config: ExportConfig): string {
-    let content = `<!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <title>债权申报统计分析报告</title>
-      <style>
-        body { font-family: 'Microsoft YaHei', sans-serif; margin: 20px; }
-        .header { text-align: center; margin-bottom: 30px; }
-        .section { margin-bottom: 30px; }
-        .section h2 { color: #333; border-bottom: 2px solid #ddd; padding-bottom: 5px; }
-        table { width: 100%; border-collapse: collapse; margin: 10px 0; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-        th { background-color: #f5f5f5; }
-        .summary-grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 20px; }
-        .summary-card { border: 1px solid #ddd; padding: 15px; border-radius: 5px; }
-        .number { font-size: 24px; font-weight: bold; color: #1976d2; }
-      </style>
-    </head>
-    <body>`;
-    
+  private preparePdfContent(data: any, config: ExportConfig): PdfWriter {
+    const writer = new PdfWriter({ title: REPORT_TITLE });
+
     // 添加标题
-    if (data.overview) {
-      content += `
-      <div class="header">
-        <h1>${data.overview.reportTitle}</h1>
-        <p>生成时间: ${data.overview.generatedAt}</p>
-        <p>统计时间范围: ${data.overview.dateRange}</p>
-      </div>`;
-    }
-    
+    writer.addTitle(data.overview?.reportTitle ?? REPORT_TITLE);
+    writer.addParagraph(`生成时间: ${data.overview?.generatedAt ?? new Date().toLocaleString('zh-CN')}`);
+    writer.addParagraph(`统计时间范围: ${this.formatDateRange(data.overview?.dateRange ?? config.dateRange)}`);
+    writer.addSpacer();
+
     // 添加各个部分的内容
     if (config.sections.overview && data.overview) {
-      content += this.generateOverviewSection(data.overview);
+      this.generateOverviewSection(writer, data.overview);
     }
-    
+
     if (config.sections.efficiency && data.efficiency) {
-      content += this.generateEfficiencySection(data.efficiency);
+      this.generateEfficiencySection(writer, data.efficiency);
     }
-    
+
     if (config.sections.quality && data.quality) {
-      content += this.generateQualitySection(data.quality);
+      this.generateQualitySection(writer, data.quality);
     }
-    
+
     if (config.sections.workload && data.workload) {
-      content += this.generateWorkloadSection(data.workload);
+      this.generateWorkloadSection(writer, data.workload);
     }
-    
+
     if (config.sections.statusFlow && data.statusFlow) {
-      content += this.generateStatusFlowSection(data.statusFlow);
+      this.generateStatusFlowSection(writer, data.statusFlow);
     }
-    
+
     if (config.sections.bottleneck && data.bottleneck) {
-      content += this.generateBottleneckSection(data.bottleneck);
+      this.generateBottleneckSection(writer, data.bottleneck);
     }
-    
-    content += '</body></html>';
-    
-    return content;
+
+    if (config.sections.timeSeries && data.timeSeries) {
+      this.generateTimeSeriesSection(writer, data.timeSeries);
+    }
+
+    return writer;
   }
-  
+
   /**
    * 准备CSV内容
    */
-  private prepareCsvContent(data: any, config: ExportConfig): string {
+  private prepareCsvContent(data: any, _config: ExportConfig): string {
     let csvContent = '\ufeff'; // BOM for UTF-8
-    
+
     // 时间序列数据最适合CSV格式
     if (data.timeSeries && data.timeSeries.length > 0) {
-      csvContent += '日期,提交数量,审核通过,审核驳回,补充材料\\n';
+      csvContent += '日期,提交数量,审核通过,审核驳回,补充材料\n';
       data.timeSeries.forEach((item: TimeSeriesData) => {
-        csvContent += `${item.date},${item.submissions},${item.approvals},${item.rejections},${item.supplements}\\n`;
+        csvContent += `${item.date},${item.submissions},${item.approvals},${item.rejections},${item.supplements}\n`;
       });
     }
-    
+
     return csvContent;
   }
-  
+
+  private formatDateRange(dateRange: any): string {
+    if (!dateRange) return '全部时间';
+    if (typeof dateRange === 'string') return dateRange;
+    const start = dateRange.start instanceof Date ? dateRange.start.toLocaleDateString('zh-CN') : dateRange.start;
+    const end = dateRange.end instanceof Date ? dateRange.end.toLocaleDateString('zh-CN') : dateRange.end;
+    return `${start} 至 ${end}`;
+  }
+
   // Excel格式化辅助方法
-  private formatOverviewForExcel(overview: any): any[][] {
+  private formatOverviewForExcel(overview: any): SheetRow[] {
     return [
-      ['报告标题', overview.reportTitle],
+      [titleCell(overview.reportTitle)],
       ['生成时间', overview.generatedAt],
-      ['统计时间范围', overview.dateRange],
-      [''],
-      ['指标', '数值'],
-      ['总申报数量', overview.summary.totalClaims],
-      ['待审核数量', overview.summary.pendingClaims],
-      ['已处理数量', overview.summary.processedClaims],
-      ['平均处理天数', overview.summary.avgProcessingDays],
-      ['一次通过率', `${overview.summary.onePassRate}%`],
-      ['驳回率', `${overview.summary.rejectionRate}%`],
-      ['补充材料率', `${overview.summary.supplementRequestRate}%`],
-      ['平均审核轮次', overview.summary.avgReviewRounds]
+      ['统计时间范围', this.formatDateRange(overview.dateRange)],
+      [],
+      headerRow('指标', '数值'),
+      ['总申报数量', integerCell(overview.summary.totalClaims)],
+      ['待审核数量', integerCell(overview.summary.pendingClaims)],
+      ['已处理数量', integerCell(overview.summary.processedClaims)],
+      ['平均处理天数', decimalCell(overview.summary.avgProcessingDays)],
+      ['一次通过率', percentCell(overview.summary.onePassRate)],
+      ['驳回率', percentCell(overview.summary.rejectionRate)],
+      ['补充材料率', percentCell(overview.summary.supplementRequestRate)],
+      ['平均审核轮次', decimalCell(overview.summary.avgReviewRounds)]
     ];
   }
-  
-  private formatEfficiencyForExcel(efficiency: ProcessingEfficiencyStats): any[][] {
-    const data = [
-      ['处理效率统计'],
-      [''],
-      ['指标', '数值'],
-      ['总申报数量', efficiency.totalClaims],
-      ['待审核数量', efficiency.pendingClaims],
-      ['已处理数量', efficiency.processedClaims],
-      ['平均处理天数', efficiency.avgProcessingDays],
-      [''],
-      ['时长分布', '数量', '占比']
+
+  private formatEfficiencyForExcel(efficiency: ProcessingEfficiencyStats): SheetRow[] {
+    const rows: SheetRow[] = [
+      [titleCell('处理效率统计')],
+      [],
+      headerRow('指标', '数值'),
+      ['总申报数量', integerCell(efficiency.totalClaims)],
+      ['待审核数量', integerCell(efficiency.pendingClaims)],
+      ['已处理数量', integerCell(efficiency.processedClaims)],
+      ['平均处理天数', decimalCell(efficiency.avgProcessingDays)],
+      [],
+      headerRow('时长分布', '数量', '占比')
     ];
-    
+
     efficiency.timeRanges.forEach(range => {
-      data.push([range.range, range.count, `${range.percentage}%`]);
+      rows.push([range.range, integerCell(range.count), percentCell(range.percentage)]);
     });
-    
-    return data;
+
+    return rows;
   }
-  
-  private formatQualityForExcel(quality: QualityIndicatorStats): any[][] {
+
+  private formatQualityForExcel(quality: QualityIndicatorStats): SheetRow[] {
     return [
-      ['质量指标统计'],
-      [''],
-      ['指标', '数值'],
-      ['总审核数量', quality.totalReviewed],
-      ['一次通过率', `${quality.onePassRate}%`],
-      ['驳回率', `${quality.rejectionRate}%`],
-      ['补充材料率', `${quality.supplementRequestRate}%`],
-      ['平均审核轮次', quality.avgReviewRounds]
+      [titleCell('质量指标统计')],
+      [],
+      headerRow('指标', '数值'),
+      ['总审核数量', integerCell(quality.totalReviewed)],
+      ['一次通过率', percentCell(quality.onePassRate)],
+      ['驳回率', percentCell(quality.rejectionRate)],
+      ['补充材料率', percentCell(quality.supplementRequestRate)],
+      ['平均审核轮次', decimalCell(quality.avgReviewRounds)]
     ];
   }
-  
-  private formatWorkloadForExcel(workload: WorkloadStats): any[][] {
-    const data = [
-      ['工作量统计'],
-      [''],
-      ['审核人员工作量'],
-      ['审核人员', '审核数量', '平均处理时长(天)', '效率指数']
+
+  private formatWorkloadForExcel(workload: WorkloadStats): SheetRow[] {
+    const rows: SheetRow[] = [
+      [titleCell('工作量统计')],
+      [],
+      [titleCell('审核人员工作量')],
+      headerRow('审核人员', '审核数量', '平均处理时长(天)', '效率指数')
     ];
-    
+
     workload.reviewerStats.forEach(reviewer => {
-      data.push([
+      rows.push([
         reviewer.reviewerName,
-        reviewer.totalReviewed,
-        reviewer.avgProcessingTime,
-        reviewer.efficiency
+        integerCell(reviewer.totalReviewed),
+        decimalCell(reviewer.avgProcessingTime),
+        decimalCell(reviewer.efficiency)
       ]);
     });
-    
-    data.push([''], ['每日工作量'], ['日期', '操作数量', '审核数量']);
-    
+
+    rows.push([], [titleCell('每日工作量')], headerRow('日期', '操作数量', '审核数量'));
+
     workload.dailyWorkload.forEach(day => {
-      data.push([day.date, day.operationsCount, day.reviewsCount]);
+      rows.push([day.date, integerCell(day.operationsCount), integerCell(day.reviewsCount)]);
     });
-    
-    return data;
+
+    return rows;
   }
-  
-  private formatStatusFlowForExcel(statusFlow: StatusFlowStats): any[][] {
-    const data = [
-      ['状态流转统计'],
-      [''],
-      ['状态分布'],
-      ['状态', '数量', '占比']
+
+  private formatStatusFlowForExcel(statusFlow: StatusFlowStats): SheetRow[] {
+    const rows: SheetRow[] = [
+      [titleCell('状态流转统计')],
+      [],
+      [titleCell('状态分布')],
+      headerRow('状态', '数量', '占比')
     ];
-    
+
     statusFlow.statusDistribution.forEach(status => {
-      data.push([status.status, status.count, `${status.percentage}%`]);
+      rows.push([status.status, integerCell(status.count), percentCell(status.percentage)]);
     });
-    
-    data.push([''], ['流转分析'], ['原状态', '目标状态', '次数', '平均时长(天)']);
-    
+
+    rows.push([], [titleCell('流转分析')], headerRow('原状态', '目标状态', '次数', '平均时长(天)'));
+
     statusFlow.flowAnalysis.forEach(flow => {
-      data.push([flow.fromStatus, flow.toStatus, flow.count, flow.avgDuration]);
+      rows.push([flow.fromStatus, flow.toStatus, integerCell(flow.count), decimalCell(flow.avgDuration)]);
     });
-    
-    return data;
+
+    return rows;
   }
-  
-  private formatBottleneckForExcel(bottleneck: BottleneckAnalysis): any[][] {
-    const data = [
-      ['瓶颈分析'],
-      [''],
-      ['瓶颈阶段'],
-      ['阶段', '平均时长(天)', '影响案件数', '严重程度']
+
+  private formatBottleneckForExcel(bottleneck: BottleneckAnalysis): SheetRow[] {
+    const rows: SheetRow[] = [
+      [titleCell('瓶颈分析')],
+      [],
+      [titleCell('瓶颈阶段')],
+      headerRow('阶段', '平均时长(天)', '影响案件数', '严重程度')
     ];
-    
+
     bottleneck.bottleneckStages.forEach(stage => {
-      data.push([stage.stage, stage.avgDuration, stage.claimCount, stage.severity]);
+      rows.push([stage.stage, decimalCell(stage.avgDuration), integerCell(stage.claimCount), SEVERITY_LABELS[stage.severity]]);
     });
-    
-    data.push([''], ['处理缓慢案件'], ['债权编号', '停留天数', '当前状态', '提交日期']);
-    
+
+    rows.push([], [titleCell('处理缓慢案件')], headerRow('债权编号', '停留天数', '当前状态', '提交日期'));
+
     bottleneck.slowClaims.forEach(claim => {
-      data.push([claim.claimNumber, claim.daysInStatus, claim.currentStatus, claim.submissionDate]);
+      rows.push([claim.claimNumber, integerCell(claim.daysInStatus), claim.currentStatus, claim.submissionDate]);
     });
-    
-    return data;
+
+    return rows;
   }
-  
-  private formatTimeSeriesForExcel(timeSeries: TimeSeriesData[]): any[][] {
-    const data = [
-      ['时间序列数据'],
-      [''],
-      ['日期', '提交数量', '审核通过', '审核驳回', '补充材料']
+
+  private formatTimeSeriesForExcel(timeSeries: TimeSeriesData[]): SheetRow[] {
+    const rows: SheetRow[] = [
+      [titleCell('时间序列数据')],
+      [],
+      headerRow('日期', '提交数量', '审核通过', '审核驳回', '补充材料')
     ];
-    
+
     timeSeries.forEach(item => {
-      data.push([item.date, item.submissions, item.approvals, item.rejections, item.supplements]);
+      rows.push([
+        item.date,
+        integerCell(item.submissions),
+        integerCell(item.approvals),
+        integerCell(item.rejections),
+        integerCell(item.supplements)
+      ]);
     });
-    
-    return data;
+
+    return rows;
   }
-  
+
   // PDF内容生成辅助方法
-  private generateOverviewSection(overview: any): string {
-    return `
-    <div class="section">
-      <h2>概览</h2>
-      <div class="summary-grid">
-        <div class="summary-card">
-          <div class="number">${overview.summary.totalClaims}</div>
-          <div>总申报数量</div>
-        </div>
-        <div class="summary-card">
-          <div class="number">${overview.summary.avgProcessingDays}</div>
-          <div>平均处理天数</div>
-        </div>
-        <div class="summary-card">
-          <div class="number">${overview.summary.onePassRate}%</div>
-          <div>一次通过率</div>
-        </div>
-        <div class="summary-card">
-          <div class="number">${overview.summary.avgReviewRounds}</div>
-          <div>平均审核轮次</div>
-        </div>
-      </div>
-    </div>`;
+  private generateOverviewSection(writer: PdfWriter, overview: any): void {
+    writer.addHeading('概览');
+    writer.addTable(
+      [{ header: '指标', width: 2 }, { header: '数值', align: 'right' }],
+      [
+        ['总申报数量', overview.summary.totalClaims],
+        ['待审核数量', overview.summary.pendingClaims],
+        ['已处理数量', overview.summary.processedClaims],
+        ['平均处理天数', overview.summary.avgProcessingDays],
+        ['一次通过率', `${overview.summary.onePassRate}%`],
+        ['驳回率', `${overview.summary.rejectionRate}%`],
+        ['补充材料率', `${overview.summary.supplementRequestRate}%`],
+        ['平均审核轮次', overview.summary.avgReviewRounds]
+      ]
+    );
   }
-  
-  private generateEfficiencySection(efficiency: ProcessingEfficiencyStats): string {
-    let timeRangeRows = '';
-    efficiency.timeRanges.forEach(range => {
-      timeRangeRows += `<tr><td>${range.range}</td><td>${range.count}</td><td>${range.percentage}%</td></tr>`;
-    });
-    
-    return `
-    <div class="section">
-      <h2>处理效率统计</h2>
-      <table>
-        <tr><th>时长分布</th><th>数量</th><th>占比</th></tr>
-        ${timeRangeRows}
-      </table>
-    </div>`;
+
+  private generateEfficiencySection(writer: PdfWriter, efficiency: ProcessingEfficiencyStats): void {
+    writer.addHeading('处理效率统计');
+    writer.addTable(
+      [{ header: '时长分布', width: 2 }, { header: '数量', align: 'right' }, { header: '占比', align: 'right' }],
+      efficiency.timeRanges.map(range => [range.range, range.count, `${range.percentage}%`])
+    );
   }
-  
-  private generateQualitySection(quality: QualityIndicatorStats): string {
-    return `
-    <div class="section">
-      <h2>质量指标统计</h2>
-      <table>
-        <tr><th>指标</th><th>数值</th></tr>
-        <tr><td>总审核数量</td><td>${quality.totalReviewed}</td></tr>
-        <tr><td>一次通过率</td><td>${quality.onePassRate}%</td></tr>
-        <tr><td>驳回率</td><td>${quality.rejectionRate}%</td></tr>
-        <tr><td>补充材料率</td><td>${quality.supplementRequestRate}%</td></tr>
-        <tr><td>平均审核轮次</td><td>${quality.avgReviewRounds}</td></tr>
-      </table>
-    </div>`;
+
+  private generateQualitySection(writer: PdfWriter, quality: QualityIndicatorStats): void {
+    writer.addHeading('质量指标统计');
+    writer.addTable(
+      [{ header: '指标', width: 2 }, { header: '数值', align: 'right' }],
+      [
+        ['总审核数量', quality.totalReviewed],
+        ['一次通过率', `${quality.onePassRate}%`],
+        ['驳回率', `${quality.rejectionRate}%`],
+        ['补充材料率', `${quality.supplementRequestRate}%`],
+        ['平均审核轮次', quality.avgReviewRounds]
+      ]
+    );
   }
-  
-  private generateWorkloadSection(workload: WorkloadStats): string {
-    let reviewerRows = '';
-    workload.reviewerStats.slice(0, 10).forEach(reviewer => {
-      reviewerRows += `<tr><td>${reviewer.reviewerName}</td><td>${reviewer.totalReviewed}</td><td>${reviewer.avgProcessingTime}</td><td>${reviewer.efficiency}</td></tr>`;
-    });
-    
-    return `
-    <div class="section">
-      <h2>工作量统计</h2>
-      <h3>审核人员工作量 (Top 10)</h3>
-      <table>
-        <tr><th>审核人员</th><th>审核数量</th><th>平均处理时长(天)</th><th>效率指数</th></tr>
-        ${reviewerRows}
-      </table>
-    </div>`;
+
+  private generateWorkloadSection(writer: PdfWriter, workload: WorkloadStats): void {
+    writer.addHeading('工作量统计');
+    writer.addParagraph('审核人员工作量 (Top 10)');
+    writer.addTable(
+      [
+        { header: '审核人员', width: 2 },
+        { header: '审核数量', align: 'right' },
+        { header: '平均处理时长(天)', align: 'right' },
+        { header: '效率指数', align: 'right' }
+      ],
+      workload.reviewerStats.slice(0, 10).map(reviewer => [
+        reviewer.reviewerName,
+        reviewer.totalReviewed,
+        reviewer.avgProcessingTime,
+        reviewer.efficiency
+      ])
+    );
   }
-  
-  private generateStatusFlowSection(statusFlow: StatusFlowStats): string {
-    let statusRows = '';
-    statusFlow.statusDistribution.forEach(status => {
-      statusRows += `<tr><td>${status.status}</td><td>${status.count}</td><td>${status.percentage}%</td></tr>`;
-    });
-    
-    return `
-    <div class="section">
-      <h2>状态流转统计</h2>
-      <h3>状态分布</h3>
-      <table>
-        <tr><th>状态</th><th>数量</th><th>占比</th></tr>
-        ${statusRows}
-      </table>
-    </div>`;
+
+  private generateStatusFlowSection(writer: PdfWriter, statusFlow: StatusFlowStats): void {
+    writer.addHeading('状态流转统计');
+    writer.addParagraph('状态分布');
+    writer.addTable(
+      [{ header: '状态', width: 2 }, { header: '数量', align: 'right' }, { header: '占比', align: 'right' }],
+      statusFlow.statusDistribution.map(status => [status.status, status.count, `${status.percentage}%`])
+    );
+
+    if (statusFlow.flowAnalysis.length > 0) {
+      writer.addParagraph('流转分析');
+      writer.addTable(
+        [
+          { header: '原状态' },
+          { header: '目标状态' },
+          { header: '次数', align: 'right' },
+          { header: '平均时长(天)', align: 'right' }
+        ],
+        statusFlow.flowAnalysis.map(flow => [flow.fromStatus, flow.toStatus, flow.count, flow.avgDuration])
+      );
+    }
   }
-  
-  private generateBottleneckSection(bottleneck: BottleneckAnalysis): string {
-    let stageRows = '';
-    bottleneck.bottleneckStages.forEach(stage => {
-      stageRows += `<tr><td>${stage.stage}</td><td>${stage.avgDuration}</td><td>${stage.claimCount}</td><td>${stage.severity}</td></tr>`;
-    });
-    
-    let slowClaimRows = '';
-    bottleneck.slowClaims.slice(0, 10).forEach(claim => {
-      slowClaimRows += `<tr><td>${claim.claimNumber}</td><td>${claim.daysInStatus}</td><td>${claim.currentStatus}</td><td>${claim.submissionDate}</td></tr>`;
-    });
-    
-    return `
-    <div class="section">
-      <h2>瓶颈分析</h2>
-      <h3>瓶颈阶段</h3>
-      <table>
-        <tr><th>阶段</th><th>平均时长(天)</th><th>影响案件数</th><th>严重程度</th></tr>
-        ${stageRows}
-      </table>
-      <h3>处理缓慢案件 (Top 10)</h3>
-      <table>
-        <tr><th>债权编号</th><th>停留天数</th><th>当前状态</th><th>提交日期</th></tr>
-        ${slowClaimRows}
-      </table>
-    </div>`;
+
+  private generateBottleneckSection(writer: PdfWriter, bottleneck: BottleneckAnalysis): void {
+    writer.addHeading('瓶颈分析');
+    writer.addParagraph('瓶颈阶段');
+    writer.addTable(
+      [
+        { header: '阶段', width: 2 },
+        { header: '平均时长(天)', align: 'right' },
+        { header: '影响案件数', align: 'right' },
+        { header: '严重程度', align: 'center' }
+      ],
+      bottleneck.bottleneckStages.map(stage => [
+        stage.stage,
+        stage.avgDuration,
+        stage.claimCount,
+        SEVERITY_LABELS[stage.severity]
+      ])
+    );
+
+    writer.addParagraph('处理缓慢案件 (Top 10)');
+    writer.addTable(
+      [
+        { header: '债权编号', width: 2 },
+        { header: '停留天数', align: 'right' },
+        { header: '当前状态' },
+        { header: '提交日期' }
+      ],
+      bottleneck.slowClaims.slice(0, 10).map(claim => [
+        claim.claimNumber,
+        claim.daysInStatus,
+        claim.currentStatus,
+        claim.submissionDate
+      ])
+    );
   }
-  
+
+  private generateTimeSeriesSection(writer: PdfWriter, timeSeries: TimeSeriesData[]): void {
+    writer.addHeading('时间趋势');
+    writer.addTable(
+      [
+        { header: '日期', width: 1.5 },
+        { header: '提交数量', align: 'right' },
+        { header: '审核通过', align: 'right' },
+        { header: '审核驳回', align: 'right' },
+        { header: '补充材料', align: 'right' }
+      ],
+      timeSeries.map(item => [item.date, item.submissions, item.approvals, item.rejections, item.supplements])
+    );
+  }
+
   /**
-   * 模拟文件上传
+   * 获取导出文件内容
    */
-  private async uploadFile(content: any, fileName: string): Promise<string> {
-    // 这里应该实现实际的文件上传逻辑
-    // 可以上传到云存储服务或本地服务器
-    
-    // 模拟异步上传
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // 返回模拟的下载URL
-    return `/downloads/${fileName}`;
+  getExportFile(taskId: string): Blob | null {
+    return this.exportFiles.get(taskId) || null;
   }
-  
+
+  /**
+   * 释放导出文件占用的内存和下载链接
+   */
+  private releaseExportFile(taskId: string): void {
+    const task = this.exportTasks.get(taskId);
+    if (task?.downloadUrl && task.downloadUrl.startsWith('blob:')) {
+      URL.revokeObjectURL(task.downloadUrl);
+    }
+    this.exportFiles.delete(taskId);
+  }
+
   /**
    * 清理过期的导出任务
    */
@@ -711,6 +766,7 @@ class ClaimDataExportService {
     for (const [taskId, task] of this.exportTasks.entries()) {
       const age = now - task.createdAt.getTime();
       if (age > maxAge) {
+        this.releaseExportFile(taskId);
         this.exportTasks.delete(taskId);
       }
     }
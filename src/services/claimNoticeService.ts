@@ -0,0 +1,304 @@
+/**
+ * 债权审查结果通知书服务
+ * 按模板为每笔已审查债权合并生成通知书文档，通过站内消息送达债权人，
+ * 并跟踪送达状态、债权人确认收悉时间和异议截止日期。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import { messageService } from '@/src/services/messageService';
+import {
+  buildClaimNoticeValues,
+  deltaToPlainText,
+  formatChineseDate,
+  mergeDeltaTemplate,
+  parseTemplateDelta
+} from '@/src/utils/mailMerge';
+import { RecordId } from 'surrealdb';
+import type {
+  ClaimNotice,
+  ClaimNoticeCandidate,
+  ClaimNoticeDeliveryResult,
+  GenerateClaimNoticesParams
+} from '@/src/types/claimNotice';
+
+export const CLAIM_NOTICE_DOCUMENT_TYPE = 'claim_review_notice';
+
+// 只有审查结论已确定的债权才能发送通知书
+const REVIEWED_STATUSES = ['审核通过', '部分通过', '已驳回'];
+
+const UNDELIVERABLE_REASON = '债权人未关联系统用户';
+
+const recordKey = (id: RecordId | string): string => String(id).split(':').slice(1).join(':');
+
+const toClaimRecord = (id: RecordId | string): RecordId | string =>
+  typeof id === 'string' ? new RecordId('claim', id.includes(':') ? recordKey(id) : id) : id;
+
+export class ClaimNoticeService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 获取可发送通知书的已审查债权，附带合并所需字段和最近一次通知书状态；
+   * 收件人为债权人最早关联的系统用户，而不是债权的创建人（管理人可能代为申报）
+   */
+  async getNoticeCandidates(
+    caseId: RecordId | string,
+    claimIds?: readonly (RecordId | string)[]
+  ): Promise<ClaimNoticeCandidate[]> {
+    try {
+      const query = `
+        SELECT
+          id AS claim_id,
+          claim_number,
+          review_status_id.name AS review_status,
+          review_comments,
+          review_time,
+          (SELECT in, created_at FROM represents WHERE out = $parent.creditor_id ORDER BY created_at LIMIT 1)[0].in AS recipient_user_id,
+          creditor_id,
+          creditor_id.name AS creditor_name,
+          creditor_id.legal_id AS creditor_legal_id,
+          creditor_id.contact_address AS creditor_address,
+          case_id,
+          case_id.name AS case_name,
+          case_id.case_number AS case_number,
+          case_id.case_manager_name AS case_manager_name,
+          case_id.manager_organization AS manager_organization,
+          asserted_claim_details.nature AS asserted_nature,
+          asserted_claim_details.total_asserted_amount AS asserted_total,
+          approved_claim_details.nature AS approved_nature,
+          approved_claim_details.principal AS approved_principal,
+          approved_claim_details.interest AS approved_interest,
+          approved_claim_details.other_amount AS approved_other_amount,
+          approved_claim_details.total_approved_amount AS approved_total,
+          asserted_claim_details.currency AS currency,
+          (SELECT status, created_at FROM claim_notice WHERE claim_id = $parent.id ORDER BY created_at DESC LIMIT 1)[0].status AS latest_notice_status
+        FROM claim
+        WHERE case_id = $case_id
+          AND review_status_id.name INSIDE $reviewed_statuses
+          ${claimIds && claimIds.length > 0 ? 'AND id INSIDE $claim_ids' : ''}
+        ORDER BY claim_number
+      `;
+      const candidates = await queryWithAuth<ClaimNoticeCandidate[]>(this.client, query, {
+        case_id: caseId,
+        reviewed_statuses: REVIEWED_STATUSES,
+        claim_ids: claimIds?.map(toClaimRecord)
+      });
+      return candidates || [];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取待通知债权失败:', error);
+      throw new Error('获取待通知债权失败');
+    }
+  }
+
+  /**
+   * 按模板为每笔债权生成通知书文档和通知记录，在单个事务中写入
+   */
+  async generateNotices(params: GenerateClaimNoticesParams): Promise<ClaimNotice[]> {
+    if (params.candidates.length === 0) {
+      return [];
+    }
+
+    const template = parseTemplateDelta(params.template_content);
+    const noticeDate = params.notice_date ?? new Date();
+    const createdAt = new Date().toISOString();
+    const statements: string[] = [];
+    const queryParams: Record<string, unknown> = {
+      case_id: params.case_id,
+      template_id: params.template_id,
+      objection_deadline: params.objection_deadline
+    };
+
+    const notices = params.candidates.map((candidate, index): ClaimNotice => {
+      const values = buildClaimNoticeValues(candidate, params.objection_deadline, noticeDate);
+      const title = `债权审查结果通知书（${candidate.claim_number}）`;
+      const documentId = new RecordId('document', crypto.randomUUID());
+      const noticeId = new RecordId('claim_notice', crypto.randomUUID());
+
+      queryParams[`document_${index}`] = documentId;
+      queryParams[`notice_${index}`] = noticeId;
+      queryParams[`content_${index}`] = JSON.stringify(mergeDeltaTemplate(template, values));
+      queryParams[`title_${index}`] = title;
+      queryParams[`claim_${index}`] = candidate.claim_id;
+      queryParams[`claim_number_${index}`] = candidate.claim_number;
+      queryParams[`creditor_${index}`] = candidate.creditor_id;
+      queryParams[`creditor_name_${index}`] = candidate.creditor_name;
+      queryParams[`recipient_${index}`] = candidate.recipient_user_id;
+      // 债权人没有关联用户时通知书无法通过站内消息送达
+      const status = candidate.recipient_user_id ? 'generated' : 'undeliverable';
+      const failureReason = candidate.recipient_user_id ? undefined : UNDELIVERABLE_REASON;
+      queryParams[`status_${index}`] = status;
+      queryParams[`failure_reason_${index}`] = failureReason;
+      statements.push(
+        `CREATE $document_${index} CONTENT { title: $title_${index}, content: $content_${index}, case_id: $case_id, claim_id: $claim_${index}, document_type: '${CLAIM_NOTICE_DOCUMENT_TYPE}', last_edited_by: $auth.id };`,
+        `CREATE $notice_${index} CONTENT { case_id: $case_id, claim_id: $claim_${index}, claim_number: $claim_number_${index}, creditor_id: $creditor_${index}, creditor_name: $creditor_name_${index}, document_id: $document_${index}, template_id: $template_id, title: $title_${index}, recipient_user_id: $recipient_${index}, objection_deadline: $objection_deadline, status: $status_${index}, failure_reason: $failure_reason_${index} };`
+      );
+
+      return {
+        id: noticeId,
+        case_id: params.case_id,
+        claim_id: candidate.claim_id,
+        claim_number: candidate.claim_number,
+        creditor_id: candidate.creditor_id,
+        creditor_name: candidate.creditor_name,
+        document_id: documentId,
+        template_id: params.template_id,
+        title,
+        recipient_user_id: candidate.recipient_user_id,
+        status,
+        objection_deadline: params.objection_deadline.toISOString(),
+        failure_reason: failureReason,
+        created_at: createdAt
+      };
+    });
+
+    try {
+      const query = `
+        BEGIN TRANSACTION;
+        ${statements.join('\n        ')}
+        COMMIT TRANSACTION;
+      `;
+      await queryWithAuth(this.client, query, queryParams);
+      return notices;
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('生成通知书失败:', error);
+      throw new Error('生成通知书失败');
+    }
+  }
+
+  /**
+   * 逐份通过站内消息送达通知书，并回写送达状态；单份失败不影响其余通知书，
+   * 没有收件人的通知书记为无法送达
+   */
+  async sendNotices(notices: ClaimNotice[], senderName: string): Promise<ClaimNoticeDeliveryResult> {
+    const result: ClaimNoticeDeliveryResult = { sent: 0, failed: 0, undeliverable: 0 };
+
+    for (const notice of notices) {
+      if (!notice.recipient_user_id) {
+        if (notice.status !== 'undeliverable') {
+          await this.markDelivery(notice.id, 'undeliverable', { failure_reason: UNDELIVERABLE_REASON });
+        }
+        result.undeliverable += 1;
+        continue;
+      }
+
+      try {
+        const content = await this.getNoticeText(notice.document_id);
+        const message = await messageService.sendNotification({
+          type: 'BUSINESS_NOTIFICATION',
+          target_user_id: notice.recipient_user_id,
+          case_id: notice.case_id,
+          title: notice.title,
+          content: `${content}\n请在${formatChineseDate(new Date(notice.objection_deadline))}前确认收悉或提出异议。`,
+          priority: 'HIGH',
+          action_link: `/my-claims/${recordKey(notice.claim_id)}/submitted`,
+          sender_name: senderName
+        });
+        await this.markDelivery(notice.id, 'sent', { message_id: message?.id });
+        result.sent += 1;
+      } catch (error) {
+        if (error instanceof AuthenticationRequiredError) throw error;
+        console.error('发送通知书失败:', error);
+        await this.markDelivery(notice.id, 'failed', {
+          failure_reason: error instanceof Error ? error.message : '站内消息发送失败'
+        });
+        result.failed += 1;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取案件下全部通知书，最新的在前
+   */
+  async listNotices(caseId: RecordId | string): Promise<ClaimNotice[]> {
+    try {
+      const query = `SELECT * FROM claim_notice WHERE case_id = $case_id ORDER BY created_at DESC`;
+      const notices = await queryWithAuth<ClaimNotice[]>(this.client, query, { case_id: caseId });
+      return notices || [];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取通知书列表失败:', error);
+      throw new Error('获取通知书列表失败');
+    }
+  }
+
+  /**
+   * 获取某笔债权的通知书，供债权人查看
+   */
+  async listClaimNotices(claimId: RecordId | string): Promise<ClaimNotice[]> {
+    try {
+      const query = `SELECT * FROM claim_notice WHERE claim_id = type::record($claim_id) ORDER BY created_at DESC`;
+      const notices = await queryWithAuth<ClaimNotice[]>(this.client, query, { claim_id: String(claimId) });
+      return notices || [];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取债权通知书失败:', error);
+      throw new Error('获取债权通知书失败');
+    }
+  }
+
+  /**
+   * 获取通知书正文（纯文本）
+   */
+  async getNoticeText(documentId: RecordId | string): Promise<string> {
+    const query = `SELECT content FROM $document_id`;
+    const [row] = await queryWithAuth<{ content?: string }[]>(this.client, query, { document_id: documentId });
+    if (!row?.content) {
+      throw new Error('通知书文档不存在');
+    }
+    return deltaToPlainText(parseTemplateDelta(row.content)).trim();
+  }
+
+  /**
+   * 债权人确认收悉通知书
+   */
+  async acknowledgeNotice(noticeId: RecordId | string): Promise<void> {
+    try {
+      const query = `
+        UPDATE $notice_id SET status = 'acknowledged', acknowledged_at = time::now()
+        WHERE status = 'sent'
+      `;
+      const updated = await queryWithAuth<ClaimNotice[]>(this.client, query, { notice_id: noticeId });
+      if (updated.length === 0) {
+        throw new Error('通知书尚未送达或已确认');
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('确认通知书失败:', error);
+      throw new Error(error instanceof Error && error.message === '通知书尚未送达或已确认'
+        ? error.message
+        : '确认通知书失败');
+    }
+  }
+
+  private async markDelivery(
+    noticeId: RecordId | string,
+    status: 'sent' | 'failed' | 'undeliverable',
+    details: { message_id?: RecordId | string; failure_reason?: string }
+  ): Promise<void> {
+    try {
+      const query = status === 'sent'
+        ? `UPDATE $notice_id SET status = 'sent', sent_at = time::now(), message_id = $message_id, failure_reason = NONE`
+        : `UPDATE $notice_id SET status = $status, failure_reason = $failure_reason`;
+      await queryWithAuth(this.client, query, {
+        notice_id: noticeId,
+        status,
+        message_id: details.message_id,
+        failure_reason: details.failure_reason
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('更新通知书送达状态失败:', error);
+      throw new Error('更新通知书送达状态失败');
+    }
+  }
+}
+
+export default ClaimNoticeService;
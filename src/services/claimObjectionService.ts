@@ -0,0 +1,543 @@
+/**
+ * 债权异议服务
+ * 债权人在异议期内对审查结果提出异议（富文本理由及附件），管理人在复核队列中作出
+ * 维持原结论、变更结论或转入债权确认之诉的处理。每一步均记录操作日志、版本快照和状态流转。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import { deltaToPlainText } from '@/src/utils/mailMerge';
+import ClaimOperationService from './claimOperationService';
+import ClaimVersionService from './claimVersionService';
+import { computeReviewVariance } from './claimReviewService';
+import {
+  OperationType,
+  VersionType,
+  TransitionType
+} from '@/src/types/claimTracking';
+import { RecordId } from 'surrealdb';
+import type { TemplateDelta } from '@/src/utils/mailMerge';
+import type { ClaimOperationLog } from '@/src/types/claimTracking';
+import type {
+  ClaimObjection,
+  ClaimObjectionAttachment,
+  ClaimObjectionContext,
+  ClaimObjectionEligibility,
+  ClaimObjectionOutcome,
+  ClaimObjectionQueueItem,
+  ResolveClaimObjectionParams,
+  SubmitClaimObjectionParams
+} from '@/src/types/claimObjection';
+
+export const CLAIM_OBJECTION_DOCUMENT_TYPE = 'claim_objection';
+
+// 异议期：自通知之日起15日
+export const DEFAULT_OBJECTION_DAYS = 15;
+
+export const OBJECTION_STATUS = '异议中';
+export const LITIGATION_STATUS = '诉讼中';
+
+// 只能对已作出审查结论的债权提出异议
+const OBJECTIONABLE_STATUSES = ['审核通过', '部分通过', '已驳回'];
+
+const OUTCOME_REASONS: Record<ClaimObjectionOutcome, string> = {
+  upheld: '异议复核：维持原审查结论',
+  modified: '异议复核：变更审查结论',
+  litigation: '异议未解决，转入债权确认之诉'
+};
+
+const REASON_SUMMARY_LENGTH = 200;
+
+const OBJECTION_CONFLICT_MESSAGE = '债权已被修改，请刷新后重试';
+
+// 需要原样返回给调用方的业务校验错误，包括数据库事务和事件中抛出的错误
+const VALIDATION_ERRORS = [
+  '债权不存在',
+  '异议不存在',
+  '该异议已处理',
+  '请填写异议理由',
+  '请填写复核意见',
+  '请填写变更后的审查结论',
+  '债权尚未作出审查结论',
+  '异议期已届满',
+  OBJECTION_CONFLICT_MESSAGE
+];
+
+const validationMessage = (error: unknown): string | undefined =>
+  error instanceof Error ? VALIDATION_ERRORS.find(known => error.message.includes(known)) : undefined;
+
+// 操作日志、版本快照和状态流转，与债权和异议的写入在同一事务中执行；版本号 $version_number 由各事务计算。
+// 债权人无权读取操作日志，日志编号由客户端生成，此时 $operation_log 为 NONE
+const TRACKING_STATEMENTS = `
+  LET $operation_log = (CREATE $operation_log_id SET
+    claim_id = $claim_id,
+    operation_type = $operation_type,
+    operation_description = $description,
+    operator_name = $auth.name,
+    operator_role = $auth.role,
+    operation_time = time::now(),
+    user_agent = $user_agent,
+    operation_details = {},
+    before_data = $before_data,
+    after_data = $after_data,
+    changed_fields = $changed_fields,
+    operation_result = 'success',
+    related_documents = [],
+    business_context = $business_context
+  )[0];
+  CREATE claim_version_history SET
+    claim_id = $claim_id,
+    version_number = $version_number,
+    version_type = $version_type,
+    snapshot_data = $after_data,
+    change_summary = $change_summary,
+    change_reason = $change_reason,
+    created_at = time::now(),
+    related_operation_log_id = $operation_log_id,
+    checksum = $checksum,
+    review_variance = $review_variance;
+  IF $to_status != NONE {
+    LET $entered_at = (SELECT VALUE transition_time FROM claim_status_flow WHERE claim_id = $claim_id AND to_status = $from_status ORDER BY transition_time DESC LIMIT 1)[0];
+    CREATE claim_status_flow SET
+      claim_id = $claim_id,
+      from_status = $from_status,
+      to_status = $to_status,
+      transition_type = $transition_type,
+      trigger_reason = $trigger_reason,
+      transition_time = time::now(),
+      operator_role = $auth.role,
+      transition_notes = $transition_notes,
+      review_comments = $review_comments,
+      duration_in_previous_status = IF $entered_at != NONE { time::now() - $entered_at },
+      related_operation_log_id = $operation_log_id;
+  };
+`;
+
+const toClaimRecordString = (id: RecordId | string): string =>
+  typeof id === 'string' && !id.includes(':') ? `claim:${id}` : String(id);
+
+function roundToCent(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * 计算异议截止时间：通知日起第 days 日的当日结束
+ */
+export function computeObjectionDeadline(noticeDate: Date, days: number = DEFAULT_OBJECTION_DAYS): Date {
+  const deadline = new Date(noticeDate.getFullYear(), noticeDate.getMonth(), noticeDate.getDate() + days);
+  deadline.setHours(23, 59, 59, 0);
+  return deadline;
+}
+
+/**
+ * 判断债权人当前能否提出异议；异议期以已送达通知书的截止日为准，未发送通知书时按审查日期推算
+ */
+export function getObjectionEligibility(
+  context: ClaimObjectionContext,
+  now: Date = new Date()
+): ClaimObjectionEligibility {
+  const deadline = context.notice_deadline
+    ? new Date(context.notice_deadline)
+    : context.review_time
+      ? computeObjectionDeadline(new Date(context.review_time))
+      : undefined;
+
+  if (context.objections.some(objection => objection.status === 'pending')) {
+    return { allowed: false, deadline, reason: '已提出异议，正在复核中' };
+  }
+  if (!OBJECTIONABLE_STATUSES.includes(context.review_status)) {
+    return { allowed: false, deadline, reason: '债权尚未作出审查结论' };
+  }
+  if (!deadline || deadline < now) {
+    return { allowed: false, deadline, reason: '异议期已届满' };
+  }
+  return { allowed: true, deadline };
+}
+
+/**
+ * 提取异议理由中上传的附件：文件以链接文字插入，图片以嵌入方式插入
+ */
+export function extractObjectionAttachments(delta: TemplateDelta): ClaimObjectionAttachment[] {
+  const attachments: ClaimObjectionAttachment[] = [];
+  delta.ops.forEach(op => {
+    const link = op.attributes?.link;
+    if (typeof op.insert === 'string' && typeof link === 'string') {
+      attachments.push({ name: op.insert.trim() || link, url: link });
+    } else if (op.insert && typeof op.insert === 'object') {
+      const image = (op.insert as { image?: unknown }).image;
+      if (typeof image === 'string') {
+        attachments.push({ name: image.split('/').pop() || '图片', url: image });
+      }
+    }
+  });
+  return attachments.filter((item, index) => attachments.findIndex(other => other.url === item.url) === index);
+}
+
+export class ClaimObjectionService {
+  private client: any;
+  private operationService: ClaimOperationService;
+  private versionService: ClaimVersionService;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+    this.operationService = new ClaimOperationService(surrealClient);
+    this.versionService = new ClaimVersionService(surrealClient);
+  }
+
+  /**
+   * 获取债权人提出异议所需的债权信息、最近送达的通知书和历次异议
+   */
+  async getObjectionContext(claimId: RecordId | string): Promise<ClaimObjectionContext> {
+    try {
+      const query = `
+        SELECT
+          id AS claim_id,
+          claim_number,
+          case_id,
+          creditor_id,
+          creditor_id.name AS creditor_name,
+          review_status_id.name AS review_status,
+          review_status_id,
+          review_time,
+          (SELECT id, objection_deadline, created_at FROM claim_notice WHERE claim_id = $parent.id AND status INSIDE ['sent', 'acknowledged'] ORDER BY created_at DESC LIMIT 1)[0] AS notice,
+          (SELECT * FROM claim_objection WHERE claim_id = $parent.id ORDER BY created_at DESC) AS objections
+        FROM type::record($claim_id)
+      `;
+      const [row] = await queryWithAuth<(Omit<ClaimObjectionContext, 'notice_id' | 'notice_deadline'> & {
+        notice?: { id: RecordId | string; objection_deadline: string };
+      })[]>(this.client, query, {
+        claim_id: toClaimRecordString(claimId)
+      });
+      if (!row) {
+        throw new Error('债权不存在');
+      }
+
+      const { notice, ...context } = row;
+      return {
+        ...context,
+        objections: context.objections || [],
+        notice_id: notice?.id,
+        notice_deadline: notice?.objection_deadline
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取债权异议信息失败:', error);
+      throw new Error(validationMessage(error) ?? '获取债权异议信息失败');
+    }
+  }
+
+  /**
+   * 债权人提出异议：在同一事务中写入理由文档、异议记录、操作日志、版本快照和状态流转。
+   * 异议前的审查结论和异议期截止时间由数据库根据债权和通知书计算，
+   * 债权状态由数据库事件在校验审查结论和异议期后置为"异议中"
+   */
+  async submitObjection(params: SubmitClaimObjectionParams): Promise<ClaimObjection> {
+    const reasonText = deltaToPlainText(params.reason).trim();
+    if (!reasonText) {
+      throw new Error('请填写异议理由');
+    }
+
+    const context = await this.getObjectionContext(params.claim_id);
+    const eligibility = getObjectionEligibility(context);
+    if (!eligibility.allowed) {
+      throw new Error(eligibility.reason || '当前不能提出异议');
+    }
+
+    try {
+      // 异议前的债权数据和修订标记，用于生成操作日志和版本快照
+      const current = await queryWithAuth<{
+        claim?: Record<string, unknown>;
+        revision?: string;
+        objection_status_id?: RecordId | string;
+      }>(this.client, `
+        RETURN {
+          claim: (SELECT * FROM ONLY $claim_id),
+          revision: <option<string>> $claim_id.last_operation_time,
+          objection_status_id: (SELECT VALUE id FROM claim_review_status_definition WHERE name = $name AND is_active = true LIMIT 1)[0]
+        };
+      `, { claim_id: context.claim_id, name: OBJECTION_STATUS });
+      const beforeClaim = current?.claim;
+      if (!beforeClaim) {
+        throw new Error('债权不存在');
+      }
+
+      const documentId = new RecordId('document', crypto.randomUUID());
+      const objectionId = new RecordId('claim_objection', crypto.randomUUID());
+      const reasonSummary = reasonText.slice(0, REASON_SUMMARY_LENGTH);
+      const attachments = extractObjectionAttachments(params.reason);
+      const afterClaim: Record<string, unknown> = {
+        ...beforeClaim,
+        status: OBJECTION_STATUS,
+        review_status_id: current.objection_status_id ?? beforeClaim.review_status_id,
+        operation_count: (Number(beforeClaim.operation_count) || 0) + 1,
+        last_operation_time: new Date()
+      };
+
+      // 债权人无权修改已审查的债权，也无权读取版本历史：版本号按债权的当前版本号递增，
+      // 债权状态和当前版本号由异议记录的创建事件更新，因此版本快照须在异议记录之前写入
+      const query = `
+        BEGIN TRANSACTION;
+        RETURN {
+          IF <option<string>> $claim_id.last_operation_time != $revision {
+            THROW '${OBJECTION_CONFLICT_MESSAGE}';
+          };
+          LET $version_number = ($claim_id.current_version ?? 0) + 1;
+          ${TRACKING_STATEMENTS}
+          CREATE $document_id CONTENT { title: $title, content: $content, case_id: $case_id, claim_id: $claim_id, document_type: '${CLAIM_OBJECTION_DOCUMENT_TYPE}', last_edited_by: $auth.id };
+          LET $objection = (CREATE ONLY $objection_id CONTENT {
+            case_id: $case_id,
+            claim_id: $claim_id,
+            claim_number: $claim_number,
+            creditor_id: $creditor_id,
+            creditor_name: $creditor_name,
+            notice_id: $notice_id,
+            reason_doc_id: $document_id,
+            reason_summary: $reason_summary,
+            attachments: $attachments,
+            status: 'pending'
+          });
+          { objection: $objection, operation_log: $operation_log }
+        };
+        COMMIT TRANSACTION;
+      `;
+      const result = await queryWithAuth<{ objection: ClaimObjection; operation_log?: ClaimOperationLog }>(this.client, query, {
+        claim_id: context.claim_id,
+        revision: current.revision,
+        document_id: documentId,
+        objection_id: objectionId,
+        operation_log_id: new RecordId('claim_operation_log', crypto.randomUUID()),
+        title: `债权异议（${context.claim_number}）`,
+        content: JSON.stringify(params.reason),
+        case_id: context.case_id,
+        claim_number: context.claim_number,
+        creditor_id: context.creditor_id,
+        creditor_name: context.creditor_name,
+        notice_id: context.notice_id,
+        reason_summary: reasonSummary,
+        attachments,
+        operation_type: OperationType.OBJECTION_SUBMIT,
+        description: this.operationService.formatOperationDescription(OperationType.OBJECTION_SUBMIT, {
+          claim_number: context.claim_number
+        }),
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+        before_data: beforeClaim,
+        after_data: afterClaim,
+        changed_fields: ['status', 'review_status_id', 'operation_count'],
+        business_context: {
+          objection_id: objectionId,
+          attachments
+        },
+        version_type: VersionType.OBJECTION,
+        change_summary: `债权人对审查结论"${beforeClaim.status}"提出异议`,
+        change_reason: reasonSummary,
+        checksum: await this.versionService.generateChecksum(afterClaim),
+        review_variance: undefined,
+        from_status: beforeClaim.review_status_id,
+        to_status: current.objection_status_id,
+        transition_type: TransitionType.USER_ACTION,
+        trigger_reason: '债权人提出异议',
+        transition_notes: reasonSummary,
+        review_comments: undefined
+      });
+
+      if (result?.operation_log) {
+        await this.operationService.sealOperationLog(result.operation_log);
+      }
+      return result.objection;
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('提交债权异议失败:', error);
+      throw new Error(validationMessage(error) ?? '提交债权异议失败');
+    }
+  }
+
+  /**
+   * 获取案件下的异议，默认只返回待复核的异议（复核队列），按提出时间先后排列
+   */
+  async listObjections(caseId: RecordId | string, pendingOnly: boolean = true): Promise<ClaimObjectionQueueItem[]> {
+    try {
+      const query = `
+        SELECT
+          *,
+          claim_id.asserted_claim_details.principal AS asserted_principal,
+          claim_id.asserted_claim_details.interest AS asserted_interest,
+          claim_id.asserted_claim_details.other_amount AS asserted_other_amount,
+          claim_id.asserted_claim_details.total_asserted_amount AS asserted_total,
+          claim_id.approved_claim_details.nature AS approved_nature,
+          claim_id.approved_claim_details.principal AS approved_principal,
+          claim_id.approved_claim_details.interest AS approved_interest,
+          claim_id.approved_claim_details.other_amount AS approved_other_amount,
+          claim_id.approved_claim_details.total_approved_amount AS approved_total,
+          claim_id.asserted_claim_details.currency AS currency
+        FROM claim_objection
+        WHERE case_id = $case_id ${pendingOnly ? "AND status = 'pending'" : ''}
+        ORDER BY created_at ${pendingOnly ? 'ASC' : 'DESC'}
+      `;
+      const objections = await queryWithAuth<ClaimObjectionQueueItem[]>(this.client, query, { case_id: caseId });
+      return objections || [];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取异议列表失败:', error);
+      throw new Error('获取异议列表失败');
+    }
+  }
+
+  /**
+   * 获取异议理由正文（Quill Delta JSON）
+   */
+  async getObjectionReason(documentId: RecordId | string): Promise<TemplateDelta> {
+    const query = `SELECT content FROM $document_id`;
+    const [row] = await queryWithAuth<{ content?: string }[]>(this.client, query, { document_id: documentId });
+    if (!row?.content) {
+      throw new Error('异议理由文档不存在');
+    }
+    return JSON.parse(row.content) as TemplateDelta;
+  }
+
+  /**
+   * 异议复核：维持原结论时恢复异议前状态，变更结论时更新认定金额，
+   * 无法协商解决时转入债权确认之诉；债权、异议、操作日志、版本快照和状态流转在同一事务中写入
+   */
+  async resolveObjection(params: ResolveClaimObjectionParams): Promise<void> {
+    const comments = params.resolution_comments.trim();
+    if (!comments) {
+      throw new Error('请填写复核意见');
+    }
+    if (params.outcome === 'modified' && !params.modified) {
+      throw new Error('请填写变更后的审查结论');
+    }
+
+    try {
+      const [objection] = await queryWithAuth<ClaimObjection[]>(this.client, `SELECT * FROM $objection_id`, {
+        objection_id: params.objection_id
+      });
+      if (!objection) {
+        throw new Error('异议不存在');
+      }
+      if (objection.status !== 'pending') {
+        throw new Error('该异议已处理');
+      }
+
+      const newStatus = params.outcome === 'upheld'
+        ? objection.previous_status
+        : params.outcome === 'modified'
+          ? params.modified!.decision
+          : LITIGATION_STATUS;
+
+      // 复核前的债权数据和修订标记：last_operation_time 每次写入时更新，以字符串比较
+      const current = await queryWithAuth<{
+        claim?: Record<string, unknown>;
+        revision?: string;
+        status_id?: RecordId | string;
+        reviewer_id: RecordId | string;
+      }>(this.client, `
+        RETURN {
+          claim: (SELECT * FROM ONLY $claim_id),
+          revision: <option<string>> $claim_id.last_operation_time,
+          status_id: (SELECT VALUE id FROM claim_review_status_definition WHERE name = $name AND is_active = true LIMIT 1)[0],
+          reviewer_id: $auth.id
+        };
+      `, { claim_id: objection.claim_id, name: newStatus });
+      const beforeClaim = current?.claim;
+      if (!beforeClaim) {
+        throw new Error('债权不存在');
+      }
+
+      const newStatusId = params.outcome === 'upheld' && objection.previous_review_status_id
+        ? objection.previous_review_status_id
+        : current.status_id;
+      const modified = params.outcome === 'modified' ? params.modified : undefined;
+      const claimFields: Record<string, unknown> = {
+        status: newStatus,
+        review_status_id: newStatusId ?? beforeClaim.review_status_id,
+        operation_count: (Number(beforeClaim.operation_count) || 0) + 1,
+        ...(modified && {
+          approved_claim_details: {
+            nature: modified.approved.nature,
+            currency: modified.approved.currency,
+            principal: modified.approved.principal,
+            interest: modified.approved.interest,
+            other_amount: modified.approved.other,
+            total_approved_amount: roundToCent(modified.approved.principal + modified.approved.interest + modified.approved.other)
+          },
+          review_comments: comments,
+          reviewer_id: current.reviewer_id,
+          review_time: new Date()
+        })
+      };
+      const afterClaim = { ...beforeClaim, ...claimFields, last_operation_time: new Date() };
+      const changedFields = Object.keys(claimFields)
+        .filter(key => JSON.stringify(beforeClaim[key]) !== JSON.stringify(claimFields[key]));
+
+      // 异议只能处理一次；债权在读取后被他人修改时拒绝提交，避免快照与实际数据不一致
+      const query = `
+        BEGIN TRANSACTION;
+        RETURN {
+          LET $objection = (UPDATE $objection_id SET
+            status = $outcome,
+            resolution_comments = $review_comments,
+            litigation_case_number = $litigation_case_number,
+            resolved_by = $auth.id,
+            resolved_at = time::now()
+          WHERE status = 'pending')[0];
+          IF $objection = NONE {
+            THROW '该异议已处理';
+          };
+          LET $claim = (UPDATE $claim_id MERGE $claim_fields WHERE <string> last_operation_time = $revision)[0];
+          IF $claim = NONE {
+            THROW '${OBJECTION_CONFLICT_MESSAGE}';
+          };
+          LET $version_number = (math::max(SELECT VALUE version_number FROM claim_version_history WHERE claim_id = $claim_id) ?? 0) + 1;
+          ${TRACKING_STATEMENTS}
+          UPDATE $claim_id SET current_version = $version_number;
+          $operation_log
+        };
+        COMMIT TRANSACTION;
+      `;
+      const operationLog = await queryWithAuth<ClaimOperationLog>(this.client, query, {
+        claim_id: objection.claim_id,
+        objection_id: params.objection_id,
+        operation_log_id: new RecordId('claim_operation_log', crypto.randomUUID()),
+        outcome: params.outcome,
+        litigation_case_number: params.outcome === 'litigation' ? params.litigation_case_number || undefined : undefined,
+        claim_fields: claimFields,
+        revision: current.revision,
+        operation_type: OperationType.OBJECTION_RESOLVE,
+        description: this.operationService.formatOperationDescription(OperationType.OBJECTION_RESOLVE, {
+          claim_number: objection.claim_number
+        }),
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+        before_data: beforeClaim,
+        after_data: afterClaim,
+        changed_fields: changedFields,
+        business_context: {
+          objection_id: params.objection_id,
+          outcome: params.outcome,
+          litigation_case_number: params.litigation_case_number
+        },
+        // 变更结论时保存新的金额差异
+        version_type: VersionType.OBJECTION_RESOLUTION,
+        change_summary: `${OUTCOME_REASONS[params.outcome]}（${newStatus}）`,
+        change_reason: comments,
+        checksum: await this.versionService.generateChecksum(afterClaim),
+        review_variance: modified && computeReviewVariance(modified.asserted, modified.approved),
+        from_status: beforeClaim.review_status_id,
+        to_status: newStatusId,
+        transition_type: TransitionType.ADMIN_ACTION,
+        trigger_reason: OUTCOME_REASONS[params.outcome],
+        transition_notes: undefined,
+        review_comments: comments
+      });
+
+      if (operationLog) {
+        await this.operationService.sealOperationLog(operationLog);
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('处理债权异议失败:', error);
+      throw new Error(validationMessage(error) ?? '处理债权异议失败');
+    }
+  }
+}
+
+export default ClaimObjectionService;
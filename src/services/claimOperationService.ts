@@ -4,6 +4,10 @@
  */
 
 import { queryWithAuth } from "@/src/utils/surrealAuth";
+import {
+  AuditChainService,
+  buildAnchorStatement,
+} from "@/src/services/auditChainService";
 import {
   ClaimOperationLog,
   OperationType,
@@ -16,9 +20,11 @@ import type { RecordId } from "surrealdb";
 
 export class ClaimOperationService {
   private client: any;
+  private chainService: AuditChainService;
 
   constructor(surrealClient: any) {
     this.client = surrealClient;
+    this.chainService = new AuditChainService(surrealClient);
   }
 
   /**
@@ -69,13 +75,14 @@ export class ClaimOperationService {
         business_context: params.business_context || {},
       };
 
-      const results = await queryWithAuth(this.client, query, queryParams);
-      const operationLog = results[0]?.[0] as ClaimOperationLog;
+      const [operationLog] = await queryWithAuth<ClaimOperationLog[]>(this.client, query, queryParams);
 
       if (!operationLog) {
         throw new Error("操作日志记录失败");
       }
 
+      await this.sealOperationLog(operationLog);
+
       return operationLog;
     } catch (error) {
       console.error("记录操作日志失败:", error);
@@ -112,7 +119,7 @@ export class ClaimOperationService {
           error_message = $error_message
       `;
 
-      await queryWithAuth(this.client, query, {
+      const [failedLog] = await queryWithAuth<ClaimOperationLog[]>(this.client, query, {
         claim_id: params.claim_id,
         operation_type: params.operation_type,
         description: `${params.description} (失败)`,
@@ -122,11 +129,39 @@ export class ClaimOperationService {
         operation_result: OperationResult.FAILED,
         error_message: error.message,
       });
+
+      if (failedLog) {
+        await this.sealOperationLog(failedLog);
+      }
     } catch (logError) {
       console.error("记录失败操作日志失败:", logError);
     }
   }
 
+  /**
+   * 将操作日志加入所属债权和案件的哈希链
+   */
+  async sealOperationLog(operationLog: ClaimOperationLog): Promise<void> {
+    try {
+      const caseId = await queryWithAuth<RecordId | string | null>(
+        this.client,
+        "SELECT VALUE claim_id.case_id FROM ONLY $log_id",
+        { log_id: operationLog.id },
+      );
+      const scopes = [String(operationLog.claim_id)];
+      if (caseId && !Array.isArray(caseId)) {
+        scopes.push(String(caseId));
+      }
+      await this.chainService.seal(
+        "claim_operation_log",
+        operationLog as unknown as Record<string, unknown>,
+        scopes,
+      );
+    } catch (error) {
+      console.error("操作日志加入哈希链失败:", error);
+    }
+  }
+
   /**
    * 获取债权操作历史
    */
@@ -358,6 +393,13 @@ export class ClaimOperationService {
     }
   }
 
+  /**
+   * 校验债权操作日志的哈希链
+   */
+  async verifyOperationChain(claimId: string | RecordId) {
+    return this.chainService.verifyScope("claim_operation_log", "claim", claimId);
+  }
+
   /**
    * 删除过期的操作日志
    */
@@ -366,9 +408,11 @@ export class ClaimOperationService {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
 
+      // 删除后为被清理的链首记录锚点，校验时不视为断链
       const query = `
         DELETE FROM claim_operation_log
-        WHERE operation_time < $cutoff_date
+        WHERE operation_time < $cutoff_date;
+        ${buildAnchorStatement("claim_operation_log", "cutoff_date")}
       `;
 
       const results = await queryWithAuth(this.client, query, {
@@ -471,6 +515,9 @@ export class ClaimOperationService {
       [OperationType.SUPPLEMENT_REQUEST]: "要求补充材料",
       [OperationType.DELETE]: "删除债权申报",
       [OperationType.VIEW]: "查看债权申报",
+      [OperationType.CONFLICT_RESOLVE]: "解决同步冲突",
+      [OperationType.OBJECTION_SUBMIT]: "债权人提出异议",
+      [OperationType.OBJECTION_RESOLVE]: "异议复核处理",
     };
 
     let description = descriptions[operationType] || "未知操作";
@@ -0,0 +1,221 @@
+/**
+ * 由解析文书生成债权申报的数据服务
+ * 按统一社会信用代码或名称匹配案件中的债权人（未匹配时新建），
+ * 将原始 PDF 保存为 document 记录，供申报附件和审核时回看取值来源。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import type { RecordId } from 'surrealdb';
+import type { ParseResult } from '@/src/types/pdfParser';
+import type {
+  ClaimDraftFromDocument,
+  ClaimPrefill,
+  CreditorMatch
+} from '@/src/types/claimEvidence';
+
+// 与附件上传限制一致
+export const MAX_SOURCE_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+export interface ClaimPrefillCase {
+  id: string;
+  name: string;
+  case_number: string;
+  acceptance_date?: string;
+}
+
+interface CreatePrefillParams {
+  caseInfo: ClaimPrefillCase;
+  file: File;
+  parseResult: ParseResult;
+  draft: ClaimDraftFromDocument;
+}
+
+const toDateString = (value: unknown): string | undefined =>
+  value ? new Date(value as string | Date).toISOString() : undefined;
+
+export class ClaimPrefillService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 获取可选案件及其受理日期（用于计算利息截止日）
+   */
+  async getCases(): Promise<ClaimPrefillCase[]> {
+    try {
+      const cases = await queryWithAuth<Array<Omit<ClaimPrefillCase, 'id'> & { id: RecordId | string }>>(
+        this.client,
+        'SELECT id, name, case_number, acceptance_date FROM case ORDER BY created_at DESC',
+        {}
+      );
+      return (cases || []).map(item => ({
+        ...item,
+        id: String(item.id),
+        acceptance_date: toDateString(item.acceptance_date),
+      }));
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取案件列表失败:', error);
+      throw new Error('获取案件列表失败');
+    }
+  }
+
+  /**
+   * 在案件中查找债权人，统一社会信用代码优先于名称
+   */
+  async findCreditor(caseId: string, creditor: { name: string; legal_id: string }): Promise<CreditorMatch | null> {
+    if (!creditor.name && !creditor.legal_id) {
+      return null;
+    }
+    try {
+      const query = `
+        SELECT id, name, legal_id FROM creditor
+        WHERE case_id = type::record($case_id) AND (
+          ($legal_id != '' AND legal_id = $legal_id) OR ($name != '' AND name = $name)
+        )
+      `;
+      const rows = (await queryWithAuth<Array<{ id: RecordId | string; name: string; legal_id: string }>>(this.client, query, {
+        case_id: caseId,
+        legal_id: creditor.legal_id.trim(),
+        name: creditor.name.trim(),
+      })) || [];
+      const byLegalId = creditor.legal_id ? rows.find(row => row.legal_id === creditor.legal_id.trim()) : undefined;
+      const match = byLegalId ?? rows[0];
+      return match
+        ? { id: String(match.id), name: match.name, legal_id: match.legal_id, matched_by: byLegalId ? 'legal_id' : 'name' }
+        : null;
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('查询债权人失败:', error);
+      throw new Error('查询债权人失败');
+    }
+  }
+
+  /**
+   * 匹配或新建债权人，新建时证件号必填（同案件证件号唯一）
+   */
+  async ensureCreditor(caseId: string, creditor: ClaimDraftFromDocument['creditor']): Promise<CreditorMatch & { created: boolean }> {
+    const existing = await this.findCreditor(caseId, creditor);
+    if (existing) {
+      return { ...existing, created: false };
+    }
+    if (!creditor.name.trim() || !creditor.legal_id.trim()) {
+      throw new Error('新建债权人需要填写名称和统一社会信用代码');
+    }
+
+    try {
+      const [created] = await queryWithAuth<Array<{ id: RecordId | string; name: string; legal_id: string }>>(
+        this.client,
+        'CREATE creditor CONTENT { case_id: type::record($case_id), name: $name, legal_id: $legal_id, type: $type }',
+        {
+          case_id: caseId,
+          name: creditor.name.trim(),
+          legal_id: creditor.legal_id.trim(),
+          type: creditor.type,
+        }
+      );
+      if (!created) {
+        throw new Error('新建债权人失败');
+      }
+      return { id: String(created.id), name: created.name, legal_id: created.legal_id, matched_by: 'legal_id', created: true };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('新建债权人失败:', error);
+      throw new Error('新建债权人失败');
+    }
+  }
+
+  /**
+   * 保存原始 PDF，返回 document 记录 ID
+   */
+  async saveSourceDocument(file: File, parseResult: ParseResult): Promise<string> {
+    if (file.size > MAX_SOURCE_DOCUMENT_SIZE) {
+      throw new Error('文件超过 10MB，无法作为申报附件保存');
+    }
+    try {
+      const content = new Uint8Array(await file.arrayBuffer());
+      const [document] = await queryWithAuth<Array<{ id: RecordId | string }>>(
+        this.client,
+        `CREATE document CONTENT {
+          original_file_name: $file_name,
+          mime_type: $mime_type,
+          file_size: $file_size,
+          file_content: $content,
+          source: 'pdf_parser',
+          parse_id: $parse_id
+        }`,
+        {
+          file_name: file.name,
+          mime_type: file.type || 'application/pdf',
+          file_size: file.size,
+          content,
+          parse_id: parseResult.id,
+        }
+      );
+      if (!document) {
+        throw new Error('保存原始文件失败');
+      }
+      return String(document.id);
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('保存原始文件失败:', error);
+      throw new Error('保存原始文件失败');
+    }
+  }
+
+  /**
+   * 读取已保存的原始 PDF，返回可供预览的对象 URL，调用方负责释放
+   */
+  async getSourceDocumentUrl(documentId: string): Promise<string> {
+    try {
+      const [document] = (await queryWithAuth<Array<{ file_content?: Uint8Array | ArrayBuffer; mime_type?: string }>>(
+        this.client,
+        'SELECT file_content, mime_type FROM type::record($document_id)',
+        { document_id: documentId }
+      )) || [];
+      if (!document?.file_content) {
+        throw new Error('原始文件不存在');
+      }
+      return URL.createObjectURL(new Blob([document.file_content as BlobPart], { type: document.mime_type || 'application/pdf' }));
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('读取原始文件失败:', error);
+      throw new Error('读取原始文件失败');
+    }
+  }
+
+  /**
+   * 生成申报预填数据：匹配或新建债权人并保存原始文件
+   * draft 可能已由用户在确认界面修改过债权人信息，按修改后的内容处理
+   */
+  async createClaimPrefill({ caseInfo, file, parseResult, draft }: CreatePrefillParams): Promise<ClaimPrefill> {
+    const creditor = await this.ensureCreditor(caseInfo.id, draft.creditor);
+    const documentId = await this.saveSourceDocument(file, parseResult);
+
+    return {
+      case_id: caseInfo.id,
+      case_name: caseInfo.name,
+      case_number: caseInfo.case_number,
+      creditor_id: creditor.id,
+      creditor_name: creditor.name,
+      asserted_claim_details: draft.asserted_claim_details,
+      source_evidence: {
+        document_id: documentId,
+        file_name: file.name,
+        parse_id: parseResult.id,
+        parsed_at: new Date(parseResult.updatedAt).toISOString(),
+        values: draft.evidence,
+      },
+      attachment: {
+        name: file.name,
+        size: file.size,
+        document_id: documentId,
+      },
+    };
+  }
+}
+
+export default ClaimPrefillService;
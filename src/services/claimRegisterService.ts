@@ -0,0 +1,561 @@
+/**
+ * 债权表生成服务
+ * 汇总案件全部已申报债权，按债权性质分组生成债权表，并以文档版本形式发布和导出
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AnomalyRuleService } from '@/src/services/anomalyRuleService';
+import { PdfWriter } from '@/src/utils/pdfWriter';
+import type { PdfTableCell, PdfTableColumn } from '@/src/utils/pdfWriter';
+import {
+  createXlsxBlob,
+  currencyCell,
+  headerRow,
+  titleCell
+} from '@/src/utils/spreadsheetExport';
+import type { SheetRow } from '@/src/utils/spreadsheetExport';
+import {
+  ClaimRegister,
+  ClaimRegisterAmounts,
+  ClaimRegisterEdition,
+  ClaimRegisterEntry,
+  ClaimRegisterNatureGroup,
+  ClaimRegisterOutcome,
+  ClaimRegisterSubtotal,
+  PublishClaimRegisterParams
+} from '@/src/types/claimRegister';
+import type { RecordId } from 'surrealdb';
+
+export const CLAIM_REGISTER_DOCUMENT_TYPE = 'claim_register';
+
+// 并发发布时版本号或文档冲突的重试次数
+const PUBLISH_RETRIES = 3;
+
+// 审查状态名称与审查结论的对应关系，未列出的状态均视为待定
+const OUTCOME_BY_STATUS: Record<string, ClaimRegisterOutcome> = {
+  '审核通过': ClaimRegisterOutcome.CONFIRMED,
+  '部分通过': ClaimRegisterOutcome.PARTIALLY_CONFIRMED,
+  '已驳回': ClaimRegisterOutcome.NOT_CONFIRMED
+};
+
+export const CLAIM_REGISTER_OUTCOME_LABELS: Record<ClaimRegisterOutcome, string> = {
+  [ClaimRegisterOutcome.CONFIRMED]: '确认',
+  [ClaimRegisterOutcome.PARTIALLY_CONFIRMED]: '部分确认',
+  [ClaimRegisterOutcome.NOT_CONFIRMED]: '不予确认',
+  [ClaimRegisterOutcome.PENDING]: '待定'
+};
+
+// 未提交的债权不进入债权表
+const EXCLUDED_STATUSES = ['待提交', '草稿'];
+
+interface RawRegisterClaim {
+  id: RecordId | string;
+  claim_number: string;
+  creditor_name?: string;
+  creditor_legal_id?: string;
+  creditor_type?: 'organization' | 'individual';
+  review_status_name?: string;
+  review_comments?: string;
+  asserted_claim_details: {
+    nature: string;
+    principal: number;
+    interest: number;
+    other_amount?: number;
+    total_asserted_amount: number;
+  };
+  approved_claim_details?: {
+    nature: string;
+    principal: number;
+    interest: number;
+    other_amount?: number;
+    total_approved_amount: number;
+  };
+}
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyAmounts = (): ClaimRegisterAmounts => ({
+  principal: 0,
+  interest: 0,
+  other_amount: 0,
+  total: 0
+});
+
+const addAmounts = (target: ClaimRegisterAmounts, source: ClaimRegisterAmounts | null): ClaimRegisterAmounts => {
+  if (!source) return target;
+  return {
+    principal: roundAmount(target.principal + source.principal),
+    interest: roundAmount(target.interest + source.interest),
+    other_amount: roundAmount(target.other_amount + source.other_amount),
+    total: roundAmount(target.total + source.total)
+  };
+};
+
+const summarize = (entries: ClaimRegisterEntry[]): ClaimRegisterSubtotal => {
+  return entries.reduce<ClaimRegisterSubtotal>(
+    (subtotal, entry) => ({
+      claim_count: subtotal.claim_count + 1,
+      asserted: addAmounts(subtotal.asserted, entry.asserted),
+      approved: addAmounts(subtotal.approved, entry.approved)
+    }),
+    { claim_count: 0, asserted: emptyAmounts(), approved: emptyAmounts() }
+  );
+};
+
+export class ClaimRegisterService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 生成案件当前的债权表
+   */
+  async buildRegister(caseId: string | RecordId): Promise<ClaimRegister> {
+    try {
+      const caseQuery = `SELECT id, name, case_number FROM $case_id`;
+      const natureQuery = `
+        SELECT name, display_order
+        FROM claim_nature_definition
+        WHERE is_active = true
+        ORDER BY display_order
+      `;
+      const claimQuery = `
+        SELECT
+          id,
+          claim_number,
+          creditor_id.name AS creditor_name,
+          creditor_id.legal_id AS creditor_legal_id,
+          creditor_id.type AS creditor_type,
+          review_status_id.name AS review_status_name,
+          review_comments,
+          asserted_claim_details,
+          approved_claim_details
+        FROM claim
+        WHERE case_id = $case_id
+        ORDER BY claim_number
+      `;
+
+      const [caseResults, natureResults, claimResults] = await Promise.all([
+        queryWithAuth<{ name?: string; case_number?: string }[]>(this.client, caseQuery, { case_id: caseId }),
+        queryWithAuth<{ name: string; display_order: number }[]>(this.client, natureQuery, {}),
+        queryWithAuth<RawRegisterClaim[]>(this.client, claimQuery, { case_id: caseId })
+      ]);
+
+      const caseData = caseResults?.[0] || {};
+      const natures = natureResults || [];
+      const rawClaims = claimResults || [];
+
+      const entries = rawClaims
+        .filter(claim => !EXCLUDED_STATUSES.includes(claim.review_status_name || ''))
+        .map(claim => this.toEntry(claim));
+
+      return this.assembleRegister(
+        {
+          case_id: String(caseId),
+          case_name: caseData.name || '',
+          case_number: caseData.case_number || ''
+        },
+        entries,
+        natures
+      );
+    } catch (error) {
+      console.error('生成债权表失败:', error);
+      throw new Error('生成债权表失败');
+    }
+  }
+
+  /**
+   * 将条目按审查结论与债权性质组装为债权表
+   */
+  assembleRegister(
+    caseInfo: Pick<ClaimRegister, 'case_id' | 'case_name' | 'case_number'>,
+    entries: ClaimRegisterEntry[],
+    natures: { name: string; display_order: number }[]
+  ): ClaimRegister {
+    const reviewedEntries = entries.filter(entry => entry.outcome !== ClaimRegisterOutcome.PENDING);
+    const pendingEntries = entries.filter(entry => entry.outcome === ClaimRegisterOutcome.PENDING);
+
+    const orderByNature = new Map(natures.map(nature => [nature.name, nature.display_order]));
+    const groups = new Map<string, ClaimRegisterEntry[]>();
+    reviewedEntries.forEach(entry => {
+      const list = groups.get(entry.nature) || [];
+      list.push(entry);
+      groups.set(entry.nature, list);
+    });
+
+    // 未在性质定义中登记的性质排在最后
+    const reviewedGroups: ClaimRegisterNatureGroup[] = Array.from(groups.entries())
+      .map(([nature, groupEntries]) => ({
+        nature,
+        display_order: orderByNature.get(nature) ?? Number.MAX_SAFE_INTEGER,
+        entries: groupEntries,
+        subtotal: summarize(groupEntries)
+      }))
+      .sort((a, b) => a.display_order - b.display_order || a.nature.localeCompare(b.nature, 'zh-CN'));
+
+    return {
+      ...caseInfo,
+      generated_at: new Date().toISOString(),
+      reviewed_groups: reviewedGroups,
+      pending_entries: pendingEntries,
+      pending_subtotal: summarize(pendingEntries),
+      reviewed_total: summarize(reviewedEntries)
+    };
+  }
+
+  /**
+   * 发布新版本债权表
+   * 每个案件对应一个债权表文档，每次发布生成一个新的文档版本
+   */
+  async publishRegister(params: PublishClaimRegisterParams): Promise<ClaimRegisterEdition> {
+    try {
+      const register = await this.buildRegister(params.case_id);
+      const content = JSON.stringify(register);
+      const title = `${register.case_name}债权表`;
+
+      // 文档、版本和文档更新在同一事务中写入，失败时不留下无版本的文档；
+      // 债权表文档以案件确定 ID，首次并发发布时只有一个能创建成功，版本号由唯一索引保证不重复
+      const query = `
+        BEGIN TRANSACTION;
+        RETURN {
+          LET $existing = (SELECT id FROM document WHERE case_id = $case_id AND document_type = $document_type LIMIT 1)[0];
+          LET $document_id = IF $existing != NONE {
+            $existing.id
+          } ELSE {
+            (CREATE ONLY type::thing('document', [$document_type, <record<case>> $case_id]) SET
+              document_type = $document_type,
+              case_id = $case_id,
+              title = $title,
+              mime_type = 'application/json',
+              version = 0,
+              last_edited_by = $auth.id
+            ).id
+          };
+          LET $version_number = ((SELECT version_number FROM document_version WHERE document_id = $document_id ORDER BY version_number DESC LIMIT 1)[0].version_number ?? 0) + 1;
+          LET $version = (CREATE ONLY document_version SET
+            document_id = $document_id,
+            version_number = $version_number,
+            content = $content,
+            change_summary = $change_summary ?? ('第' + <string> $version_number + '版债权表'),
+            created_by = $auth.id
+            RETURN id, document_id, version_number, change_summary, created_at, created_by
+          );
+          UPDATE $document_id SET
+            version = $version_number,
+            title = $title,
+            last_edited_by = $auth.id;
+          $version
+        };
+        COMMIT TRANSACTION;
+      `;
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const version = await queryWithAuth<Omit<ClaimRegisterEdition, 'register'> | null>(this.client, query, {
+            case_id: params.case_id,
+            document_type: CLAIM_REGISTER_DOCUMENT_TYPE,
+            title,
+            content,
+            change_summary: params.change_summary || undefined
+          });
+          if (!version) {
+            throw new Error('债权表版本创建失败');
+          }
+          return { ...version, register };
+        } catch (error) {
+          // 其他用户同时发布了同一版本号或同时创建了债权表文档
+          if (error instanceof Error && /already (contains|exists)/.test(error.message) && attempt < PUBLISH_RETRIES) {
+            continue;
+          }
+          throw error;
+        }
+      }
+    } catch (error) {
+      console.error('发布债权表失败:', error);
+      throw new Error('发布债权表失败');
+    }
+  }
+
+  /**
+   * 获取已发布的债权表版本列表（不含内容，按版本倒序）
+   */
+  async getEditions(caseId: string | RecordId): Promise<Omit<ClaimRegisterEdition, 'register'>[]> {
+    try {
+      const document = await this.getRegisterDocument(caseId);
+      if (!document) {
+        return [];
+      }
+
+      const query = `
+        SELECT id, document_id, version_number, change_summary, created_at, created_by
+        FROM document_version
+        WHERE document_id = $document_id
+        ORDER BY version_number DESC
+      `;
+      const editions = await queryWithAuth<Omit<ClaimRegisterEdition, 'register'>[]>(this.client, query, {
+        document_id: document.id
+      });
+      return editions || [];
+    } catch (error) {
+      console.error('获取债权表版本失败:', error);
+      throw new Error('获取债权表版本失败');
+    }
+  }
+
+  /**
+   * 获取指定版本的债权表
+   */
+  async getEdition(caseId: string | RecordId, versionNumber: number): Promise<ClaimRegisterEdition | null> {
+    try {
+      const document = await this.getRegisterDocument(caseId);
+      if (!document) {
+        return null;
+      }
+
+      const query = `
+        SELECT *
+        FROM document_version
+        WHERE document_id = $document_id AND version_number = $version_number
+        LIMIT 1
+      `;
+      const [version] = await queryWithAuth<(Omit<ClaimRegisterEdition, 'register'> & { content: string })[]>(this.client, query, {
+        document_id: document.id,
+        version_number: versionNumber
+      });
+      if (!version) {
+        return null;
+      }
+
+      return {
+        id: version.id,
+        document_id: version.document_id,
+        version_number: version.version_number,
+        change_summary: version.change_summary,
+        created_at: version.created_at,
+        created_by: version.created_by,
+        register: JSON.parse(version.content) as ClaimRegister
+      };
+    } catch (error) {
+      console.error('获取债权表版本失败:', error);
+      throw new Error('获取债权表版本失败');
+    }
+  }
+
+  /**
+   * 导出债权表为xlsx
+   */
+  async exportToXlsx(register: ClaimRegister, versionNumber?: number): Promise<Blob> {
+    await new AnomalyRuleService(this.client).assertExportAllowed();
+
+    const rows: SheetRow[] = [
+      [titleCell(this.getTitle(register, versionNumber))],
+      [`案号：${register.case_number}`],
+      [`生成时间：${new Date(register.generated_at).toLocaleString('zh-CN')}`],
+      []
+    ];
+
+    const tableHeader = headerRow(
+      '序号', '债权编号', '债权人', '证件号码',
+      '申报本金', '申报利息', '申报其他', '申报合计',
+      '确认本金', '确认利息', '确认其他', '确认合计',
+      '审查结论', '审查意见'
+    );
+
+    const entryRow = (entry: ClaimRegisterEntry, index: number): SheetRow => [
+      index + 1,
+      entry.claim_number,
+      entry.creditor_name,
+      entry.creditor_legal_id,
+      currencyCell(entry.asserted.principal),
+      currencyCell(entry.asserted.interest),
+      currencyCell(entry.asserted.other_amount),
+      currencyCell(entry.asserted.total),
+      currencyCell(entry.approved?.principal),
+      currencyCell(entry.approved?.interest),
+      currencyCell(entry.approved?.other_amount),
+      currencyCell(entry.approved?.total),
+      CLAIM_REGISTER_OUTCOME_LABELS[entry.outcome],
+      entry.review_comments || ''
+    ];
+
+    const subtotalRow = (label: string, subtotal: ClaimRegisterSubtotal, withApproved: boolean = true): SheetRow => [
+      { value: label, style: 'subtotal' },
+      { value: `${subtotal.claim_count}笔`, style: 'subtotal' },
+      null,
+      null,
+      currencyCell(subtotal.asserted.principal, 'subtotal'),
+      currencyCell(subtotal.asserted.interest, 'subtotal'),
+      currencyCell(subtotal.asserted.other_amount, 'subtotal'),
+      currencyCell(subtotal.asserted.total, 'subtotal'),
+      withApproved ? currencyCell(subtotal.approved.principal, 'subtotal') : null,
+      withApproved ? currencyCell(subtotal.approved.interest, 'subtotal') : null,
+      withApproved ? currencyCell(subtotal.approved.other_amount, 'subtotal') : null,
+      withApproved ? currencyCell(subtotal.approved.total, 'subtotal') : null
+    ];
+
+    rows.push([titleCell('一、已审查债权')]);
+    register.reviewed_groups.forEach(group => {
+      rows.push([titleCell(group.nature)], tableHeader);
+      group.entries.forEach((entry, index) => rows.push(entryRow(entry, index)));
+      rows.push(subtotalRow(`${group.nature}小计`, group.subtotal), []);
+    });
+    rows.push(subtotalRow('已审查债权合计', register.reviewed_total), []);
+
+    rows.push([titleCell('二、待定债权（有异议或尚未审查完毕）')], tableHeader);
+    register.pending_entries.forEach((entry, index) => rows.push(entryRow(entry, index)));
+    rows.push(subtotalRow('待定债权合计', register.pending_subtotal, false));
+
+    return createXlsxBlob(
+      [{ name: '债权表', rows, columnWidths: [6, 16, 28, 22, 16, 14, 14, 16, 16, 14, 14, 16, 10, 30] }],
+      { title: this.getTitle(register, versionNumber) }
+    );
+  }
+
+  /**
+   * 导出债权表为PDF（A4横向）
+   */
+  async exportToPdf(register: ClaimRegister, versionNumber?: number): Promise<Blob> {
+    await new AnomalyRuleService(this.client).assertExportAllowed();
+
+    const title = this.getTitle(register, versionNumber);
+    const writer = new PdfWriter({ title, pageWidth: 841.89, pageHeight: 595.28, margin: 36, fontSize: 8 });
+
+    const columns: PdfTableColumn[] = [
+      { header: '序号', width: 0.5, align: 'center' },
+      { header: '债权编号', width: 1.3 },
+      { header: '债权人', width: 2 },
+      { header: '申报本金', align: 'right' },
+      { header: '申报利息', align: 'right' },
+      { header: '申报其他', align: 'right' },
+      { header: '申报合计', align: 'right' },
+      { header: '确认本金', align: 'right' },
+      { header: '确认利息', align: 'right' },
+      { header: '确认其他', align: 'right' },
+      { header: '确认合计', align: 'right' },
+      { header: '审查结论', width: 0.8, align: 'center' }
+    ];
+
+    const money = (value: number | null | undefined): string => {
+      if (value === null || value === undefined) return '-';
+      return value.toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    };
+
+    const entryRow = (entry: ClaimRegisterEntry, index: number): PdfTableCell[] => [
+      index + 1,
+      entry.claim_number,
+      entry.creditor_name,
+      money(entry.asserted.principal),
+      money(entry.asserted.interest),
+      money(entry.asserted.other_amount),
+      money(entry.asserted.total),
+      money(entry.approved?.principal),
+      money(entry.approved?.interest),
+      money(entry.approved?.other_amount),
+      money(entry.approved?.total),
+      CLAIM_REGISTER_OUTCOME_LABELS[entry.outcome]
+    ];
+
+    const subtotalRow = (label: string, subtotal: ClaimRegisterSubtotal, withApproved: boolean = true): PdfTableCell[] => [
+      '',
+      label,
+      `${subtotal.claim_count}笔`,
+      money(subtotal.asserted.principal),
+      money(subtotal.asserted.interest),
+      money(subtotal.asserted.other_amount),
+      money(subtotal.asserted.total),
+      withApproved ? money(subtotal.approved.principal) : '',
+      withApproved ? money(subtotal.approved.interest) : '',
+      withApproved ? money(subtotal.approved.other_amount) : '',
+      withApproved ? money(subtotal.approved.total) : '',
+      ''
+    ];
+
+    writer.addTitle(title, 16);
+    writer.addParagraph(`案号：${register.case_number}    生成时间：${new Date(register.generated_at).toLocaleString('zh-CN')}`);
+
+    writer.addHeading('一、已审查债权', 11);
+    register.reviewed_groups.forEach(group => {
+      writer.addParagraph(group.nature, 9);
+      writer.addTable(columns, [
+        ...group.entries.map(entryRow),
+        subtotalRow(`${group.nature}小计`, group.subtotal)
+      ]);
+    });
+    writer.addTable(columns, [subtotalRow('已审查债权合计', register.reviewed_total)]);
+
+    writer.addHeading('二、待定债权（有异议或尚未审查完毕）', 11);
+    writer.addTable(columns, [
+      ...register.pending_entries.map(entryRow),
+      subtotalRow('待定债权合计', register.pending_subtotal, false)
+    ]);
+
+    return writer.toBlob();
+  }
+
+  /**
+   * 获取案件的债权表文档
+   */
+  private async getRegisterDocument(
+    caseId: string | RecordId
+  ): Promise<{ id: RecordId | string; version: number } | null> {
+    const query = `
+      SELECT id, version
+      FROM document
+      WHERE case_id = $case_id AND document_type = $document_type
+      LIMIT 1
+    `;
+    const [document] = await queryWithAuth<{ id: RecordId | string; version: number }[]>(this.client, query, {
+      case_id: caseId,
+      document_type: CLAIM_REGISTER_DOCUMENT_TYPE
+    });
+    return document || null;
+  }
+
+  private toEntry(claim: RawRegisterClaim): ClaimRegisterEntry {
+    const statusName = claim.review_status_name || '';
+    const outcome = OUTCOME_BY_STATUS[statusName] ?? ClaimRegisterOutcome.PENDING;
+    const asserted = claim.asserted_claim_details;
+    const approved = claim.approved_claim_details;
+
+    // 不予确认的债权认定金额为零
+    let approvedAmounts: ClaimRegisterAmounts | null = null;
+    if (outcome === ClaimRegisterOutcome.NOT_CONFIRMED) {
+      approvedAmounts = emptyAmounts();
+    } else if (outcome !== ClaimRegisterOutcome.PENDING && approved) {
+      approvedAmounts = {
+        principal: Number(approved.principal) || 0,
+        interest: Number(approved.interest) || 0,
+        other_amount: Number(approved.other_amount) || 0,
+        total: Number(approved.total_approved_amount) || 0
+      };
+    }
+
+    return {
+      claim_id: String(claim.id),
+      claim_number: claim.claim_number,
+      creditor_name: claim.creditor_name || '',
+      creditor_legal_id: claim.creditor_legal_id || '',
+      creditor_type: claim.creditor_type,
+      // 认定性质优先，未认定时使用申报性质
+      nature: (outcome !== ClaimRegisterOutcome.PENDING && approved?.nature) || asserted.nature,
+      asserted: {
+        principal: Number(asserted.principal) || 0,
+        interest: Number(asserted.interest) || 0,
+        other_amount: Number(asserted.other_amount) || 0,
+        total: Number(asserted.total_asserted_amount) || 0
+      },
+      approved: approvedAmounts,
+      review_status: statusName,
+      outcome,
+      review_comments: claim.review_comments
+    };
+  }
+
+  private getTitle(register: ClaimRegister, versionNumber?: number): string {
+    const base = `${register.case_name}债权表`;
+    return versionNumber ? `${base}（第${versionNumber}版）` : base;
+  }
+}
+
+export default ClaimRegisterService;
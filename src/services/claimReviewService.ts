@@ -0,0 +1,406 @@
+/**
+ * 债权审核服务
+ * 提供审核页面所需的债权上下文、按合同计息条款重算利息（截止于案件受理日）、
+ * 申报与认定金额差异计算，以及带结构化核减理由的审核提交。
+ * 核减理由、金额差异和利息重算随 claim_version_history 保存，供审核通知书引用。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { calculateInterest } from '@/src/utils/interestCalculator';
+import ClaimOperationService from './claimOperationService';
+import ClaimVersionService from './claimVersionService';
+import {
+  OperationType,
+  VersionType,
+  TransitionType
+} from '@/src/types/claimTracking';
+import type { ClaimOperationLog } from '@/src/types/claimTracking';
+import type { BenchmarkInterestRate } from '@/src/types/pdfParser';
+import type {
+  ClaimAmountComponent,
+  ClaimInterestRecalculation,
+  ClaimInterestTerms,
+  ClaimReductionReason,
+  ClaimReductionReasonCode,
+  ClaimReviewAmounts,
+  ClaimReviewContext,
+  ClaimReviewDecision,
+  ClaimReviewVarianceRow,
+  SubmitClaimReviewParams
+} from '@/src/types/claimReview';
+import { StringRecordId } from 'surrealdb';
+import type { RecordId } from 'surrealdb';
+
+export const CLAIM_REDUCTION_REASON_LABELS: Record<ClaimReductionReasonCode, string> = {
+  over_limit_interest: '利息超过法定上限',
+  unsupported_penalty: '违约金/罚息缺乏依据',
+  time_barred: '超过诉讼时效',
+  post_acceptance_interest: '破产申请受理后的利息',
+  insufficient_evidence: '证据不足',
+  paid_or_offset: '已清偿或抵销',
+  duplicate_claim: '重复申报',
+  calculation_error: '计算错误',
+  other: '其他'
+};
+
+export const CLAIM_AMOUNT_COMPONENT_LABELS: Record<ClaimAmountComponent, string> = {
+  principal: '本金',
+  interest: '利息',
+  other: '其他费用'
+};
+
+// 审核结论对应的债权状态（与 ClaimService 的状态映射保持一致）
+const DECISION_STATUS: Record<ClaimReviewDecision, string> = {
+  '审核通过': '审核通过',
+  '部分通过': '部分通过',
+  '已驳回': '已驳回',
+  '要求补充材料': '需要补充'
+};
+
+const DECISION_OPERATION: Record<ClaimReviewDecision, OperationType> = {
+  '审核通过': OperationType.APPROVE,
+  '部分通过': OperationType.APPROVE,
+  '已驳回': OperationType.REJECT,
+  '要求补充材料': OperationType.SUPPLEMENT_REQUEST
+};
+
+const DECISION_VERSION: Record<ClaimReviewDecision, VersionType> = {
+  '审核通过': VersionType.APPROVAL,
+  '部分通过': VersionType.APPROVAL,
+  '已驳回': VersionType.REJECTION,
+  '要求补充材料': VersionType.REVIEW_UPDATE
+};
+
+const REVIEW_CONFLICT_MESSAGE = '债权已被修改，请刷新后重新审核';
+
+function roundToCent(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * 解析日期字符串的日期部分为本地日期
+ */
+function toLocalDate(value: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(value);
+}
+
+function toDateString(value: unknown): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * 按合同计息条款重算利息，计息截止于案件受理日（未设置受理日时截止于计算日）
+ */
+export function recalculateClaimInterest(
+  principal: number,
+  terms: ClaimInterestTerms,
+  acceptanceDate?: string,
+  benchmarkRates?: BenchmarkInterestRate[],
+  calculationDate: Date = new Date()
+): ClaimInterestRecalculation {
+  const result = calculateInterest({
+    principal,
+    interestRate: terms.interest_rate ?? 0,
+    rateType: terms.rate_type ?? 'annual',
+    startDate: toLocalDate(terms.interest_start_date),
+    endDate: calculationDate,
+    compoundFrequency: terms.compound_frequency,
+    dayCountConvention: terms.day_count_convention,
+    benchmarkRateType: terms.rate_source === 'fixed' ? undefined : terms.rate_source,
+    rateMultiplier: terms.rate_multiplier,
+    benchmarkRates,
+    acceptanceDate: acceptanceDate ? toLocalDate(acceptanceDate) : undefined
+  });
+
+  return {
+    terms,
+    acceptance_date: acceptanceDate,
+    accrual_end_date: result.accrualEndDate ? toDateString(result.accrualEndDate)! : calculationDate.toISOString(),
+    interest: result.interest,
+    formula: result.formula
+  };
+}
+
+/**
+ * 计算申报与认定金额的差异
+ */
+export function computeReviewVariance(
+  asserted: ClaimReviewAmounts,
+  approved: ClaimReviewAmounts
+): ClaimReviewVarianceRow[] {
+  const components: ClaimAmountComponent[] = ['principal', 'interest', 'other'];
+  const rows: ClaimReviewVarianceRow[] = components.map(component => ({
+    component,
+    label: CLAIM_AMOUNT_COMPONENT_LABELS[component],
+    asserted: asserted[component],
+    approved: approved[component],
+    delta: roundToCent(approved[component] - asserted[component])
+  }));
+  const assertedTotal = roundToCent(components.reduce((sum, component) => sum + asserted[component], 0));
+  const approvedTotal = roundToCent(components.reduce((sum, component) => sum + approved[component], 0));
+
+  return [
+    ...rows,
+    {
+      component: 'total',
+      label: '合计',
+      asserted: assertedTotal,
+      approved: approvedTotal,
+      delta: roundToCent(approvedTotal - assertedTotal)
+    }
+  ];
+}
+
+/**
+ * 返回有核减但未选择核减理由的金额组成部分名称
+ */
+export function getComponentsMissingReasons(
+  variance: ClaimReviewVarianceRow[],
+  selections: Partial<Record<ClaimAmountComponent, ClaimReductionReasonCode[]>>
+): string[] {
+  return variance
+    .filter(row => row.component !== 'total' && row.delta < 0)
+    .filter(row => !selections[row.component as ClaimAmountComponent]?.length)
+    .map(row => row.label);
+}
+
+/**
+ * 根据各组成部分选择的理由生成结构化核减理由
+ */
+export function buildReductionReasons(
+  variance: ClaimReviewVarianceRow[],
+  selections: Partial<Record<ClaimAmountComponent, ClaimReductionReasonCode[]>>
+): ClaimReductionReason[] {
+  return variance
+    .filter(row => row.component !== 'total' && row.delta < 0)
+    .flatMap(row => {
+      const component = row.component as ClaimAmountComponent;
+      return (selections[component] || []).map(code => ({
+        code,
+        label: CLAIM_REDUCTION_REASON_LABELS[code],
+        component,
+        reduced_amount: -row.delta
+      }));
+    });
+}
+
+export class ClaimReviewService {
+  private client: any;
+  private operationService: ClaimOperationService;
+  private versionService: ClaimVersionService;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+    this.operationService = new ClaimOperationService(surrealClient);
+    this.versionService = new ClaimVersionService(surrealClient);
+  }
+
+  /**
+   * 获取审核页面所需的债权、债权人及案件受理日期
+   */
+  async getReviewContext(claimId: string): Promise<ClaimReviewContext | null> {
+    try {
+      const query = `
+        SELECT
+          id,
+          claim_number,
+          case_id,
+          status,
+          submission_time,
+          review_comments,
+          review_time,
+          reviewer_id.name AS reviewer_name,
+          case_id.acceptance_date AS case_acceptance_date,
+          creditor_id.{ name, type, legal_id, contact_person_name, contact_phone, contact_email } AS creditor,
+          asserted_claim_details,
+          asserted_claim_details.attachment_doc_id.content AS attachment_content,
+          approved_claim_details
+        FROM type::record($claim_id)
+      `;
+      const [raw] = await queryWithAuth<(Omit<ClaimReviewContext, 'id' | 'case_id'> & {
+        id: RecordId | string;
+        case_id: RecordId | string;
+        attachment_content?: unknown[];
+      })[]>(this.client, query, {
+        claim_id: claimId.includes(':') ? claimId : `claim:${claimId}`
+      });
+      if (!raw) {
+        return null;
+      }
+
+      return {
+        ...raw,
+        id: String(raw.id),
+        case_id: String(raw.case_id),
+        submission_time: toDateString(raw.submission_time),
+        review_time: toDateString(raw.review_time),
+        case_acceptance_date: toDateString(raw.case_acceptance_date),
+        asserted_claim_details: {
+          ...raw.asserted_claim_details,
+          attachment_content: raw.attachment_content
+        }
+      };
+    } catch (error) {
+      console.error('获取债权审核信息失败:', error);
+      throw new Error('获取债权审核信息失败');
+    }
+  }
+
+  /**
+   * 提交审核结论
+   * 更新认定金额与状态，记录操作日志、状态流转，并创建带核减理由的版本快照
+   */
+  async submitReview(params: SubmitClaimReviewParams): Promise<void> {
+    try {
+      const claimId = typeof params.claim_id === 'string' && !params.claim_id.includes(':')
+        ? `claim:${params.claim_id}`
+        : params.claim_id;
+      const status = DECISION_STATUS[params.decision];
+
+      // 审核前的债权数据和修订标记：last_operation_time 每次写入时更新，以字符串比较，避免客户端日期精度丢失
+      const current = await queryWithAuth<{
+        claim?: Record<string, unknown>;
+        revision?: string;
+        review_status_id?: RecordId | string;
+        reviewer_id: RecordId | string;
+      }>(this.client, `
+        RETURN {
+          claim: (SELECT * FROM ONLY type::record($claim_id)),
+          revision: <option<string>> type::record($claim_id).last_operation_time,
+          review_status_id: (SELECT VALUE id FROM claim_review_status_definition WHERE name = $name AND is_active = true LIMIT 1)[0],
+          reviewer_id: $auth.id
+        };
+      `, { claim_id: claimId, name: status });
+      const beforeClaim = current?.claim;
+      if (!beforeClaim) {
+        throw new Error('债权不存在');
+      }
+
+      const approved = params.approved;
+      const reviewTime = new Date();
+      // 审核后的债权数据：版本快照和操作日志的 after_data 在写入前生成，校验和随快照一起写入
+      const reviewFields: Record<string, unknown> = {
+        approved_claim_details: {
+          nature: approved.nature,
+          currency: approved.currency,
+          principal: approved.principal,
+          interest: approved.interest,
+          other_amount: approved.other,
+          total_approved_amount: roundToCent(approved.principal + approved.interest + approved.other)
+        },
+        status,
+        review_status_id: current.review_status_id,
+        review_comments: params.review_opinion,
+        reviewer_id: current.reviewer_id,
+        review_time: reviewTime,
+        operation_count: (Number(beforeClaim.operation_count) || 0) + 1
+      };
+      const afterClaim = { ...beforeClaim, ...reviewFields, last_operation_time: reviewTime };
+      const changedFields = Object.keys(reviewFields)
+        .filter(key => JSON.stringify(beforeClaim[key]) !== JSON.stringify(reviewFields[key]));
+      const operationType = DECISION_OPERATION[params.decision];
+
+      // 债权更新、操作日志、版本快照和状态流转在同一事务中写入，任一失败整体回滚；
+      // 债权在读取后被他人修改时拒绝提交，避免快照与实际数据不一致
+      const query = `
+        BEGIN TRANSACTION;
+        RETURN {
+          LET $claim = (UPDATE $claim_id MERGE $review_fields WHERE <string> last_operation_time = $revision)[0];
+          IF $claim = NONE {
+            THROW '${REVIEW_CONFLICT_MESSAGE}';
+          };
+          LET $version_number = (math::max(SELECT VALUE version_number FROM claim_version_history WHERE claim_id = $claim_id) ?? 0) + 1;
+          UPDATE $claim_id SET current_version = $version_number;
+          LET $operation_log = (CREATE ONLY claim_operation_log SET
+            claim_id = $claim_id,
+            operation_type = $operation_type,
+            operation_description = $description,
+            operator_name = $auth.name,
+            operator_role = $auth.role,
+            operation_time = time::now(),
+            user_agent = $user_agent,
+            operation_details = {},
+            before_data = $before_data,
+            after_data = $after_data,
+            changed_fields = $changed_fields,
+            operation_result = 'success',
+            related_documents = [],
+            business_context = $business_context
+          );
+          CREATE claim_version_history SET
+            claim_id = $claim_id,
+            version_number = $version_number,
+            version_type = $version_type,
+            snapshot_data = $after_data,
+            change_summary = $change_summary,
+            change_reason = $review_comments,
+            created_at = time::now(),
+            related_operation_log_id = $operation_log.id,
+            checksum = $checksum,
+            reduction_reasons = $reduction_reasons,
+            review_variance = $review_variance,
+            interest_recalculation = $interest_recalculation;
+          IF $to_status != NONE {
+            LET $entered_at = (SELECT VALUE transition_time FROM claim_status_flow WHERE claim_id = $claim_id AND to_status = $from_status ORDER BY transition_time DESC LIMIT 1)[0];
+            CREATE claim_status_flow SET
+              claim_id = $claim_id,
+              from_status = $from_status,
+              to_status = $to_status,
+              transition_type = $transition_type,
+              trigger_reason = $trigger_reason,
+              transition_time = time::now(),
+              operator_role = $auth.role,
+              review_comments = $review_comments,
+              duration_in_previous_status = IF $entered_at != NONE { time::now() - $entered_at },
+              related_operation_log_id = $operation_log.id;
+          };
+          $operation_log
+        };
+        COMMIT TRANSACTION;
+      `;
+      const operationLog = await queryWithAuth<ClaimOperationLog>(this.client, query, {
+        claim_id: new StringRecordId(String(claimId)),
+        review_fields: reviewFields,
+        revision: current.revision,
+        operation_type: operationType,
+        description: this.operationService.formatOperationDescription(operationType, {
+          claim_number: beforeClaim.claim_number
+        }),
+        user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+        before_data: beforeClaim,
+        after_data: afterClaim,
+        changed_fields: changedFields,
+        business_context: {
+          decision: params.decision,
+          reduction_reasons: params.reduction_reasons
+        },
+        // 审核版本快照保存核减理由，供审核通知书引用
+        version_type: DECISION_VERSION[params.decision],
+        change_summary: `审核结论：${params.decision}`,
+        review_comments: params.review_opinion,
+        checksum: await this.versionService.generateChecksum(afterClaim),
+        reduction_reasons: params.reduction_reasons,
+        review_variance: computeReviewVariance(params.asserted, approved),
+        interest_recalculation: params.interest_recalculation,
+        from_status: beforeClaim.review_status_id,
+        to_status: current.review_status_id,
+        transition_type: TransitionType.ADMIN_ACTION,
+        trigger_reason: `管理人审核：${params.decision}`
+      });
+
+      if (operationLog) {
+        await this.operationService.sealOperationLog(operationLog);
+      }
+    } catch (error) {
+      console.error('提交债权审核失败:', error);
+      const message = error instanceof Error
+        ? ['债权不存在', REVIEW_CONFLICT_MESSAGE].find(known => error.message.includes(known))
+        : undefined;
+      throw new Error(message ?? '提交债权审核失败');
+    }
+  }
+}
+
+export default ClaimReviewService;
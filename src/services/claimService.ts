@@ -5,12 +5,17 @@ import ClaimOperationService from './claimOperationService';
 import ClaimVersionService from './claimVersionService';
 import ClaimStatusFlowService from './claimStatusFlowService';
 import ClaimAuditService from './claimAuditService';
+import DocumentVersionService from './documentVersionService';
+import DocumentCollaborationService from './documentCollaborationService';
+import Delta from 'quill-delta';
 import {
   OperationType,
   VersionType,
   TransitionType,
   AccessType
 } from '@/src/types/claimTracking';
+import type { ClaimInterestTerms } from '@/src/types/claimReview';
+import type { ClaimSourceEvidence } from '@/src/types/claimEvidence';
 
 // 数据库原始数据接口
 export interface RawClaimData {
@@ -37,6 +42,8 @@ export interface RawClaimData {
     currency: string;
     brief_description?: string;
     attachment_doc_id?: RecordId | string;
+    interest_terms?: ClaimInterestTerms;
+    source_evidence?: ClaimSourceEvidence;
   };
   // 认定债权详情
   approved_claim_details?: {
@@ -66,6 +73,8 @@ export interface ClaimData {
     brief_description?: string;
     attachment_doc_id?: string;
     attachment_content?: QuillDelta;
+    interest_terms?: ClaimInterestTerms; // 合同计息条款
+    source_evidence?: ClaimSourceEvidence; // 由解析文书预填时各取值的来源
   };
   approved_claim_details?: {
     nature: string;
@@ -74,7 +83,7 @@ export interface ClaimData {
     other_amount: number;
     total_approved_amount: number;
   };
-  review_status: 'draft' | 'submitted' | 'under_review' | 'approved' | 'rejected' | 'requires_supplement';
+  review_status: 'draft' | 'submitted' | 'under_review' | 'approved' | 'rejected' | 'requires_supplement' | 'under_objection' | 'in_litigation';
   review_opinion?: string;
   auditor?: string;
   audit_time?: string;
@@ -109,6 +118,7 @@ class ClaimService {
   private versionService: ClaimVersionService;
   private statusFlowService: ClaimStatusFlowService;
   private auditService: ClaimAuditService;
+  private documentVersionService: DocumentVersionService;
 
    
   constructor(surrealClient: any) {
@@ -117,6 +127,7 @@ class ClaimService {
     this.versionService = new ClaimVersionService(surrealClient);
     this.statusFlowService = new ClaimStatusFlowService(surrealClient);
     this.auditService = new ClaimAuditService(surrealClient);
+    this.documentVersionService = new DocumentVersionService(surrealClient);
   }
 
   /**
@@ -137,6 +148,8 @@ class ClaimService {
         currency: rawClaim.asserted_claim_details.currency,
         brief_description: rawClaim.asserted_claim_details.brief_description,
         attachment_doc_id: rawClaim.asserted_claim_details.attachment_doc_id ? String(rawClaim.asserted_claim_details.attachment_doc_id) : undefined,
+        interest_terms: rawClaim.asserted_claim_details.interest_terms,
+        source_evidence: rawClaim.asserted_claim_details.source_evidence,
       },
       approved_claim_details: rawClaim.approved_claim_details ? {
         nature: rawClaim.approved_claim_details.nature,
@@ -167,6 +180,8 @@ class ClaimService {
       '已驳回': 'rejected',
       '需要补充': 'requires_supplement',
       '部分通过': 'approved',
+      '异议中': 'under_objection',
+      '诉讼中': 'in_litigation',
     };
     return statusMap[dbStatus] || 'draft';
   }
@@ -472,6 +487,11 @@ class ClaimService {
         throw new Error('请完善债权基本信息');
       }
 
+      // 锁定提交时的附件材料版本，提交后的证据材料不可修改
+      if (beforeClaim.asserted_claim_details.attachment_doc_id) {
+        await this.lockSubmittedAttachment(beforeClaim, attachmentContent);
+      }
+
       // 获取已提交状态ID
       const statusQuery = `
         SELECT id FROM claim_review_status_definition 
@@ -540,6 +560,25 @@ class ClaimService {
     }
   }
 
+  /**
+   * 以附件文档当前内容生成命名版本，并锁定该文档全部命名版本
+   */
+  private async lockSubmittedAttachment(claim: ClaimData, attachmentContent?: QuillDelta): Promise<void> {
+    const documentId = claim.asserted_claim_details.attachment_doc_id!;
+    // 协作编辑的文档以快照和增量合并后的内容为准
+    const { content: collaborativeContent } = await new DocumentCollaborationService(this.client).loadDocument(documentId);
+    const content = collaborativeContent
+      ?? new Delta((attachmentContent ?? claim.asserted_claim_details.attachment_content)?.ops ?? []);
+
+    await this.documentVersionService.createVersion({
+      document_id: documentId,
+      content,
+      version_name: `提交版本（${claim.claim_number || claim.id}）`,
+      change_summary: '债权申报提交时的附件材料'
+    });
+    await this.documentVersionService.lockNamedVersions(documentId, '债权申报已提交');
+  }
+
   /**
    * 撤回债权申报
    */
@@ -685,6 +724,8 @@ class ClaimService {
       approved: '审核通过',
       rejected: '已驳回',
       requires_supplement: '需要补充',
+      under_objection: '异议中',
+      in_litigation: '债权确认之诉中',
     };
     return statusMap[status] || '未知状态';
   }
@@ -700,6 +741,8 @@ class ClaimService {
       approved: 'success' as const,
       rejected: 'error' as const,
       requires_supplement: 'secondary' as const,
+      under_objection: 'warning' as const,
+      in_litigation: 'primary' as const,
     };
     return colorMap[status] || 'default';
   }
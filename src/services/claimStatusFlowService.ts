@@ -628,7 +628,10 @@ export class ClaimStatusFlowService {
           required_role: "claim_reviewer",
         },
       ],
-      已驳回: [{ status: "草稿", description: "重新编辑" }],
+      已驳回: [
+        { status: "草稿", description: "重新编辑" },
+        { status: "异议中", description: "对审查结果提出异议" },
+      ],
       需要补充: [{ status: "已提交", description: "补充材料后重新提交" }],
       审核通过: [
         {
@@ -636,6 +639,30 @@ export class ClaimStatusFlowService {
           description: "要求补充材料",
           required_role: "claim_reviewer",
         },
+        { status: "异议中", description: "对审查结果提出异议" },
+      ],
+      部分通过: [{ status: "异议中", description: "对审查结果提出异议" }],
+      异议中: [
+        {
+          status: "审核通过",
+          description: "异议复核后确认",
+          required_role: "claim_reviewer",
+        },
+        {
+          status: "部分通过",
+          description: "异议复核后部分确认",
+          required_role: "claim_reviewer",
+        },
+        {
+          status: "已驳回",
+          description: "异议复核后不予确认",
+          required_role: "claim_reviewer",
+        },
+        {
+          status: "诉讼中",
+          description: "债权人提起债权确认之诉",
+          required_role: "claim_reviewer",
+        },
       ],
     };
 
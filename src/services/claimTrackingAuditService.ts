@@ -8,6 +8,20 @@ import { RecordId } from "surrealdb";
 import type { SurrealWorkerAPI } from "../contexts/SurrealProvider";
 import { queryWithAuth } from "@/src/utils/surrealAuth";
 import { dataMaskingService } from "./dataMaskingService";
+import {
+  AnomalyRuleService,
+  evaluateRule,
+  matchesRule,
+  normalizeRule,
+  type AnomalyAction,
+  type AnomalyRule,
+} from "./anomalyRuleService";
+import {
+  AuditChainService,
+  buildAnchorStatement,
+  type AuditBundle,
+  type IntegrityReport,
+} from "./auditChainService";
 import {
   type TrackingPermissionType,
   type PermissionContext,
@@ -60,18 +74,8 @@ export interface AuditEvent {
   expires_at?: Date; // 日志过期时间
 }
 
-// 异常检测规则
-export interface AnomalyRule {
-  id: string;
-  name: string;
-  description: string;
-  rule_type: "frequency" | "pattern" | "threshold" | "geo" | "time";
-  conditions: Record<string, any>;
-  risk_level: RiskLevel;
-  enabled: boolean;
-  alert_threshold: number;
-  time_window: number; // 检测时间窗口（分钟）
-}
+// 异常检测规则（存储在 anomaly_rule 表中）
+export type { AnomalyRule } from "./anomalyRuleService";
 
 // 异常检测结果
 export interface AnomalyDetectionResult {
@@ -85,6 +89,7 @@ export interface AnomalyDetectionResult {
   description: string;
   recommended_action: string;
   evidence: AuditEvent[];
+  actions?: AnomalyAction[]; // 规则配置的处置
 }
 
 // 审计统计
@@ -105,7 +110,10 @@ export interface AuditStatistics {
 class ClaimTrackingAuditService {
   private clientGetter: (() => Promise<SurrealWorkerAPI>) | null = null;
   private anomalyRules: AnomalyRule[] = [];
+  private ruleCache: { rules: AnomalyRule[]; loadedAt: number } | null = null;
   private readonly AUDIT_RETENTION_DAYS = 90; // 审计日志保留天数
+  private readonly RULE_CACHE_TTL = 60 * 1000; // 规则缓存时间
+  private readonly DETECTION_HISTORY_LIMIT = 1000; // 检测时读取的历史事件上限
 
   constructor() {
     this.initializeAnomalyRules();
@@ -136,7 +144,8 @@ class ClaimTrackingAuditService {
   }
 
   /**
-   * 初始化异常检测规则
+   * 初始化默认异常检测规则
+   * 数据库中没有规则或规则加载失败时使用
    */
   private initializeAnomalyRules(): void {
     this.anomalyRules = [
@@ -145,82 +154,120 @@ class ClaimTrackingAuditService {
         name: "频繁登录失败",
         description: "短时间内多次登录失败",
         rule_type: "frequency",
-        conditions: {
-          event_type: AuditEventType.LOGIN,
-          result: "failure",
-          max_count: 5,
-          time_window: 15,
-        },
-        risk_level: RiskLevel.HIGH,
-        enabled: true,
-        alert_threshold: 5,
+        event_types: [AuditEventType.LOGIN],
+        filters: { result: "failure" },
+        threshold: 5,
         time_window: 15,
+        role_baselines: {},
+        conditions: {},
+        risk_level: RiskLevel.HIGH,
+        actions: ["notify"],
+        enforcement_minutes: 60,
+        status: "active",
       },
       {
         id: "bulk_data_access",
         name: "批量数据访问",
         description: "短时间内访问大量债权数据",
         rule_type: "frequency",
-        conditions: {
-          event_type: AuditEventType.ACCESS,
-          resource_type: "claim",
-          max_count: 100,
-          time_window: 10,
-        },
-        risk_level: RiskLevel.MEDIUM,
-        enabled: true,
-        alert_threshold: 100,
+        event_types: [AuditEventType.ACCESS],
+        filters: { resource_type: "claim" },
+        threshold: 100,
         time_window: 10,
+        role_baselines: {},
+        conditions: {},
+        risk_level: RiskLevel.MEDIUM,
+        actions: [],
+        enforcement_minutes: 60,
+        status: "active",
       },
       {
         id: "off_hours_access",
         name: "非工作时间访问",
         description: "在非工作时间访问敏感数据",
         rule_type: "time",
+        event_types: [AuditEventType.SENSITIVE_ACCESS],
+        filters: {},
+        threshold: 1,
+        time_window: 60,
+        role_baselines: {},
         conditions: {
-          event_type: AuditEventType.SENSITIVE_ACCESS,
           work_hours_start: 9,
           work_hours_end: 18,
           work_days: [1, 2, 3, 4, 5], // 周一到周五
         },
         risk_level: RiskLevel.MEDIUM,
-        enabled: true,
-        alert_threshold: 1,
-        time_window: 60,
+        actions: [],
+        enforcement_minutes: 60,
+        status: "active",
       },
       {
         id: "suspicious_ip_pattern",
         name: "可疑IP模式",
         description: "来自多个不同IP的快速访问",
         rule_type: "pattern",
-        conditions: {
-          unique_ips_threshold: 5,
-          time_window: 30,
-          min_events_per_ip: 3,
-        },
-        risk_level: RiskLevel.HIGH,
-        enabled: true,
-        alert_threshold: 5,
+        event_types: [],
+        filters: {},
+        threshold: 5,
         time_window: 30,
+        role_baselines: {},
+        conditions: { min_events_per_ip: 3 },
+        risk_level: RiskLevel.HIGH,
+        actions: ["notify"],
+        enforcement_minutes: 60,
+        status: "active",
       },
       {
         id: "permission_escalation",
         name: "权限提升尝试",
         description: "尝试访问超出权限的资源",
         rule_type: "frequency",
-        conditions: {
-          event_type: AuditEventType.PERMISSION_DENIED,
-          max_count: 10,
-          time_window: 5,
-        },
-        risk_level: RiskLevel.CRITICAL,
-        enabled: true,
-        alert_threshold: 10,
+        event_types: [AuditEventType.PERMISSION_DENIED],
+        filters: {},
+        threshold: 10,
         time_window: 5,
+        role_baselines: {},
+        conditions: {},
+        risk_level: RiskLevel.CRITICAL,
+        actions: ["notify", "require_reauth"],
+        enforcement_minutes: 60,
+        status: "active",
       },
     ];
   }
 
+  /**
+   * 获取异常检测规则，缓存一分钟
+   */
+  private async getAnomalyRules(client: SurrealWorkerAPI): Promise<AnomalyRule[]> {
+    if (this.ruleCache && Date.now() - this.ruleCache.loadedAt < this.RULE_CACHE_TTL) {
+      return this.ruleCache.rules;
+    }
+
+    try {
+      const records = await queryWithAuth<Record<string, any>[]>(
+        client,
+        "SELECT * FROM anomaly_rule",
+      );
+      const rules =
+        Array.isArray(records) && records.length > 0
+          ? records.map(normalizeRule)
+          : this.anomalyRules;
+      this.ruleCache = { rules, loadedAt: Date.now() };
+      return rules;
+    } catch (error) {
+      console.error("Failed to load anomaly rules, using defaults:", error);
+      return this.anomalyRules;
+    }
+  }
+
+  /**
+   * 规则被修改后清除缓存
+   */
+  invalidateAnomalyRules(): void {
+    this.ruleCache = null;
+  }
+
   /**
    * 记录审计事件
    */
@@ -242,12 +289,26 @@ class ClaimTrackingAuditService {
       };
 
       // 插入审计事件
-      await queryWithAuth(client, `CREATE claim_audit_event CONTENT $event`, {
-        event: auditEvent,
-      });
+      const [created] = await queryWithAuth<AuditEvent[]>(
+        client,
+        `CREATE claim_audit_event CONTENT $event`,
+        { event: auditEvent },
+      );
+
+      // 加入所属债权、案件的哈希链，两者都没有时加入全局链
+      if (created) {
+        const scopes = [created.claim_id, created.case_id]
+          .filter((scope) => scope != null)
+          .map(String);
+        await new AuditChainService(client).seal(
+          "claim_audit_event",
+          created as unknown as Record<string, unknown>,
+          scopes.length > 0 ? scopes : ["global"],
+        );
+      }
 
       // 异步执行异常检测（不影响主流程）
-      this.performAnomalyDetection(auditEvent).catch((error) => {
+      this.performAnomalyDetection(created ?? auditEvent).catch((error) => {
         console.error("Anomaly detection failed:", error);
       });
     } catch (error) {
@@ -342,301 +403,49 @@ class ClaimTrackingAuditService {
 
   /**
    * 执行异常检测
+   * 一次读取用户在最长时间窗口内的历史事件，再逐条规则判定
    */
   private async performAnomalyDetection(event: AuditEvent): Promise<void> {
     const client = await this.getClient();
-    const detectionResults: AnomalyDetectionResult[] = [];
+    const rules = (await this.getAnomalyRules(client)).filter(
+      (rule) => rule.status === "active" && matchesRule(rule, event),
+    );
+    if (rules.length === 0) return;
+
+    const eventTime = new Date(event.created_at).getTime();
+    const longestWindow = Math.max(...rules.map((rule) => rule.time_window));
+    const history = await queryWithAuth<AuditEvent[]>(
+      client,
+      `SELECT * FROM claim_audit_event
+        WHERE user_id = $userId AND created_at >= $since
+        ORDER BY created_at DESC LIMIT $limit`,
+      {
+        userId: event.user_id,
+        since: new Date(eventTime - longestWindow * 60 * 1000),
+        limit: this.DETECTION_HISTORY_LIMIT,
+      },
+    );
 
-    for (const rule of this.anomalyRules) {
-      if (!rule.enabled) continue;
+    const ruleService = new AnomalyRuleService(client);
+    const roles = rules.some((rule) => Object.keys(rule.role_baselines).length > 0)
+      ? (await ruleService.loadUserRoles([event.user_id]))[String(event.user_id)] || []
+      : [];
 
+    for (const rule of rules) {
       try {
-        const result = await this.checkAnomalyRule(client, rule, event);
+        const result = evaluateRule(
+          rule,
+          event,
+          Array.isArray(history) ? history : [],
+          roles,
+        );
         if (result) {
-          detectionResults.push(result);
+          await this.handleAnomalyDetection(client, result, rule);
         }
       } catch (error) {
         console.error(`Anomaly rule ${rule.id} check failed:`, error);
       }
     }
-
-    // 处理检测到的异常
-    for (const result of detectionResults) {
-      await this.handleAnomalyDetection(client, result);
-    }
-  }
-
-  /**
-   * 检查异常检测规则
-   */
-  private async checkAnomalyRule(
-    client: SurrealWorkerAPI,
-    rule: AnomalyRule,
-    event: AuditEvent,
-  ): Promise<AnomalyDetectionResult | null> {
-    const timeWindow = new Date(Date.now() - rule.time_window * 60 * 1000);
-
-    switch (rule.rule_type) {
-      case "frequency":
-        return await this.checkFrequencyRule(client, rule, event, timeWindow);
-
-      case "pattern":
-        return await this.checkPatternRule(client, rule, event, timeWindow);
-
-      case "time":
-        return await this.checkTimeRule(client, rule, event);
-
-      case "threshold":
-        return await this.checkThresholdRule(client, rule, event, timeWindow);
-
-      default:
-        return null;
-    }
-  }
-
-  /**
-   * 检查频率规则
-   */
-  private async checkFrequencyRule(
-    client: SurrealWorkerAPI,
-    rule: AnomalyRule,
-    event: AuditEvent,
-    timeWindow: Date,
-  ): Promise<AnomalyDetectionResult | null> {
-    try {
-      const conditions = rule.conditions;
-      let query = `
-        SELECT count() AS event_count FROM claim_audit_event
-        WHERE user_id = $userId
-          AND created_at >= $timeWindow
-      `;
-
-      const params: any = {
-        userId: event.user_id,
-        timeWindow,
-      };
-
-      if (conditions.event_type) {
-        query += ` AND event_type = $eventType`;
-        params.eventType = conditions.event_type;
-      }
-
-      if (conditions.result) {
-        query += ` AND result = $result`;
-        params.result = conditions.result;
-      }
-
-      if (conditions.resource_type) {
-        query += ` AND resource_type = $resourceType`;
-        params.resourceType = conditions.resource_type;
-      }
-
-      const results = await queryWithAuth<Array<{ event_count: number }>>(
-        client,
-        query,
-        params,
-      );
-      const countResult =
-        Array.isArray(results) && results.length > 0 ? results[0] : null;
-      const eventCount = countResult?.event_count || 0;
-
-      if (eventCount >= rule.alert_threshold) {
-        // 获取相关证据事件
-        const evidenceQuery =
-          query.replace("SELECT count() AS event_count", "SELECT *") +
-          " ORDER BY created_at DESC LIMIT 20";
-        const evidenceResults = await queryWithAuth<AuditEvent[]>(
-          client,
-          evidenceQuery,
-          params,
-        );
-        const evidence = Array.isArray(evidenceResults) ? evidenceResults : [];
-
-        return {
-          rule_id: rule.id,
-          rule_name: rule.name,
-          risk_level: rule.risk_level,
-          score: Math.min(100, (eventCount / rule.alert_threshold) * 50),
-          triggered_at: new Date(),
-          user_id: event.user_id,
-          event_count: eventCount,
-          description: `检测到用户在${rule.time_window}分钟内${conditions.event_type || "执行操作"}${eventCount}次，超出阈值${rule.alert_threshold}`,
-          recommended_action: this.getRecommendedAction(rule.risk_level),
-          evidence,
-        };
-      }
-
-      return null;
-    } catch (error) {
-      console.error(`Error in checkFrequencyRule for rule ${rule.id}:`, error);
-      return null;
-    }
-  }
-
-  /**
-   * 检查模式规则
-   */
-  private async checkPatternRule(
-    client: SurrealWorkerAPI,
-    rule: AnomalyRule,
-    event: AuditEvent,
-    timeWindow: Date,
-  ): Promise<AnomalyDetectionResult | null> {
-    try {
-      const conditions = rule.conditions;
-
-      if (rule.id === "suspicious_ip_pattern") {
-        const query = `
-          SELECT ip_address, count() AS event_count
-          FROM claim_audit_event
-          WHERE user_id = $userId
-            AND created_at >= $timeWindow
-          GROUP BY ip_address
-        `;
-
-        const results = await queryWithAuth<
-          Array<{ ip_address: string; event_count: number }>
-        >(client, query, { userId: event.user_id, timeWindow });
-
-        const ipResults = Array.isArray(results) ? results : [];
-        const uniqueIps = ipResults.length;
-        const validIps = ipResults.filter(
-          (r) => r.event_count >= (conditions.min_events_per_ip || 1),
-        ).length;
-
-        if (
-          uniqueIps >= (conditions.unique_ips_threshold || 5) &&
-          validIps >= 3
-        ) {
-          return {
-            rule_id: rule.id,
-            rule_name: rule.name,
-            risk_level: rule.risk_level,
-            score: Math.min(
-              100,
-              (uniqueIps / (conditions.unique_ips_threshold || 5)) * 60,
-            ),
-            triggered_at: new Date(),
-            user_id: event.user_id,
-            event_count: uniqueIps,
-            description: `检测到用户在${rule.time_window}分钟内从${uniqueIps}个不同IP地址访问系统`,
-            recommended_action: this.getRecommendedAction(rule.risk_level),
-            evidence: [],
-          };
-        }
-      }
-
-      return null;
-    } catch (error) {
-      console.error(`Error in checkPatternRule for rule ${rule.id}:`, error);
-      return null;
-    }
-  }
-
-  /**
-   * 检查时间规则
-   */
-  private async checkTimeRule(
-    _client: SurrealWorkerAPI,
-    rule: AnomalyRule,
-    event: AuditEvent,
-  ): Promise<AnomalyDetectionResult | null> {
-    try {
-      // 时间规则检查不需要查询数据库，主要基于事件时间戳
-      if (
-        rule.id === "off_hours_access" &&
-        event.event_type === AuditEventType.SENSITIVE_ACCESS
-      ) {
-        const hour = new Date(event.created_at).getHours();
-        const isWorkingHours = hour >= 9 && hour <= 18;
-
-        if (!isWorkingHours) {
-          return {
-            rule_id: rule.id,
-            rule_name: rule.name,
-            risk_level: rule.risk_level,
-            score: 40,
-            triggered_at: new Date(),
-            user_id: event.user_id,
-            event_count: 1,
-            description: `检测到用户在非工作时间（${hour}:00）访问敏感数据`,
-            recommended_action: this.getRecommendedAction(rule.risk_level),
-            evidence: [event],
-          };
-        }
-      }
-
-      return null;
-    } catch (error) {
-      console.error(`Error in checkTimeRule for rule ${rule.id}:`, error);
-      return null;
-    }
-  }
-
-  /**
-   * 检查阈值规则
-   */
-  private async checkThresholdRule(
-    client: SurrealWorkerAPI,
-    rule: AnomalyRule,
-    event: AuditEvent,
-    timeWindow: Date,
-  ): Promise<AnomalyDetectionResult | null> {
-    try {
-      const conditions = rule.conditions;
-
-      // 查询指定时间窗口内的事件数量
-      let query = `
-        SELECT count() AS event_count FROM claim_audit_event
-        WHERE user_id = $userId
-          AND created_at >= $timeWindow
-      `;
-
-      const params: any = {
-        userId: event.user_id,
-        timeWindow,
-      };
-
-      // 添加条件过滤
-      if (conditions.resource_type) {
-        query += ` AND resource_type = $resourceType`;
-        params.resourceType = conditions.resource_type;
-      }
-
-      if (conditions.event_type) {
-        query += ` AND event_type = $eventType`;
-        params.eventType = conditions.event_type;
-      }
-
-      const results = await queryWithAuth<Array<{ event_count: number }>>(
-        client,
-        query,
-        params,
-      );
-      const countResult =
-        Array.isArray(results) && results.length > 0 ? results[0] : null;
-      const eventCount = countResult?.event_count || 0;
-
-      if (eventCount >= rule.alert_threshold) {
-        return {
-          rule_id: rule.id,
-          rule_name: rule.name,
-          risk_level: rule.risk_level,
-          score: Math.min(100, (eventCount / rule.alert_threshold) * 70),
-          triggered_at: new Date(),
-          user_id: event.user_id,
-          event_count: eventCount,
-          description: `检测到用户在${rule.time_window}分钟内的操作次数（${eventCount}次）超出阈值（${rule.alert_threshold}次）`,
-          recommended_action: this.getRecommendedAction(rule.risk_level),
-          evidence: [],
-        };
-      }
-
-      return null;
-    } catch (error) {
-      console.error(`Error in checkThresholdRule for rule ${rule.id}:`, error);
-      return null;
-    }
   }
 
   /**
@@ -645,6 +454,7 @@ class ClaimTrackingAuditService {
   private async handleAnomalyDetection(
     client: SurrealWorkerAPI,
     result: AnomalyDetectionResult,
+    rule: AnomalyRule,
   ): Promise<void> {
     try {
       // 记录异常检测结果到数据库
@@ -672,6 +482,9 @@ class ClaimTrackingAuditService {
           // 低风险只记录，不采取行动
           break;
       }
+
+      // 执行规则配置的处置：通知、要求重新认证、锁定导出
+      await new AnomalyRuleService(client).enforce(result, rule);
     } catch (error) {
       console.error("Failed to handle anomaly detection:", error);
     }
@@ -743,25 +556,6 @@ class ClaimTrackingAuditService {
     return RiskLevel.LOW;
   }
 
-  /**
-   * 获取推荐行动
-   */
-  private getRecommendedAction(riskLevel: RiskLevel): string {
-    switch (riskLevel) {
-      case RiskLevel.CRITICAL:
-        return "立即审查用户活动，考虑临时限制账户权限";
-
-      case RiskLevel.HIGH:
-        return "通知安全团队进行详细调查，监控后续活动";
-
-      case RiskLevel.MEDIUM:
-        return "持续监控用户活动，记录相关行为模式";
-
-      default:
-        return "正常监控，定期审查";
-    }
-  }
-
   /**
    * 记录系统错误
    */
@@ -956,9 +750,14 @@ class ClaimTrackingAuditService {
     try {
       const client = await this.getClient();
 
-      const query = `DELETE FROM claim_audit_event WHERE expires_at <= $now`;
+      // 删除后为被清理的链首记录锚点，校验时不视为断链
+      const query = `DELETE FROM claim_audit_event WHERE expires_at <= $now;
+        ${buildAnchorStatement("claim_audit_event", "retention_cutoff")}`;
       const [result] = await queryWithAuth<any[]>(client, query, {
         now: new Date(),
+        retention_cutoff: new Date(
+          Date.now() - this.AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+        ),
       });
 
       const deletedCount = Array.isArray(result) ? result.length : 0;
@@ -971,6 +770,22 @@ class ClaimTrackingAuditService {
     }
   }
 
+  /**
+   * 校验案件操作日志和审计事件的哈希链
+   */
+  async verifyIntegrity(caseId: RecordId | string): Promise<IntegrityReport> {
+    const client = await this.getClient();
+    return new AuditChainService(client).verifyCase(caseId);
+  }
+
+  /**
+   * 导出案件的签名审计包（日志内容及哈希链证明）
+   */
+  async exportSignedBundle(caseId: RecordId | string): Promise<AuditBundle> {
+    const client = await this.getClient();
+    return new AuditChainService(client).exportCaseBundle(caseId);
+  }
+
   /**
    * 导出审计报告
    */
@@ -985,6 +800,8 @@ class ClaimTrackingAuditService {
     statistics?: AuditStatistics;
     generatedAt: Date;
   }> {
+    await new AnomalyRuleService(await this.getClient()).assertExportAllowed();
+
     const events = await this.queryAuditEvents({
       ...filters,
       limit: 10000, // 限制导出数量
@@ -49,7 +49,10 @@ export class ClaimVersionService {
           change_reason = $change_reason,
           created_at = time::now(),
           related_operation_log_id = $related_operation_log_id,
-          checksum = $checksum
+          checksum = $checksum,
+          reduction_reasons = $reduction_reasons,
+          review_variance = $review_variance,
+          interest_recalculation = $interest_recalculation
       `;
 
       const queryParams = {
@@ -61,6 +64,9 @@ export class ClaimVersionService {
         change_reason: params.change_reason,
         related_operation_log_id: params.related_operation_log_id,
         checksum,
+        reduction_reasons: params.reduction_reasons,
+        review_variance: params.review_variance,
+        interest_recalculation: params.interest_recalculation,
       };
 
       const results = (await queryWithAuth(
@@ -454,7 +460,7 @@ export class ClaimVersionService {
   /**
    * 生成数据校验和 - 使用浏览器兼容的Web Crypto API
    */
-  private async generateChecksum(
+  async generateChecksum(
     data: Record<string, unknown>,
   ): Promise<string> {
     try {
@@ -0,0 +1,154 @@
+/**
+ * 债权人批量导入服务
+ * 查询同案件中证件号重复的债权人（对应 creditor_case_legal_id_idx 唯一索引），
+ * 并按批次在事务中写入导入数据；批次失败时逐行重试以定位失败行。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import type { RecordId } from 'surrealdb';
+import type {
+  CreditorDuplicateStrategy,
+  CreditorImportPreviewRow,
+  CreditorImportProgress,
+  CreditorImportResult,
+  CreditorImportRowResult,
+  ExistingCreditorSummary
+} from '@/src/types/creditorImport';
+
+export const DEFAULT_IMPORT_BATCH_SIZE = 50;
+
+interface ImportCreditorsOptions {
+  duplicateStrategy: CreditorDuplicateStrategy;
+  batchSize?: number;
+  onProgress?: (progress: CreditorImportProgress) => void;
+}
+
+type ImportOperation = {
+  row: CreditorImportPreviewRow;
+  status: 'created' | 'merged';
+};
+
+export class CreditorImportService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 查询案件中已存在的债权人（按证件号）
+   */
+  async findExistingCreditors(caseId: RecordId | string, legalIds: string[]): Promise<ExistingCreditorSummary[]> {
+    if (legalIds.length === 0) {
+      return [];
+    }
+    try {
+      const query = `
+        SELECT id, name, legal_id FROM creditor
+        WHERE case_id = $case_id AND legal_id INSIDE $legal_ids
+      `;
+      const creditors = await queryWithAuth<ExistingCreditorSummary[]>(this.client, query, {
+        case_id: caseId,
+        legal_ids: Array.from(new Set(legalIds))
+      });
+      return creditors || [];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('查询重复债权人失败:', error);
+      throw new Error('查询重复债权人失败');
+    }
+  }
+
+  /**
+   * 分批导入债权人
+   * 有校验错误的行不导入；与已有债权人重复的行按 duplicateStrategy 合并更新或跳过
+   */
+  async importCreditors(
+    caseId: RecordId | string,
+    rows: CreditorImportPreviewRow[],
+    options: ImportCreditorsOptions
+  ): Promise<CreditorImportResult> {
+    const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+    const rowResults: CreditorImportRowResult[] = [];
+    const operations: ImportOperation[] = [];
+
+    for (const row of rows) {
+      if (row.errors.length > 0) {
+        rowResults.push({ row_number: row.row_number, status: 'failed', message: row.errors.join('；') });
+      } else if (row.existing && options.duplicateStrategy === 'skip') {
+        rowResults.push({ row_number: row.row_number, status: 'skipped', message: `与已有债权人“${row.existing.name}”重复` });
+      } else {
+        operations.push({ row, status: row.existing ? 'merged' : 'created' });
+      }
+    }
+
+    options.onProgress?.({ processed: 0, total: operations.length });
+    for (let start = 0; start < operations.length; start += batchSize) {
+      const batch = operations.slice(start, start + batchSize);
+      try {
+        await this.commitBatch(caseId, batch);
+        rowResults.push(...batch.map(({ row, status }) => ({ row_number: row.row_number, status })));
+      } catch (batchError) {
+        if (batchError instanceof AuthenticationRequiredError) throw batchError;
+        // 整批回滚后逐行重试，定位失败行
+        for (const operation of batch) {
+          try {
+            await this.commitBatch(caseId, [operation]);
+            rowResults.push({ row_number: operation.row.row_number, status: operation.status });
+          } catch (rowError) {
+            if (rowError instanceof AuthenticationRequiredError) throw rowError;
+            console.error('导入债权人失败:', operation.row.row_number, rowError);
+            rowResults.push({
+              row_number: operation.row.row_number,
+              status: 'failed',
+              message: rowError instanceof Error ? rowError.message : '数据库写入失败'
+            });
+          }
+        }
+      }
+      options.onProgress?.({ processed: Math.min(start + batchSize, operations.length), total: operations.length });
+    }
+
+    rowResults.sort((a, b) => a.row_number - b.row_number);
+    return {
+      created: rowResults.filter(result => result.status === 'created').length,
+      merged: rowResults.filter(result => result.status === 'merged').length,
+      skipped: rowResults.filter(result => result.status === 'skipped').length,
+      failed: rowResults.filter(result => result.status === 'failed').length,
+      rows: rowResults
+    };
+  }
+
+  /**
+   * 在单个事务中写入一批债权人
+   */
+  private async commitBatch(caseId: RecordId | string, batch: ImportOperation[]): Promise<void> {
+    const statements: string[] = [];
+    const params: Record<string, unknown> = { case_id: caseId };
+
+    batch.forEach(({ row, status }, index) => {
+      const record = row.record;
+      if (status === 'merged') {
+        // 合并更新仅覆盖导入文件中非空的字段
+        params[`id_${index}`] = row.existing!.id;
+        params[`data_${index}`] = Object.fromEntries(
+          Object.entries(record).filter(([, value]) => value !== '')
+        );
+        statements.push(`UPDATE $id_${index} MERGE $data_${index};`);
+      } else {
+        params[`data_${index}`] = { ...record, case_id: caseId };
+        statements.push(`CREATE creditor CONTENT $data_${index};`);
+      }
+    });
+
+    const query = `
+      BEGIN TRANSACTION;
+      ${statements.join('\n      ')}
+      COMMIT TRANSACTION;
+    `;
+    await queryWithAuth(this.client, query, params);
+  }
+}
+
+export default CreditorImportService;
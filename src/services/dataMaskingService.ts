@@ -185,6 +185,13 @@ class DataMaskingService {
     return dataArray.map(item => this.maskData(item, customRules));
   }
 
+  /**
+   * 按指定规则脱敏单个值
+   */
+  maskValue(value: any, rule: MaskingRule): any {
+    return this.applyMasking(value, rule);
+  }
+
   /**
    * 处理操作日志数据脱敏
    */
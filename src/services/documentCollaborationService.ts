@@ -0,0 +1,287 @@
+/**
+ * 文档协作编辑服务
+ * 增量按文档内序号保存在 delta 表，定期把合并后的全文快照写入 document_version；
+ * 光标位置与在线状态保存在 cursor 表，两者均通过实时查询推送给其他协作者
+ */
+
+import { RecordId, Table, eq } from 'surrealdb';
+import Delta from 'quill-delta';
+import type { Op } from 'quill-delta';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import type { RemoteDelta } from '@/src/utils/deltaSync';
+
+// 超过该时长未更新的光标视为已离线
+export const CURSOR_STALE_MS = 60 * 1000;
+
+export interface CollaborativeDocumentState {
+  /** 快照与其后全部增量合并后的内容；为 null 表示文档尚无协作快照 */
+  content: Delta | null;
+  /** content 对应的序号 */
+  sequence: number;
+}
+
+export interface CollaboratorCursor {
+  user_id: RecordId | string;
+  user_name?: string;
+  color: string;
+  range?: { index: number; length: number } | null;
+  updated_at: string;
+}
+
+interface DeltaRecord {
+  sequence: number;
+  ops: string;
+  client_id: string;
+}
+
+interface SnapshotRecord {
+  sequence: number;
+  content: string;
+}
+
+const toRecordId = (id: RecordId | string, table: string): RecordId => {
+  if (id instanceof RecordId) {
+    return id;
+  }
+  const raw = id.startsWith(`${table}:`) ? id.slice(table.length + 1) : id;
+  return new RecordId(table, raw);
+};
+
+const toRemoteDelta = (record: DeltaRecord): RemoteDelta => ({
+  sequence: record.sequence,
+  client_id: record.client_id,
+  ops: JSON.parse(record.ops) as Op[]
+});
+
+export class DocumentCollaborationService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 加载文档协作状态：最近一次快照加上其后的全部增量
+   */
+  async loadDocument(documentId: RecordId | string): Promise<CollaborativeDocumentState> {
+    try {
+      const document_id = toRecordId(documentId, 'document');
+      const snapshot = await this.getLatestSnapshot(document_id);
+      if (!snapshot) {
+        return { content: null, sequence: 0 };
+      }
+
+      const deltas = await this.fetchDeltasSince(document_id, snapshot.sequence);
+      let content = new Delta(JSON.parse(snapshot.content) as Op[]);
+      let sequence = snapshot.sequence;
+      for (const remote of deltas) {
+        if (remote.sequence !== sequence + 1) {
+          break;
+        }
+        content = content.compose(new Delta(remote.ops));
+        sequence = remote.sequence;
+      }
+      return { content, sequence };
+    } catch (error) {
+      console.error('加载协作文档失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('加载协作文档失败');
+    }
+  }
+
+  /**
+   * 获取指定序号之后的增量，按序号升序
+   */
+  async fetchDeltasSince(documentId: RecordId | string, sequence: number): Promise<RemoteDelta[]> {
+    const query = `
+      SELECT sequence, ops, client_id FROM delta
+      WHERE document_id = $document_id AND sequence > $sequence
+      ORDER BY sequence ASC
+    `;
+    const deltas = await queryWithAuth<DeltaRecord[]>(this.client, query, {
+      document_id: toRecordId(documentId, 'document'),
+      sequence
+    });
+    return (deltas || []).map(toRemoteDelta);
+  }
+
+  /**
+   * 以指定序号提交增量；序号已被其他协作者占用时返回 false
+   */
+  async submitDelta(documentId: RecordId | string, sequence: number, delta: Delta, clientId: string): Promise<boolean> {
+    try {
+      const query = `
+        CREATE delta SET
+          document_id = $document_id,
+          sequence = $sequence,
+          ops = $ops,
+          client_id = $client_id
+      `;
+      await queryWithAuth(this.client, query, {
+        document_id: toRecordId(documentId, 'document'),
+        sequence,
+        ops: JSON.stringify(delta.ops),
+        client_id: clientId
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already contains')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 保存协作快照：序号不超过已有快照时跳过，返回是否写入
+   */
+  async saveSnapshot(documentId: RecordId | string, sequence: number, content: Delta): Promise<boolean> {
+    try {
+      const document_id = toRecordId(documentId, 'document');
+      const latest = await this.getLatestSnapshot(document_id);
+      if (latest && latest.sequence >= sequence) {
+        return false;
+      }
+
+      const query = `
+        CREATE document_version SET
+          document_id = $document_id,
+          version_number = $version_number,
+          sequence = $sequence,
+          content = $content,
+          change_summary = $change_summary,
+          created_by = $auth.id
+      `;
+      await queryWithAuth(this.client, query, {
+        document_id,
+        version_number: (await this.getLatestVersionNumber(document_id)) + 1,
+        sequence,
+        content: JSON.stringify(content.ops),
+        change_summary: `协作编辑自动快照（第${sequence}次修改）`
+      });
+      return true;
+    } catch (error) {
+      // 其他协作者同时保存了同一版本号的快照
+      if (error instanceof Error && error.message.includes('already contains')) {
+        return false;
+      }
+      console.error('保存协作快照失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('保存协作快照失败');
+    }
+  }
+
+  /**
+   * 更新当前用户在文档中的光标，每个用户每个文档一条记录
+   */
+  async updateCursor(
+    documentId: RecordId | string,
+    cursor: { user_name?: string; color: string; range: { index: number; length: number } | null }
+  ): Promise<void> {
+    const query = `
+      UPSERT type::thing('cursor', [$document_id, $auth.id]) SET
+        document_id = $document_id,
+        user_id = $auth.id,
+        user_name = $user_name,
+        color = $color,
+        range = $range
+    `;
+    await queryWithAuth(this.client, query, {
+      document_id: toRecordId(documentId, 'document'),
+      user_name: cursor.user_name,
+      color: cursor.color,
+      range: cursor.range ?? undefined
+    });
+  }
+
+  /**
+   * 离开文档时删除当前用户的光标
+   */
+  async removeCursor(documentId: RecordId | string): Promise<void> {
+    const query = `DELETE type::thing('cursor', [$document_id, $auth.id])`;
+    await queryWithAuth(this.client, query, {
+      document_id: toRecordId(documentId, 'document')
+    });
+  }
+
+  /**
+   * 获取文档中其他仍在线的协作者光标
+   */
+  async fetchCursors(documentId: RecordId | string): Promise<CollaboratorCursor[]> {
+    const query = `
+      SELECT user_id, user_name, color, range, updated_at FROM cursor
+      WHERE document_id = $document_id AND user_id != $auth.id AND updated_at > time::now() - 1m
+    `;
+    const cursors = await queryWithAuth<CollaboratorCursor[]>(this.client, query, {
+      document_id: toRecordId(documentId, 'document')
+    });
+    return cursors || [];
+  }
+
+  /**
+   * 订阅文档的新增量，返回取消订阅函数
+   */
+  async subscribeDeltas(documentId: RecordId | string, onDelta: (delta: RemoteDelta) => void): Promise<() => void> {
+    const live = await this.client.live(new Table('delta')).where(eq('document_id', toRecordId(documentId, 'document')));
+    const unsubscribe = live.subscribe((message: { action: string; value?: Record<string, unknown> }) => {
+      if (message.action === 'CREATE' && message.value) {
+        onDelta(toRemoteDelta(message.value as unknown as DeltaRecord));
+      }
+    });
+    return () => {
+      unsubscribe();
+      live.kill().catch(() => { /* 连接已断开时忽略 */ });
+    };
+  }
+
+  /**
+   * 订阅文档光标变化，删除事件的 cursor 为 null，返回取消订阅函数
+   */
+  async subscribeCursors(
+    documentId: RecordId | string,
+    onCursor: (userId: string, cursor: CollaboratorCursor | null) => void
+  ): Promise<() => void> {
+    const live = await this.client.live(new Table('cursor')).where(eq('document_id', toRecordId(documentId, 'document')));
+    const unsubscribe = live.subscribe((message: { action: string; value?: Record<string, unknown> }) => {
+      if (!message.value || message.action === 'KILLED') {
+        return;
+      }
+      const cursor = message.value as unknown as CollaboratorCursor;
+      onCursor(String(cursor.user_id), message.action === 'DELETE' ? null : cursor);
+    });
+    return () => {
+      unsubscribe();
+      live.kill().catch(() => { /* 连接已断开时忽略 */ });
+    };
+  }
+
+  // 文档版本中只有带序号的才是协作快照，其他版本（如手动保存）不参与增量合并
+  private async getLatestSnapshot(documentId: RecordId): Promise<SnapshotRecord | null> {
+    const query = `
+      SELECT sequence, content FROM document_version
+      WHERE document_id = $document_id AND sequence != NONE
+      ORDER BY sequence DESC
+      LIMIT 1
+    `;
+    const [snapshot] = (await queryWithAuth<SnapshotRecord[]>(this.client, query, { document_id: documentId })) || [];
+    return snapshot ?? null;
+  }
+
+  private async getLatestVersionNumber(documentId: RecordId): Promise<number> {
+    const query = `
+      SELECT version_number FROM document_version
+      WHERE document_id = $document_id
+      ORDER BY version_number DESC
+      LIMIT 1
+    `;
+    const [latest] = (await queryWithAuth<{ version_number?: number }[]>(this.client, query, { document_id: documentId })) || [];
+    return latest?.version_number ?? 0;
+  }
+}
+
+export default DocumentCollaborationService;
@@ -0,0 +1,269 @@
+/**
+ * 文档批注服务
+ * 批注线程（根批注 + 回复）与修改建议保存在 document_comment 表，
+ * 正文中的锚点由编辑器以行内格式维护，这里只保存创建时的范围和原文用于重新定位
+ */
+
+import { RecordId, Table, eq } from 'surrealdb';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import type {
+  CommentSelection,
+  CreateDocumentCommentParams,
+  DocumentComment,
+  DocumentCommentThread,
+  SaveSuggestionParams,
+  SuggestionStatus
+} from '@/src/types/documentComment';
+
+const toRecordId = (id: RecordId | string, table: string): RecordId => {
+  if (id instanceof RecordId) {
+    return id;
+  }
+  const raw = id.startsWith(`${table}:`) ? id.slice(table.length + 1) : id;
+  return new RecordId(table, raw);
+};
+
+export class DocumentCommentService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 获取文档的全部批注线程，按创建时间排序
+   */
+  async listThreads(documentId: RecordId | string): Promise<DocumentCommentThread[]> {
+    try {
+      const query = `
+        SELECT *,
+          (SELECT * FROM document_comment WHERE parent_id = $parent.id ORDER BY created_at ASC) AS replies
+        FROM document_comment
+        WHERE document_id = $document_id AND parent_id = NONE
+        ORDER BY created_at ASC
+      `;
+      const threads = await queryWithAuth<DocumentCommentThread[]>(this.client, query, {
+        document_id: toRecordId(documentId, 'document')
+      });
+      return (threads || []).map(thread => ({
+        ...thread,
+        replies: thread.replies || []
+      }));
+    } catch (error) {
+      console.error('获取文档批注失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('获取文档批注失败');
+    }
+  }
+
+  /**
+   * 在选中的文本上新建批注线程
+   */
+  async createComment(params: CreateDocumentCommentParams): Promise<DocumentComment> {
+    try {
+      const query = `
+        CREATE $id CONTENT {
+          document_id: $document_id,
+          comment_type: 'comment',
+          comment_text: $comment_text,
+          selection_details: $selection,
+          user_id: $auth.id,
+          user_name: $user_name
+        }
+      `;
+      const [comment] = await queryWithAuth<DocumentComment[]>(this.client, query, {
+        id: params.id ? toRecordId(params.id, 'document_comment') : new RecordId('document_comment', crypto.randomUUID()),
+        document_id: toRecordId(params.document_id, 'document'),
+        comment_text: params.comment_text,
+        selection: params.selection,
+        user_name: params.user_name
+      });
+      if (!comment) {
+        throw new Error('批注创建失败');
+      }
+      return comment;
+    } catch (error) {
+      console.error('创建批注失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('创建批注失败');
+    }
+  }
+
+  /**
+   * 回复批注线程
+   */
+  async reply(threadId: RecordId | string, commentText: string, userName?: string): Promise<DocumentComment> {
+    try {
+      const query = `
+        CREATE document_comment CONTENT {
+          document_id: $thread_id.document_id,
+          parent_id: $thread_id,
+          comment_type: 'comment',
+          comment_text: $comment_text,
+          user_id: $auth.id,
+          user_name: $user_name
+        }
+      `;
+      const [comment] = await queryWithAuth<DocumentComment[]>(this.client, query, {
+        thread_id: toRecordId(threadId, 'document_comment'),
+        comment_text: commentText,
+        user_name: userName
+      });
+      if (!comment) {
+        throw new Error('回复失败');
+      }
+      return comment;
+    } catch (error) {
+      console.error('回复批注失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('回复批注失败');
+    }
+  }
+
+  /**
+   * 解决批注线程，同时记录解决时锚定的范围，重新打开时据此恢复标记；
+   * 解决人可能不是作者，不能修改作者的 selection_details
+   */
+  async resolveThread(threadId: RecordId | string, selection?: CommentSelection): Promise<void> {
+    try {
+      const query = `
+        UPDATE $thread_id SET
+          resolved_at = time::now(),
+          resolved_by = $auth.id,
+          resolved_selection = $selection ?? resolved_selection
+      `;
+      await queryWithAuth(this.client, query, {
+        thread_id: toRecordId(threadId, 'document_comment'),
+        selection
+      });
+    } catch (error) {
+      console.error('解决批注失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('解决批注失败');
+    }
+  }
+
+  /**
+   * 重新打开已解决的批注线程，保留 resolved_selection 用于恢复标记
+   */
+  async reopenThread(threadId: RecordId | string): Promise<void> {
+    try {
+      const query = `UPDATE $thread_id SET resolved_at = NONE, resolved_by = NONE`;
+      await queryWithAuth(this.client, query, {
+        thread_id: toRecordId(threadId, 'document_comment')
+      });
+    } catch (error) {
+      console.error('重新打开批注失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('重新打开批注失败');
+    }
+  }
+
+  /**
+   * 更新批注锚定的范围（编辑后重新定位），只更新自己的批注
+   */
+  async updateAnchor(threadId: RecordId | string, selection: CommentSelection): Promise<void> {
+    const query = `UPDATE $thread_id SET selection_details = $selection, resolved_selection = NONE WHERE user_id = $auth.id`;
+    await queryWithAuth(this.client, query, {
+      thread_id: toRecordId(threadId, 'document_comment'),
+      selection
+    });
+  }
+
+  /**
+   * 创建或更新建议模式下的修改建议；连续输入会多次更新同一条建议
+   */
+  async saveSuggestion(params: SaveSuggestionParams): Promise<void> {
+    try {
+      const query = `
+        UPSERT $id SET
+          document_id = $document_id,
+          comment_type = 'suggestion',
+          comment_text = $comment_text,
+          selection_details = $selection,
+          suggestion = { action: $action, text: $selection.text, status: 'pending' },
+          user_id = user_id ?? $auth.id,
+          user_name = user_name ?? $user_name
+      `;
+      await queryWithAuth(this.client, query, {
+        id: toRecordId(params.id, 'document_comment'),
+        document_id: toRecordId(params.document_id, 'document'),
+        comment_text: params.action === 'insert' ? `建议插入：${params.selection.text}` : `建议删除：${params.selection.text}`,
+        selection: params.selection,
+        action: params.action,
+        user_name: params.user_name
+      });
+    } catch (error) {
+      console.error('保存修改建议失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('保存修改建议失败');
+    }
+  }
+
+  /**
+   * 删除修改建议（建议者撤回了自己的全部修改）
+   */
+  async deleteSuggestion(id: RecordId | string): Promise<void> {
+    const query = `DELETE $id WHERE comment_type = 'suggestion'`;
+    await queryWithAuth(this.client, query, { id: toRecordId(id, 'document_comment') });
+  }
+
+  /**
+   * 采纳或拒绝修改建议，同时解决该建议线程
+   */
+  async decideSuggestion(id: RecordId | string, status: Exclude<SuggestionStatus, 'pending'>): Promise<void> {
+    try {
+      const query = `
+        UPDATE $id SET
+          suggestion.status = $status,
+          resolved_at = time::now(),
+          resolved_by = $auth.id
+        WHERE comment_type = 'suggestion' AND suggestion.status = 'pending'
+      `;
+      const updated = await queryWithAuth<DocumentComment[]>(this.client, query, {
+        id: toRecordId(id, 'document_comment'),
+        status
+      });
+      if (updated.length === 0) {
+        throw new Error('该修改建议已处理');
+      }
+    } catch (error) {
+      console.error('处理修改建议失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error(error instanceof Error && error.message === '该修改建议已处理' ? error.message : '处理修改建议失败');
+    }
+  }
+
+  /**
+   * 订阅文档批注变化（其他协作者新增、回复或解决批注），返回取消订阅函数
+   */
+  async subscribe(documentId: RecordId | string, onChange: () => void): Promise<() => void> {
+    const live = await this.client.live(new Table('document_comment')).where(eq('document_id', toRecordId(documentId, 'document')));
+    const unsubscribe = live.subscribe((message: { action: string }) => {
+      if (message.action !== 'KILLED') {
+        onChange();
+      }
+    });
+    return () => {
+      unsubscribe();
+      live.kill().catch(() => { /* 连接已断开时忽略 */ });
+    };
+  }
+}
+
+export default DocumentCommentService;
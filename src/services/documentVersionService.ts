@@ -0,0 +1,212 @@
+/**
+ * 文档版本历史服务
+ * 版本内容写入后不可修改：恢复历史版本时以其内容生成新版本；
+ * 命名版本在债权申报提交时锁定，锁定后数据库事件拒绝修改或删除
+ */
+
+import { RecordId } from 'surrealdb';
+import Delta from 'quill-delta';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import type {
+  CreateDocumentVersionParams,
+  DocumentVersion,
+  DocumentVersionSummary
+} from '@/src/types/documentVersion';
+
+// 并发创建版本时版本号冲突的重试次数
+const VERSION_NUMBER_RETRIES = 3;
+
+const toRecordId = (id: RecordId | string, table: string): RecordId => {
+  if (id instanceof RecordId) {
+    return id;
+  }
+  const raw = id.startsWith(`${table}:`) ? id.slice(table.length + 1) : id;
+  return new RecordId(table, raw);
+};
+
+/**
+ * 解析版本内容：协作快照保存 Delta 操作数组，其他来源的内容按纯文本显示
+ */
+export const parseVersionContent = (content: string): Delta => {
+  try {
+    const parsed = JSON.parse(content);
+    if (Array.isArray(parsed)) {
+      return new Delta(parsed);
+    }
+    if (parsed && Array.isArray(parsed.ops)) {
+      return new Delta(parsed.ops);
+    }
+  } catch {
+    // 非 JSON 内容按纯文本处理
+  }
+  return new Delta().insert(content.endsWith('\n') ? content : `${content}\n`);
+};
+
+export class DocumentVersionService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 获取文档的版本列表（不含内容），按版本号倒序
+   */
+  async listVersions(documentId: RecordId | string): Promise<DocumentVersionSummary[]> {
+    try {
+      const query = `
+        SELECT id, document_id, version_number, version_name, change_summary, created_at, created_by,
+          created_by.name AS author_name, sequence, restored_from, locked_at, locked_by, lock_reason
+        FROM document_version
+        WHERE document_id = $document_id
+        ORDER BY version_number DESC
+      `;
+      const versions = await queryWithAuth<DocumentVersionSummary[]>(this.client, query, {
+        document_id: toRecordId(documentId, 'document')
+      });
+      return versions || [];
+    } catch (error) {
+      console.error('获取文档版本失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('获取文档版本失败');
+    }
+  }
+
+  /**
+   * 获取指定版本及其内容
+   */
+  async getVersion(versionId: RecordId | string): Promise<DocumentVersion | null> {
+    try {
+      const query = `SELECT *, created_by.name AS author_name FROM $version_id`;
+      const [version] = await queryWithAuth<(Omit<DocumentVersion, 'content'> & { content: string })[]>(this.client, query, {
+        version_id: toRecordId(versionId, 'document_version')
+      });
+      if (!version) {
+        return null;
+      }
+      return { ...version, content: parseVersionContent(version.content) };
+    } catch (error) {
+      console.error('获取文档版本内容失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('获取文档版本内容失败');
+    }
+  }
+
+  /**
+   * 以指定内容创建新版本，版本号取当前最大版本号加一
+   */
+  async createVersion(params: CreateDocumentVersionParams): Promise<DocumentVersionSummary> {
+    const document_id = toRecordId(params.document_id, 'document');
+    const query = `
+      CREATE document_version SET
+        document_id = $document_id,
+        version_number = ((SELECT version_number FROM document_version WHERE document_id = $document_id ORDER BY version_number DESC LIMIT 1)[0].version_number ?? 0) + 1,
+        version_name = $version_name,
+        content = $content,
+        change_summary = $change_summary,
+        restored_from = $restored_from,
+        created_by = $auth.id
+    `;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const [version] = await queryWithAuth<(DocumentVersionSummary & { content?: string })[]>(this.client, query, {
+          document_id,
+          version_name: params.version_name,
+          content: JSON.stringify(params.content.ops),
+          change_summary: params.change_summary,
+          restored_from: params.restored_from ? toRecordId(params.restored_from, 'document_version') : undefined
+        });
+        if (!version) {
+          throw new Error('文档版本创建失败');
+        }
+        const { content: _content, ...summary } = version;
+        return summary;
+      } catch (error) {
+        // 其他用户同时创建了同一版本号
+        if (error instanceof Error && error.message.includes('already contains') && attempt < VERSION_NUMBER_RETRIES) {
+          continue;
+        }
+        console.error('创建文档版本失败:', error);
+        if (error instanceof AuthenticationRequiredError) {
+          throw error;
+        }
+        throw new Error('创建文档版本失败');
+      }
+    }
+  }
+
+  /**
+   * 恢复历史版本：以该版本内容生成新版本，返回新版本和恢复的内容
+   */
+  async restoreVersion(versionId: RecordId | string): Promise<{ version: DocumentVersionSummary; content: Delta }> {
+    const source = await this.getVersion(versionId);
+    if (!source) {
+      throw new Error('文档版本不存在');
+    }
+    const version = await this.createVersion({
+      document_id: source.document_id,
+      content: source.content,
+      change_summary: `恢复至第${source.version_number}版${source.version_name ? `（${source.version_name}）` : ''}`,
+      restored_from: source.id
+    });
+    return { version, content: source.content };
+  }
+
+  /**
+   * 命名版本，传入空字符串取消命名；只有文档所有者和管理员可以命名，已锁定的版本不可修改
+   */
+  async nameVersion(versionId: RecordId | string, name: string): Promise<void> {
+    try {
+      const query = `UPDATE $version_id SET version_name = $version_name`;
+      const updated = await queryWithAuth<DocumentVersionSummary[]>(this.client, query, {
+        version_id: toRecordId(versionId, 'document_version'),
+        version_name: name.trim() || undefined
+      });
+      if (updated.length === 0) {
+        throw new Error('只有文档所有者可以命名版本');
+      }
+    } catch (error) {
+      console.error('命名文档版本失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      if (error instanceof Error && error.message === '只有文档所有者可以命名版本') {
+        throw error;
+      }
+      throw new Error(error instanceof Error && error.message.includes('版本已锁定') ? '版本已锁定，不可修改' : '命名文档版本失败');
+    }
+  }
+
+  /**
+   * 锁定文档全部未锁定的命名版本，返回本次锁定的数量
+   */
+  async lockNamedVersions(documentId: RecordId | string, reason: string): Promise<number> {
+    try {
+      const query = `
+        UPDATE document_version SET
+          locked_at = time::now(),
+          locked_by = $auth.id,
+          lock_reason = $reason
+        WHERE document_id = $document_id AND version_name != NONE AND locked_at = NONE
+      `;
+      const locked = await queryWithAuth<DocumentVersionSummary[]>(this.client, query, {
+        document_id: toRecordId(documentId, 'document'),
+        reason
+      });
+      return locked.length;
+    } catch (error) {
+      console.error('锁定文档版本失败:', error);
+      if (error instanceof AuthenticationRequiredError) {
+        throw error;
+      }
+      throw new Error('锁定文档版本失败');
+    }
+  }
+}
+
+export default DocumentVersionService;
@@ -0,0 +1,207 @@
+/**
+ * 字段提取模板服务
+ * 模板存储在 extraction_template 表中。草稿可反复修改；已发布的模板修改后另存为新版本草稿，
+ * 发布新版本时同一文书类型的旧版本归档。已发布模板编译后与内置识别规则合并，供本地解析使用。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import { pdfParseService } from '@/src/services/pdfParseService';
+import { DEFAULT_RECOGNITION_PROFILES, type DocumentRecognitionProfile } from '@/src/utils/pdfFieldRecognition';
+import { compileTemplate, mergeRecognitionProfiles, validateTemplate } from '@/src/utils/extractionTemplate';
+import type { ExtractionTemplate, TemplateTestSample } from '@/src/types/extractionTemplate';
+
+/**
+ * 将数据库记录规范为模板，记录 ID 只保留 extraction_template 之后的部分
+ */
+export function normalizeTemplate(record: Record<string, any>): ExtractionTemplate {
+  const rawId = record.id;
+  const id = rawId && typeof rawId === 'object' && 'id' in rawId
+    ? String(rawId.id)
+    : String(rawId ?? '').replace(/^extraction_template:/, '');
+  return {
+    id,
+    document_type: record.document_type ?? '',
+    name: record.name ?? '',
+    description: record.description ?? '',
+    version: record.version ?? 1,
+    status: record.status ?? 'draft',
+    keywords: record.keywords ?? [],
+    fields: (record.fields ?? []).map((field: Record<string, any>) => ({
+      ...field,
+      anchors: field.anchors ?? [],
+      validation: field.validation ?? {},
+    })),
+    sample_file_name: record.sample_file_name ?? undefined,
+    updated_at: record.updated_at,
+  };
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+export class ExtractionTemplateService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 加载全部模板（含历史版本），按文书类型和版本倒序排列
+   */
+  async loadTemplates(): Promise<ExtractionTemplate[]> {
+    try {
+      const records = await queryWithAuth<Record<string, any>[]>(
+        this.client,
+        'SELECT * FROM extraction_template ORDER BY document_type, version DESC'
+      );
+      return (records || []).map(normalizeTemplate);
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载字段提取模板失败:', error);
+      throw new Error('加载字段提取模板失败');
+    }
+  }
+
+  /**
+   * 保存草稿：草稿直接更新；新模板或已发布、已归档的模板保存为该文书类型的下一个版本
+   */
+  async saveDraft(template: ExtractionTemplate): Promise<ExtractionTemplate> {
+    const errors = validateTemplate(template);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const { id, document_type, version: _version, status, updated_at: _updatedAt, ...content } = template;
+    try {
+      if (id && status === 'draft') {
+        // 文书类型和版本号创建后不再修改
+        const saved = await queryWithAuth<Record<string, any>[]>(
+          this.client,
+          `UPDATE type::thing('extraction_template', $template_id) MERGE $content`,
+          { template_id: id, content }
+        );
+        return saved?.[0] ? normalizeTemplate(saved[0]) : template;
+      }
+
+      const latest = await queryWithAuth<number[]>(
+        this.client,
+        'SELECT VALUE version FROM extraction_template WHERE document_type = $document_type ORDER BY version DESC LIMIT 1',
+        { document_type }
+      );
+      const saved = await queryWithAuth<Record<string, any>[]>(
+        this.client,
+        'CREATE extraction_template CONTENT $content',
+        { content: { ...content, document_type, version: (latest?.[0] ?? 0) + 1, status: 'draft' } }
+      );
+      return normalizeTemplate(saved[0]);
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('保存字段提取模板失败:', error);
+      throw new Error('保存字段提取模板失败');
+    }
+  }
+
+  /**
+   * 发布模板版本，同一文书类型原已发布的版本归档
+   */
+  async publish(template: ExtractionTemplate): Promise<void> {
+    const errors = validateTemplate(template);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    try {
+      await queryWithAuth(
+        this.client,
+        `UPDATE extraction_template
+         SET status = IF id = type::thing('extraction_template', $template_id) THEN 'published' ELSE 'archived' END
+         WHERE document_type = $document_type
+           AND (id = type::thing('extraction_template', $template_id) OR status = 'published')`,
+        { template_id: template.id, document_type: template.document_type }
+      );
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('发布字段提取模板失败:', error);
+      throw new Error('发布字段提取模板失败');
+    }
+  }
+
+  /**
+   * 删除草稿，已发布或归档的版本保留以便追溯
+   */
+  async deleteDraft(templateId: string): Promise<void> {
+    try {
+      await queryWithAuth(
+        this.client,
+        `DELETE type::thing('extraction_template', $template_id) WHERE status = 'draft'`,
+        { template_id: templateId }
+      );
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('删除模板草稿失败:', error);
+      throw new Error('删除模板草稿失败');
+    }
+  }
+
+  /**
+   * 已发布模板编译后的识别规则
+   */
+  async loadPublishedProfiles(): Promise<DocumentRecognitionProfile[]> {
+    const records = await queryWithAuth<Record<string, any>[]>(
+      this.client,
+      `SELECT * FROM extraction_template WHERE status = 'published'`
+    );
+    return (records || []).map(record => compileTemplate(normalizeTemplate(record)));
+  }
+
+  /**
+   * 将已发布模板应用到本地解析；加载失败时继续使用内置识别规则
+   */
+  async applyPublishedTemplates(): Promise<number> {
+    try {
+      const profiles = await this.loadPublishedProfiles();
+      pdfParseService.setRecognitionProfiles(mergeRecognitionProfiles(DEFAULT_RECOGNITION_PROFILES, profiles));
+      return profiles.length;
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载已发布的字段提取模板失败:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * 读取样本文件夹：PDF 提取文字层，同名 JSON 文件为人工标注的正确取值
+   */
+  async loadSamples(
+    files: File[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ samples: TemplateTestSample[]; skipped: string[] }> {
+    const pdfs = files.filter(file => /\.pdf$/i.test(file.name));
+    const labels = new Map(
+      files.filter(file => /\.json$/i.test(file.name)).map(file => [baseName(file.name), file])
+    );
+    const samples: TemplateTestSample[] = [];
+    const skipped: string[] = [];
+
+    for (const [index, file] of pdfs.entries()) {
+      try {
+        const pages = await pdfParseService.extractTextPages(file);
+        const label = labels.get(baseName(file.name));
+        const expected = label ? JSON.parse(await label.text()) : undefined;
+        samples.push({
+          file_name: file.name,
+          pages,
+          ...(expected && typeof expected === 'object' && !Array.isArray(expected) && { expected }),
+        });
+      } catch (error) {
+        console.error(`读取样本 ${file.name} 失败:`, error);
+        skipped.push(file.name);
+      }
+      onProgress?.(index + 1, pdfs.length);
+    }
+    return { samples, skipped };
+  }
+}
+
+export default ExtractionTemplateService;
@@ -0,0 +1,292 @@
+/**
+ * 字段级数据权限服务
+ * 按角色声明各表字段的访问级别（隐藏、脱敏、只读、可编辑）。
+ * 数据库按同一份策略定义字段权限（见 migrations/0022_creditor_field_permissions.surql），
+ * 脱敏的角色只能读到 <字段>_masked 中的脱敏值；这里的处理只用于界面显示：
+ * queryWithAuth 在返回结果前把脱敏值放回原字段名下，表格和表单按策略显示列和控件。
+ */
+
+import { RecordId } from 'surrealdb';
+import { MaskingType, dataMaskingService, type MaskingRule } from './dataMaskingService';
+
+// 字段访问级别，按从严到宽排列
+export type FieldAccess = 'hidden' | 'masked' | 'readonly' | 'editable';
+
+const ACCESS_ORDER: FieldAccess[] = ['hidden', 'masked', 'readonly', 'editable'];
+
+// 字段策略
+export interface FieldPolicy {
+  table: string;
+  field: string;
+  defaultAccess: FieldAccess;            // 未匹配任何角色时的访问级别
+  roles: Record<string, FieldAccess>;    // 角色名 -> 访问级别，拥有多个角色时取最宽松的级别
+  maskingType?: MaskingType;             // 访问级别为 masked 时使用的脱敏方式
+}
+
+// 当前用户的角色
+export interface RoleSnapshot {
+  userId: string;
+  globalRoles: string[];                 // has_role 中的全局角色
+  caseRoles: Record<string, string[]>;   // 案件ID -> has_case_role 中该案件的角色
+  loadedAt: number;
+}
+
+// 执行多条语句并返回每条语句的结果
+export type RoleQueryExecutor = (sql: string) => Promise<unknown[]>;
+
+// 角色缓存时间，角色调整后最迟在此时间后生效
+const ROLE_CACHE_TTL = 60 * 1000;
+
+const ROLE_QUERY = `
+  SELECT VALUE out.name FROM has_role WHERE in = $auth.id;
+  SELECT case_id, out.name AS role FROM has_case_role WHERE in = $auth.id;
+`;
+
+// 各脱敏方式的保留位数
+const MASKING_PRESETS: Record<MaskingType, Pick<MaskingRule, 'preserveStart' | 'preserveEnd'>> = {
+  [MaskingType.PHONE]: { preserveStart: 3, preserveEnd: 4 },
+  [MaskingType.EMAIL]: { preserveStart: 2, preserveEnd: 0 },
+  [MaskingType.ID_CARD]: { preserveStart: 4, preserveEnd: 4 },
+  [MaskingType.BANK_CARD]: { preserveStart: 4, preserveEnd: 4 },
+  [MaskingType.NAME]: { preserveStart: 1, preserveEnd: 1 },
+  [MaskingType.ADDRESS]: { preserveStart: 6, preserveEnd: 0 },
+  [MaskingType.AMOUNT]: { preserveStart: 0, preserveEnd: 2 },
+  [MaskingType.CUSTOM]: { preserveStart: 0, preserveEnd: 0 },
+};
+
+/**
+ * 债权人个人信息：默认对案件成员隐藏，
+ * 管理人与债权人代表可维护，审核人员和律师助理只能看到脱敏后的值
+ */
+const creditorPersonalField = (field: string, maskingType: MaskingType): FieldPolicy => ({
+  table: 'creditor',
+  field,
+  defaultAccess: 'hidden',
+  roles: {
+    case_manager: 'editable',
+    creditor_representative: 'editable',
+    claim_reviewer: 'masked',
+    assistant_lawyer: 'masked',
+  },
+  maskingType,
+});
+
+export const DEFAULT_FIELD_POLICIES: FieldPolicy[] = [
+  creditorPersonalField('legal_id', MaskingType.ID_CARD),
+  creditorPersonalField('contact_phone', MaskingType.PHONE),
+  creditorPersonalField('contact_email', MaskingType.EMAIL),
+  creditorPersonalField('contact_address', MaskingType.ADDRESS),
+];
+
+const getRecordTable = (id: unknown): string | null => {
+  if (id instanceof RecordId) return id.table.name;
+  if (typeof id === 'string' && id.includes(':')) return id.split(':')[0];
+  return null;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+class FieldPolicyService {
+  private policies: FieldPolicy[];
+  private snapshot: RoleSnapshot | null = null;
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(policies: FieldPolicy[] = DEFAULT_FIELD_POLICIES) {
+    this.policies = policies;
+  }
+
+  /**
+   * 替换字段策略
+   */
+  setPolicies(policies: FieldPolicy[]): void {
+    this.policies = policies;
+    this.notify();
+  }
+
+  getPolicies(): FieldPolicy[] {
+    return [...this.policies];
+  }
+
+  /**
+   * 订阅角色变化，供 useSyncExternalStore 使用
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): RoleSnapshot | null => this.snapshot;
+
+  /**
+   * 加载当前用户的角色，缓存期内不重复查询
+   * 查询失败时按没有任何角色处理，字段使用默认访问级别
+   */
+  async loadRoles(userId: string, execute: RoleQueryExecutor): Promise<void> {
+    if (this.snapshot?.userId === userId && Date.now() - this.snapshot.loadedAt < ROLE_CACHE_TTL) {
+      return;
+    }
+    if (this.loading) {
+      await this.loading;
+      if (this.snapshot?.userId === userId) return;
+    }
+
+    this.loading = (async () => {
+      let globalRoles: string[] = [];
+      const caseRoles: Record<string, string[]> = {};
+      try {
+        const [global, byCase] = await execute(ROLE_QUERY);
+        globalRoles = ((global as string[] | undefined) || []).filter(Boolean);
+        for (const item of (byCase as { case_id?: unknown; role?: string }[] | undefined) || []) {
+          if (!item.case_id || !item.role) continue;
+          const caseKey = String(item.case_id);
+          caseRoles[caseKey] = [...(caseRoles[caseKey] || []), item.role];
+        }
+      } catch (error) {
+        console.error('加载用户角色失败:', error);
+      }
+      this.snapshot = { userId, globalRoles, caseRoles, loadedAt: Date.now() };
+      this.notify();
+    })();
+
+    try {
+      await this.loading;
+    } finally {
+      this.loading = null;
+    }
+  }
+
+  /**
+   * 清除角色缓存（登出或角色调整后调用）
+   */
+  clearRoles(): void {
+    this.snapshot = null;
+    this.notify();
+  }
+
+  /**
+   * 表是否声明了字段策略
+   */
+  hasPolicies(table: string): boolean {
+    return this.policies.some(policy => policy.table === table);
+  }
+
+  /**
+   * 结果中是否包含受字段策略约束的记录
+   */
+  containsRestrictedRecords(data: unknown): boolean {
+    if (Array.isArray(data)) {
+      return data.some(item => this.containsRestrictedRecords(item));
+    }
+    if (!isPlainObject(data)) return false;
+
+    const table = getRecordTable(data.id);
+    if (table && this.hasPolicies(table)) return true;
+    return Object.values(data).some(value => this.containsRestrictedRecords(value));
+  }
+
+  /**
+   * 计算字段在指定案件中的访问级别，管理员不受字段策略限制
+   */
+  resolveAccess(table: string, field: string, caseId?: unknown): FieldAccess {
+    const policy = this.policies.find(item => item.table === table && item.field === field);
+    if (!policy) return 'editable';
+
+    const roles = this.getRoles(caseId);
+    if (roles.includes('admin')) return 'editable';
+
+    return roles.reduce<FieldAccess>((access, role) => {
+      const roleAccess = policy.roles[role];
+      return roleAccess && ACCESS_ORDER.indexOf(roleAccess) > ACCESS_ORDER.indexOf(access) ? roleAccess : access;
+    }, policy.defaultAccess);
+  }
+
+  /**
+   * 表中受策略约束的字段在指定案件中的访问级别
+   * 角色尚未加载时返回空对象：界面不做限制，数据本身已在查询层处理
+   */
+  getTableAccess(table: string, caseId?: unknown): Record<string, FieldAccess> {
+    if (!this.snapshot) return {};
+
+    const access: Record<string, FieldAccess> = {};
+    for (const policy of this.policies.filter(item => item.table === table)) {
+      access[policy.field] = this.resolveAccess(table, policy.field, caseId);
+    }
+    return access;
+  }
+
+  /**
+   * 按字段策略处理查询结果：删除隐藏字段，masked 字段取数据库返回的脱敏值，没有时在本地脱敏，
+   * 嵌套的记录同样处理
+   */
+  applyToResult<T>(data: T): T {
+    if (Array.isArray(data)) {
+      return data.map(item => this.applyToResult(item)) as T;
+    }
+    if (!isPlainObject(data)) return data;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      result[key] = this.applyToResult(value);
+    }
+
+    const table = getRecordTable(data.id);
+    if (!table || !this.hasPolicies(table)) return result as T;
+
+    for (const policy of this.policies.filter(item => item.table === table)) {
+      const maskedKey = `${policy.field}_masked`;
+      const maskedValue = result[maskedKey];
+      delete result[maskedKey];
+
+      const access = this.resolveAccess(table, policy.field, data.case_id);
+      if (access === 'hidden') {
+        delete result[policy.field];
+      } else if (access === 'masked') {
+        if (policy.field in result) {
+          result[policy.field] = this.maskValue(result[policy.field], policy);
+        } else if (maskedValue !== undefined) {
+          result[policy.field] = maskedValue;
+        }
+      }
+    }
+    return result as T;
+  }
+
+  /**
+   * 只保留可编辑的字段，用于更新记录前过滤表单数据，避免把脱敏值写回数据库
+   */
+  pickWritable<T extends Record<string, unknown>>(table: string, data: T, caseId?: unknown): Partial<T> {
+    const result: Partial<T> = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (this.resolveAccess(table, key, caseId) === 'editable') {
+        result[key as keyof T] = value as T[keyof T];
+      }
+    }
+    return result;
+  }
+
+  private getRoles(caseId?: unknown): string[] {
+    if (!this.snapshot) return [];
+    const caseRoles = caseId ? this.snapshot.caseRoles[String(caseId)] || [] : [];
+    return [...this.snapshot.globalRoles, ...caseRoles];
+  }
+
+  private maskValue(value: unknown, policy: FieldPolicy): unknown {
+    if (value == null || value === '') return value;
+    const maskingType = policy.maskingType ?? MaskingType.CUSTOM;
+    return dataMaskingService.maskValue(value, {
+      field: policy.field,
+      type: maskingType,
+      maskChar: '*',
+      ...MASKING_PRESETS[maskingType],
+    });
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const fieldPolicyService = new FieldPolicyService();
+export default fieldPolicyService;
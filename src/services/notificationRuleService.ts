@@ -0,0 +1,120 @@
+/**
+ * 案件通知规则服务
+ * 维护 notification_rule 表中的规则，并为规则编辑器加载预览所需的案件和程序流程
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import { validateCondition } from '@/src/utils/reminderCondition';
+import type { CaseProcedureFlow } from '@/src/types/caseProcedure';
+import type { NotificationRule, ReminderCaseData } from '@/src/types/caseReminder';
+import type { RecordId } from 'surrealdb';
+
+/**
+ * 校验规则配置，返回错误说明
+ * 触发条件为空时使用程序流程中当前阶段的期限设置
+ */
+export function validateNotificationRule(rule: NotificationRule): string[] {
+  const errors: string[] = [];
+  if (!rule.procedure_phase) errors.push('请选择案件阶段');
+  if (!rule.message_template.trim()) errors.push('请填写消息模板');
+  if (rule.trigger_condition.trim()) {
+    const conditionError = validateCondition(rule.trigger_condition);
+    if (conditionError) errors.push(`触发条件有误：${conditionError}`);
+  }
+  if (!/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(rule.notification_time)) {
+    errors.push('发送时间格式应为 HH:mm');
+  }
+  return errors;
+}
+
+export class NotificationRuleService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  async getRules(): Promise<NotificationRule[]> {
+    try {
+      const rules = await queryWithAuth<NotificationRule[]>(
+        this.client,
+        'SELECT * FROM notification_rule ORDER BY procedure_phase, created_at'
+      );
+      return rules || [];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取通知规则失败:', error);
+      throw new Error('获取通知规则失败');
+    }
+  }
+
+  /**
+   * 新建或更新规则
+   */
+  async saveRule(rule: NotificationRule): Promise<void> {
+    const errors = validateNotificationRule(rule);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const content = {
+      procedure_phase: rule.procedure_phase,
+      trigger_condition: rule.trigger_condition.trim(),
+      message_template: rule.message_template,
+      notification_frequency: rule.notification_frequency,
+      notification_time: rule.notification_time,
+      is_active: rule.is_active,
+    };
+    try {
+      if (rule.id) {
+        await queryWithAuth(this.client, 'UPDATE $id MERGE $content', { id: rule.id, content });
+      } else {
+        await queryWithAuth(this.client, 'CREATE notification_rule CONTENT $content', { content });
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('保存通知规则失败:', error);
+      throw new Error('保存通知规则失败');
+    }
+  }
+
+  async setActive(ruleId: RecordId | string, isActive: boolean): Promise<void> {
+    try {
+      await queryWithAuth(this.client, 'UPDATE $id SET is_active = $is_active', { id: ruleId, is_active: isActive });
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('更新通知规则状态失败:', error);
+      throw new Error('更新通知规则状态失败');
+    }
+  }
+
+  async deleteRule(ruleId: RecordId | string): Promise<void> {
+    try {
+      await queryWithAuth(this.client, 'DELETE $id', { id: ruleId });
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('删除通知规则失败:', error);
+      throw new Error('删除通知规则失败');
+    }
+  }
+
+  /**
+   * 加载预览所需的案件和启用的程序流程
+   */
+  async loadPreviewData(): Promise<{ cases: ReminderCaseData[]; flows: CaseProcedureFlow[] }> {
+    try {
+      const [cases, flows] = await queryWithAuth<[ReminderCaseData[], CaseProcedureFlow[]]>(
+        this.client,
+        'RETURN [(SELECT * FROM case), (SELECT * FROM case_procedure_flow WHERE is_active = true)]'
+      );
+      return { cases: cases || [], flows: flows || [] };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载案件数据失败:', error);
+      throw new Error('加载案件数据失败');
+    }
+  }
+}
+
+export default NotificationRuleService;
@@ -11,22 +11,152 @@ import {
   BatchProcessResult,
   APIResponse
 } from '@/src/types/pdfParser';
+import { calculateInterest } from '@/src/utils/interestCalculator';
+import {
+  DEFAULT_RECOGNITION_PROFILES,
+  recognizeDocument,
+  type DocumentRecognitionProfile,
+  type PdfTextPage,
+} from '@/src/utils/pdfFieldRecognition';
+import type { PdfExtractionRequest, PdfExtractionResponse } from '@/src/workers/pdf-extraction.worker';
+
+// 解析方式：local 在浏览器中解析（默认，支持离线和内网部署），remote 使用 /api/pdf 后端
+const PARSE_MODE = import.meta.env.VITE_PDF_PARSER_MODE === 'remote' ? 'remote' : 'local';
+const LOCAL_PARSE_ID_PREFIX = 'local-';
+
+interface PendingExtraction {
+  resolve: (result: ParseResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
 
 class PDFParseService {
   private baseUrl: string;
+  private worker: Worker | null = null;
+  private pendingExtractions = new Map<string, PendingExtraction>();
+  private localResults = new Map<string, ParseResult>();
+  private recognitionProfiles: DocumentRecognitionProfile[] = DEFAULT_RECOGNITION_PROFILES;
 
   constructor() {
     this.baseUrl = '/api/pdf';
   }
 
+  isLocalMode(): boolean {
+    return PARSE_MODE === 'local';
+  }
+
+  private isLocalParseId(parseId: string): boolean {
+    return parseId.startsWith(LOCAL_PARSE_ID_PREFIX);
+  }
+
+  /**
+   * 设置本地解析使用的文书识别规则
+   */
+  setRecognitionProfiles(profiles: DocumentRecognitionProfile[]): void {
+    this.recognitionProfiles = profiles;
+  }
+
+  getRecognitionProfiles(): DocumentRecognitionProfile[] {
+    return this.recognitionProfiles;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/pdf-extraction.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<PdfExtractionResponse>) => {
+        const message = event.data;
+        const pending = this.pendingExtractions.get(message.requestId);
+        if (!pending) return;
+
+        if (message.type === 'progress') {
+          pending.onProgress?.(message.progress);
+          return;
+        }
+        this.pendingExtractions.delete(message.requestId);
+        if (message.type === 'result') {
+          pending.resolve(message.result);
+        } else {
+          pending.reject(new Error(message.message));
+        }
+      };
+      this.worker.onerror = (event) => {
+        // Worker 崩溃时所有进行中的解析均失败，下次解析重新创建
+        const error = new Error(event.message || 'PDF解析线程异常');
+        this.pendingExtractions.forEach(pending => pending.reject(error));
+        this.pendingExtractions.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+
+  /**
+   * 在浏览器中解析PDF：提取文字层并按识别规则定位字段
+   * 不支持 Web Worker 的环境在主线程中解析
+   */
+  async parseLocally(
+    file: File,
+    options: { documentType?: string; onProgress?: (progress: number) => void } = {}
+  ): Promise<ParseResult> {
+    const startedAt = Date.now();
+    const fileId = `${startedAt.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const data = await file.arrayBuffer();
+
+    let result: ParseResult;
+    if (typeof Worker === 'undefined') {
+      const { extractPdfTextPages } = await import('@/src/utils/pdfTextExtraction');
+      const pages = await extractPdfTextPages(data, (pageNumber, totalPages) => {
+        options.onProgress?.(Math.round((pageNumber / totalPages) * 100));
+      });
+      result = recognizeDocument(pages, {
+        fileId,
+        fileName: file.name,
+        profiles: this.recognitionProfiles,
+        documentType: options.documentType,
+      });
+    } else {
+      result = await new Promise<ParseResult>((resolve, reject) => {
+        const request: PdfExtractionRequest = {
+          requestId: fileId,
+          fileId,
+          fileName: file.name,
+          data,
+          profiles: this.recognitionProfiles,
+          documentType: options.documentType,
+        };
+        this.pendingExtractions.set(fileId, { resolve, reject, onProgress: options.onProgress });
+        this.getWorker().postMessage(request, [data]);
+      });
+    }
+
+    result = { ...result, processingTime: Date.now() - startedAt };
+    this.localResults.set(result.id, result);
+    return result;
+  }
+
+  /**
+   * 只提取文字层，不识别字段；供模板设计器预览区域文字和测试样本
+   */
+  async extractTextPages(file: File): Promise<PdfTextPage[]> {
+    const { extractPdfTextPages } = await import('@/src/utils/pdfTextExtraction');
+    return extractPdfTextPages(await file.arrayBuffer());
+  }
+
   /**
    * 上传PDF文件
+   * 本地解析模式下直接在浏览器中解析，返回本地解析结果ID
    */
   async uploadFile(
     file: File, 
     caseId?: string,
     onProgress?: (progress: number) => void
   ): Promise<UploadResponse> {
+    if (this.isLocalMode()) {
+      const result = await this.parseLocally(file, { onProgress });
+      return { success: true, fileId: result.fileId, parseId: result.id };
+    }
+
     const formData = new FormData();
     formData.append('file', file);
     if (caseId) {
@@ -70,6 +200,14 @@ class PDFParseService {
    * 获取解析结果
    */
   async getParseResult(parseId: string): Promise<ParseResult> {
+    if (this.isLocalParseId(parseId)) {
+      const result = this.localResults.get(parseId);
+      if (!result) {
+        throw new Error('解析结果不存在，请重新解析文件');
+      }
+      return result;
+    }
+
     const response = await fetch(`${this.baseUrl}/parse-result/${parseId}`, {
       headers: {
         'Authorization': `Bearer ${this.getAuthToken()}`
@@ -117,6 +255,28 @@ class PDFParseService {
     fieldName: string, 
     fieldData: FieldEditForm
   ): Promise<void> {
+    if (this.isLocalParseId(parseId)) {
+      const result = await this.getParseResult(parseId);
+      const now = new Date();
+      this.localResults.set(parseId, {
+        ...result,
+        updatedAt: now,
+        fields: result.fields.map(field =>
+          field.name === fieldName
+            ? {
+                ...field,
+                value: fieldData.value,
+                originalValue: field.isModified ? field.originalValue : field.value,
+                isModified: true,
+                modifiedAt: now,
+                modificationReason: fieldData.reason,
+              }
+            : field
+        ),
+      });
+      return;
+    }
+
     const response = await fetch(`${this.baseUrl}/parse-result/${parseId}/field`, {
       method: 'PATCH',
       headers: {
@@ -141,28 +301,10 @@ class PDFParseService {
   }
 
   /**
-   * 计算利息
+   * 计算利息（本地计算引擎，结果可离线复核）
    */
   async calculateInterest(params: InterestCalculationParams): Promise<InterestCalculationResult> {
-    const response = await fetch(`${this.baseUrl}/calculate-interest`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.getAuthToken()}`
-      },
-      body: JSON.stringify(params)
-    });
-
-    if (!response.ok) {
-      throw new Error(`利息计算失败: ${response.statusText}`);
-    }
-
-    const data: APIResponse<InterestCalculationResult> = await response.json();
-    if (!data.success) {
-      throw new Error(data.error?.message || '利息计算失败');
-    }
-
-    return data.data!;
+    return calculateInterest(params);
   }
 
   /**
@@ -355,6 +497,11 @@ class PDFParseService {
    * 删除解析结果
    */
   async deleteParseResult(parseId: string): Promise<void> {
+    if (this.isLocalParseId(parseId)) {
+      this.localResults.delete(parseId);
+      return;
+    }
+
     const response = await fetch(`${this.baseUrl}/parse-result/${parseId}`, {
       method: 'DELETE',
       headers: {
@@ -376,6 +523,14 @@ class PDFParseService {
    * 导出解析结果
    */
   async exportParseResult(parseId: string, format: 'json' | 'excel' | 'pdf'): Promise<Blob> {
+    if (this.isLocalParseId(parseId)) {
+      if (format !== 'json') {
+        throw new Error('本地解析结果仅支持导出 JSON');
+      }
+      const result = await this.getParseResult(parseId);
+      return new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' });
+    }
+
     const response = await fetch(`${this.baseUrl}/parse-result/${parseId}/export`, {
       method: 'POST',
       headers: {
@@ -0,0 +1,365 @@
+/**
+ * 权限矩阵服务
+ * 以“角色 × 操作”矩阵批量维护 can_execute_operation 关系，
+ * 并按 has_role 与 has_case_role 模拟用户在指定案件中的有效权限，说明每个菜单和操作被授予或拒绝的原因。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import type { RecordId } from 'surrealdb';
+
+export interface PermissionRole {
+  id: RecordId | string;
+  name: string;
+  description?: string;
+}
+
+export interface PermissionMenu {
+  id: RecordId | string;
+  menu_id: string;
+  label_key: string;
+  path: string;
+  display_order: number;
+  is_active: boolean;
+}
+
+export interface PermissionOperation {
+  id: RecordId | string;
+  operation_id: string;
+  menu_id: string;
+  operation_name: string;
+  operation_type: string;
+  is_active: boolean;
+}
+
+// 角色到菜单或操作的授权关系，enabled 对应 can_access / can_execute
+export interface RoleGrant {
+  role: string;
+  target: string;
+  enabled: boolean;
+}
+
+export interface PermissionCatalog {
+  roles: PermissionRole[];
+  menus: PermissionMenu[];
+  operations: PermissionOperation[];
+  menuGrants: RoleGrant[];
+  operationGrants: RoleGrant[];
+}
+
+// 角色名 -> 已授权的操作ID
+export type PermissionMatrix = Record<string, string[]>;
+
+export interface PermissionChange {
+  role: string;
+  operationId: string;
+  action: 'grant' | 'revoke';
+}
+
+export type RoleScope = 'global' | 'case';
+
+export interface UserRoleAssignment {
+  role: string;
+  scope: RoleScope;
+}
+
+export interface PermissionExplanation {
+  id: string;
+  label: string;
+  granted: boolean;
+  sources: UserRoleAssignment[];   // 授予该权限的角色
+  reason: string;
+  notes: string[];
+}
+
+export interface EffectivePermissions {
+  roles: UserRoleAssignment[];
+  menus: PermissionExplanation[];
+  operations: PermissionExplanation[];
+}
+
+export interface SimulationUser {
+  id: RecordId | string;
+  name: string;
+  username?: string;
+}
+
+export interface SimulationCase {
+  id: RecordId | string;
+  name: string;
+  case_number?: string;
+}
+
+const SCOPE_LABELS: Record<RoleScope, string> = {
+  global: '全局角色',
+  case: '本案角色',
+};
+
+const describeSources = (sources: UserRoleAssignment[]) =>
+  sources.map(source => `${SCOPE_LABELS[source.scope]} ${source.role}`).join('、');
+
+/**
+ * 由授权关系生成操作矩阵，只计入已启用的授权
+ */
+export function buildOperationMatrix(catalog: PermissionCatalog): PermissionMatrix {
+  const matrix: PermissionMatrix = {};
+  for (const role of catalog.roles) {
+    matrix[role.name] = [];
+  }
+  for (const grant of catalog.operationGrants.filter(item => item.enabled)) {
+    if (!matrix[grant.role]) continue;
+    if (!matrix[grant.role].includes(grant.target)) {
+      matrix[grant.role].push(grant.target);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * 批量设置矩阵单元格，返回新的矩阵
+ */
+export function setMatrixCells(
+  matrix: PermissionMatrix,
+  roles: string[],
+  operationIds: string[],
+  granted: boolean
+): PermissionMatrix {
+  const next: PermissionMatrix = { ...matrix };
+  for (const role of roles) {
+    const current = new Set(next[role] || []);
+    operationIds.forEach(operationId => (granted ? current.add(operationId) : current.delete(operationId)));
+    next[role] = Array.from(current);
+  }
+  return next;
+}
+
+/**
+ * 比较编辑前后的矩阵，按角色、操作排序列出变更
+ */
+export function diffMatrix(original: PermissionMatrix, edited: PermissionMatrix): PermissionChange[] {
+  const changes: PermissionChange[] = [];
+  const roles = Array.from(new Set([...Object.keys(original), ...Object.keys(edited)])).sort();
+
+  for (const role of roles) {
+    const before = new Set(original[role] || []);
+    const after = new Set(edited[role] || []);
+    after.forEach(operationId => {
+      if (!before.has(operationId)) changes.push({ role, operationId, action: 'grant' });
+    });
+    before.forEach(operationId => {
+      if (!after.has(operationId)) changes.push({ role, operationId, action: 'revoke' });
+    });
+  }
+
+  return changes.sort((a, b) => a.role.localeCompare(b.role) || a.operationId.localeCompare(b.operationId));
+}
+
+/**
+ * 解释单个菜单或操作的授权情况
+ */
+function explain(
+  id: string,
+  label: string,
+  grants: RoleGrant[],
+  roles: UserRoleAssignment[],
+  isActive: boolean,
+  inactiveReason: string
+): PermissionExplanation {
+  const relevant = roles.filter(assignment => grants.some(grant => grant.role === assignment.role && grant.target === id));
+  const sources = relevant.filter(assignment =>
+    grants.some(grant => grant.role === assignment.role && grant.target === id && grant.enabled)
+  );
+
+  if (roles.length === 0) {
+    return { id, label, granted: false, sources, reason: '用户没有任何角色', notes: [] };
+  }
+  if (!isActive) {
+    return { id, label, granted: false, sources, reason: inactiveReason, notes: [] };
+  }
+  if (sources.length > 0) {
+    return { id, label, granted: true, sources, reason: `由${describeSources(sources)} 授予`, notes: [] };
+  }
+  if (relevant.length > 0) {
+    return { id, label, granted: false, sources, reason: `${describeSources(relevant)} 的授权已被关闭`, notes: [] };
+  }
+  const roleNames = Array.from(new Set(roles.map(assignment => assignment.role))).join('、');
+  return { id, label, granted: false, sources, reason: `用户的角色（${roleNames}）均未被授予`, notes: [] };
+}
+
+/**
+ * 计算用户的有效权限：全局角色与所选案件中的角色合并后，任一角色被授予即可访问
+ */
+export function resolveEffectivePermissions(
+  catalog: PermissionCatalog,
+  roles: UserRoleAssignment[]
+): EffectivePermissions {
+  const menus = catalog.menus.map(menu =>
+    explain(menu.menu_id, menu.label_key, catalog.menuGrants, roles, menu.is_active, '菜单已停用')
+  );
+  const accessibleMenus = new Set(menus.filter(menu => menu.granted).map(menu => menu.id));
+
+  const operations = catalog.operations.map(operation => {
+    // 操作检查不区分是否启用，与 menuService.hasOperation 的行为一致
+    const explanation = explain(
+      operation.operation_id,
+      operation.operation_name,
+      catalog.operationGrants,
+      roles,
+      true,
+      ''
+    );
+    if (!operation.is_active) {
+      explanation.notes.push('操作已停用，但权限检查仍按授权关系判断');
+    }
+    if (explanation.granted && !accessibleMenus.has(operation.menu_id)) {
+      explanation.notes.push(`所属菜单 ${operation.menu_id} 不可访问，界面中无法使用该操作`);
+    }
+    return explanation;
+  });
+
+  return { roles, menus, operations };
+}
+
+export class PermissionMatrixService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 加载角色、菜单、操作及其授权关系
+   */
+  async loadCatalog(): Promise<PermissionCatalog> {
+    try {
+      const [roles, menus, operations, menuGrants, operationGrants] = await Promise.all([
+        queryWithAuth<PermissionRole[]>(this.client, 'SELECT id, name, description FROM role ORDER BY name'),
+        queryWithAuth<PermissionMenu[]>(
+          this.client,
+          'SELECT id, menu_id, label_key, path, display_order, is_active FROM menu_metadata ORDER BY display_order'
+        ),
+        queryWithAuth<PermissionOperation[]>(
+          this.client,
+          'SELECT id, operation_id, menu_id, operation_name, operation_type, is_active FROM operation_metadata ORDER BY menu_id, operation_id'
+        ),
+        queryWithAuth<RoleGrant[]>(
+          this.client,
+          'SELECT in.name AS role, out.menu_id AS target, can_access AS enabled FROM can_access_menu'
+        ),
+        queryWithAuth<RoleGrant[]>(
+          this.client,
+          'SELECT in.name AS role, out.operation_id AS target, can_execute AS enabled FROM can_execute_operation'
+        ),
+      ]);
+      return {
+        roles: roles || [],
+        menus: menus || [],
+        operations: operations || [],
+        menuGrants: menuGrants || [],
+        operationGrants: operationGrants || [],
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载权限数据失败:', error);
+      throw new Error('加载权限数据失败');
+    }
+  }
+
+  /**
+   * 在单个事务中保存矩阵变更
+   * 授予时先删除已关闭的旧关系再重新建立，避免违反唯一索引
+   */
+  async saveOperationChanges(catalog: PermissionCatalog, changes: PermissionChange[]): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const statements: string[] = [];
+    const params: Record<string, unknown> = {};
+    changes.forEach((change, index) => {
+      const role = catalog.roles.find(item => item.name === change.role);
+      const operation = catalog.operations.find(item => item.operation_id === change.operationId);
+      if (!role || !operation) {
+        throw new Error(`未找到角色 ${change.role} 或操作 ${change.operationId}`);
+      }
+      params[`role_${index}`] = role.id;
+      params[`operation_${index}`] = operation.id;
+      statements.push(`DELETE can_execute_operation WHERE in = $role_${index} AND out = $operation_${index};`);
+      if (change.action === 'grant') {
+        statements.push(`RELATE $role_${index}->can_execute_operation->$operation_${index} SET can_execute = true;`);
+      }
+    });
+
+    try {
+      const query = `
+        BEGIN TRANSACTION;
+        ${statements.join('\n        ')}
+        COMMIT TRANSACTION;
+      `;
+      await queryWithAuth(this.client, query, params);
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('保存权限矩阵失败:', error);
+      throw new Error('保存权限矩阵失败');
+    }
+  }
+
+  /**
+   * 可供模拟的用户和案件
+   */
+  async loadSimulationTargets(): Promise<{ users: SimulationUser[]; cases: SimulationCase[] }> {
+    try {
+      const [users, cases] = await Promise.all([
+        queryWithAuth<SimulationUser[]>(this.client, 'SELECT id, name, username FROM user ORDER BY name'),
+        queryWithAuth<SimulationCase[]>(this.client, 'SELECT id, name, case_number FROM case ORDER BY created_at DESC'),
+      ]);
+      return { users: users || [], cases: cases || [] };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('加载用户和案件失败:', error);
+      throw new Error('加载用户和案件失败');
+    }
+  }
+
+  /**
+   * 查询用户的全局角色和在指定案件中的角色
+   */
+  async loadUserRoles(userId: RecordId | string, caseId?: RecordId | string | null): Promise<UserRoleAssignment[]> {
+    try {
+      const globalRoles = await queryWithAuth<string[]>(
+        this.client,
+        'SELECT VALUE out.name FROM has_role WHERE in = $user_id',
+        { user_id: userId }
+      );
+      const caseRoles = caseId
+        ? await queryWithAuth<string[]>(
+            this.client,
+            'SELECT VALUE out.name FROM has_case_role WHERE in = $user_id AND case_id = $case_id',
+            { user_id: userId, case_id: caseId }
+          )
+        : [];
+      return [
+        ...(globalRoles || []).map(role => ({ role, scope: 'global' as const })),
+        ...(caseRoles || []).map(role => ({ role, scope: 'case' as const })),
+      ];
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('查询用户角色失败:', error);
+      throw new Error('查询用户角色失败');
+    }
+  }
+
+  /**
+   * 以指定用户身份模拟有效权限
+   */
+  async simulate(
+    catalog: PermissionCatalog,
+    userId: RecordId | string,
+    caseId?: RecordId | string | null
+  ): Promise<EffectivePermissions> {
+    const roles = await this.loadUserRoles(userId, caseId);
+    return resolveEffectivePermissions(catalog, roles);
+  }
+}
+
+export default PermissionMatrixService;
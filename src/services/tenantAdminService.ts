@@ -0,0 +1,147 @@
+import { apiClient } from '@/src/utils/apiClient';
+import { getSchemaScripts, getTenantSeedScript } from '@/src/lib/tenantSchema';
+import { MigrationRunner } from '@/src/lib/migrationRunner';
+import type { MigrationRecord } from '@/src/lib/migrationRunner';
+
+export type TenantStatus = 'active' | 'suspended' | 'deleted';
+
+export interface Tenant {
+  tenant_code: string;
+  tenant_name: string;
+  database_name: string;
+  admin_username: string;
+  admin_password: string;
+  status: TenantStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateTenantData {
+  tenant_code: string;
+  tenant_name: string;
+  admin_username: string;
+}
+
+/** 租户用量统计，storage_bytes 为文档与消息附件的文件大小合计 */
+export interface TenantUsage {
+  cases: number;
+  users: number;
+  storage_bytes: number;
+}
+
+/** 租户库结构版本：已执行与待执行的迁移 */
+export interface TenantSchemaVersion {
+  applied: MigrationRecord[];
+  pending: string[];
+  current: string | null;
+  latest: string | null;
+}
+
+/** 开通租户的步骤，用于展示进度 */
+export type ProvisionStep = 'create' | 'schema' | 'seed' | 'done';
+
+/**
+ * 租户生命周期管理（root 管理员）
+ * 租户库的创建与账号由后端完成，结构迁移和默认数据通过后端在租户库中执行 SurrealQL
+ * 执行接口只对 root 管理员开放，约定见 doc/tenant-admin-api.md
+ */
+class TenantAdminService {
+  /**
+   * 开通租户：创建命名空间/数据库与管理员账号，执行全部结构脚本并写入默认数据
+   */
+  async provisionTenant(
+    data: CreateTenantData,
+    onProgress?: (step: ProvisionStep) => void
+  ): Promise<Tenant> {
+    onProgress?.('create');
+    const tenant: Tenant = await apiClient.createTenant(data);
+
+    try {
+      onProgress?.('schema');
+      await this.applyPendingMigrations(tenant.tenant_code);
+      onProgress?.('seed');
+      await this.seedDefaults(tenant.tenant_code);
+    } catch (error) {
+      console.error('初始化租户数据库失败:', error);
+      throw new Error(`租户 ${tenant.tenant_code} 已创建，但初始化数据库失败，请在租户列表中升级结构后重试`);
+    }
+
+    onProgress?.('done');
+    return tenant;
+  }
+
+  /**
+   * 查询租户库的结构版本，已执行的迁移脚本被修改时抛出 MigrationChecksumError
+   */
+  async getSchemaVersion(tenantCode: string): Promise<TenantSchemaVersion> {
+    const { applied, pending, current, latest } = await this.createRunner(tenantCode).status();
+    return { applied, pending: pending.map(migration => migration.id), current, latest };
+  }
+
+  /**
+   * 依次执行未执行的迁移
+   * @returns 本次执行的迁移版本号
+   */
+  async applyPendingMigrations(tenantCode: string): Promise<string[]> {
+    return this.createRunner(tenantCode).migrate();
+  }
+
+  /**
+   * 写入租户默认数据
+   */
+  async seedDefaults(tenantCode: string): Promise<void> {
+    try {
+      await apiClient.executeTenantQuery(tenantCode, getTenantSeedScript());
+    } catch (error) {
+      console.error('写入租户默认数据失败:', error);
+      throw new Error('写入租户默认数据失败');
+    }
+  }
+
+  /**
+   * 统计租户的案件数、用户数和文件存储量
+   */
+  async getTenantUsage(tenantCode: string): Promise<TenantUsage> {
+    const result = await apiClient.executeTenantQuery(
+      tenantCode,
+      `SELECT count() AS total FROM case GROUP ALL;
+       SELECT count() AS total FROM user GROUP ALL;
+       SELECT math::sum(file_size ?? 0) AS total FROM document GROUP ALL;
+       SELECT math::sum(file_size) AS total FROM message_attachment GROUP ALL;`
+    );
+    const total = (index: number): number => {
+      const rows = result[index] as Array<{ total?: number }> | undefined;
+      return Number(rows?.[0]?.total ?? 0);
+    };
+
+    return {
+      cases: total(0),
+      users: total(1),
+      storage_bytes: total(2) + total(3),
+    };
+  }
+
+  /**
+   * 停用租户，停用后租户用户无法登录，数据保留
+   */
+  async suspendTenant(tenantCode: string): Promise<Tenant> {
+    return apiClient.updateTenant(tenantCode, { status: 'suspended' });
+  }
+
+  /**
+   * 恢复已停用的租户
+   */
+  async resumeTenant(tenantCode: string): Promise<Tenant> {
+    return apiClient.updateTenant(tenantCode, { status: 'active' });
+  }
+
+  private createRunner(tenantCode: string): MigrationRunner {
+    return new MigrationRunner(
+      { query: (sql, vars) => apiClient.executeTenantQuery(tenantCode, sql, vars) },
+      getSchemaScripts()
+    );
+  }
+}
+
+export const tenantAdminService = new TenantAdminService();
+export default tenantAdminService;
@@ -0,0 +1,124 @@
+/**
+ * 快递单服务
+ * 读取案件管理人作为寄件人，记录债权人寄送记录（运单号、寄送文书、寄送时间），
+ * 并维护债权人最近一次寄送的投递状态。
+ */
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { AuthenticationRequiredError } from '@/src/contexts/SurrealProvider';
+import type { RecordId } from 'surrealdb';
+import type { CourierCode, DeliveryStatus, WaybillEntry, WaybillSender } from '@/src/types/waybill';
+
+interface CaseSenderRow {
+  name?: string;
+  case_manager_name?: string;
+  manager_organization?: string;
+  manager_contact_phone?: string;
+  manager_address?: string;
+}
+
+export class WaybillService {
+  private client: any;
+
+  constructor(surrealClient: any) {
+    this.client = surrealClient;
+  }
+
+  /**
+   * 获取案件管理人寄件信息，未设置管理人名称时使用“案件名称 + 管理人”
+   */
+  async getSenderInfo(caseId: RecordId | string): Promise<WaybillSender> {
+    try {
+      const query = `
+        SELECT name, case_manager_name, manager_organization, manager_contact_phone, manager_address
+        FROM type::record($case_id)
+      `;
+      const [row = {}] = (await queryWithAuth<CaseSenderRow[]>(this.client, query, {
+        case_id: String(caseId)
+      })) || [];
+      return {
+        name: row.manager_organization || (row.name ? `${row.name}管理人` : ''),
+        contact_person: row.case_manager_name || '',
+        phone: row.manager_contact_phone || '',
+        address: row.manager_address || ''
+      };
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('获取寄件人信息失败:', error);
+      throw new Error('获取寄件人信息失败');
+    }
+  }
+
+  /**
+   * 在单个事务中写入寄送记录并更新债权人的最近运单号和投递状态
+   */
+  async recordMailings(
+    caseId: RecordId | string,
+    courier: CourierCode,
+    documentName: string,
+    entries: WaybillEntry[],
+    sentAt: Date = new Date()
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const statements: string[] = [];
+    const params: Record<string, unknown> = {
+      case_id: caseId,
+      courier,
+      document_name: documentName,
+      sent_at: sentAt
+    };
+    entries.forEach((entry, index) => {
+      params[`creditor_${index}`] = entry.creditor_id;
+      params[`tracking_${index}`] = entry.tracking_number;
+      statements.push(
+        `CREATE creditor_mailing_record CONTENT { case_id: $case_id, creditor_id: $creditor_${index}, courier: $courier, tracking_number: $tracking_${index}, document_name: $document_name, sent_at: $sent_at, delivery_status: 'printed' };`,
+        `UPDATE $creditor_${index} SET delivery_status = 'printed', last_tracking_number = $tracking_${index}, last_mailed_at = $sent_at;`
+      );
+    });
+
+    try {
+      const query = `
+        BEGIN TRANSACTION;
+        ${statements.join('\n        ')}
+        COMMIT TRANSACTION;
+      `;
+      await queryWithAuth(this.client, query, params);
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('保存寄送记录失败:', error);
+      if (error instanceof Error && error.message.includes('creditor_mailing_record_tracking_idx')) {
+        throw new Error('运单号已被使用，请检查后重试');
+      }
+      throw new Error('保存寄送记录失败');
+    }
+  }
+
+  /**
+   * 更新债权人最近一次寄送的投递状态
+   */
+  async updateDeliveryStatus(creditorId: RecordId | string, status: DeliveryStatus): Promise<void> {
+    try {
+      const query = `
+        BEGIN TRANSACTION;
+        LET $latest = (SELECT id, sent_at FROM creditor_mailing_record WHERE creditor_id = $creditor_id ORDER BY sent_at DESC LIMIT 1)[0].id;
+        IF $latest = NONE { THROW '该债权人尚无寄送记录' };
+        UPDATE $latest SET delivery_status = $status;
+        UPDATE $creditor_id SET delivery_status = $status;
+        COMMIT TRANSACTION;
+      `;
+      await queryWithAuth(this.client, query, {
+        creditor_id: creditorId,
+        status
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationRequiredError) throw error;
+      console.error('更新投递状态失败:', error);
+      throw new Error('更新投递状态失败');
+    }
+  }
+}
+
+export default WaybillService;
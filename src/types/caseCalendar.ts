@@ -0,0 +1,67 @@
+/**
+ * 案件期限日历相关类型定义
+ */
+
+import { RecordId } from 'surrealdb';
+
+// statutory_deadline: 按程序流程推算的法定期限；case_date: 案件已登记的关键日期；meeting: 会议
+export type CaseCalendarEventKind = 'statutory_deadline' | 'case_date' | 'meeting';
+
+// done: 已完成或已过去；overdue: 期限已过但案件仍未进入下一阶段；at_risk: 临近期限
+export type CaseCalendarEventStatus = 'done' | 'overdue' | 'at_risk' | 'upcoming';
+
+export interface CaseCalendarEvent {
+  /** 稳定的事件 ID，同时用作 iCalendar UID */
+  id: string;
+  kind: CaseCalendarEventKind;
+  case_id: string;
+  case_number: string;
+  case_name: string;
+  title: string;
+  description?: string;
+  start: Date;
+  end?: Date;
+  all_day: boolean;
+  status: CaseCalendarEventStatus;
+  /** 距今天的天数，已过为负数 */
+  days_remaining: number;
+  /** 法定期限所属的程序阶段 */
+  phase?: string;
+  /** 期限届满日为节假日时顺延前的日期 */
+  original_date?: Date;
+  /** 法定期限提前提醒的天数 */
+  remind_within_days?: number;
+  meeting_link?: string;
+}
+
+export interface CaseCalendarCase {
+  id: RecordId | string;
+  case_number: string;
+  name: string;
+  case_procedure: string;
+  procedure_phase: string;
+  [field: string]: unknown;
+}
+
+export interface CaseCalendarMeeting {
+  id: RecordId | string;
+  case_id: RecordId | string;
+  meeting_name: string;
+  meeting_type: string;
+  scheduled_start_date: string | Date;
+  scheduled_end_date?: string | Date;
+  status?: string;
+  meeting_link?: string;
+  meeting_agenda?: string;
+}
+
+// 日历订阅：日历应用凭 token 从后端拉取 .ics，case_id 为空时订阅全部案件
+export interface CalendarFeed {
+  id: RecordId | string;
+  user_id: RecordId | string;
+  case_id?: RecordId | string;
+  token: string;
+  created_at: string;
+  revoked_at?: string;
+  last_fetched_at?: string;
+}
@@ -0,0 +1,84 @@
+/**
+ * 案件程序流程（状态机）相关类型定义
+ */
+
+import { RecordId } from 'surrealdb';
+
+// 案件程序阶段，取值由程序流程定义决定
+export type CaseProcedurePhaseName = string;
+
+// 阶段法定期限：基准日期 + 期限
+export interface CaseProcedureDeadline {
+  /** case 表中的基准日期字段，如 acceptance_date */
+  base_date_field: string;
+  offset_days?: number;
+  offset_months?: number;
+  /** 距截止日期不超过该天数时提醒 */
+  remind_within_days: number;
+  description?: string;
+}
+
+export interface CaseProcedurePhase {
+  name: CaseProcedurePhaseName;
+  display_order: number;
+  is_terminal: boolean;
+  deadline?: CaseProcedureDeadline;
+}
+
+// 阶段变更必填项，field 对应 case 表字段
+export interface CaseProcedureRequirement {
+  field: string;
+  label: string;
+}
+
+export interface CaseProcedureTransition {
+  /** 起始阶段，'*' 表示任意非终结阶段 */
+  from: CaseProcedurePhaseName | '*';
+  to: CaseProcedurePhaseName;
+  required_date_fields: CaseProcedureRequirement[];
+  required_documents: CaseProcedureRequirement[];
+  /** 允许执行变更的角色，admin 始终允许 */
+  allowed_roles: string[];
+}
+
+export interface CaseProcedureFlow {
+  id?: RecordId | string;
+  procedure_type: string;
+  name: string;
+  description?: string;
+  initial_phase: CaseProcedurePhaseName;
+  phases: CaseProcedurePhase[];
+  transitions: CaseProcedureTransition[];
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// 阶段变更日志
+export interface CaseProcedureTransitionLog {
+  id: RecordId | string;
+  case_id: RecordId | string;
+  procedure_type: string;
+  from_phase: CaseProcedurePhaseName;
+  to_phase: CaseProcedurePhaseName;
+  operator_id?: RecordId | string;
+  operator_name?: string;
+  field_values: Record<string, unknown>;
+  created_at: string;
+}
+
+// 阶段变更时提交的文书
+export interface CaseProcedureDocumentInput {
+  title: string;
+  /** Quill Delta 内容 */
+  content: unknown;
+}
+
+export interface TransitionCaseParams {
+  case_id: RecordId | string;
+  to_phase: CaseProcedurePhaseName;
+  /** 日期字段值，格式 yyyy-MM-dd */
+  date_values: Record<string, string>;
+  /** 文书字段 -> 文书内容 */
+  documents: Record<string, CaseProcedureDocumentInput>;
+}
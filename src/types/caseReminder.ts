@@ -0,0 +1,44 @@
+/**
+ * 案件提醒规则相关类型定义
+ */
+
+import { RecordId } from 'surrealdb';
+
+// ONCE: 每个截止日期只提醒一次；WORKDAY: 仅工作日每日提醒
+export type ReminderFrequency = 'ONCE' | 'DAILY' | 'WORKDAY' | 'WEEKLY';
+
+export interface NotificationRule {
+  id?: RecordId | string;
+  procedure_phase: string;
+  /** 触发条件表达式，语法见 src/utils/reminderCondition.ts */
+  trigger_condition: string;
+  /** 消息模板，支持 {{days}}、{{deadline}}、{{case_number}}、{{case_name}} */
+  message_template: string;
+  notification_frequency: ReminderFrequency;
+  /** 当天不早于该时间（HH:mm）发送 */
+  notification_time: string;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ReminderCaseData {
+  id: RecordId | string;
+  case_number: string;
+  name: string;
+  case_procedure: string;
+  procedure_phase: string;
+  acceptance_date: string;
+  [field: string]: unknown;
+}
+
+// 单个案件对单条规则的判定结果
+export interface ReminderEvaluation {
+  fired: boolean;
+  /** 条件中引用的截止日期，用于 {{days}} 和按截止日期去重 */
+  target: Date | null;
+  days: number | null;
+  /** 去重周期，同一案件、规则、周期只提醒一次 */
+  period_key: string | null;
+  error?: string;
+}
@@ -0,0 +1,81 @@
+// 由解析文书生成债权申报时的取值来源（证据定位）相关类型定义
+
+import type { BoundingBox } from '@/src/types/pdfParser';
+import type { ClaimInterestTerms } from '@/src/types/claimReview';
+
+// 可由文书取值预填的申报字段
+export type ClaimEvidenceField =
+  | 'creditor_name'
+  | 'creditor_legal_id'
+  | 'principal'
+  | 'interest'
+  | 'total_asserted_amount'
+  | 'brief_description';
+
+// 单个取值的来源：解析字段及其所在页码和位置
+export interface ClaimValueEvidence {
+  claim_field: ClaimEvidenceField;
+  source_field: string; // 解析字段名，如 principal_amount
+  source_label: string; // 解析字段显示名
+  value: unknown;
+  page_number: number;
+  position?: BoundingBox; // PDF 点，左上角为原点；后端解析结果可能缺少位置
+  source_text?: string;
+  confidence: number;
+  is_modified?: boolean; // 解析后经人工修正
+}
+
+// 随债权申报保存的来源文书
+export interface ClaimSourceEvidence {
+  document_id?: string; // 原始 PDF 所在的 document 记录
+  file_name: string;
+  parse_id: string;
+  parsed_at: string;
+  values: ClaimValueEvidence[];
+}
+
+// 与文书中债权人匹配的已有债权人
+export interface CreditorMatch {
+  id: string;
+  name: string;
+  legal_id: string;
+  matched_by: 'legal_id' | 'name';
+}
+
+// 由解析结果映射出的申报数据，尚未关联案件和债权人
+export interface ClaimDraftFromDocument {
+  creditor: {
+    name: string;
+    legal_id: string;
+    type: 'organization' | 'individual';
+  };
+  asserted_claim_details: {
+    nature: string;
+    principal: number;
+    interest: number;
+    other_amount: number;
+    total_asserted_amount: number;
+    currency: string;
+    brief_description: string;
+    interest_terms?: ClaimInterestTerms;
+  };
+  evidence: ClaimValueEvidence[];
+  warnings: string[];
+}
+
+// 跳转申报页面时携带的预填数据（通过路由 state 传递）
+export interface ClaimPrefill {
+  case_id: string;
+  // 申报人不是该案件债权人时用于补充案件选项
+  case_name: string;
+  case_number: string;
+  creditor_id: string;
+  creditor_name: string;
+  asserted_claim_details: ClaimDraftFromDocument['asserted_claim_details'];
+  source_evidence: ClaimSourceEvidence;
+  attachment: {
+    name: string;
+    size: number;
+    document_id: string;
+  };
+}
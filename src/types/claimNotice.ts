@@ -0,0 +1,86 @@
+/**
+ * 债权审查结果通知书（邮件合并生成）相关类型定义
+ */
+
+import type { RecordId } from 'surrealdb';
+
+// 通知书状态：已生成 → 已送达（站内消息）/ 送达失败 → 债权人已确认；债权人没有关联用户时无法送达
+export type ClaimNoticeStatus = 'generated' | 'sent' | 'failed' | 'acknowledged' | 'undeliverable';
+
+export const CLAIM_NOTICE_STATUS_LABELS: Record<ClaimNoticeStatus, { label: string; color: 'default' | 'info' | 'success' | 'error' }> = {
+  generated: { label: '已生成', color: 'default' },
+  sent: { label: '已送达', color: 'info' },
+  failed: { label: '送达失败', color: 'error' },
+  acknowledged: { label: '已确认收悉', color: 'success' },
+  undeliverable: { label: '无法送达', color: 'error' }
+};
+
+// 可生成通知书的已审查债权，包含合并所需的债权、债权人和案件字段
+export interface ClaimNoticeCandidate {
+  claim_id: RecordId | string;
+  claim_number: string;
+  review_status: string;
+  review_comments?: string;
+  review_time?: string;
+  /** 债权人关联的系统用户，没有关联用户时为空 */
+  recipient_user_id?: RecordId | string;
+  creditor_id: RecordId | string;
+  creditor_name: string;
+  creditor_legal_id?: string;
+  creditor_address?: string;
+  case_id: RecordId | string;
+  case_name: string;
+  case_number: string;
+  case_manager_name?: string;
+  manager_organization?: string;
+  asserted_nature: string;
+  asserted_total: number;
+  approved_nature?: string;
+  approved_principal?: number;
+  approved_interest?: number;
+  approved_other_amount?: number;
+  approved_total?: number;
+  currency: string;
+  /** 该债权最近一次通知书的状态，未生成过时为空 */
+  latest_notice_status?: ClaimNoticeStatus;
+}
+
+// 通知书记录
+export interface ClaimNotice {
+  id: RecordId | string;
+  case_id: RecordId | string;
+  claim_id: RecordId | string;
+  claim_number: string;
+  creditor_id: RecordId | string;
+  creditor_name: string;
+  document_id: RecordId | string;
+  template_id: string;
+  title: string;
+  recipient_user_id?: RecordId | string;
+  status: ClaimNoticeStatus;
+  objection_deadline: string;
+  message_id?: RecordId | string;
+  sent_at?: string;
+  acknowledged_at?: string;
+  failure_reason?: string;
+  created_at: string;
+}
+
+// 批量生成通知书参数
+export interface GenerateClaimNoticesParams {
+  case_id: RecordId | string;
+  template_id: string;
+  /** Quill Delta JSON 字符串 */
+  template_content: string;
+  candidates: ClaimNoticeCandidate[];
+  objection_deadline: Date;
+  notice_date?: Date;
+}
+
+// 站内消息送达结果
+export interface ClaimNoticeDeliveryResult {
+  sent: number;
+  failed: number;
+  /** 债权人没有关联用户、无法送达的份数 */
+  undeliverable: number;
+}
@@ -0,0 +1,110 @@
+/**
+ * 债权异议（对审查结果提出异议）及异议复核相关类型定义
+ */
+
+import type { RecordId } from 'surrealdb';
+import type { ClaimReviewAmounts, ClaimReviewDecision } from '@/src/types/claimReview';
+
+// 异议状态：待复核 → 维持原审查结论 / 变更审查结论 / 转入债权确认之诉
+export type ClaimObjectionStatus = 'pending' | 'upheld' | 'modified' | 'litigation';
+
+// 复核结果
+export type ClaimObjectionOutcome = Exclude<ClaimObjectionStatus, 'pending'>;
+
+export const CLAIM_OBJECTION_STATUS_LABELS: Record<ClaimObjectionStatus, { label: string; color: 'default' | 'info' | 'success' | 'warning' | 'primary' }> = {
+  pending: { label: '待复核', color: 'warning' },
+  upheld: { label: '维持原审查结论', color: 'default' },
+  modified: { label: '变更审查结论', color: 'success' },
+  litigation: { label: '债权确认之诉', color: 'primary' }
+};
+
+// 异议理由中的附件（富文本中插入的文件链接或图片）
+export interface ClaimObjectionAttachment {
+  name: string;
+  url: string;
+}
+
+// 异议记录
+export interface ClaimObjection {
+  id: RecordId | string;
+  case_id: RecordId | string;
+  claim_id: RecordId | string;
+  claim_number: string;
+  creditor_id: RecordId | string;
+  creditor_name: string;
+  notice_id?: RecordId | string;
+  /** 异议理由文档（Quill Delta） */
+  reason_doc_id: RecordId | string;
+  /** 异议理由纯文本摘要，供复核列表展示 */
+  reason_summary: string;
+  attachments: ClaimObjectionAttachment[];
+  objection_deadline: string;
+  /** 提出异议前的审查结论，维持原结论时据此恢复 */
+  previous_status: string;
+  previous_review_status_id?: RecordId | string;
+  status: ClaimObjectionStatus;
+  resolution_comments?: string;
+  litigation_case_number?: string;
+  resolved_by?: RecordId | string;
+  resolved_at?: string;
+  created_by?: RecordId | string;
+  created_at: string;
+}
+
+// 复核队列中的异议，附带申报金额和当前认定金额
+export interface ClaimObjectionQueueItem extends ClaimObjection {
+  asserted_principal?: number;
+  asserted_interest?: number;
+  asserted_other_amount?: number;
+  asserted_total?: number;
+  approved_nature?: string;
+  approved_principal?: number;
+  approved_interest?: number;
+  approved_other_amount?: number;
+  approved_total?: number;
+  currency?: string;
+}
+
+// 债权人提出异议所需的债权信息
+export interface ClaimObjectionContext {
+  claim_id: RecordId | string;
+  claim_number: string;
+  case_id: RecordId | string;
+  creditor_id: RecordId | string;
+  creditor_name: string;
+  review_status: string;
+  review_status_id?: RecordId | string;
+  review_time?: string;
+  /** 最近一次已送达的审查结果通知书 */
+  notice_id?: RecordId | string;
+  notice_deadline?: string;
+  objections: ClaimObjection[];
+}
+
+export interface ClaimObjectionEligibility {
+  allowed: boolean;
+  deadline?: Date;
+  reason?: string;
+}
+
+// 提交异议参数
+export interface SubmitClaimObjectionParams {
+  claim_id: RecordId | string;
+  /** 异议理由（Quill Delta） */
+  reason: { ops: Array<{ insert?: unknown; attributes?: Record<string, unknown> }> };
+}
+
+// 异议复核参数
+export interface ResolveClaimObjectionParams {
+  objection_id: RecordId | string;
+  outcome: ClaimObjectionOutcome;
+  resolution_comments: string;
+  /** 变更审查结论时的新结论和认定金额 */
+  modified?: {
+    decision: Exclude<ClaimReviewDecision, '要求补充材料'>;
+    approved: ClaimReviewAmounts & { nature: string; currency: string };
+    asserted: ClaimReviewAmounts;
+  };
+  /** 转入债权确认之诉时的案号 */
+  litigation_case_number?: string;
+}
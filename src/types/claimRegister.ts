@@ -0,0 +1,81 @@
+/**
+ * 债权表（债权人会议核查用）相关类型定义
+ */
+
+import { RecordId } from 'surrealdb';
+
+// 审查结论
+export enum ClaimRegisterOutcome {
+  CONFIRMED = 'confirmed',
+  PARTIALLY_CONFIRMED = 'partially_confirmed',
+  NOT_CONFIRMED = 'not_confirmed',
+  PENDING = 'pending'
+}
+
+// 金额构成
+export interface ClaimRegisterAmounts {
+  principal: number;
+  interest: number;
+  other_amount: number;
+  total: number;
+}
+
+// 债权表条目
+export interface ClaimRegisterEntry {
+  claim_id: string;
+  claim_number: string;
+  creditor_name: string;
+  creditor_legal_id: string;
+  creditor_type?: 'organization' | 'individual';
+  nature: string;
+  asserted: ClaimRegisterAmounts;
+  approved: ClaimRegisterAmounts | null;
+  review_status: string;
+  outcome: ClaimRegisterOutcome;
+  review_comments?: string;
+}
+
+// 小计
+export interface ClaimRegisterSubtotal {
+  claim_count: number;
+  asserted: ClaimRegisterAmounts;
+  approved: ClaimRegisterAmounts;
+}
+
+// 按债权性质分组
+export interface ClaimRegisterNatureGroup {
+  nature: string;
+  display_order: number;
+  entries: ClaimRegisterEntry[];
+  subtotal: ClaimRegisterSubtotal;
+}
+
+// 债权表
+export interface ClaimRegister {
+  case_id: string;
+  case_name: string;
+  case_number: string;
+  generated_at: string;
+  /** 已审查债权，按债权性质分组 */
+  reviewed_groups: ClaimRegisterNatureGroup[];
+  /** 有异议或尚未审查完毕的债权，单独列示 */
+  pending_entries: ClaimRegisterEntry[];
+  pending_subtotal: ClaimRegisterSubtotal;
+  reviewed_total: ClaimRegisterSubtotal;
+}
+
+// 已发布的债权表版本
+export interface ClaimRegisterEdition {
+  id?: string | RecordId;
+  document_id: string | RecordId;
+  version_number: number;
+  change_summary?: string;
+  created_at?: string;
+  created_by?: string | RecordId;
+  register: ClaimRegister;
+}
+
+export interface PublishClaimRegisterParams {
+  case_id: string | RecordId;
+  change_summary?: string;
+}
@@ -0,0 +1,120 @@
+// 债权审核相关类型定义
+
+import type { RecordId } from 'surrealdb';
+import type {
+  BenchmarkRateType,
+  InterestCalculationParams
+} from '@/src/types/pdfParser';
+import type { ClaimSourceEvidence } from '@/src/types/claimEvidence';
+
+// 债权金额组成部分
+export type ClaimAmountComponent = 'principal' | 'interest' | 'other';
+
+// 审核结论
+export type ClaimReviewDecision = '审核通过' | '部分通过' | '已驳回' | '要求补充材料';
+
+// 债权申报中登记的合同计息条款，用于审核时重算利息
+export interface ClaimInterestTerms {
+  interest_start_date: string; // 起息日
+  rate_source: 'fixed' | BenchmarkRateType; // 约定利率或基准利率
+  interest_rate?: number; // 约定利率（%）
+  rate_type?: InterestCalculationParams['rateType'];
+  rate_multiplier?: number; // 利率倍数，如罚息 LPR×1.5
+  compound_frequency?: InterestCalculationParams['compoundFrequency'];
+  day_count_convention?: InterestCalculationParams['dayCountConvention'];
+  contract_number?: string;
+}
+
+// 核减理由代码
+export type ClaimReductionReasonCode =
+  | 'over_limit_interest'
+  | 'unsupported_penalty'
+  | 'time_barred'
+  | 'post_acceptance_interest'
+  | 'insufficient_evidence'
+  | 'paid_or_offset'
+  | 'duplicate_claim'
+  | 'calculation_error'
+  | 'other';
+
+export interface ClaimReductionReason {
+  code: ClaimReductionReasonCode;
+  label: string;
+  component: ClaimAmountComponent;
+  reduced_amount: number; // 该组成部分的核减金额
+}
+
+// 申报与认定金额差异
+export interface ClaimReviewVarianceRow {
+  component: ClaimAmountComponent | 'total';
+  label: string;
+  asserted: number;
+  approved: number;
+  delta: number; // 认定 - 申报，负数为核减
+}
+
+export interface ClaimReviewAmounts {
+  principal: number;
+  interest: number;
+  other: number;
+}
+
+// 审核时的利息重算记录，随版本历史保存供审核通知书引用
+export interface ClaimInterestRecalculation {
+  terms: ClaimInterestTerms;
+  acceptance_date?: string;
+  accrual_end_date: string;
+  interest: number;
+  formula: string;
+}
+
+// 审核页面所需的债权、债权人及案件信息
+export interface ClaimReviewContext {
+  id: string;
+  claim_number: string;
+  case_id: string;
+  status: string;
+  submission_time?: string;
+  review_comments?: string;
+  review_time?: string;
+  reviewer_name?: string;
+  case_acceptance_date?: string;
+  creditor: {
+    name: string;
+    type: 'organization' | 'individual';
+    legal_id: string;
+    contact_person_name?: string;
+    contact_phone?: string;
+    contact_email?: string;
+  };
+  asserted_claim_details: {
+    nature: string;
+    currency: string;
+    principal: number;
+    interest: number;
+    other_amount?: number;
+    total_asserted_amount: number;
+    brief_description?: string;
+    attachment_doc_id?: RecordId | string;
+    attachment_content?: unknown[];
+    interest_terms?: ClaimInterestTerms;
+    source_evidence?: ClaimSourceEvidence;
+  };
+  approved_claim_details?: {
+    nature: string;
+    principal: number;
+    interest: number;
+    other_amount?: number;
+    total_approved_amount: number;
+  };
+}
+
+export interface SubmitClaimReviewParams {
+  claim_id: string | RecordId;
+  decision: ClaimReviewDecision;
+  approved: ClaimReviewAmounts & { nature: string; currency: string };
+  asserted: ClaimReviewAmounts;
+  review_opinion: string;
+  reduction_reasons: ClaimReductionReason[];
+  interest_recalculation?: ClaimInterestRecalculation;
+}
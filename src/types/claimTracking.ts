@@ -3,6 +3,11 @@
  */
 
 import { RecordId } from 'surrealdb';
+import type {
+  ClaimInterestRecalculation,
+  ClaimReductionReason,
+  ClaimReviewVarianceRow
+} from '@/src/types/claimReview';
 
 // 操作类型枚举
 export enum OperationType {
@@ -15,7 +20,10 @@ export enum OperationType {
   REJECT = 'reject',
   SUPPLEMENT_REQUEST = 'supplement_request',
   DELETE = 'delete',
-  VIEW = 'view'
+  VIEW = 'view',
+  CONFLICT_RESOLVE = 'conflict_resolve',
+  OBJECTION_SUBMIT = 'objection_submit',
+  OBJECTION_RESOLVE = 'objection_resolve'
 }
 
 // 访问类型枚举
@@ -33,7 +41,9 @@ export enum VersionType {
   SUBMISSION = 'submission',
   REVIEW_UPDATE = 'review_update',
   APPROVAL = 'approval',
-  REJECTION = 'rejection'
+  REJECTION = 'rejection',
+  OBJECTION = 'objection',
+  OBJECTION_RESOLUTION = 'objection_resolution'
 }
 
 // 状态流转类型枚举
@@ -93,6 +103,10 @@ export interface ClaimVersionHistory {
   created_at: string;
   related_operation_log_id?: string | RecordId;
   checksum?: string;
+  // 审核版本记录的核减理由、金额差异及利息重算，供审核通知书引用
+  reduction_reasons?: ClaimReductionReason[];
+  review_variance?: ClaimReviewVarianceRow[];
+  interest_recalculation?: ClaimInterestRecalculation;
 }
 
 // 债权状态流转接口
@@ -233,6 +247,9 @@ export interface CreateVersionSnapshotParams {
   change_summary?: string;
   change_reason?: string;
   related_operation_log_id?: string | RecordId;
+  reduction_reasons?: ClaimReductionReason[];
+  review_variance?: ClaimReviewVarianceRow[];
+  interest_recalculation?: ClaimInterestRecalculation;
 }
 
 // 状态流转记录参数
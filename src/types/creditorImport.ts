@@ -0,0 +1,77 @@
+// 债权人批量导入相关类型定义
+
+import type { RecordId } from 'surrealdb';
+
+// 可映射的债权人字段
+export type CreditorImportFieldKey =
+  | 'type'
+  | 'name'
+  | 'legal_id'
+  | 'contact_person_name'
+  | 'contact_phone'
+  | 'contact_address';
+
+export interface CreditorImportField {
+  key: CreditorImportFieldKey;
+  label: string;
+  required: boolean;
+  aliases: string[]; // 用于自动识别表头
+}
+
+// 字段 -> 文件表头
+export type CreditorColumnMapping = Partial<Record<CreditorImportFieldKey, string>>;
+
+// 解析后的导入文件
+export interface ParsedImportFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+// 待写入数据库的债权人数据
+export interface CreditorImportRecord {
+  type: 'organization' | 'individual';
+  name: string;
+  legal_id: string;
+  contact_person_name: string;
+  contact_phone: string;
+  contact_address: string;
+}
+
+// 与已有债权人（同案件同证件号）重复时的处理方式
+export type CreditorDuplicateStrategy = 'merge' | 'skip';
+
+export interface ExistingCreditorSummary {
+  id: RecordId | string;
+  name: string;
+  legal_id: string;
+}
+
+// 预览中的单行
+export interface CreditorImportPreviewRow {
+  row_number: number; // 文件中的行号（含表头行）
+  raw: Record<string, string>;
+  record: CreditorImportRecord;
+  errors: string[];
+  existing?: ExistingCreditorSummary; // 与数据库中已有债权人重复
+}
+
+export type CreditorImportRowStatus = 'created' | 'merged' | 'skipped' | 'failed';
+
+export interface CreditorImportRowResult {
+  row_number: number;
+  status: CreditorImportRowStatus;
+  message?: string;
+}
+
+export interface CreditorImportResult {
+  created: number;
+  merged: number;
+  skipped: number;
+  failed: number;
+  rows: CreditorImportRowResult[];
+}
+
+export interface CreditorImportProgress {
+  processed: number;
+  total: number;
+}
@@ -0,0 +1,69 @@
+/**
+ * 文档批注线程与修改建议相关类型定义
+ */
+
+import type { RecordId } from 'surrealdb';
+
+export type DocumentCommentType = 'comment' | 'suggestion';
+
+// 修改建议：插入的文字以带标记的形式出现在正文中，删除的文字保留并标记删除线
+export type SuggestionAction = 'insert' | 'delete';
+
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+export const SUGGESTION_STATUS_LABELS: Record<SuggestionStatus, string> = {
+  pending: '待处理',
+  accepted: '已采纳',
+  rejected: '已拒绝'
+};
+
+// 批注锚定的文本范围；text 用于正文标记丢失后按原文重新定位
+export interface CommentSelection {
+  index: number;
+  length: number;
+  text: string;
+}
+
+export interface DocumentComment {
+  id: RecordId | string;
+  document_id: RecordId | string;
+  parent_id?: RecordId | string;
+  comment_type: DocumentCommentType;
+  comment_text: string;
+  selection_details?: CommentSelection;
+  suggestion?: {
+    action: SuggestionAction;
+    text: string;
+    status: SuggestionStatus;
+  };
+  user_id: RecordId | string;
+  user_name?: string;
+  resolved_at?: string;
+  resolved_by?: RecordId | string;
+  /** 解决时锚定的范围，重新打开后据此恢复标记 */
+  resolved_selection?: CommentSelection;
+  created_at: string;
+  updated_at?: string;
+}
+
+// 批注线程：根批注（或修改建议）及其回复
+export interface DocumentCommentThread extends DocumentComment {
+  replies: DocumentComment[];
+}
+
+export interface CreateDocumentCommentParams {
+  document_id: RecordId | string;
+  comment_text: string;
+  selection: CommentSelection;
+  user_name?: string;
+  /** 由客户端生成，用于在正文中标记批注范围 */
+  id?: RecordId | string;
+}
+
+export interface SaveSuggestionParams {
+  id: RecordId | string;
+  document_id: RecordId | string;
+  action: SuggestionAction;
+  selection: CommentSelection;
+  user_name?: string;
+}
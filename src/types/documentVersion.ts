@@ -0,0 +1,37 @@
+/**
+ * 文档版本历史相关类型定义
+ */
+
+import type { RecordId } from 'surrealdb';
+import type Delta from 'quill-delta';
+
+// 版本列表项（不含内容）
+export interface DocumentVersionSummary {
+  id: RecordId | string;
+  document_id: RecordId | string;
+  version_number: number;
+  /** 用户命名的版本，可在债权申报提交时锁定 */
+  version_name?: string;
+  change_summary?: string;
+  created_at: string;
+  created_by: RecordId | string;
+  author_name?: string;
+  /** 协作快照对应的增量序号 */
+  sequence?: number;
+  restored_from?: RecordId | string;
+  locked_at?: string;
+  locked_by?: RecordId | string;
+  lock_reason?: string;
+}
+
+export interface DocumentVersion extends DocumentVersionSummary {
+  content: Delta;
+}
+
+export interface CreateDocumentVersionParams {
+  document_id: RecordId | string;
+  content: Delta;
+  change_summary?: string;
+  version_name?: string;
+  restored_from?: RecordId | string;
+}
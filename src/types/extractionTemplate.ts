@@ -0,0 +1,68 @@
+// 字段提取模板相关类型定义
+// 管理员按样本文书为新的文书类型配置字段的区域或锚点，发布后编译为识别规则用于本地解析
+
+import type { ParsedField } from '@/src/types/pdfParser';
+import type { FieldValidation, PdfTextPage, RecognitionRegion } from '@/src/utils/pdfFieldRecognition';
+
+// 同一文书类型只有一个已发布版本，发布新版本时旧版本归档
+export type ExtractionTemplateStatus = 'draft' | 'published' | 'archived';
+
+export interface ExtractionTemplateField {
+  name: string; // 字段名，如 guarantee_amount
+  display_name: string;
+  data_type: ParsedField['dataType'];
+  region?: RecognitionRegion; // 取值所在区域
+  anchors: string[]; // 区域未取到值时按锚点查找
+  pattern?: string; // 取值正则，缺省按数据类型匹配
+  validation: FieldValidation;
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  document_type: string; // 文书类型标识，与内置类型相同时替换内置规则
+  name: string;
+  description: string;
+  version: number;
+  status: ExtractionTemplateStatus;
+  keywords: string[]; // 用于自动判断文书类型
+  fields: ExtractionTemplateField[];
+  sample_file_name?: string; // 设计时使用的样本文件
+  updated_at?: Date | string;
+}
+
+// 测试用的样本文书，expected 为人工标注的正确取值（同名 JSON 文件）
+export interface TemplateTestSample {
+  file_name: string;
+  pages: PdfTextPage[];
+  expected?: Record<string, unknown>;
+}
+
+export interface TemplateFieldAccuracy {
+  name: string;
+  display_name: string;
+  recognized: number; // 识别到取值的样本数
+  invalid: number; // 取值未通过校验的样本数
+  labeled: number; // 有标注的样本数
+  correct: number; // 取值与标注一致的样本数
+  accuracy: number | null; // correct / labeled，没有标注时为 null
+}
+
+export interface TemplateSampleOutcome {
+  file_name: string;
+  error?: string; // 文书无法解析时的原因
+  values: Record<string, {
+    value: unknown;
+    expected?: unknown;
+    correct?: boolean;
+    validation_error?: string;
+  }>;
+}
+
+export interface TemplateTestReport {
+  template_id: string;
+  version: number;
+  sample_count: number;
+  fields: TemplateFieldAccuracy[];
+  samples: TemplateSampleOutcome[];
+  overall_accuracy: number | null; // 全部有标注字段的准确率
+}
@@ -9,6 +9,7 @@ export interface UploadedFile {
   progress: number;
   error?: string;
   uploadedAt?: Date;
+  parseId?: string;
 }
 
 export interface HighlightRegion {
@@ -66,14 +67,29 @@ export interface FieldEditForm {
   reason: string;
 }
 
+// 基准利率类型：贷款市场报价利率（LPR）及人民银行贷款基准利率
+export type BenchmarkRateType = 'LPR_1Y' | 'LPR_5Y' | 'PBOC_1Y' | 'PBOC_1_5Y' | 'PBOC_5Y_PLUS';
+
+export interface BenchmarkInterestRate {
+  id?: string;
+  rate_type: BenchmarkRateType;
+  effective_date: Date | string;
+  rate: number; // 年利率（%）
+  description?: string;
+}
+
 export interface InterestCalculationParams {
   principal: number;
-  interestRate: number;
+  interestRate: number; // 利率（%），使用基准利率时忽略
   rateType: 'annual' | 'monthly' | 'daily';
   startDate: Date;
   endDate: Date;
   compoundFrequency?: 'none' | 'monthly' | 'quarterly' | 'annually';
   dayCountConvention?: '30/360' | 'actual/365' | 'actual/360';
+  benchmarkRateType?: BenchmarkRateType; // 按基准利率分段计息
+  rateMultiplier?: number; // 利率倍数，如罚息 LPR×1.5
+  benchmarkRates?: BenchmarkInterestRate[]; // 基准利率表，缺省使用内置利率表
+  acceptanceDate?: Date; // 破产申请受理日，计息截止于该日
 }
 
 export interface InterestBreakdown {
@@ -83,6 +99,9 @@ export interface InterestBreakdown {
   principal: number;
   interest: number;
   cumulativeInterest: number;
+  days?: number;
+  annualRate?: number; // 适用年利率（%），已乘利率倍数
+  rateDescription?: string;
 }
 
 export interface InterestCalculationResult {
@@ -94,6 +113,8 @@ export interface InterestCalculationResult {
   breakdown: InterestBreakdown[];
   formula: string;
   days: number;
+  accrualEndDate?: Date;
+  stoppedAtAcceptance?: boolean; // 是否因破产申请受理停止计息
 }
 
 export interface DocumentTemplate {
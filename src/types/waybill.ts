@@ -0,0 +1,58 @@
+/**
+ * 快递单打印与寄送记录相关类型定义
+ */
+
+import type { RecordId } from 'surrealdb';
+
+// 支持的快递公司
+export type CourierCode = 'SF' | 'EMS' | 'JD';
+
+// 寄送状态：已打印 → 已寄出 → 已签收 / 已退回
+export type DeliveryStatus = 'printed' | 'sent' | 'delivered' | 'returned';
+
+// 债权人列表的投递状态筛选项（not_sent 表示从未寄送）
+export type DeliveryStatusFilter = DeliveryStatus | 'not_sent' | 'all';
+
+// 面单模板：尺寸以毫米为单位，对应热敏标签纸规格
+export interface WaybillTemplate {
+  courier: CourierCode;
+  name: string;
+  width_mm: number;
+  height_mm: number;
+  tracking_number_hint: string;
+  tracking_number_pattern: RegExp;
+  brand_color: string;
+}
+
+// 寄件人信息（来自案件管理人）
+export interface WaybillSender {
+  name: string;
+  contact_person: string;
+  phone: string;
+  address: string;
+}
+
+// 单张面单的收件人及运单号
+export interface WaybillEntry {
+  creditor_id: RecordId | string;
+  recipient_name: string;
+  contact_person: string;
+  phone: string;
+  address: string;
+  tracking_number: string;
+}
+
+// 寄送记录
+export interface CreditorMailingRecord {
+  id?: RecordId | string;
+  case_id: RecordId | string;
+  creditor_id: RecordId | string;
+  courier: CourierCode;
+  tracking_number: string;
+  document_name: string;
+  sent_at: string | Date;
+  delivery_status: DeliveryStatus;
+  created_by?: RecordId | string;
+  created_at?: string;
+  updated_at?: string;
+}
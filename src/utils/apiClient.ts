@@ -4,6 +4,7 @@
  */
 
 import { authService } from '@/src/services/authService';
+import { SESSION_EXPIRED_EVENT } from '@/src/lib/sessionEvents';
 
 interface RequestOptions extends RequestInit {
   requireAuth?: boolean;
@@ -75,14 +76,11 @@ class ApiClient {
 
       // Handle 401 Unauthorized - token expired or invalid
       if (response.status === 401 && requireAuth) {
-        console.warn('API request received 401 - clearing authentication');
-        await authService.clearAuthTokens();
-        
-        // Redirect to login page
-        if (window.location.pathname !== '/login') {
-          window.location.href = '/login';
-        }
-        
+        console.warn('API request received 401 - prompting re-login');
+
+        // 弹出会话过期对话框重新登录，不跳转登录页以保留未保存的内容
+        window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+
         throw new Error('Authentication failed - please login again');
       }
 
@@ -203,6 +201,43 @@ class ApiClient {
     return this.delete(`/api/tenants/${tenantCode}`);
   }
 
+  /**
+   * Execute SurrealQL in the tenant database.
+   * Root admin tokens only: the backend runs the query with database-level credentials,
+   * so table permissions do not apply. Tenant users (including tenant admins) get 403.
+   * Returns one result per statement, same as Surreal.query(); a failing statement
+   * returns 400 with the SurrealDB error as `message`.
+   * Contract: doc/tenant-admin-api.md
+   */
+  async executeTenantQuery(
+    tenantCode: string,
+    query: string,
+    vars?: Record<string, unknown>
+  ): Promise<unknown[]> {
+    return this.post(`/api/tenants/${tenantCode}/query`, { query, vars });
+  }
+
+  /**
+   * Sign an audit bundle with the tenant's long-lived signing key.
+   * The backend recomputes the digest and checks every chain against the tenant database
+   * before signing; the public keys are published at GET /api/audit/signing-keys.
+   * Contract: doc/audit-signing-api.md
+   */
+  async signAuditBundle(
+    bundle: Record<string, unknown> & { digest: string }
+  ): Promise<{ algorithm: string; key_id: string; value: string }> {
+    return this.post('/api/audit/bundles/sign', bundle);
+  }
+
+  /**
+   * Subscription URL of a calendar feed. Calendar apps fetch it without a login,
+   * the feed token is the credential; the backend renders the .ics as the feed's user.
+   * Contract: doc/calendar-feed-api.md
+   */
+  getCalendarFeedUrl(tenantCode: string, token: string): string {
+    return `${this.baseUrl}/api/calendar/feeds/${encodeURIComponent(tenantCode)}/${encodeURIComponent(token)}.ics`;
+  }
+
   /**
    * Create new root admin
    */
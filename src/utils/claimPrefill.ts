@@ -0,0 +1,197 @@
+/**
+ * 由解析的债权合同生成债权申报
+ * 将解析字段映射为 asserted_claim_details，按合同约定利率计算截至受理日的利息，
+ * 并为每个预填值记录来源页码和位置，供审核人员回看原文。
+ */
+
+import { format, parseISO } from 'date-fns';
+import { calculateInterest } from '@/src/utils/interestCalculator';
+import type { HighlightRegion, ParsedField, ParseResult } from '@/src/types/pdfParser';
+import type {
+  ClaimDraftFromDocument,
+  ClaimEvidenceField,
+  ClaimValueEvidence
+} from '@/src/types/claimEvidence';
+
+export const CLAIM_EVIDENCE_FIELD_LABELS: Record<ClaimEvidenceField, string> = {
+  creditor_name: '债权人名称',
+  creditor_legal_id: '统一社会信用代码',
+  principal: '本金',
+  interest: '利息',
+  total_asserted_amount: '申报总额',
+  brief_description: '债权说明',
+};
+
+const LOW_CONFIDENCE = 0.8;
+
+const EVIDENCE_COLORS: Record<ClaimEvidenceField, string> = {
+  creditor_name: '#3f51b5',
+  creditor_legal_id: '#3f51b5',
+  principal: '#009688',
+  interest: '#ff9800',
+  total_asserted_amount: '#009688',
+  brief_description: '#9e9e9e',
+};
+
+const CURRENCY_KEYWORDS: [RegExp, string][] = [
+  [/美元|USD|US\$/i, 'USD'],
+  [/欧元|EUR|€/i, 'EUR'],
+  [/港币|港元|HKD|HK\$/i, 'HKD'],
+];
+
+const ORGANIZATION_NAME = /公司|银行|合作社|中心|厂|集团|事务所|协会|医院|学校/;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 解析结果中包含本金时才可生成债权申报
+ */
+export function canApplyToClaim(result: ParseResult | null | undefined): boolean {
+  return result?.status === 'completed' &&
+    result.fields.some(field => field.name === 'principal_amount' && Number(field.value) > 0);
+}
+
+function toEvidence(claimField: ClaimEvidenceField, field: ParsedField): ClaimValueEvidence {
+  return {
+    claim_field: claimField,
+    source_field: field.name,
+    source_label: field.displayName,
+    value: field.value,
+    page_number: field.pageNumber,
+    position: field.position,
+    source_text: field.sourceText,
+    confidence: field.confidence,
+    is_modified: field.isModified || undefined,
+  };
+}
+
+/**
+ * 将解析结果映射为债权申报草稿
+ * @param options.acceptanceDate 破产申请受理日，利息计算截止于该日
+ * @param options.asOf 案件未登记受理日时利息计算至该日，缺省为今日
+ */
+export function buildClaimDraft(
+  result: ParseResult,
+  options: { acceptanceDate?: string; asOf?: Date } = {}
+): ClaimDraftFromDocument {
+  const fields = new Map(
+    result.fields
+      .filter(field => field.value !== null && field.value !== undefined && field.value !== '')
+      .map(field => [field.name, field])
+  );
+  const evidence: ClaimValueEvidence[] = [];
+  const warnings: string[] = [];
+
+  const creditorName = fields.get('creditor_name') ?? fields.get('applicant_name');
+  const creditorLegalId = fields.get('creditor_credit_code');
+  if (creditorName) evidence.push(toEvidence('creditor_name', creditorName));
+  if (creditorLegalId) evidence.push(toEvidence('creditor_legal_id', creditorLegalId));
+  const name = creditorName ? String(creditorName.value) : '';
+
+  const principalField = fields.get('principal_amount');
+  const principal = principalField ? round2(Number(principalField.value) || 0) : 0;
+  if (principalField) {
+    evidence.push(toEvidence('principal', principalField), toEvidence('total_asserted_amount', principalField));
+  }
+  const currency = CURRENCY_KEYWORDS.find(([pattern]) => pattern.test(principalField?.sourceText ?? ''))?.[1] ?? 'CNY';
+
+  // 按合同约定年利率计息，起息日缺省取签订日
+  const rateField = fields.get('interest_rate');
+  const startField = fields.get('start_date') ?? fields.get('contract_date');
+  const contractNumber = fields.get('contract_number');
+  let interest = 0;
+  let interestTerms: ClaimDraftFromDocument['asserted_claim_details']['interest_terms'];
+
+  if (principal > 0 && rateField && startField) {
+    const ratePercent = Math.round(Number(rateField.value) * 1e6) / 1e4;
+    const startDate = parseISO(String(startField.value));
+    const endDate = options.asOf ?? new Date();
+    interestTerms = {
+      interest_start_date: format(startDate, 'yyyy-MM-dd'),
+      rate_source: 'fixed',
+      interest_rate: ratePercent,
+      rate_type: 'annual',
+      day_count_convention: 'actual/365',
+      contract_number: contractNumber ? String(contractNumber.value) : undefined,
+    };
+    if (endDate < startDate) {
+      warnings.push('起息日晚于计算日，利息按 0 填写');
+    } else {
+      interest = calculateInterest({
+        principal,
+        interestRate: ratePercent,
+        rateType: 'annual',
+        startDate,
+        endDate,
+        acceptanceDate: options.acceptanceDate ? parseISO(options.acceptanceDate) : undefined,
+      }).interest;
+      evidence.push(toEvidence('interest', rateField), toEvidence('interest', startField));
+    }
+    if (!options.acceptanceDate) {
+      warnings.push('案件未登记受理日期，利息暂计算至今日，请在受理后核对');
+    }
+  } else if (principal > 0) {
+    warnings.push('合同中未识别到利率或起息日，利息需手工填写');
+  }
+
+  const maturity = fields.get('maturity_date');
+  const descriptionParts = [
+    contractNumber ? `依据合同（编号：${contractNumber.value}）申报` : `依据《${result.fileName}》申报`,
+    startField && maturity ? `借款期限 ${startField.value} 至 ${maturity.value}` : '',
+    interestTerms ? `约定年利率 ${interestTerms.interest_rate}%` : '',
+  ];
+  if (contractNumber) evidence.push(toEvidence('brief_description', contractNumber));
+
+  if (!name) warnings.push('未识别到债权人名称，请手工填写');
+  if (!creditorLegalId) warnings.push('未识别到债权人统一社会信用代码，新建债权人时需手工填写');
+  for (const field of fields.values()) {
+    if (field.confidence < LOW_CONFIDENCE && evidence.some(item => item.source_field === field.name)) {
+      warnings.push(`“${field.displayName}”识别置信度较低，请对照原文核对`);
+    }
+  }
+
+  return {
+    creditor: {
+      name,
+      legal_id: creditorLegalId ? String(creditorLegalId.value) : '',
+      type: !name || ORGANIZATION_NAME.test(name) || name.length > 4 ? 'organization' : 'individual',
+    },
+    asserted_claim_details: {
+      nature: 'ordinary',
+      principal,
+      interest,
+      other_amount: 0,
+      total_asserted_amount: round2(principal + interest),
+      currency,
+      brief_description: descriptionParts.filter(Boolean).join('，'),
+      interest_terms: interestTerms,
+    },
+    evidence,
+    warnings,
+  };
+}
+
+/**
+ * 将取值来源转换为 PDF 预览的高亮区域，可只显示某个申报字段的来源
+ */
+export function evidenceToHighlightRegions(
+  evidence: ClaimValueEvidence[],
+  claimField?: ClaimEvidenceField
+): HighlightRegion[] {
+  const regions = new Map<string, HighlightRegion>();
+  for (const item of evidence) {
+    if (!item.position || (claimField && item.claim_field !== claimField)) continue;
+    // 同一解析字段可能支撑多个申报字段（如本金与申报总额），只高亮一次
+    const id = `${item.source_field}-${item.page_number}`;
+    if (regions.has(id)) continue;
+    regions.set(id, {
+      id,
+      pageNumber: item.page_number,
+      ...item.position,
+      color: EVIDENCE_COLORS[item.claim_field],
+      fieldName: item.source_label,
+      confidence: item.confidence,
+    });
+  }
+  return Array.from(regions.values());
+}
@@ -0,0 +1,276 @@
+/**
+ * 债权人批量导入工具
+ * 解析 CSV / XLSX 文件、自动识别列映射、校验统一社会信用代码 / 身份证号 / 联系电话，
+ * 生成逐行预览并导出错误报告。
+ */
+
+import Papa from 'papaparse';
+import type {
+  CreditorColumnMapping,
+  CreditorImportField,
+  CreditorImportPreviewRow,
+  CreditorImportRecord,
+  CreditorImportRowResult,
+  ExistingCreditorSummary,
+  ParsedImportFile
+} from '@/src/types/creditorImport';
+
+export const CREDITOR_IMPORT_FIELDS: CreditorImportField[] = [
+  { key: 'type', label: '类别', required: false, aliases: ['类别', '类型', '债权人类别', '债权人类型', 'type'] },
+  { key: 'name', label: '名称', required: true, aliases: ['名称', '债权人名称', '债权人', '姓名', '单位名称', 'name'] },
+  { key: 'legal_id', label: '统一社会信用代码/身份证号', required: true, aliases: ['ID/统一码', 'ID', '统一社会信用代码', '身份证号', '证件号码', '证件号', '信用代码', 'legal_id'] },
+  { key: 'contact_person_name', label: '联系人姓名', required: false, aliases: ['联系人姓名', '联系人', 'contact_person_name'] },
+  { key: 'contact_phone', label: '联系电话', required: false, aliases: ['联系方式', '联系电话', '电话', '手机', '手机号', 'contact_phone'] },
+  { key: 'contact_address', label: '地址', required: false, aliases: ['地址', '联系地址', '通讯地址', 'contact_address'] }
+];
+
+const USCC_CHARSET = '0123456789ABCDEFGHJKLMNPQRTUWXY';
+const USCC_WEIGHTS = [1, 3, 9, 27, 19, 26, 16, 17, 20, 29, 25, 13, 8, 24, 10, 30, 28];
+const ID_CARD_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const ID_CARD_CHECK_CODES = '10X98765432';
+
+const ORGANIZATION_TYPE_VALUES = ['组织', '单位', '企业', '公司', '机构', 'organization'];
+const INDIVIDUAL_TYPE_VALUES = ['个人', '自然人', 'individual'];
+
+/**
+ * 校验统一社会信用代码（GB 32100-2015）
+ */
+export function isValidUnifiedSocialCreditCode(code: string): boolean {
+  if (!/^[0-9A-HJ-NPQRTUWXY]{2}\d{6}[0-9A-HJ-NPQRTUWXY]{10}$/.test(code)) {
+    return false;
+  }
+  const sum = USCC_WEIGHTS.reduce((total, weight, index) => total + USCC_CHARSET.indexOf(code[index]) * weight, 0);
+  const check = (31 - (sum % 31)) % 31;
+  return code[17] === USCC_CHARSET[check];
+}
+
+function isValidBirthDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day && date <= new Date();
+}
+
+/**
+ * 校验居民身份证号码（GB 11643-1999），兼容15位旧号码
+ */
+export function isValidResidentIdNumber(id: string): boolean {
+  if (/^\d{15}$/.test(id)) {
+    return isValidBirthDate(1900 + Number(id.slice(6, 8)), Number(id.slice(8, 10)), Number(id.slice(10, 12)));
+  }
+  if (!/^\d{17}[\dX]$/.test(id)) {
+    return false;
+  }
+  if (!isValidBirthDate(Number(id.slice(6, 10)), Number(id.slice(10, 12)), Number(id.slice(12, 14)))) {
+    return false;
+  }
+  const sum = ID_CARD_WEIGHTS.reduce((total, weight, index) => total + Number(id[index]) * weight, 0);
+  return id[17] === ID_CARD_CHECK_CODES[sum % 11];
+}
+
+/**
+ * 校验手机号或固定电话（可带区号、分机号及 +86 前缀）
+ */
+export function isValidPhoneNumber(phone: string): boolean {
+  const normalized = phone.replace(/[\s()（）]/g, '').replace(/^(\+86|0086)-?/, '');
+  return /^1[3-9]\d{9}$/.test(normalized) || /^0\d{2,3}-?\d{7,8}(-\d{1,6})?$/.test(normalized) || /^[48]00-?\d{3}-?\d{4}$/.test(normalized);
+}
+
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error('文件读取失败'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * 解码 CSV 文本：优先 UTF-8，失败时按 GBK 解码（Excel 中文版默认另存为 GBK 编码）
+ */
+function decodeCsvText(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('gbk').decode(buffer);
+  }
+}
+
+/**
+ * 读取 CSV / XLSX 文件，首行为表头
+ */
+export async function readImportFile(file: File): Promise<ParsedImportFile> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsxFile(file);
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('不支持旧版 .xls 文件，请另存为 .xlsx 或 .csv 后导入');
+  }
+
+  const text = decodeCsvText(await readFileAsArrayBuffer(file));
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim()
+  });
+  const headers = (result.meta.fields || []).filter(header => header !== '');
+  if (headers.length === 0) {
+    throw new Error('文件中未找到表头');
+  }
+  return {
+    headers,
+    rows: result.data.map(row => Object.fromEntries(headers.map(header => [header, String(row[header] ?? '').trim()])))
+  };
+}
+
+async function readXlsxFile(file: File): Promise<ParsedImportFile> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await readFileAsArrayBuffer(file));
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error('文件中没有工作表');
+  }
+
+  const headerCells: { column: number; header: string }[] = [];
+  worksheet.getRow(1).eachCell((cell, column) => {
+    const header = cell.text.trim();
+    if (header) {
+      headerCells.push({ column, header });
+    }
+  });
+  if (headerCells.length === 0) {
+    throw new Error('文件中未找到表头');
+  }
+
+  const rows: Record<string, string>[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values = Object.fromEntries(headerCells.map(({ column, header }) => [header, row.getCell(column).text.trim()]));
+    if (Object.values(values).some(value => value !== '')) {
+      rows.push(values);
+    }
+  });
+  return { headers: headerCells.map(cell => cell.header), rows };
+}
+
+/**
+ * 根据表头名称自动识别列映射
+ */
+export function guessColumnMapping(headers: string[]): CreditorColumnMapping {
+  const mapping: CreditorColumnMapping = {};
+  const normalize = (value: string) => value.replace(/[\s*（）()]/g, '').toLowerCase();
+  for (const field of CREDITOR_IMPORT_FIELDS) {
+    const aliases = field.aliases.map(normalize);
+    const header = headers.find(item => aliases.includes(normalize(item)));
+    if (header) {
+      mapping[field.key] = header;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * 返回未映射的必填字段名称
+ */
+export function getUnmappedRequiredFields(mapping: CreditorColumnMapping): string[] {
+  return CREDITOR_IMPORT_FIELDS.filter(field => field.required && !mapping[field.key]).map(field => field.label);
+}
+
+function resolveCreditorType(value: string, legalId: string): CreditorImportRecord['type'] | null {
+  const normalized = value.trim().toLowerCase();
+  if (ORGANIZATION_TYPE_VALUES.includes(normalized)) return 'organization';
+  if (INDIVIDUAL_TYPE_VALUES.includes(normalized)) return 'individual';
+  if (normalized !== '') return null;
+  // 未提供类别时按证件号格式推断：形似身份证号的视为个人，其余视为组织
+  if (isValidUnifiedSocialCreditCode(legalId)) return 'organization';
+  return /^(\d{17}[\dX]|\d{15})$/.test(legalId) ? 'individual' : 'organization';
+}
+
+/**
+ * 按列映射转换并校验各行，标记文件内重复及与已有债权人重复的行
+ * @param existingCreditors 当前案件中证件号已存在的债权人
+ */
+export function buildImportPreview(
+  file: ParsedImportFile,
+  mapping: CreditorColumnMapping,
+  existingCreditors: ExistingCreditorSummary[] = []
+): CreditorImportPreviewRow[] {
+  const existingByLegalId = new Map(existingCreditors.map(creditor => [creditor.legal_id, creditor]));
+  const firstRowByLegalId = new Map<string, number>();
+  const value = (raw: Record<string, string>, key: keyof CreditorColumnMapping) => {
+    const header = mapping[key];
+    return header ? (raw[header] || '').trim() : '';
+  };
+
+  return file.rows.map((raw, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const legalId = value(raw, 'legal_id').toUpperCase();
+    const rawType = value(raw, 'type');
+    const type = resolveCreditorType(rawType, legalId);
+
+    const record: CreditorImportRecord = {
+      type: type || 'organization',
+      name: value(raw, 'name'),
+      legal_id: legalId,
+      contact_person_name: value(raw, 'contact_person_name'),
+      contact_phone: value(raw, 'contact_phone'),
+      contact_address: value(raw, 'contact_address')
+    };
+
+    if (!record.name) {
+      errors.push('名称不能为空');
+    }
+    if (!type) {
+      errors.push(`类别“${rawType}”无效，应为“组织”或“个人”`);
+    }
+    if (!legalId) {
+      errors.push('证件号不能为空');
+    } else if (type === 'organization' && !isValidUnifiedSocialCreditCode(legalId)) {
+      errors.push('统一社会信用代码校验不通过');
+    } else if (type === 'individual' && !isValidResidentIdNumber(legalId)) {
+      errors.push('身份证号校验不通过');
+    }
+    if (record.contact_phone && !isValidPhoneNumber(record.contact_phone)) {
+      errors.push('联系电话格式不正确');
+    }
+
+    if (legalId) {
+      const firstRow = firstRowByLegalId.get(legalId);
+      if (firstRow !== undefined) {
+        errors.push(`与第${firstRow}行证件号重复`);
+      } else {
+        firstRowByLegalId.set(legalId, rowNumber);
+      }
+    }
+
+    return {
+      row_number: rowNumber,
+      raw,
+      record,
+      errors,
+      existing: existingByLegalId.get(legalId)
+    };
+  });
+}
+
+/**
+ * 生成错误报告（CSV，带 BOM 便于 Excel 打开），包含校验失败与导入失败的行
+ */
+export function buildImportErrorReport(
+  headers: string[],
+  previewRows: CreditorImportPreviewRow[],
+  results: CreditorImportRowResult[] = []
+): Blob {
+  const failedMessages = new Map(
+    results.filter(result => result.status === 'failed').map(result => [result.row_number, result.message || '导入失败'])
+  );
+  const data = previewRows
+    .filter(row => row.errors.length > 0 || failedMessages.has(row.row_number))
+    .map(row => [
+      String(row.row_number),
+      ...headers.map(header => row.raw[header] ?? ''),
+      [...row.errors, failedMessages.get(row.row_number)].filter(Boolean).join('；')
+    ]);
+  const csv = Papa.unparse({ fields: ['行号', ...headers, '错误原因'], data });
+  return new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+}
@@ -0,0 +1,170 @@
+/**
+ * 协作编辑的 Quill Delta 同步（操作变换）
+ * 服务端按文档内序号顺序保存增量，客户端维护"已确认版本 + 待确认增量 + 缓冲增量"三段状态：
+ * 同一时间只提交一个增量，序号被他人占用时先补齐缺失的远程增量，变换后再重新提交。
+ */
+
+import Delta from 'quill-delta';
+import type { Op } from 'quill-delta';
+
+// 服务端保存的一条增量
+export interface RemoteDelta {
+  sequence: number;
+  ops: Op[];
+  client_id: string;
+}
+
+export interface DeltaSyncTransport {
+  /** 以指定序号提交增量；序号已被占用时返回 false */
+  submit: (sequence: number, delta: Delta) => Promise<boolean>;
+  /** 获取指定序号之后的全部增量，按序号升序 */
+  fetchSince: (sequence: number) => Promise<RemoteDelta[]>;
+}
+
+export interface DeltaSyncHandlers {
+  /** 将（已变换的）远程增量应用到编辑器 */
+  applyRemote: (delta: Delta) => void;
+  /** 本地增量被确认后回调，参数为新的已确认序号 */
+  onAcknowledged?: (sequence: number) => void;
+  onError?: (error: unknown) => void;
+}
+
+export class DeltaSyncClient {
+  private revision: number;
+  private pending: Delta | null = null;
+  private buffer: Delta | null = null;
+  private sending = false;
+  private catchingUp: Promise<void> | null = null;
+
+  constructor(
+    private readonly clientId: string,
+    revision: number,
+    private readonly transport: DeltaSyncTransport,
+    private readonly handlers: DeltaSyncHandlers
+  ) {
+    this.revision = revision;
+  }
+
+  /** 已确认的最新序号 */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /** 本地修改是否已全部确认，此时编辑器内容与服务端该序号的内容一致 */
+  isSynchronized(): boolean {
+    return !this.pending && !this.buffer;
+  }
+
+  /**
+   * 本地编辑：无待确认增量时立即提交，否则合并到缓冲区等待
+   */
+  applyLocal(delta: Delta): void {
+    if (this.pending) {
+      this.buffer = this.buffer ? this.buffer.compose(delta) : delta;
+      return;
+    }
+    this.pending = delta;
+    void this.flush();
+  }
+
+  /**
+   * 接收服务端增量（实时订阅或补齐），重复的忽略，出现序号缺口时先补齐
+   */
+  receive(remote: RemoteDelta): void {
+    if (remote.sequence <= this.revision) {
+      return;
+    }
+    if (remote.sequence > this.revision + 1) {
+      void this.catchUp();
+      return;
+    }
+    this.integrate(remote);
+  }
+
+  /**
+   * 补齐当前序号之后的远程增量，用于断线重连和提交冲突
+   */
+  catchUp(): Promise<void> {
+    if (!this.catchingUp) {
+      this.catchingUp = (async () => {
+        try {
+          const deltas = await this.transport.fetchSince(this.revision);
+          deltas
+            .filter(remote => remote.sequence > this.revision)
+            .sort((a, b) => a.sequence - b.sequence)
+            .forEach(remote => {
+              if (remote.sequence === this.revision + 1) {
+                this.integrate(remote);
+              }
+            });
+        } catch (error) {
+          this.handlers.onError?.(error);
+        } finally {
+          this.catchingUp = null;
+        }
+        await this.flush();
+      })();
+    }
+    return this.catchingUp;
+  }
+
+  private integrate(remote: RemoteDelta): void {
+    // 自己提交的增量回显即为确认
+    if (remote.client_id === this.clientId && this.pending) {
+      this.acknowledge(remote.sequence);
+      return;
+    }
+
+    // 远程增量在服务端先于本地增量，变换本地待确认和缓冲增量，再把远程增量变换到本地内容之上
+    let incoming = new Delta(remote.ops);
+    if (this.pending) {
+      const pending = incoming.transform(this.pending, true);
+      incoming = this.pending.transform(incoming, false);
+      this.pending = pending;
+    }
+    if (this.buffer) {
+      const buffer = incoming.transform(this.buffer, true);
+      incoming = this.buffer.transform(incoming, false);
+      this.buffer = buffer;
+    }
+    this.revision = remote.sequence;
+    this.handlers.applyRemote(incoming);
+  }
+
+  private acknowledge(sequence: number): void {
+    if (sequence !== this.revision + 1 || !this.pending) {
+      return;
+    }
+    this.revision = sequence;
+    this.pending = this.buffer;
+    this.buffer = null;
+    this.handlers.onAcknowledged?.(sequence);
+    void this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.sending || !this.pending || this.catchingUp) {
+      return;
+    }
+
+    this.sending = true;
+    const sequence = this.revision + 1;
+    let accepted = false;
+    try {
+      accepted = await this.transport.submit(sequence, this.pending);
+    } catch (error) {
+      // 提交失败（如断线）保留待确认增量，重连补齐后重试
+      this.handlers.onError?.(error);
+      this.sending = false;
+      return;
+    }
+    this.sending = false;
+
+    if (accepted) {
+      this.acknowledge(sequence);
+      await this.flush();
+    } else {
+      await this.catchUp();
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * 文档版本对比
+ * 基于 Delta 差异把两个版本合并为带插入/删除/格式变化标记的片段，
+ * 嵌入内容（图片、附件等）按整体比较，任何属性变化都视为删除旧的并插入新的。
+ */
+
+import Delta, { AttributeMap, Op, OpIterator } from 'quill-delta';
+
+export type DiffChange = 'equal' | 'insert' | 'delete' | 'format';
+
+export interface DiffSegment {
+  change: DiffChange;
+  insert: string | Record<string, unknown>;
+  attributes?: AttributeMap;
+}
+
+// 按换行拆分后的一行，行格式（标题、列表等）取自行尾换行符
+export interface DiffLine {
+  segments: DiffSegment[];
+  attributes?: AttributeMap;
+  /** 行尾换行符本身的变化，如删除换行表示与下一行合并 */
+  change: DiffChange;
+}
+
+export interface DiffStats {
+  inserted: number;
+  deleted: number;
+  formatted: number;
+}
+
+const sameAttributes = (a?: AttributeMap, b?: AttributeMap): boolean =>
+  JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+
+/**
+ * 比较两个版本的内容，返回按原文顺序排列的差异片段
+ */
+export function diffDocuments(from: Delta, to: Delta): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  const push = (change: DiffChange, op: Op) => {
+    if (op.insert === undefined) return;
+    const attributes = op.attributes && Object.keys(op.attributes).length > 0 ? op.attributes : undefined;
+    const last = segments[segments.length - 1];
+    if (
+      last &&
+      last.change === change &&
+      typeof last.insert === 'string' &&
+      typeof op.insert === 'string' &&
+      sameAttributes(last.attributes, attributes)
+    ) {
+      last.insert += op.insert;
+      return;
+    }
+    segments.push({ change, insert: op.insert as DiffSegment['insert'], attributes });
+  };
+
+  const iterator = new OpIterator(from.ops);
+  from.diff(to).ops.forEach(op => {
+    if (op.insert !== undefined) {
+      push('insert', op);
+      return;
+    }
+    let length = op.delete ?? (op.retain as number);
+    while (length > 0 && iterator.hasNext()) {
+      const next = iterator.next(length);
+      length -= Op.length(next);
+      if (op.delete) {
+        push('delete', next);
+      } else if (op.attributes) {
+        push('format', { insert: next.insert, attributes: AttributeMap.compose(next.attributes, op.attributes, false) });
+      } else {
+        push('equal', next);
+      }
+    }
+  });
+  // 差异末尾省略了未变化的内容
+  while (iterator.hasNext()) {
+    push('equal', iterator.next());
+  }
+  return segments;
+}
+
+/**
+ * 统计插入、删除和格式变化的长度（嵌入内容计为 1）
+ */
+export function summarizeDiff(segments: DiffSegment[]): DiffStats {
+  const stats: DiffStats = { inserted: 0, deleted: 0, formatted: 0 };
+  segments.forEach(segment => {
+    const length = typeof segment.insert === 'string' ? segment.insert.length : 1;
+    if (segment.change === 'insert') stats.inserted += length;
+    if (segment.change === 'delete') stats.deleted += length;
+    if (segment.change === 'format') stats.formatted += length;
+  });
+  return stats;
+}
+
+/**
+ * 把差异片段按换行拆分为行，便于按段落渲染
+ */
+export function splitDiffLines(segments: DiffSegment[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let current: DiffSegment[] = [];
+  segments.forEach(segment => {
+    if (typeof segment.insert !== 'string') {
+      current.push(segment);
+      return;
+    }
+    const parts = segment.insert.split('\n');
+    parts.forEach((part, index) => {
+      if (part) {
+        current.push({ ...segment, insert: part });
+      }
+      if (index < parts.length - 1) {
+        lines.push({ segments: current, attributes: segment.attributes, change: segment.change });
+        current = [];
+      }
+    });
+  });
+  if (current.length > 0) {
+    lines.push({ segments: current, change: 'equal' });
+  }
+  return lines;
+}
@@ -0,0 +1,232 @@
+/**
+ * 文档批注锚点与修改建议（建议模式）的 Delta 处理
+ * 批注和修改建议以行内格式保存在正文中，随文字一起移动，编辑或协作合并后无需重新计算位置；
+ * 建议模式下插入的文字标记为建议插入，删除的文字被恢复并标记为建议删除，由作者决定采纳或拒绝。
+ */
+
+import Delta from 'quill-delta';
+import type { AttributeMap, Op } from 'quill-delta';
+import type { CommentSelection, SuggestionAction } from '@/src/types/documentComment';
+
+export const COMMENT_THREAD_FORMAT = 'comment-thread';
+export const SUGGEST_INSERT_FORMAT = 'suggest-insert';
+export const SUGGEST_DELETE_FORMAT = 'suggest-delete';
+
+// 嵌入内容（图片等）在纯文本中的占位字符，保持与 Delta 长度一致
+const EMBED_PLACEHOLDER = '￼';
+
+export interface TrackedSuggestion {
+  id: string;
+  action: SuggestionAction;
+}
+
+export interface SuggestionTrackingResult {
+  /** 应用在用户修改之后的修正增量 */
+  fixup: Delta;
+  /** 修正后的光标位置，无修改时为 null */
+  cursor: number | null;
+  /** 本次新增或变化的修改建议 */
+  touched: TrackedSuggestion[];
+}
+
+export interface SuggestionTrackingOptions {
+  /** 当前用户在本次编辑会话中创建的建议，连续输入时沿用同一条建议 */
+  ownIds: Set<string>;
+  createId: () => string;
+  /** 是否为向后删除（退格），决定恢复删除文字后光标停在其前还是其后 */
+  backward?: boolean;
+}
+
+const opLength = (op: Op): number => {
+  if (typeof op.insert === 'string') return op.insert.length;
+  if (op.insert) return 1;
+  return (op.retain as number | undefined) ?? op.delete ?? 0;
+};
+
+const opText = (op: Op): string => (typeof op.insert === 'string' ? op.insert : EMBED_PLACEHOLDER);
+
+const formatAt = (contents: Delta, index: number, format: string): string | undefined => {
+  if (index < 0) return undefined;
+  const op = contents.slice(index, index + 1).ops[0];
+  const value = op?.attributes?.[format];
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * 将建议模式下的用户修改转换为修改建议：返回需要追加应用的修正增量
+ */
+export function trackSuggestionChange(
+  change: Delta,
+  oldContents: Delta,
+  options: SuggestionTrackingOptions
+): SuggestionTrackingResult {
+  const fixup = new Delta();
+  const touched = new Map<string, SuggestionAction>();
+  let oldIndex = 0;
+  let newIndex = 0;
+  let fixupIndex = 0;
+  let restoredTotal = 0;
+  let cursor: number | null = null;
+
+  const ownFormatAt = (index: number, format: string) => {
+    const id = formatAt(oldContents, index, format);
+    return id && options.ownIds.has(id) ? id : undefined;
+  };
+
+  change.ops.forEach(op => {
+    if (op.retain !== undefined) {
+      const length = opLength(op);
+      oldIndex += length;
+      newIndex += length;
+      return;
+    }
+
+    if (op.insert !== undefined) {
+      const length = opLength(op);
+      const id = ownFormatAt(oldIndex - 1, SUGGEST_INSERT_FORMAT) ?? options.createId();
+      fixup.retain(newIndex - fixupIndex).retain(length, { [SUGGEST_INSERT_FORMAT]: id, [SUGGEST_DELETE_FORMAT]: null });
+      fixupIndex = newIndex + length;
+      newIndex += length;
+      touched.set(id, 'insert');
+      cursor = newIndex + restoredTotal;
+      return;
+    }
+
+    // 删除：自己尚未处理的建议插入直接删除，其余文字恢复并标记为建议删除
+    const length = op.delete ?? 0;
+    const deleted = oldContents.slice(oldIndex, oldIndex + length);
+    const id = ownFormatAt(oldIndex - 1, SUGGEST_DELETE_FORMAT)
+      ?? ownFormatAt(oldIndex + length, SUGGEST_DELETE_FORMAT)
+      ?? options.createId();
+    const restored = new Delta();
+    let usedId = false;
+    deleted.ops.forEach(deletedOp => {
+      const attributes: AttributeMap = { ...(deletedOp.attributes || {}) };
+      const insertId = attributes[SUGGEST_INSERT_FORMAT];
+      if (typeof insertId === 'string' && options.ownIds.has(insertId)) {
+        touched.set(insertId, 'insert');
+        return;
+      }
+      if (typeof attributes[SUGGEST_DELETE_FORMAT] !== 'string') {
+        attributes[SUGGEST_DELETE_FORMAT] = id;
+        usedId = true;
+      }
+      restored.insert(deletedOp.insert as string | Record<string, unknown>, attributes);
+    });
+
+    const restoredLength = restored.length();
+    if (restoredLength > 0) {
+      fixup.retain(newIndex - fixupIndex);
+      restored.ops.forEach(restoredOp => fixup.push(restoredOp));
+      fixupIndex = newIndex;
+    }
+    if (usedId) {
+      touched.set(id, 'delete');
+    }
+    const position = newIndex + restoredTotal;
+    cursor = options.backward ? position : position + restoredLength;
+    restoredTotal += restoredLength;
+    oldIndex += length;
+  });
+
+  return {
+    fixup: fixup.chop(),
+    cursor,
+    touched: Array.from(touched, ([id, action]) => ({ id, action }))
+  };
+}
+
+/**
+ * 查找正文中带指定格式的范围，按格式值（批注或建议ID）分组
+ */
+export function findFormatRanges(contents: Delta, format: string): Map<string, CommentSelection> {
+  const ranges = new Map<string, CommentSelection>();
+  let index = 0;
+  contents.ops.forEach(op => {
+    const length = opLength(op);
+    const id = op.attributes?.[format];
+    if (typeof id === 'string') {
+      const range = ranges.get(id);
+      if (range) {
+        // 同一ID的多段范围合并为从首段开始到末段结束
+        range.text += range.index + range.length === index ? opText(op) : ` … ${opText(op)}`;
+        range.length = index + length - range.index;
+      } else {
+        ranges.set(id, { index, length, text: opText(op) });
+      }
+    }
+    index += length;
+  });
+  return ranges;
+}
+
+/**
+ * 正文标记丢失时（如内容被整体替换）按原文查找最接近原位置的匹配
+ */
+export function locateAnchor(contents: Delta, selection: CommentSelection): { index: number; length: number } | null {
+  if (!selection.text) {
+    return null;
+  }
+  const text = contents.ops.map(opText).join('');
+  let best: number | null = null;
+  let position = text.indexOf(selection.text);
+  while (position !== -1) {
+    if (best === null || Math.abs(position - selection.index) < Math.abs(best - selection.index)) {
+      best = position;
+    }
+    position = text.indexOf(selection.text, position + 1);
+  }
+  return best === null ? null : { index: best, length: selection.text.length };
+}
+
+/**
+ * 生成采纳或拒绝修改建议的增量
+ */
+export function buildSuggestionResolution(contents: Delta, id: string, accept: boolean): Delta {
+  const delta = new Delta();
+  contents.ops.forEach(op => {
+    const length = opLength(op);
+    if (op.attributes?.[SUGGEST_INSERT_FORMAT] === id) {
+      if (accept) {
+        delta.retain(length, { [SUGGEST_INSERT_FORMAT]: null });
+      } else {
+        delta.delete(length);
+      }
+    } else if (op.attributes?.[SUGGEST_DELETE_FORMAT] === id) {
+      if (accept) {
+        delta.delete(length);
+      } else {
+        delta.retain(length, { [SUGGEST_DELETE_FORMAT]: null });
+      }
+    } else {
+      delta.retain(length);
+    }
+  });
+  return delta.chop();
+}
+
+/**
+ * 生成移除指定批注标记的增量
+ */
+export function buildFormatRemoval(contents: Delta, format: string, id: string): Delta {
+  const delta = new Delta();
+  contents.ops.forEach(op => {
+    const length = opLength(op);
+    if (op.attributes?.[format] === id) {
+      delta.retain(length, { [format]: null });
+    } else {
+      delta.retain(length);
+    }
+  });
+  return delta.chop();
+}
+
+/**
+ * 批注记录ID在正文标记中使用的键（不含表名）
+ */
+export function getCommentKey(id: { id: unknown } | string): string {
+  if (typeof id !== 'string') {
+    return String(id.id);
+  }
+  return id.replace(/^document_comment:/, '').replace(/^⟨(.*)⟩$/, '$1');
+}
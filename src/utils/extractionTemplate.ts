@@ -0,0 +1,189 @@
+/**
+ * 字段提取模板
+ * 将管理员设计的模板编译为 DocumentRecognitionProfile，与内置识别规则合并后交给本地解析；
+ * 并用标注过的样本文书测试模板，按字段统计识别率和准确率。
+ */
+
+import {
+  normalizeFieldValue,
+  recognizeDocument,
+  validateFieldValue,
+  type DocumentRecognitionProfile,
+} from '@/src/utils/pdfFieldRecognition';
+import type { ParsedField } from '@/src/types/pdfParser';
+import type {
+  ExtractionTemplate,
+  TemplateFieldAccuracy,
+  TemplateSampleOutcome,
+  TemplateTestReport,
+  TemplateTestSample,
+} from '@/src/types/extractionTemplate';
+
+const IDENTIFIER = /^[a-z][a-z0-9_]{1,39}$/;
+
+export function compileTemplate(template: ExtractionTemplate): DocumentRecognitionProfile {
+  return {
+    type: template.document_type,
+    name: template.name,
+    keywords: template.keywords,
+    fields: template.fields.map(field => ({
+      name: field.name,
+      displayName: field.display_name,
+      dataType: field.data_type,
+      anchors: field.anchors,
+      ...(field.pattern && { pattern: field.pattern }),
+      ...(field.region && { region: field.region }),
+      validation: field.validation,
+    })),
+  };
+}
+
+/**
+ * 合并识别规则：模板的文书类型与内置类型相同时替换内置规则
+ */
+export function mergeRecognitionProfiles(
+  builtIn: DocumentRecognitionProfile[],
+  templates: DocumentRecognitionProfile[]
+): DocumentRecognitionProfile[] {
+  const types = new Set(templates.map(profile => profile.type));
+  return [...builtIn.filter(profile => !types.has(profile.type)), ...templates];
+}
+
+const isValidRegExp = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 校验模板配置，返回错误说明
+ */
+export function validateTemplate(template: ExtractionTemplate): string[] {
+  const errors: string[] = [];
+  if (!template.name.trim()) errors.push('请填写模板名称');
+  if (!IDENTIFIER.test(template.document_type)) {
+    errors.push('文书类型标识须以小写字母开头，只包含小写字母、数字和下划线');
+  }
+  if (template.keywords.filter(keyword => keyword.trim()).length === 0) {
+    errors.push('请至少填写一个用于判断文书类型的关键词');
+  }
+  if (template.fields.length === 0) errors.push('请至少添加一个字段');
+
+  const names = new Set<string>();
+  for (const field of template.fields) {
+    const label = field.display_name || field.name || '未命名字段';
+    if (!IDENTIFIER.test(field.name)) {
+      errors.push(`字段“${label}”的字段名须以小写字母开头，只包含小写字母、数字和下划线`);
+    } else if (names.has(field.name)) {
+      errors.push(`字段名 ${field.name} 重复`);
+    }
+    names.add(field.name);
+    if (!field.display_name.trim()) errors.push(`字段 ${field.name} 缺少显示名称`);
+    if (!field.region && field.anchors.filter(anchor => anchor.trim()).length === 0) {
+      errors.push(`字段“${label}”需要绘制取值区域或设置锚点`);
+    }
+    if (field.pattern && !isValidRegExp(field.pattern)) errors.push(`字段“${label}”的取值正则无效`);
+    if (field.validation.pattern && !isValidRegExp(field.validation.pattern)) {
+      errors.push(`字段“${label}”的校验正则无效`);
+    }
+    const { min, max } = field.validation;
+    if (min !== undefined && max !== undefined && min > max) {
+      errors.push(`字段“${label}”的最小值不能大于最大值`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * 识别值与标注值是否一致；标注为文本时按字段类型规范化后比较
+ */
+export function valuesMatch(actual: unknown, expected: unknown, dataType: ParsedField['dataType']): boolean {
+  const normalizedExpected = typeof expected === 'string' && dataType !== 'text'
+    ? normalizeFieldValue(expected, dataType) ?? expected
+    : expected;
+
+  if (typeof actual === 'number' && typeof normalizedExpected === 'number') {
+    return Math.abs(actual - normalizedExpected) < (dataType === 'percentage' ? 1e-6 : 0.005);
+  }
+  const compact = (value: unknown) => String(value ?? '').replace(/\s+/g, '');
+  return compact(actual) === compact(normalizedExpected);
+}
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : null;
+
+/**
+ * 用样本文书测试模板，样本按模板的文书类型识别，不再按关键词判断
+ */
+export function evaluateTemplate(
+  template: ExtractionTemplate,
+  samples: TemplateTestSample[],
+  now: Date = new Date()
+): TemplateTestReport {
+  const profile = compileTemplate(template);
+  const fields: TemplateFieldAccuracy[] = template.fields.map(field => ({
+    name: field.name,
+    display_name: field.display_name,
+    recognized: 0,
+    invalid: 0,
+    labeled: 0,
+    correct: 0,
+    accuracy: null,
+  }));
+
+  const outcomes = samples.map((sample, index): TemplateSampleOutcome => {
+    const result = recognizeDocument(sample.pages, {
+      fileId: `template-test-${index}`,
+      fileName: sample.file_name,
+      profiles: [profile],
+      documentType: profile.type,
+      now,
+    });
+    const outcome: TemplateSampleOutcome = { file_name: sample.file_name, values: {} };
+    if (result.status === 'failed') outcome.error = result.error;
+
+    template.fields.forEach((field, fieldIndex) => {
+      const stats = fields[fieldIndex];
+      const value = result.fields.find(item => item.name === field.name)?.value ?? null;
+      const entry: TemplateSampleOutcome['values'][string] = { value };
+
+      if (value !== null) stats.recognized += 1;
+      const validationError = validateFieldValue(value, field.data_type, field.validation);
+      if (validationError) {
+        stats.invalid += 1;
+        entry.validation_error = validationError;
+      }
+
+      const expected = sample.expected?.[field.name];
+      if (expected !== undefined) {
+        // 标注为 null 表示该样本中不应识别出取值
+        const correct = expected === null ? value === null : value !== null && valuesMatch(value, expected, field.data_type);
+        stats.labeled += 1;
+        if (correct) stats.correct += 1;
+        entry.expected = expected;
+        entry.correct = correct;
+      }
+      outcome.values[field.name] = entry;
+    });
+    return outcome;
+  });
+
+  for (const stats of fields) {
+    stats.accuracy = ratio(stats.correct, stats.labeled);
+  }
+
+  return {
+    template_id: template.id,
+    version: template.version,
+    sample_count: samples.length,
+    fields,
+    samples: outcomes,
+    overall_accuracy: ratio(
+      fields.reduce((sum, stats) => sum + stats.correct, 0),
+      fields.reduce((sum, stats) => sum + stats.labeled, 0)
+    ),
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * 中国法定节假日日历
+ * 按国务院办公厅每年发布的节假日安排记录放假日期和调休上班日期，用于工作日计算。
+ * 未收录的年份只按周末判断，新一年的安排发布后需补充到 BUILT_IN_SCHEDULES。
+ */
+
+import { addDays, format, startOfDay } from 'date-fns';
+
+export interface HolidaySchedule {
+  year: number;
+  /** 放假日期，yyyy-MM-dd */
+  holidays: string[];
+  /** 调休上班的周末，yyyy-MM-dd */
+  workdays: string[];
+}
+
+export interface HolidayCalendar {
+  holidays: Set<string>;
+  workdays: Set<string>;
+  years: Set<number>;
+}
+
+/**
+ * 展开日期区间（含首尾）
+ */
+function range(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let date = new Date(`${start}T00:00:00`); format(date, 'yyyy-MM-dd') <= end; date = addDays(date, 1)) {
+    dates.push(format(date, 'yyyy-MM-dd'));
+  }
+  return dates;
+}
+
+export const BUILT_IN_SCHEDULES: HolidaySchedule[] = [
+  {
+    year: 2024,
+    holidays: [
+      '2024-01-01',
+      ...range('2024-02-10', '2024-02-17'),
+      ...range('2024-04-04', '2024-04-06'),
+      ...range('2024-05-01', '2024-05-05'),
+      '2024-06-10',
+      ...range('2024-09-15', '2024-09-17'),
+      ...range('2024-10-01', '2024-10-07'),
+    ],
+    workdays: ['2024-02-04', '2024-02-18', '2024-04-07', '2024-04-28', '2024-05-11', '2024-09-14', '2024-09-29', '2024-10-12'],
+  },
+  {
+    year: 2025,
+    holidays: [
+      '2025-01-01',
+      ...range('2025-01-28', '2025-02-04'),
+      ...range('2025-04-04', '2025-04-06'),
+      ...range('2025-05-01', '2025-05-05'),
+      ...range('2025-05-31', '2025-06-02'),
+      ...range('2025-10-01', '2025-10-08'),
+    ],
+    workdays: ['2025-01-26', '2025-02-08', '2025-04-27', '2025-09-28', '2025-10-11'],
+  },
+  {
+    year: 2026,
+    holidays: [
+      ...range('2026-01-01', '2026-01-03'),
+      ...range('2026-02-15', '2026-02-23'),
+      ...range('2026-04-04', '2026-04-06'),
+      ...range('2026-05-01', '2026-05-05'),
+      ...range('2026-06-19', '2026-06-21'),
+      ...range('2026-09-25', '2026-09-27'),
+      ...range('2026-10-01', '2026-10-07'),
+    ],
+    workdays: ['2026-01-04', '2026-02-14', '2026-02-28', '2026-05-09', '2026-09-20', '2026-10-10'],
+  },
+];
+
+export function createHolidayCalendar(schedules: HolidaySchedule[] = BUILT_IN_SCHEDULES): HolidayCalendar {
+  return {
+    holidays: new Set(schedules.flatMap(schedule => schedule.holidays)),
+    workdays: new Set(schedules.flatMap(schedule => schedule.workdays)),
+    years: new Set(schedules.map(schedule => schedule.year)),
+  };
+}
+
+export const defaultHolidayCalendar = createHolidayCalendar();
+
+/**
+ * 是否为工作日：调休上班日为工作日，法定假日和其余周末为休息日
+ */
+export function isWorkingDay(date: Date, calendar: HolidayCalendar = defaultHolidayCalendar): boolean {
+  const key = format(date, 'yyyy-MM-dd');
+  if (calendar.workdays.has(key)) return true;
+  if (calendar.holidays.has(key)) return false;
+  const day = date.getDay();
+  return day !== 0 && day !== 6;
+}
+
+/**
+ * 日期加减工作日，amount 为负数时向前推算
+ * 从 date 的次日（或前一日）开始计数，结果总是工作日；amount 为 0 时返回当天
+ */
+export function addWorkingDays(date: Date, amount: number, calendar: HolidayCalendar = defaultHolidayCalendar): Date {
+  let current = startOfDay(date);
+  const step = amount < 0 ? -1 : 1;
+  let remaining = Math.abs(amount);
+  while (remaining > 0) {
+    current = addDays(current, step);
+    if (isWorkingDay(current, calendar)) remaining--;
+  }
+  return current;
+}
+
+/**
+ * from 之后到 to（含）之间的工作日数，to 早于 from 时为负数
+ */
+export function workingDaysBetween(from: Date, to: Date, calendar: HolidayCalendar = defaultHolidayCalendar): number {
+  const start = startOfDay(from);
+  const end = startOfDay(to);
+  const step = end < start ? -1 : 1;
+  let count = 0;
+  for (let current = start; current.getTime() !== end.getTime();) {
+    // 向前计数时统计 (to, from] 区间，与向后计数对称
+    const counted = step > 0 ? addDays(current, 1) : current;
+    if (isWorkingDay(counted, calendar)) count += step;
+    current = addDays(current, step);
+  }
+  return count;
+}
+
+/**
+ * 日期落在休息日时顺延至下一个工作日
+ */
+export function nextWorkingDay(date: Date, calendar: HolidayCalendar = defaultHolidayCalendar): Date {
+  let current = startOfDay(date);
+  while (!isWorkingDay(current, calendar)) {
+    current = addDays(current, 1);
+  }
+  return current;
+}
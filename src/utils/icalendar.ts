@@ -0,0 +1,141 @@
+/**
+ * iCalendar（RFC 5545）日历文件生成
+ * 生成可被 Outlook、Google 日历、苹果日历等导入或订阅的 .ics 内容。
+ * 全天事件使用 VALUE=DATE，定时事件统一转换为 UTC 时间。
+ */
+
+import { addDays, format } from 'date-fns';
+
+export interface ICalendarAlarm {
+  /** 提前提醒的分钟数 */
+  minutes_before: number;
+  description: string;
+}
+
+export interface ICalendarEvent {
+  /** 全局唯一且稳定的事件 ID，重复导入时日历应用据此更新而不是新建 */
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  /** 全天事件不填时为一天；定时事件不填时为一小时 */
+  end?: Date;
+  all_day: boolean;
+  categories?: string[];
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  alarms?: ICalendarAlarm[];
+}
+
+export interface ICalendarOptions {
+  /** 日历名称，显示在订阅列表中 */
+  name: string;
+  description?: string;
+  /** 生成时间，用作 DTSTAMP */
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//CuckooX//Case Calendar//ZH';
+const MAX_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+/**
+ * 转义 TEXT 类型的值
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * 按 75 个字节折行，续行以空格开头；不拆分多字节字符
+ */
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // 续行开头的空格占一个字节
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return format(date, 'yyyyMMdd');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventLines(event: ICalendarEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.all_day) {
+    const end = event.end && event.end > event.start ? event.end : addDays(event.start, 1);
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+  } else {
+    const end = event.end && event.end > event.start ? event.end : new Date(event.start.getTime() + 60 * 60 * 1000);
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.all_day) lines.push('TRANSP:TRANSPARENT');
+
+  for (const alarm of event.alarms ?? []) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(alarm.description)}`,
+      `TRIGGER:-PT${Math.max(0, Math.round(alarm.minutes_before))}M`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * 生成 VCALENDAR 文本，行尾为 CRLF
+ */
+export function buildICalendar(events: ICalendarEvent[], options: ICalendarOptions): string {
+  const stamp = formatUtc(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+
+  for (const event of events) {
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,314 @@
+/**
+ * 利息计算引擎
+ * 在本地按 InterestCalculationParams 确定性地计算利息，支持：
+ * - 年/月/日利率与 30/360、actual/365、actual/360 计息惯例
+ * - 按月、按季、按年结息的复利
+ * - 按 LPR / 人民银行贷款基准利率表分段计息及利率倍数（如罚息 LPR×1.5）
+ * - 依据《企业破产法》第四十六条，计息截止于破产申请受理日
+ * 每个计息分段的利息四舍五入到分后再累加，结果可按明细逐段复核。
+ */
+
+import type {
+  BenchmarkInterestRate,
+  BenchmarkRateType,
+  InterestBreakdown,
+  InterestCalculationParams,
+  InterestCalculationResult
+} from '@/src/types/pdfParser';
+
+type DayCountConvention = NonNullable<InterestCalculationParams['dayCountConvention']>;
+type CompoundFrequency = NonNullable<InterestCalculationParams['compoundFrequency']>;
+
+export const BENCHMARK_RATE_LABELS: Record<BenchmarkRateType, string> = {
+  LPR_1Y: '一年期LPR',
+  LPR_5Y: '五年期以上LPR',
+  PBOC_1Y: '贷款基准利率（一年以内）',
+  PBOC_1_5Y: '贷款基准利率（一至五年）',
+  PBOC_5Y_PLUS: '贷款基准利率（五年以上）'
+};
+
+/**
+ * LPR 自 2019-08-20 起替代贷款基准利率，此前期间按同期贷款基准利率计息
+ */
+const BENCHMARK_RATE_PREDECESSORS: Partial<Record<BenchmarkRateType, BenchmarkRateType>> = {
+  LPR_1Y: 'PBOC_1Y',
+  LPR_5Y: 'PBOC_5Y_PLUS'
+};
+
+/**
+ * 内置基准利率表（年利率 %），仅记录利率调整日，数据库未维护利率表时使用
+ */
+export const DEFAULT_BENCHMARK_RATES: BenchmarkInterestRate[] = [
+  ...([
+    ['2014-11-22', 5.6, 6.0, 6.15],
+    ['2015-03-01', 5.35, 5.75, 5.9],
+    ['2015-05-11', 5.1, 5.5, 5.65],
+    ['2015-06-28', 4.85, 5.25, 5.4],
+    ['2015-08-26', 4.6, 5.0, 5.15],
+    ['2015-10-24', 4.35, 4.75, 4.9]
+  ] as const).flatMap(([date, oneYear, oneToFive, overFive]) => [
+    { rate_type: 'PBOC_1Y' as const, effective_date: date, rate: oneYear },
+    { rate_type: 'PBOC_1_5Y' as const, effective_date: date, rate: oneToFive },
+    { rate_type: 'PBOC_5Y_PLUS' as const, effective_date: date, rate: overFive }
+  ]),
+  ...([
+    ['2019-08-20', 4.25, 4.85],
+    ['2019-09-20', 4.2, 4.85],
+    ['2019-11-20', 4.15, 4.8],
+    ['2020-02-20', 4.05, 4.75],
+    ['2020-04-20', 3.85, 4.65],
+    ['2021-12-20', 3.8, 4.65],
+    ['2022-01-20', 3.7, 4.6],
+    ['2022-05-20', 3.7, 4.45],
+    ['2022-08-22', 3.65, 4.3],
+    ['2023-06-20', 3.55, 4.2],
+    ['2023-08-21', 3.45, 4.2],
+    ['2024-02-20', 3.45, 3.95],
+    ['2024-07-22', 3.35, 3.85],
+    ['2024-10-21', 3.1, 3.6],
+    ['2025-05-20', 3.0, 3.5]
+  ] as const).flatMap(([date, oneYear, fiveYear]) => [
+    { rate_type: 'LPR_1Y' as const, effective_date: date, rate: oneYear },
+    { rate_type: 'LPR_5Y' as const, effective_date: date, rate: fiveYear }
+  ])
+];
+
+const COMPOUND_MONTHS: Record<CompoundFrequency, number> = {
+  none: 0,
+  monthly: 1,
+  quarterly: 3,
+  annually: 12
+};
+
+const COMPOUND_LABELS: Record<CompoundFrequency, string> = {
+  none: '单利',
+  monthly: '按月结息计入本金',
+  quarterly: '按季结息计入本金',
+  annually: '按年结息计入本金'
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface AppliedRate {
+  annualRate: number;
+  description: string;
+}
+
+/**
+ * 日期转换为日序号（自 1970-01-01 起的天数）
+ * 字符串取其日期部分，Date 取本地日期，避免时区造成的日期偏移
+ */
+export function toDayNumber(value: Date | string): number {
+  if (typeof value === 'string') {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / MS_PER_DAY;
+    }
+    value = new Date(value);
+  }
+  if (Number.isNaN(value.getTime())) {
+    throw new Error('无效的日期');
+  }
+  return Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()) / MS_PER_DAY;
+}
+
+function fromDayNumber(dayNumber: number): Date {
+  const utc = new Date(dayNumber * MS_PER_DAY);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+}
+
+function formatDay(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * 按月份偏移日序号，月末日期取目标月最后一天（如 1月31日 加一个月为 2月28/29日）
+ */
+function addMonths(dayNumber: number, months: number): number {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)) / MS_PER_DAY;
+}
+
+/**
+ * 计算计息天数，30/360 按欧洲惯例（30E/360）
+ */
+export function countDays(start: number, end: number, convention: DayCountConvention): number {
+  if (convention !== '30/360') {
+    return end - start;
+  }
+  const from = new Date(start * MS_PER_DAY);
+  const to = new Date(end * MS_PER_DAY);
+  return (
+    360 * (to.getUTCFullYear() - from.getUTCFullYear()) +
+    30 * (to.getUTCMonth() - from.getUTCMonth()) +
+    (Math.min(to.getUTCDate(), 30) - Math.min(from.getUTCDate(), 30))
+  );
+}
+
+function getYearBasis(convention: DayCountConvention): number {
+  return convention === 'actual/365' ? 365 : 360;
+}
+
+function roundToCent(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+/**
+ * 查询某日适用的基准利率，LPR 实施前的日期回退到对应的贷款基准利率
+ */
+export function getBenchmarkRate(
+  rates: BenchmarkInterestRate[],
+  rateType: BenchmarkRateType,
+  date: Date | string
+): { rate_type: BenchmarkRateType; rate: number; effective_date: Date | string } | null {
+  const dayNumber = toDayNumber(date);
+  const applicable = rates
+    .filter(rate => rate.rate_type === rateType && toDayNumber(rate.effective_date) <= dayNumber)
+    .sort((a, b) => toDayNumber(b.effective_date) - toDayNumber(a.effective_date))[0];
+  if (applicable) {
+    return { rate_type: rateType, rate: applicable.rate, effective_date: applicable.effective_date };
+  }
+
+  const predecessor = BENCHMARK_RATE_PREDECESSORS[rateType];
+  return predecessor ? getBenchmarkRate(rates, predecessor, date) : null;
+}
+
+/**
+ * 计算利息
+ */
+export function calculateInterest(params: InterestCalculationParams): InterestCalculationResult {
+  const convention = params.dayCountConvention ?? 'actual/365';
+  const compoundFrequency = params.compoundFrequency ?? 'none';
+  const multiplier = params.rateMultiplier ?? 1;
+  const rateTable = params.benchmarkRates ?? DEFAULT_BENCHMARK_RATES;
+  const yearBasis = getYearBasis(convention);
+
+  if (!(params.principal > 0)) {
+    throw new Error('本金必须大于0');
+  }
+  if (!(multiplier > 0)) {
+    throw new Error('利率倍数必须大于0');
+  }
+
+  const start = toDayNumber(params.startDate);
+  const end = toDayNumber(params.endDate);
+  if (end < start) {
+    throw new Error('结束日期不能早于开始日期');
+  }
+
+  const acceptance = params.acceptanceDate ? toDayNumber(params.acceptanceDate) : null;
+  const stoppedAtAcceptance = acceptance !== null && acceptance < end;
+  const accrualEnd = stoppedAtAcceptance ? Math.max(acceptance, start) : end;
+
+  const multiplierText = multiplier === 1 ? '' : ` × ${formatNumber(multiplier)}`;
+
+  const getRate = (dayNumber: number): AppliedRate => {
+    if (!params.benchmarkRateType) {
+      const annualRate =
+        params.rateType === 'monthly' ? params.interestRate * 12 :
+        params.rateType === 'daily' ? params.interestRate * yearBasis :
+        params.interestRate;
+      const unit = params.rateType === 'monthly' ? '月利率' : params.rateType === 'daily' ? '日利率' : '年利率';
+      return {
+        annualRate: annualRate * multiplier,
+        description: `${unit} ${formatNumber(params.interestRate)}%${multiplierText}`
+      };
+    }
+
+    const benchmark = getBenchmarkRate(rateTable, params.benchmarkRateType, formatDay(dayNumber));
+    if (!benchmark) {
+      throw new Error(`基准利率表中缺少${BENCHMARK_RATE_LABELS[params.benchmarkRateType]}在${formatDay(dayNumber)}适用的利率`);
+    }
+    return {
+      annualRate: benchmark.rate * multiplier,
+      description: `${BENCHMARK_RATE_LABELS[benchmark.rate_type]} ${formatNumber(benchmark.rate)}%${multiplierText}`
+    };
+  };
+
+  // 分段节点：基准利率调整日与结息日
+  const rateChangeDays = params.benchmarkRateType
+    ? rateTable
+        .filter(rate => rate.rate_type === params.benchmarkRateType ||
+          rate.rate_type === BENCHMARK_RATE_PREDECESSORS[params.benchmarkRateType!])
+        .map(rate => toDayNumber(rate.effective_date))
+        .filter(day => day > start && day < accrualEnd)
+        .filter(day => getRate(day).description !== getRate(day - 1).description)
+    : [];
+
+  const compoundMonths = COMPOUND_MONTHS[compoundFrequency];
+  const compoundDays = new Set<number>();
+  if (compoundMonths > 0) {
+    for (let i = 1; ; i++) {
+      const day = addMonths(start, compoundMonths * i);
+      if (day >= accrualEnd) break;
+      compoundDays.add(day);
+    }
+  }
+
+  const boundaries = Array.from(new Set([start, ...rateChangeDays, ...compoundDays, accrualEnd])).sort((a, b) => a - b);
+
+  const breakdown: InterestBreakdown[] = [];
+  const terms: string[] = [];
+  let balance = params.principal;
+  let cumulativeInterest = 0;
+  let uncapitalizedInterest = 0;
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const segmentStart = boundaries[i];
+    const segmentEnd = boundaries[i + 1];
+    const days = countDays(segmentStart, segmentEnd, convention);
+    const rate = getRate(segmentStart);
+    const interest = roundToCent(balance * rate.annualRate / 100 * days / yearBasis);
+
+    cumulativeInterest = roundToCent(cumulativeInterest + interest);
+    breakdown.push({
+      period: `${formatDay(segmentStart)} 至 ${formatDay(segmentEnd)}`,
+      startDate: fromDayNumber(segmentStart),
+      endDate: fromDayNumber(segmentEnd),
+      principal: balance,
+      interest,
+      cumulativeInterest,
+      days,
+      annualRate: Number(rate.annualRate.toFixed(6)),
+      rateDescription: rate.description
+    });
+    terms.push(`${balance.toFixed(2)} × ${formatNumber(rate.annualRate)}% × ${days} ÷ ${yearBasis}`);
+
+    uncapitalizedInterest = roundToCent(uncapitalizedInterest + interest);
+    if (compoundDays.has(segmentEnd)) {
+      balance = roundToCent(balance + uncapitalizedInterest);
+      uncapitalizedInterest = 0;
+    }
+  }
+
+  const formulaLines = [
+    compoundMonths > 0
+      ? `利息 = Σ 期初本息 × 年利率 × 计息天数 ÷ ${yearBasis}（${COMPOUND_LABELS[compoundFrequency]}）`
+      : `利息 = Σ 本金 × 年利率 × 计息天数 ÷ ${yearBasis}`,
+    `= ${terms.length > 0 ? terms.join(' + ') : '0'}`,
+    `= ${cumulativeInterest.toFixed(2)}`
+  ];
+  if (stoppedAtAcceptance) {
+    formulaLines.push(`依据《企业破产法》第四十六条，计息截止于破产申请受理日 ${formatDay(acceptance!)}`);
+  }
+
+  return {
+    principal: params.principal,
+    interest: cumulativeInterest,
+    totalAmount: roundToCent(params.principal + cumulativeInterest),
+    calculationDate: new Date(),
+    parameters: params,
+    breakdown,
+    formula: formulaLines.join('\n'),
+    days: countDays(start, accrualEnd, convention),
+    accrualEndDate: fromDayNumber(accrualEnd),
+    stoppedAtAcceptance
+  };
+}
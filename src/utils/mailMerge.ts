@@ -0,0 +1,204 @@
+/**
+ * 邮件合并工具
+ * 将 Quill Delta 模板中的 {{字段}} 占位符替换为债权、债权人和案件数据，
+ * 用于批量生成《债权审查结果通知书》等文书。
+ */
+
+import type { DocumentTemplate } from '@/src/types/pdfParser';
+import type { ClaimNoticeCandidate } from '@/src/types/claimNotice';
+
+// Delta 操作（仅使用 insert 与 attributes）
+export interface DeltaOp {
+  insert?: unknown;
+  attributes?: Record<string, unknown>;
+}
+
+export interface TemplateDelta {
+  ops: DeltaOp[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+// 通知书可用的合并字段：字段名 → 显示名称
+export const CLAIM_NOTICE_FIELDS: Record<string, string> = {
+  case_name: '案件名称',
+  case_number: '案号',
+  manager_name: '管理人名称',
+  creditor_name: '债权人名称',
+  creditor_legal_id: '债权人证件号码',
+  creditor_address: '债权人地址',
+  claim_number: '债权编号',
+  asserted_nature: '申报债权性质',
+  asserted_total: '申报金额',
+  approved_nature: '确认债权性质',
+  approved_principal: '确认本金',
+  approved_interest: '确认利息',
+  approved_other_amount: '确认其他费用',
+  approved_total: '确认总额',
+  review_conclusion: '审查结论',
+  review_comments: '审查意见',
+  objection_deadline: '异议截止日期',
+  notice_date: '通知日期'
+};
+
+const REVIEW_CONCLUSIONS: Record<string, string> = {
+  '审核通过': '予以确认',
+  '部分通过': '部分予以确认',
+  '已驳回': '不予确认'
+};
+
+const highlighted = (field: string): DeltaOp => ({
+  insert: `{{${field}}}`,
+  attributes: { bold: true }
+});
+
+// 默认《债权审查结果通知书》模板
+export const CLAIM_REVIEW_NOTICE_TEMPLATE: DocumentTemplate = {
+  id: 'claim-review-result-notice',
+  name: '债权审查结果通知书',
+  description: '债权审查完成后向债权人告知确认金额及异议期限',
+  content: JSON.stringify({
+    ops: [
+      { insert: '债权审查结果通知书\n', attributes: { header: 1, align: 'center' } },
+      { insert: '（' },
+      highlighted('case_number'),
+      { insert: '）\n', attributes: { align: 'center' } },
+      highlighted('creditor_name'),
+      { insert: '：\n' },
+      { insert: '　　您（单位）在' },
+      highlighted('case_name'),
+      { insert: '中申报的债权（编号：' },
+      highlighted('claim_number'),
+      { insert: '），申报性质为' },
+      highlighted('asserted_nature'),
+      { insert: '，申报金额' },
+      highlighted('asserted_total'),
+      { insert: '元。经管理人审查，' },
+      highlighted('review_conclusion'),
+      { insert: '。\n' },
+      { insert: '确认债权性质：' },
+      highlighted('approved_nature'),
+      { insert: '\n确认本金：' },
+      highlighted('approved_principal'),
+      { insert: '元\n确认利息：' },
+      highlighted('approved_interest'),
+      { insert: '元\n确认其他费用：' },
+      highlighted('approved_other_amount'),
+      { insert: '元\n确认总额：' },
+      highlighted('approved_total'),
+      { insert: '元\n审查意见：' },
+      highlighted('review_comments'),
+      { insert: '\n' },
+      { insert: '　　如对上述审查结果有异议，请于' },
+      highlighted('objection_deadline'),
+      { insert: '前向管理人书面提出；逾期未提出的，视为无异议。\n' },
+      highlighted('manager_name'),
+      { insert: '\n', attributes: { align: 'right' } },
+      highlighted('notice_date'),
+      { insert: '\n', attributes: { align: 'right' } }
+    ]
+  }),
+  fieldMappings: CLAIM_NOTICE_FIELDS,
+  isDefault: true,
+  createdAt: new Date('2026-01-01T00:00:00Z')
+};
+
+export const CLAIM_NOTICE_TEMPLATES: DocumentTemplate[] = [CLAIM_REVIEW_NOTICE_TEMPLATE];
+
+/**
+ * 解析模板内容（Delta JSON 字符串）
+ */
+export function parseTemplateDelta(content: string): TemplateDelta {
+  try {
+    const parsed = JSON.parse(content);
+    if (!parsed || !Array.isArray(parsed.ops)) {
+      throw new Error('missing ops');
+    }
+    return parsed as TemplateDelta;
+  } catch {
+    throw new Error('通知书模板格式无效');
+  }
+}
+
+/**
+ * 列出模板中出现的全部占位符字段（去重，按出现顺序）
+ */
+export function extractPlaceholders(delta: TemplateDelta): string[] {
+  const fields: string[] = [];
+  delta.ops.forEach(op => {
+    if (typeof op.insert !== 'string') return;
+    for (const match of op.insert.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!fields.includes(match[1])) {
+        fields.push(match[1]);
+      }
+    }
+  });
+  return fields;
+}
+
+/**
+ * 用字段值替换模板中的占位符；未提供值的占位符保持原样，便于检查
+ */
+export function mergeDeltaTemplate(delta: TemplateDelta, values: Record<string, string>): TemplateDelta {
+  return {
+    ops: delta.ops.map(op => {
+      if (typeof op.insert !== 'string') {
+        return op;
+      }
+      const insert = op.insert.replace(PLACEHOLDER_PATTERN, (placeholder, field: string) =>
+        field in values ? values[field] : placeholder
+      );
+      return { ...op, insert };
+    })
+  };
+}
+
+/**
+ * 提取 Delta 纯文本，用于预览和站内消息正文
+ */
+export function deltaToPlainText(delta: TemplateDelta): string {
+  return delta.ops
+    .map(op => (typeof op.insert === 'string' ? op.insert : ''))
+    .join('');
+}
+
+/**
+ * 格式化为中文日期，如 2026年10月18日
+ */
+export function formatChineseDate(date: Date): string {
+  return `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`;
+}
+
+const formatMoney = (amount: number | undefined): string =>
+  (amount ?? 0).toLocaleString('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * 根据债权、债权人和案件信息生成合并字段值
+ */
+export function buildClaimNoticeValues(
+  candidate: ClaimNoticeCandidate,
+  objectionDeadline: Date,
+  noticeDate: Date = new Date()
+): Record<string, string> {
+  const rejected = candidate.review_status === '已驳回';
+  return {
+    case_name: candidate.case_name,
+    case_number: candidate.case_number,
+    manager_name: candidate.manager_organization || `${candidate.case_name}管理人`,
+    creditor_name: candidate.creditor_name,
+    creditor_legal_id: candidate.creditor_legal_id || '',
+    creditor_address: candidate.creditor_address || '',
+    claim_number: candidate.claim_number,
+    asserted_nature: candidate.asserted_nature,
+    asserted_total: formatMoney(candidate.asserted_total),
+    approved_nature: rejected ? '—' : candidate.approved_nature || candidate.asserted_nature,
+    approved_principal: formatMoney(rejected ? 0 : candidate.approved_principal),
+    approved_interest: formatMoney(rejected ? 0 : candidate.approved_interest),
+    approved_other_amount: formatMoney(rejected ? 0 : candidate.approved_other_amount),
+    approved_total: formatMoney(rejected ? 0 : candidate.approved_total),
+    review_conclusion: REVIEW_CONCLUSIONS[candidate.review_status] || candidate.review_status,
+    review_comments: candidate.review_comments || '无',
+    objection_deadline: formatChineseDate(objectionDeadline),
+    notice_date: formatChineseDate(noticeDate)
+  };
+}
@@ -0,0 +1,510 @@
+/**
+ * PDF 字段识别
+ * 根据 pdf.js 文字层提取的文字及其位置，按锚点和正则规则识别立案书、债权合同等文书中的字段，
+ * 生成与后端解析接口一致的 ParseResult、ParsedField 和 HighlightRegion。
+ * 坐标以页面左上角为原点，单位为 PDF 点（缩放比例 1 时与预览像素一致）。
+ */
+
+import { format } from 'date-fns';
+import type { BoundingBox, HighlightRegion, ParsedField, ParseResult } from '@/src/types/pdfParser';
+
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  /** 文字顶部 */
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+/** 页面上的固定区域，坐标与 PdfTextItem 相同 */
+export interface RecognitionRegion extends BoundingBox {
+  pageNumber: number;
+}
+
+export interface FieldValidation {
+  required?: boolean;
+  /** 取值（文本形式）须完整匹配的正则 */
+  pattern?: string;
+  /** 数值、金额、百分比的取值范围；百分比按小数比较 */
+  min?: number;
+  max?: number;
+}
+
+export interface FieldRecognitionRule {
+  name: string;
+  displayName: string;
+  dataType: ParsedField['dataType'];
+  /** 锚点文字，按顺序查找，取值位于锚点之后（同一行或下一行） */
+  anchors: string[];
+  /** 取值正则，有捕获组时取第一个捕获组；缺省按数据类型匹配 */
+  pattern?: string;
+  /** 取值所在的固定区域，优先于锚点查找；版式固定的文书使用 */
+  region?: RecognitionRegion;
+  /** 取值不满足校验时降低置信度，提示人工核对 */
+  validation?: FieldValidation;
+}
+
+export interface DocumentRecognitionProfile {
+  type: string;
+  name: string;
+  /** 用于判断文书类型的关键词，命中越多越优先 */
+  keywords: string[];
+  fields: FieldRecognitionRule[];
+}
+
+export interface RecognitionOptions {
+  fileId: string;
+  fileName: string;
+  profiles?: DocumentRecognitionProfile[];
+  /** 指定文书类型时不再按关键词判断 */
+  documentType?: string;
+  now?: Date;
+}
+
+const COURT_CASE_NUMBER = '[（(]\\d{4}[）)][\\u4e00-\\u9fa5\\d]{1,12}?\\d+号';
+const CREDIT_CODE = '[0-9A-HJ-NPQRTUWXY]{2}\\d{6}[0-9A-HJ-NPQRTUWXY]{10}';
+const PARTY_NAME = '[\\u4e00-\\u9fa5A-Za-z0-9（）()·]{2,40}?(?:有限责任公司|股份有限公司|有限公司|集团公司|公司|银行[\\u4e00-\\u9fa5]{0,12}支行|银行[\\u4e00-\\u9fa5]{0,12}分行|银行|合作社|中心|厂)';
+
+export const DEFAULT_RECOGNITION_PROFILES: DocumentRecognitionProfile[] = [
+  {
+    type: 'case_filing',
+    name: '立案书',
+    keywords: ['立案', '破产申请', '受理', '人民法院', '申请人', '被申请人', '案号'],
+    fields: [
+      { name: 'case_number', displayName: '案号', dataType: 'text', anchors: ['案号', '案件编号'], pattern: `(${COURT_CASE_NUMBER})` },
+      { name: 'court_name', displayName: '受理法院', dataType: 'text', anchors: ['受理法院', '管辖法院'], pattern: '([\\u4e00-\\u9fa5]{2,30}?人民法院)' },
+      { name: 'applicant_name', displayName: '申请人', dataType: 'text', anchors: ['申请人'], pattern: `(${PARTY_NAME}|[\\u4e00-\\u9fa5]{2,4})` },
+      { name: 'debtor_name', displayName: '债务人', dataType: 'text', anchors: ['被申请人', '债务人'], pattern: `(${PARTY_NAME})` },
+      { name: 'debtor_credit_code', displayName: '债务人统一社会信用代码', dataType: 'text', anchors: ['统一社会信用代码', '信用代码'], pattern: `(${CREDIT_CODE})` },
+      { name: 'legal_representative', displayName: '法定代表人', dataType: 'text', anchors: ['法定代表人', '负责人'], pattern: '([\\u4e00-\\u9fa5·]{2,6})' },
+      { name: 'filing_date', displayName: '申请日期', dataType: 'date', anchors: ['申请日期', '申请时间', '提交日期'] },
+      { name: 'acceptance_date', displayName: '受理日期', dataType: 'date', anchors: ['受理日期', '立案日期', '受理时间'] },
+    ],
+  },
+  {
+    type: 'creditor_contract',
+    name: '债权合同',
+    keywords: ['合同', '借款', '贷款', '出借人', '借款人', '贷款人', '利率', '本金'],
+    fields: [
+      { name: 'contract_number', displayName: '合同编号', dataType: 'text', anchors: ['合同编号', '合同号', '编号'], pattern: '([A-Za-z0-9\\-—_（）()〔〕\\[\\]\\u4e00-\\u9fa5]{3,40}?号|[A-Za-z0-9\\-_]{4,40})' },
+      { name: 'creditor_name', displayName: '债权人', dataType: 'text', anchors: ['贷款人', '出借人', '债权人', '甲方'], pattern: `(${PARTY_NAME}|[\\u4e00-\\u9fa5]{2,4})` },
+      { name: 'creditor_credit_code', displayName: '债权人统一社会信用代码', dataType: 'text', anchors: ['统一社会信用代码', '信用代码'], pattern: `(${CREDIT_CODE})` },
+      { name: 'debtor_name', displayName: '债务人', dataType: 'text', anchors: ['借款人', '债务人', '乙方'], pattern: `(${PARTY_NAME}|[\\u4e00-\\u9fa5]{2,4})` },
+      { name: 'principal_amount', displayName: '本金金额', dataType: 'currency', anchors: ['借款金额', '贷款金额', '借款本金', '本金', '金额'] },
+      { name: 'interest_rate', displayName: '年利率', dataType: 'percentage', anchors: ['年利率', '借款利率', '贷款利率', '利率'] },
+      { name: 'penalty_rate', displayName: '逾期利率', dataType: 'percentage', anchors: ['逾期利率', '罚息利率', '逾期罚息'] },
+      { name: 'contract_date', displayName: '签订日期', dataType: 'date', anchors: ['签订日期', '签约日期', '签订时间'] },
+      { name: 'start_date', displayName: '借款起始日', dataType: 'date', anchors: ['借款期限自', '期限自', '起息日', '起始日', '放款日'] },
+      { name: 'maturity_date', displayName: '到期日', dataType: 'date', anchors: ['到期日', '还款日', '日至'] },
+    ],
+  },
+];
+
+const DEFAULT_PATTERNS: Record<ParsedField['dataType'], string> = {
+  text: '([^\\s，。；;,]{1,60})',
+  number: '(-?[\\d,]+(?:\\.\\d+)?)',
+  currency: '((?:人民币|RMB|￥|¥)?\\s*(?:[\\d,]+(?:\\.\\d+)?\\s*[万亿]?元?|[零壹贰叁肆伍陆柒捌玖拾佰仟万亿元角分整圆]{2,}))',
+  percentage: '(\\d+(?:\\.\\d+)?\\s*[%％‰])',
+  date: '(\\d{4}\\s*[年\\-./]\\s*\\d{1,2}\\s*[月\\-./]\\s*\\d{1,2}\\s*日?)',
+  boolean: '(是|否|有|无|true|false)',
+};
+
+// 锚点与取值之间允许的分隔符
+const SEPARATOR = /^[\s:：为是即系]*/;
+const MAX_GAP = 12;
+
+const CONFIDENCE = {
+  sameLine: 0.95,
+  nextLine: 0.8,
+  distant: 0.1,
+  invalid: 0.5,
+};
+
+const HIGHLIGHT_COLORS = {
+  high: '#4caf50',
+  medium: '#ff9800',
+  low: '#f44336',
+};
+
+interface TextLine {
+  pageNumber: number;
+  text: string;
+  /** 每个字符的位置 */
+  boxes: BoundingBox[];
+}
+
+/**
+ * 将文字块按行合并，同一行内按横坐标排序
+ */
+export function buildTextLines(page: PdfTextPage): TextLine[] {
+  const items = page.items
+    .filter(item => item.text.trim())
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const rows: PdfTextItem[][] = [];
+  for (const item of items) {
+    const row = rows[rows.length - 1];
+    const reference = row?.[0];
+    if (reference && Math.abs(item.y + item.height / 2 - (reference.y + reference.height / 2)) <= Math.max(reference.height, item.height) / 2) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map(row => {
+    const line: TextLine = { pageNumber: page.pageNumber, text: '', boxes: [] };
+    let previous: PdfTextItem | null = null;
+    for (const item of row.sort((a, b) => a.x - b.x)) {
+      // 间距明显大于一个字宽时补一个空格，避免相邻栏目的文字粘连
+      if (previous && item.x - (previous.x + previous.width) > item.height) {
+        line.text += ' ';
+        line.boxes.push({ x: previous.x + previous.width, y: item.y, width: item.x - previous.x - previous.width, height: item.height });
+      }
+      const chars = Array.from(item.text);
+      const charWidth = item.width / Math.max(chars.length, 1);
+      chars.forEach((char, index) => {
+        line.text += char;
+        line.boxes.push({ x: item.x + charWidth * index, y: item.y, width: charWidth, height: item.height });
+      });
+      previous = item;
+    }
+    return line;
+  });
+}
+
+function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  const left = Math.min(...boxes.map(box => box.x));
+  const top = Math.min(...boxes.map(box => box.y));
+  const right = Math.max(...boxes.map(box => box.x + box.width));
+  const bottom = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+const CHINESE_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 壹: 1, 一: 1, 贰: 2, 二: 2, 两: 2, 叁: 3, 三: 3, 肆: 4, 四: 4,
+  伍: 5, 五: 5, 陆: 6, 六: 6, 柒: 7, 七: 7, 捌: 8, 八: 8, 玖: 9, 九: 9,
+};
+const CHINESE_UNITS: Record<string, number> = { 拾: 10, 十: 10, 佰: 100, 百: 100, 仟: 1000, 千: 1000 };
+
+/**
+ * 解析中文大写金额，如“壹佰万元整”“叁仟元伍角”
+ */
+export function parseChineseAmount(text: string): number | null {
+  const [integerPart, decimalPart = ''] = text.replace(/[整正]$/, '').split(/[元圆]/);
+  let total = 0;
+  let section = 0;
+  let digit = 0;
+  let seen = false;
+
+  for (const char of integerPart) {
+    if (char in CHINESE_DIGITS) {
+      digit = CHINESE_DIGITS[char];
+      seen = true;
+    } else if (char in CHINESE_UNITS) {
+      section += (digit || (seen ? 0 : 1)) * CHINESE_UNITS[char];
+      digit = 0;
+      seen = true;
+    } else if (char === '亿') {
+      total = (total + section + digit) * 1e8;
+      section = 0;
+      digit = 0;
+    } else if (char === '万') {
+      total += (section + digit) * 1e4;
+      section = 0;
+      digit = 0;
+    } else {
+      return null;
+    }
+  }
+  total += section + digit;
+
+  const jiao = /([零壹贰叁肆伍陆柒捌玖])角/.exec(decimalPart);
+  const fen = /([零壹贰叁肆伍陆柒捌玖])分/.exec(decimalPart);
+  total += (jiao ? CHINESE_DIGITS[jiao[1]] / 10 : 0) + (fen ? CHINESE_DIGITS[fen[1]] / 100 : 0);
+
+  return seen || jiao || fen ? Math.round(total * 100) / 100 : null;
+}
+
+/**
+ * 按数据类型规范化取值：金额为元，百分比为小数（5% 为 0.05），日期为 yyyy-MM-dd
+ * 无法识别时返回 null
+ */
+export function normalizeFieldValue(raw: string, dataType: ParsedField['dataType']): unknown {
+  const text = raw.trim();
+  switch (dataType) {
+    case 'currency': {
+      const body = text.replace(/^(人民币|RMB|￥|¥)\s*/i, '').replace(/\s+/g, '');
+      if (/^[零壹贰叁肆伍陆柒捌玖拾佰仟万亿元角分整圆]+$/.test(body)) {
+        return parseChineseAmount(body);
+      }
+      const match = /^([\d,]+(?:\.\d+)?)([万亿]?)/.exec(body);
+      if (!match) return null;
+      const amount = Number(match[1].replace(/,/g, '')) * (match[2] === '亿' ? 1e8 : match[2] === '万' ? 1e4 : 1);
+      return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null;
+    }
+    case 'percentage': {
+      const match = /^(\d+(?:\.\d+)?)\s*([%％‰])$/.exec(text);
+      if (!match) return null;
+      return Number(match[1]) / (match[2] === '‰' ? 1000 : 100);
+    }
+    case 'number': {
+      const value = Number(text.replace(/,/g, ''));
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'date': {
+      const match = /^(\d{4})\s*[年\-./]\s*(\d{1,2})\s*[月\-./]\s*(\d{1,2})/.exec(text);
+      if (!match) return null;
+      const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+      if (date.getMonth() !== Number(match[2]) - 1) return null;
+      return format(date, 'yyyy-MM-dd');
+    }
+    case 'boolean':
+      return ['是', '有', 'true'].includes(text);
+    case 'text':
+    default: {
+      const value = text.replace(/[，。；;,.、]+$/, '');
+      return value || null;
+    }
+  }
+}
+
+function compilePattern(rule: FieldRecognitionRule): RegExp {
+  return new RegExp(rule.pattern ?? DEFAULT_PATTERNS[rule.dataType], 'u');
+}
+
+interface FieldCandidate {
+  line: TextLine;
+  start: number;
+  end: number;
+  value: unknown;
+  confidence: number;
+}
+
+/**
+ * 在文字的指定位置之后查找取值
+ */
+function matchValueAfter(line: TextLine, from: number, pattern: RegExp, rule: FieldRecognitionRule, baseConfidence: number): FieldCandidate | null {
+  const rest = line.text.slice(from);
+  const offset = from + (SEPARATOR.exec(rest)?.[0].length ?? 0);
+  const match = pattern.exec(line.text.slice(offset));
+  if (!match) return null;
+
+  const matchedText = match[1] ?? match[0];
+  const start = offset + match.index + match[0].indexOf(matchedText);
+  const value = normalizeFieldValue(matchedText, rule.dataType);
+  if (value === null || value === '') return null;
+
+  const gap = start - offset;
+  if (gap > MAX_GAP * 2) return null;
+  return {
+    line,
+    start,
+    end: start + matchedText.length,
+    value,
+    confidence: baseConfidence - (gap > MAX_GAP ? CONFIDENCE.distant : 0),
+  };
+}
+
+/**
+ * 截取区域内的文字，字符中心落在区域内即计入
+ */
+function linesInRegion(lines: TextLine[], region: RecognitionRegion): TextLine[] {
+  const inside = (box: BoundingBox) => {
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    return centerX >= region.x && centerX <= region.x + region.width
+      && centerY >= region.y && centerY <= region.y + region.height;
+  };
+
+  return lines
+    .filter(line => line.pageNumber === region.pageNumber)
+    .map(line => {
+      const clipped: TextLine = { pageNumber: line.pageNumber, text: '', boxes: [] };
+      Array.from(line.text).forEach((char, index) => {
+        if (inside(line.boxes[index])) {
+          clipped.text += char;
+          clipped.boxes.push(line.boxes[index]);
+        }
+      });
+      return clipped;
+    })
+    .filter(line => line.text.trim());
+}
+
+/**
+ * 区域内的文字，多行以换行分隔；模板设计器据此预览取值或生成锚点
+ */
+export function extractRegionText(pages: PdfTextPage[], region: RecognitionRegion): string {
+  const page = pages.find(item => item.pageNumber === region.pageNumber);
+  if (!page) return '';
+  return linesInRegion(buildTextLines(page), region).map(line => line.text.trim()).join('\n');
+}
+
+function recognizeField(rule: FieldRecognitionRule, lines: TextLine[]): FieldCandidate | null {
+  const pattern = compilePattern(rule);
+
+  if (rule.region) {
+    for (const line of linesInRegion(lines, rule.region)) {
+      const candidate = matchValueAfter(line, 0, pattern, rule, CONFIDENCE.sameLine);
+      if (candidate) return candidate;
+    }
+  }
+
+  for (const anchor of rule.anchors) {
+    for (let index = 0; index < lines.length; index += 1) {
+      const line = lines[index];
+      let position = line.text.indexOf(anchor);
+      while (position >= 0) {
+        const sameLine = matchValueAfter(line, position + anchor.length, pattern, rule, CONFIDENCE.sameLine);
+        if (sameLine) return sameLine;
+
+        // 锚点位于行尾时，取值通常在下一行（如表格中的上下结构）
+        const next = lines[index + 1];
+        if (line.text.slice(position + anchor.length).replace(SEPARATOR, '') === '' && next?.pageNumber === line.pageNumber) {
+          const nextLine = matchValueAfter(next, 0, pattern, rule, CONFIDENCE.nextLine);
+          if (nextLine) return nextLine;
+        }
+        position = line.text.indexOf(anchor, position + anchor.length);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 校验识别出的取值，返回不通过的原因
+ */
+export function validateFieldValue(
+  value: unknown,
+  dataType: ParsedField['dataType'],
+  validation: FieldValidation = {}
+): string | null {
+  if (value === null || value === undefined || value === '') {
+    return validation.required ? '未识别到取值' : null;
+  }
+  if (validation.pattern && !new RegExp(`^(?:${validation.pattern})$`, 'u').test(String(value))) {
+    return '取值格式不符';
+  }
+  if (['number', 'currency', 'percentage'].includes(dataType) && typeof value === 'number') {
+    if (validation.min !== undefined && value < validation.min) return `取值小于 ${validation.min}`;
+    if (validation.max !== undefined && value > validation.max) return `取值大于 ${validation.max}`;
+  }
+  return null;
+}
+
+/**
+ * 按关键词命中数判断文书类型，没有命中任何关键词时返回 null
+ */
+export function detectDocumentProfile(
+  pages: PdfTextPage[],
+  profiles: DocumentRecognitionProfile[] = DEFAULT_RECOGNITION_PROFILES
+): DocumentRecognitionProfile | null {
+  const text = pages.flatMap(page => page.items.map(item => item.text)).join('');
+  let best: DocumentRecognitionProfile | null = null;
+  let bestScore = 0;
+  for (const profile of profiles) {
+    const score = profile.keywords.filter(keyword => text.includes(keyword)).length;
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function highlightColor(confidence: number): string {
+  if (confidence >= 0.9) return HIGHLIGHT_COLORS.high;
+  if (confidence >= 0.7) return HIGHLIGHT_COLORS.medium;
+  return HIGHLIGHT_COLORS.low;
+}
+
+/**
+ * 识别字段并生成解析结果
+ */
+export function recognizeDocument(pages: PdfTextPage[], options: RecognitionOptions): ParseResult {
+  const now = options.now ?? new Date();
+  const profiles = options.profiles ?? DEFAULT_RECOGNITION_PROFILES;
+  const base = {
+    id: `local-${options.fileId}`,
+    fileId: options.fileId,
+    fileName: options.fileName,
+    totalPages: pages.length,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (!pages.some(page => page.items.some(item => item.text.trim()))) {
+    return {
+      ...base,
+      status: 'failed',
+      fields: [],
+      confidence: 0,
+      highlightRegions: [],
+      error: '未提取到文字，可能是扫描件，请先进行文字识别（OCR）',
+    };
+  }
+
+  const profile = options.documentType
+    ? profiles.find(item => item.type === options.documentType) ?? null
+    : detectDocumentProfile(pages, profiles);
+  if (!profile) {
+    return {
+      ...base,
+      status: 'failed',
+      fields: [],
+      confidence: 0,
+      highlightRegions: [],
+      error: '无法识别文书类型',
+    };
+  }
+
+  const lines = pages.flatMap(buildTextLines);
+  const fields: ParsedField[] = [];
+  const highlightRegions: HighlightRegion[] = [];
+
+  for (const rule of profile.fields) {
+    const candidate = recognizeField(rule, lines);
+    if (!candidate) continue;
+
+    const position = unionBoxes(candidate.line.boxes.slice(candidate.start, candidate.end));
+    const invalid = validateFieldValue(candidate.value, rule.dataType, rule.validation) !== null;
+    const confidence = Math.round(Math.min(candidate.confidence, invalid ? CONFIDENCE.invalid : 1) * 100) / 100;
+    fields.push({
+      name: rule.name,
+      displayName: rule.displayName,
+      value: candidate.value,
+      confidence,
+      sourceText: candidate.line.text.trim(),
+      pageNumber: candidate.line.pageNumber,
+      position,
+      isModified: false,
+      dataType: rule.dataType,
+    });
+    highlightRegions.push({
+      id: `${rule.name}-${candidate.line.pageNumber}`,
+      pageNumber: candidate.line.pageNumber,
+      ...position,
+      color: highlightColor(confidence),
+      fieldName: rule.name,
+      confidence,
+    });
+  }
+
+  return {
+    ...base,
+    status: 'completed',
+    fields,
+    // 未识别的字段按 0 计入整体置信度
+    confidence: Math.round((fields.reduce((sum, field) => sum + field.confidence, 0) / profile.fields.length) * 100) / 100,
+    highlightRegions,
+  };
+}
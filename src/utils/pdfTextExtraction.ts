@@ -0,0 +1,66 @@
+/**
+ * PDF 文字层提取
+ * 使用 pdf.js 读取每页的文字及其位置，坐标转换为以页面左上角为原点的 PDF 点，
+ * 供 pdfFieldRecognition 识别字段。pdf.js 的解析 worker 随应用一起打包，不依赖外部 CDN。
+ */
+
+import { getDocument, GlobalWorkerOptions, Util } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { PdfTextPage } from './pdfFieldRecognition';
+
+function ensurePdfWorker() {
+  if (GlobalWorkerOptions.workerPort || GlobalWorkerOptions.workerSrc) return;
+
+  const workerUrl = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url);
+  if (typeof window === 'undefined') {
+    // 在 Web Worker 中运行时 pdf.js 无法自行创建 worker，需要直接提供端口
+    GlobalWorkerOptions.workerPort = new Worker(workerUrl, { type: 'module' });
+  } else {
+    GlobalWorkerOptions.workerSrc = workerUrl.toString();
+  }
+}
+
+/**
+ * 提取全部页面的文字块
+ */
+export async function extractPdfTextPages(
+  data: ArrayBuffer,
+  onProgress?: (pageNumber: number, totalPages: number) => void
+): Promise<PdfTextPage[]> {
+  ensurePdfWorker();
+
+  const loadingTask = getDocument({ data: new Uint8Array(data) });
+  const pdf = await loadingTask.promise;
+  const pages: PdfTextPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber += 1) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items = content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+        .map(item => {
+          // 文字矩阵转换到视口坐标，e/f 为基线起点
+          const transform = Util.transform(viewport.transform, item.transform);
+          const fontHeight = Math.hypot(transform[2], transform[3]);
+          return {
+            text: item.str,
+            x: transform[4],
+            y: transform[5] - fontHeight,
+            width: item.width * viewport.scale,
+            height: fontHeight,
+          };
+        });
+
+      pages.push({ pageNumber, width: viewport.width, height: viewport.height, items });
+      page.cleanup();
+      onProgress?.(pageNumber, pdf.numPages);
+    }
+  } finally {
+    await loadingTask.destroy();
+  }
+
+  return pages;
+}
@@ -0,0 +1,355 @@
+/**
+ * 轻量级PDF生成工具
+ * 使用Adobe标准中文字体（STSong-Light + UniGB-UCS2-H），无需嵌入字体文件即可输出中文内容，
+ * 支持标题、段落、表格的自动分页和页脚页码。
+ *
+ * 字体不嵌入PDF，中文显示依赖阅读器：
+ * - Adobe Acrobat/Reader 需要安装"亚洲语言字体包"，否则提示缺少字体或显示为空白；
+ * - 浏览器内置阅读器（pdf.js、PDFium）和 macOS 预览通过CMap还原文本，使用系统中文字体替代显示；
+ * - 未安装任何中文字体的系统上显示为方框或空白，但文本仍可复制和检索。
+ */
+
+export interface PdfTableColumn {
+  header: string;
+  /** 相对宽度权重，默认1 */
+  width?: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+export type PdfTableCell = string | number | null | undefined;
+
+export interface PdfWriterOptions {
+  title?: string;
+  /** 页面尺寸（pt），默认A4纵向 */
+  pageWidth?: number;
+  pageHeight?: number;
+  margin?: number;
+  fontSize?: number;
+  /** 是否在页脚输出页码，默认true */
+  pageNumbers?: boolean;
+}
+
+interface PdfPage {
+  ops: string[];
+}
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+
+/**
+ * 估算文本宽度（单位：字号倍数）
+ * ASCII字符按半角宽度计算，其余字符按全角宽度计算
+ */
+export const measureTextUnits = (text: string): number => {
+  let units = 0;
+  for (const ch of text) {
+    units += ch.charCodeAt(0) < 0x80 ? 0.5 : 1;
+  }
+  return units;
+};
+
+/**
+ * 将文本编码为UCS-2十六进制字符串（超出BMP的字符替换为"?"）
+ */
+const encodeUcs2Hex = (text: string): string => {
+  let hex = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 0x3f;
+    const safe = code > 0xffff ? 0x3f : code;
+    hex += safe.toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+};
+
+const formatNumber = (value: number): string => {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
+
+/**
+ * 按最大宽度将文本拆分为多行
+ */
+export const wrapText = (text: string, fontSize: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    let currentWidth = 0;
+    for (const ch of paragraph) {
+      const charWidth = measureTextUnits(ch) * fontSize;
+      if (currentWidth + charWidth > maxWidth && current) {
+        lines.push(current);
+        current = '';
+        currentWidth = 0;
+      }
+      current += ch;
+      currentWidth += charWidth;
+    }
+    lines.push(current);
+  }
+  return lines;
+};
+
+export class PdfWriter {
+  private readonly pageWidth: number;
+  private readonly pageHeight: number;
+  private readonly margin: number;
+  private readonly fontSize: number;
+  private readonly title: string;
+  private readonly pageNumbers: boolean;
+  private pages: PdfPage[] = [];
+  private cursorY = 0;
+
+  constructor(options: PdfWriterOptions = {}) {
+    this.pageWidth = options.pageWidth ?? A4_WIDTH;
+    this.pageHeight = options.pageHeight ?? A4_HEIGHT;
+    this.margin = options.margin ?? 50;
+    this.fontSize = options.fontSize ?? 10;
+    this.title = options.title ?? '';
+    this.pageNumbers = options.pageNumbers ?? true;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  private get contentWidth(): number {
+    return this.pageWidth - this.margin * 2;
+  }
+
+  private get bottomLimit(): number {
+    // 预留页脚空间
+    return this.margin + (this.pageNumbers ? 20 : 0);
+  }
+
+  private get currentPage(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): this {
+    this.pages.push({ ops: [] });
+    this.cursorY = this.pageHeight - this.margin;
+    return this;
+  }
+
+  /**
+   * 确保当前页剩余空间足够，否则换页
+   */
+  private ensureSpace(height: number): boolean {
+    if (this.cursorY - height < this.bottomLimit) {
+      this.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  private drawText(text: string, x: number, y: number, fontSize: number): void {
+    if (!text) return;
+    this.currentPage.ops.push(
+      `BT /F1 ${formatNumber(fontSize)} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${encodeUcs2Hex(text)} Tj ET`,
+    );
+  }
+
+  private drawRect(x: number, y: number, width: number, height: number, fillGray?: number): void {
+    const rect = `${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re`;
+    if (fillGray !== undefined) {
+      this.currentPage.ops.push(`q ${fillGray} g ${rect} f Q`);
+    }
+    this.currentPage.ops.push(`0.5 w 0.6 G ${rect} S`);
+  }
+
+  private drawLine(x1: number, y1: number, x2: number, y2: number): void {
+    this.currentPage.ops.push(
+      `0.8 w 0.4 G ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`,
+    );
+  }
+
+  /**
+   * 居中大标题
+   */
+  addTitle(text: string, fontSize: number = this.fontSize * 1.8): this {
+    const lineHeight = fontSize * 1.4;
+    const lines = wrapText(text, fontSize, this.contentWidth);
+    this.ensureSpace(lineHeight * lines.length);
+    for (const line of lines) {
+      const width = measureTextUnits(line) * fontSize;
+      this.cursorY -= lineHeight;
+      this.drawText(line, this.margin + (this.contentWidth - width) / 2, this.cursorY + fontSize * 0.3, fontSize);
+    }
+    this.cursorY -= fontSize * 0.6;
+    return this;
+  }
+
+  /**
+   * 章节标题（带下划线）
+   */
+  addHeading(text: string, fontSize: number = this.fontSize * 1.4): this {
+    const lineHeight = fontSize * 1.5;
+    // 标题与其后至少一行内容保持在同一页
+    this.ensureSpace(lineHeight + this.fontSize * 3);
+    this.cursorY -= lineHeight;
+    this.drawText(text, this.margin, this.cursorY + fontSize * 0.35, fontSize);
+    this.drawLine(this.margin, this.cursorY, this.margin + this.contentWidth, this.cursorY);
+    this.cursorY -= fontSize * 0.5;
+    return this;
+  }
+
+  /**
+   * 普通段落，自动换行和分页
+   */
+  addParagraph(text: string, fontSize: number = this.fontSize): this {
+    const lineHeight = fontSize * 1.6;
+    for (const line of wrapText(text, fontSize, this.contentWidth)) {
+      this.ensureSpace(lineHeight);
+      this.cursorY -= lineHeight;
+      this.drawText(line, this.margin, this.cursorY + fontSize * 0.4, fontSize);
+    }
+    return this;
+  }
+
+  addSpacer(height: number = this.fontSize): this {
+    this.cursorY -= height;
+    if (this.cursorY < this.bottomLimit) {
+      this.addPage();
+    }
+    return this;
+  }
+
+  /**
+   * 表格，跨页时自动重复表头
+   */
+  addTable(columns: PdfTableColumn[], rows: PdfTableCell[][], fontSize: number = this.fontSize): this {
+    if (columns.length === 0) return this;
+
+    const padding = 4;
+    const lineHeight = fontSize * 1.4;
+    const totalWeight = columns.reduce((sum, col) => sum + (col.width ?? 1), 0);
+    const widths = columns.map(col => (this.contentWidth * (col.width ?? 1)) / totalWeight);
+
+    const layoutRow = (cells: PdfTableCell[]) => {
+      const cellLines = columns.map((_, index) => {
+        const value = cells[index];
+        const text = value === null || value === undefined ? '' : String(value);
+        return wrapText(text, fontSize, widths[index] - padding * 2);
+      });
+      const height = Math.max(...cellLines.map(lines => lines.length)) * lineHeight + padding * 2;
+      return { cellLines, height };
+    };
+
+    const drawRow = (cellLines: string[][], height: number, isHeader: boolean) => {
+      let x = this.margin;
+      const top = this.cursorY;
+      cellLines.forEach((lines, index) => {
+        const width = widths[index];
+        this.drawRect(x, top - height, width, height, isHeader ? 0.92 : undefined);
+        const align = isHeader ? 'center' : (columns[index].align ?? 'left');
+        lines.forEach((line, lineIndex) => {
+          const textWidth = measureTextUnits(line) * fontSize;
+          let textX = x + padding;
+          if (align === 'right') textX = x + width - padding - textWidth;
+          if (align === 'center') textX = x + (width - textWidth) / 2;
+          const baseline = top - padding - lineHeight * (lineIndex + 1) + (lineHeight - fontSize) / 2 + fontSize * 0.2;
+          this.drawText(line, textX, baseline, fontSize);
+        });
+        x += width;
+      });
+      this.cursorY -= height;
+    };
+
+    const header = layoutRow(columns.map(col => col.header));
+    this.ensureSpace(header.height * 2);
+    drawRow(header.cellLines, header.height, true);
+
+    for (const row of rows) {
+      const { cellLines, height } = layoutRow(row);
+      if (this.ensureSpace(height)) {
+        drawRow(header.cellLines, header.height, true);
+      }
+      drawRow(cellLines, height, false);
+    }
+
+    this.cursorY -= fontSize;
+    return this;
+  }
+
+  /**
+   * 输出PDF字节
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+
+    // 对象编号：1 Catalog, 2 Pages, 3 Type0字体, 4 CIDFont, 5 FontDescriptor, 6 Info，随后每页占两个对象
+    const firstPageObj = 7;
+    const pageRefs = this.pages.map((_, index) => `${firstPageObj + index * 2} 0 R`);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageCount} >>`);
+    objects.push(
+      '<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UCS2-H /DescendantFonts [4 0 R] >>',
+    );
+    objects.push(
+      '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light ' +
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 2 >> ' +
+        '/FontDescriptor 5 0 R /DW 1000 /W [1 95 500 814 907 500 7712 7716 500] >>',
+    );
+    objects.push(
+      '<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] ' +
+        '/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>',
+    );
+    objects.push(`<< /Producer (CuckooX) /Title ${encodeUtf16Hex(this.title)} >>`);
+
+    this.pages.forEach((page, index) => {
+      const ops = [...page.ops];
+      if (this.pageNumbers) {
+        const footer = `第 ${index + 1} 页 / 共 ${pageCount} 页`;
+        const footerSize = this.fontSize * 0.8;
+        const width = measureTextUnits(footer) * footerSize;
+        ops.push(
+          `BT /F1 ${formatNumber(footerSize)} Tf ${formatNumber((this.pageWidth - width) / 2)} ${formatNumber(this.margin / 2)} Td ${encodeUcs2Hex(footer)} Tj ET`,
+        );
+      }
+      const stream = ops.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.pageWidth)} ${formatNumber(this.pageHeight)}] ` +
+          `/Resources << /Font << /F1 3 0 R >> >> /Contents ${firstPageObj + index * 2 + 1} 0 R >>`,
+      );
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    });
+
+    // 所有内容均为ASCII，字符串长度即字节长度
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => {
+      output += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    });
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toBytes()], { type: 'application/pdf' });
+  }
+}
+
+/**
+ * 文档信息字典使用带BOM的UTF-16BE文本字符串
+ */
+const encodeUtf16Hex = (text: string): string => {
+  let hex = 'feff';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+};
@@ -0,0 +1,608 @@
+/**
+ * 案件提醒触发条件表达式
+ * notification_rule.trigger_condition 使用的小型表达式语言，只能引用案件日期字段和内置函数，
+ * 不执行任何代码。表达式结果必须为真/假。
+ *
+ * 语法：
+ *   字段      acceptance_date、announcement_date …，也可写中文名称，如 受理时间
+ *   today     今天（别名 当前时间、今天）；phase_deadline 为当前阶段在程序流程中定义的法定期限
+ *   期间      25d / 25天 / 25日、10wd / 10工作日、2w / 2周、3m / 3月 / 3个月、1y / 1年
+ *   运算      日期 ± 期间 → 日期；日期 - 日期 → 天数；比较 < <= > >= == !=；and / or / not（且 / 或 / 非）
+ *   函数      days_until(日期)、working_days_until(日期)、days_since(日期)、
+ *             due_within(日期, 期限)（0 < 距今天数 <= 期限，期限为工作日时按工作日计算）、
+ *             next_working_day(日期)、is_working_day(日期)、is_set(字段)
+ *
+ * 示例：due_within(acceptance_date + 25d, 5)
+ *       working_days_until(claim_submission_end_date) <= 3 and is_working_day(today)
+ *       受理时间+25天-当前时间 <= 5天
+ *
+ * 引用的字段为空时，相关运算结果为空，比较和函数判断均为假。
+ */
+
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, startOfDay } from 'date-fns';
+import {
+  addWorkingDays,
+  defaultHolidayCalendar,
+  isWorkingDay,
+  nextWorkingDay,
+  workingDaysBetween,
+  type HolidayCalendar,
+} from './holidayCalendar';
+
+export type DurationUnit = 'd' | 'wd' | 'w' | 'm' | 'y';
+
+interface Duration {
+  amount: number;
+  unit: DurationUnit;
+}
+
+type Value = number | boolean | Date | Duration | null;
+
+type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export type ConditionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'duration'; amount: number; unit: DurationUnit }
+  | { kind: 'field'; name: string }
+  | { kind: 'call'; name: string; args: ConditionNode[] }
+  | { kind: 'arithmetic'; op: '+' | '-'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'compare'; op: ComparisonOperator; left: ConditionNode; right: ConditionNode }
+  | { kind: 'logical'; op: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'not'; operand: ConditionNode };
+
+export interface ConditionContext {
+  /** 案件记录 */
+  fields: Record<string, unknown>;
+  today: Date;
+  phaseDeadline?: Date | null;
+  calendar?: HolidayCalendar;
+}
+
+export interface ConditionResult {
+  matched: boolean;
+  /** 条件中第一个被计算距今天数的日期，作为提醒的截止日期 */
+  target: Date | null;
+}
+
+export class ReminderConditionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message}（第 ${position + 1} 个字符）`);
+    this.name = 'ReminderConditionError';
+  }
+}
+
+/**
+ * 可在条件中引用的案件日期字段
+ */
+export const CASE_DATE_FIELDS: Record<string, string> = {
+  acceptance_date: '受理时间',
+  announcement_date: '公告时间',
+  claim_submission_start_date: '债权申报开始时间',
+  claim_submission_end_date: '债权申报截止时间',
+  first_creditor_meeting_date: '第一次债权人会议时间',
+  reorganization_ruling_date: '裁定重整时间',
+  delayed_reorganization_plan_submission_date: '延迟提交重整计划时间',
+  reorganization_plan_submission_date: '提交重整计划时间',
+  second_creditor_meeting_date: '第二次债权人会议时间',
+  closing_date: '结案时间',
+};
+
+const SPECIAL_IDENTIFIERS: Record<string, string> = {
+  today: 'today',
+  当前时间: 'today',
+  今天: 'today',
+  phase_deadline: 'phase_deadline',
+  阶段期限: 'phase_deadline',
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  ...Object.fromEntries(Object.keys(CASE_DATE_FIELDS).map(field => [field, field])),
+  ...Object.fromEntries(Object.entries(CASE_DATE_FIELDS).map(([field, label]) => [label, field])),
+  ...SPECIAL_IDENTIFIERS,
+};
+
+const FUNCTION_ARITY: Record<string, number> = {
+  days_until: 1,
+  working_days_until: 1,
+  days_since: 1,
+  due_within: 2,
+  next_working_day: 1,
+  is_working_day: 1,
+  is_set: 1,
+};
+
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = {
+  and: 'and',
+  或: 'or',
+  or: 'or',
+  且: 'and',
+  not: 'not',
+  非: 'not',
+};
+
+// 多字符单位（工作日、个月、wd）优先匹配
+const UNIT_SUFFIXES: Array<[string, DurationUnit]> = [
+  ['工作日', 'wd'],
+  ['个月', 'm'],
+  ['wd', 'wd'],
+  ['天', 'd'],
+  ['日', 'd'],
+  ['周', 'w'],
+  ['月', 'm'],
+  ['年', 'y'],
+  ['d', 'd'],
+  ['w', 'w'],
+  ['m', 'm'],
+  ['y', 'y'],
+];
+
+type Token =
+  | { type: 'number'; value: number; unit?: DurationUnit; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'keyword'; value: 'and' | 'or' | 'not'; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const OPERATORS: Array<[string, string]> = [
+  ['<=', '<='],
+  ['>=', '>='],
+  ['==', '=='],
+  ['!=', '!='],
+  ['&&', 'and'],
+  ['||', 'or'],
+  ['≤', '<='],
+  ['≥', '>='],
+  ['≠', '!='],
+  ['<', '<'],
+  ['>', '>'],
+  ['=', '=='],
+  ['!', 'not'],
+  ['+', '+'],
+  ['-', '-'],
+  ['(', '('],
+  [')', ')'],
+  ['（', '('],
+  ['）', ')'],
+  [',', ','],
+  ['，', ','],
+];
+
+const IDENT_CHAR = /[A-Za-z0-9_一-龥]/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const start = pos;
+      while (pos < source.length && /[0-9.]/.test(source[pos])) pos++;
+      const value = Number(source.slice(start, pos));
+      if (Number.isNaN(value)) {
+        throw new ReminderConditionError('无效的数字', start);
+      }
+      while (pos < source.length && source[pos] === ' ') pos++;
+      const suffix = UNIT_SUFFIXES.find(([text]) =>
+        source.startsWith(text, pos) && !/[A-Za-z0-9_]/.test(source[pos + text.length] ?? '')
+      );
+      if (suffix) {
+        pos += suffix[0].length;
+      }
+      tokens.push({ type: 'number', value, unit: suffix?.[1], pos: start });
+      continue;
+    }
+
+    if (IDENT_CHAR.test(char)) {
+      const start = pos;
+      while (pos < source.length && IDENT_CHAR.test(source[pos])) pos++;
+      const word = source.slice(start, pos);
+      const keyword = KEYWORDS[word.toLowerCase()];
+      tokens.push(keyword ? { type: 'keyword', value: keyword, pos: start } : { type: 'ident', value: word, pos: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(([text]) => source.startsWith(text, pos));
+    if (!operator) {
+      throw new ReminderConditionError(`无法识别的字符“${char}”`, pos);
+    }
+    tokens.push(
+      operator[1] === 'and' || operator[1] === 'or' || operator[1] === 'not'
+        ? { type: 'keyword', value: operator[1], pos }
+        : { type: 'op', value: operator[1], pos }
+    );
+    pos += operator[0].length;
+  }
+
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ReminderConditionError('表达式中有多余的内容', token.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'op' && token.value === value;
+  }
+
+  private isKeyword(value: 'and' | 'or' | 'not'): boolean {
+    const token = this.peek();
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.type !== 'op' || token.value !== value) {
+      throw new ReminderConditionError(`缺少“${value}”`, token.pos);
+    }
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.next();
+      left = { kind: 'logical', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.next();
+      left = { kind: 'logical', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.type === 'op' && ['<', '<=', '>', '>=', '==', '!='].includes(token.value)) {
+      this.next();
+      return { kind: 'compare', op: token.value as ComparisonOperator, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ConditionNode {
+    let left = this.parsePrimary();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.isOp('+') ? '+' : '-';
+      this.next();
+      left = { kind: 'arithmetic', op, left, right: this.parsePrimary() };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return token.unit
+        ? { kind: 'duration', amount: token.value, unit: token.unit }
+        : { kind: 'number', value: token.value };
+    }
+
+    if (token.type === 'op' && token.value === '-') {
+      const operand = this.parsePrimary();
+      if (operand.kind === 'number') return { kind: 'number', value: -operand.value };
+      if (operand.kind === 'duration') return { ...operand, amount: -operand.amount };
+      throw new ReminderConditionError('负号只能用于数字或期间', token.pos);
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      const node = this.parseOr();
+      this.expectOp(')');
+      return node;
+    }
+
+    if (token.type === 'ident') {
+      if (this.isOp('(')) {
+        const name = token.value.toLowerCase();
+        if (!(name in FUNCTION_ARITY)) {
+          throw new ReminderConditionError(`未知函数：${token.value}`, token.pos);
+        }
+        this.next();
+        const args: ConditionNode[] = [];
+        if (!this.isOp(')')) {
+          args.push(this.parseOr());
+          while (this.isOp(',')) {
+            this.next();
+            args.push(this.parseOr());
+          }
+        }
+        this.expectOp(')');
+        if (args.length !== FUNCTION_ARITY[name]) {
+          throw new ReminderConditionError(`函数 ${name} 需要 ${FUNCTION_ARITY[name]} 个参数`, token.pos);
+        }
+        return { kind: 'call', name, args };
+      }
+
+      const field = FIELD_ALIASES[token.value] ?? FIELD_ALIASES[token.value.toLowerCase()];
+      if (!field) {
+        throw new ReminderConditionError(`未知字段：${token.value}`, token.pos);
+      }
+      return { kind: 'field', name: field };
+    }
+
+    throw new ReminderConditionError(token.type === 'end' ? '表达式不完整' : '此处应为字段、数字或函数', token.pos);
+  }
+}
+
+/**
+ * 解析触发条件
+ * @throws ReminderConditionError 语法错误
+ */
+export function parseCondition(source: string): ConditionNode {
+  if (!source.trim()) {
+    throw new ReminderConditionError('触发条件不能为空');
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * 校验触发条件，返回错误说明，无误时返回 null
+ */
+export function validateCondition(source: string): string | null {
+  try {
+    parseCondition(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const isDate = (value: Value): value is Date => value instanceof Date;
+const isDuration = (value: Value): value is Duration =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && 'unit' in value;
+
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(value as string | number | Date);
+  return Number.isNaN(date.getTime()) ? null : startOfDay(date);
+}
+
+function describe(value: Value): string {
+  if (value === null) return '空值';
+  if (isDate(value)) return '日期';
+  if (isDuration(value)) return '期间';
+  return typeof value === 'number' ? '数字' : '真/假';
+}
+
+/**
+ * 期间与数字比较时按天数换算，月、年无法换算
+ */
+function durationToDays(duration: Duration): number {
+  switch (duration.unit) {
+    case 'd':
+    case 'wd':
+      return duration.amount;
+    case 'w':
+      return duration.amount * 7;
+    default:
+      throw new ReminderConditionError('按月或年计的期间不能与天数比较');
+  }
+}
+
+class Evaluator {
+  target: Date | null = null;
+  private today: Date;
+  private calendar: HolidayCalendar;
+
+  constructor(private context: ConditionContext) {
+    this.today = startOfDay(context.today);
+    this.calendar = context.calendar ?? defaultHolidayCalendar;
+  }
+
+  private remember(date: Date): void {
+    if (!this.target) this.target = date;
+  }
+
+  private shift(date: Date, duration: Duration, sign: 1 | -1): Date {
+    const amount = duration.amount * sign;
+    switch (duration.unit) {
+      case 'd':
+        return addDays(date, amount);
+      case 'wd':
+        return addWorkingDays(date, amount, this.calendar);
+      case 'w':
+        return addWeeks(date, amount);
+      case 'm':
+        return addMonths(date, amount);
+      case 'y':
+        return addYears(date, amount);
+    }
+  }
+
+  private truthy(value: Value): boolean {
+    if (value === null) return false;
+    if (typeof value !== 'boolean') {
+      throw new ReminderConditionError(`此处需要真/假，实际为${describe(value)}`);
+    }
+    return value;
+  }
+
+  private expectDate(value: Value, name: string): Date | null {
+    if (value === null) return null;
+    if (!isDate(value)) {
+      throw new ReminderConditionError(`函数 ${name} 的参数必须是日期`);
+    }
+    return value;
+  }
+
+  evaluate(node: ConditionNode): Value {
+    switch (node.kind) {
+      case 'number':
+        return node.value;
+
+      case 'duration':
+        return { amount: node.amount, unit: node.unit };
+
+      case 'field':
+        if (node.name === 'today') return this.today;
+        if (node.name === 'phase_deadline') return toDate(this.context.phaseDeadline);
+        return toDate(this.context.fields[node.name]);
+
+      case 'not':
+        return !this.truthy(this.evaluate(node.operand));
+
+      case 'logical': {
+        const left = this.truthy(this.evaluate(node.left));
+        if (node.op === 'and' && !left) return false;
+        if (node.op === 'or' && left) return true;
+        return this.truthy(this.evaluate(node.right));
+      }
+
+      case 'arithmetic':
+        return this.arithmetic(node.op, this.evaluate(node.left), this.evaluate(node.right));
+
+      case 'compare':
+        return this.compare(node.op, this.evaluate(node.left), this.evaluate(node.right));
+
+      case 'call':
+        return this.call(node.name, node.args.map(arg => this.evaluate(arg)));
+    }
+  }
+
+  private arithmetic(op: '+' | '-', left: Value, right: Value): Value {
+    if (left === null || right === null) return null;
+    const sign = op === '+' ? 1 : -1;
+
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left + sign * right;
+    }
+    if (isDate(left) && isDuration(right)) {
+      return this.shift(left, right, sign);
+    }
+    if (op === '+' && isDuration(left) && isDate(right)) {
+      return this.shift(right, left, 1);
+    }
+    if (op === '-' && isDate(left) && isDate(right)) {
+      if (right.getTime() === this.today.getTime()) this.remember(left);
+      return differenceInCalendarDays(left, right);
+    }
+    if (isDuration(left) && isDuration(right) && left.unit === right.unit) {
+      return { amount: left.amount + sign * right.amount, unit: left.unit };
+    }
+    throw new ReminderConditionError(`${describe(left)}不能${op === '+' ? '加' : '减'}${describe(right)}`);
+  }
+
+  private compare(op: ComparisonOperator, left: Value, right: Value): boolean {
+    if (left === null || right === null) return false;
+
+    let a: number | boolean;
+    let b: number | boolean;
+    if (isDate(left) && isDate(right)) {
+      a = left.getTime();
+      b = right.getTime();
+    } else if ((typeof left === 'number' || isDuration(left)) && (typeof right === 'number' || isDuration(right))) {
+      a = isDuration(left) ? durationToDays(left) : left;
+      b = isDuration(right) ? durationToDays(right) : right;
+    } else if (typeof left === 'boolean' && typeof right === 'boolean' && (op === '==' || op === '!=')) {
+      a = left;
+      b = right;
+    } else {
+      throw new ReminderConditionError(`${describe(left)}不能与${describe(right)}比较`);
+    }
+
+    switch (op) {
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      case '>=': return a >= b;
+      case '==': return a === b;
+      case '!=': return a !== b;
+    }
+  }
+
+  private call(name: string, args: Value[]): Value {
+    if (name === 'is_set') {
+      return args[0] !== null;
+    }
+
+    const date = this.expectDate(args[0], name);
+    if (date === null) {
+      return null;
+    }
+
+    switch (name) {
+      case 'days_until':
+        this.remember(date);
+        return differenceInCalendarDays(date, this.today);
+      case 'days_since':
+        this.remember(date);
+        return differenceInCalendarDays(this.today, date);
+      case 'working_days_until':
+        this.remember(date);
+        return workingDaysBetween(this.today, date, this.calendar);
+      case 'due_within': {
+        this.remember(date);
+        const limit = args[1];
+        if (limit === null) return null;
+        if (typeof limit !== 'number' && !isDuration(limit)) {
+          throw new ReminderConditionError('due_within 的期限必须是数字或期间');
+        }
+        const working = isDuration(limit) && limit.unit === 'wd';
+        const remaining = working
+          ? workingDaysBetween(this.today, date, this.calendar)
+          : differenceInCalendarDays(date, this.today);
+        const days = isDuration(limit) ? durationToDays(limit) : limit;
+        return remaining > 0 && remaining <= days;
+      }
+      case 'next_working_day':
+        return nextWorkingDay(date, this.calendar);
+      case 'is_working_day':
+        return isWorkingDay(date, this.calendar);
+      default:
+        throw new ReminderConditionError(`未知函数：${name}`);
+    }
+  }
+}
+
+/**
+ * 对案件计算触发条件
+ * @throws ReminderConditionError 语法错误或类型错误
+ */
+export function evaluateCondition(condition: string | ConditionNode, context: ConditionContext): ConditionResult {
+  const node = typeof condition === 'string' ? parseCondition(condition) : condition;
+  const evaluator = new Evaluator(context);
+  const value = evaluator.evaluate(node);
+  if (value !== null && typeof value !== 'boolean') {
+    throw new ReminderConditionError(`条件的结果必须是真/假，实际为${describe(value)}`);
+  }
+  return { matched: value === true, target: evaluator.target };
+}
@@ -0,0 +1,160 @@
+/**
+ * Excel(.xlsx)导出工具
+ * 基于 exceljs 在浏览器端生成多工作表文件，支持数值、货币、百分比等类型化单元格
+ */
+
+export type SheetCellFormat = 'text' | 'integer' | 'decimal' | 'percent' | 'currency' | 'date';
+
+export type SheetCellStyle = 'title' | 'header' | 'subtotal';
+
+export interface SheetCell {
+  value: string | number | Date | null;
+  format?: SheetCellFormat;
+  style?: SheetCellStyle;
+}
+
+export type SheetCellInput = SheetCell | string | number | Date | null | undefined;
+
+export type SheetRow = SheetCellInput[];
+
+export interface SheetData {
+  name: string;
+  rows: SheetRow[];
+  /** 列宽（字符数），未指定时按内容自动估算 */
+  columnWidths?: number[];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const NUMBER_FORMATS: Record<SheetCellFormat, string | undefined> = {
+  text: '@',
+  integer: '#,##0',
+  decimal: '#,##0.00',
+  percent: '0.00%',
+  currency: '"¥"#,##0.00',
+  date: 'yyyy-mm-dd',
+};
+
+// 单元格构造辅助函数
+export const titleCell = (value: string): SheetCell => ({ value, style: 'title' });
+export const headerRow = (...labels: string[]): SheetRow => labels.map(value => ({ value, style: 'header' }));
+export const integerCell = (value: number | null | undefined): SheetCell => ({ value: value ?? null, format: 'integer' });
+export const decimalCell = (value: number | null | undefined): SheetCell => ({ value: value ?? null, format: 'decimal' });
+export const currencyCell = (value: number | null | undefined, style?: SheetCellStyle): SheetCell => ({
+  value: value ?? null,
+  format: 'currency',
+  style,
+});
+
+/**
+ * 百分比单元格，入参为百分数（如 85.5 表示 85.5%）
+ */
+export const percentCell = (percentage: number | null | undefined): SheetCell => ({
+  value: percentage === null || percentage === undefined ? null : percentage / 100,
+  format: 'percent',
+});
+
+const normalizeCell = (input: SheetCellInput): SheetCell => {
+  if (input === null || input === undefined) {
+    return { value: null };
+  }
+  if (typeof input === 'object' && !(input instanceof Date)) {
+    return input;
+  }
+  return { value: input };
+};
+
+const displayLength = (value: SheetCell['value']): number => {
+  if (value === null) return 0;
+  const text = value instanceof Date ? '0000-00-00' : String(value);
+  let length = 0;
+  for (const ch of text) {
+    length += ch.charCodeAt(0) < 0x80 ? 1 : 2;
+  }
+  return length;
+};
+
+/**
+ * Excel工作表名称限制：最长31个字符，且不能包含 : \ / ? * [ ]
+ */
+export const sanitizeSheetName = (name: string): string => {
+  const cleaned = name.replace(/[:\\/?*[\]]/g, '_').slice(0, 31);
+  return cleaned || 'Sheet';
+};
+
+/**
+ * 生成xlsx文件内容
+ */
+export async function createXlsxBlob(sheets: SheetData[], metadata: { creator?: string; title?: string } = {}): Promise<Blob> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = metadata.creator ?? 'CuckooX';
+  workbook.created = new Date();
+  if (metadata.title) {
+    workbook.title = metadata.title;
+  }
+
+  const usedNames = new Set<string>();
+  for (const sheet of sheets) {
+    let name = sanitizeSheetName(sheet.name);
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = sanitizeSheetName(`${sheet.name.slice(0, 27)}(${suffix})`);
+    }
+    usedNames.add(name);
+
+    const worksheet = workbook.addWorksheet(name);
+    const columnLengths: number[] = [];
+
+    sheet.rows.forEach((inputRow, rowIndex) => {
+      const row = worksheet.getRow(rowIndex + 1);
+      inputRow.forEach((input, colIndex) => {
+        const cell = normalizeCell(input);
+        const target = row.getCell(colIndex + 1);
+        target.value = cell.value;
+
+        const numFmt = cell.format ? NUMBER_FORMATS[cell.format] : undefined;
+        if (numFmt && typeof cell.value !== 'string') {
+          target.numFmt = numFmt;
+        }
+        if (typeof cell.value === 'number') {
+          target.alignment = { horizontal: 'right' };
+        }
+
+        switch (cell.style) {
+          case 'title':
+            target.font = { bold: true, size: 14 };
+            break;
+          case 'header':
+            target.font = { bold: true };
+            target.alignment = { horizontal: 'center', vertical: 'middle' };
+            target.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFEFEFEF' } };
+            target.border = {
+              top: { style: 'thin' },
+              bottom: { style: 'thin' },
+              left: { style: 'thin' },
+              right: { style: 'thin' },
+            };
+            break;
+          case 'subtotal':
+            target.font = { bold: true };
+            break;
+        }
+
+        // 标题单元格横跨多列，不参与列宽估算
+        if (cell.style !== 'title') {
+          columnLengths[colIndex] = Math.max(columnLengths[colIndex] ?? 0, displayLength(cell.value));
+        }
+      });
+      row.commit();
+    });
+
+    const columnCount = Math.max(columnLengths.length, sheet.columnWidths?.length ?? 0);
+    for (let index = 0; index < columnCount; index++) {
+      const width = sheet.columnWidths?.[index] ?? Math.min(Math.max((columnLengths[index] ?? 0) + 2, 10), 60);
+      worksheet.getColumn(index + 1).width = width;
+    }
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME_TYPE });
+}
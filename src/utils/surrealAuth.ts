@@ -1,5 +1,6 @@
 import { AuthenticationRequiredError } from "@/src/contexts/SurrealProvider";
 import type { SurrealWorkerAPI } from "@/src/contexts/SurrealProvider";
+import { fieldPolicyService } from "@/src/services/fieldPolicyService";
 
 /**
  * 将 Surreal 原生或 SW 返回的结果统一为“结果条目数组”
@@ -28,11 +29,31 @@ function unwrapEntry(entry: any): any {
   return entry;
 }
 
+/**
+ * 按当前用户的角色对结果应用字段级权限（删除隐藏字段、脱敏字段）
+ * 只有结果中包含受字段策略约束的记录时才查询角色
+ */
+async function applyFieldPolicies(
+  client: SurrealWorkerAPI,
+  authEntry: any,
+  data: any,
+): Promise<any> {
+  if (!fieldPolicyService.containsRestrictedRecords(data)) return data;
+
+  const authRecord = Array.isArray(authEntry) ? authEntry[0] : authEntry;
+  const userId = authRecord?.id ? String(authRecord.id) : "";
+  await fieldPolicyService.loadRoles(userId, async (sql) =>
+    normalizeToResultsArray(await client.query(sql)).map(unwrapEntry),
+  );
+  return fieldPolicyService.applyToResult(data);
+}
+
 /**
  * 执行带认证检查的查询
  * - 自动在 SQL 前拼接 `return $auth;`
  * - 若未认证则抛出 AuthenticationRequiredError
  * - 兼容 Surreal 原生客户端与 SW 代理返回格式
+ * - 按字段级权限处理返回的记录
  */
 export async function queryWithAuth<T = unknown>(
   client: SurrealWorkerAPI,
@@ -66,7 +87,7 @@ export async function queryWithAuth<T = unknown>(
 
   // 返回实际查询结果（第二条语句）
   const data = unwrapEntry(results[1]);
-  return data as T;
+  return (await applyFieldPolicies(client, authEntry, data)) as T;
 }
 
 /**
@@ -74,6 +95,7 @@ export async function queryWithAuth<T = unknown>(
  * - 自动在 SQL 前拼接 `return $auth;`
  * - 兼容 Surreal 原生客户端与 SW 代理返回格式
  * - 对于不支持 mutate 的客户端，回退使用 query 执行
+ * - 按字段级权限处理返回的记录
  */
 export async function mutateWithAuth<T = unknown>(
   client: SurrealWorkerAPI,
@@ -106,5 +128,5 @@ export async function mutateWithAuth<T = unknown>(
   }
 
   const data = unwrapEntry(results[1]);
-  return data as T;
+  return (await applyFieldPolicies(client, authEntry, data)) as T;
 }
@@ -0,0 +1,172 @@
+/**
+ * 离线同步冲突工具
+ * 负责判断远程记录是否在离线修改之后发生变化、找出冲突字段，
+ * 并根据逐字段的处理方式（保留本地 / 保留远程 / 合并）生成最终写入的数据。
+ */
+
+export type ConflictFieldChoice = 'local' | 'remote' | 'merged';
+
+/**
+ * 不参与冲突比较的系统字段
+ */
+export const SYNC_META_FIELDS = ['id', 'created_at', 'updated_at', 'created_by', 'updated_by'];
+
+/**
+ * 记录版本号字段，按优先级排列（债权使用 current_version，文档使用 version）
+ */
+const VERSION_FIELDS = ['current_version', 'version'];
+
+function normalizeValue(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+  if (typeof value === 'object') {
+    // RecordId / StringRecordId 等对象按字符串比较
+    if (value.constructor !== Object) {
+      return String(value);
+    }
+    const normalized: Record<string, unknown> = {};
+    Object.keys(value as Record<string, unknown>)
+      .sort()
+      .forEach(key => {
+        normalized[key] = normalizeValue((value as Record<string, unknown>)[key]);
+      });
+    return normalized;
+  }
+  return value;
+}
+
+/**
+ * 深度比较两个字段值，RecordId 与日期按字符串形式比较
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b));
+}
+
+function toMillis(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const time = value instanceof Date ? value.getTime() : new Date(String(value)).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * 判断远程记录是否在离线修改的基线之后被他人修改过
+ * 优先比较版本号，其次比较 updated_at；没有基线快照时以操作入队时间为准
+ */
+export function hasRemoteChangedSince(
+  remote: Record<string, unknown>,
+  base: Record<string, unknown> | undefined,
+  queuedAt: number
+): boolean {
+  if (base) {
+    for (const field of VERSION_FIELDS) {
+      if (typeof remote[field] === 'number' && typeof base[field] === 'number') {
+        return (remote[field] as number) > (base[field] as number);
+      }
+    }
+  }
+
+  const remoteTime = toMillis(remote.updated_at);
+  if (remoteTime === null) {
+    return false;
+  }
+  const baseTime = toMillis(base?.updated_at) ?? queuedAt;
+  return remoteTime > baseTime;
+}
+
+/**
+ * 找出本地修改与远程修改重叠且取值不同的字段
+ * 有基线快照时，只有本地和远程都改动过的字段才视为冲突；没有基线时只要取值不同即视为冲突
+ */
+export function getConflictingFields(
+  local: Record<string, unknown>,
+  remote: Record<string, unknown>,
+  base?: Record<string, unknown>
+): string[] {
+  return Object.keys(local).filter(field => {
+    if (SYNC_META_FIELDS.includes(field) || isSameValue(local[field], remote[field])) {
+      return false;
+    }
+    if (!base) {
+      return true;
+    }
+    return !isSameValue(local[field], base[field]) && !isSameValue(remote[field], base[field]);
+  });
+}
+
+/**
+ * 提取本地相对基线实际修改的字段；没有基线时视为全部字段都已修改
+ */
+export function getLocalChanges(
+  local: Record<string, unknown>,
+  base?: Record<string, unknown>
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  Object.keys(local).forEach(field => {
+    if (!SYNC_META_FIELDS.includes(field) && (!base || !isSameValue(local[field], base[field]))) {
+      changes[field] = local[field];
+    }
+  });
+  return changes;
+}
+
+/**
+ * 列出远程相对基线被修改的字段，用于删除冲突的展示
+ */
+export function getRemoteChangedFields(
+  remote: Record<string, unknown>,
+  base?: Record<string, unknown>
+): string[] {
+  if (!base) {
+    return [];
+  }
+  const fields = new Set([...Object.keys(remote), ...Object.keys(base)]);
+  return [...fields].filter(
+    field => !SYNC_META_FIELDS.includes(field) && !isSameValue(remote[field], base[field])
+  );
+}
+
+/**
+ * 根据逐字段选择生成需要写入远程记录的数据
+ * 非冲突的本地修改直接保留；冲突字段按选择取本地值、保留远程值或使用合并值
+ */
+export function buildResolvedData(
+  local: Record<string, unknown>,
+  conflictingFields: string[],
+  choices: Record<string, ConflictFieldChoice>,
+  mergedValues: Record<string, unknown> = {},
+  base?: Record<string, unknown>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+
+  Object.entries(getLocalChanges(local, base)).forEach(([field, value]) => {
+    if (!conflictingFields.includes(field)) {
+      resolved[field] = value;
+    }
+  });
+
+  conflictingFields.forEach(field => {
+    const choice = choices[field];
+    if (!choice) {
+      throw new Error(`请选择字段 ${field} 的处理方式`);
+    }
+    if (choice === 'local') {
+      resolved[field] = local[field];
+    } else if (choice === 'merged') {
+      if (!(field in mergedValues)) {
+        throw new Error(`请填写字段 ${field} 的合并结果`);
+      }
+      resolved[field] = mergedValues[field];
+    }
+  });
+
+  return resolved;
+}
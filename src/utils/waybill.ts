@@ -0,0 +1,261 @@
+/**
+ * 快递单工具
+ * 提供常用快递公司面单模板、运单号校验与连号分配、Code 128 条码生成，
+ * 以及按标签纸尺寸生成可供浏览器打印的面单 HTML。
+ */
+
+import type {
+  CourierCode,
+  DeliveryStatus,
+  WaybillEntry,
+  WaybillSender,
+  WaybillTemplate
+} from '@/src/types/waybill';
+
+export const WAYBILL_TEMPLATES: Record<CourierCode, WaybillTemplate> = {
+  SF: {
+    courier: 'SF',
+    name: '顺丰速运',
+    width_mm: 100,
+    height_mm: 150,
+    tracking_number_hint: 'SF + 13位数字，或12位数字',
+    tracking_number_pattern: /^(SF\d{13}|\d{12})$/,
+    brand_color: '#1a1a1a'
+  },
+  EMS: {
+    courier: 'EMS',
+    name: '中国邮政 EMS',
+    width_mm: 100,
+    height_mm: 180,
+    tracking_number_hint: '13位数字，或 EA123456789CN 格式',
+    tracking_number_pattern: /^(\d{13}|[A-Z]{2}\d{9}[A-Z]{2})$/,
+    brand_color: '#006e3a'
+  },
+  JD: {
+    courier: 'JD',
+    name: '京东物流',
+    width_mm: 100,
+    height_mm: 113,
+    tracking_number_hint: 'JD + 11至16位字母数字',
+    tracking_number_pattern: /^JD[0-9A-Z]{11,16}$/,
+    brand_color: '#e1251b'
+  }
+};
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  printed: '已打印',
+  sent: '已寄出',
+  delivered: '已签收',
+  returned: '已退回'
+};
+
+// 常用寄送文书
+export const MAILING_DOCUMENT_OPTIONS = [
+  '债权申报通知书',
+  '债权人会议通知',
+  '债权审核结果通知书',
+  '补充材料通知书',
+  '财产分配方案通知'
+];
+
+const S10_WEIGHTS = [8, 6, 4, 2, 3, 5, 9, 7];
+
+/**
+ * 计算万国邮联 S10 运单号校验位
+ */
+export function computeS10CheckDigit(serial: string): number {
+  const sum = S10_WEIGHTS.reduce((total, weight, index) => total + Number(serial[index]) * weight, 0);
+  const check = 11 - (sum % 11);
+  if (check === 10) return 0;
+  if (check === 11) return 5;
+  return check;
+}
+
+/**
+ * 校验运单号格式（S10 格式的 EMS 单号同时校验校验位）
+ */
+export function isValidTrackingNumber(courier: CourierCode, trackingNumber: string): boolean {
+  if (!WAYBILL_TEMPLATES[courier].tracking_number_pattern.test(trackingNumber)) {
+    return false;
+  }
+  const s10 = /^[A-Z]{2}(\d{8})(\d)[A-Z]{2}$/.exec(trackingNumber);
+  if (courier === 'EMS' && s10) {
+    return computeS10CheckDigit(s10[1]) === Number(s10[2]);
+  }
+  return true;
+}
+
+/**
+ * 从起始运单号开始连号分配
+ * 末尾数字段递增并保持位数；S10 格式递增8位序号并重新计算校验位
+ */
+export function assignTrackingNumbers(startNumber: string, count: number): string[] {
+  const start = startNumber.trim().toUpperCase();
+  const s10 = /^([A-Z]{2})(\d{8})\d([A-Z]{2})$/.exec(start);
+  if (s10) {
+    const [, prefix, serial, suffix] = s10;
+    return Array.from({ length: count }, (_, offset) => {
+      const next = String(Number(serial) + offset).padStart(8, '0');
+      if (next.length > 8) {
+        throw new Error('运单号序号超出范围');
+      }
+      return `${prefix}${next}${computeS10CheckDigit(next)}${suffix}`;
+    });
+  }
+
+  const match = /^(.*?)(\d+)$/.exec(start);
+  if (!match) {
+    throw new Error('起始运单号必须以数字结尾');
+  }
+  const [, prefix, digits] = match;
+  return Array.from({ length: count }, (_, offset) => {
+    const next = (BigInt(digits) + BigInt(offset)).toString().padStart(digits.length, '0');
+    if (next.length > digits.length) {
+      throw new Error('运单号序号超出范围');
+    }
+    return `${prefix}${next}`;
+  });
+}
+
+// Code 128 条/空宽度表（值 0-106，106 为终止符）
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * 以 Code 128 B 字符集编码文本，返回依次交替的条/空模块宽度
+ */
+export function encodeCode128(text: string): number[] {
+  const values = Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 127) {
+      throw new Error(`条码不支持字符“${char}”`);
+    }
+    return code - 32;
+  });
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .flatMap(value => Array.from(CODE128_PATTERNS[value], Number));
+}
+
+function renderBarcodeSvg(text: string, heightMm: number): string {
+  const modules = encodeCode128(text);
+  const totalModules = modules.reduce((sum, width) => sum + width, 0) + 20; // 两侧各留10模块静区
+  let x = 10;
+  const bars = modules.map((width, index) => {
+    const bar = index % 2 === 0
+      ? `<rect x="${x}" y="0" width="${width}" height="${heightMm}" />`
+      : '';
+    x += width;
+    return bar;
+  }).join('');
+  return `<svg class="barcode" viewBox="0 0 ${totalModules} ${heightMm}" preserveAspectRatio="none">${bars}</svg>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 生成面单打印文档，每张面单占一页，页面尺寸与模板标签纸一致
+ */
+export function buildWaybillPrintHtml(
+  template: WaybillTemplate,
+  entries: WaybillEntry[],
+  sender: WaybillSender,
+  documentName: string,
+  printedAt: Date = new Date()
+): string {
+  const date = printedAt.toLocaleDateString('zh-CN');
+  const labels = entries.map(entry => `
+    <section class="label">
+      <header><span class="brand">${escapeHtml(template.name)}</span><span>${date}</span></header>
+      <div class="tracking">
+        ${renderBarcodeSvg(entry.tracking_number, 14)}
+        <div class="tracking-number">${escapeHtml(entry.tracking_number)}</div>
+      </div>
+      <div class="party recipient">
+        <div class="tag">收</div>
+        <div>
+          <div class="name">${escapeHtml(entry.recipient_name)}${entry.contact_person && entry.contact_person !== entry.recipient_name ? `（${escapeHtml(entry.contact_person)}）` : ''} ${escapeHtml(entry.phone)}</div>
+          <div class="address">${escapeHtml(entry.address)}</div>
+        </div>
+      </div>
+      <div class="party sender">
+        <div class="tag">寄</div>
+        <div>
+          <div class="name">${escapeHtml(sender.name)}${sender.contact_person ? `（${escapeHtml(sender.contact_person)}）` : ''} ${escapeHtml(sender.phone)}</div>
+          <div class="address">${escapeHtml(sender.address)}</div>
+        </div>
+      </div>
+      <footer>托寄物：${escapeHtml(documentName)}（文件）</footer>
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(template.name)}快递单</title>
+<style>
+  @page { size: ${template.width_mm}mm ${template.height_mm}mm; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: "PingFang SC", "Microsoft YaHei", sans-serif; color: #000; }
+  .label { width: ${template.width_mm}mm; height: ${template.height_mm}mm; padding: 3mm; display: flex; flex-direction: column; gap: 2mm; page-break-after: always; overflow: hidden; }
+  .label:last-child { page-break-after: auto; }
+  header { display: flex; justify-content: space-between; align-items: center; border-bottom: 0.6mm solid ${template.brand_color}; padding-bottom: 1mm; font-size: 3mm; }
+  .brand { font-size: 5mm; font-weight: bold; color: ${template.brand_color}; }
+  .tracking { text-align: center; border-bottom: 0.3mm dashed #000; padding-bottom: 2mm; }
+  .barcode { width: 80mm; height: 14mm; }
+  .tracking-number { font-size: 4mm; letter-spacing: 0.5mm; font-weight: bold; }
+  .party { display: flex; gap: 2mm; border-bottom: 0.3mm solid #000; padding-bottom: 2mm; }
+  .recipient { flex: 1; font-size: 4mm; }
+  .sender { font-size: 3mm; }
+  .tag { flex: none; width: 7mm; height: 7mm; border: 0.4mm solid #000; border-radius: 50%; display: flex; align-items: center; justify-content: center; font-weight: bold; }
+  .name { font-weight: bold; }
+  .address { margin-top: 1mm; word-break: break-all; }
+  footer { font-size: 3mm; }
+</style>
+</head>
+<body>${labels}</body>
+</html>`;
+}
+
+/**
+ * 通过隐藏 iframe 调用浏览器打印，不影响当前页面
+ */
+export function printWaybillDocument(html: string): void {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    document.body.removeChild(iframe);
+    throw new Error('无法创建打印窗口');
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => iframe.remove());
+  frameWindow.focus();
+  frameWindow.print();
+}
@@ -0,0 +1,36 @@
+import type { Migration } from '../lib/migrationRunner';
+
+/** 本地缓存库的迁移记录表，与远程库的 schema_migrations 区分，避免被表缓存同步覆盖 */
+export const LOCAL_MIGRATION_TABLE = 'local_schema_migrations';
+
+/**
+ * Service Worker 本地缓存库（indxdb）的结构迁移
+ * 已发布的迁移不能修改，结构变化时追加新的迁移
+ * 接入迁移前创建的本地库没有执行记录，会从头执行全部迁移，因此每个迁移都须可重复执行（IF NOT EXISTS / OVERWRITE）
+ */
+export const LOCAL_MIGRATIONS: Migration[] = [
+  {
+    id: '0001_cache_tables',
+    description: '缓存元数据表和性能指标表',
+    content: `
+      DEFINE TABLE IF NOT EXISTS cache_metadata SCHEMAFULL;
+      DEFINE FIELD OVERWRITE table_name ON cache_metadata TYPE string;
+      DEFINE FIELD OVERWRITE cache_type ON cache_metadata TYPE string;
+      DEFINE FIELD OVERWRITE live_query_uuid ON cache_metadata TYPE option<string>;
+      DEFINE FIELD OVERWRITE last_sync_time ON cache_metadata TYPE number;
+      DEFINE FIELD OVERWRITE record_count ON cache_metadata TYPE number DEFAULT 0;
+      DEFINE FIELD OVERWRITE is_active ON cache_metadata TYPE bool DEFAULT true;
+      DEFINE FIELD OVERWRITE created_at ON cache_metadata TYPE datetime DEFAULT time::now();
+      DEFINE FIELD OVERWRITE updated_at ON cache_metadata TYPE datetime VALUE time::now();
+      DEFINE FIELD OVERWRITE expires_at ON cache_metadata TYPE option<datetime>;
+
+      DEFINE TABLE IF NOT EXISTS performance_metrics SCHEMAFULL;
+      DEFINE FIELD OVERWRITE query_hash ON performance_metrics TYPE string;
+      DEFINE FIELD OVERWRITE query_type ON performance_metrics TYPE string;
+      DEFINE FIELD OVERWRITE execution_time ON performance_metrics TYPE number;
+      DEFINE FIELD OVERWRITE cache_hit ON performance_metrics TYPE bool;
+      DEFINE FIELD OVERWRITE source ON performance_metrics TYPE string;
+      DEFINE FIELD OVERWRITE timestamp ON performance_metrics TYPE datetime DEFAULT time::now();
+    `,
+  },
+];
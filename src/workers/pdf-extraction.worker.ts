@@ -0,0 +1,38 @@
+/**
+ * PDF 本地解析 Worker
+ * 在后台线程中提取文字层并识别字段，避免大文件解析阻塞页面。
+ */
+
+import { extractPdfTextPages } from '@/src/utils/pdfTextExtraction';
+import { recognizeDocument, type DocumentRecognitionProfile } from '@/src/utils/pdfFieldRecognition';
+import type { ParseResult } from '@/src/types/pdfParser';
+
+export interface PdfExtractionRequest {
+  requestId: string;
+  fileId: string;
+  fileName: string;
+  data: ArrayBuffer;
+  profiles?: DocumentRecognitionProfile[];
+  documentType?: string;
+}
+
+export type PdfExtractionResponse =
+  | { requestId: string; type: 'progress'; progress: number }
+  | { requestId: string; type: 'result'; result: ParseResult }
+  | { requestId: string; type: 'error'; message: string };
+
+const scope = self as unknown as DedicatedWorkerGlobalScope;
+
+scope.onmessage = async (event: MessageEvent<PdfExtractionRequest>) => {
+  const { requestId, fileId, fileName, data, profiles, documentType } = event.data;
+  const post = (message: PdfExtractionResponse) => scope.postMessage(message);
+
+  try {
+    const pages = await extractPdfTextPages(data, (pageNumber, totalPages) => {
+      post({ requestId, type: 'progress', progress: Math.round((pageNumber / totalPages) * 100) });
+    });
+    post({ requestId, type: 'result', result: recognizeDocument(pages, { fileId, fileName, profiles, documentType }) });
+  } catch (error) {
+    post({ requestId, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -19,6 +19,9 @@ console.log(`Service Worker v2.0 启动 - ${SW_VERSION}`);
 // 导入核心管理器
 import { UnifiedConnectionManager, type ConnectionConfig } from './unified-connection-manager';
 import { EnhancedQueryProcessor } from './enhanced-query-processor';
+import { TokenManager, isSessionExpiredError, type TokenInput } from './token-manager';
+import { LOCAL_MIGRATIONS, LOCAL_MIGRATION_TABLE } from './local-migrations';
+import { MigrationRunner } from '../lib/migrationRunner';
 import init from "@cuckoox/surrealdb-wasm";
 import { decodeCbor, encodeCbor, RpcRequest } from "surrealdb";
 
@@ -69,6 +72,19 @@ interface PageLifecycleMessage {
   };
 }
 
+/**
+ * 令牌消息接口：页面登录或重新登录后把令牌交给Service Worker统一管理
+ */
+interface AuthTokensMessage {
+  type: 'auth_tokens';
+  payload: {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number;
+    tenant_code?: string;
+  };
+}
+
 /**
  * Live Query回调消息接口
  */
@@ -92,6 +108,23 @@ let staticCacheManager: StaticResourceCacheManager | null = null;
 let pushManager: PWAPushManager | null = null;
 let performanceManager: PWAPerformanceManager | null = null;
 
+// 令牌管理器：按有效期提前刷新，所有标签页共享同一次刷新
+const tokenManager = new TokenManager({
+  apiUrl: import.meta.env.VITE_API_URL || 'http://localhost:8082',
+  authenticate: async (accessToken) => {
+    await connectionManager.getRemoteDb()?.authenticate(accessToken);
+  },
+  onTokenRefreshed: (token) => {
+    broadcastToClients('session_refreshed', { expiresAt: token.token_expires_at });
+  },
+  onSessionExpired: (reason) => {
+    broadcastToClients('session_expired', { reason });
+  },
+});
+
+// 会话相关的RPC不参与过期重试
+const SESSION_RPC_METHODS = new Set(['use', 'authenticate', 'signin', 'signup', 'invalidate']);
+
 // Live Query回调映射
 const liveQueryCallbacks = new Map<string, MessagePort>();
 
@@ -183,6 +216,14 @@ self.addEventListener('message', async (event) => {
         await handleConfigUpdate(event, payload);
         break;
 
+      case 'auth_tokens':
+        await handleAuthTokens(payload);
+        break;
+
+      case 'auth_tokens_clear':
+        await tokenManager.clearToken();
+        break;
+
       case 'SKIP_WAITING':
         console.log('Service Worker v2.0: 收到跳过等待请求');
         await self.skipWaiting();
@@ -224,6 +265,9 @@ async function initializeServiceWorker(): Promise<void> {
     // 初始化本地数据库Schema
     await initializeLocalDatabaseSchema();
 
+    // 恢复已保存的会话并启动令牌刷新计时
+    await tokenManager.initialize(connectionManager.getLocalDb());
+
     // 标记初始化完成
     isInitialized = true;
 
@@ -302,6 +346,7 @@ async function cleanupOutdatedAppCaches(): Promise<void> {
 
 /**
  * 初始化本地数据库Schema
+ * 通过迁移执行器升级已有的本地缓存库，已执行的迁移不会重复执行
  */
 async function initializeLocalDatabaseSchema(): Promise<void> {
   if (!connectionManager) return;
@@ -311,30 +356,14 @@ async function initializeLocalDatabaseSchema(): Promise<void> {
   try {
     console.log('Service Worker v2.0: 初始化本地数据库Schema');
 
-    // 创建缓存元数据表
-    await localDb.query(`
-      DEFINE TABLE IF NOT EXISTS cache_metadata SCHEMAFULL;
-      DEFINE FIELD OVERWRITE table_name ON cache_metadata TYPE string;
-      DEFINE FIELD OVERWRITE cache_type ON cache_metadata TYPE string;
-      DEFINE FIELD OVERWRITE live_query_uuid ON cache_metadata TYPE option<string>;
-      DEFINE FIELD OVERWRITE last_sync_time ON cache_metadata TYPE number;
-      DEFINE FIELD OVERWRITE record_count ON cache_metadata TYPE number DEFAULT 0;
-      DEFINE FIELD OVERWRITE is_active ON cache_metadata TYPE bool DEFAULT true;
-      DEFINE FIELD OVERWRITE created_at ON cache_metadata TYPE datetime DEFAULT time::now();
-      DEFINE FIELD OVERWRITE updated_at ON cache_metadata TYPE datetime VALUE time::now();
-      DEFINE FIELD OVERWRITE expires_at ON cache_metadata TYPE option<datetime>;
-    `);
-
-    // 创建性能指标表
-    await localDb.query(`
-      DEFINE TABLE IF NOT EXISTS performance_metrics SCHEMAFULL;
-      DEFINE FIELD OVERWRITE query_hash ON performance_metrics TYPE string;
-      DEFINE FIELD OVERWRITE query_type ON performance_metrics TYPE string;
-      DEFINE FIELD OVERWRITE execution_time ON performance_metrics TYPE number;
-      DEFINE FIELD OVERWRITE cache_hit ON performance_metrics TYPE bool;
-      DEFINE FIELD OVERWRITE source ON performance_metrics TYPE string;
-      DEFINE FIELD OVERWRITE timestamp ON performance_metrics TYPE datetime DEFAULT time::now();
-    `);
+    // 接入迁移前创建的本地缓存库没有执行记录，本地迁移均可重复执行，直接从头执行
+    const applied = await new MigrationRunner(localDb, LOCAL_MIGRATIONS, {
+      table: LOCAL_MIGRATION_TABLE,
+      adoptExisting: true,
+    }).migrate();
+    if (applied.length > 0) {
+      console.log('Service Worker v2.0: 已执行本地数据库迁移', applied);
+    }
 
     console.log('Service Worker v2.0: 本地数据库Schema初始化完成');
   } catch (error) {
@@ -362,7 +391,9 @@ async function handleRpcRequest(event: ExtendableMessageEvent, payload: RpcReque
         throw new Error('Service Worker未完全初始化');
       }
     }
-    const result = await queryProcessor!.handleRPC(method, params);
+    const result = SESSION_RPC_METHODS.has(method)
+      ? await queryProcessor!.handleRPC(method, params)
+      : await tokenManager.withSessionRetry(() => queryProcessor!.handleRPC(method, params));
     const encodeResp = encodeCbor(result.data);
     // 发送成功响应
     const response: RpcResponseMessage = {
@@ -385,7 +416,7 @@ async function handleRpcRequest(event: ExtendableMessageEvent, payload: RpcReque
       payload: {
         requestId,
         error: {
-          code: 'RPC_ERROR',
+          code: isSessionExpiredError(error) ? 'SESSION_EXPIRED' : 'RPC_ERROR',
           description: error.message,
           details: '',
           information: error.stack || ''
@@ -401,6 +432,20 @@ async function handleRpcRequest(event: ExtendableMessageEvent, payload: RpcReque
   }
 }
 
+/**
+ * 处理页面交来的令牌：认证远程数据库、保存令牌并重试等待重新登录的RPC
+ */
+async function handleAuthTokens(payload: AuthTokensMessage['payload']): Promise<void> {
+  if (initializationPromise) {
+    await initializationPromise;
+  }
+  try {
+    await tokenManager.startSession(payload as TokenInput);
+  } catch (error) {
+    console.error('Service Worker v2.0: 保存令牌失败', error);
+  }
+}
+
 /**
  * 处理页面生命周期
  */
@@ -572,6 +617,14 @@ async function reconnectIfNeeded(): Promise<void> {
   }
 }
 
+/**
+ * 向所有标签页广播消息
+ */
+async function broadcastToClients(type: string, payload: unknown): Promise<void> {
+  const clients = await self.clients.matchAll();
+  clients.forEach(client => client.postMessage({ type, payload }));
+}
+
 /**
  * 广播Live Query回调
  */
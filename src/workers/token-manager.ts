@@ -0,0 +1,409 @@
+import { RecordId, type Surreal } from 'surrealdb';
+
+/**
+ * 令牌信息接口
+ */
+export interface TokenInfo extends Record<string, unknown> {
+  access_token: string;
+  refresh_token?: string;
+  token_expires_at?: number;
+  tenant_code?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * 保存令牌时的输入，expires_in 为登录/刷新接口返回的有效期（秒）
+ */
+export type TokenInput = Partial<TokenInfo> & { expires_in?: number };
+
+/**
+ * Token管理器配置接口
+ */
+export interface TokenManagerConfig {
+  apiUrl: string;
+  /** 提前刷新的时间（毫秒），默认5分钟 */
+  refreshLeadTime?: number;
+  /** 刷新请求网络失败时的重试次数 */
+  maxRetries?: number;
+  /** 重试基础延迟（毫秒），按指数退避 */
+  retryDelay?: number;
+  /** 会话过期后等待重新登录的最长时间（毫秒） */
+  sessionWaitTimeout?: number;
+  /** 使用新的访问令牌认证远程数据库 */
+  authenticate?: (accessToken: string) => Promise<void>;
+  /** 令牌刷新或重新登录后回调 */
+  onTokenRefreshed?: (token: TokenInfo) => void;
+  /** 会话过期且无法刷新时回调 */
+  onSessionExpired?: (reason: string) => void;
+}
+
+interface SessionWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const TOKEN_RECORD = new RecordId('tokens', 'current');
+
+// setTimeout 支持的最大延迟
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * 判断错误是否由会话过期引起（与 authService.isSessionExpiredError 规则一致）
+ */
+export function isSessionExpiredError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if ((error as Error & { code?: string }).code === 'SESSION_EXPIRED') return true;
+  const msg = error.message.toLowerCase();
+  return (
+    (msg.includes('session') && msg.includes('expired')) ||
+    msg.includes('token expired') ||
+    msg.includes('jwt') ||
+    msg.includes('unauthorized') ||
+    msg.includes('401')
+  );
+}
+
+/**
+ * 从JWT的 exp 声明读取过期时间（毫秒），无法解析时返回 undefined
+ */
+export function getJwtExpiresAt(accessToken: string): number | undefined {
+  try {
+    const payload = accessToken.split('.')[1];
+    if (!payload) return undefined;
+    const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof json.exp === 'number' ? json.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Token管理器
+ * 在Service Worker中统一保存令牌并按有效期提前刷新，所有标签页共享同一次刷新；
+ * 会话过期的RPC在刷新或重新登录后透明重试
+ */
+export class TokenManager {
+  private localDb?: Surreal;
+  private config: TokenManagerConfig & {
+    refreshLeadTime: number;
+    maxRetries: number;
+    retryDelay: number;
+    sessionWaitTimeout: number;
+  };
+  private currentToken: TokenInfo | null = null;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private refreshPromise: Promise<TokenInfo | null> | null = null;
+  private sessionExpired = false;
+  private sessionWaiters: SessionWaiter[] = [];
+
+  constructor(config: TokenManagerConfig) {
+    this.config = {
+      refreshLeadTime: 5 * 60 * 1000,
+      maxRetries: 3,
+      retryDelay: 1000,
+      sessionWaitTimeout: 10 * 60 * 1000,
+      ...config,
+    };
+  }
+
+  /**
+   * 初始化：创建令牌表，恢复已保存的会话并启动刷新计时
+   */
+  async initialize(localDb: Surreal): Promise<void> {
+    this.localDb = localDb;
+    await localDb.query(`DEFINE TABLE IF NOT EXISTS tokens SCHEMALESS;`);
+
+    this.currentToken = await this.getToken();
+    if (this.currentToken && !this.isExpiredAt(this.currentToken, Date.now()) && this.config.authenticate) {
+      // Service Worker重启后恢复远程数据库的认证
+      try {
+        await this.config.authenticate(this.currentToken.access_token);
+      } catch (error) {
+        console.warn('TokenManager: 恢复会话认证失败', error);
+      }
+    }
+    await this.ensureValidToken();
+  }
+
+  /**
+   * 保存令牌并重新安排刷新
+   */
+  async storeToken(token: TokenInput): Promise<TokenInfo> {
+    const db = this.requireDb();
+    const existing = await this.getToken();
+    const now = Date.now();
+    const { expires_in, ...rest } = token;
+
+    let tokenExpiresAt = rest.token_expires_at;
+    if (expires_in) {
+      tokenExpiresAt = now + expires_in * 1000;
+    } else if (tokenExpiresAt === undefined) {
+      tokenExpiresAt = rest.access_token ? getJwtExpiresAt(rest.access_token) : existing?.token_expires_at;
+    }
+
+    const tokenInfo: TokenInfo = {
+      ...existing,
+      ...rest,
+      access_token: rest.access_token ?? existing?.access_token ?? '',
+      token_expires_at: tokenExpiresAt,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+    await db.upsert<TokenInfo>(TOKEN_RECORD).content(tokenInfo);
+    this.currentToken = tokenInfo;
+    this.scheduleRefresh(tokenInfo);
+    return tokenInfo;
+  }
+
+  /**
+   * 获取已保存的令牌
+   */
+  async getToken(): Promise<TokenInfo | null> {
+    const token = await this.requireDb().select<TokenInfo>(TOKEN_RECORD);
+    return (token as unknown as TokenInfo) ?? null;
+  }
+
+  /**
+   * 清除令牌（退出登录），等待重新登录的RPC随之失败
+   */
+  async clearToken(): Promise<void> {
+    this.cancelRefresh();
+    this.currentToken = null;
+    this.sessionExpired = false;
+    this.rejectSessionWaiters(new Error('用户已退出登录'));
+    await this.requireDb().delete(TOKEN_RECORD);
+  }
+
+  async isTokenExpired(): Promise<boolean> {
+    const token = await this.getToken();
+    return !token || this.isExpiredAt(token, Date.now());
+  }
+
+  async isTokenExpiringsoon(threshold: number = this.config.refreshLeadTime): Promise<boolean> {
+    const token = await this.getToken();
+    return !token || this.isExpiredAt(token, Date.now() + threshold);
+  }
+
+  async hasTenantCode(): Promise<boolean> {
+    const token = await this.getToken();
+    return !!token?.tenant_code;
+  }
+
+  /**
+   * 建立新会话（登录、重新登录）：认证远程数据库、保存令牌并唤醒等待中的RPC
+   */
+  async startSession(token: TokenInput): Promise<TokenInfo> {
+    if (token.access_token && this.config.authenticate) {
+      await this.config.authenticate(token.access_token);
+    }
+    const stored = await this.storeToken(token);
+    this.sessionExpired = false;
+    this.resolveSessionWaiters();
+    this.config.onTokenRefreshed?.(stored);
+    return stored;
+  }
+
+  /**
+   * 使用刷新令牌换取新的访问令牌；并发调用共享同一次刷新，失败时返回 null
+   */
+  refreshToken(): Promise<TokenInfo | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * 令牌即将过期时刷新，否则按过期时间重新计时
+   */
+  async ensureValidToken(): Promise<void> {
+    const token = this.currentToken;
+    if (!token) return;
+
+    const now = Date.now();
+    if (!this.isExpiredAt(token, now + this.config.refreshLeadTime)) {
+      this.scheduleRefresh(token);
+      return;
+    }
+    if (token.refresh_token) {
+      await this.refreshToken();
+    } else if (this.isExpiredAt(token, now)) {
+      this.expireSession('访问令牌已过期');
+    } else {
+      this.scheduleRefresh(token);
+    }
+  }
+
+  /**
+   * 执行RPC：刷新进行中或会话已过期时先排队等待；因会话过期失败时刷新令牌（或等待重新登录）后重试一次
+   */
+  async withSessionRetry<T>(task: () => Promise<T>): Promise<T> {
+    if (this.refreshPromise) {
+      await this.refreshPromise;
+    }
+    if (this.sessionExpired) {
+      await this.waitForSession();
+    }
+
+    try {
+      return await task();
+    } catch (error) {
+      if (!isSessionExpiredError(error) || !this.currentToken) {
+        throw error;
+      }
+      const refreshed = await this.refreshToken();
+      if (!refreshed) {
+        this.expireSession('会话已过期且无法刷新');
+        await this.waitForSession();
+      }
+      return task();
+    }
+  }
+
+  /**
+   * 停止计时并拒绝所有等待中的RPC
+   */
+  dispose(): void {
+    this.cancelRefresh();
+    this.rejectSessionWaiters(new Error('Token管理器已停止'));
+  }
+
+  private async performRefresh(): Promise<TokenInfo | null> {
+    const token = this.currentToken;
+    if (!token?.refresh_token) {
+      this.handleRefreshFailure(token);
+      return null;
+    }
+
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      try {
+        const response = await fetch(`${this.config.apiUrl}/auth/refresh`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ refresh_token: token.refresh_token }),
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          return await this.startSession({
+            access_token: data.access_token,
+            refresh_token: data.refresh_token ?? token.refresh_token,
+            expires_in: data.expires_in,
+            tenant_code: token.tenant_code,
+          });
+        }
+
+        // 刷新令牌无效或服务端未实现刷新，重试没有意义
+        if (response.status < 500 || response.status === 501) {
+          console.warn(`TokenManager: 令牌刷新被拒绝 (${response.status})`);
+          break;
+        }
+      } catch (error) {
+        console.warn(`TokenManager: 令牌刷新请求失败 (${attempt + 1}/${this.config.maxRetries + 1})`, error);
+      }
+
+      if (attempt < this.config.maxRetries) {
+        await new Promise(resolve => setTimeout(resolve, this.config.retryDelay * 2 ** attempt));
+      }
+    }
+
+    this.handleRefreshFailure(token);
+    return null;
+  }
+
+  /**
+   * 刷新失败：令牌已过期时通知会话过期，否则在过期时再检查一次
+   */
+  private handleRefreshFailure(token: TokenInfo | null): void {
+    if (!token) return;
+    if (this.isExpiredAt(token, Date.now())) {
+      this.expireSession('令牌刷新失败');
+    } else if (token.token_expires_at) {
+      this.setRefreshTimer(token.token_expires_at - Date.now());
+    }
+  }
+
+  private expireSession(reason: string): void {
+    this.cancelRefresh();
+    if (this.sessionExpired) return;
+    this.sessionExpired = true;
+    console.warn('TokenManager: 会话已过期', reason);
+    this.config.onSessionExpired?.(reason);
+  }
+
+  private waitForSession(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter: SessionWaiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.sessionWaiters = this.sessionWaiters.filter(item => item !== waiter);
+          reject(Object.assign(new Error('会话已过期，请重新登录'), { code: 'SESSION_EXPIRED' }));
+        }, this.config.sessionWaitTimeout),
+      };
+      this.sessionWaiters.push(waiter);
+    });
+  }
+
+  private resolveSessionWaiters(): void {
+    const waiters = this.sessionWaiters;
+    this.sessionWaiters = [];
+    waiters.forEach(waiter => {
+      clearTimeout(waiter.timer);
+      waiter.resolve();
+    });
+  }
+
+  private rejectSessionWaiters(error: Error): void {
+    const waiters = this.sessionWaiters;
+    this.sessionWaiters = [];
+    waiters.forEach(waiter => {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
+    });
+  }
+
+  /**
+   * 在过期前 refreshLeadTime 刷新；没有刷新令牌时在过期时通知
+   */
+  private scheduleRefresh(token: TokenInfo): void {
+    this.cancelRefresh();
+    if (!token.token_expires_at) return;
+    const leadTime = token.refresh_token ? this.config.refreshLeadTime : 0;
+    this.setRefreshTimer(token.token_expires_at - leadTime - Date.now());
+  }
+
+  private setRefreshTimer(delay: number): void {
+    this.cancelRefresh();
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.ensureValidToken().catch(error => {
+        console.error('TokenManager: 定时刷新令牌失败', error);
+      });
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY));
+  }
+
+  private cancelRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  private isExpiredAt(token: TokenInfo, time: number): boolean {
+    return token.token_expires_at !== undefined && token.token_expires_at <= time;
+  }
+
+  private requireDb(): Surreal {
+    if (!this.localDb) {
+      throw new Error('TokenManager未初始化');
+    }
+    return this.localDb;
+  }
+}
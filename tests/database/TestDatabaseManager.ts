@@ -163,12 +163,14 @@ export class TestDatabaseManager {
 
     const statements: string[] = [];
     let currentStatement = '';
+    let blockDepth = 0;
 
     for (const line of lines) {
       currentStatement += line + '\n';
+      blockDepth += (line.match(/{/g) || []).length - (line.match(/}/g) || []).length;
 
-      // 如果行以分号结束，认为是一个完整的语句
-      if (line.endsWith(';')) {
+      // 如果行以分号结束且不在语句块内（如 DEFINE EVENT ... THEN { ... }），认为是一个完整的语句
+      if (line.endsWith(';') && blockDepth <= 0) {
         statements.push(currentStatement.trim());
         currentStatement = '';
       }
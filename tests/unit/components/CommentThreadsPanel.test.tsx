@@ -0,0 +1,97 @@
+import React from "react";
+import { screen, fireEvent, waitFor } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { render } from "../utils/testUtils";
+import CommentThreadsPanel from "@/src/components/RichTextEditor/CommentThreadsPanel";
+import type { DocumentCommentThreadView } from "@/src/hooks/useDocumentComments";
+
+vi.mock("react-i18next", () => ({
+  useTranslation: () => ({
+    t: (key: string, defaultValue?: string) => defaultValue || key,
+  }),
+}));
+
+const suggestionThread: DocumentCommentThreadView = {
+  id: "document_comment:s1",
+  key: "s1",
+  document_id: "document:d1",
+  comment_type: "suggestion",
+  comment_text: "建议删除：利息",
+  suggestion: { action: "delete", text: "利息", status: "pending" },
+  user_id: "user:reviewer",
+  user_name: "审核员",
+  created_at: "2026-10-01T08:00:00Z",
+  replies: [],
+  anchor: { index: 2, length: 2, text: "利息" },
+};
+
+const commentThread: DocumentCommentThreadView = {
+  id: "document_comment:c1",
+  key: "c1",
+  document_id: "document:d1",
+  comment_type: "comment",
+  comment_text: "请补充借款合同原件",
+  selection_details: { index: 0, length: 2, text: "债权" },
+  user_id: "user:reviewer",
+  user_name: "审核员",
+  created_at: "2026-10-01T09:00:00Z",
+  resolved_at: "2026-10-02T09:00:00Z",
+  replies: [],
+  anchor: null,
+};
+
+const renderPanel = (props: Partial<React.ComponentProps<typeof CommentThreadsPanel>> = {}) => {
+  const handlers = {
+    onSubmitDraft: vi.fn().mockResolvedValue(undefined),
+    onCancelDraft: vi.fn(),
+    onReply: vi.fn().mockResolvedValue(undefined),
+    onResolve: vi.fn().mockResolvedValue(undefined),
+    onReopen: vi.fn().mockResolvedValue(undefined),
+    onDecideSuggestion: vi.fn().mockResolvedValue(undefined),
+    onFocusThread: vi.fn(),
+  };
+  render(
+    <CommentThreadsPanel
+      threads={[suggestionThread, commentThread]}
+      draft={null}
+      activeThreadKey={null}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe("CommentThreadsPanel", () => {
+  it("作者可以采纳待处理的修改建议", async () => {
+    const handlers = renderPanel({ canReviewSuggestions: true });
+
+    fireEvent.click(screen.getByRole("button", { name: "采纳" }));
+
+    await waitFor(() => {
+      expect(handlers.onDecideSuggestion).toHaveBeenCalledWith(suggestionThread, true);
+    });
+  });
+
+  it("没有处理权限时不显示采纳和拒绝按钮，已解决的批注默认隐藏", () => {
+    renderPanel();
+
+    expect(screen.queryByRole("button", { name: "采纳" })).not.toBeInTheDocument();
+    expect(screen.queryByText("请补充借款合同原件")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("switch"));
+    expect(screen.getByText("请补充借款合同原件")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "重新打开" })).toBeInTheDocument();
+  });
+
+  it("提交新批注", async () => {
+    const handlers = renderPanel({ draft: { index: 0, length: 2, text: "债权" } });
+
+    fireEvent.change(screen.getByPlaceholderText("输入批注..."), { target: { value: "金额与合同不符" } });
+    fireEvent.click(screen.getByRole("button", { name: "添加批注" }));
+
+    await waitFor(() => {
+      expect(handlers.onSubmitDraft).toHaveBeenCalledWith("金额与合同不符");
+    });
+  });
+});
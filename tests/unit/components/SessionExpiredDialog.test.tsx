@@ -0,0 +1,110 @@
+import { screen, fireEvent, waitFor, act } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render } from "../utils/testUtils";
+import SessionExpiredDialog from "@/src/components/SessionExpiredDialog";
+import { SESSION_EXPIRED_EVENT, SESSION_REFRESHED_EVENT } from "@/src/lib/sessionEvents";
+import { useAuth } from "@/src/contexts/AuthContext";
+import authService from "@/src/services/authService";
+
+vi.mock("react-i18next", () => ({
+  useTranslation: () => ({
+    t: (key: string, defaultValue?: string) => defaultValue || key,
+  }),
+}));
+
+vi.mock("@/src/contexts/AuthContext", () => ({
+  useAuth: vi.fn(),
+}));
+
+vi.mock("@/src/services/authService", () => ({
+  default: { setAuthTokens: vi.fn() },
+}));
+
+const mockClient = {};
+
+vi.mock("@/src/contexts/SurrealProvider", () => ({
+  useSurrealClient: () => mockClient,
+}));
+
+const mockGetEnforcementStatus = vi.fn();
+
+vi.mock("@/src/services/anomalyRuleService", () => ({
+  AnomalyRuleService: vi.fn(() => ({ getEnforcementStatus: mockGetEnforcementStatus })),
+}));
+
+vi.mock("@/src/components/Turnstile", () => ({
+  default: () => <div data-testid="turnstile" />,
+}));
+
+const mockLogout = vi.fn();
+const mockFetch = vi.fn();
+
+describe("SessionExpiredDialog", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetEnforcementStatus.mockResolvedValue({ export_locked: false, reauth_required: false });
+    vi.stubGlobal("fetch", mockFetch);
+    localStorage.setItem("tenant_code", "TEST");
+    vi.mocked(useAuth).mockReturnValue({
+      user: { id: "user:u1", github_id: "local_zhangsan", name: "张三" },
+      logout: mockLogout,
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.removeItem("tenant_code");
+  });
+
+  it("会话过期时弹出，重新登录后交回令牌且不跳转", async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ turnstile_enabled: false }) })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ access_token: "new-token", refresh_token: "new-refresh", expires_in: 3600 }),
+      });
+    render(<SessionExpiredDialog />);
+
+    act(() => {
+      window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+    });
+
+    expect(await screen.findByText("登录已过期")).toBeInTheDocument();
+    expect(screen.getByDisplayValue("zhangsan")).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("密码"), { target: { value: "secret" } });
+    fireEvent.click(screen.getByRole("button", { name: "重新登录" }));
+
+    await waitFor(() => {
+      expect(authService.setAuthTokens).toHaveBeenCalledWith("new-token", "new-refresh", 3600);
+    });
+    const [, loginRequest] = mockFetch.mock.calls[1];
+    expect(JSON.parse(loginRequest.body)).toMatchObject({ username: "zhangsan", password: "secret", tenant_code: "TEST" });
+    expect(mockLogout).not.toHaveBeenCalled();
+  });
+
+  it("其他标签页恢复会话后关闭", async () => {
+    render(<SessionExpiredDialog />);
+
+    act(() => {
+      window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+    });
+    expect(await screen.findByText("登录已过期")).toBeInTheDocument();
+
+    act(() => {
+      window.dispatchEvent(new CustomEvent(SESSION_REFRESHED_EVENT));
+    });
+    await waitFor(() => {
+      expect(screen.queryByText("登录已过期")).not.toBeInTheDocument();
+    });
+  });
+
+  it("安全规则要求重新认证时打开页面即弹出", async () => {
+    mockGetEnforcementStatus.mockResolvedValue({ export_locked: false, reauth_required: true });
+
+    render(<SessionExpiredDialog />);
+
+    expect(await screen.findByText("登录已过期")).toBeInTheDocument();
+    expect(mockGetEnforcementStatus).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,137 @@
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render } from '../../utils/testUtils';
+import ClaimNoticeDialog from '@/src/components/claim/ClaimNoticeDialog';
+
+const mockGetNoticeCandidates = vi.fn();
+const mockListNotices = vi.fn();
+const mockGenerateNotices = vi.fn();
+const mockSendNotices = vi.fn();
+const mockShowSuccess = vi.fn();
+const mockShowWarning = vi.fn();
+const mockClient = {};
+
+vi.mock('@/src/services/claimNoticeService', () => ({
+  ClaimNoticeService: vi.fn().mockImplementation(() => ({
+    getNoticeCandidates: (...args: unknown[]) => mockGetNoticeCandidates(...args),
+    listNotices: (...args: unknown[]) => mockListNotices(...args),
+    generateNotices: (...args: unknown[]) => mockGenerateNotices(...args),
+    sendNotices: (...args: unknown[]) => mockSendNotices(...args),
+  })),
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  useSurreal: () => ({ client: mockClient }),
+}));
+
+vi.mock('@/src/contexts/SnackbarContext', () => ({
+  useSnackbar: () => ({
+    showSuccess: mockShowSuccess,
+    showWarning: mockShowWarning,
+    showError: vi.fn(),
+  }),
+}));
+
+const candidate = {
+  claim_id: 'claim:c1',
+  claim_number: 'ZQ-001',
+  review_status: '审核通过',
+  recipient_user_id: 'user:u1',
+  creditor_id: 'creditor:k1',
+  creditor_name: '甲贸易有限公司',
+  case_id: 'case:1',
+  case_name: '乙公司破产清算案',
+  case_number: '(2026)浙01破1号',
+  manager_organization: '丙律师事务所',
+  asserted_nature: '普通债权',
+  asserted_total: 1000,
+  approved_total: 1000,
+  currency: 'CNY',
+};
+
+const failedNotice = {
+  id: 'claim_notice:n1',
+  case_id: 'case:1',
+  claim_id: 'claim:c1',
+  claim_number: 'ZQ-001',
+  creditor_id: 'creditor:k1',
+  creditor_name: '甲贸易有限公司',
+  document_id: 'document:d1',
+  template_id: 'claim-review-result-notice',
+  title: '债权审查结果通知书（ZQ-001）',
+  status: 'failed',
+  failure_reason: '债权人未关联系统用户',
+  objection_deadline: '2099-01-01T00:00:00Z',
+  created_at: '2026-10-18T00:00:00Z',
+};
+
+describe('ClaimNoticeDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetNoticeCandidates.mockResolvedValue([candidate]);
+    mockListNotices.mockResolvedValue([]);
+  });
+
+  it('previews the merged notice for the first reviewed claim', async () => {
+    render(<ClaimNoticeDialog open onClose={vi.fn()} caseId="case:1" claimIds={['claim:c1']} />);
+
+    await waitFor(() => expect(screen.getByText('预览（ZQ-001）')).toBeInTheDocument());
+    expect(mockGetNoticeCandidates).toHaveBeenCalledWith('case:1', ['claim:c1']);
+    expect(screen.getByText(/甲贸易有限公司：/)).toBeInTheDocument();
+    expect(screen.getByText('尚未发送通知书')).toBeInTheDocument();
+  });
+
+  it('generates and sends notices with the chosen objection deadline', async () => {
+    const generated = [{ ...failedNotice, status: 'generated' }];
+    mockGenerateNotices.mockResolvedValue(generated);
+    mockSendNotices.mockResolvedValue({ sent: 1, failed: 0, undeliverable: 0 });
+    render(<ClaimNoticeDialog open onClose={vi.fn()} caseId="case:1" />);
+
+    await waitFor(() => expect(screen.getByRole('button', { name: '生成并发送（1）' })).toBeEnabled());
+    fireEvent.change(screen.getByLabelText('异议截止日期'), { target: { value: '2099-03-15' } });
+    fireEvent.click(screen.getByRole('button', { name: '生成并发送（1）' }));
+
+    await waitFor(() => expect(mockShowSuccess).toHaveBeenCalledWith('已向1位债权人发送审查结果通知书'));
+    expect(mockGenerateNotices).toHaveBeenCalledWith(expect.objectContaining({
+      case_id: 'case:1',
+      template_id: 'claim-review-result-notice',
+      candidates: [candidate],
+      objection_deadline: new Date('2099-03-15T23:59:59'),
+    }));
+    expect(mockSendNotices).toHaveBeenCalledWith(generated, '丙律师事务所');
+  });
+
+  it('reports notices that cannot be delivered to creditors without a linked user', async () => {
+    mockGenerateNotices.mockResolvedValue([{ ...failedNotice, status: 'undeliverable', recipient_user_id: undefined }]);
+    mockSendNotices.mockResolvedValue({ sent: 0, failed: 0, undeliverable: 1 });
+    render(<ClaimNoticeDialog open onClose={vi.fn()} caseId="case:1" />);
+
+    await waitFor(() => expect(screen.getByRole('button', { name: '生成并发送（1）' })).toBeEnabled());
+    fireEvent.change(screen.getByLabelText('异议截止日期'), { target: { value: '2099-03-15' } });
+    fireEvent.click(screen.getByRole('button', { name: '生成并发送（1）' }));
+
+    await waitFor(() => expect(mockShowWarning).toHaveBeenCalledWith('已发送0份，1份因债权人未关联系统用户无法送达'));
+  });
+
+  it('blocks sending when the objection deadline is in the past', async () => {
+    render(<ClaimNoticeDialog open onClose={vi.fn()} caseId="case:1" />);
+
+    await waitFor(() => expect(screen.getByRole('button', { name: '生成并发送（1）' })).toBeEnabled());
+    fireEvent.change(screen.getByLabelText('异议截止日期'), { target: { value: '2020-01-01' } });
+
+    expect(screen.getByText('请选择今天之后的日期')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '生成并发送（1）' })).toBeDisabled();
+  });
+
+  it('tracks delivery status and resends failed notices', async () => {
+    mockListNotices.mockResolvedValue([failedNotice]);
+    mockSendNotices.mockResolvedValue({ sent: 0, failed: 1, undeliverable: 0 });
+    render(<ClaimNoticeDialog open onClose={vi.fn()} caseId="case:1" />);
+
+    await waitFor(() => expect(screen.getByText('送达失败')).toBeInTheDocument());
+    fireEvent.click(screen.getByRole('button', { name: '重新发送' }));
+
+    await waitFor(() => expect(mockShowWarning).toHaveBeenCalled());
+    expect(mockSendNotices).toHaveBeenCalledWith([failedNotice], '丙律师事务所');
+  });
+});
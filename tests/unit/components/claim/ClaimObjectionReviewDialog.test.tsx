@@ -0,0 +1,119 @@
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render } from '../../utils/testUtils';
+import ClaimObjectionReviewDialog from '@/src/components/claim/ClaimObjectionReviewDialog';
+
+const mockListObjections = vi.fn();
+const mockGetObjectionReason = vi.fn();
+const mockResolveObjection = vi.fn();
+const mockShowSuccess = vi.fn();
+const mockOnResolved = vi.fn();
+const mockClient = {};
+
+vi.mock('@/src/services/claimObjectionService', () => ({
+  ClaimObjectionService: vi.fn().mockImplementation(() => ({
+    listObjections: (...args: unknown[]) => mockListObjections(...args),
+    getObjectionReason: (...args: unknown[]) => mockGetObjectionReason(...args),
+    resolveObjection: (...args: unknown[]) => mockResolveObjection(...args),
+  })),
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  useSurreal: () => ({ client: mockClient }),
+}));
+
+vi.mock('@/src/contexts/SnackbarContext', () => ({
+  useSnackbar: () => ({
+    showSuccess: mockShowSuccess,
+    showError: vi.fn(),
+  }),
+}));
+
+const pendingObjection = {
+  id: 'claim_objection:o1',
+  case_id: 'case:1',
+  claim_id: 'claim:c1',
+  claim_number: 'ZQ-001',
+  creditor_id: 'creditor:k1',
+  creditor_name: '甲贸易有限公司',
+  reason_doc_id: 'document:d1',
+  reason_summary: '利息计算有误',
+  attachments: [{ name: '计算表.xlsx', url: 'https://files/calc.xlsx' }],
+  objection_deadline: '2026-11-02T15:59:59.000Z',
+  previous_status: '部分通过',
+  status: 'pending',
+  created_at: '2026-10-20T08:00:00.000Z',
+  asserted_principal: 1000,
+  asserted_interest: 100,
+  asserted_other_amount: 0,
+  asserted_total: 1100,
+  approved_nature: '普通债权',
+  approved_principal: 1000,
+  approved_interest: 0,
+  approved_other_amount: 0,
+  approved_total: 1000,
+  currency: 'CNY',
+};
+
+describe('ClaimObjectionReviewDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockListObjections.mockResolvedValue([pendingObjection]);
+    mockGetObjectionReason.mockResolvedValue({ ops: [{ insert: '利息应计算至受理日\n' }] });
+    mockResolveObjection.mockResolvedValue(undefined);
+  });
+
+  it('lists pending objections for the case', async () => {
+    render(<ClaimObjectionReviewDialog open onClose={vi.fn()} caseId="case:1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('ZQ-001')).toBeInTheDocument();
+    });
+    expect(mockListObjections).toHaveBeenCalledWith('case:1');
+    expect(screen.getByText('利息计算有误')).toBeInTheDocument();
+  });
+
+  it('shows the full reason and attachments when reviewing', async () => {
+    render(<ClaimObjectionReviewDialog open onClose={vi.fn()} caseId="case:1" />);
+
+    await waitFor(() => {
+      expect(screen.getByText('复核')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('复核'));
+
+    await waitFor(() => {
+      expect(screen.getByText('利息应计算至受理日')).toBeInTheDocument();
+    });
+    expect(screen.getByText('计算表.xlsx')).toHaveAttribute('href', 'https://files/calc.xlsx');
+    expect(screen.getByRole('button', { name: '提交复核结果' })).toBeDisabled();
+  });
+
+  it('submits a modified conclusion with the entered amounts', async () => {
+    render(<ClaimObjectionReviewDialog open onClose={vi.fn()} caseId="case:1" onResolved={mockOnResolved} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('复核')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('复核'));
+
+    fireEvent.click(screen.getByLabelText('变更审查结论'));
+    fireEvent.change(screen.getByLabelText('确认利息'), { target: { value: '100' } });
+    fireEvent.change(screen.getByLabelText(/复核意见/), { target: { value: '采纳异议' } });
+    fireEvent.click(screen.getByRole('button', { name: '提交复核结果' }));
+
+    await waitFor(() => {
+      expect(mockResolveObjection).toHaveBeenCalledWith(expect.objectContaining({
+        objection_id: 'claim_objection:o1',
+        outcome: 'modified',
+        resolution_comments: '采纳异议',
+        modified: expect.objectContaining({
+          decision: '部分通过',
+          approved: expect.objectContaining({ principal: 1000, interest: 100, other: 0 }),
+          asserted: { principal: 1000, interest: 100, other: 0 },
+        }),
+      }));
+    });
+    expect(mockOnResolved).toHaveBeenCalled();
+    expect(mockShowSuccess).toHaveBeenCalledWith('已处理债权ZQ-001的异议：变更审查结论');
+  });
+});
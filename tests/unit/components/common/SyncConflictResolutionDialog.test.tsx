@@ -0,0 +1,120 @@
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render } from '../../utils/testUtils';
+import SyncConflictResolutionDialog from '@/src/components/common/SyncConflictResolutionDialog';
+
+const mockGetPendingConflicts = vi.fn();
+const mockResolveConflict = vi.fn();
+
+vi.mock('@/src/services/bidirectionalSyncService', () => ({
+  bidirectionalSyncService: {
+    getPendingConflicts: (...args: unknown[]) => mockGetPendingConflicts(...args),
+    resolveConflict: (...args: unknown[]) => mockResolveConflict(...args),
+  },
+}));
+
+const updateConflict = {
+  id: 'sync_conflict:k1',
+  table_name: 'claim',
+  record_id: 'claim:c1',
+  operation: 'update',
+  operation_id: 'op1',
+  local_data: { amount: 120, remark: '本地备注' },
+  remote_data: { amount: 150, remark: '远程备注' },
+  conflicting_fields: ['amount', 'remark'],
+  status: 'pending',
+  local_timestamp: '2026-03-02T00:00:00Z',
+  detected_at: '2026-04-02T00:00:00Z',
+};
+
+const deleteConflict = {
+  ...updateConflict,
+  id: 'sync_conflict:k2',
+  operation: 'delete',
+  operation_id: 'op2',
+  local_data: undefined,
+  conflicting_fields: ['amount'],
+};
+
+describe('SyncConflictResolutionDialog', () => {
+  const mockOnClose = vi.fn();
+  const mockOnResolved = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockResolveConflict.mockResolvedValue(undefined);
+  });
+
+  const renderDialog = () =>
+    render(
+      <SyncConflictResolutionDialog
+        open
+        onClose={mockOnClose}
+        caseId="case:1"
+        onResolved={mockOnResolved}
+      />
+    );
+
+  it('shows local and remote values side by side for each conflicting field', async () => {
+    mockGetPendingConflicts.mockResolvedValue([updateConflict]);
+    renderDialog();
+
+    await waitFor(() => expect(screen.getByText('本地备注')).toBeInTheDocument());
+    expect(mockGetPendingConflicts).toHaveBeenCalledWith('case:1');
+    expect(screen.getByText('远程备注')).toBeInTheDocument();
+    expect(screen.getByText('120')).toBeInTheDocument();
+    expect(screen.getByText('150')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '确认处理' })).toBeDisabled();
+  });
+
+  it('resolves with per-field choices and parsed merged values', async () => {
+    mockGetPendingConflicts.mockResolvedValue([updateConflict]);
+    renderDialog();
+    await waitFor(() => expect(screen.getByText('本地备注')).toBeInTheDocument());
+
+    const [amountMerge] = screen.getAllByRole('button', { name: '合并' });
+    fireEvent.click(amountMerge);
+    fireEvent.change(screen.getByLabelText('amount 的合并结果'), { target: { value: '135' } });
+    const remoteButtons = screen.getAllByRole('button', { name: '保留对方' });
+    fireEvent.click(remoteButtons[remoteButtons.length - 1]);
+
+    fireEvent.click(screen.getByRole('button', { name: '确认处理' }));
+
+    await waitFor(() => expect(mockOnResolved).toHaveBeenCalledTimes(1));
+    expect(mockResolveConflict).toHaveBeenCalledWith('sync_conflict:k1', {
+      fieldChoices: { amount: 'merged', remark: 'remote' },
+      mergedValues: { amount: 135 },
+      applyDeletion: false,
+    });
+    expect(screen.getByText('没有待处理的同步冲突')).toBeInTheDocument();
+  });
+
+  it('rejects merged values that do not match the field type', async () => {
+    mockGetPendingConflicts.mockResolvedValue([updateConflict]);
+    renderDialog();
+    await waitFor(() => expect(screen.getByText('本地备注')).toBeInTheDocument());
+
+    fireEvent.click(screen.getByRole('button', { name: '全部保留我的' }));
+    fireEvent.click(screen.getAllByRole('button', { name: '合并' })[0]);
+    fireEvent.change(screen.getByLabelText('amount 的合并结果'), { target: { value: 'abc' } });
+    fireEvent.click(screen.getByRole('button', { name: '确认处理' }));
+
+    expect(await screen.findByText('请输入有效的数字')).toBeInTheDocument();
+    expect(mockResolveConflict).not.toHaveBeenCalled();
+  });
+
+  it('lets the user keep the local deletion for delete conflicts', async () => {
+    mockGetPendingConflicts.mockResolvedValue([deleteConflict]);
+    renderDialog();
+
+    await waitFor(() => expect(screen.getByText('保留服务器上的记录')).toBeInTheDocument());
+    fireEvent.click(screen.getByLabelText('仍然删除该记录'));
+    fireEvent.click(screen.getByRole('button', { name: '确认处理' }));
+
+    await waitFor(() => expect(mockResolveConflict).toHaveBeenCalledWith('sync_conflict:k2', {
+      fieldChoices: {},
+      mergedValues: {},
+      applyDeletion: true,
+    }));
+  });
+});
@@ -8,14 +8,44 @@ import {
   createLightweightTestEnvironment,
 } from "../../utils/mockFactory";
 
+const mockFindExistingCreditors = vi.fn();
+const mockImportCreditors = vi.fn();
+
+vi.mock("@/src/contexts/SurrealProvider", () => ({
+  useSurrealClient: () => ({}),
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {},
+}));
+
+vi.mock("@/src/services/creditorImportService", () => ({
+  default: vi.fn().mockImplementation(() => ({
+    findExistingCreditors: mockFindExistingCreditors,
+    importCreditors: mockImportCreditors,
+  })),
+}));
+
 const mockOnClose = vi.fn();
-const mockOnImport = vi.fn();
+const mockOnImportComplete = vi.fn();
 let testEnv: any;
 
+// 有效统一社会信用代码与身份证号
+const VALID_USCC = "91330100MA2EXAMPLJ";
+const DUPLICATE_USCC = "91310000MA1FL000XG";
+const VALID_ID_CARD = "33010619900101123X";
+
 describe("BatchImportCreditorsDialog", () => {
   beforeEach(() => {
     testEnv = createLightweightTestEnvironment();
     vi.clearAllMocks();
+    mockFindExistingCreditors.mockResolvedValue([
+      { id: "creditor:existing", name: "已有公司", legal_id: DUPLICATE_USCC },
+    ]);
+    mockImportCreditors.mockResolvedValue({
+      created: 2,
+      merged: 0,
+      skipped: 1,
+      failed: 1,
+      rows: [],
+    });
   });
 
   afterEach(() => {
@@ -27,200 +57,157 @@ describe("BatchImportCreditorsDialog", () => {
     vi.clearAllMocks();
   });
 
-  const renderDialog = (open = true, isImporting = false) => {
+  const renderDialog = (open = true) => {
     render(
       <BatchImportCreditorsDialog
         open={open}
         onClose={mockOnClose}
-        onImport={mockOnImport}
-        isImporting={isImporting}
+        caseId="case:123"
+        onImportComplete={mockOnImportComplete}
       />,
     );
   };
 
+  const selectFile = (file: File) => {
+    const fileInput = screen.getByRole("button", { name: "select_file_button" })
+      .previousSibling as HTMLInputElement; // Input is hidden
+    Object.defineProperty(fileInput, "files", { value: [file] });
+    fireEvent.change(fileInput);
+  };
+
+  const csvFile = (content: string, name = "creditors.csv") =>
+    new File([content], name, { type: "text/csv" });
+
   // Rendering Tests
-  it("renders correctly with download link and file selection button", () => {
+  it("renders the file step with template link and disabled next button", () => {
     renderDialog();
     expect(
       screen.getByText("batch_import_creditors_dialog_title"),
-    ).toBeInTheDocument(); // Title
+    ).toBeInTheDocument();
     const downloadLink = screen.getByText(
       "download_import_template_button_csv",
     );
-    expect(downloadLink).toBeInTheDocument();
     expect(downloadLink.closest("a")).toHaveAttribute(
       "href",
       "/templates/creditor_import_template.csv",
     );
-    expect(
-      screen.getByRole("button", { name: "select_file_button" }),
-    ).toBeInTheDocument();
     expect(screen.getByText("no_file_selected_label")).toBeInTheDocument();
     expect(
-      screen.getByRole("button", { name: "start_import_button" }),
+      screen.getByRole("button", { name: "next_step_button" }),
     ).toBeDisabled();
   });
 
-  // File Selection Tests
-  it("selecting a file updates the UI and enables the import button", async () => {
-    renderDialog();
-    const fileInput = screen.getByRole("button", { name: "select_file_button" })
-      .previousSibling as HTMLInputElement; // Input is hidden
-
-    const testFile = new File(["test content"], "test.csv", {
-      type: "text/csv",
-    });
-
-    // Simulate file selection
-    // For hidden inputs, directly dispatching change event on the input is more reliable
-    Object.defineProperty(fileInput, "files", {
-      value: [testFile],
-      writable: false,
-    });
-    fireEvent.change(fileInput);
-
-    await waitFor(() => {
-      expect(
-        screen.getByText(`selected_file_label: ${testFile.name}`),
-      ).toBeInTheDocument();
-    });
-    expect(
-      screen.getByRole("button", { name: "start_import_button" }),
-    ).not.toBeDisabled();
-  });
-
-  // onImport Callback Test
-  it('calls onImport with the selected file when "Start Import" is clicked', async () => {
+  it("accepts CSV and XLSX file types", () => {
     renderDialog();
     const fileInput = screen.getByRole("button", { name: "select_file_button" })
       .previousSibling as HTMLInputElement;
-    const testFile = new File(
-      [
-        "(类别,名称,ID,联系人姓名,联系方式,地址)\n组织,TestFile,FileID001,File Contact,123,File Address",
-      ],
-      "test_import.csv",
-      { type: "text/csv" },
-    );
-
-    Object.defineProperty(fileInput, "files", { value: [testFile] });
-    fireEvent.change(fileInput);
-
-    const importButton = screen.getByRole("button", {
-      name: "start_import_button",
-    });
-    await waitFor(() => expect(importButton).not.toBeDisabled());
-    fireEvent.click(importButton);
-
-    expect(mockOnImport).toHaveBeenCalledTimes(1);
-    expect(mockOnImport).toHaveBeenCalledWith(testFile);
-  });
-
-  // Loading State Test
-  it("shows loading state and disables button when isImporting is true", () => {
-    renderDialog(true, true); // open=true, isImporting=true
-
-    const importButton = screen.getByRole("button", {
-      name: "importing_button_text",
-    });
-    expect(importButton).toBeInTheDocument();
-    expect(importButton).toBeDisabled();
 
-    // Check for CircularProgress (it might not have specific text)
-    // This depends on how CircularProgress is rendered; it might be an SVG or role="progressbar"
-    // For simplicity, checking button text and disabled state is often enough.
-    // expect(screen.getByRole('progressbar')).toBeInTheDocument(); // If CircularProgress has this role
+    expect(fileInput).toHaveAttribute(
+      "accept",
+      ".csv, .xlsx, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
   });
 
-  // onClose Callback Test
-  it("calls onClose when the Cancel button is clicked", () => {
+  it("maps arbitrary headers, previews validation errors and imports valid rows", async () => {
     renderDialog();
-    // The cancel button might just be text "取消" or an icon, depending on MUI Dialog structure
-    // Assuming it's a button with text '取消'
-    const cancelButton = screen.getByRole("button", { name: "取消" });
-    fireEvent.click(cancelButton);
-    expect(mockOnClose).toHaveBeenCalledTimes(1);
-  });
+    selectFile(
+      csvFile(
+        [
+          "单位名称,信用代码,电话",
+          `新公司,${VALID_USCC},13800138000`,
+          `已有公司,${DUPLICATE_USCC},0571-88886666`,
+          "坏代码公司,91330100MA2EXAMPL1,12345",
+          `王五,${VALID_ID_CARD},`,
+        ].join("\n"),
+      ),
+    );
 
-  // 新增测试用例：测试文件类型验证
-  it("accepts CSV, XLS, and XLSX file types", async () => {
-    renderDialog();
-    const fileInput = screen.getByRole("button", { name: "select_file_button" })
-      .previousSibling as HTMLInputElement;
+    await waitFor(() =>
+      expect(
+        screen.getByText("selected_file_label: creditors.csv"),
+      ).toBeInTheDocument(),
+    );
+    fireEvent.click(screen.getByRole("button", { name: "next_step_button" }));
 
-    expect(fileInput).toHaveAttribute(
-      "accept",
-      ".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel",
+    // 字段映射步骤：自动识别表头
+    await waitFor(() =>
+      expect(screen.getByText("batch_import_mapping_hint")).toBeInTheDocument(),
     );
-  });
+    expect(screen.getByRole("combobox", { name: "名称" })).toHaveTextContent(
+      "单位名称",
+    );
+    expect(
+      screen.getByRole("combobox", { name: "统一社会信用代码/身份证号" }),
+    ).toHaveTextContent("信用代码");
 
-  // 新增测试用例：测试模板下载功能
-  it("provides template download with correct attributes", () => {
-    renderDialog();
-    const downloadLink = screen.getByText(
-      "download_import_template_button_csv",
+    fireEvent.click(
+      screen.getByRole("button", { name: "batch_import_validate_button" }),
     );
-    const linkElement = downloadLink.closest("a");
 
-    expect(linkElement).toHaveAttribute(
-      "href",
-      "/templates/creditor_import_template.csv",
+    // 预览步骤
+    await waitFor(() =>
+      expect(
+        screen.getByText("统一社会信用代码校验不通过；联系电话格式不正确"),
+      ).toBeInTheDocument(),
     );
-    expect(linkElement).toHaveAttribute("download");
-  });
+    expect(mockFindExistingCreditors).toHaveBeenCalledWith("case:123", [
+      VALID_USCC,
+      DUPLICATE_USCC,
+      "91330100MA2EXAMPL1",
+      VALID_ID_CARD,
+    ]);
+    expect(
+      screen.getByText("batch_import_duplicate_existing"),
+    ).toBeInTheDocument();
+    expect(screen.getByText("个人")).toBeInTheDocument();
 
-  // 新增测试用例：测试导入步骤说明
-  it("displays import steps clearly", () => {
-    renderDialog();
+    fireEvent.click(
+      screen.getByRole("button", { name: "start_import_button_with_count" }),
+    );
 
-    expect(screen.getByText("batch_import_step_1")).toBeInTheDocument();
-    expect(screen.getByText("batch_import_step_2")).toBeInTheDocument();
+    await waitFor(() =>
+      expect(mockOnImportComplete).toHaveBeenCalledTimes(1),
+    );
+    const [caseId, rows, options] = mockImportCreditors.mock.calls[0];
+    expect(caseId).toBe("case:123");
+    expect(rows).toHaveLength(4);
+    expect(options.duplicateStrategy).toBe("skip");
     expect(
-      screen.getByText("batch_import_template_note_csv"),
+      screen.getByText("batch_import_result_summary"),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("button", { name: "batch_import_download_error_report" }),
     ).toBeInTheDocument();
-    expect(screen.getByText("batch_import_instructions")).toBeInTheDocument();
   });
 
-  // 新增测试用例：测试对话框关闭时清理状态
-  it("clears selected file when dialog is closed", async () => {
+  it("requires mapping of mandatory fields before preview", async () => {
     renderDialog();
-    const fileInput = screen.getByRole("button", { name: "select_file_button" })
-      .previousSibling as HTMLInputElement;
-    const testFile = new File(["test content"], "test.csv", {
-      type: "text/csv",
-    });
+    selectFile(csvFile("名称,备注\n新公司,无"));
+    fireEvent.click(screen.getByRole("button", { name: "next_step_button" }));
 
-    // Select a file
-    Object.defineProperty(fileInput, "files", { value: [testFile] });
-    fireEvent.change(fileInput);
-
-    await waitFor(() => {
+    await waitFor(() =>
       expect(
-        screen.getByText(`selected_file_label: ${testFile.name}`),
-      ).toBeInTheDocument();
-    });
-
-    // Close dialog
-    const cancelButton = screen.getByRole("button", { name: "取消" });
-    fireEvent.click(cancelButton);
-
-    expect(mockOnClose).toHaveBeenCalledTimes(1);
+        screen.getByText("batch_import_required_unmapped"),
+      ).toBeInTheDocument(),
+    );
+    expect(
+      screen.getByRole("button", { name: "batch_import_validate_button" }),
+    ).toBeDisabled();
   });
 
-  // 新增测试用例：测试导入过程中的UI状态
-  it("disables cancel button during import", () => {
-    renderDialog(true, true); // open=true, isImporting=true
+  it("shows an error for files without data rows", async () => {
+    renderDialog();
+    selectFile(csvFile("名称,ID\n"));
+    fireEvent.click(screen.getByRole("button", { name: "next_step_button" }));
 
-    const cancelButton = screen.getByRole("button", { name: "取消" });
-    expect(cancelButton).toBeDisabled();
+    await waitFor(() =>
+      expect(screen.getByText("batch_import_error_no_rows")).toBeInTheDocument(),
+    );
   });
 
-  // 新增测试用例：测试无文件选择时的状态
-  it("shows appropriate message when no file is selected", () => {
+  it("calls onClose when the Cancel button is clicked", () => {
     renderDialog();
-
-    expect(screen.getByText("no_file_selected_label")).toBeInTheDocument();
-    expect(
-      screen.getByRole("button", { name: "start_import_button" }),
-    ).toBeDisabled();
+    fireEvent.click(screen.getByRole("button", { name: "取消" }));
+    expect(mockOnClose).toHaveBeenCalledTimes(1);
   });
 });
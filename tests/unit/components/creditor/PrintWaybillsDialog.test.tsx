@@ -1,7 +1,7 @@
 // Mock i18next FIRST before any imports
 vi.mock('react-i18next', () => ({
   useTranslation: () => ({
-    t: (key: string, options?: any) => {
+    t: (key: string, defaultOrOptions?: any, maybeOptions?: any) => {
       const translations: Record<string, string> = {
         'print_waybills_dialog_title': '确认打印快递单号',
         'print_waybills_confirmation_intro': '将为以下 {{count}} 位债权人打印快递单:',
@@ -10,18 +10,25 @@ vi.mock('react-i18next', () => ({
         'print_waybills_final_confirmation_note': '请确保打印机已连接并准备就绪。',
         'cancel_button': '取消',
         'confirm_print_button': '确认打印',
-        'waybills_mock_printed_success': '快递单已（模拟）生成到控制台'
+        'waybill_assign_button': '分配运单号',
+        'waybill_start_number': '起始运单号',
+        'waybill_tracking_manual': '逐个录入运单号',
+        'waybills_printed_success': '已生成 {{count}} 张快递单并保存寄送记录',
+        'waybill_error_missing_address': '收件地址缺失',
+        'waybill_error_duplicate_tracking': '运单号重复',
+        'waybill_tracking_number_for': '{{name}} 的运单号'
       };
-      
+      const options = typeof defaultOrOptions === 'object' ? defaultOrOptions : maybeOptions;
+
       let result = translations[key] || key;
-      
+
       // Handle interpolation
       if (options && typeof options === 'object') {
         Object.keys(options).forEach(param => {
           result = result.replace(new RegExp(`{{${param}}}`, 'g'), options[param]);
         });
       }
-      
+
       return result;
     },
     i18n: {
@@ -32,7 +39,7 @@ vi.mock('react-i18next', () => ({
 }));
 
 import React from 'react';
-import { screen, fireEvent } from '@testing-library/react';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render } from '../../utils/testUtils';
 import PrintWaybillsDialog from '@/src/pages/creditors/PrintWaybillsDialog'; // 修正路径
@@ -40,6 +47,9 @@ import { Creditor } from '@/src/pages/creditors/types'; // 修正路径和导入
 
 // Create mock function at module level
 const mockShowSuccess = vi.fn();
+const mockGetSenderInfo = vi.fn();
+const mockRecordMailings = vi.fn();
+const mockPrintWaybillDocument = vi.fn();
 
 // Mock SnackbarContext at the top level
 vi.mock('@/src/contexts/SnackbarContext', () => ({
@@ -49,7 +59,28 @@ vi.mock('@/src/contexts/SnackbarContext', () => ({
   SnackbarProvider: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
 }));
 
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  useSurrealClient: () => ({}),
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {},
+}));
+
+vi.mock('@/src/services/waybillService', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    getSenderInfo: mockGetSenderInfo,
+    recordMailings: mockRecordMailings,
+  })),
+}));
+
+vi.mock('@/src/utils/waybill', async () => {
+  const actual = await vi.importActual<typeof import('@/src/utils/waybill')>('@/src/utils/waybill');
+  return {
+    ...actual,
+    printWaybillDocument: (html: string) => mockPrintWaybillDocument(html),
+  };
+});
+
 const mockOnClose = vi.fn();
+const mockOnPrinted = vi.fn();
 
 const mockCreditors: Creditor[] = [
   { id: 'cred001', type: '组织', name: 'Acme Corp', identifier: '91330100MA2XXXXX1A', contact_person_name: 'John Doe', contact_person_phone: '13800138000', address: '科技园路1号' },
@@ -59,8 +90,13 @@ const mockCreditors: Creditor[] = [
 describe('PrintWaybillsDialog', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    // Mock console.log to verify output if needed, though showSuccess is now primary feedback
-    // console.log = vi.fn(); 
+    mockGetSenderInfo.mockResolvedValue({
+      name: '某某律师事务所',
+      contact_person: '王律师',
+      phone: '0571-88886666',
+      address: '杭州市西湖区文一路1号',
+    });
+    mockRecordMailings.mockResolvedValue(undefined);
   });
 
   const renderDialog = (open = true, selectedCreditors: Creditor[] = mockCreditors) => {
@@ -69,115 +105,113 @@ describe('PrintWaybillsDialog', () => {
         open={open}
         onClose={mockOnClose}
         selectedCreditors={selectedCreditors}
+        caseId="case:123"
+        onPrinted={mockOnPrinted}
       />
     );
   };
 
+  const assignFrom = async (startNumber: string) => {
+    await waitFor(() => expect(screen.getByDisplayValue('某某律师事务所')).toBeInTheDocument());
+    fireEvent.change(screen.getByLabelText('起始运单号'), { target: { value: startNumber } });
+    fireEvent.click(screen.getByRole('button', { name: '分配运单号' }));
+  };
+
   // Rendering Tests
-  it('renders correctly with selected creditors', () => {
+  it('renders selected creditors and loads sender info from the case', async () => {
     renderDialog();
-    expect(screen.getByText('确认打印快递单号')).toBeInTheDocument(); // Title
-    // The t function should interpolate {{count}} but if it doesn't work, check for the template string
-    expect(screen.getByText(/将为以下.*位债权人打印快递单/)).toBeInTheDocument(); // Count message - more flexible regex
-    
-    // Check for creditor names
+    expect(screen.getByText('确认打印快递单号')).toBeInTheDocument();
+    expect(screen.getByText('将为以下 2 位债权人打印快递单:')).toBeInTheDocument();
     expect(screen.getByText(mockCreditors[0].name)).toBeInTheDocument();
-    expect(screen.getByText(mockCreditors[1].name)).toBeInTheDocument();
-    // Check for some secondary info
-    expect(screen.getByText(new RegExp(mockCreditors[0].identifier))).toBeInTheDocument();
-    expect(screen.getByText(new RegExp(mockCreditors[0].address))).toBeInTheDocument();
+    expect(screen.getByText(mockCreditors[1].address)).toBeInTheDocument();
+
+    await waitFor(() => expect(screen.getByDisplayValue('某某律师事务所')).toBeInTheDocument());
+    expect(mockGetSenderInfo).toHaveBeenCalledWith('case:123');
+    expect(screen.getByDisplayValue('杭州市西湖区文一路1号')).toBeInTheDocument();
   });
 
-  it('renders correctly with no selected creditors', () => {
-    renderDialog(true, []);
-    expect(screen.getByText('确认打印快递单号')).toBeInTheDocument();
-    expect(screen.getByText(/将为以下.*位债权人打印快递单/)).toBeInTheDocument(); // More flexible regex
-    // The list should be empty, so no creditor names should be found
-    expect(screen.queryByText(mockCreditors[0].name)).not.toBeInTheDocument();
+  it('"Confirm Print" button is disabled until tracking numbers are assigned', async () => {
+    renderDialog();
+    await waitFor(() => expect(screen.getByDisplayValue('某某律师事务所')).toBeInTheDocument());
+    expect(screen.getByRole('button', { name: '确认打印' })).toBeDisabled();
   });
 
-  // Button State Test
   it('"Confirm Print" button is disabled if no creditors are selected', () => {
     renderDialog(true, []);
-    const confirmButton = screen.getByRole('button', { name: '确认打印' });
-    expect(confirmButton).toBeDisabled();
+    expect(screen.getByRole('button', { name: '确认打印' })).toBeDisabled();
   });
 
-  it('"Confirm Print" button is enabled if creditors are selected', () => {
-    renderDialog(true, mockCreditors);
-    const confirmButton = screen.getByRole('button', { name: '确认打印' });
-    expect(confirmButton).not.toBeDisabled();
+  it('assigns consecutive tracking numbers from a start number', async () => {
+    renderDialog();
+    await assignFrom('SF1234567890123');
+
+    expect(screen.getByLabelText('Acme Corp 的运单号')).toHaveValue('SF1234567890123');
+    expect(screen.getByLabelText('Jane Smith 的运单号')).toHaveValue('SF1234567890124');
+    expect(screen.getByRole('button', { name: '确认打印' })).not.toBeDisabled();
   });
 
-  // onClose Callback Test
-  it('calls onClose when "Confirm Print" button is clicked', () => {
+  it('flags duplicate manually entered tracking numbers', async () => {
     renderDialog();
-    const confirmButton = screen.getByRole('button', { name: '确认打印' });
-    fireEvent.click(confirmButton);
-    expect(mockOnClose).toHaveBeenCalledTimes(1);
+    await assignFrom('SF1234567890123');
+    fireEvent.change(screen.getByLabelText('Jane Smith 的运单号'), { target: { value: 'SF1234567890123' } });
+
+    expect(screen.getByText('运单号重复')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '确认打印' })).toBeDisabled();
   });
 
-  it('calls onClose when "Cancel" button is clicked', () => {
-    renderDialog();
-    const cancelButton = screen.getByRole('button', { name: '取消' });
-    fireEvent.click(cancelButton);
-    expect(mockOnClose).toHaveBeenCalledTimes(1);
+  it('requires a recipient address', async () => {
+    renderDialog(true, [{ ...mockCreditors[0], address: '' }]);
+    expect(screen.getByText('收件地址缺失')).toBeInTheDocument();
   });
-  
-  // Mock console log test (optional, as showSuccess is now the main feedback)
-  it('logs correct information to console when "Confirm Print" is clicked', () => {
-    const consoleSpy = vi.spyOn(console, 'log');
+
+  it('records mailings, prints the waybills and closes', async () => {
     renderDialog();
-    const confirmButton = screen.getByRole('button', { name: '确认打印' });
-    fireEvent.click(confirmButton);
-    
-    expect(consoleSpy).toHaveBeenCalledWith("--- Mock Printing Waybills ---");
-    const expectedWaybillDataForCred001 = 
-      `--- Waybill ---\n` +
-      `      To: ${mockCreditors[0].name}\n` +
-      `      Address: ${mockCreditors[0].address}\n` +
-      `      Contact: ${mockCreditors[0].contact_person_name}, ${mockCreditors[0].contact_person_phone}\n` +
-      `      ID: ${mockCreditors[0].identifier}\n` +
-      `      ---------------`;
-    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining(expectedWaybillDataForCred001));
-    consoleSpy.mockRestore(); // Restore original console.log
+    await assignFrom('SF1234567890123');
+    fireEvent.click(screen.getByRole('button', { name: '确认打印' }));
+
+    await waitFor(() => expect(mockOnClose).toHaveBeenCalledTimes(1));
+    const [caseId, courier, documentName, entries] = mockRecordMailings.mock.calls[0];
+    expect(caseId).toBe('case:123');
+    expect(courier).toBe('SF');
+    expect(documentName).toBe('债权申报通知书');
+    expect(entries).toEqual([
+      expect.objectContaining({ creditor_id: 'cred001', tracking_number: 'SF1234567890123' }),
+      expect.objectContaining({ creditor_id: 'cred002', tracking_number: 'SF1234567890124' }),
+    ]);
+
+    const html = mockPrintWaybillDocument.mock.calls[0][0] as string;
+    expect(html).toContain('size: 100mm 150mm');
+    expect(html).toContain('某某律师事务所');
+    expect(html).toContain('科技园路1号');
+    expect(mockShowSuccess).toHaveBeenCalledWith('已生成 2 张快递单并保存寄送记录');
+    expect(mockOnPrinted).toHaveBeenCalledTimes(1);
   });
 
-  // 新增测试用例：测试快递单打印功能的业务逻辑
-  it('shows success message when waybills are printed', () => {
+  it('does not print when saving the mailing records fails', async () => {
+    mockRecordMailings.mockRejectedValueOnce(new Error('运单号已被使用，请检查后重试'));
     renderDialog();
-    const confirmButton = screen.getByRole('button', { name: '确认打印' });
-    fireEvent.click(confirmButton);
-    
-    // 验证打印成功后的行为
-    expect(mockShowSuccess).toHaveBeenCalledWith('快递单已（模拟）生成到控制台');
-    expect(mockOnClose).toHaveBeenCalledTimes(1);
+    await assignFrom('SF1234567890123');
+    fireEvent.click(screen.getByRole('button', { name: '确认打印' }));
+
+    await waitFor(() => expect(screen.getByText('运单号已被使用，请检查后重试')).toBeInTheDocument());
+    expect(mockPrintWaybillDocument).not.toHaveBeenCalled();
+    expect(mockOnClose).not.toHaveBeenCalled();
   });
 
-  // 新增测试用例：测试债权人信息显示的完整性
-  it('displays complete creditor information in the list', () => {
+  it('calls onClose when "Cancel" button is clicked', () => {
     renderDialog();
-    
-    mockCreditors.forEach(creditor => {
-      expect(screen.getByText(creditor.name)).toBeInTheDocument();
-      expect(screen.getByText(new RegExp(creditor.identifier))).toBeInTheDocument();
-      expect(screen.getByText(new RegExp(creditor.address))).toBeInTheDocument();
-    });
+    fireEvent.click(screen.getByRole('button', { name: '取消' }));
+    expect(mockOnClose).toHaveBeenCalledTimes(1);
   });
 
   // 新增测试用例：测试对话框的可访问性
   it('has proper accessibility attributes', () => {
     renderDialog();
-    
+
     const dialog = screen.getByRole('dialog');
     expect(dialog).toBeInTheDocument();
     expect(dialog).toHaveAttribute('aria-labelledby');
-    
-    const confirmButton = screen.getByRole('button', { name: '确认打印' });
-    const cancelButton = screen.getByRole('button', { name: '取消' });
-    
-    expect(confirmButton).toBeInTheDocument();
-    expect(cancelButton).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '确认打印' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: '取消' })).toBeInTheDocument();
   });
-
 });
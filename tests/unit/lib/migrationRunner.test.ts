@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  MigrationRunner,
+  MigrationChecksumError,
+  MigrationError,
+  MigrationHistoryError,
+  computeChecksum,
+  type Migration,
+  type MigrationRecord,
+} from '@/src/lib/migrationRunner';
+
+const migrations: Migration[] = [
+  { id: '0002_add_index', description: '添加索引', content: 'DEFINE INDEX case_name_idx ON case FIELDS name;' },
+  { id: '0001_create_case', description: '案件表', content: 'DEFINE TABLE case SCHEMAFULL;' },
+];
+
+const record = async (migration: Migration, checksum?: string): Promise<MigrationRecord> => ({
+  version: migration.id,
+  description: migration.description,
+  checksum: checksum ?? await computeChecksum(migration.content),
+  applied_at: '2026-01-01T00:00:00Z',
+});
+
+/** 模拟数据库：只维护迁移记录表，记录执行过的脚本；tables 为库中已有的数据表 */
+function createExecutor(initialRecords: MigrationRecord[] = [], tables: string[] = []) {
+  let records = [...initialRecords];
+  const executed: string[] = [];
+  const query = vi.fn(async (sql: string, vars: Record<string, unknown> = {}) => {
+    if (sql.startsWith('SELECT version')) {
+      return [[...records].sort((a, b) => a.version.localeCompare(b.version))];
+    }
+    if (sql.startsWith('INFO FOR DB')) {
+      return [{ tables: Object.fromEntries(tables.map(table => [table, `DEFINE TABLE ${table}`])) }];
+    }
+    if (sql.startsWith('BEGIN TRANSACTION')) {
+      if (sql.includes('FAIL')) throw new Error('Parse error: Unexpected token `FAIL`');
+      const written = vars.records as Omit<MigrationRecord, 'applied_at'>[];
+      // 登记基线时事务中只有写入记录的语句
+      if (!sql.startsWith('BEGIN TRANSACTION;\nFOR $record')) executed.push(written[0].version);
+      const versions = new Set(written.map(item => item.version));
+      records = [
+        ...records.filter(item => !versions.has(item.version)),
+        ...written.map(item => ({ ...item, applied_at: '2026-01-01T00:00:00Z' })),
+      ];
+    }
+    return [];
+  });
+  return {
+    query,
+    get records() {
+      return records;
+    },
+    executed,
+  };
+}
+
+describe('MigrationRunner', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('按版本号顺序在事务中执行未执行的迁移并记录校验和', async () => {
+    const executor = createExecutor();
+
+    const applied = await new MigrationRunner(executor, migrations).migrate();
+
+    expect(applied).toEqual(['0001_create_case', '0002_add_index']);
+    expect(executor.records[0].checksum).toBe(await computeChecksum(migrations[1].content));
+    const [sql] = executor.query.mock.calls.find(([statement]) => statement.startsWith('BEGIN TRANSACTION'))!;
+    expect(sql).toContain('DEFINE TABLE case SCHEMAFULL;');
+    expect(sql.trim().endsWith('COMMIT TRANSACTION;')).toBe(true);
+  });
+
+  it('已执行的迁移不再重复执行', async () => {
+    const executor = createExecutor([
+      {
+        version: '0001_create_case',
+        description: '案件表',
+        checksum: await computeChecksum(migrations[1].content),
+        applied_at: '2026-01-01T00:00:00Z',
+      },
+    ]);
+
+    const applied = await new MigrationRunner(executor, migrations).migrate();
+
+    expect(applied).toEqual(['0002_add_index']);
+    expect(executor.executed).toEqual(['0002_add_index']);
+  });
+
+  it('拒绝执行后又被修改的迁移', async () => {
+    const executor = createExecutor([
+      { version: '0001_create_case', description: '案件表', checksum: 'outdated', applied_at: '2026-01-01T00:00:00Z' },
+    ]);
+
+    await expect(new MigrationRunner(executor, migrations).migrate()).rejects.toBeInstanceOf(MigrationChecksumError);
+    expect(executor.executed).toEqual([]);
+  });
+
+  it('执行记录没有校验和时拒绝执行，不以当前脚本补记', async () => {
+    const executor = createExecutor([
+      { version: '0001_create_case', description: '案件表', applied_at: '2026-01-01T00:00:00Z' },
+    ]);
+
+    const error = await new MigrationRunner(executor, migrations).migrate().catch(err => err);
+
+    expect(error).toBeInstanceOf(MigrationHistoryError);
+    expect(error.message).toContain('--baseline 0001_create_case');
+    expect(executor.executed).toEqual([]);
+    expect(executor.records[0].checksum).toBeUndefined();
+  });
+
+  it('中间的迁移没有执行记录时拒绝执行', async () => {
+    const executor = createExecutor([await record(migrations[0])]);
+
+    const error = await new MigrationRunner(executor, migrations).migrate().catch(err => err);
+
+    expect(error).toBeInstanceOf(MigrationHistoryError);
+    expect(error.migrationId).toBe('0001_create_case');
+    expect(executor.executed).toEqual([]);
+  });
+
+  it('库中已有数据表但没有执行记录时要求先登记基线', async () => {
+    const executor = createExecutor([], ['case', 'schema_migrations']);
+
+    const error = await new MigrationRunner(executor, migrations).migrate().catch(err => err);
+
+    expect(error).toBeInstanceOf(MigrationHistoryError);
+    expect(error.message).toContain('--baseline');
+    expect(executor.executed).toEqual([]);
+
+    const adopted = createExecutor([], ['case']);
+    expect(await new MigrationRunner(adopted, migrations, { adoptExisting: true }).migrate())
+      .toEqual(['0001_create_case', '0002_add_index']);
+  });
+
+  it('登记基线：将指定版本及之前的迁移记为已执行，不执行脚本', async () => {
+    const executor = createExecutor(
+      [{ version: '0001_create_case', description: '案件表', applied_at: '2026-01-01T00:00:00Z' }],
+      ['case']
+    );
+    const runner = new MigrationRunner(executor, [
+      ...migrations,
+      { id: '0003_add_field', description: '添加字段', content: 'DEFINE FIELD name ON case TYPE string;' },
+    ]);
+
+    expect(await runner.baseline('0002_add_index')).toEqual(['0001_create_case', '0002_add_index']);
+    expect(executor.executed).toEqual([]);
+    expect(executor.records.map(item => [item.version, item.checksum])).toEqual([
+      ['0001_create_case', await computeChecksum(migrations[1].content)],
+      ['0002_add_index', await computeChecksum(migrations[0].content)],
+    ]);
+
+    expect(await runner.baseline('0002_add_index')).toEqual([]);
+    expect(await runner.migrate()).toEqual(['0003_add_field']);
+  });
+
+  it('登记基线时拒绝未知版本和执行后被修改的迁移', async () => {
+    const executor = createExecutor([await record(migrations[1], 'outdated')]);
+    const runner = new MigrationRunner(executor, migrations);
+
+    await expect(runner.baseline('0009_unknown')).rejects.toThrow('迁移 0009_unknown 不存在');
+    await expect(runner.baseline('0002_add_index')).rejects.toBeInstanceOf(MigrationChecksumError);
+    expect(executor.records).toHaveLength(1);
+  });
+
+  it('换行符不同不视为修改', async () => {
+    expect(await computeChecksum('A;\r\nB;')).toBe(await computeChecksum('A;\nB;'));
+  });
+
+  it('迁移失败时停止并报告失败的迁移', async () => {
+    const executor = createExecutor();
+    const failing = [...migrations, { id: '0003_broken', description: '错误脚本', content: 'FAIL' }];
+
+    const error = await new MigrationRunner(executor, failing).migrate().catch(err => err);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.migrationId).toBe('0003_broken');
+    expect(error.message).toBe('执行迁移 0003_broken 失败: Parse error: Unexpected token `FAIL`');
+    expect(error.cause).toBeInstanceOf(Error);
+    expect(executor.executed).toEqual(['0001_create_case', '0002_add_index']);
+  });
+
+  it('演练只在临时库中执行，不修改目标库', async () => {
+    const target = createExecutor([
+      {
+        version: '0001_create_case',
+        description: '案件表',
+        checksum: await computeChecksum(migrations[1].content),
+        applied_at: '2026-01-01T00:00:00Z',
+      },
+    ]);
+    const scratch = createExecutor();
+
+    const result = await new MigrationRunner(target, migrations).dryRun(scratch);
+
+    expect(result).toEqual({ pending: ['0002_add_index'], verified: ['0001_create_case', '0002_add_index'] });
+    expect(target.executed).toEqual([]);
+    expect(target.query.mock.calls.every(([sql]) => sql.startsWith('SELECT'))).toBe(true);
+  });
+
+  it('被取代的迁移不执行，记录随取代它的迁移一起写入', async () => {
+    const executor = createExecutor();
+    const withRepair: Migration[] = [
+      { ...migrations[1], supersededBy: '0003_repair_case' },
+      migrations[0],
+      { id: '0003_repair_case', description: '修复案件表', content: 'DEFINE TABLE IF NOT EXISTS case SCHEMAFULL;' },
+    ];
+
+    const applied = await new MigrationRunner(executor, withRepair).migrate();
+
+    expect(applied).toEqual(['0002_add_index', '0003_repair_case']);
+    expect(executor.executed).toEqual(['0002_add_index', '0003_repair_case']);
+    expect(executor.records.find(record => record.version === '0001_create_case')).toEqual({
+      version: '0001_create_case',
+      description: '案件表（已由 0003_repair_case 取代）',
+      checksum: await computeChecksum(migrations[1].content),
+      applied_at: '2026-01-01T00:00:00Z',
+    });
+    const calls = executor.query.mock.calls.filter(([sql]) => sql.startsWith('BEGIN TRANSACTION'));
+    expect(calls.some(([sql]) => sql.includes('DEFINE TABLE case SCHEMAFULL;'))).toBe(false);
+  });
+
+  it('已执行过的早期迁移不受取代关系影响', async () => {
+    const executor = createExecutor([
+      {
+        version: '0001_create_case',
+        description: '案件表',
+        checksum: await computeChecksum(migrations[1].content),
+        applied_at: '2026-01-01T00:00:00Z',
+      },
+    ]);
+    const withRepair: Migration[] = [
+      { ...migrations[1], supersededBy: '0003_repair_case' },
+      { id: '0003_repair_case', description: '修复案件表', content: 'DEFINE TABLE IF NOT EXISTS case SCHEMAFULL;' },
+    ];
+
+    expect(await new MigrationRunner(executor, withRepair).migrate()).toEqual(['0003_repair_case']);
+    expect(executor.records.map(record => record.version)).toEqual(['0001_create_case', '0003_repair_case']);
+  });
+
+  it('使用指定的记录表', async () => {
+    const executor = createExecutor();
+
+    await new MigrationRunner(executor, migrations, { table: 'local_schema_migrations' }).migrate();
+
+    expect(executor.query.mock.calls.some(([sql]) => sql.includes('FROM local_schema_migrations'))).toBe(true);
+  });
+});
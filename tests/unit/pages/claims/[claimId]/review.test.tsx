@@ -149,6 +149,49 @@ vi.mock("@/src/contexts/SurrealProvider", async () => {
   };
 });
 
+// Mock ClaimReviewService
+const mockReviewContext = {
+  id: "claim:claim001",
+  claim_number: "CL-im001",
+  case_id: "case:test001",
+  status: "待审核",
+  submission_time: "2023-10-15T00:00:00.000Z",
+  case_acceptance_date: "2024-03-01T00:00:00.000Z",
+  creditor: {
+    name: "Acme Corp",
+    type: "organization",
+    legal_id: "91310000MA1FL000XQ",
+    contact_person_name: "John Doe",
+    contact_phone: "13800138000",
+    contact_email: "john.doe@acme.com",
+  },
+  asserted_claim_details: {
+    nature: "货款",
+    currency: "CNY",
+    principal: 120000,
+    interest: 30000,
+    other_amount: 0,
+    total_asserted_amount: 150000,
+    brief_description: "合同编号 XYZ-2022，供应原材料A，款项逾期未付。",
+    attachment_content: [{ insert: "附件材料说明\n" }],
+  },
+};
+const mockGetReviewContext = vi.fn();
+const mockSubmitReview = vi.fn();
+
+vi.mock("@/src/services/claimReviewService", async () => {
+  const actual = await vi.importActual<
+    typeof import("@/src/services/claimReviewService")
+  >("@/src/services/claimReviewService");
+  return {
+    ...actual,
+    default: vi.fn().mockImplementation(() => ({
+      getReviewContext: mockGetReviewContext,
+      submitReview: mockSubmitReview,
+    })),
+  };
+});
+
 // Mock RichTextEditor
 vi.mock("@/src/components/RichTextEditor", () => ({
   __esModule: true,
@@ -260,6 +303,13 @@ describe("ClaimReviewDetailPage", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockGetReviewContext.mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve(mockReviewContext), 100),
+        ),
+    );
+    mockSubmitReview.mockResolvedValue(undefined);
     // Reset to desktop mode by default
     vi.mocked(useResponsiveLayout).mockReturnValue({
       isMobile: false,
@@ -709,6 +759,30 @@ describe("ClaimReviewDetailPage", () => {
         });
       });
 
+      // Select reduction reasons for the reduced components
+      await act(async () => {
+        fireEvent.mouseDown(screen.getByLabelText("本金核减理由"));
+      });
+      await act(async () => {
+        fireEvent.click(
+          await screen.findByRole("option", { name: "证据不足" }),
+        );
+      });
+      await act(async () => {
+        fireEvent.keyDown(screen.getByRole("listbox"), { key: "Escape" });
+      });
+      await act(async () => {
+        fireEvent.mouseDown(screen.getByLabelText("利息核减理由"));
+      });
+      await act(async () => {
+        fireEvent.click(
+          await screen.findByRole("option", { name: "利息超过法定上限" }),
+        );
+      });
+      await act(async () => {
+        fireEvent.keyDown(screen.getByRole("listbox"), { key: "Escape" });
+      });
+
       // Mock window.confirm
       const confirmSpy = vi
         .spyOn(window, "confirm")
@@ -720,11 +794,30 @@ describe("ClaimReviewDetailPage", () => {
 
       await waitFor(
         () => {
-          expect(mockShowSuccess).toHaveBeenCalledWith("审核意见已提交 (模拟)");
+          expect(mockShowSuccess).toHaveBeenCalledWith("审核意见已提交");
         },
         { timeout: 3000 },
       );
 
+      expect(mockSubmitReview).toHaveBeenCalledWith(
+        expect.objectContaining({
+          claim_id: "claim:claim001",
+          decision: "审核通过",
+          reduction_reasons: [
+            expect.objectContaining({
+              code: "insufficient_evidence",
+              component: "principal",
+              reduced_amount: 20000,
+            }),
+            expect.objectContaining({
+              code: "over_limit_interest",
+              component: "interest",
+              reduced_amount: 29000,
+            }),
+          ],
+        }),
+      );
+
       // Check if data updated
       await waitFor(
         () => {
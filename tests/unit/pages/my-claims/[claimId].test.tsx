@@ -30,6 +30,22 @@ vi.mock('@/src/components/claim/ClaimDetailView', () => ({ // Adjusted path for
   )),
 }));
 
+// Mock ClaimNoticePanel
+vi.mock('@/src/components/claim/ClaimNoticePanel', () => ({
+  __esModule: true,
+  default: vi.fn(({ claimId }) => (
+    <div data-testid="mocked-claim-notice-panel">Notices for {claimId}</div>
+  )),
+}));
+
+// Mock ClaimObjectionPanel
+vi.mock('@/src/components/claim/ClaimObjectionPanel', () => ({
+  __esModule: true,
+  default: vi.fn(({ claimId }) => (
+    <div data-testid="mocked-claim-objection-panel">Objections for {claimId}</div>
+  )),
+}));
+
 // Mock useResponsiveLayout hook
 vi.mock('@/src/hooks/useResponsiveLayout', () => ({
   useResponsiveLayout: vi.fn(() => ({
@@ -264,5 +280,21 @@ describe('SubmittedClaimDetailPage', () => {
       // Should not render mobile layout
       expect(screen.queryByTestId('mobile-optimized-layout')).not.toBeInTheDocument();
     });
+
+    it('shows review notices for the claim', async () => {
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByTestId('mocked-claim-notice-panel')).toHaveTextContent('Notices for MOCK-CLAIM-ID-123');
+      });
+    });
+
+    it('shows the objection panel for the claim', async () => {
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByTestId('mocked-claim-objection-panel')).toHaveTextContent('Objections for MOCK-CLAIM-ID-123');
+      });
+    });
   });
 });
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { messageService } from '@/src/services/messageService';
+import AnomalyRuleService, {
+  evaluateRule,
+  replayRule,
+  validateRule,
+  normalizeRule,
+  type AnomalyRule,
+} from '@/src/services/anomalyRuleService';
+import { AuditEventType, RiskLevel, type AuditEvent } from '@/src/services/claimTrackingAuditService';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn(),
+}));
+
+vi.mock('@/src/services/messageService', () => ({
+  messageService: { sendNotification: vi.fn() },
+}));
+
+const mockQuery = vi.mocked(queryWithAuth);
+
+const rule = (overrides: Partial<AnomalyRule> = {}): AnomalyRule => ({
+  id: 'failed_login',
+  name: '频繁登录失败',
+  description: '',
+  rule_type: 'frequency',
+  event_types: [AuditEventType.LOGIN],
+  filters: { result: 'failure' },
+  threshold: 3,
+  time_window: 10,
+  role_baselines: {},
+  conditions: {},
+  risk_level: RiskLevel.HIGH,
+  actions: ['notify'],
+  enforcement_minutes: 30,
+  status: 'draft',
+  ...overrides,
+});
+
+const event = (minute: number, overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+  event_type: AuditEventType.LOGIN,
+  action: 'login',
+  user_id: 'user:alice',
+  resource_type: 'session',
+  ip_address: '10.0.0.1',
+  user_agent: 'test',
+  session_id: 's1',
+  risk_level: RiskLevel.LOW,
+  result: 'failure',
+  created_at: new Date(2026, 2, 2, 10, minute),
+  ...overrides,
+});
+
+describe('规则判定', () => {
+  it('时间窗口内达到阈值时触发，窗口外的事件不计入', () => {
+    const history = [event(0), event(5)];
+
+    expect(evaluateRule(rule(), event(20), history)).toBeNull();
+    expect(evaluateRule(rule(), event(8), history)).toMatchObject({
+      rule_id: 'failed_login',
+      event_count: 3,
+      actions: ['notify'],
+    });
+    expect(evaluateRule(rule(), event(8, { result: 'success' }), history)).toBeNull();
+  });
+
+  it('按用户角色的基线放宽阈值', () => {
+    const history = [event(0), event(1), event(2)];
+    const withBaseline = rule({ role_baselines: { operator: 6 } });
+
+    expect(evaluateRule(withBaseline, event(3), history, ['operator'])).toBeNull();
+    expect(evaluateRule(withBaseline, event(3), history, ['viewer'])).not.toBeNull();
+  });
+
+  it('非工作时间和多IP模式', () => {
+    const offHours = rule({
+      id: 'off_hours',
+      rule_type: 'time',
+      event_types: [],
+      filters: {},
+      threshold: 1,
+      conditions: { work_hours_start: 9, work_hours_end: 18 },
+    });
+    expect(evaluateRule(offHours, event(0), [])).toBeNull();
+    expect(evaluateRule(offHours, event(0, { created_at: new Date(2026, 2, 2, 22, 0) }), [])).not.toBeNull();
+
+    const multiIp = rule({ rule_type: 'pattern', event_types: [], filters: {}, threshold: 2, conditions: { min_events_per_ip: 2 } });
+    const history = [event(0), event(1), event(2, { ip_address: '10.0.0.2' })];
+    expect(evaluateRule(multiIp, event(3, { ip_address: '10.0.0.3' }), history)).toBeNull();
+    expect(evaluateRule(multiIp, event(3, { ip_address: '10.0.0.2' }), history)).toMatchObject({ event_count: 2 });
+  });
+});
+
+describe('规则回放', () => {
+  it('按时间顺序回放并统计受影响的用户', () => {
+    const events = [
+      event(9),
+      event(0),
+      event(1),
+      event(2, { user_id: 'user:bob' }),
+      event(3, { event_type: AuditEventType.ACCESS }),
+      event(30),
+    ];
+
+    const report = replayRule(rule({ threshold: 3, time_window: 15 }), events);
+
+    expect(report.eventsScanned).toBe(6);
+    expect(report.matchedEvents).toBe(5);
+    expect(report.triggers).toHaveLength(1);
+    expect(report.affectedUsers).toEqual([{ user_id: 'user:alice', count: 1 }]);
+  });
+
+  it('校验规则配置', () => {
+    expect(validateRule(rule())).toEqual([]);
+    expect(validateRule(rule({ name: ' ', threshold: 0, role_baselines: { operator: 1.5 } }))).toEqual([
+      '请填写规则名称',
+      '阈值必须是正整数',
+      '角色 operator 的基线必须是正整数',
+    ]);
+    expect(validateRule(rule({ actions: ['lock_export'], enforcement_minutes: 0 }))).toEqual(['处置时长必须大于 0 分钟']);
+  });
+});
+
+describe('AnomalyRuleService', () => {
+  let service: AnomalyRuleService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AnomalyRuleService({});
+  });
+
+  it('保存规则时以规则ID写入并设置状态', async () => {
+    mockQuery.mockResolvedValueOnce([{ ...rule(), id: 'anomaly_rule:failed_login', status: 'active' }]);
+
+    const saved = await service.saveRule(rule(), 'active');
+
+    const [, sql, vars] = mockQuery.mock.calls[0];
+    expect(sql).toContain("UPSERT type::thing('anomaly_rule', $rule_id)");
+    expect(vars).toMatchObject({ rule_id: 'failed_login', content: { status: 'active', threshold: 3 } });
+    expect((vars as { content: Record<string, unknown> }).content).not.toHaveProperty('id');
+    expect(saved).toEqual(normalizeRule({ ...rule(), id: 'anomaly_rule:failed_login', status: 'active' }));
+
+    await expect(service.saveRule(rule({ name: '' }), 'draft')).rejects.toThrow('请填写规则名称');
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('回放时查询用户角色以应用基线', async () => {
+    mockQuery
+      .mockResolvedValueOnce([event(0), event(1), event(2)])
+      .mockResolvedValueOnce([{ user: 'user:alice', role: 'operator' }]);
+
+    const report = await service.testRule(rule({ role_baselines: { operator: 5 } }), {
+      start: new Date(2026, 2, 2),
+      end: new Date(2026, 2, 3),
+    });
+
+    expect(mockQuery.mock.calls[1][2]).toEqual({ user_ids: ['user:alice'] });
+    expect(report.triggers).toHaveLength(0);
+  });
+
+  it('执行处置：通知管理员、记录锁定并要求当前用户重新认证', async () => {
+    const listener = vi.fn();
+    window.addEventListener('session-expired', listener);
+    const enforced = rule({ actions: ['notify', 'lock_export', 'require_reauth'] });
+    const result = evaluateRule(enforced, event(2), [event(0), event(1)])!;
+    mockQuery
+      .mockResolvedValueOnce(['user:admin'])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce('user:alice');
+
+    await service.enforce(result, enforced);
+
+    expect(messageService.sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ target_user_id: 'user:admin', priority: 'HIGH' })
+    );
+    expect(mockQuery.mock.calls[1][2]).toMatchObject({
+      action: 'lock_export',
+      expires_at: new Date(2026, 2, 2, 10, 32),
+    });
+    expect(mockQuery.mock.calls[2][2]).toMatchObject({ action: 'require_reauth' });
+    expect(listener).toHaveBeenCalledTimes(1);
+    window.removeEventListener('session-expired', listener);
+  });
+
+  it('查询导出锁定状态，查询失败时不阻止导出', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ export_locked: true, reauth_required: false })
+      .mockRejectedValueOnce(new Error('db down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(service.assertExportAllowed()).rejects.toThrow('数据导出已被安全规则锁定，请联系管理员');
+    await expect(service.assertExportAllowed()).resolves.toBeUndefined();
+  });
+
+  it('要求重新认证且尚未重新登录时拒绝导出并弹出重新登录对话框', async () => {
+    const listener = vi.fn();
+    window.addEventListener('session-expired', listener);
+    mockQuery.mockResolvedValueOnce({ export_locked: false, reauth_required: true });
+
+    await expect(service.assertExportAllowed()).rejects.toThrow('安全规则要求重新登录，请重新登录后再导出');
+
+    expect(mockQuery.mock.calls[0][1]).toContain('$token.auth_time');
+    expect(listener).toHaveBeenCalledTimes(1);
+    window.removeEventListener('session-expired', listener);
+  });
+});
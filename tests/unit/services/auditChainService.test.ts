@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import ClaimOperationService from '@/src/services/claimOperationService';
+import { AuditEventType, RiskLevel, claimTrackingAuditService } from '@/src/services/claimTrackingAuditService';
+import { OperationType } from '@/src/types/claimTracking';
+import AuditChainService, {
+  GENESIS_HASH,
+  AUDIT_BUNDLE_FORMAT,
+  canonicalize,
+  chainName,
+  computeContentHash,
+  computeLinkHash,
+  publicKeyFingerprint,
+  signAuditBundle,
+  verifyAuditBundle,
+  verifyChainLinks,
+  type AuditBundleSigner,
+  type AuditSigningKey,
+  type ChainLink,
+} from '@/src/services/auditChainService';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn(),
+}));
+
+vi.mock('@/src/utils/apiClient', () => ({
+  apiClient: { signAuditBundle: vi.fn() },
+}));
+
+const mockQuery = vi.mocked(queryWithAuth);
+
+const CHAIN = chainName('claim_operation_log', 'case:c1');
+
+const entries = [
+  { id: 'claim_operation_log:a', claim_id: 'claim:1', operation_type: 'create', operation_time: '2026-01-05T08:00:00.000Z' },
+  { id: 'claim_operation_log:b', claim_id: 'claim:1', operation_type: 'submit', operation_time: '2026-01-05T09:00:00.000Z' },
+  { id: 'claim_operation_log:c', claim_id: 'claim:2', operation_type: 'review', operation_time: '2026-01-06T10:00:00.000Z' },
+];
+
+async function buildChain(items: Record<string, unknown>[]): Promise<ChainLink[]> {
+  const links: ChainLink[] = [];
+  let prevHash = GENESIS_HASH;
+  for (const [index, entry] of items.entries()) {
+    const contentHash = await computeContentHash(entry);
+    const hash = await computeLinkHash(prevHash, index + 1, contentHash);
+    links.push({
+      chain: CHAIN,
+      source_table: 'claim_operation_log',
+      scope: 'case:c1',
+      seq: index + 1,
+      record: entry.id as string,
+      prev_hash: prevHash,
+      content_hash: contentHash,
+      hash,
+      recorded_at: entry.operation_time as string,
+      entry: { ...entry },
+    });
+    prevHash = hash;
+  }
+  return links;
+}
+
+describe('哈希链校验', () => {
+  it('规范化结果与键顺序无关', () => {
+    expect(canonicalize({ b: 1, a: { d: [1, 2], c: undefined } })).toBe(canonicalize({ a: { d: [1, 2] }, b: 1 }));
+    expect(canonicalize({ at: new Date('2026-01-05T08:00:00.000Z') })).toBe('{"at":"2026-01-05T08:00:00.000Z"}');
+  });
+
+  it('完整的链没有断点', async () => {
+    const result = await verifyChainLinks(CHAIN, await buildChain(entries));
+
+    expect(result).toMatchObject({ intact: true, length: 3, table: 'claim_operation_log', scope: 'case:c1' });
+    expect(result.head?.seq).toBe(3);
+  });
+
+  it('报告被修改的内容、缺失的节点和被删除的记录', async () => {
+    const links = await buildChain(entries);
+    links[0].entry = { ...links[0].entry, operation_type: 'approve' };
+    links[2].entry = null;
+
+    const tampered = await verifyChainLinks(CHAIN, links);
+    expect(tampered.breaks.map(item => [item.seq, item.type])).toEqual([
+      [1, 'content_mismatch'],
+      [3, 'missing_record'],
+    ]);
+
+    const gap = await verifyChainLinks(CHAIN, (await buildChain(entries)).filter(link => link.seq !== 2));
+    expect(gap.breaks).toEqual([
+      expect.objectContaining({ type: 'sequence_gap', seq: 3, message: '第 2 至 2 个节点缺失' }),
+    ]);
+  });
+
+  it('从清理锚点继续校验', async () => {
+    const links = await buildChain(entries);
+    const anchor = { chain: CHAIN, seq: 2, hash: links[1].hash };
+    links[0].entry = null;
+    links[1].entry = null;
+
+    const result = await verifyChainLinks(CHAIN, links, anchor);
+    expect(result).toMatchObject({ intact: true, length: 1 });
+
+    const withoutAnchor = await verifyChainLinks(CHAIN, links.slice(2));
+    expect(withoutAnchor.breaks[0]).toMatchObject({ type: 'sequence_gap', seq: 3 });
+  });
+});
+
+describe('写入哈希链节点', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('在每个范围的链尾之后追加节点', async () => {
+    const [first] = await buildChain(entries.slice(0, 1));
+    mockQuery
+      .mockResolvedValueOnce([{ seq: 1, hash: first.hash }, null])
+      .mockResolvedValueOnce([]);
+    const service = new AuditChainService({});
+
+    const sealed = await service.seal('claim_operation_log', entries[1], ['claim:1', 'case:c1']);
+
+    expect(sealed).toBe(true);
+    const [, sql, vars] = mockQuery.mock.calls[1];
+    expect(sql).toContain('BEGIN TRANSACTION;');
+    expect(sql.match(/CREATE type::thing\('audit_chain_link'/g)).toHaveLength(2);
+    expect(vars).toMatchObject({
+      chain_0: 'claim_operation_log|claim:1',
+      seq_0: 2,
+      chain_1: 'claim_operation_log|case:c1',
+      seq_1: 1,
+    });
+    const links = [first, (vars as Record<string, ChainLink>).link_0].map(link => ({ ...link, entry: entries[link.seq - 1] }));
+    expect((await verifyChainLinks('claim_operation_log|claim:1', links)).intact).toBe(true);
+    expect((vars as Record<string, ChainLink>).link_1.prev_hash).toBe(GENESIS_HASH);
+  });
+
+  it('并发写入同一序号时重新读取链尾', async () => {
+    mockQuery
+      .mockResolvedValueOnce([null])
+      .mockRejectedValueOnce(new Error('Database record already exists'))
+      .mockResolvedValueOnce([{ seq: 1, hash: 'f'.repeat(64) }])
+      .mockResolvedValueOnce([]);
+    const service = new AuditChainService({});
+
+    expect(await service.seal('claim_audit_event', entries[0], ['global'])).toBe(true);
+    expect(mockQuery).toHaveBeenCalledTimes(4);
+    expect(mockQuery.mock.calls[3][2]).toMatchObject({ seq_0: 2 });
+  });
+});
+
+describe('签名审计包', () => {
+  const ECDSA = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+
+  /** 模拟后端的长期签名密钥，返回签名方和发布的公钥 */
+  async function serverKey(): Promise<{ signer: AuditBundleSigner; published: AuditSigningKey }> {
+    const keyPair = await crypto.subtle.generateKey(ECDSA, true, ['sign', 'verify']);
+    const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    const keyId = await publicKeyFingerprint(publicKey);
+    const signer: AuditBundleSigner = async (_payload, digest) => {
+      const value = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, new TextEncoder().encode(digest));
+      return { algorithm: 'ECDSA-P256-SHA256', key_id: keyId, value: btoa(String.fromCharCode(...new Uint8Array(value))) };
+    };
+    return {
+      signer,
+      published: { key_id: keyId, algorithm: 'ECDSA-P256-SHA256', public_key: publicKey, created_at: '2026-01-01T00:00:00.000Z' },
+    };
+  }
+
+  async function exportBundle(signer: AuditBundleSigner) {
+    const links = await buildChain(entries);
+    const bundle = await signAuditBundle({
+      format: AUDIT_BUNDLE_FORMAT,
+      version: 1,
+      generated_at: '2026-02-01T00:00:00.000Z',
+      scope: 'case:c1',
+      chains: [{ chain: CHAIN, table: 'claim_operation_log', scope: 'case:c1', anchor: null, head: { seq: 3, hash: links[2].hash }, links }],
+    }, signer);
+    return JSON.parse(JSON.stringify(bundle));
+  }
+
+  it('用发布的公钥校验签名，内容被修改时校验失败', async () => {
+    const { signer, published } = await serverKey();
+    const exported = await exportBundle(signer);
+
+    expect(exported.signature).not.toHaveProperty('public_key');
+    expect(await verifyAuditBundle(exported, [published])).toMatchObject({ digestValid: true, signatureValid: true, valid: true });
+
+    exported.chains[0].links[1].entry.operation_type = 'withdraw';
+    const result = await verifyAuditBundle(exported, [published]);
+    expect(result.digestValid).toBe(false);
+    expect(result.chains[0].breaks[0]).toMatchObject({ seq: 2, type: 'content_mismatch' });
+  });
+
+  it('未发布的密钥签名的包校验失败', async () => {
+    const { published } = await serverKey();
+    const forged = await serverKey();
+    const exported = await exportBundle(forged.signer);
+
+    expect(await verifyAuditBundle(exported, [published])).toMatchObject({ digestValid: true, signatureValid: false, valid: false });
+
+    // 公钥与 key_id 不符时不采用
+    const mislabeled = { ...forged.published, key_id: published.key_id, public_key: forged.published.public_key };
+    exported.signature.key_id = published.key_id;
+    expect((await verifyAuditBundle(exported, [mislabeled])).signatureValid).toBe(false);
+  });
+});
+
+describe('日志写入后加入哈希链', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('操作日志和失败操作日志加入债权和案件的链', async () => {
+    const seal = vi.spyOn(AuditChainService.prototype, 'seal').mockResolvedValue(true);
+    const service = new ClaimOperationService({});
+    const created = { id: 'claim_operation_log:a', claim_id: 'claim:1' };
+    const failed = { id: 'claim_operation_log:f', claim_id: 'claim:1' };
+
+    mockQuery.mockResolvedValueOnce([created]).mockResolvedValueOnce('case:c1');
+    await service.logOperation({ claim_id: 'claim:1', operation_type: OperationType.CREATE, description: '创建债权申报' });
+    expect(seal).toHaveBeenLastCalledWith('claim_operation_log', created, ['claim:1', 'case:c1']);
+
+    mockQuery
+      .mockRejectedValueOnce(new Error('Database error'))
+      .mockResolvedValueOnce([failed])
+      .mockResolvedValueOnce('case:c1');
+    await expect(
+      service.logOperation({ claim_id: 'claim:1', operation_type: OperationType.SUBMIT, description: '提交债权申报' })
+    ).rejects.toThrow('记录操作日志失败');
+    expect(seal).toHaveBeenLastCalledWith('claim_operation_log', failed, ['claim:1', 'case:c1']);
+    expect(seal).toHaveBeenCalledTimes(2);
+  });
+
+  it('审计事件加入债权和案件的链', async () => {
+    const seal = vi.spyOn(AuditChainService.prototype, 'seal').mockResolvedValue(true);
+    claimTrackingAuditService.setClientGetter(async () => ({}) as never);
+    const created = { id: 'claim_audit_event:a', claim_id: 'claim:1', case_id: 'case:c1', event_type: AuditEventType.OPERATION };
+
+    mockQuery.mockResolvedValueOnce([created]);
+    await claimTrackingAuditService.recordAuditEvent({
+      event_type: AuditEventType.OPERATION,
+      user_id: 'user:u1',
+      claim_id: 'claim:1',
+      case_id: 'case:c1',
+      resource_type: 'claim',
+      action: 'submit',
+      result: 'success',
+      risk_level: RiskLevel.LOW,
+      ip_address: '127.0.0.1',
+      user_agent: 'vitest',
+    });
+
+    expect(seal).toHaveBeenCalledWith('claim_audit_event', created, ['claim:1', 'case:c1']);
+  });
+});
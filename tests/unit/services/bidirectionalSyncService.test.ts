@@ -0,0 +1,182 @@
+/**
+ * BidirectionalSyncService 冲突检测与处理单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RecordId } from 'surrealdb';
+
+const mockLogOperation = vi.fn();
+
+vi.mock('@/src/services/incrementalSyncService', () => ({
+  incrementalSyncService: {
+    startIncrementalSync: vi.fn().mockResolvedValue(undefined),
+    stopAllSyncs: vi.fn()
+  }
+}));
+
+vi.mock('@/src/services/claimOperationService', () => ({
+  ClaimOperationService: vi.fn().mockImplementation(() => ({
+    logOperation: mockLogOperation
+  }))
+}));
+
+import { BidirectionalSyncService } from '@/src/services/bidirectionalSyncService';
+import { OperationType } from '@/src/types/claimTracking';
+
+const claimId = new RecordId('claim', 'c1');
+
+describe('BidirectionalSyncService 冲突处理', () => {
+  let service: BidirectionalSyncService;
+  let consoleSpies: { mockRestore: () => void }[] = [];
+  let dataService: {
+    query: ReturnType<typeof vi.fn>;
+    mutate: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    delete: ReturnType<typeof vi.fn>;
+  };
+
+  const startSync = (conflictResolution: 'manual' | 'timestamp') =>
+    service.startBidirectionalSync(['claim'], 'user:1', undefined, {
+      conflictResolution,
+      enableBatching: false
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    consoleSpies = [
+      vi.spyOn(console, 'log').mockImplementation(() => {}),
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+    ];
+    service = new BidirectionalSyncService();
+    dataService = {
+      query: vi.fn(),
+      mutate: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn().mockResolvedValue({}),
+      delete: vi.fn()
+    };
+    service.setDataService(dataService);
+  });
+
+  afterEach(() => {
+    service.stopAllSyncs();
+    consoleSpies.forEach(spy => spy.mockRestore());
+  });
+
+  test('manual 策略下字段冲突应持久化冲突记录且不写入远程', async () => {
+    await startSync('manual');
+    dataService.query
+      .mockResolvedValueOnce([[{ id: claimId, amount: 150, remark: '原备注', updated_at: '2026-04-01T00:00:00Z' }]])
+      .mockResolvedValueOnce([[{ id: 'sync_conflict:k1' }]]);
+
+    await service.queueLocalOperation(
+      'claim',
+      'update',
+      claimId,
+      { amount: 120 },
+      'user:1',
+      undefined,
+      { amount: 100, remark: '原备注', updated_at: '2026-03-01T00:00:00Z' }
+    );
+
+    expect(dataService.update).not.toHaveBeenCalled();
+    const [query, params] = dataService.query.mock.calls[1];
+    expect(query).toContain('CREATE sync_conflict');
+    expect(params).toMatchObject({
+      table_name: 'claim',
+      operation: 'update',
+      local_data: { amount: 120 },
+      conflicting_fields: ['amount']
+    });
+    expect(service.getSyncStatus(['claim'], 'user:1').conflictedOperations).toBe(1);
+  });
+
+  test('本地与远程修改的字段不重叠时应直接写入', async () => {
+    await startSync('manual');
+    dataService.query.mockResolvedValueOnce([[{ id: claimId, amount: 100, remark: '远程备注', updated_at: '2026-04-01T00:00:00Z' }]]);
+
+    await service.queueLocalOperation(
+      'claim',
+      'update',
+      claimId,
+      { amount: 120 },
+      'user:1',
+      undefined,
+      { amount: 100, remark: '原备注', updated_at: '2026-03-01T00:00:00Z' }
+    );
+
+    expect(dataService.update).toHaveBeenCalledWith(claimId, { amount: 120 });
+    expect(service.getSyncStatus(['claim'], 'user:1').conflictedOperations).toBe(0);
+  });
+
+  test('timestamp 策略下远程较新时应放弃本地修改', async () => {
+    await startSync('timestamp');
+    dataService.query.mockResolvedValueOnce([[{ id: claimId, amount: 150, updated_at: new Date(Date.now() + 60000) }]]);
+
+    await service.queueLocalOperation('claim', 'update', claimId, { amount: 120 }, 'user:1');
+
+    expect(dataService.update).not.toHaveBeenCalled();
+    expect(dataService.query).toHaveBeenCalledTimes(1);
+  });
+
+  test('处理债权冲突时应按字段选择写入、移出队列并记录操作日志', async () => {
+    await startSync('manual');
+    dataService.query
+      .mockResolvedValueOnce([[{ id: claimId, amount: 150, remark: '远程备注', updated_at: '2026-04-01T00:00:00Z' }]])
+      .mockResolvedValueOnce([[{ id: 'sync_conflict:k1' }]]);
+    await service.queueLocalOperation(
+      'claim',
+      'update',
+      claimId,
+      { amount: 120, remark: '本地备注', currency: 'CNY' },
+      'user:1',
+      undefined,
+      { amount: 100, remark: '原备注', updated_at: '2026-03-01T00:00:00Z' }
+    );
+    const operationId = dataService.query.mock.calls[1][1].operation_id;
+
+    dataService.query
+      .mockResolvedValueOnce([[{
+        id: 'sync_conflict:k1',
+        table_name: 'claim',
+        record_id: claimId,
+        operation: 'update',
+        operation_id: operationId,
+        local_data: { amount: 120, remark: '本地备注', currency: 'CNY' },
+        remote_data: { amount: 150, remark: '远程备注' },
+        conflicting_fields: ['amount', 'remark'],
+        status: 'pending',
+        local_timestamp: '2026-03-02T00:00:00Z',
+        detected_at: '2026-04-02T00:00:00Z'
+      }]])
+      .mockResolvedValueOnce([]);
+
+    await service.resolveConflict('sync_conflict:k1', {
+      fieldChoices: { amount: 'merged', remark: 'remote' },
+      mergedValues: { amount: 135 }
+    });
+
+    const [query, params] = dataService.query.mock.calls[3];
+    expect(query).toContain('BEGIN TRANSACTION');
+    expect(query).toContain('UPDATE $record_id MERGE $resolved_data');
+    expect(query).toContain("SET status = 'resolved'");
+    expect(params.resolved_data).toEqual({ currency: 'CNY', amount: 135 });
+    expect(service.getSyncStatus(['claim'], 'user:1').conflictedOperations).toBe(0);
+
+    expect(mockLogOperation).toHaveBeenCalledWith(expect.objectContaining({
+      claim_id: claimId,
+      operation_type: OperationType.CONFLICT_RESOLVE,
+      before_data: { amount: 150, remark: '远程备注' },
+      after_data: { amount: 135, remark: '远程备注', currency: 'CNY' }
+    }));
+  });
+
+  test('冲突已处理时应拒绝重复处理', async () => {
+    dataService.query.mockResolvedValueOnce([[{ id: 'sync_conflict:k1', status: 'resolved' }]]);
+
+    await expect(service.resolveConflict('sync_conflict:k1', { fieldChoices: {} }))
+      .rejects.toThrow('冲突记录不存在或已处理');
+    expect(mockLogOperation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { format } from 'date-fns';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import {
+  CaseCalendarService,
+  buildCaseCalendarEvents,
+  buildCaseCalendarFeed,
+  deriveStatutoryDeadlines,
+} from '@/src/services/caseCalendarService';
+import type { CaseProcedureFlow } from '@/src/types/caseProcedure';
+import type { CaseCalendarCase } from '@/src/types/caseCalendar';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn(),
+}));
+
+const mockQuery = vi.mocked(queryWithAuth);
+
+const now = new Date('2026-03-02T10:30:00');
+
+const flow: CaseProcedureFlow = {
+  procedure_type: '破产清算',
+  name: '破产清算程序',
+  initial_phase: '立案',
+  phases: [
+    { name: '立案', display_order: 1, is_terminal: false, deadline: { base_date_field: 'acceptance_date', offset_days: 25, remind_within_days: 5, description: '最迟公告时间' } },
+    { name: '公告', display_order: 2, is_terminal: false, deadline: { base_date_field: 'announcement_date', offset_days: 30, remind_within_days: 3, description: '开始债权申报时间' } },
+    { name: '债权申报', display_order: 3, is_terminal: false, deadline: { base_date_field: 'announcement_date', offset_months: 3, remind_within_days: 3, description: '债权申报截止时间' } },
+    { name: '结案', display_order: 9, is_terminal: true },
+  ],
+  transitions: [],
+  is_active: true,
+};
+
+const caseData = (overrides: Partial<CaseCalendarCase> = {}): CaseCalendarCase => ({
+  id: 'case:c1',
+  case_number: '（2026）破1号',
+  name: '甲公司破产案',
+  case_procedure: '破产清算',
+  procedure_phase: '立案',
+  acceptance_date: '2026-02-10T00:00:00',
+  ...overrides,
+});
+
+const summarize = (events: ReturnType<typeof deriveStatutoryDeadlines>) =>
+  events.map(event => [event.title, format(event.start, 'yyyy-MM-dd'), event.status]);
+
+describe('法定期限推算', () => {
+  it('按当前阶段和剩余天数标记状态', () => {
+    // 受理后 25 日为 2026-03-07（周六），顺延至 03-09
+    const events = deriveStatutoryDeadlines(caseData(), flow, now);
+    expect(summarize(events)).toEqual([['最迟公告时间', '2026-03-09', 'upcoming']]);
+    expect(format(events[0].original_date!, 'yyyy-MM-dd')).toBe('2026-03-07');
+    expect(events[0].description).toContain('顺延至 2026-03-09');
+
+    expect(summarize(deriveStatutoryDeadlines(caseData({ acceptance_date: '2026-02-05T00:00:00' }), flow, now)))
+      .toEqual([['最迟公告时间', '2026-03-02', 'at_risk']]);
+    // 2026-02-28 为调休上班日，不顺延
+    expect(summarize(deriveStatutoryDeadlines(caseData({ acceptance_date: '2026-02-03T00:00:00' }), flow, now)))
+      .toEqual([['最迟公告时间', '2026-02-28', 'overdue']]);
+  });
+
+  it('案件进入后续阶段后，之前阶段的期限视为完成', () => {
+    const events = deriveStatutoryDeadlines(
+      caseData({ procedure_phase: '公告', acceptance_date: '2026-01-10T00:00:00', announcement_date: '2026-01-20T00:00:00' }),
+      flow,
+      now
+    );
+    expect(summarize(events)).toEqual([
+      ['最迟公告时间', '2026-02-04', 'done'],
+      ['开始债权申报时间', '2026-02-24', 'overdue'],
+      ['债权申报截止时间', '2026-04-20', 'upcoming'],
+    ]);
+
+    expect(deriveStatutoryDeadlines(caseData({ procedure_phase: '结案' }), flow, now).every(event => event.status === 'done')).toBe(true);
+  });
+});
+
+describe('日历汇总与导出', () => {
+  const data = {
+    cases: [
+      caseData(),
+      caseData({ id: 'case:c2', case_number: '（2026）破2号', name: '乙公司破产案', case_procedure: '破产', acceptance_date: '2026-02-20T00:00:00' }),
+    ],
+    flows: [flow],
+    meetings: [
+      { id: 'meeting:m1', case_id: 'case:c1', meeting_name: '第一次债权人会议', meeting_type: '债权人会议', scheduled_start_date: '2026-03-20T09:00:00' },
+      { id: 'meeting:m2', case_id: 'case:c1', meeting_name: '已取消的会议', meeting_type: '其他', scheduled_start_date: '2026-03-21T09:00:00', status: '已取消' },
+      { id: 'meeting:m3', case_id: 'case:other', meeting_name: '无权访问的会议', meeting_type: '其他', scheduled_start_date: '2026-03-22T09:00:00' },
+    ],
+  };
+
+  it('汇总法定期限、案件日期和会议，未登记流程的程序类型按破产清算处理', () => {
+    const events = buildCaseCalendarEvents(data, now);
+    expect(events.map(event => [event.id, event.kind])).toEqual([
+      ['date-case_c1-acceptance_date', 'case_date'],
+      ['date-case_c2-acceptance_date', 'case_date'],
+      ['deadline-case_c1-1', 'statutory_deadline'],
+      ['deadline-case_c2-1', 'statutory_deadline'],
+      ['meeting-meeting_m1', 'meeting'],
+    ]);
+    expect(events.find(event => event.kind === 'meeting')?.status).toBe('upcoming');
+  });
+
+  it('按案件导出 .ics，UID 稳定并为未完成期限设置提醒', () => {
+    const events = buildCaseCalendarEvents(data, now);
+    const feed = buildCaseCalendarFeed(events, { name: '（2026）破1号 期限', caseId: 'case:c1', now });
+
+    expect(feed.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+    expect(feed).toContain('UID:deadline-case_c1-1@cuckoox');
+    expect(feed).toContain('SUMMARY:[（2026）破1号] 最迟公告时间');
+    expect(feed).toContain('TRIGGER:-PT7200M');
+    expect(feed).toContain('TRIGGER:-PT30M');
+    expect(feed).not.toContain('乙公司');
+
+    expect(buildCaseCalendarFeed(events, { name: '我的案件期限', now }).match(/BEGIN:VEVENT/g)).toHaveLength(5);
+  });
+});
+
+describe('日历订阅链接', () => {
+  const token = 'a'.repeat(48);
+  const service = new CaseCalendarService({});
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    localStorage.setItem('tenant_code', 'tenant1');
+  });
+
+  it('已有有效订阅时直接返回链接，链接带租户代码和令牌', async () => {
+    mockQuery.mockResolvedValueOnce([{ id: 'calendar_feed:f1', user_id: 'user:u1', token, created_at: '2026-03-01T00:00:00Z' }]);
+
+    const url = await service.getFeedUrl('case:c1');
+
+    expect(url).toMatch(new RegExp(`/api/calendar/feeds/tenant1/${token}\\.ics$`));
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(String(mockQuery.mock.calls[0][2]?.case_id)).toBe('case:c1');
+  });
+
+  it('没有订阅时新建；重置时先停用旧链接再新建', async () => {
+    mockQuery
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'calendar_feed:f1', user_id: 'user:u1', token, created_at: '2026-03-01T00:00:00Z' }]);
+    await expect(service.getFeedUrl(null)).resolves.toContain(token);
+    expect(mockQuery.mock.calls[1][1]).toContain('CREATE calendar_feed');
+    expect(mockQuery.mock.calls[1][2]?.case_id).toBeUndefined();
+
+    mockQuery.mockReset();
+    mockQuery
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'calendar_feed:f2', user_id: 'user:u1', token: 'b'.repeat(48), created_at: '2026-03-02T00:00:00Z' }]);
+    await expect(service.resetFeedUrl(null)).resolves.toContain('b'.repeat(48));
+    expect(mockQuery.mock.calls[0][1]).toContain('SET revoked_at = time::now()');
+    expect(mockQuery.mock.calls[1][1]).toContain('CREATE calendar_feed');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * CaseProcedureFlowService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  CaseProcedureFlowService,
+  getAvailableTransitions,
+  getMissingRequirements,
+  getPhaseDeadline
+} from '@/src/services/caseProcedureFlowService';
+import type { CaseProcedureFlow } from '@/src/types/caseProcedure';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+const reorganizationFlow: CaseProcedureFlow = {
+  procedure_type: '破产重整',
+  name: '破产重整程序',
+  initial_phase: '立案',
+  is_active: true,
+  phases: [
+    { name: '立案', display_order: 1, is_terminal: false, deadline: { base_date_field: 'acceptance_date', offset_days: 25, remind_within_days: 5 } },
+    { name: '债权人第一次会议', display_order: 4, is_terminal: false },
+    { name: '裁定重整', display_order: 5, is_terminal: false, deadline: { base_date_field: 'reorganization_ruling_date', offset_months: 6, remind_within_days: 5 } },
+    { name: '破产清算', display_order: 11, is_terminal: false },
+    { name: '结案', display_order: 12, is_terminal: true }
+  ],
+  transitions: [
+    {
+      from: '债权人第一次会议',
+      to: '裁定重整',
+      required_date_fields: [{ field: 'reorganization_ruling_date', label: '裁定重整时间' }],
+      required_documents: [{ field: 'reorganization_ruling_announcement_doc_id', label: '裁定重整公告' }],
+      allowed_roles: ['case_manager']
+    },
+    {
+      from: '债权人第一次会议',
+      to: '破产清算',
+      required_date_fields: [],
+      required_documents: [],
+      allowed_roles: ['case_manager']
+    },
+    {
+      from: '*',
+      to: '结案',
+      required_date_fields: [{ field: 'closing_date', label: '结案时间' }],
+      required_documents: [],
+      allowed_roles: ['case_manager']
+    }
+  ]
+};
+
+describe('CaseProcedureFlowService', () => {
+  let service: CaseProcedureFlowService;
+  const mockClient = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CaseProcedureFlowService(mockClient);
+  });
+
+  describe('getAvailableTransitions', () => {
+    test('应该按阶段顺序返回可执行的流转，包括通配流转', () => {
+      const transitions = getAvailableTransitions(reorganizationFlow, '债权人第一次会议', ['case_manager']);
+
+      expect(transitions.map(t => t.to)).toEqual(['裁定重整', '破产清算', '结案']);
+    });
+
+    test('没有所需角色时不应返回流转', () => {
+      expect(getAvailableTransitions(reorganizationFlow, '债权人第一次会议', ['creditor_representative'])).toEqual([]);
+    });
+
+    test('admin 不受角色限制', () => {
+      expect(getAvailableTransitions(reorganizationFlow, '立案', ['admin']).map(t => t.to)).toEqual(['结案']);
+    });
+
+    test('终结阶段不应返回任何流转', () => {
+      expect(getAvailableTransitions(reorganizationFlow, '结案', ['admin'])).toEqual([]);
+    });
+  });
+
+  describe('getMissingRequirements', () => {
+    test('应该返回缺失的日期和文书', () => {
+      const transition = reorganizationFlow.transitions[0];
+
+      expect(getMissingRequirements(transition, { date_values: {}, documents: {} })).toEqual(['裁定重整时间', '裁定重整公告']);
+      expect(getMissingRequirements(transition, {
+        date_values: { reorganization_ruling_date: '2024-03-01' },
+        documents: { reorganization_ruling_announcement_doc_id: { title: '裁定重整公告', content: [] } }
+      })).toEqual([]);
+    });
+  });
+
+  describe('getPhaseDeadline', () => {
+    test('应该按天数和月数计算截止日期', () => {
+      const [filing, , ruling] = reorganizationFlow.phases;
+
+      expect(getPhaseDeadline(filing, { acceptance_date: '2024-01-01T00:00:00Z' })?.toISOString()).toBe('2024-01-26T00:00:00.000Z');
+      expect(getPhaseDeadline(ruling, { reorganization_ruling_date: '2024-01-15T00:00:00Z' })?.toISOString()).toBe('2024-07-15T00:00:00.000Z');
+    });
+
+    test('基准日期缺失或无期限时返回null', () => {
+      expect(getPhaseDeadline(reorganizationFlow.phases[0], {})).toBeNull();
+      expect(getPhaseDeadline(reorganizationFlow.phases[1], { acceptance_date: '2024-01-01' })).toBeNull();
+    });
+  });
+
+  describe('getFlow', () => {
+    test('未定义的程序类型应回退到破产清算流程', async () => {
+      mockQueryWithAuth.mockResolvedValueOnce([{ ...reorganizationFlow, procedure_type: '破产清算' }]);
+
+      const flow = await service.getFlow('破产');
+
+      expect(flow?.procedure_type).toBe('破产清算');
+      expect(mockQueryWithAuth.mock.calls[0][2]).toEqual({ procedure_types: ['破产', '破产清算'] });
+    });
+  });
+
+  describe('transitionCase', () => {
+    test('应该先保存文书再一次性更新案件阶段和日期', async () => {
+      mockQueryWithAuth
+        .mockResolvedValueOnce([{ id: 'document:announcement' }])
+        .mockResolvedValueOnce([{ id: 'case:1' }]);
+
+      await service.transitionCase({
+        case_id: '1',
+        to_phase: '裁定重整',
+        date_values: { reorganization_ruling_date: '2024-03-01' },
+        documents: { reorganization_ruling_announcement_doc_id: { title: '裁定重整公告', content: [{ insert: '公告\n' }] } }
+      });
+
+      expect(mockQueryWithAuth.mock.calls[0][1]).toContain('CREATE document');
+      expect(mockQueryWithAuth.mock.calls[0][2]).toMatchObject({ case_id: 'case:1', document_type: 'reorganization_ruling_announcement_doc_id' });
+
+      const [, updateQuery, updateParams] = mockQueryWithAuth.mock.calls[1];
+      expect(updateQuery).toContain('MERGE $patch');
+      expect(updateParams).toEqual({
+        case_id: 'case:1',
+        patch: {
+          procedure_phase: '裁定重整',
+          reorganization_ruling_date: new Date('2024-03-01T00:00:00Z'),
+          reorganization_ruling_announcement_doc_id: 'document:announcement'
+        }
+      });
+    });
+
+    test('应该透出数据库校验失败的原因', async () => {
+      mockQueryWithAuth.mockRejectedValueOnce(new Error('An error occurred: 不允许的程序阶段变更：立案 → 结案'));
+
+      await expect(service.transitionCase({
+        case_id: 'case:1',
+        to_phase: '结案',
+        date_values: { closing_date: '2024-03-01' },
+        documents: {}
+      })).rejects.toThrow('不允许的程序阶段变更：立案 → 结案');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { messageService } from '@/src/services/messageService';
+import {
+  caseReminderService,
+  evaluateReminderRule,
+  getPeriodKey,
+  isNotificationTimeReached,
+  previewReminderRule,
+  renderReminderMessage,
+} from '@/src/services/caseReminderService';
+import type { CaseProcedureFlow } from '@/src/types/caseProcedure';
+import type { NotificationRule, ReminderCaseData } from '@/src/types/caseReminder';
+
+vi.mock('@/src/services/messageService', () => ({
+  messageService: { sendNotification: vi.fn(), subscribeToCaseBot: vi.fn() },
+}));
+
+const now = new Date('2026-03-02T10:30:00');
+
+const flow: CaseProcedureFlow = {
+  procedure_type: '破产清算',
+  name: '破产清算程序',
+  initial_phase: '立案',
+  phases: [
+    {
+      name: '立案',
+      display_order: 1,
+      is_terminal: false,
+      deadline: { base_date_field: 'acceptance_date', offset_days: 25, remind_within_days: 5 },
+    },
+    { name: '终结', display_order: 9, is_terminal: true },
+  ],
+  transitions: [],
+  is_active: true,
+};
+
+const caseData = (id: string, acceptanceDate: string, phase = '立案'): ReminderCaseData => ({
+  id: `case:${id}`,
+  case_number: `（2026）破${id}号`,
+  name: `${id}公司破产案`,
+  case_procedure: '破产清算',
+  procedure_phase: phase,
+  acceptance_date: acceptanceDate,
+});
+
+const rule = (overrides: Partial<NotificationRule> = {}): NotificationRule => ({
+  id: 'notification_rule:r1',
+  procedure_phase: '立案',
+  trigger_condition: 'due_within(acceptance_date + 25d, 5)',
+  message_template: '距离最迟公告时间仅有 {{days}} 天（{{deadline}}）',
+  notification_frequency: 'DAILY',
+  notification_time: '09:00',
+  is_active: true,
+  ...overrides,
+});
+
+describe('规则判定', () => {
+  it('按触发条件判定并计算截止日期和去重周期', () => {
+    const evaluation = evaluateReminderRule(rule(), caseData('1', '2026-02-10T00:00:00'), flow, now);
+
+    expect(evaluation).toMatchObject({ fired: true, days: 5, period_key: 'day:2026-03-02' });
+    expect(renderReminderMessage(rule().message_template, caseData('1', '2026-02-10T00:00:00'), evaluation))
+      .toBe('距离最迟公告时间仅有 5 天（2026-03-07）');
+    expect(evaluateReminderRule(rule(), caseData('2', '2026-01-01T00:00:00'), flow, now).fired).toBe(false);
+  });
+
+  it('未配置条件时使用程序流程中的阶段期限', () => {
+    const evaluation = evaluateReminderRule(rule({ trigger_condition: '' }), caseData('1', '2026-02-08T00:00:00'), flow, now);
+    expect(evaluation).toMatchObject({ fired: true, days: 3 });
+
+    expect(evaluateReminderRule(rule({ trigger_condition: '' }), caseData('1', '2026-02-01T00:00:00'), flow, now).fired).toBe(false);
+  });
+
+  it('按频率生成去重周期，工作日规则在休息日不提醒', () => {
+    const deadline = new Date('2026-03-07T00:00:00');
+    expect(getPeriodKey('ONCE', now, deadline)).toBe('once:2026-03-07');
+    expect(getPeriodKey('WEEKLY', now, deadline)).toBe('week:2026-W10');
+    expect(getPeriodKey('WORKDAY', now, deadline)).toBe('day:2026-03-02');
+    expect(getPeriodKey('WORKDAY', new Date('2026-02-16T10:00:00'), deadline)).toBeNull();
+    expect(isNotificationTimeReached('09:00', now)).toBe(true);
+    expect(isNotificationTimeReached('18:00', now)).toBe(false);
+  });
+
+  it('预览只列出当前阶段触发或条件出错的案件', () => {
+    const cases = [
+      caseData('1', '2026-02-10T00:00:00'),
+      caseData('2', '2026-01-01T00:00:00'),
+      caseData('3', '2026-02-10T00:00:00', '终结'),
+      { ...caseData('4', '2026-02-10T00:00:00'), acceptance_date: 'invalid' },
+    ];
+
+    const items = previewReminderRule(rule({ trigger_condition: 'days_until(acceptance_date + 25d) <= 5 and acceptance_date' }), cases, [flow], now);
+    expect(items.map(item => [item.case.id, Boolean(item.evaluation.error)])).toEqual([
+      ['case:1', true],
+      ['case:2', true],
+    ]);
+    expect(previewReminderRule(rule(), cases, [flow], now).map(item => item.case.id)).toEqual(['case:1']);
+  });
+});
+
+describe('发送提醒', () => {
+  const logs = new Set<string>();
+  const query = vi.fn(async (sql: string, vars?: Record<string, unknown>) => {
+    if (sql.includes('FROM notification_rule')) return [[rule(), rule({ id: 'notification_rule:r2', notification_time: '18:00' })]];
+    if (sql.includes('FROM case_procedure_flow')) return [[flow]];
+    if (sql.includes('FROM case_bot_subscription')) return [[{ user_id: 'user:u1' }, { user_id: 'user:u2' }]];
+    if (sql.includes('FROM case_bot')) return [[{ id: 'case_bot:b1' }]];
+    if (sql.includes('FROM case')) return [[caseData('1', '2026-02-10T00:00:00'), caseData('2', '2026-01-01T00:00:00')]];
+    if (sql.includes('case_reminder_log')) {
+      const key = `${vars?.rule_key}|${vars?.case_key}|${vars?.period_key}`;
+      if (logs.has(key)) throw new Error(`Database record \`case_reminder_log:[...]\` already exists`);
+      logs.add(key);
+      return [[{ id: 'case_reminder_log:1' }]];
+    }
+    return [[]];
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    logs.clear();
+    caseReminderService.setClientGetter(async () => ({ query }) as never);
+  });
+
+  it('同一案件、规则、周期只提醒一次，未到发送时间的规则跳过', async () => {
+    await caseReminderService.checkAndSendReminders(now);
+    await caseReminderService.checkAndSendReminders(new Date('2026-03-02T15:00:00'));
+
+    expect(messageService.sendNotification).toHaveBeenCalledTimes(2);
+    expect(messageService.sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+      target_user_id: 'user:u1',
+      content: '距离最迟公告时间仅有 5 天（2026-03-07）',
+    }));
+    expect(query.mock.calls.filter(([sql]) => sql.includes('case_reminder_log'))).toHaveLength(2);
+
+    await caseReminderService.checkAndSendReminders(new Date('2026-03-03T09:30:00'));
+    expect(messageService.sendNotification).toHaveBeenCalledTimes(4);
+  });
+
+  it('发送失败时释放去重记录', async () => {
+    vi.mocked(messageService.sendNotification).mockRejectedValueOnce(new Error('offline'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(caseReminderService.checkAndSendReminders(now)).rejects.toThrow('offline');
+    expect(query).toHaveBeenCalledWith('DELETE $id', { id: 'case_reminder_log:1' });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * ClaimDataExportService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/src/services/claimStatisticsService', () => ({
+  claimStatisticsService: {
+    getProcessingEfficiencyStats: vi.fn(),
+    getQualityIndicatorStats: vi.fn(),
+    getWorkloadStats: vi.fn(),
+    getStatusFlowStats: vi.fn(),
+    getBottleneckAnalysis: vi.fn(),
+    getTimeSeriesData: vi.fn()
+  }
+}));
+
+const mockAssertExportAllowed = vi.fn();
+
+vi.mock('@/src/services/anomalyRuleService', () => ({
+  AnomalyRuleService: vi.fn(() => ({ assertExportAllowed: mockAssertExportAllowed }))
+}));
+
+// jsdom 的 Blob 不支持 arrayBuffer()/text()，通过 FileReader 读取
+const readBlobBuffer = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const readBlobText = async (blob: Blob, encoding: string = 'latin1'): Promise<string> => {
+  return new TextDecoder(encoding, { ignoreBOM: true }).decode(await readBlobBuffer(blob));
+};
+
+describe('ClaimDataExportService', () => {
+  let claimDataExportService: any;
+  let ExportStatus: any;
+
+  const allSections = {
+    overview: true,
+    efficiency: true,
+    quality: true,
+    workload: true,
+    statusFlow: true,
+    bottleneck: true,
+    timeSeries: true,
+    rawData: false
+  };
+
+  const waitForTask = async (taskId: string) => {
+    await vi.waitFor(() => {
+      const task = claimDataExportService.getExportTask(taskId);
+      expect([ExportStatus.COMPLETED, ExportStatus.FAILED]).toContain(task.status);
+    }, { timeout: 3000 });
+    return claimDataExportService.getExportTask(taskId);
+  };
+
+  beforeEach(async () => {
+    vi.resetModules();
+    URL.createObjectURL = vi.fn(() => 'blob:mock-url');
+    URL.revokeObjectURL = vi.fn();
+
+    const { claimStatisticsService } = await import('@/src/services/claimStatisticsService');
+    vi.mocked(claimStatisticsService.getProcessingEfficiencyStats).mockResolvedValue({
+      avgProcessingDays: 3.5,
+      totalClaims: 120,
+      pendingClaims: 20,
+      processedClaims: 100,
+      timeRanges: [{ range: '0-3天', count: 60, percentage: 50 }]
+    });
+    vi.mocked(claimStatisticsService.getQualityIndicatorStats).mockResolvedValue({
+      onePassRate: 85.5,
+      rejectionRate: 5,
+      supplementRequestRate: 9.5,
+      avgReviewRounds: 1.2,
+      totalReviewed: 100
+    });
+    vi.mocked(claimStatisticsService.getWorkloadStats).mockResolvedValue({
+      reviewerStats: [{ reviewerId: 'user:1', reviewerName: '张三', totalReviewed: 50, avgProcessingTime: 2, efficiency: 25 }],
+      dailyWorkload: [{ date: '2024-01-01', operationsCount: 10, reviewsCount: 5 }]
+    });
+    vi.mocked(claimStatisticsService.getStatusFlowStats).mockResolvedValue({
+      statusDistribution: [{ status: '审核通过', count: 80, percentage: 66.67 }],
+      flowAnalysis: [{ fromStatus: '已提交', toStatus: '审核通过', count: 80, avgDuration: 2.5 }]
+    });
+    vi.mocked(claimStatisticsService.getBottleneckAnalysis).mockResolvedValue({
+      slowClaims: [{ claimId: 'claim:1', claimNumber: 'CL-001', daysInStatus: 30, currentStatus: '审核中', submissionDate: '2024-01-01' }],
+      bottleneckStages: [{ stage: '审核中', avgDuration: 12, claimCount: 5, severity: 'high' }]
+    });
+    vi.mocked(claimStatisticsService.getTimeSeriesData).mockResolvedValue(
+      Array.from({ length: 30 }, (_, index) => ({
+        date: `2024-01-${String(index + 1).padStart(2, '0')}`,
+        submissions: index,
+        approvals: index,
+        rejections: 0,
+        supplements: 1
+      }))
+    );
+
+    const module = await import('@/src/services/claimDataExportService');
+    claimDataExportService = module.claimDataExportService;
+    claimDataExportService.setClientGetter(async () => ({}));
+    ExportStatus = module.ExportStatus;
+    mockAssertExportAllowed.mockReset().mockResolvedValue(undefined);
+  });
+
+  test('导出被安全规则锁定时不创建导出任务', async () => {
+    mockAssertExportAllowed.mockRejectedValueOnce(new Error('数据导出已被安全规则锁定，请联系管理员'));
+
+    await expect(claimDataExportService.createExportTask({
+      format: 'excel',
+      includeCharts: false,
+      sections: allSections
+    })).rejects.toThrow('数据导出已被安全规则锁定，请联系管理员');
+    expect(claimDataExportService.getAllExportTasks()).toHaveLength(0);
+  });
+
+  test('应该生成包含全部工作表的xlsx文件', async () => {
+    const task = await claimDataExportService.createExportTask({
+      format: 'excel',
+      includeCharts: false,
+      sections: allSections
+    });
+
+    const completed = await waitForTask(task.id);
+    expect(completed.status).toBe(ExportStatus.COMPLETED);
+    expect(completed.fileName).toMatch(/\.xlsx$/);
+    expect(completed.downloadUrl).toBe('blob:mock-url');
+
+    const blob = claimDataExportService.getExportFile(task.id);
+    const ExcelJS = (await import('exceljs')).default;
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await readBlobBuffer(blob));
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual([
+      '概览', '处理效率', '质量指标', '工作量统计', '状态流转', '瓶颈分析', '时间趋势'
+    ]);
+
+    const quality = workbook.getWorksheet('质量指标')!;
+    const onePassRate = quality.getRow(5).getCell(2);
+    expect(onePassRate.value).toBeCloseTo(0.855);
+    expect(onePassRate.numFmt).toBe('0.00%');
+  });
+
+  test('应该生成分页的PDF文件', async () => {
+    const task = await claimDataExportService.createExportTask({
+      format: 'pdf',
+      includeCharts: false,
+      sections: allSections
+    });
+
+    const completed = await waitForTask(task.id);
+    expect(completed.status).toBe(ExportStatus.COMPLETED);
+    expect(completed.fileName).toMatch(/\.pdf$/);
+
+    const content = await readBlobText(claimDataExportService.getExportFile(task.id));
+    expect(content.startsWith('%PDF-1.4')).toBe(true);
+    expect(content).toContain('/BaseFont /STSong-Light');
+    expect(content.trimEnd().endsWith('%%EOF')).toBe(true);
+    const pageCount = Number(content.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)?.[1]);
+    expect(pageCount).toBeGreaterThan(1);
+  });
+
+  test('CSV应使用真实换行符', async () => {
+    const task = await claimDataExportService.createExportTask({
+      format: 'csv',
+      includeCharts: false,
+      sections: { ...allSections, overview: false, timeSeries: true }
+    });
+
+    await waitForTask(task.id);
+    const text = await readBlobText(claimDataExportService.getExportFile(task.id), 'utf-8');
+    expect(text.split('\n')[0]).toBe('\ufeff日期,提交数量,审核通过,审核驳回,补充材料');
+  });
+
+  test('清理过期任务时应释放下载链接', async () => {
+    const task = await claimDataExportService.createExportTask({
+      format: 'csv',
+      includeCharts: false,
+      sections: allSections
+    });
+    await waitForTask(task.id);
+
+    claimDataExportService.cleanupExpiredTasks(-1);
+
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:mock-url');
+    expect(claimDataExportService.getExportTask(task.id)).toBeNull();
+    expect(claimDataExportService.getExportFile(task.id)).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * ClaimNoticeService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { RecordId } from 'surrealdb';
+import { ClaimNoticeService } from '@/src/services/claimNoticeService';
+import { CLAIM_REVIEW_NOTICE_TEMPLATE } from '@/src/utils/mailMerge';
+import type { ClaimNotice, ClaimNoticeCandidate } from '@/src/types/claimNotice';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {}
+}));
+
+vi.mock('@/src/services/messageService', () => ({
+  messageService: {
+    sendNotification: vi.fn()
+  }
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import { messageService } from '@/src/services/messageService';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+const mockSendNotification = vi.mocked(messageService.sendNotification);
+
+const candidate: ClaimNoticeCandidate = {
+  claim_id: new RecordId('claim', 'c1'),
+  claim_number: 'ZQ-001',
+  review_status: '审核通过',
+  recipient_user_id: new RecordId('user', 'u1'),
+  creditor_id: new RecordId('creditor', 'k1'),
+  creditor_name: '甲贸易有限公司',
+  case_id: new RecordId('case', '1'),
+  case_name: '乙公司破产清算案',
+  case_number: '(2026)浙01破1号',
+  asserted_nature: '普通债权',
+  asserted_total: 1000,
+  approved_total: 1000,
+  currency: 'CNY'
+};
+
+const notice = (overrides: Partial<ClaimNotice> = {}): ClaimNotice => ({
+  id: new RecordId('claim_notice', 'n1'),
+  case_id: candidate.case_id,
+  claim_id: candidate.claim_id,
+  claim_number: 'ZQ-001',
+  creditor_id: candidate.creditor_id,
+  creditor_name: '甲贸易有限公司',
+  document_id: new RecordId('document', 'd1'),
+  template_id: CLAIM_REVIEW_NOTICE_TEMPLATE.id,
+  title: '债权审查结果通知书（ZQ-001）',
+  recipient_user_id: candidate.recipient_user_id,
+  status: 'generated',
+  objection_deadline: new Date(2026, 10, 2).toISOString(),
+  created_at: '2026-10-18T00:00:00Z',
+  ...overrides
+});
+
+describe('ClaimNoticeService', () => {
+  let service: ClaimNoticeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new ClaimNoticeService({});
+  });
+
+  test('getNoticeCandidates 只查询已审查债权，并将选中的债权ID转为记录', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([candidate] as never);
+
+    const result = await service.getNoticeCandidates('case:1', ['claim:c1', 'c2']);
+
+    expect(result).toEqual([candidate]);
+    const [, query, params] = mockQueryWithAuth.mock.calls[0];
+    expect(query).toContain('AND id INSIDE $claim_ids');
+    expect(query).toContain('FROM represents WHERE out = $parent.creditor_id');
+    expect(query).not.toContain('created_by AS recipient_user_id');
+    expect(params).toMatchObject({ reviewed_statuses: ['审核通过', '部分通过', '已驳回'] });
+    expect((params as { claim_ids: RecordId[] }).claim_ids.map(String)).toEqual(['claim:c1', 'claim:c2']);
+  });
+
+  test('generateNotices 应在一个事务中为每笔债权写入合并后的文档和通知记录', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([] as never);
+    const deadline = new Date(2026, 10, 2);
+
+    const notices = await service.generateNotices({
+      case_id: 'case:1',
+      template_id: CLAIM_REVIEW_NOTICE_TEMPLATE.id,
+      template_content: CLAIM_REVIEW_NOTICE_TEMPLATE.content,
+      candidates: [candidate, { ...candidate, claim_id: new RecordId('claim', 'c2'), claim_number: 'ZQ-002' }],
+      objection_deadline: deadline
+    });
+
+    expect(notices).toHaveLength(2);
+    expect(notices[1]).toMatchObject({ claim_number: 'ZQ-002', status: 'generated', objection_deadline: deadline.toISOString() });
+    expect(notices[1].failure_reason).toBeUndefined();
+
+    const [, query, params] = mockQueryWithAuth.mock.calls[0];
+    expect(query).toContain('BEGIN TRANSACTION');
+    expect(query).toContain('CREATE $document_1');
+    expect(query).toContain('CREATE $notice_1');
+    const queryParams = params as Record<string, unknown>;
+    expect(queryParams.notice_0).toBe(notices[0].id);
+    expect(queryParams.document_0).toBe(notices[0].document_id);
+    expect(queryParams.content_0).toContain('甲贸易有限公司');
+    expect(queryParams.content_0).not.toContain('{{creditor_name}}');
+  });
+
+  test('generateNotices 应将没有关联用户的债权人的通知书记为无法送达', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([] as never);
+
+    const [generated] = await service.generateNotices({
+      case_id: 'case:1',
+      template_id: CLAIM_REVIEW_NOTICE_TEMPLATE.id,
+      template_content: CLAIM_REVIEW_NOTICE_TEMPLATE.content,
+      candidates: [{ ...candidate, recipient_user_id: undefined }],
+      objection_deadline: new Date(2026, 10, 2)
+    });
+
+    expect(generated).toMatchObject({ status: 'undeliverable', failure_reason: '债权人未关联系统用户' });
+    expect(generated.recipient_user_id).toBeUndefined();
+    const [, query, params] = mockQueryWithAuth.mock.calls[0];
+    expect(query).toContain('status: $status_0, failure_reason: $failure_reason_0');
+    expect(params).toMatchObject({ status_0: 'undeliverable', failure_reason_0: '债权人未关联系统用户' });
+  });
+
+  test('generateNotices 写入失败时应抛出中文错误', async () => {
+    mockQueryWithAuth.mockRejectedValueOnce(new Error('db down') as never);
+
+    await expect(service.generateNotices({
+      case_id: 'case:1',
+      template_id: 't',
+      template_content: CLAIM_REVIEW_NOTICE_TEMPLATE.content,
+      candidates: [candidate],
+      objection_deadline: new Date()
+    })).rejects.toThrow('生成通知书失败');
+  });
+
+  test('sendNotices 应通过站内消息送达并回写状态，缺少收件人的标记为无法送达', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{ content: JSON.stringify({ ops: [{ insert: '通知书正文\n' }] }) }] as never)
+      .mockResolvedValue([] as never);
+    mockSendNotification.mockResolvedValueOnce({ id: new RecordId('message', 'm1') } as never);
+
+    const result = await service.sendNotices(
+      [notice(), notice({ id: new RecordId('claim_notice', 'n2'), recipient_user_id: undefined })],
+      '丙律师事务所'
+    );
+
+    expect(result).toEqual({ sent: 1, failed: 0, undeliverable: 1 });
+    expect(mockSendNotification).toHaveBeenCalledTimes(1);
+    expect(mockSendNotification).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'BUSINESS_NOTIFICATION',
+      target_user_id: candidate.recipient_user_id,
+      title: '债权审查结果通知书（ZQ-001）',
+      action_link: '/my-claims/c1/submitted',
+      sender_name: '丙律师事务所'
+    }));
+    expect(mockSendNotification.mock.calls[0][0].content).toContain('请在2026年11月2日前确认收悉或提出异议');
+
+    const [, sentQuery, sentParams] = mockQueryWithAuth.mock.calls[1];
+    expect(sentQuery).toContain("status = 'sent'");
+    expect(String((sentParams as { message_id: RecordId }).message_id)).toBe('message:m1');
+    const [, undeliverableQuery, undeliverableParams] = mockQueryWithAuth.mock.calls[2];
+    expect(undeliverableQuery).toContain('status = $status');
+    expect(undeliverableParams).toMatchObject({ status: 'undeliverable', failure_reason: '债权人未关联系统用户' });
+  });
+
+  test('sendNotices 消息发送失败时应记录失败原因并继续', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{ content: JSON.stringify({ ops: [{ insert: '正文\n' }] }) }] as never)
+      .mockResolvedValue([] as never);
+    mockSendNotification.mockRejectedValueOnce(new Error('网络错误'));
+
+    const result = await service.sendNotices([notice()], '管理人');
+
+    expect(result).toEqual({ sent: 0, failed: 1, undeliverable: 0 });
+    expect(mockQueryWithAuth.mock.calls[1][2]).toMatchObject({ status: 'failed', failure_reason: '网络错误' });
+  });
+
+  test('acknowledgeNotice 对未送达或已确认的通知书应报错', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{ id: 'claim_notice:n1', status: 'acknowledged' }] as never);
+    await expect(service.acknowledgeNotice('claim_notice:n1')).resolves.toBeUndefined();
+    expect(mockQueryWithAuth.mock.calls[0][1]).toContain("WHERE status = 'sent'");
+
+    mockQueryWithAuth.mockResolvedValueOnce([] as never);
+    await expect(service.acknowledgeNotice('claim_notice:n1')).rejects.toThrow('通知书尚未送达或已确认');
+  });
+});
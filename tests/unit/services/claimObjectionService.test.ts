@@ -0,0 +1,302 @@
+/**
+ * ClaimObjectionService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { RecordId } from 'surrealdb';
+import {
+  ClaimObjectionService,
+  computeObjectionDeadline,
+  extractObjectionAttachments,
+  getObjectionEligibility
+} from '@/src/services/claimObjectionService';
+import { OperationType, TransitionType, VersionType } from '@/src/types/claimTracking';
+import type { ClaimObjection, ClaimObjectionContext } from '@/src/types/claimObjection';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {}
+}));
+
+const mockSealOperationLog = vi.fn();
+
+vi.mock('@/src/services/claimOperationService', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    sealOperationLog: mockSealOperationLog,
+    formatOperationDescription: vi.fn(() => '债权异议')
+  }))
+}));
+
+vi.mock('@/src/services/claimVersionService', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    generateChecksum: vi.fn(async () => 'checksum')
+  }))
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+const approvedStatusId = new RecordId('claim_review_status_definition', 'approved');
+const objectionStatusId = new RecordId('claim_review_status_definition', 'objection');
+
+const context = (overrides: Partial<ClaimObjectionContext> = {}): ClaimObjectionContext => ({
+  claim_id: new RecordId('claim', 'c1'),
+  claim_number: 'ZQ-001',
+  case_id: new RecordId('case', '1'),
+  creditor_id: new RecordId('creditor', 'k1'),
+  creditor_name: '甲贸易有限公司',
+  review_status: '部分通过',
+  review_status_id: approvedStatusId,
+  review_time: '2026-10-01T08:00:00.000Z',
+  objections: [],
+  ...overrides
+});
+
+const objection = (overrides: Partial<ClaimObjection> = {}): ClaimObjection => ({
+  id: new RecordId('claim_objection', 'o1'),
+  case_id: new RecordId('case', '1'),
+  claim_id: new RecordId('claim', 'c1'),
+  claim_number: 'ZQ-001',
+  creditor_id: new RecordId('creditor', 'k1'),
+  creditor_name: '甲贸易有限公司',
+  reason_doc_id: new RecordId('document', 'd1'),
+  reason_summary: '利息计算有误',
+  attachments: [],
+  objection_deadline: '2026-10-20T15:59:59.000Z',
+  previous_status: '部分通过',
+  previous_review_status_id: approvedStatusId,
+  status: 'pending',
+  created_at: '2026-10-10T08:00:00.000Z',
+  ...overrides
+});
+
+describe('claimObjectionService helpers', () => {
+  test('异议期自通知日起计算至第15日当日结束', () => {
+    const deadline = computeObjectionDeadline(new Date(2026, 9, 18, 10, 30));
+    expect(deadline).toEqual(new Date(2026, 10, 2, 23, 59, 59));
+  });
+
+  test('已送达通知书的截止日优先于按审查日期推算的期限', () => {
+    const result = getObjectionEligibility(
+      context({ notice_deadline: '2026-10-30T15:59:59.000Z' }),
+      new Date('2026-10-25T00:00:00.000Z')
+    );
+    expect(result.allowed).toBe(true);
+    expect(result.deadline).toEqual(new Date('2026-10-30T15:59:59.000Z'));
+  });
+
+  test('异议期届满、尚未审查或已有待复核异议时不能提出异议', () => {
+    const now = new Date('2026-10-25T00:00:00.000Z');
+    expect(getObjectionEligibility(context(), now)).toMatchObject({ allowed: false, reason: '异议期已届满' });
+    expect(getObjectionEligibility(context({ review_status: '审核中', notice_deadline: '2026-11-01T00:00:00.000Z' }), now))
+      .toMatchObject({ allowed: false, reason: '债权尚未作出审查结论' });
+    expect(getObjectionEligibility(context({ objections: [objection()] }), now))
+      .toMatchObject({ allowed: false, reason: '已提出异议，正在复核中' });
+  });
+
+  test('从异议理由中提取文件链接和图片作为附件', () => {
+    const attachments = extractObjectionAttachments({
+      ops: [
+        { insert: '见附件 ' },
+        { insert: '借款合同.pdf', attributes: { link: 'https://files/contract.pdf' } },
+        { insert: { image: 'https://files/receipt.png' } },
+        { insert: '借款合同.pdf', attributes: { link: 'https://files/contract.pdf' } }
+      ]
+    });
+    expect(attachments).toEqual([
+      { name: '借款合同.pdf', url: 'https://files/contract.pdf' },
+      { name: 'receipt.png', url: 'https://files/receipt.png' }
+    ]);
+  });
+});
+
+describe('ClaimObjectionService', () => {
+  let service: ClaimObjectionService;
+  const operationLog = { id: new RecordId('claim_operation_log', 'log1'), claim_id: new RecordId('claim', 'c1') };
+  const claim = { id: new RecordId('claim', 'c1'), claim_number: 'ZQ-001', status: '部分通过', review_status_id: approvedStatusId, operation_count: 2 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ClaimObjectionService({});
+  });
+
+  test('提交异议时在同一事务中写入理由文档、异议记录、操作日志、版本快照和状态流转', async () => {
+    const deadline = new Date(Date.now() + 7 * 24 * 3600 * 1000).toISOString();
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{
+        ...context(),
+        notice: { id: new RecordId('claim_notice', 'n1'), objection_deadline: deadline }
+      }] as never)
+      .mockResolvedValueOnce({ claim, revision: 'r1', objection_status_id: objectionStatusId } as never)
+      .mockResolvedValueOnce({ objection: objection({ objection_deadline: deadline }), operation_log: operationLog } as never);
+
+    const result = await service.submitObjection({
+      claim_id: 'c1',
+      reason: {
+        ops: [
+          { insert: '利息应计算至受理日，' },
+          { insert: '计算表.xlsx', attributes: { link: 'https://files/calc.xlsx' } },
+          { insert: '\n' }
+        ]
+      }
+    });
+
+    const [, query, params] = mockQueryWithAuth.mock.calls[2];
+    expect(query).toContain('BEGIN TRANSACTION');
+    expect(query).toContain('CREATE claim_version_history');
+    expect(query).toContain('CREATE claim_status_flow');
+    expect(params).toMatchObject({
+      claim_number: 'ZQ-001',
+      revision: 'r1',
+      notice_id: new RecordId('claim_notice', 'n1'),
+      reason_summary: '利息应计算至受理日，计算表.xlsx',
+      attachments: [{ name: '计算表.xlsx', url: 'https://files/calc.xlsx' }],
+      operation_type: OperationType.OBJECTION_SUBMIT,
+      before_data: claim,
+      after_data: { status: '异议中', review_status_id: objectionStatusId, operation_count: 3 },
+      version_type: VersionType.OBJECTION,
+      from_status: approvedStatusId,
+      to_status: objectionStatusId,
+      transition_type: TransitionType.USER_ACTION
+    });
+    // 异议前的审查结论和异议期截止时间由数据库计算，不由客户端提交
+    expect(params).not.toHaveProperty('previous_status');
+    expect(params).not.toHaveProperty('previous_review_status_id');
+    expect(params).not.toHaveProperty('objection_deadline');
+    expect(result.objection_deadline).toBe(deadline);
+    expect(mockSealOperationLog).toHaveBeenCalledWith(operationLog);
+  });
+
+  test('异议期届满后拒绝提交', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{
+      ...context(),
+      notice: { id: new RecordId('claim_notice', 'n1'), objection_deadline: '2020-01-01T00:00:00.000Z' }
+    }] as never);
+
+    await expect(service.submitObjection({ claim_id: 'c1', reason: { ops: [{ insert: '有异议\n' }] } }))
+      .rejects.toThrow('异议期已届满');
+    expect(mockQueryWithAuth).toHaveBeenCalledTimes(1);
+  });
+
+  test('数据库拒绝异议时返回原因', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{
+        ...context(),
+        notice: { id: new RecordId('claim_notice', 'n1'), objection_deadline: new Date(Date.now() + 3600 * 1000).toISOString() }
+      }] as never)
+      .mockResolvedValueOnce({ claim, revision: 'r1', objection_status_id: objectionStatusId } as never)
+      .mockRejectedValueOnce(new Error('An error occurred: 异议期已届满'));
+
+    await expect(service.submitObjection({ claim_id: 'c1', reason: { ops: [{ insert: '有异议\n' }] } }))
+      .rejects.toThrow('异议期已届满');
+    expect(mockSealOperationLog).not.toHaveBeenCalled();
+  });
+
+  test('维持原审查结论时恢复异议前的状态', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([objection()] as never)
+      .mockResolvedValueOnce({ claim: { ...claim, status: '异议中', review_status_id: objectionStatusId }, revision: 'r2', status_id: approvedStatusId } as never)
+      .mockResolvedValueOnce(operationLog as never);
+
+    await service.resolveObjection({
+      objection_id: new RecordId('claim_objection', 'o1'),
+      outcome: 'upheld',
+      resolution_comments: '利息已按受理日计算，维持原结论'
+    });
+
+    const [, query, params] = mockQueryWithAuth.mock.calls[2];
+    expect(query).toContain("WHERE status = 'pending'");
+    expect(query).toContain('CREATE claim_version_history');
+    expect(params).toMatchObject({
+      outcome: 'upheld',
+      revision: 'r2',
+      claim_fields: { status: '部分通过', review_status_id: approvedStatusId, operation_count: 3 },
+      operation_type: OperationType.OBJECTION_RESOLVE,
+      version_type: VersionType.OBJECTION_RESOLUTION,
+      from_status: objectionStatusId,
+      to_status: approvedStatusId,
+      transition_type: TransitionType.ADMIN_ACTION
+    });
+    expect(params?.claim_fields).not.toHaveProperty('approved_claim_details');
+    expect(mockSealOperationLog).toHaveBeenCalledWith(operationLog);
+  });
+
+  test('变更审查结论时更新认定金额并保存金额差异', async () => {
+    const newStatusId = new RecordId('claim_review_status_definition', 'full');
+    mockQueryWithAuth
+      .mockResolvedValueOnce([objection()] as never)
+      .mockResolvedValueOnce({ claim: { ...claim, status: '异议中', review_status_id: objectionStatusId }, revision: 'r2', status_id: newStatusId } as never)
+      .mockResolvedValueOnce(operationLog as never);
+
+    await service.resolveObjection({
+      objection_id: new RecordId('claim_objection', 'o1'),
+      outcome: 'modified',
+      resolution_comments: '采纳异议，利息全额确认',
+      modified: {
+        decision: '审核通过',
+        approved: { nature: '普通债权', currency: 'CNY', principal: 1000, interest: 50.5, other: 0 },
+        asserted: { principal: 1000, interest: 50.5, other: 0 }
+      }
+    });
+
+    const [, , params] = mockQueryWithAuth.mock.calls[2];
+    expect(params).toMatchObject({
+      claim_fields: {
+        status: '审核通过',
+        review_status_id: newStatusId,
+        approved_claim_details: { total_approved_amount: 1050.5 },
+        review_comments: '采纳异议，利息全额确认'
+      },
+      review_variance: expect.arrayContaining([expect.objectContaining({ component: 'total', delta: 0 })])
+    });
+  });
+
+  test('转入债权确认之诉时记录案号', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([objection()] as never)
+      .mockResolvedValueOnce({ claim: { ...claim, status: '异议中', review_status_id: objectionStatusId }, revision: 'r2' } as never)
+      .mockResolvedValueOnce(operationLog as never);
+
+    await service.resolveObjection({
+      objection_id: new RecordId('claim_objection', 'o1'),
+      outcome: 'litigation',
+      resolution_comments: '协商未果，债权人已起诉',
+      litigation_case_number: '(2026)浙01民初100号'
+    });
+
+    const [, , params] = mockQueryWithAuth.mock.calls[2];
+    expect(params).toMatchObject({
+      claim_fields: { status: '诉讼中', review_status_id: objectionStatusId },
+      litigation_case_number: '(2026)浙01民初100号'
+    });
+    expect(params?.to_status).toBeUndefined();
+  });
+
+  test('已处理的异议不能重复复核', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([objection({ status: 'upheld' })] as never);
+
+    await expect(service.resolveObjection({
+      objection_id: new RecordId('claim_objection', 'o1'),
+      outcome: 'upheld',
+      resolution_comments: '维持'
+    })).rejects.toThrow('该异议已处理');
+  });
+
+  test('并发复核时由事务拒绝第二次处理', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([objection()] as never)
+      .mockResolvedValueOnce({ claim: { ...claim, status: '异议中' }, revision: 'r2', status_id: approvedStatusId } as never)
+      .mockRejectedValueOnce(new Error('An error occurred: 该异议已处理'));
+
+    await expect(service.resolveObjection({
+      objection_id: new RecordId('claim_objection', 'o1'),
+      outcome: 'upheld',
+      resolution_comments: '维持'
+    })).rejects.toThrow('该异议已处理');
+    expect(mockSealOperationLog).not.toHaveBeenCalled();
+  });
+});
@@ -37,7 +37,7 @@ describe('ClaimOperationService', () => {
         operation_result: OperationResult.SUCCESS
       };
 
-      mockQueryWithAuth.mockResolvedValue([[mockOperationLog]]);
+      mockQueryWithAuth.mockResolvedValue([mockOperationLog]);
 
       const result = await service.logOperation({
         claim_id: 'claim:test',
@@ -68,7 +68,7 @@ describe('ClaimOperationService', () => {
         changed_fields: ['status', 'amount']
       };
 
-      mockQueryWithAuth.mockResolvedValue([[mockOperationLog]]);
+      mockQueryWithAuth.mockResolvedValue([mockOperationLog]);
 
       await service.logOperation({
         claim_id: 'claim:test',
@@ -90,7 +90,7 @@ describe('ClaimOperationService', () => {
     test('应该处理操作失败的情况', async () => {
       mockQueryWithAuth
         .mockRejectedValueOnce(new Error('Database error'))
-        .mockResolvedValueOnce([[]]); // 失败日志记录成功
+        .mockResolvedValueOnce([]); // 失败日志记录成功
 
       await expect(service.logOperation({
         claim_id: 'claim:test',
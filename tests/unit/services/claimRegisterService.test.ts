@@ -0,0 +1,239 @@
+/**
+ * ClaimRegisterService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { ClaimRegisterService } from '@/src/services/claimRegisterService';
+import { ClaimRegisterOutcome } from '@/src/types/claimRegister';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+const readBlobText = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new TextDecoder('latin1').decode(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const makeClaim = (overrides: Record<string, unknown>) => ({
+  id: 'claim:1',
+  claim_number: 'CL-001',
+  creditor_name: '债权人A',
+  creditor_legal_id: '91110000000000000X',
+  creditor_type: 'organization',
+  review_status_name: '审核通过',
+  asserted_claim_details: {
+    nature: '普通债权',
+    principal: 1000,
+    interest: 100,
+    other_amount: 0,
+    total_asserted_amount: 1100
+  },
+  approved_claim_details: {
+    nature: '普通债权',
+    principal: 1000,
+    interest: 50,
+    other_amount: 0,
+    total_approved_amount: 1050
+  },
+  ...overrides
+});
+
+describe('ClaimRegisterService', () => {
+  let service: ClaimRegisterService;
+  const mockClient = {};
+
+  const natures = [
+    { name: '有财产担保债权', display_order: 1 },
+    { name: '职工债权', display_order: 2 },
+    { name: '普通债权', display_order: 4 }
+  ];
+
+  const claims = [
+    makeClaim({ id: 'claim:1', claim_number: 'CL-001' }),
+    makeClaim({
+      id: 'claim:2',
+      claim_number: 'CL-002',
+      review_status_name: '部分通过',
+      asserted_claim_details: { nature: '普通债权', principal: 500, interest: 0, total_asserted_amount: 500 },
+      approved_claim_details: { nature: '有财产担保债权', principal: 300, interest: 0, total_approved_amount: 300 }
+    }),
+    makeClaim({ id: 'claim:3', claim_number: 'CL-003', review_status_name: '已驳回' }),
+    makeClaim({ id: 'claim:4', claim_number: 'CL-004', review_status_name: '审核中', approved_claim_details: undefined }),
+    makeClaim({ id: 'claim:5', claim_number: 'CL-005', review_status_name: '待提交' })
+  ];
+
+  const mockBuildQueries = () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{ id: 'case:1', name: '测试公司破产清算案', case_number: '(2024)京01破1号' }])
+      .mockResolvedValueOnce(natures)
+      .mockResolvedValueOnce(claims);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ClaimRegisterService(mockClient);
+  });
+
+  describe('buildRegister', () => {
+    test('应该按债权性质分组并单独列示待定债权', async () => {
+      mockBuildQueries();
+
+      const register = await service.buildRegister('case:1');
+
+      expect(register.case_name).toBe('测试公司破产清算案');
+      expect(register.reviewed_groups.map(group => group.nature)).toEqual(['有财产担保债权', '普通债权']);
+
+      const secured = register.reviewed_groups[0];
+      expect(secured.entries[0].outcome).toBe(ClaimRegisterOutcome.PARTIALLY_CONFIRMED);
+      expect(secured.subtotal.approved.total).toBe(300);
+
+      const ordinary = register.reviewed_groups[1];
+      expect(ordinary.subtotal.claim_count).toBe(2);
+      expect(ordinary.subtotal.asserted.total).toBe(2200);
+      // 已驳回债权的确认金额计为零
+      expect(ordinary.subtotal.approved.total).toBe(1050);
+
+      expect(register.pending_entries.map(entry => entry.claim_number)).toEqual(['CL-004']);
+      expect(register.pending_entries[0].approved).toBeNull();
+      expect(register.reviewed_total.claim_count).toBe(3);
+    });
+
+    test('查询失败时应该抛出错误', async () => {
+      mockQueryWithAuth.mockRejectedValue(new Error('Database error'));
+
+      await expect(service.buildRegister('case:1')).rejects.toThrow('生成债权表失败');
+    });
+  });
+
+  describe('publishRegister', () => {
+    test('应该在一个事务中创建债权表文档版本', async () => {
+      mockBuildQueries();
+      mockQueryWithAuth.mockResolvedValueOnce({
+        id: 'document_version:3',
+        document_id: 'document:reg',
+        version_number: 3,
+        change_summary: '核查稿',
+        created_at: '2024-01-01T00:00:00Z',
+        created_by: 'user:1'
+      });
+
+      const edition = await service.publishRegister({ case_id: 'case:1', change_summary: '核查稿' });
+
+      expect(edition.version_number).toBe(3);
+      expect(edition.change_summary).toBe('核查稿');
+      expect(edition.register.case_id).toBe('case:1');
+
+      const [, query, params] = mockQueryWithAuth.mock.calls[3];
+      expect(query).toContain('BEGIN TRANSACTION');
+      expect(query).toContain('CREATE ONLY document_version');
+      expect(query).toContain('COMMIT TRANSACTION');
+      expect(params).toMatchObject({ case_id: 'case:1', document_type: 'claim_register', change_summary: '核查稿' });
+      expect(JSON.parse((params as any).content).case_id).toBe('case:1');
+    });
+
+    test('版本号冲突时应该重试', async () => {
+      mockBuildQueries();
+      mockQueryWithAuth
+        .mockRejectedValueOnce(new Error('Database index `doc_version_idx` already contains [document:reg, 1]'))
+        .mockResolvedValueOnce({ id: 'document_version:2', document_id: 'document:reg', version_number: 2, change_summary: '第2版债权表' });
+
+      const edition = await service.publishRegister({ case_id: 'case:1' });
+
+      expect(mockQueryWithAuth).toHaveBeenCalledTimes(5);
+      expect(edition.version_number).toBe(2);
+      expect(edition.change_summary).toBe('第2版债权表');
+    });
+
+    test('事务失败时应该报错', async () => {
+      mockBuildQueries();
+      mockQueryWithAuth.mockRejectedValueOnce(new Error('The query was not executed due to a failed transaction'));
+
+      await expect(service.publishRegister({ case_id: 'case:1' })).rejects.toThrow('发布债权表失败');
+      expect(mockQueryWithAuth).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('getEditions', () => {
+    test('应该返回债权表文档的版本列表', async () => {
+      mockQueryWithAuth
+        .mockResolvedValueOnce([{ id: 'document:reg', version: 2 }])
+        .mockResolvedValueOnce([
+          { id: 'document_version:2', document_id: 'document:reg', version_number: 2 },
+          { id: 'document_version:1', document_id: 'document:reg', version_number: 1 }
+        ]);
+
+      const editions = await service.getEditions('case:1');
+
+      expect(editions.map(edition => edition.version_number)).toEqual([2, 1]);
+      expect(mockQueryWithAuth.mock.calls[1][2]).toEqual({ document_id: 'document:reg' });
+    });
+  });
+
+  describe('getEdition', () => {
+    test('应该解析版本内容', async () => {
+      const register = { case_id: 'case:1', case_name: '测试案', reviewed_groups: [] };
+      mockQueryWithAuth
+        .mockResolvedValueOnce([{ id: 'document:reg', version: 1 }])
+        .mockResolvedValueOnce([{ id: 'document_version:1', document_id: 'document:reg', version_number: 1, content: JSON.stringify(register) }]);
+
+      const edition = await service.getEdition('case:1', 1);
+
+      expect(edition?.register.case_name).toBe('测试案');
+    });
+
+    test('没有债权表文档时应该返回null', async () => {
+      mockQueryWithAuth.mockResolvedValueOnce([]);
+
+      expect(await service.getEdition('case:1', 1)).toBeNull();
+    });
+  });
+
+  describe('导出', () => {
+    test('应该导出包含小计行的xlsx', async () => {
+      mockBuildQueries();
+      const register = await service.buildRegister('case:1');
+
+      const blob = await service.exportToXlsx(register, 1);
+      const ExcelJS = (await import('exceljs')).default;
+      const workbook = new ExcelJS.Workbook();
+      const buffer = await new Promise<ArrayBuffer>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as ArrayBuffer);
+        reader.readAsArrayBuffer(blob);
+      });
+      await workbook.xlsx.load(buffer);
+
+      const sheet = workbook.getWorksheet('债权表')!;
+      const labels: string[] = [];
+      sheet.eachRow(row => labels.push(String(row.getCell(1).value ?? '')));
+      expect(labels).toContain('普通债权小计');
+      expect(labels).toContain('待定债权合计');
+    });
+
+    test('导出被安全规则锁定时拒绝导出', async () => {
+      mockBuildQueries();
+      const register = await service.buildRegister('case:1');
+      mockQueryWithAuth.mockResolvedValueOnce({ export_locked: true, reauth_required: false });
+
+      await expect(service.exportToXlsx(register, 1)).rejects.toThrow('数据导出已被安全规则锁定，请联系管理员');
+    });
+
+    test('应该导出横向PDF', async () => {
+      mockBuildQueries();
+      const register = await service.buildRegister('case:1');
+
+      const content = await readBlobText(await service.exportToPdf(register, 1));
+
+      expect(content.startsWith('%PDF-1.4')).toBe(true);
+      expect(content).toContain('/MediaBox [0 0 841.89 595.28]');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * ClaimReviewService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import {
+  ClaimReviewService,
+  buildReductionReasons,
+  computeReviewVariance,
+  getComponentsMissingReasons,
+  recalculateClaimInterest
+} from '@/src/services/claimReviewService';
+import { OperationType, VersionType } from '@/src/types/claimTracking';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+const mockSealOperationLog = vi.fn();
+const mockGenerateChecksum = vi.fn();
+
+vi.mock('@/src/services/claimOperationService', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    sealOperationLog: mockSealOperationLog,
+    formatOperationDescription: vi.fn(() => '审核债权')
+  }))
+}));
+
+vi.mock('@/src/services/claimVersionService', () => ({
+  default: vi.fn().mockImplementation(() => ({
+    generateChecksum: mockGenerateChecksum
+  }))
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+describe('claimReviewService helpers', () => {
+  test('重算利息应截止于案件受理日', () => {
+    const result = recalculateClaimInterest(
+      100000,
+      { interest_start_date: '2023-01-01', rate_source: 'fixed', interest_rate: 3.65 },
+      '2023-04-11T00:00:00.000Z',
+      undefined,
+      new Date(2024, 0, 1)
+    );
+
+    expect(result.interest).toBe(1000);
+    expect(result.acceptance_date).toBe('2023-04-11T00:00:00.000Z');
+    expect(result.formula).toContain('计息截止于破产申请受理日 2023-04-11');
+  });
+
+  test('应该逐项计算申报与认定差异', () => {
+    const variance = computeReviewVariance(
+      { principal: 120000, interest: 30000, other: 0 },
+      { principal: 120000, interest: 12500.5, other: 500 }
+    );
+
+    expect(variance.map(row => row.delta)).toEqual([0, -17499.5, 500, -16999.5]);
+    expect(variance[3]).toMatchObject({ component: 'total', asserted: 150000, approved: 133000.5 });
+  });
+
+  test('核减项目必须选择核减理由', () => {
+    const variance = computeReviewVariance(
+      { principal: 120000, interest: 30000, other: 1000 },
+      { principal: 100000, interest: 20000, other: 1000 }
+    );
+
+    expect(getComponentsMissingReasons(variance, { interest: ['over_limit_interest'] })).toEqual(['本金']);
+
+    const reasons = buildReductionReasons(variance, {
+      principal: ['paid_or_offset'],
+      interest: ['over_limit_interest', 'post_acceptance_interest'],
+      other: ['other']
+    });
+    expect(reasons).toEqual([
+      { code: 'paid_or_offset', label: '已清偿或抵销', component: 'principal', reduced_amount: 20000 },
+      { code: 'over_limit_interest', label: '利息超过法定上限', component: 'interest', reduced_amount: 10000 },
+      { code: 'post_acceptance_interest', label: '破产申请受理后的利息', component: 'interest', reduced_amount: 10000 }
+    ]);
+  });
+});
+
+describe('ClaimReviewService', () => {
+  let service: ClaimReviewService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ClaimReviewService({});
+    mockSealOperationLog.mockResolvedValue(undefined);
+    mockGenerateChecksum.mockResolvedValue('checksum');
+  });
+
+  test('getReviewContext 应该规范化记录ID和日期', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{
+      id: 'claim:c1',
+      claim_number: 'CL-001',
+      case_id: 'case:1',
+      status: '待审核',
+      case_acceptance_date: new Date('2024-03-01T00:00:00.000Z'),
+      creditor: { name: 'Acme', type: 'organization', legal_id: '913100' },
+      asserted_claim_details: { nature: '货款', currency: 'CNY', principal: 1, interest: 0, total_asserted_amount: 1 },
+      attachment_content: [{ insert: '附件\n' }]
+    }]);
+
+    const context = await service.getReviewContext('c1');
+
+    expect(mockQueryWithAuth).toHaveBeenCalledWith({}, expect.stringContaining('FROM type::record($claim_id)'), { claim_id: 'claim:c1' });
+    expect(context?.case_acceptance_date).toBe('2024-03-01T00:00:00.000Z');
+    expect(context?.asserted_claim_details.attachment_content).toEqual([{ insert: '附件\n' }]);
+  });
+
+  test('submitReview 应该在一个事务中更新债权并保存核减理由到版本快照、记录状态流转', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce({
+        claim: { id: 'claim:c1', claim_number: 'CL-001', review_status_id: 'claim_review_status_definition:pending', operation_count: 2 },
+        revision: '2024-03-01T00:00:00.123456789Z',
+        review_status_id: 'claim_review_status_definition:partial',
+        reviewer_id: 'user:reviewer'
+      })
+      .mockResolvedValueOnce({ id: 'claim_operation_log:1', claim_id: 'claim:c1' });
+
+    const reductionReasons = [
+      { code: 'over_limit_interest' as const, label: '利息超过法定上限', component: 'interest' as const, reduced_amount: 10000 }
+    ];
+
+    await service.submitReview({
+      claim_id: 'claim:c1',
+      decision: '部分通过',
+      approved: { principal: 120000, interest: 20000, other: 0, nature: '货款', currency: 'CNY' },
+      asserted: { principal: 120000, interest: 30000, other: 0 },
+      review_opinion: '利息超过法定上限部分不予确认',
+      reduction_reasons: reductionReasons
+    });
+
+    expect(mockQueryWithAuth).toHaveBeenCalledTimes(2);
+    const [, query, params] = mockQueryWithAuth.mock.calls[1];
+    expect(query).toContain('BEGIN TRANSACTION');
+    expect(query).toContain('COMMIT TRANSACTION');
+    expect(query).toContain('WHERE <string> last_operation_time = $revision');
+    expect(params).toMatchObject({
+      revision: '2024-03-01T00:00:00.123456789Z',
+      review_fields: {
+        status: '部分通过',
+        review_status_id: 'claim_review_status_definition:partial',
+        reviewer_id: 'user:reviewer',
+        operation_count: 3,
+        approved_claim_details: expect.objectContaining({ total_approved_amount: 140000 })
+      },
+      operation_type: OperationType.APPROVE,
+      version_type: VersionType.APPROVAL,
+      checksum: 'checksum',
+      reduction_reasons: reductionReasons,
+      review_variance: expect.arrayContaining([
+        expect.objectContaining({ component: 'interest', delta: -10000 })
+      ]),
+      from_status: 'claim_review_status_definition:pending',
+      to_status: 'claim_review_status_definition:partial'
+    });
+    expect(mockGenerateChecksum).toHaveBeenCalledWith(expect.objectContaining({ id: 'claim:c1', status: '部分通过' }));
+    expect(mockSealOperationLog).toHaveBeenCalledWith({ id: 'claim_operation_log:1', claim_id: 'claim:c1' });
+  });
+
+  test('债权在读取后被修改时 submitReview 应该报错且不加入哈希链', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce({
+        claim: { id: 'claim:c1', claim_number: 'CL-001' },
+        revision: '2024-03-01T00:00:00.123456789Z',
+        review_status_id: 'claim_review_status_definition:rejected',
+        reviewer_id: 'user:reviewer'
+      })
+      .mockRejectedValueOnce(new Error('An error occurred: 债权已被修改，请刷新后重新审核'));
+
+    await expect(service.submitReview({
+      claim_id: 'claim:c1',
+      decision: '已驳回',
+      approved: { principal: 0, interest: 0, other: 0, nature: '货款', currency: 'CNY' },
+      asserted: { principal: 1, interest: 0, other: 0 },
+      review_opinion: '驳回',
+      reduction_reasons: []
+    })).rejects.toThrow('债权已被修改，请刷新后重新审核');
+    expect(mockSealOperationLog).not.toHaveBeenCalled();
+  });
+
+  test('债权不存在时 submitReview 应该报错', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce({ review_status_id: 'claim_review_status_definition:rejected', reviewer_id: 'user:reviewer' });
+
+    await expect(service.submitReview({
+      claim_id: 'claim:missing',
+      decision: '已驳回',
+      approved: { principal: 0, interest: 0, other: 0, nature: '货款', currency: 'CNY' },
+      asserted: { principal: 1, interest: 0, other: 0 },
+      review_opinion: '驳回',
+      reduction_reasons: []
+    })).rejects.toThrow('债权不存在');
+  });
+});
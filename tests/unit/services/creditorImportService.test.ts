@@ -0,0 +1,103 @@
+/**
+ * CreditorImportService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { CreditorImportService } from '@/src/services/creditorImportService';
+import type { CreditorImportPreviewRow } from '@/src/types/creditorImport';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {}
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+const previewRow = (rowNumber: number, overrides: Partial<CreditorImportPreviewRow> = {}): CreditorImportPreviewRow => ({
+  row_number: rowNumber,
+  raw: {},
+  record: {
+    type: 'organization',
+    name: `公司${rowNumber}`,
+    legal_id: `ID${rowNumber}`,
+    contact_person_name: '',
+    contact_phone: '',
+    contact_address: ''
+  },
+  errors: [],
+  ...overrides
+});
+
+describe('CreditorImportService', () => {
+  let service: CreditorImportService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CreditorImportService({});
+  });
+
+  test('findExistingCreditors 应按案件和证件号去重查询', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{ id: 'creditor:1', name: '公司1', legal_id: 'ID1' }] as never);
+
+    const existing = await service.findExistingCreditors('case:1', ['ID1', 'ID1', 'ID2']);
+
+    expect(existing).toHaveLength(1);
+    expect(mockQueryWithAuth).toHaveBeenCalledWith({}, expect.stringContaining('legal_id INSIDE $legal_ids'), {
+      case_id: 'case:1',
+      legal_ids: ['ID1', 'ID2']
+    });
+  });
+
+  test('importCreditors 应分批在事务中写入并按策略处理重复行', async () => {
+    mockQueryWithAuth.mockResolvedValue([] as never);
+    const progress = vi.fn();
+
+    const result = await service.importCreditors('case:1', [
+      previewRow(2),
+      previewRow(3, { existing: { id: 'creditor:9', name: '旧公司', legal_id: 'ID3' } }),
+      previewRow(4, { errors: ['名称不能为空'] }),
+      previewRow(5)
+    ], { duplicateStrategy: 'merge', batchSize: 2, onProgress: progress });
+
+    expect(mockQueryWithAuth).toHaveBeenCalledTimes(2);
+    const [, firstQuery, firstParams] = mockQueryWithAuth.mock.calls[0];
+    expect(firstQuery).toContain('BEGIN TRANSACTION');
+    expect(firstQuery).toContain('CREATE creditor CONTENT $data_0');
+    expect(firstQuery).toContain('UPDATE $id_1 MERGE $data_1');
+    expect(firstParams).toMatchObject({
+      id_1: 'creditor:9',
+      data_1: { type: 'organization', name: '公司3', legal_id: 'ID3' }
+    });
+    expect((firstParams as Record<string, Record<string, unknown>>).data_1).not.toHaveProperty('contact_phone');
+    expect(result).toMatchObject({ created: 2, merged: 1, skipped: 0, failed: 1 });
+    expect(result.rows.map(row => row.row_number)).toEqual([2, 3, 4, 5]);
+    expect(progress).toHaveBeenLastCalledWith({ processed: 3, total: 3 });
+  });
+
+  test('批次失败时应逐行重试并记录失败行', async () => {
+    mockQueryWithAuth
+      .mockRejectedValueOnce(new Error('The query was not executed due to a failed transaction'))
+      .mockResolvedValueOnce([] as never)
+      .mockRejectedValueOnce(new Error('Database index `creditor_case_legal_id_idx` already contains'));
+
+    const result = await service.importCreditors('case:1', [
+      previewRow(2),
+      previewRow(3, { existing: { id: 'creditor:9', name: '旧公司', legal_id: 'ID3' } }),
+      previewRow(4)
+    ], { duplicateStrategy: 'skip' });
+
+    expect(mockQueryWithAuth).toHaveBeenCalledTimes(3);
+    expect(result.created).toBe(1);
+    expect(result.skipped).toBe(1);
+    expect(result.rows).toEqual([
+      { row_number: 2, status: 'created' },
+      { row_number: 3, status: 'skipped', message: '与已有债权人“旧公司”重复' },
+      { row_number: 4, status: 'failed', message: 'Database index `creditor_case_legal_id_idx` already contains' }
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * DocumentCollaborationService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { RecordId } from 'surrealdb';
+import Delta from 'quill-delta';
+import { DocumentCollaborationService } from '@/src/services/documentCollaborationService';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {}
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+describe('DocumentCollaborationService', () => {
+  let service: DocumentCollaborationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new DocumentCollaborationService({});
+  });
+
+  test('加载文档时把快照之后的增量依次合并', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{ sequence: 3, content: JSON.stringify([{ insert: '通知\n' }]) }] as never)
+      .mockResolvedValueOnce([
+        { sequence: 4, client_id: 'a', ops: JSON.stringify([{ insert: '债权' }]) },
+        { sequence: 5, client_id: 'b', ops: JSON.stringify([{ retain: 4 }, { insert: '书' }]) }
+      ] as never);
+
+    const state = await service.loadDocument('document:d1');
+
+    expect(state.sequence).toBe(5);
+    expect(state.content?.ops).toEqual([{ insert: '债权通知书\n' }]);
+    const [, , params] = mockQueryWithAuth.mock.calls[1];
+    expect(params).toEqual({ document_id: new RecordId('document', 'd1'), sequence: 3 });
+  });
+
+  test('没有协作快照时返回空内容', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([] as never);
+
+    await expect(service.loadDocument('d1')).resolves.toEqual({ content: null, sequence: 0 });
+  });
+
+  test('序号已被占用时提交返回 false，其他错误继续抛出', async () => {
+    mockQueryWithAuth.mockRejectedValueOnce(
+      new Error('Database index `delta_document_sequence_idx` already contains [document:d1, 2]')
+    );
+    await expect(service.submitDelta('document:d1', 2, new Delta().insert('甲'), 'c1')).resolves.toBe(false);
+
+    mockQueryWithAuth.mockRejectedValueOnce(new Error('连接已断开'));
+    await expect(service.submitDelta('document:d1', 2, new Delta().insert('甲'), 'c1')).rejects.toThrow('连接已断开');
+
+    mockQueryWithAuth.mockResolvedValueOnce([{}] as never);
+    await expect(service.submitDelta('document:d1', 2, new Delta().insert('甲'), 'c1')).resolves.toBe(true);
+    expect(mockQueryWithAuth.mock.calls[2][2]).toMatchObject({ sequence: 2, ops: '[{"insert":"甲"}]', client_id: 'c1' });
+  });
+
+  test('快照序号不超过已有快照时跳过保存', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{ sequence: 10, content: '[]' }] as never);
+
+    await expect(service.saveSnapshot('document:d1', 10, new Delta().insert('甲'))).resolves.toBe(false);
+    expect(mockQueryWithAuth).toHaveBeenCalledTimes(1);
+  });
+
+  test('保存快照时使用下一个文档版本号', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{ sequence: 10, content: '[]' }] as never)
+      .mockResolvedValueOnce([{ version_number: 7 }] as never)
+      .mockResolvedValueOnce([{}] as never);
+
+    await expect(service.saveSnapshot('document:d1', 60, new Delta().insert('甲\n'))).resolves.toBe(true);
+
+    const [, query, params] = mockQueryWithAuth.mock.calls[2];
+    expect(query).toContain('CREATE document_version');
+    expect(params).toMatchObject({
+      version_number: 8,
+      sequence: 60,
+      content: '[{"insert":"甲\\n"}]'
+    });
+  });
+});
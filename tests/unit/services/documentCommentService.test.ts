@@ -0,0 +1,71 @@
+/**
+ * DocumentCommentService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { RecordId } from 'surrealdb';
+import { DocumentCommentService } from '@/src/services/documentCommentService';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {}
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+describe('DocumentCommentService', () => {
+  let service: DocumentCommentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new DocumentCommentService({});
+  });
+
+  test('获取批注线程时补全空回复列表', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([
+      { id: 'document_comment:c1', comment_text: '请补充合同原件', replies: [{ id: 'document_comment:r1' }] },
+      { id: 'document_comment:c2', comment_text: '金额有误' }
+    ] as never);
+
+    const threads = await service.listThreads('document:d1');
+
+    expect(threads.map(thread => thread.replies.length)).toEqual([1, 0]);
+    const [, , params] = mockQueryWithAuth.mock.calls[0];
+    expect(params).toEqual({ document_id: new RecordId('document', 'd1') });
+  });
+
+  test('保存修改建议时生成说明文字', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{}] as never);
+
+    await service.saveSuggestion({
+      id: new RecordId('document_comment', 's1'),
+      document_id: 'document:d1',
+      action: 'delete',
+      selection: { index: 4, length: 2, text: '利息' }
+    });
+
+    const [, , params] = mockQueryWithAuth.mock.calls[0];
+    expect(params).toMatchObject({
+      id: new RecordId('document_comment', 's1'),
+      document_id: new RecordId('document', 'd1'),
+      comment_text: '建议删除：利息',
+      action: 'delete'
+    });
+  });
+
+  test('修改建议已被处理时提示', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{ id: 'document_comment:s1' }] as never);
+    await expect(service.decideSuggestion('document_comment:s1', 'accepted')).resolves.toBeUndefined();
+
+    mockQueryWithAuth.mockResolvedValueOnce([] as never);
+    await expect(service.decideSuggestion('document_comment:s1', 'accepted')).rejects.toThrow('该修改建议已处理');
+
+    mockQueryWithAuth.mockRejectedValueOnce(new Error('连接已断开'));
+    await expect(service.decideSuggestion('document_comment:s1', 'rejected')).rejects.toThrow('处理修改建议失败');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * DocumentVersionService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { RecordId } from 'surrealdb';
+import Delta from 'quill-delta';
+import { DocumentVersionService, parseVersionContent } from '@/src/services/documentVersionService';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {}
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+describe('DocumentVersionService', () => {
+  let service: DocumentVersionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new DocumentVersionService({});
+  });
+
+  test('恢复历史版本时以其内容创建新版本', async () => {
+    mockQueryWithAuth
+      .mockResolvedValueOnce([{
+        id: new RecordId('document_version', 'v2'),
+        document_id: new RecordId('document', 'd1'),
+        version_number: 2,
+        version_name: '初稿',
+        content: JSON.stringify([{ insert: '债权说明\n' }])
+      }] as never)
+      .mockResolvedValueOnce([{ id: new RecordId('document_version', 'v5'), version_number: 5, content: '[]' }] as never);
+
+    const { version, content } = await service.restoreVersion('document_version:v2');
+
+    expect(content.ops).toEqual([{ insert: '债权说明\n' }]);
+    expect(version).toEqual({ id: new RecordId('document_version', 'v5'), version_number: 5 });
+    const [, , params] = mockQueryWithAuth.mock.calls[1];
+    expect(params).toMatchObject({
+      document_id: new RecordId('document', 'd1'),
+      content: JSON.stringify([{ insert: '债权说明\n' }]),
+      change_summary: '恢复至第2版（初稿）',
+      restored_from: new RecordId('document_version', 'v2')
+    });
+  });
+
+  test('版本号冲突时重试', async () => {
+    mockQueryWithAuth
+      .mockRejectedValueOnce(new Error('Database index `doc_version_idx` already contains [document:d1, 3]'))
+      .mockResolvedValueOnce([{ id: 'document_version:v4', version_number: 4 }] as never);
+
+    const version = await service.createVersion({ document_id: 'document:d1', content: new Delta().insert('甲\n') });
+
+    expect(version.version_number).toBe(4);
+    expect(mockQueryWithAuth).toHaveBeenCalledTimes(2);
+  });
+
+  test('已锁定的版本不可命名', async () => {
+    mockQueryWithAuth.mockRejectedValueOnce(new Error('An error occurred: 版本已锁定，不可修改或删除：第2版'));
+
+    await expect(service.nameVersion('document_version:v2', '提交版')).rejects.toThrow('版本已锁定，不可修改');
+  });
+
+  test('非文档所有者不可命名版本', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([]);
+
+    await expect(service.nameVersion('document_version:v2', '提交版')).rejects.toThrow('只有文档所有者可以命名版本');
+  });
+
+  test('锁定命名版本时返回锁定的版本数', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([
+      { id: 'document_version:v2', version_number: 2, version_name: '初稿' },
+      { id: 'document_version:v3', version_number: 3, version_name: '提交版' }
+    ] as never);
+
+    await expect(service.lockNamedVersions('document:d1', '债权申报提交')).resolves.toBe(2);
+  });
+
+  test('非 Delta 内容按纯文本解析', () => {
+    expect(parseVersionContent('{"ops":[{"insert":"甲\\n"}]}').ops).toEqual([{ insert: '甲\n' }]);
+    expect(parseVersionContent('纯文本').ops).toEqual([{ insert: '纯文本\n' }]);
+  });
+});
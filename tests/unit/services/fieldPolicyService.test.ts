@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RecordId } from 'surrealdb';
+import { DEFAULT_FIELD_POLICIES, fieldPolicyService } from '@/src/services/fieldPolicyService';
+import { getSchemaScripts } from '@/src/lib/tenantSchema';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const caseA = new RecordId('case', 'a');
+const caseB = new RecordId('case', 'b');
+
+const creditor = (caseId: RecordId) => ({
+  id: new RecordId('creditor', 'c1'),
+  name: '某某公司',
+  legal_id: '110101199001011234',
+  contact_phone: '13812345678',
+  contact_address: '北京市朝阳区建国路88号',
+  case_id: caseId,
+});
+
+/** 以指定角色加载当前用户 */
+async function loadRoles(globalRoles: string[], caseRoles: { case_id: RecordId; role: string }[]) {
+  await fieldPolicyService.loadRoles('user:u1', async () => [globalRoles, caseRoles]);
+}
+
+describe('FieldPolicyService', () => {
+  beforeEach(() => {
+    fieldPolicyService.clearRoles();
+  });
+
+  it('没有相关角色时隐藏债权人个人信息', async () => {
+    await loadRoles([], [{ case_id: caseA, role: 'case_member' }]);
+
+    const [result] = fieldPolicyService.applyToResult([creditor(caseA)]);
+
+    expect(result.name).toBe('某某公司');
+    expect(result).not.toHaveProperty('legal_id');
+    expect(result).not.toHaveProperty('contact_phone');
+    expect(result).not.toHaveProperty('contact_address');
+  });
+
+  it('审核人员看到脱敏后的值', async () => {
+    await loadRoles([], [{ case_id: caseA, role: 'claim_reviewer' }]);
+
+    const result = fieldPolicyService.applyToResult(creditor(caseA));
+
+    expect(result.legal_id).toBe('1101**********1234');
+    expect(result.contact_phone).toBe('138****5678');
+    expect(result.contact_address).toMatch(/^北京市朝阳区\*+/);
+  });
+
+  it('审核人员只读到数据库返回的脱敏值时放回原字段名下', async () => {
+    await loadRoles([], [{ case_id: caseA, role: 'claim_reviewer' }]);
+
+    const result = fieldPolicyService.applyToResult({
+      id: new RecordId('creditor', 'c1'),
+      name: '某某公司',
+      legal_id_masked: '1101**********1234',
+      contact_phone_masked: '138****5678',
+      case_id: caseA,
+    });
+
+    expect(result).toEqual({
+      id: new RecordId('creditor', 'c1'),
+      name: '某某公司',
+      legal_id: '1101**********1234',
+      contact_phone: '138****5678',
+      case_id: caseA,
+    });
+  });
+
+  it('可编辑的角色不显示脱敏字段', async () => {
+    await loadRoles([], [{ case_id: caseA, role: 'case_manager' }]);
+
+    const result = fieldPolicyService.applyToResult({ ...creditor(caseA), legal_id_masked: '1101**********1234' });
+
+    expect(result.legal_id).toBe('110101199001011234');
+    expect(result).not.toHaveProperty('legal_id_masked');
+  });
+
+  it('按记录所属案件中的角色判断，多个角色取最宽松的级别', async () => {
+    await loadRoles([], [
+      { case_id: caseA, role: 'claim_reviewer' },
+      { case_id: caseA, role: 'case_manager' },
+    ]);
+
+    expect(fieldPolicyService.applyToResult(creditor(caseA)).legal_id).toBe('110101199001011234');
+    expect(fieldPolicyService.applyToResult(creditor(caseB))).not.toHaveProperty('legal_id');
+  });
+
+  it('管理员不受字段策略限制', async () => {
+    await loadRoles(['admin'], []);
+
+    expect(fieldPolicyService.resolveAccess('creditor', 'legal_id', caseB)).toBe('editable');
+    expect(fieldPolicyService.applyToResult(creditor(caseB)).contact_phone).toBe('13812345678');
+  });
+
+  it('处理嵌套在其他记录中的债权人', async () => {
+    await loadRoles([], []);
+    const claim = { id: new RecordId('claim', 'x'), creditor_id: creditor(caseA) };
+
+    expect(fieldPolicyService.containsRestrictedRecords([claim])).toBe(true);
+    expect(fieldPolicyService.containsRestrictedRecords([{ id: claim.id }])).toBe(false);
+    expect(fieldPolicyService.applyToResult(claim).creditor_id).not.toHaveProperty('legal_id');
+  });
+
+  it('更新时只保留可编辑的字段', async () => {
+    await loadRoles([], [{ case_id: caseA, role: 'assistant_lawyer' }]);
+
+    const writable = fieldPolicyService.pickWritable(
+      'creditor',
+      { name: '新名称', legal_id: '1101**********1234', contact_phone: '138****5678' },
+      caseA
+    );
+
+    expect(writable).toEqual({ name: '新名称' });
+  });
+
+  it('缓存期内不重复查询角色，角色加载失败时按无角色处理', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const execute = vi.fn().mockRejectedValue(new Error('network'));
+
+    await fieldPolicyService.loadRoles('user:u1', execute);
+    await fieldPolicyService.loadRoles('user:u1', execute);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(fieldPolicyService.resolveAccess('creditor', 'legal_id', caseA)).toBe('hidden');
+  });
+});
+
+describe('数据库字段权限', () => {
+  const migration = getSchemaScripts().find(script => script.id === '0022_creditor_field_permissions');
+
+  /** 迁移中字段定义 select 权限允许的角色 */
+  const selectRoles = (field: string) => {
+    const match = migration?.content.match(
+      new RegExp(`DEFINE FIELD OVERWRITE ${field} ON creditor [^;]*?FOR select WHERE [^;]*?CONTAINSANY \\[([^\\]]*)\\]`)
+    );
+    return match ? match[1].split(',').map(role => role.trim().replace(/'/g, '')).sort() : null;
+  };
+
+  it('与前端字段策略一致', () => {
+    for (const policy of DEFAULT_FIELD_POLICIES.filter(item => item.table === 'creditor')) {
+      const rolesWith = (access: string) =>
+        Object.entries(policy.roles).filter(([, value]) => value === access).map(([role]) => role);
+
+      expect(policy.defaultAccess).toBe('hidden');
+      expect(selectRoles(policy.field)).toEqual(['admin', ...rolesWith('editable')].sort());
+      expect(selectRoles(`${policy.field}_masked`)).toEqual(rolesWith('masked').sort());
+    }
+  });
+});
+
+describe('queryWithAuth 字段级权限', () => {
+  beforeEach(() => {
+    fieldPolicyService.clearRoles();
+  });
+
+  it('返回债权人前按当前用户角色处理字段', async () => {
+    const client = {
+      query: vi.fn(async (sql: string) =>
+        sql.startsWith('return $auth;')
+          ? [{ id: new RecordId('user', 'u1') }, [creditor(caseA)]]
+          : [[], [{ case_id: caseA, role: 'claim_reviewer' }]]
+      ),
+    };
+
+    const rows = await queryWithAuth<ReturnType<typeof creditor>[]>(client as never, 'SELECT * FROM creditor');
+
+    expect(rows[0].contact_phone).toBe('138****5678');
+    expect(client.query).toHaveBeenCalledTimes(2);
+  });
+
+  it('结果不含受约束的记录时不查询角色', async () => {
+    const client = {
+      query: vi.fn(async () => [{ id: new RecordId('user', 'u1') }, [{ id: new RecordId('case', 'a') }]]),
+    };
+
+    await queryWithAuth(client as never, 'SELECT * FROM case');
+
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+import PermissionMatrixService, {
+  buildOperationMatrix,
+  diffMatrix,
+  resolveEffectivePermissions,
+  setMatrixCells,
+  type PermissionCatalog,
+} from '@/src/services/permissionMatrixService';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn(),
+}));
+
+const mockQuery = vi.mocked(queryWithAuth);
+
+const catalog: PermissionCatalog = {
+  roles: [
+    { id: 'role:case_manager', name: 'case_manager' },
+    { id: 'role:claim_reviewer', name: 'claim_reviewer' },
+  ],
+  menus: [
+    { id: 'menu_metadata:claims', menu_id: 'claims', label_key: 'nav_claims', path: '/claims', display_order: 1, is_active: true },
+    { id: 'menu_metadata:reports', menu_id: 'reports', label_key: 'nav_reports', path: '/reports', display_order: 2, is_active: false },
+  ],
+  operations: [
+    { id: 'operation_metadata:claim_review', operation_id: 'claim_review', menu_id: 'claims', operation_name: '审核债权', operation_type: 'update', is_active: true },
+    { id: 'operation_metadata:claim_delete', operation_id: 'claim_delete', menu_id: 'claims', operation_name: '删除债权', operation_type: 'delete', is_active: true },
+    { id: 'operation_metadata:report_export', operation_id: 'report_export', menu_id: 'reports', operation_name: '导出报表', operation_type: 'read', is_active: true },
+  ],
+  menuGrants: [
+    { role: 'case_manager', target: 'claims', enabled: true },
+    { role: 'case_manager', target: 'reports', enabled: true },
+    { role: 'claim_reviewer', target: 'claims', enabled: false },
+  ],
+  operationGrants: [
+    { role: 'case_manager', target: 'claim_review', enabled: true },
+    { role: 'case_manager', target: 'report_export', enabled: true },
+    { role: 'claim_reviewer', target: 'claim_review', enabled: true },
+    { role: 'claim_reviewer', target: 'claim_delete', enabled: false },
+  ],
+};
+
+describe('权限矩阵', () => {
+  it('只把已启用的授权计入矩阵', () => {
+    expect(buildOperationMatrix(catalog)).toEqual({
+      case_manager: ['claim_review', 'report_export'],
+      claim_reviewer: ['claim_review'],
+    });
+  });
+
+  it('批量设置后列出授予和撤销的变更', () => {
+    const original = buildOperationMatrix(catalog);
+    let edited = setMatrixCells(original, ['case_manager', 'claim_reviewer'], ['claim_delete'], true);
+    edited = setMatrixCells(edited, ['case_manager'], ['report_export'], false);
+
+    expect(diffMatrix(original, edited)).toEqual([
+      { role: 'case_manager', operationId: 'claim_delete', action: 'grant' },
+      { role: 'case_manager', operationId: 'report_export', action: 'revoke' },
+      { role: 'claim_reviewer', operationId: 'claim_delete', action: 'grant' },
+    ]);
+    expect(original.case_manager).toEqual(['claim_review', 'report_export']);
+  });
+
+  it('在一个事务中保存变更，授予前先删除旧关系', async () => {
+    mockQuery.mockResolvedValue([]);
+    const service = new PermissionMatrixService({});
+
+    await service.saveOperationChanges(catalog, [
+      { role: 'claim_reviewer', operationId: 'claim_delete', action: 'grant' },
+      { role: 'case_manager', operationId: 'report_export', action: 'revoke' },
+    ]);
+
+    const [, sql, vars] = mockQuery.mock.calls[0];
+    expect(sql).toContain('BEGIN TRANSACTION;');
+    expect(sql.match(/DELETE can_execute_operation/g)).toHaveLength(2);
+    expect(sql.match(/RELATE \$role_0->can_execute_operation->\$operation_0/g)).toHaveLength(1);
+    expect(sql).not.toContain('RELATE $role_1');
+    expect(vars).toEqual({
+      role_0: 'role:claim_reviewer',
+      operation_0: 'operation_metadata:claim_delete',
+      role_1: 'role:case_manager',
+      operation_1: 'operation_metadata:report_export',
+    });
+  });
+});
+
+describe('有效权限模拟', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('合并全局角色和案件角色，并说明授予来源', () => {
+    const result = resolveEffectivePermissions(catalog, [
+      { role: 'claim_reviewer', scope: 'global' },
+      { role: 'case_manager', scope: 'case' },
+    ]);
+
+    const claims = result.menus.find(menu => menu.id === 'claims')!;
+    expect(claims.granted).toBe(true);
+    expect(claims.reason).toBe('由本案角色 case_manager 授予');
+
+    const review = result.operations.find(operation => operation.id === 'claim_review')!;
+    expect(review.sources).toEqual([
+      { role: 'claim_reviewer', scope: 'global' },
+      { role: 'case_manager', scope: 'case' },
+    ]);
+  });
+
+  it('说明被拒绝的原因', () => {
+    const result = resolveEffectivePermissions(catalog, [{ role: 'claim_reviewer', scope: 'case' }]);
+
+    expect(result.menus.find(menu => menu.id === 'claims')).toMatchObject({
+      granted: false,
+      reason: '本案角色 claim_reviewer 的授权已被关闭',
+    });
+    expect(result.menus.find(menu => menu.id === 'reports')).toMatchObject({ granted: false, reason: '菜单已停用' });
+    expect(result.operations.find(operation => operation.id === 'report_export')).toMatchObject({
+      granted: false,
+      reason: '用户的角色（claim_reviewer）均未被授予',
+    });
+    expect(result.operations.find(operation => operation.id === 'claim_review')!.notes).toEqual([
+      '所属菜单 claims 不可访问，界面中无法使用该操作',
+    ]);
+  });
+
+  it('没有任何角色时全部拒绝', () => {
+    const result = resolveEffectivePermissions(catalog, []);
+
+    expect(result.menus.every(menu => !menu.granted && menu.reason === '用户没有任何角色')).toBe(true);
+  });
+
+  it('未选择案件时只查询全局角色', async () => {
+    mockQuery.mockResolvedValueOnce(['case_manager']);
+    const service = new PermissionMatrixService({});
+
+    const result = await service.simulate(catalog, 'user:zhang');
+
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(result.roles).toEqual([{ role: 'case_manager', scope: 'global' }]);
+    expect(result.operations.find(operation => operation.id === 'report_export')!.notes).toEqual([
+      '所属菜单 reports 不可访问，界面中无法使用该操作',
+    ]);
+  });
+});
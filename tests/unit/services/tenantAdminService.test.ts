@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { apiClient } from '@/src/utils/apiClient';
+import { getSchemaScripts } from '@/src/lib/tenantSchema';
+import { computeChecksum } from '@/src/lib/migrationRunner';
+import tenantAdminService from '@/src/services/tenantAdminService';
+
+vi.mock('@/src/utils/apiClient', () => ({
+  apiClient: {
+    createTenant: vi.fn(),
+    updateTenant: vi.fn(),
+    executeTenantQuery: vi.fn(),
+  },
+}));
+
+const mockExecute = vi.mocked(apiClient.executeTenantQuery);
+
+const tenant = {
+  tenant_code: 'ACME',
+  tenant_name: '某某破产管理人',
+  database_name: 'ACME',
+  admin_username: 'admin',
+  admin_password: 'secret',
+  status: 'active' as const,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+describe('tenantSchema', () => {
+  it('基础表结构排在最前，迁移按编号排序且不包含校验脚本', () => {
+    const ids = getSchemaScripts().map(script => script.id);
+
+    expect(ids[0]).toBe('0000_base_schema');
+    expect(ids).toEqual([...ids].sort());
+    expect(ids).toContain('0001_extend_group_schema');
+    expect(ids).not.toContain('validate_group_schema');
+  });
+
+  it('迁移新建的表不在基础表结构中定义，已登记 0000 的租户库才能通过迁移建表', () => {
+    const [base, ...migrations] = getSchemaScripts();
+    const created = migrations.flatMap(migration =>
+      [...migration.content.matchAll(/DEFINE TABLE IF NOT EXISTS (\w+)/g)].map(match => match[1])
+    );
+
+    expect(created).toContain('claim_objection');
+    for (const table of created) {
+      expect(base.content).not.toMatch(new RegExp(`DEFINE TABLE ${table} `));
+    }
+  });
+});
+
+describe('TenantAdminService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('开通租户时依次执行全部迁移并写入默认数据', async () => {
+    vi.mocked(apiClient.createTenant).mockResolvedValue(tenant);
+    mockExecute.mockImplementation(async (_code, query) =>
+      query.startsWith('SELECT version') ? [[]] : []
+    );
+    const steps: string[] = [];
+
+    const result = await tenantAdminService.provisionTenant(
+      { tenant_code: 'ACME', tenant_name: tenant.tenant_name, admin_username: 'admin' },
+      step => steps.push(step)
+    );
+
+    expect(result).toEqual(tenant);
+    expect(steps).toEqual(['create', 'schema', 'seed', 'done']);
+
+    const scripts = getSchemaScripts();
+    const migrationCalls = mockExecute.mock.calls.filter(([, query]) => query.startsWith('BEGIN TRANSACTION'));
+    const recorded = migrationCalls.map(([, , vars]) => (vars?.records as { version: string }[]).map(record => record.version));
+    // 被取代的早期迁移不执行，执行记录随取代它的迁移写入
+    expect(recorded.map(versions => versions[0])).toEqual(
+      scripts.filter(script => !script.supersededBy).map(script => script.id)
+    );
+    expect(recorded.flat().sort()).toEqual(scripts.map(script => script.id));
+    expect(migrationCalls[0][1]).toContain('COMMIT TRANSACTION;');
+    expect(mockExecute.mock.calls.every(([code]) => code === 'ACME')).toBe(true);
+
+    const seedQuery = mockExecute.mock.calls[mockExecute.mock.calls.length - 1][1];
+    expect(seedQuery).toContain('claim_review_status_definition');
+  });
+
+  it('只执行未执行的迁移', async () => {
+    const scripts = getSchemaScripts();
+    const checksum = await computeChecksum(scripts[0].content);
+    mockExecute.mockImplementation(async (_code, query) =>
+      query.startsWith('SELECT version')
+        ? [[{ version: scripts[0].id, description: '', checksum, applied_at: '2026-01-01T00:00:00Z' }]]
+        : []
+    );
+
+    const applied = await tenantAdminService.applyPendingMigrations('ACME');
+
+    expect(applied).toEqual(scripts.slice(1).filter(script => !script.supersededBy).map(script => script.id));
+  });
+
+  it('迁移失败时停止执行后续迁移', async () => {
+    mockExecute.mockImplementation(async (_code, query) => {
+      if (query.startsWith('SELECT version')) return [[]];
+      if (query.startsWith('BEGIN TRANSACTION')) throw new Error('Parse error');
+      return [];
+    });
+
+    await expect(tenantAdminService.applyPendingMigrations('ACME')).rejects.toThrow('执行迁移 0000_base_schema 失败');
+    expect(mockExecute.mock.calls.filter(([, query]) => query.startsWith('BEGIN TRANSACTION'))).toHaveLength(1);
+  });
+
+  it('结构版本返回当前版本与待执行的迁移', async () => {
+    const scripts = getSchemaScripts();
+    mockExecute.mockResolvedValue([
+      scripts.slice(0, 2).map(script => ({ version: script.id, description: '', applied_at: '2026-01-01T00:00:00Z' })),
+    ]);
+
+    const version = await tenantAdminService.getSchemaVersion('ACME');
+
+    expect(version.current).toBe(scripts[1].id);
+    expect(version.latest).toBe(scripts[scripts.length - 1].id);
+    expect(version.pending).toEqual(scripts.slice(2).map(script => script.id));
+  });
+
+  it('统计案件数、用户数并合计文档与附件大小', async () => {
+    mockExecute.mockResolvedValue([[{ total: 12 }], [{ total: 30 }], [{ total: 1024 }], []]);
+
+    const usage = await tenantAdminService.getTenantUsage('ACME');
+
+    expect(usage).toEqual({ cases: 12, users: 30, storage_bytes: 1024 });
+  });
+
+  it('停用和恢复租户', async () => {
+    vi.mocked(apiClient.updateTenant).mockResolvedValue({ ...tenant, status: 'suspended' });
+
+    await tenantAdminService.suspendTenant('ACME');
+    await tenantAdminService.resumeTenant('ACME');
+
+    expect(apiClient.updateTenant).toHaveBeenNthCalledWith(1, 'ACME', { status: 'suspended' });
+    expect(apiClient.updateTenant).toHaveBeenNthCalledWith(2, 'ACME', { status: 'active' });
+  });
+});
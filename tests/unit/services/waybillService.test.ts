@@ -0,0 +1,78 @@
+/**
+ * WaybillService 单元测试
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { WaybillService } from '@/src/services/waybillService';
+
+vi.mock('@/src/utils/surrealAuth', () => ({
+  queryWithAuth: vi.fn()
+}));
+
+vi.mock('@/src/contexts/SurrealProvider', () => ({
+  AuthenticationRequiredError: class AuthenticationRequiredError extends Error {}
+}));
+
+import { queryWithAuth } from '@/src/utils/surrealAuth';
+
+const mockQueryWithAuth = vi.mocked(queryWithAuth);
+
+describe('WaybillService', () => {
+  let service: WaybillService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new WaybillService({});
+  });
+
+  test('getSenderInfo 应使用案件管理人信息，缺少管理人名称时以案件名称兜底', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([{
+      name: '甲公司破产清算案',
+      case_manager_name: '王律师',
+      manager_contact_phone: '0571-88886666',
+      manager_address: '杭州市文一路1号'
+    }] as never);
+
+    const sender = await service.getSenderInfo('case:1');
+
+    expect(sender).toEqual({
+      name: '甲公司破产清算案管理人',
+      contact_person: '王律师',
+      phone: '0571-88886666',
+      address: '杭州市文一路1号'
+    });
+  });
+
+  test('recordMailings 应在一个事务中写入寄送记录并更新债权人投递状态', async () => {
+    mockQueryWithAuth.mockResolvedValueOnce([] as never);
+    const sentAt = new Date('2026-10-18T08:00:00Z');
+
+    await service.recordMailings('case:1', 'SF', '债权申报通知书', [
+      { creditor_id: 'creditor:a', recipient_name: '甲', contact_person: '', phone: '', address: '地址1', tracking_number: 'SF1234567890123' },
+      { creditor_id: 'creditor:b', recipient_name: '乙', contact_person: '', phone: '', address: '地址2', tracking_number: 'SF1234567890124' }
+    ], sentAt);
+
+    const [, query, params] = mockQueryWithAuth.mock.calls[0];
+    expect(query).toContain('BEGIN TRANSACTION');
+    expect(query.match(/CREATE creditor_mailing_record/g)).toHaveLength(2);
+    expect(query).toContain("UPDATE $creditor_1 SET delivery_status = 'printed'");
+    expect(params).toMatchObject({
+      case_id: 'case:1',
+      courier: 'SF',
+      document_name: '债权申报通知书',
+      sent_at: sentAt,
+      creditor_1: 'creditor:b',
+      tracking_1: 'SF1234567890124'
+    });
+  });
+
+  test('运单号重复时应返回明确的错误信息', async () => {
+    mockQueryWithAuth.mockRejectedValueOnce(
+      new Error("Database index `creditor_mailing_record_tracking_idx` already contains ['SF', 'SF1234567890123']")
+    );
+
+    await expect(service.recordMailings('case:1', 'SF', '通知', [
+      { creditor_id: 'creditor:a', recipient_name: '甲', contact_person: '', phone: '', address: '地址', tracking_number: 'SF1234567890123' }
+    ])).rejects.toThrow('运单号已被使用，请检查后重试');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { buildClaimDraft, canApplyToClaim, evidenceToHighlightRegions } from '@/src/utils/claimPrefill';
+import type { ParsedField, ParseResult } from '@/src/types/pdfParser';
+
+const now = new Date('2026-03-02T10:30:00');
+
+const field = (name: string, displayName: string, value: unknown, dataType: ParsedField['dataType'], pageNumber = 1, overrides: Partial<ParsedField> = {}): ParsedField => ({
+  name,
+  displayName,
+  value,
+  confidence: 0.95,
+  sourceText: `${displayName}：${String(value)}`,
+  pageNumber,
+  position: { x: 100, y: 80 + pageNumber * 10, width: 120, height: 12 },
+  isModified: false,
+  dataType,
+  ...overrides,
+});
+
+const parseResult = (fields: ParsedField[]): ParseResult => ({
+  id: 'local-f1',
+  fileId: 'f1',
+  fileName: '借款合同.pdf',
+  status: 'completed',
+  fields,
+  confidence: 0.9,
+  totalPages: 2,
+  highlightRegions: [],
+  createdAt: now,
+  updatedAt: now,
+});
+
+const contractFields = [
+  field('contract_number', '合同编号', 'JK-2024-0018', 'text'),
+  field('creditor_name', '债权人', '中国工商银行股份有限公司北京朝阳支行', 'text'),
+  field('creditor_credit_code', '债权人统一社会信用代码', '91110105MA01ABCD2X', 'text'),
+  field('principal_amount', '本金金额', 1000000, 'currency', 1, { sourceText: '借款金额：人民币壹佰万元整' }),
+  field('interest_rate', '年利率', 0.0435, 'percentage'),
+  field('start_date', '借款起始日', '2024-01-15', 'date'),
+  field('maturity_date', '到期日', '2025-01-14', 'date', 2, { confidence: 0.7 }),
+];
+
+describe('由合同解析结果生成债权申报', () => {
+  it('映射本金、按约定利率计算截至受理日的利息并记录来源', () => {
+    const draft = buildClaimDraft(parseResult(contractFields), { acceptanceDate: '2025-01-15', asOf: now });
+
+    expect(draft.creditor).toEqual({
+      name: '中国工商银行股份有限公司北京朝阳支行',
+      legal_id: '91110105MA01ABCD2X',
+      type: 'organization',
+    });
+    // 2024-01-15 至受理日 2025-01-15 共 366 天，按实际天数/365 计息
+    expect(draft.asserted_claim_details).toMatchObject({
+      nature: 'ordinary',
+      principal: 1000000,
+      interest: 43619.18,
+      other_amount: 0,
+      total_asserted_amount: 1043619.18,
+      currency: 'CNY',
+      interest_terms: {
+        interest_start_date: '2024-01-15',
+        rate_source: 'fixed',
+        interest_rate: 4.35,
+        rate_type: 'annual',
+        contract_number: 'JK-2024-0018',
+      },
+    });
+    expect(draft.asserted_claim_details.brief_description).toBe(
+      '依据合同（编号：JK-2024-0018）申报，借款期限 2024-01-15 至 2025-01-14，约定年利率 4.35%'
+    );
+    expect(draft.evidence.map(item => [item.claim_field, item.source_field, item.page_number])).toEqual([
+      ['creditor_name', 'creditor_name', 1],
+      ['creditor_legal_id', 'creditor_credit_code', 1],
+      ['principal', 'principal_amount', 1],
+      ['total_asserted_amount', 'principal_amount', 1],
+      ['interest', 'interest_rate', 1],
+      ['interest', 'start_date', 1],
+      ['brief_description', 'contract_number', 1],
+    ]);
+    // 到期日未作为取值来源，不因置信度低提示
+    expect(draft.warnings).toEqual([]);
+  });
+
+  it('缺少利率、受理日或信用代码时给出提示', () => {
+    const withoutRate = buildClaimDraft(
+      parseResult(contractFields.filter(item => !['interest_rate', 'creditor_credit_code'].includes(item.name))),
+      { asOf: now }
+    );
+    expect(withoutRate.asserted_claim_details.interest).toBe(0);
+    expect(withoutRate.asserted_claim_details.interest_terms).toBeUndefined();
+    expect(withoutRate.warnings).toEqual([
+      '合同中未识别到利率或起息日，利息需手工填写',
+      '未识别到债权人统一社会信用代码，新建债权人时需手工填写',
+    ]);
+
+    const usd = buildClaimDraft(
+      parseResult(contractFields.map(item => item.name === 'principal_amount'
+        ? { ...item, value: 50000, sourceText: '借款金额：美元50,000元', confidence: 0.6 }
+        : item)),
+      { asOf: now }
+    );
+    expect(usd.asserted_claim_details.currency).toBe('USD');
+    expect(usd.warnings).toContain('案件未登记受理日期，利息暂计算至今日，请在受理后核对');
+    expect(usd.warnings).toContain('“本金金额”识别置信度较低，请对照原文核对');
+  });
+
+  it('仅识别到本金的完成结果可生成申报，来源转换为高亮区域', () => {
+    expect(canApplyToClaim(parseResult(contractFields))).toBe(true);
+    expect(canApplyToClaim(parseResult(contractFields.filter(item => item.name !== 'principal_amount')))).toBe(false);
+    expect(canApplyToClaim({ ...parseResult(contractFields), status: 'failed' })).toBe(false);
+
+    const { evidence } = buildClaimDraft(parseResult(contractFields), { acceptanceDate: '2025-01-15', asOf: now });
+    expect(evidenceToHighlightRegions(evidence).map(region => region.id)).toEqual([
+      'creditor_name-1',
+      'creditor_credit_code-1',
+      'principal_amount-1',
+      'interest_rate-1',
+      'start_date-1',
+      'contract_number-1',
+    ]);
+    expect(evidenceToHighlightRegions(evidence, 'interest')).toMatchObject([
+      { id: 'interest_rate-1', pageNumber: 1, x: 100, y: 90, width: 120, height: 12, fieldName: '年利率' },
+      { id: 'start_date-1', fieldName: '借款起始日' },
+    ]);
+  });
+});
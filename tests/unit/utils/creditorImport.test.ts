@@ -0,0 +1,102 @@
+/**
+ * 债权人批量导入工具单元测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildImportErrorReport,
+  buildImportPreview,
+  getUnmappedRequiredFields,
+  guessColumnMapping,
+  isValidPhoneNumber,
+  isValidResidentIdNumber,
+  isValidUnifiedSocialCreditCode
+} from '@/src/utils/creditorImport';
+
+describe('creditorImport', () => {
+  test('应该校验统一社会信用代码校验位', () => {
+    expect(isValidUnifiedSocialCreditCode('91330100MA2EXAMPLJ')).toBe(true);
+    expect(isValidUnifiedSocialCreditCode('91330100MA2EXAMPL1')).toBe(false);
+    expect(isValidUnifiedSocialCreditCode('91330100MA2EXAMPI1')).toBe(false); // 含非法字符 I
+  });
+
+  test('应该校验身份证号校验位和出生日期', () => {
+    expect(isValidResidentIdNumber('33010619900101123X')).toBe(true);
+    expect(isValidResidentIdNumber('330106199001011231')).toBe(false);
+    expect(isValidResidentIdNumber('330106199002301230')).toBe(false); // 2月30日
+    expect(isValidResidentIdNumber('330106900101123')).toBe(true); // 15位旧号码
+  });
+
+  test('应该校验手机号和固定电话', () => {
+    expect(isValidPhoneNumber('13800138000')).toBe(true);
+    expect(isValidPhoneNumber('+86 138 0013 8000')).toBe(true);
+    expect(isValidPhoneNumber('0571-88886666')).toBe(true);
+    expect(isValidPhoneNumber('010-12345678-123')).toBe(true);
+    expect(isValidPhoneNumber('12345')).toBe(false);
+  });
+
+  test('应该按表头别名自动识别列映射', () => {
+    const mapping = guessColumnMapping(['债权人名称', '统一社会信用代码 ', '联系人', '手机号', '备注']);
+
+    expect(mapping).toEqual({
+      name: '债权人名称',
+      legal_id: '统一社会信用代码 ',
+      contact_person_name: '联系人',
+      contact_phone: '手机号'
+    });
+    expect(getUnmappedRequiredFields(mapping)).toEqual([]);
+    expect(getUnmappedRequiredFields({ name: '名称' })).toEqual(['统一社会信用代码/身份证号']);
+  });
+
+  test('预览应标记校验错误、文件内重复和已有债权人', () => {
+    const file = {
+      headers: ['类别', '名称', '证件号'],
+      rows: [
+        { '类别': '组织', '名称': '甲公司', '证件号': '91330100ma2examplj' },
+        { '类别': '个人', '名称': '李四', '证件号': '330106199001011231' },
+        { '类别': '组织', '名称': '甲公司分部', '证件号': '91330100MA2EXAMPLJ' },
+        { '类别': '合伙', '名称': '', '证件号': '' }
+      ]
+    };
+    const rows = buildImportPreview(
+      file,
+      { type: '类别', name: '名称', legal_id: '证件号' },
+      [{ id: 'creditor:1', name: '甲公司', legal_id: '91330100MA2EXAMPLJ' }]
+    );
+
+    expect(rows.map(row => row.row_number)).toEqual([2, 3, 4, 5]);
+    expect(rows[0]).toMatchObject({
+      errors: [],
+      record: { type: 'organization', legal_id: '91330100MA2EXAMPLJ' },
+      existing: { id: 'creditor:1' }
+    });
+    expect(rows[1].errors).toEqual(['身份证号校验不通过']);
+    expect(rows[2].errors).toEqual(['与第2行证件号重复']);
+    expect(rows[3].errors).toEqual(['名称不能为空', '类别“合伙”无效，应为“组织”或“个人”', '证件号不能为空']);
+  });
+
+  test('错误报告应包含校验失败和导入失败的行', async () => {
+    const file = {
+      headers: ['名称', '证件号'],
+      rows: [
+        { '名称': '甲公司', '证件号': '91330100MA2EXAMPLJ' },
+        { '名称': '', '证件号': '91330100MA2EXAMPLJ' }
+      ]
+    };
+    const rows = buildImportPreview(file, { name: '名称', legal_id: '证件号' });
+    const blob = buildImportErrorReport(file.headers, rows, [
+      { row_number: 2, status: 'failed', message: '数据库写入失败' }
+    ]);
+    const text = await new Promise<string>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+
+    expect(text.replace(/^\uFEFF/, '').split('\r\n')).toEqual([
+      '行号,名称,证件号,错误原因',
+      '2,甲公司,91330100MA2EXAMPLJ,数据库写入失败',
+      '3,,91330100MA2EXAMPLJ,名称不能为空；与第2行证件号重复'
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * 协作编辑增量同步单元测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import Delta from 'quill-delta';
+import { DeltaSyncClient } from '@/src/utils/deltaSync';
+import type { RemoteDelta } from '@/src/utils/deltaSync';
+
+// 模拟服务端：序号唯一，实时推送需要手动投递以模拟网络延迟
+class FakeServer {
+  log: RemoteDelta[] = [];
+  outbox: RemoteDelta[] = [];
+
+  submit(clientId: string, sequence: number, delta: Delta): boolean {
+    if (sequence !== this.log.length + 1) {
+      return false;
+    }
+    const record = { sequence, client_id: clientId, ops: delta.ops };
+    this.log.push(record);
+    this.outbox.push(record);
+    return true;
+  }
+
+  fetchSince(sequence: number): RemoteDelta[] {
+    return this.log.filter(record => record.sequence > sequence);
+  }
+}
+
+const createPeer = (server: FakeServer, clientId: string, initial: Delta) => {
+  const peer = { doc: initial, client: null as unknown as DeltaSyncClient };
+  peer.client = new DeltaSyncClient(
+    clientId,
+    0,
+    {
+      submit: async (sequence, delta) => server.submit(clientId, sequence, delta),
+      fetchSince: async sequence => server.fetchSince(sequence)
+    },
+    {
+      applyRemote: delta => {
+        peer.doc = peer.doc.compose(delta);
+      }
+    }
+  );
+  return {
+    ...peer,
+    get doc() {
+      return peer.doc;
+    },
+    edit(delta: Delta) {
+      peer.doc = peer.doc.compose(delta);
+      peer.client.applyLocal(delta);
+    }
+  };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const deliverAll = async (server: FakeServer, peers: Array<ReturnType<typeof createPeer>>) => {
+  while (server.outbox.length > 0) {
+    const record = server.outbox.shift()!;
+    peers.forEach(peer => peer.client.receive(record));
+    await settle();
+  }
+};
+
+const textOf = (delta: Delta) =>
+  delta.ops.map(op => (typeof op.insert === 'string' ? op.insert : '')).join('');
+
+describe('DeltaSyncClient', () => {
+  test('两个协作者同时在同一位置插入后内容一致', async () => {
+    const server = new FakeServer();
+    const initial = new Delta().insert('债权申报\n');
+    const alice = createPeer(server, 'a', initial);
+    const bob = createPeer(server, 'b', initial);
+
+    alice.edit(new Delta().retain(4).insert('书'));
+    bob.edit(new Delta().retain(4).insert('表'));
+    await settle();
+
+    // bob 的序号被占用，补齐 alice 的增量后重新提交
+    expect(server.log.map(record => record.client_id)).toEqual(['a', 'b']);
+
+    await deliverAll(server, [alice, bob]);
+    expect(textOf(alice.doc)).toBe(textOf(bob.doc));
+    expect(textOf(alice.doc)).toBe('债权申报书表\n');
+    expect(alice.client.isSynchronized()).toBe(true);
+    expect(bob.client.getRevision()).toBe(2);
+  });
+
+  test('待确认期间的连续编辑合并为一次提交', async () => {
+    const server = new FakeServer();
+    const submit = vi.fn(async (sequence: number, delta: Delta) => server.submit('a', sequence, delta));
+    const client = new DeltaSyncClient('a', 0, { submit, fetchSince: async () => [] }, { applyRemote: vi.fn() });
+
+    client.applyLocal(new Delta().insert('甲'));
+    client.applyLocal(new Delta().retain(1).insert('乙'));
+    client.applyLocal(new Delta().retain(2).insert('丙'));
+    await settle();
+
+    expect(submit).toHaveBeenCalledTimes(2);
+    expect(submit.mock.calls[1][1].ops).toEqual([{ retain: 1 }, { insert: '乙丙' }]);
+    expect(client.getRevision()).toBe(2);
+  });
+
+  test('收到自己增量的回显视为确认，重复推送被忽略', async () => {
+    const applyRemote = vi.fn();
+    const client = new DeltaSyncClient(
+      'a',
+      0,
+      { submit: () => new Promise<boolean>(() => {}), fetchSince: async () => [] },
+      { applyRemote }
+    );
+
+    client.applyLocal(new Delta().insert('甲'));
+    client.receive({ sequence: 1, client_id: 'a', ops: [{ insert: '甲' }] });
+    client.receive({ sequence: 1, client_id: 'a', ops: [{ insert: '甲' }] });
+
+    expect(client.getRevision()).toBe(1);
+    expect(client.isSynchronized()).toBe(true);
+    expect(applyRemote).not.toHaveBeenCalled();
+  });
+
+  test('序号出现缺口时先补齐缺失的增量', async () => {
+    const server = new FakeServer();
+    server.submit('b', 1, new Delta().insert('甲'));
+    server.submit('b', 2, new Delta().retain(1).insert('乙'));
+    const peer = createPeer(server, 'a', new Delta());
+
+    peer.client.receive(server.log[1]);
+    await settle();
+
+    expect(textOf(peer.doc)).toBe('甲乙');
+    expect(peer.client.getRevision()).toBe(2);
+  });
+
+  test('断线期间的本地修改在重连补齐后重新提交', async () => {
+    const server = new FakeServer();
+    let online = false;
+    const client = new DeltaSyncClient(
+      'a',
+      0,
+      {
+        submit: async (sequence, delta) => {
+          if (!online) throw new Error('连接已断开');
+          return server.submit('a', sequence, delta);
+        },
+        fetchSince: async sequence => server.fetchSince(sequence)
+      },
+      { applyRemote: vi.fn(), onError: vi.fn() }
+    );
+
+    client.applyLocal(new Delta().insert('甲'));
+    await settle();
+    expect(server.log).toHaveLength(0);
+
+    server.submit('b', 1, new Delta().insert('乙'));
+    online = true;
+    await client.catchUp();
+    await settle();
+
+    expect(server.log.map(record => record.client_id)).toEqual(['b', 'a']);
+    expect(client.getRevision()).toBe(2);
+    expect(client.isSynchronized()).toBe(true);
+  });
+});
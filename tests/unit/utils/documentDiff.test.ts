@@ -0,0 +1,60 @@
+/**
+ * 文档版本对比单元测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import Delta from 'quill-delta';
+import { diffDocuments, splitDiffLines, summarizeDiff } from '@/src/utils/documentDiff';
+
+describe('diffDocuments', () => {
+  test('标记插入和删除的文字，未变化的内容保持原样', () => {
+    const from = new Delta().insert('借款本金十万元，已还款\n');
+    const to = new Delta().insert('借款本金二十万元整\n');
+
+    const segments = diffDocuments(from, to);
+
+    expect(segments).toEqual([
+      { change: 'equal', insert: '借款本金' },
+      { change: 'insert', insert: '二' },
+      { change: 'equal', insert: '十万元' },
+      { change: 'insert', insert: '整' },
+      { change: 'delete', insert: '，已还款' },
+      { change: 'equal', insert: '\n' }
+    ]);
+    expect(summarizeDiff(segments)).toEqual({ inserted: 2, deleted: 4, formatted: 0 });
+  });
+
+  test('图片等嵌入内容整体比较', () => {
+    const from = new Delta().insert('合同').insert({ image: 'https://example.com/a.png' }).insert('\n');
+    const to = new Delta().insert('合同').insert({ image: 'https://example.com/b.png' }).insert('\n');
+
+    const segments = diffDocuments(from, to);
+
+    expect(segments).toContainEqual({ change: 'delete', insert: { image: 'https://example.com/a.png' } });
+    expect(segments).toContainEqual({ change: 'insert', insert: { image: 'https://example.com/b.png' } });
+  });
+
+  test('格式变化合并新旧格式', () => {
+    const from = new Delta().insert('逾期利息', { italic: true }).insert('\n');
+    const to = new Delta().insert('逾期利息', { italic: true, bold: true }).insert('\n');
+
+    expect(diffDocuments(from, to)[0]).toEqual({
+      change: 'format',
+      insert: '逾期利息',
+      attributes: { italic: true, bold: true }
+    });
+  });
+});
+
+describe('splitDiffLines', () => {
+  test('按换行拆分并使用行尾换行符的行格式', () => {
+    const from = new Delta().insert('债权说明').insert('\n', { header: 1 }).insert('第一项\n');
+    const to = new Delta().insert('债权说明').insert('\n', { header: 1 }).insert('第一项\n第二项\n');
+
+    const lines = splitDiffLines(diffDocuments(from, to));
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0].attributes).toEqual({ header: 1 });
+    expect(lines[2]).toEqual({ segments: [{ change: 'insert', insert: '第二项' }], attributes: undefined, change: 'insert' });
+  });
+});
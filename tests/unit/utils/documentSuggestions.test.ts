@@ -0,0 +1,154 @@
+/**
+ * 文档批注锚点与修改建议单元测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import Delta from 'quill-delta';
+import { RecordId } from 'surrealdb';
+import {
+  COMMENT_THREAD_FORMAT,
+  SUGGEST_DELETE_FORMAT,
+  SUGGEST_INSERT_FORMAT,
+  buildSuggestionResolution,
+  findFormatRanges,
+  getCommentKey,
+  locateAnchor,
+  trackSuggestionChange
+} from '@/src/utils/documentSuggestions';
+
+// 模拟编辑器：先应用用户修改，再应用修正增量
+const applySuggestion = (contents: Delta, change: Delta, ownIds: Set<string>, backward = false) => {
+  let next = 0;
+  const result = trackSuggestionChange(change, contents, {
+    ownIds,
+    createId: () => `s${++next}`,
+    backward
+  });
+  return { ...result, contents: contents.compose(change).compose(result.fixup) };
+};
+
+describe('trackSuggestionChange', () => {
+  test('插入的文字标记为建议插入', () => {
+    const contents = new Delta().insert('债权金额\n');
+    const { contents: next, touched, cursor } = applySuggestion(
+      contents,
+      new Delta().retain(2).insert('本金'),
+      new Set()
+    );
+
+    expect(next.ops).toEqual([
+      { insert: '债权' },
+      { insert: '本金', attributes: { [SUGGEST_INSERT_FORMAT]: 's1' } },
+      { insert: '金额\n' }
+    ]);
+    expect(touched).toEqual([{ id: 's1', action: 'insert' }]);
+    expect(cursor).toBe(4);
+  });
+
+  test('连续输入沿用自己的同一条建议', () => {
+    const contents = new Delta()
+      .insert('债权')
+      .insert('本', { [SUGGEST_INSERT_FORMAT]: 'mine' })
+      .insert('金额\n');
+    const { contents: next, touched } = applySuggestion(contents, new Delta().retain(3).insert('金'), new Set(['mine']));
+
+    expect(findFormatRanges(next, SUGGEST_INSERT_FORMAT).get('mine')).toEqual({ index: 2, length: 2, text: '本金' });
+    expect(touched).toEqual([{ id: 'mine', action: 'insert' }]);
+  });
+
+  test('删除的文字被恢复并标记为建议删除，退格时光标停在删除文字之前', () => {
+    const contents = new Delta().insert('应付利息\n');
+    const { contents: next, touched, cursor } = applySuggestion(
+      contents,
+      new Delta().retain(2).delete(2),
+      new Set(),
+      true
+    );
+
+    expect(next.ops).toEqual([
+      { insert: '应付' },
+      { insert: '利息', attributes: { [SUGGEST_DELETE_FORMAT]: 's1' } },
+      { insert: '\n' }
+    ]);
+    expect(touched).toEqual([{ id: 's1', action: 'delete' }]);
+    expect(cursor).toBe(2);
+  });
+
+  test('删除自己建议插入的文字时直接删除', () => {
+    const contents = new Delta()
+      .insert('债权')
+      .insert('本金', { [SUGGEST_INSERT_FORMAT]: 'mine' })
+      .insert('\n');
+    const { contents: next, fixup, touched } = applySuggestion(contents, new Delta().retain(2).delete(2), new Set(['mine']));
+
+    expect(fixup.ops).toEqual([]);
+    expect(next.ops).toEqual([{ insert: '债权\n' }]);
+    expect(touched).toEqual([{ id: 'mine', action: 'insert' }]);
+  });
+
+  test('他人的建议插入被删除时标记为建议删除', () => {
+    const contents = new Delta()
+      .insert('债权')
+      .insert('本金', { [SUGGEST_INSERT_FORMAT]: 'other' })
+      .insert('\n');
+    const { contents: next } = applySuggestion(contents, new Delta().retain(2).delete(2), new Set());
+
+    expect(next.ops[1]).toEqual({
+      insert: '本金',
+      attributes: { [SUGGEST_INSERT_FORMAT]: 'other', [SUGGEST_DELETE_FORMAT]: 's1' }
+    });
+  });
+});
+
+describe('批注锚点', () => {
+  test('同一批注的多段范围合并', () => {
+    const contents = new Delta()
+      .insert('甲方', { [COMMENT_THREAD_FORMAT]: 'c1' })
+      .insert('应于', { [COMMENT_THREAD_FORMAT]: 'c1', bold: true })
+      .insert('三日内')
+      .insert('付款', { [COMMENT_THREAD_FORMAT]: 'c1' })
+      .insert('\n');
+
+    expect(findFormatRanges(contents, COMMENT_THREAD_FORMAT).get('c1')).toEqual({
+      index: 0,
+      length: 9,
+      text: '甲方应于 … 付款'
+    });
+  });
+
+  test('按原文查找最接近原位置的匹配', () => {
+    const contents = new Delta().insert('利息 本金 利息 本金\n');
+
+    expect(locateAnchor(contents, { index: 7, length: 2, text: '利息' })).toEqual({ index: 6, length: 2 });
+    expect(locateAnchor(contents, { index: 0, length: 2, text: '违约金' })).toBeNull();
+  });
+
+  test('批注记录ID转换为正文标记的键', () => {
+    expect(getCommentKey(new RecordId('document_comment', 'abc'))).toBe('abc');
+    expect(getCommentKey('document_comment:⟨4f1c-9a⟩')).toBe('4f1c-9a');
+  });
+});
+
+describe('buildSuggestionResolution', () => {
+  const contents = new Delta()
+    .insert('债权')
+    .insert('本金', { [SUGGEST_INSERT_FORMAT]: 's1' })
+    .insert('利息', { [SUGGEST_DELETE_FORMAT]: 's2' })
+    .insert('\n');
+
+  test('采纳：保留插入、移除删除', () => {
+    const accepted = contents
+      .compose(buildSuggestionResolution(contents, 's1', true))
+      .compose(buildSuggestionResolution(contents, 's2', true));
+
+    expect(accepted.ops).toEqual([{ insert: '债权本金\n' }]);
+  });
+
+  test('拒绝：移除插入、保留删除', () => {
+    const rejected = contents
+      .compose(buildSuggestionResolution(contents, 's2', false))
+      .compose(buildSuggestionResolution(contents, 's1', false));
+
+    expect(rejected.ops).toEqual([{ insert: '债权利息\n' }]);
+  });
+});
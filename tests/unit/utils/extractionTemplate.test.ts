@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileTemplate,
+  evaluateTemplate,
+  mergeRecognitionProfiles,
+  validateTemplate,
+} from '@/src/utils/extractionTemplate';
+import {
+  DEFAULT_RECOGNITION_PROFILES,
+  extractRegionText,
+  recognizeDocument,
+  validateFieldValue,
+  type PdfTextItem,
+  type PdfTextPage,
+} from '@/src/utils/pdfFieldRecognition';
+import type { ExtractionTemplate } from '@/src/types/extractionTemplate';
+
+const now = new Date('2026-03-02T10:30:00');
+const FONT = 12;
+
+// 按行构造文字块，每个字符宽度等于字号
+const page = (pageNumber: number, rows: (string | string[])[]): PdfTextPage => ({
+  pageNumber,
+  width: 595,
+  height: 842,
+  items: rows.flatMap((row, index): PdfTextItem[] => {
+    let x = 50;
+    return (Array.isArray(row) ? row : [row]).map(text => {
+      const item = { text, x, y: 80 + index * 24, width: Array.from(text).length * FONT, height: FONT };
+      x += item.width + FONT * 3;
+      return item;
+    });
+  }),
+});
+
+// 合同编号位于第 4 行右侧，没有可用的锚点文字
+const CONTRACT_NUMBER_REGION = { pageNumber: 1, x: 130, y: 148, width: 140, height: 20 };
+
+const template = (overrides: Partial<ExtractionTemplate> = {}): ExtractionTemplate => ({
+  id: 'guarantee_v1',
+  document_type: 'guarantee_contract',
+  name: '保证合同',
+  description: '',
+  version: 1,
+  status: 'draft',
+  keywords: ['保证合同', '保证人'],
+  fields: [
+    { name: 'guarantor', display_name: '保证人', data_type: 'text', anchors: ['保证人'], validation: {} },
+    {
+      name: 'guarantee_amount',
+      display_name: '担保金额',
+      data_type: 'currency',
+      anchors: ['担保金额'],
+      validation: { min: 1, max: 10000000 },
+    },
+    {
+      name: 'contract_number',
+      display_name: '合同编号',
+      data_type: 'text',
+      anchors: [],
+      region: CONTRACT_NUMBER_REGION,
+      validation: { required: true, pattern: 'BZ-\\d{4}-\\d{3}' },
+    },
+  ],
+  ...overrides,
+});
+
+const guaranteeContract = page(1, [
+  '保证合同',
+  '保证人：北京安信融资担保有限公司',
+  '担保金额：人民币500,000元',
+  ['合同编号', 'BZ-2024-001'],
+]);
+
+describe('字段提取模板', () => {
+  it('按区域取值，区域外的文字不计入', () => {
+    expect(extractRegionText([guaranteeContract], CONTRACT_NUMBER_REGION)).toBe('BZ-2024-001');
+
+    const profile = compileTemplate(template());
+    expect(profile).toMatchObject({ type: 'guarantee_contract', name: '保证合同', keywords: ['保证合同', '保证人'] });
+    expect(profile.fields[2]).toMatchObject({ name: 'contract_number', displayName: '合同编号', region: CONTRACT_NUMBER_REGION });
+
+    const result = recognizeDocument([guaranteeContract], { fileId: 'f1', fileName: 'sample.pdf', profiles: [profile], now });
+    expect(result.fields.map(field => [field.name, field.value, field.confidence])).toEqual([
+      ['guarantor', '北京安信融资担保有限公司', 0.95],
+      ['guarantee_amount', 500000, 0.95],
+      ['contract_number', 'BZ-2024-001', 0.95],
+    ]);
+    expect(result.fields[2].position).toEqual({ x: 134, y: 152, width: 132, height: FONT });
+  });
+
+  it('取值未通过校验时降低置信度', () => {
+    expect(validateFieldValue(null, 'text', { required: true })).toBe('未识别到取值');
+    expect(validateFieldValue('BZ-24-1', 'text', { pattern: 'BZ-\\d{4}-\\d{3}' })).toBe('取值格式不符');
+    expect(validateFieldValue(500000, 'currency', { max: 100000 })).toBe('取值大于 100000');
+    expect(validateFieldValue(500000, 'currency', { min: 1, max: 1000000 })).toBeNull();
+
+    const strict = template();
+    strict.fields[1] = { ...strict.fields[1], validation: { max: 100000 } };
+    const result = recognizeDocument([guaranteeContract], {
+      fileId: 'f1',
+      fileName: 'sample.pdf',
+      profiles: [compileTemplate(strict)],
+      now,
+    });
+    const amount = result.fields.find(field => field.name === 'guarantee_amount');
+    expect(amount).toMatchObject({ value: 500000, confidence: 0.5 });
+    expect(result.highlightRegions.find(region => region.fieldName === 'guarantee_amount')?.color).toBe('#f44336');
+  });
+
+  it('用标注样本统计各字段的识别率和准确率', () => {
+    const report = evaluateTemplate(template(), [
+      {
+        file_name: 'a.pdf',
+        pages: [guaranteeContract],
+        expected: { guarantor: '北京安信融资担保有限公司', guarantee_amount: '50万元', contract_number: 'BZ-2024-001' },
+      },
+      {
+        // 版式不同，合同编号不在设计时框选的区域内
+        file_name: 'b.pdf',
+        pages: [page(1, [
+          '保证合同',
+          '保证人：上海德信担保有限公司',
+          '担保金额：人民币800,000元',
+          '其他约定',
+          ['合同编号', 'BZ-2024-002'],
+        ])],
+        expected: { guarantee_amount: 800000, contract_number: 'BZ-2024-002' },
+      },
+      { file_name: 'scan.pdf', pages: [page(1, [])] },
+    ], now);
+
+    expect(report.sample_count).toBe(3);
+    expect(report.fields).toEqual([
+      { name: 'guarantor', display_name: '保证人', recognized: 2, invalid: 0, labeled: 1, correct: 1, accuracy: 1 },
+      { name: 'guarantee_amount', display_name: '担保金额', recognized: 2, invalid: 0, labeled: 2, correct: 2, accuracy: 1 },
+      { name: 'contract_number', display_name: '合同编号', recognized: 1, invalid: 2, labeled: 2, correct: 1, accuracy: 0.5 },
+    ]);
+    expect(report.overall_accuracy).toBe(0.8);
+    expect(report.samples[1].values.contract_number).toEqual({
+      value: null,
+      expected: 'BZ-2024-002',
+      correct: false,
+      validation_error: '未识别到取值',
+    });
+    expect(report.samples[2].error).toBe('未提取到文字，可能是扫描件，请先进行文字识别（OCR）');
+  });
+
+  it('校验模板配置，发布后替换同类型的内置规则', () => {
+    const invalid = template({
+      document_type: 'Guarantee',
+      keywords: [],
+      fields: [
+        { name: 'amount', display_name: '金额', data_type: 'currency', anchors: [], validation: { min: 10, max: 1 } },
+        { name: 'amount', display_name: '金额', data_type: 'currency', anchors: ['金额'], pattern: '([', validation: {} },
+      ],
+    });
+    expect(validateTemplate(invalid)).toEqual([
+      '文书类型标识须以小写字母开头，只包含小写字母、数字和下划线',
+      '请至少填写一个用于判断文书类型的关键词',
+      '字段“金额”需要绘制取值区域或设置锚点',
+      '字段“金额”的最小值不能大于最大值',
+      '字段名 amount 重复',
+      '字段“金额”的取值正则无效',
+    ]);
+    expect(validateTemplate(template())).toEqual([]);
+
+    const merged = mergeRecognitionProfiles(DEFAULT_RECOGNITION_PROFILES, [
+      compileTemplate(template({ document_type: 'creditor_contract', name: '借款合同（新版）' })),
+      compileTemplate(template()),
+    ]);
+    expect(merged.map(profile => [profile.type, profile.name])).toEqual([
+      ['case_filing', '立案书'],
+      ['creditor_contract', '借款合同（新版）'],
+      ['guarantee_contract', '保证合同'],
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import {
+  addWorkingDays,
+  createHolidayCalendar,
+  isWorkingDay,
+  nextWorkingDay,
+  workingDaysBetween,
+} from '@/src/utils/holidayCalendar';
+
+const day = (text: string) => new Date(`${text}T00:00:00`);
+const key = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('法定节假日日历', () => {
+  it('法定假日休息，调休的周末上班', () => {
+    expect(isWorkingDay(day('2025-10-08'))).toBe(false);
+    expect(isWorkingDay(day('2025-09-28'))).toBe(true);
+    expect(isWorkingDay(day('2026-02-14'))).toBe(true);
+    expect(isWorkingDay(day('2026-02-16'))).toBe(false);
+    expect(isWorkingDay(day('2026-03-02'))).toBe(true);
+  });
+
+  it('未收录的年份只按周末判断', () => {
+    const calendar = createHolidayCalendar([]);
+    expect(isWorkingDay(day('2025-10-01'), calendar)).toBe(true);
+    expect(isWorkingDay(day('2025-10-04'), calendar)).toBe(false);
+  });
+
+  it('跨越国庆假期加减工作日', () => {
+    // 2025-09-30 之后依次为国庆假期 10-01 至 10-08，10-09 起上班
+    expect(key(addWorkingDays(day('2025-09-30'), 1))).toBe('2025-10-09');
+    expect(key(addWorkingDays(day('2025-10-09'), -1))).toBe('2025-09-30');
+    expect(key(addWorkingDays(day('2025-09-26'), 1))).toBe('2025-09-28');
+    expect(key(addWorkingDays(day('2025-09-30'), 0))).toBe('2025-09-30');
+  });
+
+  it('统计两个日期之间的工作日并顺延到工作日', () => {
+    expect(workingDaysBetween(day('2025-09-30'), day('2025-10-10'))).toBe(2);
+    expect(workingDaysBetween(day('2025-10-10'), day('2025-09-30'))).toBe(-2);
+    expect(workingDaysBetween(day('2025-09-30'), day('2025-09-30'))).toBe(0);
+    expect(key(nextWorkingDay(day('2026-10-03')))).toBe('2026-10-08');
+    expect(key(nextWorkingDay(day('2026-10-10')))).toBe('2026-10-10');
+  });
+});
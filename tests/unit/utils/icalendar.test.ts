@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { buildICalendar, escapeText, foldLine } from '@/src/utils/icalendar';
+
+const now = new Date('2026-03-02T10:30:00Z');
+
+describe('iCalendar 生成', () => {
+  it('转义文本并按 75 个字节折行', () => {
+    expect(escapeText('会议;议程,第一项\n第二项\\')).toBe('会议\\;议程\\,第一项\\n第二项\\\\');
+
+    const folded = foldLine(`SUMMARY:${'期限'.repeat(30)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${'期限'.repeat(30)}`);
+  });
+
+  it('生成全天和定时事件', () => {
+    const content = buildICalendar(
+      [
+        {
+          uid: 'deadline-1@cuckoox',
+          summary: '[（2026）破1号] 最迟公告时间',
+          start: new Date('2026-03-09T00:00:00'),
+          all_day: true,
+          alarms: [{ minutes_before: 5 * 24 * 60, description: '临近期限' }],
+        },
+        {
+          uid: 'meeting-1@cuckoox',
+          summary: '第一次债权人会议',
+          start: new Date('2026-03-20T02:00:00Z'),
+          end: new Date('2026-03-20T04:00:00Z'),
+          all_day: false,
+          url: 'https://meet.example.com/1',
+        },
+      ],
+      { name: '我的案件期限', now }
+    );
+
+    expect(content.endsWith('\r\n')).toBe(true);
+    expect(content.split('\r\n').slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+    expect(content).toContain('DTSTAMP:20260302T103000Z');
+    expect(content).toContain('DTSTART;VALUE=DATE:20260309\r\nDTEND;VALUE=DATE:20260310');
+    expect(content).toContain('TRIGGER:-PT7200M');
+    expect(content).toContain('DTSTART:20260320T020000Z\r\nDTEND:20260320T040000Z');
+    expect(content).toContain('X-WR-CALNAME:我的案件期限');
+    expect(content.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * 利息计算引擎单元测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  calculateInterest,
+  countDays,
+  getBenchmarkRate,
+  toDayNumber,
+  DEFAULT_BENCHMARK_RATES
+} from '@/src/utils/interestCalculator';
+
+describe('interestCalculator', () => {
+  describe('countDays', () => {
+    test('实际天数惯例应按日历天数计算', () => {
+      expect(countDays(toDayNumber('2024-01-01'), toDayNumber('2024-03-01'), 'actual/365')).toBe(60);
+    });
+
+    test('30/360 惯例每月按30天计算', () => {
+      expect(countDays(toDayNumber('2024-01-31'), toDayNumber('2024-03-01'), '30/360')).toBe(31);
+      expect(countDays(toDayNumber('2024-01-15'), toDayNumber('2025-01-15'), '30/360')).toBe(360);
+    });
+  });
+
+  describe('calculateInterest', () => {
+    test('应该按约定年利率计算单利', () => {
+      const result = calculateInterest({
+        principal: 100000,
+        interestRate: 3.65,
+        rateType: 'annual',
+        startDate: new Date(2023, 0, 1),
+        endDate: new Date(2023, 3, 11)
+      });
+
+      expect(result.days).toBe(100);
+      expect(result.interest).toBe(1000);
+      expect(result.totalAmount).toBe(101000);
+      expect(result.breakdown).toHaveLength(1);
+      expect(result.formula).toContain('100000.00 × 3.65% × 100 ÷ 365');
+    });
+
+    test('日利率和月利率应折算为年利率', () => {
+      const daily = calculateInterest({
+        principal: 10000,
+        interestRate: 0.05,
+        rateType: 'daily',
+        startDate: new Date(2023, 0, 1),
+        endDate: new Date(2023, 0, 11),
+        dayCountConvention: 'actual/360'
+      });
+      expect(daily.interest).toBe(50);
+
+      const monthly = calculateInterest({
+        principal: 10000,
+        interestRate: 1,
+        rateType: 'monthly',
+        startDate: new Date(2023, 0, 1),
+        endDate: new Date(2023, 6, 1),
+        dayCountConvention: '30/360'
+      });
+      expect(monthly.interest).toBe(600);
+    });
+
+    test('按月复利应在结息日将利息计入本金', () => {
+      const result = calculateInterest({
+        principal: 10000,
+        interestRate: 12,
+        rateType: 'annual',
+        startDate: new Date(2023, 0, 1),
+        endDate: new Date(2023, 3, 1),
+        compoundFrequency: 'monthly',
+        dayCountConvention: '30/360'
+      });
+
+      expect(result.breakdown.map(item => item.principal)).toEqual([10000, 10100, 10201]);
+      expect(result.interest).toBe(303.01);
+    });
+
+    test('应该按LPR调整日分段计息并应用利率倍数', () => {
+      const result = calculateInterest({
+        principal: 100000,
+        interestRate: 0,
+        rateType: 'annual',
+        startDate: new Date(2023, 5, 1),
+        endDate: new Date(2023, 8, 1),
+        benchmarkRateType: 'LPR_1Y',
+        rateMultiplier: 1.5
+      });
+
+      expect(result.breakdown.map(item => item.period)).toEqual([
+        '2023-06-01 至 2023-06-20',
+        '2023-06-20 至 2023-08-21',
+        '2023-08-21 至 2023-09-01'
+      ]);
+      expect(result.breakdown.map(item => item.annualRate)).toEqual([5.475, 5.325, 5.175]);
+      expect(result.breakdown[0].rateDescription).toBe('一年期LPR 3.65% × 1.5');
+      expect(result.interest).toBe(
+        result.breakdown.reduce((sum, item) => Math.round((sum + item.interest) * 100) / 100, 0)
+      );
+    });
+
+    test('LPR实施前的期间应按贷款基准利率计息', () => {
+      expect(getBenchmarkRate(DEFAULT_BENCHMARK_RATES, 'LPR_1Y', '2019-01-01')).toMatchObject({
+        rate_type: 'PBOC_1Y',
+        rate: 4.35
+      });
+
+      const result = calculateInterest({
+        principal: 10000,
+        interestRate: 0,
+        rateType: 'annual',
+        startDate: new Date(2019, 7, 1),
+        endDate: new Date(2019, 8, 1),
+        benchmarkRateType: 'LPR_1Y'
+      });
+      expect(result.breakdown.map(item => item.annualRate)).toEqual([4.35, 4.25]);
+    });
+
+    test('应该在破产申请受理日停止计息', () => {
+      const result = calculateInterest({
+        principal: 100000,
+        interestRate: 3.65,
+        rateType: 'annual',
+        startDate: new Date(2023, 0, 1),
+        endDate: new Date(2023, 11, 31),
+        acceptanceDate: new Date(2023, 3, 11)
+      });
+
+      expect(result.stoppedAtAcceptance).toBe(true);
+      expect(result.days).toBe(100);
+      expect(result.interest).toBe(1000);
+      expect(result.formula).toContain('计息截止于破产申请受理日 2023-04-11');
+    });
+
+    test('受理日早于起息日时不计利息', () => {
+      const result = calculateInterest({
+        principal: 100000,
+        interestRate: 3.65,
+        rateType: 'annual',
+        startDate: new Date(2023, 5, 1),
+        endDate: new Date(2023, 11, 31),
+        acceptanceDate: new Date(2023, 0, 1)
+      });
+
+      expect(result.interest).toBe(0);
+      expect(result.breakdown).toEqual([]);
+    });
+
+    test('基准利率表缺少适用利率时应报错', () => {
+      expect(() => calculateInterest({
+        principal: 10000,
+        interestRate: 0,
+        rateType: 'annual',
+        startDate: new Date(2010, 0, 1),
+        endDate: new Date(2011, 0, 1),
+        benchmarkRateType: 'LPR_5Y'
+      })).toThrow('基准利率表中缺少五年期以上LPR在2010-01-01适用的利率');
+    });
+  });
+});
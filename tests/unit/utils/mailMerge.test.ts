@@ -0,0 +1,103 @@
+/**
+ * 邮件合并工具单元测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  CLAIM_REVIEW_NOTICE_TEMPLATE,
+  CLAIM_NOTICE_FIELDS,
+  buildClaimNoticeValues,
+  deltaToPlainText,
+  extractPlaceholders,
+  formatChineseDate,
+  mergeDeltaTemplate,
+  parseTemplateDelta
+} from '@/src/utils/mailMerge';
+import type { ClaimNoticeCandidate } from '@/src/types/claimNotice';
+
+const candidate: ClaimNoticeCandidate = {
+  claim_id: 'claim:c1',
+  claim_number: 'ZQ-001',
+  review_status: '部分通过',
+  review_comments: '利息计算超过受理日，予以调减',
+  creditor_id: 'creditor:k1',
+  creditor_name: '甲贸易有限公司',
+  case_id: 'case:1',
+  case_name: '乙公司破产清算案',
+  case_number: '(2026)浙01破1号',
+  asserted_nature: '普通债权',
+  asserted_total: 120000,
+  approved_nature: '普通债权',
+  approved_principal: 100000,
+  approved_interest: 5000.5,
+  approved_other_amount: 0,
+  approved_total: 105000.5,
+  currency: 'CNY'
+};
+
+describe('mailMerge', () => {
+  test('应替换文本中的占位符并保留格式属性，未知字段保持原样', () => {
+    const delta = {
+      ops: [
+        { insert: '致{{ creditor_name }}：', attributes: { bold: true } },
+        { insert: { image: 'seal.png' } },
+        { insert: '{{unknown}}\n' }
+      ]
+    };
+
+    const merged = mergeDeltaTemplate(delta, { creditor_name: '甲公司' });
+
+    expect(merged.ops[0]).toEqual({ insert: '致甲公司：', attributes: { bold: true } });
+    expect(merged.ops[1]).toEqual({ insert: { image: 'seal.png' } });
+    expect(merged.ops[2].insert).toBe('{{unknown}}\n');
+    expect(delta.ops[0].insert).toBe('致{{ creditor_name }}：');
+  });
+
+  test('默认模板中的占位符均为已登记的合并字段', () => {
+    const delta = parseTemplateDelta(CLAIM_REVIEW_NOTICE_TEMPLATE.content);
+    const placeholders = extractPlaceholders(delta);
+
+    expect(placeholders).toContain('objection_deadline');
+    placeholders.forEach(field => expect(CLAIM_NOTICE_FIELDS).toHaveProperty(field));
+  });
+
+  test('模板内容不是 Delta 时应报错', () => {
+    expect(() => parseTemplateDelta('not json')).toThrow('通知书模板格式无效');
+    expect(() => parseTemplateDelta('{"text":"x"}')).toThrow('通知书模板格式无效');
+  });
+
+  test('应根据审查结论生成合并字段值', () => {
+    const values = buildClaimNoticeValues(candidate, new Date(2026, 10, 2), new Date(2026, 9, 18));
+
+    expect(values).toMatchObject({
+      manager_name: '乙公司破产清算案管理人',
+      asserted_total: '120,000.00',
+      approved_interest: '5,000.50',
+      review_conclusion: '部分予以确认',
+      objection_deadline: '2026年11月2日',
+      notice_date: '2026年10月18日'
+    });
+
+    const rejected = buildClaimNoticeValues(
+      { ...candidate, review_status: '已驳回', review_comments: undefined, manager_organization: '丙律师事务所' },
+      new Date(2026, 10, 2)
+    );
+    expect(rejected).toMatchObject({
+      manager_name: '丙律师事务所',
+      approved_total: '0.00',
+      approved_nature: '—',
+      review_conclusion: '不予确认',
+      review_comments: '无'
+    });
+  });
+
+  test('合并默认模板后不应残留占位符', () => {
+    const delta = parseTemplateDelta(CLAIM_REVIEW_NOTICE_TEMPLATE.content);
+    const text = deltaToPlainText(mergeDeltaTemplate(delta, buildClaimNoticeValues(candidate, new Date(2026, 10, 2))));
+
+    expect(text).not.toContain('{{');
+    expect(text).toContain('甲贸易有限公司');
+    expect(text).toContain('请于2026年11月2日前向管理人书面提出');
+    expect(formatChineseDate(new Date(2026, 0, 5))).toBe('2026年1月5日');
+  });
+});
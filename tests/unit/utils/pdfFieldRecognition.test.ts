@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeFieldValue,
+  parseChineseAmount,
+  recognizeDocument,
+  type PdfTextItem,
+  type PdfTextPage,
+} from '@/src/utils/pdfFieldRecognition';
+
+const now = new Date('2026-03-02T10:30:00');
+const FONT = 12;
+
+// 按行构造文字块，每个字符宽度等于字号
+const page = (pageNumber: number, rows: (string | string[])[]): PdfTextPage => ({
+  pageNumber,
+  width: 595,
+  height: 842,
+  items: rows.flatMap((row, index): PdfTextItem[] => {
+    let x = 50;
+    return (Array.isArray(row) ? row : [row]).map(text => {
+      const item = { text, x, y: 80 + index * 24, width: Array.from(text).length * FONT, height: FONT };
+      x += item.width + FONT * 3;
+      return item;
+    });
+  }),
+});
+
+const fieldValues = (pages: PdfTextPage[]) =>
+  Object.fromEntries(recognizeDocument(pages, { fileId: 'f1', fileName: 'test.pdf', now }).fields.map(field => [field.name, field.value]));
+
+describe('字段取值规范化', () => {
+  it('识别大小写金额、百分比和日期', () => {
+    expect(parseChineseAmount('壹佰万元整')).toBe(1000000);
+    expect(parseChineseAmount('壹亿贰仟万零伍佰元叁角')).toBe(120000500.3);
+    expect(normalizeFieldValue('人民币 1,250,000.50元', 'currency')).toBe(1250000.5);
+    expect(normalizeFieldValue('300万元', 'currency')).toBe(3000000);
+    expect(normalizeFieldValue('4.35%', 'percentage')).toBeCloseTo(0.0435);
+    expect(normalizeFieldValue('2025年2月3日', 'date')).toBe('2025-02-03');
+    expect(normalizeFieldValue('2025年2月30日', 'date')).toBeNull();
+  });
+});
+
+describe('文书字段识别', () => {
+  it('识别债权合同字段，取值位置和置信度对应页面文字', () => {
+    const pages = [
+      page(1, [
+        '借款合同',
+        '合同编号：JK-2024-0018',
+        '贷款人：中国工商银行股份有限公司北京朝阳支行',
+        '借款人：北京甲乙科技有限公司',
+        '统一社会信用代码：91110105MA01ABCD2X',
+        ['借款金额：', '人民币壹佰万元整'],
+        '年利率：4.35%，逾期利率：6.525%',
+        '借款期限自2024年1月15日至2025年1月14日',
+      ]),
+      page(2, ['签订日期', '2024年1月10日']),
+    ];
+    const result = recognizeDocument(pages, { fileId: 'f1', fileName: 'contract.pdf', now });
+
+    expect(result.id).toBe('local-f1');
+    expect(result.status).toBe('completed');
+    expect(fieldValues(pages)).toEqual({
+      contract_number: 'JK-2024-0018',
+      creditor_name: '中国工商银行股份有限公司北京朝阳支行',
+      creditor_credit_code: '91110105MA01ABCD2X',
+      debtor_name: '北京甲乙科技有限公司',
+      principal_amount: 1000000,
+      interest_rate: 0.0435,
+      penalty_rate: 0.06525,
+      start_date: '2024-01-15',
+      maturity_date: '2025-01-14',
+      contract_date: '2024-01-10',
+    });
+
+    const amount = result.fields.find(field => field.name === 'principal_amount')!;
+    // 第二个文字块从“借款金额：”5个字和3个字宽的间距之后开始
+    expect(amount.position).toEqual({ x: 50 + FONT * 8, y: 80 + 5 * 24, width: FONT * 8, height: FONT });
+    expect(amount.confidence).toBe(0.95);
+
+    const contractDate = result.fields.find(field => field.name === 'contract_date')!;
+    expect(contractDate.pageNumber).toBe(2);
+    expect(contractDate.confidence).toBe(0.8);
+    expect(result.highlightRegions.find(region => region.fieldName === 'contract_date')).toMatchObject({
+      pageNumber: 2,
+      color: '#ff9800',
+    });
+    expect(result.confidence).toBe(0.94);
+  });
+
+  it('识别立案书字段', () => {
+    expect(fieldValues([
+      page(1, [
+        '破产申请立案审批表',
+        '案号：（2026）京01破12号',
+        '受理法院：北京市第一中级人民法院',
+        '申请人：北京丙丁贸易有限公司',
+        '被申请人：北京甲乙科技有限公司',
+        '统一社会信用代码：91110105MA01ABCD2X',
+        '法定代表人：张三',
+        '申请日期：2026年1月5日  受理日期：2026年2月10日',
+      ]),
+    ])).toEqual({
+      case_number: '（2026）京01破12号',
+      court_name: '北京市第一中级人民法院',
+      applicant_name: '北京丙丁贸易有限公司',
+      debtor_name: '北京甲乙科技有限公司',
+      debtor_credit_code: '91110105MA01ABCD2X',
+      legal_representative: '张三',
+      filing_date: '2026-01-05',
+      acceptance_date: '2026-02-10',
+    });
+  });
+
+  it('没有文字层或无法判断类型时返回失败结果', () => {
+    const scanned = recognizeDocument([{ pageNumber: 1, width: 595, height: 842, items: [] }], { fileId: 'f2', fileName: 'scan.pdf', now });
+    expect(scanned.status).toBe('failed');
+    expect(scanned.error).toContain('OCR');
+
+    const unknown = recognizeDocument([page(1, ['会议纪要'])], { fileId: 'f3', fileName: 'memo.pdf', now });
+    expect(unknown.status).toBe('failed');
+    expect(unknown.error).toBe('无法识别文书类型');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import path from 'node:path';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { PdfWriter, measureTextUnits, wrapText } from '@/src/utils/pdfWriter';
+
+const CMAP_URL = path.resolve('node_modules/pdfjs-dist/cmaps') + '/';
+
+/**
+ * 以不带任何中文字体的阅读器打开PDF：只提供pdf.js自带的CMap，不使用系统字体和标准字体数据
+ */
+const openWithoutFontPack = async (bytes: Uint8Array) => {
+  const pdf = await getDocument({
+    data: bytes,
+    cMapUrl: CMAP_URL,
+    cMapPacked: true,
+    useSystemFonts: false,
+    disableFontFace: true
+  }).promise;
+  return pdf.getPage(1);
+};
+
+const buildReport = () =>
+  new PdfWriter({ title: '债权统计报表' })
+    .addHeading('债权统计报表')
+    .addParagraph('测试公司破产清算案 ABC 123')
+    .addTable([{ header: '债权人' }, { header: '确认金额', align: 'right' }], [['某某银行', 1000]]);
+
+describe('pdfWriter', () => {
+  it('按全角和半角宽度估算文本并换行', () => {
+    expect(measureTextUnits('债权AB')).toBe(3);
+    expect(wrapText('一二三四五六', 10, 30)).toEqual(['一二三', '四五六']);
+  });
+
+  it('未安装中文字体包的阅读器可以通过CMap还原中文文本', async () => {
+    const page = await openWithoutFontPack(buildReport().toBytes());
+
+    const content = await page.getTextContent();
+    const texts = content.items.map(item => (item as TextItem).str);
+
+    expect(texts).toContain('债权统计报表');
+    expect(texts).toContain('测试公司破产清算案 ABC 123');
+    expect(texts).toContain('某某银行');
+    expect(texts).toContain('第 1 页 / 共 1 页');
+  });
+
+  it('字体不嵌入PDF，阅读器以系统字体替代显示', async () => {
+    const page = await openWithoutFontPack(buildReport().toBytes());
+    await page.getOperatorList();
+
+    const [fontId] = Object.keys((await page.getTextContent()).styles);
+    const font = page.commonObjs.get(fontId);
+
+    expect(font.name).toBe('STSong-Light');
+    expect(font.missingFile).toBe(true);
+    expect(font.fallbackName).toBe('serif');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import {
+  evaluateCondition,
+  parseCondition,
+  validateCondition,
+  ReminderConditionError,
+} from '@/src/utils/reminderCondition';
+
+const today = new Date('2026-03-02T10:30:00');
+const fields = {
+  acceptance_date: '2026-02-10T00:00:00',
+  announcement_date: '2025-12-05T00:00:00',
+  claim_submission_end_date: '2026-03-06T00:00:00',
+  first_creditor_meeting_date: null,
+};
+
+const run = (condition: string, phaseDeadline: Date | null = null) =>
+  evaluateCondition(condition, { fields, today, phaseDeadline });
+
+describe('触发条件解析', () => {
+  it('解析运算优先级', () => {
+    expect(parseCondition('is_set(acceptance_date) or not is_set(announcement_date) and days_until(today) > 1')).toMatchObject({
+      kind: 'logical',
+      op: 'or',
+      right: { kind: 'logical', op: 'and', left: { kind: 'not' } },
+    });
+  });
+
+  it('报告语法错误的位置', () => {
+    expect(validateCondition('days_until(acceptance_date + 25d) <=')).toBe('表达式不完整（第 37 个字符）');
+    expect(validateCondition('days_until(hearing_date) < 3')).toBe('未知字段：hearing_date（第 12 个字符）');
+    expect(validateCondition('due_within(acceptance_date)')).toContain('需要 2 个参数');
+    expect(validateCondition('eval(today)')).toBe('未知函数：eval（第 1 个字符）');
+    expect(validateCondition('')).toBe('触发条件不能为空');
+    expect(validateCondition('due_within(受理时间 + 25天, 5) 且 is_working_day(今天)')).toBeNull();
+  });
+});
+
+describe('触发条件计算', () => {
+  it('日期加期间并判断剩余天数', () => {
+    const result = run('due_within(acceptance_date + 25d, 5)');
+    expect(result.matched).toBe(true);
+    expect(format(result.target!, 'yyyy-MM-dd')).toBe('2026-03-07');
+
+    expect(run('due_within(acceptance_date + 25d, 4)').matched).toBe(false);
+    expect(run('days_until(announcement_date + 3m) == 3').matched).toBe(true);
+    expect(run('days_since(acceptance_date) >= 2w').matched).toBe(true);
+  });
+
+  it('兼容原有的中文条件写法', () => {
+    const result = run('受理时间+25天-当前时间 <= 5天');
+    expect(result.matched).toBe(true);
+    expect(format(result.target!, 'yyyy-MM-dd')).toBe('2026-03-07');
+    expect(run('公告时间+3个月-当前时间 <= 2天').matched).toBe(false);
+  });
+
+  it('按工作日计算期限', () => {
+    // 2026-03-02 为周一，03-06 为周五
+    expect(run('working_days_until(claim_submission_end_date) == 4').matched).toBe(true);
+    expect(run('due_within(claim_submission_end_date, 3wd)').matched).toBe(false);
+    expect(run('due_within(claim_submission_end_date, 4wd)').matched).toBe(true);
+    expect(run('is_working_day(today)').matched).toBe(true);
+    // 02-15 至 02-23 为春节假期
+    expect(run('next_working_day(acceptance_date + 5d) == acceptance_date + 14d').matched).toBe(true);
+  });
+
+  it('字段为空时条件不成立', () => {
+    expect(run('due_within(first_creditor_meeting_date + 15d, 3)').matched).toBe(false);
+    expect(run('not is_set(first_creditor_meeting_date)').matched).toBe(true);
+    expect(run('days_until(phase_deadline) <= 5').matched).toBe(false);
+    expect(run('days_until(phase_deadline) <= 5', new Date('2026-03-04T00:00:00')).matched).toBe(true);
+  });
+
+  it('类型不匹配时报错', () => {
+    expect(() => run('acceptance_date + 5')).toThrow(ReminderConditionError);
+    expect(() => run('days_until(acceptance_date)')).toThrow('条件的结果必须是真/假，实际为数字');
+    expect(() => run('days_until(acceptance_date) < 1m')).toThrow('按月或年计的期间不能与天数比较');
+  });
+});
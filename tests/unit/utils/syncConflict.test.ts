@@ -0,0 +1,69 @@
+/**
+ * 离线同步冲突工具单元测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { RecordId } from 'surrealdb';
+import {
+  buildResolvedData,
+  getConflictingFields,
+  getLocalChanges,
+  getRemoteChangedFields,
+  hasRemoteChangedSince,
+  isSameValue
+} from '@/src/utils/syncConflict';
+
+describe('syncConflict', () => {
+  test('应该深度比较字段值，RecordId 与日期按字符串比较', () => {
+    expect(isSameValue({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(true);
+    expect(isSameValue(new RecordId('creditor', 'a'), new RecordId('creditor', 'a'))).toBe(true);
+    expect(isSameValue(new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'))).toBe(true);
+    expect(isSameValue(undefined, null)).toBe(true);
+    expect(isSameValue(1, '1')).toBe(false);
+  });
+
+  test('应该优先按版本号判断远程是否已修改', () => {
+    const base = { current_version: 2, updated_at: '2026-01-01T00:00:00Z' };
+    expect(hasRemoteChangedSince({ current_version: 3, updated_at: '2025-01-01T00:00:00Z' }, base, 0)).toBe(true);
+    expect(hasRemoteChangedSince({ current_version: 2, updated_at: '2027-01-01T00:00:00Z' }, base, 0)).toBe(false);
+  });
+
+  test('没有版本号时按 updated_at 判断，缺少基线时以入队时间为准', () => {
+    const queuedAt = new Date('2026-05-01T00:00:00Z').getTime();
+    expect(hasRemoteChangedSince({ updated_at: '2026-04-01T00:00:00Z' }, { updated_at: '2026-03-01T00:00:00Z' }, queuedAt)).toBe(true);
+    expect(hasRemoteChangedSince({ updated_at: '2026-04-01T00:00:00Z' }, undefined, queuedAt)).toBe(false);
+    expect(hasRemoteChangedSince({ updated_at: '2026-06-01T00:00:00Z' }, undefined, queuedAt)).toBe(true);
+    expect(hasRemoteChangedSince({}, undefined, queuedAt)).toBe(false);
+  });
+
+  test('只有本地和远程都改动且取值不同的字段才算冲突', () => {
+    const base = { amount: 100, remark: '原备注', status: 'draft' };
+    const local = { amount: 120, remark: '本地备注', status: 'draft', updated_at: 'x' };
+    const remote = { amount: 150, remark: '原备注', status: 'submitted', updated_at: 'y' };
+
+    expect(getConflictingFields(local, remote, base)).toEqual(['amount']);
+    // 没有基线时无法区分谁改动了字段，取值不同即视为冲突
+    expect(getConflictingFields(local, remote)).toEqual(['amount', 'remark', 'status']);
+    expect(getLocalChanges(local, base)).toEqual({ amount: 120, remark: '本地备注' });
+    expect(getRemoteChangedFields(remote, base)).toEqual(['amount', 'status']);
+  });
+
+  test('应该按逐字段选择生成写入数据', () => {
+    const local = { amount: 120, remark: '本地备注', currency: 'CNY', id: 'claim:1' };
+    const resolved = buildResolvedData(
+      local,
+      ['amount', 'remark'],
+      { amount: 'merged', remark: 'remote' },
+      { amount: 130 }
+    );
+
+    expect(resolved).toEqual({ currency: 'CNY', amount: 130 });
+    // 提供基线时未改动的本地字段不会覆盖远程
+    expect(buildResolvedData(local, ['amount'], { amount: 'local' }, {}, { currency: 'CNY' })).toEqual({
+      remark: '本地备注',
+      amount: 120
+    });
+    expect(() => buildResolvedData(local, ['amount'], {})).toThrow('请选择字段 amount 的处理方式');
+    expect(() => buildResolvedData(local, ['amount'], { amount: 'merged' })).toThrow('请填写字段 amount 的合并结果');
+  });
+});
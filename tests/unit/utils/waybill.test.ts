@@ -0,0 +1,73 @@
+/**
+ * 快递单工具单元测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  WAYBILL_TEMPLATES,
+  assignTrackingNumbers,
+  buildWaybillPrintHtml,
+  computeS10CheckDigit,
+  encodeCode128,
+  isValidTrackingNumber
+} from '@/src/utils/waybill';
+
+describe('waybill', () => {
+  test('应该计算 S10 运单号校验位', () => {
+    // 万国邮联 S10 标准示例：RA473124829GB
+    expect(computeS10CheckDigit('47312482')).toBe(9);
+    expect(isValidTrackingNumber('EMS', 'RA473124829GB')).toBe(true);
+    expect(isValidTrackingNumber('EMS', 'RA473124828GB')).toBe(false);
+    expect(isValidTrackingNumber('EMS', '1171234567890')).toBe(true);
+  });
+
+  test('应该按快递公司校验运单号格式', () => {
+    expect(isValidTrackingNumber('SF', 'SF1234567890123')).toBe(true);
+    expect(isValidTrackingNumber('SF', '123456789012')).toBe(true);
+    expect(isValidTrackingNumber('SF', 'JD1234567890123')).toBe(false);
+    expect(isValidTrackingNumber('JD', 'JDVA12345678901')).toBe(true);
+    expect(isValidTrackingNumber('JD', 'SF1234567890123')).toBe(false);
+  });
+
+  test('应该从起始单号连号分配并保持位数', () => {
+    expect(assignTrackingNumbers('sf0000000000099', 3)).toEqual([
+      'SF0000000000099',
+      'SF0000000000100',
+      'SF0000000000101'
+    ]);
+    expect(assignTrackingNumbers('RA473124829GB', 2)).toEqual(['RA473124829GB', 'RA473124832GB']);
+    expect(() => assignTrackingNumbers('999', 2)).toThrow('运单号序号超出范围');
+    expect(() => assignTrackingNumbers('JDVA', 1)).toThrow('起始运单号必须以数字结尾');
+  });
+
+  test('应该生成带起止符和校验符的 Code 128 条码', () => {
+    const modules = encodeCode128('SF1');
+    // 起始符 + 3个字符 + 校验符各6个元素，终止符7个元素
+    expect(modules).toHaveLength(6 * 5 + 7);
+    expect(modules.slice(0, 6)).toEqual([2, 1, 1, 2, 1, 4]); // Start B
+    expect(modules.slice(-7)).toEqual([2, 3, 3, 1, 1, 1, 2]); // Stop
+    expect(() => encodeCode128('顺丰')).toThrow();
+  });
+
+  test('打印文档应使用模板纸张尺寸并转义收件信息', () => {
+    const html = buildWaybillPrintHtml(
+      WAYBILL_TEMPLATES.EMS,
+      [{
+        creditor_id: 'creditor:1',
+        recipient_name: '甲<公司>',
+        contact_person: '张三',
+        phone: '13800138000',
+        address: '杭州市西湖区',
+        tracking_number: 'RA473124829GB'
+      }],
+      { name: '某某律师事务所', contact_person: '王律师', phone: '0571-88886666', address: '杭州市文一路1号' },
+      '债权申报通知书'
+    );
+
+    expect(html).toContain('@page { size: 100mm 180mm; margin: 0; }');
+    expect(html).toContain('甲&lt;公司&gt;（张三）');
+    expect(html).toContain('RA473124829GB');
+    expect(html).toContain('托寄物：债权申报通知书（文件）');
+    expect(html.match(/class="label"/g)).toHaveLength(1);
+  });
+});
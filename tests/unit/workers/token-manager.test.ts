@@ -1,11 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { TokenManager, TokenInfo } from '../../../src/workers/token-manager';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TokenManager, TokenInfo, isSessionExpiredError } from '../../../src/workers/token-manager';
 import { RecordId } from 'surrealdb';
 
 // Mock SurrealDB
+const mockUpsertContent = vi.fn();
 const mockLocalDb = {
   query: vi.fn(),
-  upsert: vi.fn(),
+  upsert: vi.fn(() => ({ content: mockUpsertContent })),
   select: vi.fn(),
   delete: vi.fn(),
   close: vi.fn(),
@@ -44,8 +45,8 @@ describe('TokenManager', () => {
 
     await tokenManager.storeToken(tokenInfo);
 
-    expect(mockLocalDb.upsert).toHaveBeenCalledWith(
-      new RecordId('tokens', 'current'),
+    expect(mockLocalDb.upsert).toHaveBeenCalledWith(new RecordId('tokens', 'current'));
+    expect(mockUpsertContent).toHaveBeenCalledWith(
       expect.objectContaining({
         access_token: 'test-access-token',
         refresh_token: 'test-refresh-token',
@@ -164,4 +165,86 @@ describe('TokenManager', () => {
     const hasTenantCode = await tokenManager.hasTenantCode();
     expect(hasTenantCode).toBe(false);
   });
-});
\ No newline at end of file
+});
+
+describe('TokenManager 令牌刷新', () => {
+  const mockFetch = vi.fn();
+  const authenticate = vi.fn();
+  const onTokenRefreshed = vi.fn();
+  const onSessionExpired = vi.fn();
+  let tokenManager: TokenManager;
+
+  const refreshResponse = (accessToken: string) => ({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve({ access_token: accessToken, refresh_token: 'new-refresh-token', expires_in: 3600 })
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', mockFetch);
+    authenticate.mockResolvedValue(undefined);
+    mockLocalDb.select.mockResolvedValue(null);
+    tokenManager = new TokenManager({
+      apiUrl: 'http://localhost:8082',
+      maxRetries: 0,
+      sessionWaitTimeout: 1000,
+      authenticate,
+      onTokenRefreshed,
+      onSessionExpired,
+    });
+    await tokenManager.initialize(mockLocalDb as any);
+    await tokenManager.startSession({ access_token: 'old-access-token', refresh_token: 'old-refresh-token', expires_in: 3600 });
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    tokenManager.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('并发刷新只请求一次，并用新令牌认证远程数据库', async () => {
+    mockFetch.mockResolvedValueOnce(refreshResponse('new-access-token'));
+
+    const [first, second] = await Promise.all([tokenManager.refreshToken(), tokenManager.refreshToken()]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledWith('http://localhost:8082/auth/refresh', expect.objectContaining({
+      body: JSON.stringify({ refresh_token: 'old-refresh-token' })
+    }));
+    expect(first).toBe(second);
+    expect(authenticate).toHaveBeenCalledWith('new-access-token');
+    expect(onTokenRefreshed).toHaveBeenCalledWith(expect.objectContaining({ access_token: 'new-access-token' }));
+  });
+
+  it('RPC因会话过期失败时刷新令牌后重试', async () => {
+    mockFetch.mockResolvedValueOnce(refreshResponse('new-access-token'));
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('The session has expired'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(tokenManager.withSessionRetry(task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('刷新失败时通知会话过期，重新登录后继续执行等待的RPC', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401, json: () => Promise.resolve({}) });
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('The session has expired'))
+      .mockResolvedValueOnce('ok');
+
+    const pending = tokenManager.withSessionRetry(task);
+    await vi.waitFor(() => expect(onSessionExpired).toHaveBeenCalledTimes(1));
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await tokenManager.startSession({ access_token: 'relogin-access-token', refresh_token: 'relogin-refresh-token', expires_in: 3600 });
+
+    await expect(pending).resolves.toBe('ok');
+    expect(authenticate).toHaveBeenCalledWith('relogin-access-token');
+  });
+
+  it('识别会话过期错误', () => {
+    expect(isSessionExpiredError(Object.assign(new Error('会话已过期，请重新登录'), { code: 'SESSION_EXPIRED' }))).toBe(true);
+    expect(isSessionExpiredError(new Error('Table not found'))).toBe(false);
+  });
+});
@@ -128,6 +128,9 @@ export default defineConfig(({ mode }) => {
         },
       },
     },
+    worker: {
+      format: "es", // PDF解析worker中pdf.js按需加载模块，需使用ES模块格式
+    },
     optimizeDeps: {
       include: [
         "@mui/material",